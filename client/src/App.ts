@@ -430,7 +430,7 @@ export class App {
         { id: 'map', label: 'Map', icon: navImg('map', 'Map') },
         { id: 'items', label: 'Char', icon: navImg('items', 'Char') },
         { id: 'craft', label: 'Craft', icon: navImg('craft', 'Craft') },
-        // Social opens a fly-out submenu with the three sub-views; the
+        // Social opens a fly-out submenu with the four sub-views; the
         // pill bar inside the screen is gone in favor of this.
         {
           id: 'social',
@@ -441,6 +441,7 @@ export class App {
             { id: 'party', label: 'Party', badge: 'party-invites' },
             { id: 'guild', label: 'Guild' },
             { id: 'users', label: 'Leaderboard', badge: 'friend-requests' },
+            { id: 'auction', label: 'Auction' },
           ],
         },
         { id: 'settings', label: 'Settings', icon: navImg('settings', 'Set') },
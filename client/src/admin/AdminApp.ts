@@ -29,12 +29,16 @@ import { NpcsTab } from './tabs/NpcsTab';
 import { QuestsTab } from './tabs/QuestsTab';
 import { ZonesTab } from './tabs/ZonesTab';
 import { EncountersTab } from './tabs/EncountersTab';
+import { BattleSimTab } from './tabs/BattleSimTab';
 import { TileTypesTab } from './tabs/TileTypesTab';
 import { DungeonsTab } from './tabs/DungeonsTab';
 import { MapTab } from './tabs/MapTab';
 import { MapsTab } from './tabs/MapsTab';
 import { VersionsTab } from './tabs/VersionsTab';
 import { SkillsTab } from './tabs/SkillsTab';
+import { StatusEffectsTab } from './tabs/StatusEffectsTab';
+import { AffixesTab } from './tabs/AffixesTab';
+import { SalvageTab } from './tabs/SalvageTab';
 import { XpTableTab } from './tabs/XpTableTab';
 
 export class AdminApp implements AdminContext {
@@ -63,12 +67,16 @@ export class AdminApp implements AdminContext {
     'quests':     new QuestsTab(),
     'zones':      new ZonesTab(),
     'encounters': new EncountersTab(),
+    'battle-sim': new BattleSimTab(),
     'tile-types': new TileTypesTab(),
     'dungeons':   new DungeonsTab(),
     'maps':       new MapsTab(),
     'map':        new MapTab(),
     'versions':   new VersionsTab(),
     'skills':     new SkillsTab(),
+    'status-effects': new StatusEffectsTab(),
+    'affixes': new AffixesTab(),
+    'salvage': new SalvageTab(),
     'xp-table':   new XpTableTab(),
   };
 
@@ -0,0 +1,71 @@
+/**
+ * Reusable per-damage-type resistance list editor (monster, item and set
+ * breakpoint forms). Rows hold a type select plus flat and percent inputs.
+ *
+ * Caller workflow:
+ *   1. Inject `renderResistanceEditor(prefix, resistances, readOnly)` into the
+ *      modal body (it renders its own fieldset + "+ Resistance" button).
+ *   2. After mounting, call `wireResistanceEditor(root, prefix)` once.
+ *   3. On save, `readResistanceRows(root, prefix)` returns the edited list.
+ *
+ * `prefix` scopes the DOM ids/classes so several editors can coexist
+ * (e.g. one per set breakpoint).
+ */
+import { ALL_DAMAGE_TYPES, formatDamageType } from '@idle-party-rpg/shared';
+import type { DamageType, Resistance } from '@idle-party-rpg/shared';
+
+/** `<option>` list of every damage type, with `selected` marked. */
+export function damageTypeOptionsHtml(selected: DamageType | undefined): string {
+  return ALL_DAMAGE_TYPES.map(t =>
+    `<option value="${t}" ${t === selected ? 'selected' : ''}>${formatDamageType(t)}</option>`
+  ).join('');
+}
+
+function rowHtml(prefix: string, resistance: Resistance): string {
+  return `
+    <div class="${prefix}-res-row admin-form-row">
+      <select class="${prefix}-res-type">${damageTypeOptionsHtml(resistance.damageType)}</select>
+      <label>Flat<input type="number" class="${prefix}-res-flat" value="${resistance.flatReduction}" step="1"></label>
+      <label>%<input type="number" class="${prefix}-res-percent" value="${resistance.percentReduction}" step="1"></label>
+      <button class="admin-btn admin-btn-sm admin-btn-danger ${prefix}-res-remove" type="button">×</button>
+    </div>
+  `;
+}
+
+/** Fieldset with one row per resistance. Negative values are vulnerabilities. */
+export function renderResistanceEditor(prefix: string, resistances: Resistance[] | undefined, readOnly: boolean): string {
+  const rows = (resistances ?? []).map(r => rowHtml(prefix, r)).join('');
+  return `
+    <fieldset class="admin-form-fieldset">
+      <legend>Resistances ${readOnly ? '' : `<button class="admin-btn admin-btn-sm" id="${prefix}-add-resistance" type="button">+ Resistance</button>`}</legend>
+      <div id="${prefix}-resistances-list">${rows}</div>
+    </fieldset>
+  `;
+}
+
+export function wireResistanceEditor(root: HTMLElement, prefix: string): void {
+  const wireRemovers = () => {
+    root.querySelectorAll<HTMLButtonElement>(`.${prefix}-res-remove`).forEach(btn => {
+      btn.onclick = () => btn.closest(`.${prefix}-res-row`)?.remove();
+    });
+  };
+  root.querySelector(`#${prefix}-add-resistance`)?.addEventListener('click', () => {
+    root.querySelector(`#${prefix}-resistances-list`)?.insertAdjacentHTML('beforeend', rowHtml(prefix, {
+      damageType: 'physical', flatReduction: 0, percentReduction: 0,
+    }));
+    wireRemovers();
+  });
+  wireRemovers();
+}
+
+/** Read the rows back, dropping all-zero entries. */
+export function readResistanceRows(root: HTMLElement, prefix: string): Resistance[] {
+  const resistances: Resistance[] = [];
+  root.querySelectorAll(`.${prefix}-res-row`).forEach(row => {
+    const damageType = (row.querySelector(`.${prefix}-res-type`) as HTMLSelectElement).value as DamageType;
+    const flatReduction = parseInt((row.querySelector(`.${prefix}-res-flat`) as HTMLInputElement).value) || 0;
+    const percentReduction = parseInt((row.querySelector(`.${prefix}-res-percent`) as HTMLInputElement).value) || 0;
+    if (flatReduction !== 0 || percentReduction !== 0) resistances.push({ damageType, flatReduction, percentReduction });
+  });
+  return resistances;
+}
@@ -0,0 +1,214 @@
+import type { Tab } from './Tab';
+import type { AdminContext } from '../AdminContext';
+import {
+  ALL_AFFIX_STATS,
+  ALL_DAMAGE_TYPES,
+  AFFIX_COUNT_BY_RARITY,
+  EQUIP_SLOTS,
+  TYPED_AFFIX_STATS,
+  getAffixText,
+  validateAffixDefinition,
+} from '@idle-party-rpg/shared';
+import type {
+  AffixDefinition,
+  AffixStat,
+  DamageType,
+  EquipSlot,
+  ItemRarity,
+} from '@idle-party-rpg/shared';
+import { escapeHtml, putAdmin, deleteAdmin } from '../api';
+import { openModal } from '../components/Modal';
+
+const RARITIES = Object.keys(AFFIX_COUNT_BY_RARITY) as ItemRarity[];
+
+export class AffixesTab implements Tab {
+  render(container: HTMLElement, ctx: AdminContext): void {
+    const content = ctx.getDisplayContent();
+    if (!content) {
+      container.innerHTML = '<div class="admin-page-empty">No data</div>';
+      return;
+    }
+    const affixes = Object.values(content.affixes ?? {})
+      .sort((a, b) => a.stat.localeCompare(b.stat) || a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    const readOnly = ctx.isReadOnly();
+
+    const rows = affixes.map(a => {
+      const actions = readOnly
+        ? `<td class="admin-actions-cell"><button class="admin-btn admin-btn-sm affix-view-btn" data-id="${escapeHtml(a.id)}">View</button></td>`
+        : `<td class="admin-actions-cell">
+            <button class="admin-btn admin-btn-sm affix-edit-btn" data-id="${escapeHtml(a.id)}">Edit</button>
+            <button class="admin-btn admin-btn-sm admin-btn-danger affix-delete-btn" data-id="${escapeHtml(a.id)}">Del</button>
+          </td>`;
+      return `
+        <tr>
+          <td>
+            <div>${escapeHtml(a.name)}</div>
+            <div class="admin-muted">${escapeHtml(a.id)}</div>
+          </td>
+          <td>${escapeHtml(this.rangeText(a))}</td>
+          <td>${escapeHtml(a.rarities.join(', '))}</td>
+          <td>${escapeHtml(a.slots?.join(', ') ?? 'All')}</td>
+          <td>${a.weight ?? 1}</td>
+          ${actions}
+        </tr>
+      `;
+    }).join('');
+
+    const addBtn = readOnly ? '' : '<button class="admin-btn" id="affix-add-btn">+ Add Affix</button>';
+    const countsHint = RARITIES
+      .filter(r => AFFIX_COUNT_BY_RARITY[r] > 0)
+      .map(r => `${r} ${AFFIX_COUNT_BY_RARITY[r]}`)
+      .join(' · ');
+
+    container.innerHTML = `
+      <div class="admin-page">
+        <div class="admin-page-header">
+          <h2>Affixes <span class="admin-count-badge">${affixes.length}</span></h2>
+          ${addBtn}
+        </div>
+        <p class="admin-form-hint">Affixes rolled per drop: ${escapeHtml(countsHint)}. Rolled values stay on the item when an affix is edited or deleted.</p>
+        <div class="admin-table-wrap">
+          <table class="admin-table">
+            <thead><tr><th>Name</th><th>Roll</th><th>Rarities</th><th>Slots</th><th>Weight</th><th>Actions</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      </div>
+    `;
+
+    container.querySelector('#affix-add-btn')?.addEventListener('click', () => this.openForm(null, ctx));
+    container.querySelectorAll<HTMLButtonElement>('.affix-edit-btn, .affix-view-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const affix = (ctx.getDisplayContent()?.affixes ?? {})[btn.dataset.id!];
+        if (affix) this.openForm(affix, ctx);
+      });
+    });
+    container.querySelectorAll<HTMLButtonElement>('.affix-delete-btn').forEach(btn => {
+      btn.addEventListener('click', () => this.deleteAffix(ctx, btn.dataset.id!));
+    });
+  }
+
+  /** "+1–3 Fire Damage" style range text, built from the player-facing affix wording. */
+  private rangeText(a: AffixDefinition): string {
+    const text = getAffixText({ affixId: a.id, name: a.name, stat: a.stat, damageType: a.damageType, value: a.max });
+    return a.min === a.max ? text : text.replace(String(a.max), `${a.min}–${a.max}`);
+  }
+
+  private openForm(affix: AffixDefinition | null, ctx: AdminContext): void {
+    const isNew = !affix;
+    const readOnly = ctx.isReadOnly();
+    const a: AffixDefinition = affix ?? {
+      id: '', name: '', stat: 'bonus_attack', min: 1, max: 3, rarities: ['uncommon', 'rare', 'epic', 'legendary'],
+    };
+
+    const statOptions = ALL_AFFIX_STATS.map(s =>
+      `<option value="${s}" ${a.stat === s ? 'selected' : ''}>${s}</option>`).join('');
+    const damageTypeOptions = ALL_DAMAGE_TYPES.map(t =>
+      `<option value="${t}" ${(a.damageType ?? 'fire') === t ? 'selected' : ''}>${t}</option>`).join('');
+    const rarityChecks = RARITIES.map(r => `
+      <label class="admin-form-checkbox">
+        <input type="checkbox" class="afx-rarity" value="${r}" ${a.rarities.includes(r) ? 'checked' : ''}>
+        ${r}
+      </label>
+    `).join('');
+    const slotChecks = EQUIP_SLOTS.map(s => `
+      <label class="admin-form-checkbox">
+        <input type="checkbox" class="afx-slot" value="${s}" ${a.slots?.includes(s) ? 'checked' : ''}>
+        ${s}
+      </label>
+    `).join('');
+
+    const formHtml = `
+      <div class="admin-form-grid">
+        <label>ID<input type="text" id="afx-id" value="${escapeHtml(a.id)}" ${isNew ? '' : 'disabled'}></label>
+        <label>Name<input type="text" id="afx-name" value="${escapeHtml(a.name)}"></label>
+        <label>Stat<select id="afx-stat">${statOptions}</select></label>
+        <label>Damage Type (damage / resistance)<select id="afx-damageType">${damageTypeOptions}</select></label>
+        <label>Min<input type="number" id="afx-min" value="${a.min}" min="0"></label>
+        <label>Max<input type="number" id="afx-max" value="${a.max}" min="1"></label>
+        <label>Weight<input type="number" id="afx-weight" value="${a.weight ?? ''}" min="0" step="0.1" placeholder="1"></label>
+      </div>
+      <span class="admin-form-hint">Crit chance and resistances roll whole percents.</span>
+      <fieldset class="admin-form-fieldset">
+        <legend>Rarities</legend>
+        <div class="admin-form-grid">${rarityChecks}</div>
+      </fieldset>
+      <fieldset class="admin-form-fieldset">
+        <legend>Slots (none checked = all)</legend>
+        <div class="admin-form-grid">${slotChecks}</div>
+      </fieldset>
+    `;
+    const actionsHtml = readOnly
+      ? `<div class="admin-modal-actions admin-modal-actions-readonly">
+          <span class="admin-form-hint admin-modal-readonly-hint">* Create a new draft to edit</span>
+          <button class="admin-btn admin-btn-secondary" id="afx-cancel" type="button">Close</button>
+        </div>`
+      : `<div class="admin-modal-actions">
+          <button class="admin-btn" id="afx-save" type="button">${isNew ? 'Add' : 'Save'}</button>
+          <button class="admin-btn admin-btn-secondary" id="afx-cancel" type="button">Cancel</button>
+        </div>`;
+    const bodyHtml = readOnly
+      ? `<fieldset class="admin-form-readonly-wrap" disabled>${formHtml}</fieldset>${actionsHtml}`
+      : `${formHtml}${actionsHtml}`;
+    const titlePrefix = isNew ? 'Add' : (readOnly ? 'View' : 'Edit');
+    const modal = openModal({
+      title: isNew ? 'Add Affix' : `${titlePrefix}: ${a.name}`,
+      bodyHtml,
+      width: '640px',
+    });
+    const root = modal.body;
+
+    root.querySelector('#afx-cancel')?.addEventListener('click', modal.close);
+    root.querySelector('#afx-save')?.addEventListener('click', () => this.saveForm(root, ctx, modal.close));
+  }
+
+  private async saveForm(root: HTMLElement, ctx: AdminContext, close: () => void): Promise<void> {
+    const str = (sel: string) => (root.querySelector(sel) as HTMLInputElement | HTMLSelectElement).value.trim();
+    const checkedValues = (sel: string) => Array.from(root.querySelectorAll<HTMLInputElement>(sel))
+      .filter(cb => cb.checked)
+      .map(cb => cb.value);
+
+    const stat = str('#afx-stat') as AffixStat;
+    const slots = checkedValues('.afx-slot') as EquipSlot[];
+    const weight = str('#afx-weight');
+
+    const affix: AffixDefinition = {
+      id: str('#afx-id'),
+      name: str('#afx-name'),
+      stat,
+      damageType: TYPED_AFFIX_STATS.includes(stat) ? str('#afx-damageType') as DamageType : undefined,
+      min: parseInt(str('#afx-min')),
+      max: parseInt(str('#afx-max')),
+      rarities: checkedValues('.afx-rarity') as ItemRarity[],
+      slots: slots.length > 0 ? slots : undefined,
+      weight: weight === '' ? undefined : parseFloat(weight),
+    };
+
+    const errors = validateAffixDefinition(affix);
+    if (errors.length > 0) { alert(errors.join('\n')); return; }
+
+    try {
+      const data = await putAdmin<{ affixes: Record<string, AffixDefinition> }>(
+        `/api/admin/affixes/${encodeURIComponent(affix.id)}${ctx.versionQueryParam()}`, affix);
+      ctx.patchVersionContent({ affixes: data.affixes });
+      close();
+      ctx.rerenderTab();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Network error');
+    }
+  }
+
+  private async deleteAffix(ctx: AdminContext, id: string): Promise<void> {
+    const affix = (ctx.getDisplayContent()?.affixes ?? {})[id];
+    if (!affix) return;
+    if (!confirm(`Delete affix "${affix.name}"? Items that already rolled it keep it.`)) return;
+    try {
+      const data = await deleteAdmin<{ affixes: Record<string, AffixDefinition> }>(
+        `/api/admin/affixes/${encodeURIComponent(id)}${ctx.versionQueryParam()}`);
+      ctx.patchVersionContent({ affixes: data.affixes });
+      ctx.rerenderTab();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Network error');
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import type { Tab } from './Tab';
+import type { AdminContext } from '../AdminContext';
+import type { ContentData } from '../types';
+import type { BattleSimReport, ClassName, SimPartyMember } from '@idle-party-rpg/shared';
+import { ALL_CLASS_NAMES, MAX_SIM_ITERATIONS } from '@idle-party-rpg/shared';
+import { escapeHtml, postAdmin } from '../api';
+
+const GRID_LABELS = ['Back top', 'Mid top', 'Front top', 'Back mid', 'Mid mid', 'Front mid', 'Back bottom', 'Mid bottom', 'Front bottom'];
+
+/**
+ * Headless battle simulator: build a hypothetical party, pick an encounter, and run the
+ * real combat engine N times server-side. Simulates whichever version is selected in the
+ * status bar, so a draft's balance can be checked before it is published.
+ */
+export class BattleSimTab implements Tab {
+  private party: SimPartyMember[] = [
+    { name: 'Member 1', className: 'Knight', level: 1, skillIds: [], equipmentIds: [], gridPosition: 5 },
+  ];
+  private encounterId = '';
+  private iterations = 1000;
+  private seed = '';
+  private report: BattleSimReport | null = null;
+  private running = false;
+
+  render(container: HTMLElement, ctx: AdminContext): void {
+    const content = ctx.getDisplayContent();
+    if (!content) {
+      container.innerHTML = '<div class="admin-page-empty">No data</div>';
+      return;
+    }
+    const encounters = Object.values(content.encounters);
+    if (!content.encounters[this.encounterId]) this.encounterId = encounters[0]?.id ?? '';
+
+    const encounterOptions = encounters.map(e =>
+      `<option value="${e.id}" ${e.id === this.encounterId ? 'selected' : ''}>${escapeHtml(e.name)}</option>`
+    ).join('');
+    const memberRows = this.party.map((m, i) => this.memberHtml(i, m, content)).join('');
+    const addBtn = this.party.length < 9
+      ? '<button class="admin-btn admin-btn-sm" id="sim-add-member" type="button">+ Member</button>'
+      : '';
+
+    container.innerHTML = `
+      <div class="admin-page">
+        <div class="admin-page-header"><h2>Battle Sim</h2></div>
+        <fieldset class="admin-form-fieldset">
+          <legend>Party ${addBtn}</legend>
+          <div id="sim-party">${memberRows}</div>
+        </fieldset>
+        <div class="admin-form-grid">
+          <label>Encounter<select id="sim-encounter">${encounterOptions}</select></label>
+          <label>Battles<input type="number" id="sim-iterations" value="${this.iterations}" min="1" max="${MAX_SIM_ITERATIONS}"></label>
+          <label>Seed<input type="text" id="sim-seed" value="${escapeHtml(this.seed)}" placeholder="random"></label>
+        </div>
+        <button class="admin-btn" id="sim-run" type="button" ${this.running ? 'disabled' : ''}>${this.running ? 'Running…' : 'Run Simulation'}</button>
+        <div id="sim-results">${this.report ? this.reportHtml(this.report) : ''}</div>
+      </div>
+    `;
+
+    container.querySelector('#sim-add-member')?.addEventListener('click', () => {
+      this.readForm(container);
+      const used = new Set(this.party.map(m => m.gridPosition));
+      const free = ([5, 2, 8, 4, 1, 7, 3, 0, 6] as const).find(p => !used.has(p)) ?? 0;
+      this.party.push({ name: `Member ${this.party.length + 1}`, className: 'Priest', level: 1, skillIds: [], equipmentIds: [], gridPosition: free });
+      this.render(container, ctx);
+    });
+    container.querySelectorAll<HTMLButtonElement>('.sim-remove-member').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.readForm(container);
+        this.party.splice(parseInt(btn.dataset.index!), 1);
+        this.render(container, ctx);
+      });
+    });
+    // Skill and item lists depend on class — re-render when it changes.
+    container.querySelectorAll<HTMLSelectElement>('.sim-class').forEach(select => {
+      select.addEventListener('change', () => {
+        this.readForm(container);
+        const member = this.party[parseInt(select.dataset.index!)];
+        member.skillIds = [];
+        member.equipmentIds = member.equipmentIds.filter(id => this.canEquip(content, id, member.className));
+        this.render(container, ctx);
+      });
+    });
+    container.querySelector('#sim-run')?.addEventListener('click', () => this.run(container, ctx));
+  }
+
+  private memberHtml(index: number, member: SimPartyMember, content: ContentData): string {
+    const classOptions = ALL_CLASS_NAMES.map(c =>
+      `<option value="${c}" ${c === member.className ? 'selected' : ''}>${c}</option>`
+    ).join('');
+    const gridOptions = GRID_LABELS.map((label, pos) =>
+      `<option value="${pos}" ${pos === member.gridPosition ? 'selected' : ''}>${pos} — ${label}</option>`
+    ).join('');
+    const skillOptions = Object.values(content.skills)
+      .filter(s => s.className === member.className)
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map(s => `<option value="${s.id}" ${member.skillIds.includes(s.id) ? 'selected' : ''}>${escapeHtml(s.name)} (${s.type})</option>`)
+      .join('');
+    const itemOptions = Object.values(content.items)
+      .filter(item => this.canEquip(content, item.id, member.className))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(item => `<option value="${item.id}" ${member.equipmentIds.includes(item.id) ? 'selected' : ''}>${escapeHtml(item.name)} [${item.equipSlot}]</option>`)
+      .join('');
+
+    return `
+      <div class="sim-member admin-form-row" data-index="${index}">
+        <label>Name<input type="text" class="sim-name" value="${escapeHtml(member.name)}"></label>
+        <label>Class<select class="sim-class" data-index="${index}">${classOptions}</select></label>
+        <label>Lv<input type="number" class="sim-level" value="${member.level}" min="1" max="100"></label>
+        <label>Grid<select class="sim-grid">${gridOptions}</select></label>
+        <label>Skills<select class="sim-skills" multiple size="4">${skillOptions}</select></label>
+        <label>Gear<select class="sim-items" multiple size="4">${itemOptions}</select></label>
+        ${this.party.length > 1 ? `<button class="admin-btn admin-btn-sm admin-btn-danger sim-remove-member" data-index="${index}" type="button">×</button>` : ''}
+      </div>
+    `;
+  }
+
+  private canEquip(content: ContentData, itemId: string, className: ClassName): boolean {
+    const item = content.items[itemId];
+    if (!item?.equipSlot) return false;
+    return !item.classRestriction?.length || item.classRestriction.includes(className);
+  }
+
+  /** Pull the current form values back into tab state so re-renders don't lose edits. */
+  private readForm(container: HTMLElement): void {
+    container.querySelectorAll<HTMLElement>('.sim-member').forEach(row => {
+      const member = this.party[parseInt(row.dataset.index!)];
+      if (!member) return;
+      member.name = (row.querySelector('.sim-name') as HTMLInputElement).value.trim();
+      member.className = (row.querySelector('.sim-class') as HTMLSelectElement).value as ClassName;
+      member.level = parseInt((row.querySelector('.sim-level') as HTMLInputElement).value) || 1;
+      member.gridPosition = parseInt((row.querySelector('.sim-grid') as HTMLSelectElement).value) as SimPartyMember['gridPosition'];
+      member.skillIds = Array.from((row.querySelector('.sim-skills') as HTMLSelectElement).selectedOptions, o => o.value);
+      member.equipmentIds = Array.from((row.querySelector('.sim-items') as HTMLSelectElement).selectedOptions, o => o.value);
+    });
+    this.encounterId = (container.querySelector('#sim-encounter') as HTMLSelectElement)?.value ?? '';
+    this.iterations = parseInt((container.querySelector('#sim-iterations') as HTMLInputElement)?.value) || 1;
+    this.seed = (container.querySelector('#sim-seed') as HTMLInputElement)?.value.trim() ?? '';
+  }
+
+  private async run(container: HTMLElement, ctx: AdminContext): Promise<void> {
+    this.readForm(container);
+    if (!this.encounterId) { alert('Pick an encounter.'); return; }
+    const seed = this.seed ? parseInt(this.seed) : undefined;
+    if (seed !== undefined && isNaN(seed)) { alert('Seed must be a number.'); return; }
+
+    // Simulate whichever version is on screen (the live view isn't a stored version).
+    const versionId = ctx.versions.some(v => v.id === ctx.selectedVersionId) ? ctx.selectedVersionId : null;
+    const query = versionId ? `?versionId=${encodeURIComponent(versionId)}` : '';
+
+    this.running = true;
+    this.render(container, ctx);
+    try {
+      const data = await postAdmin<{ report: BattleSimReport }>(`/api/admin/battle-sim${query}`, {
+        party: this.party,
+        encounterId: this.encounterId,
+        iterations: this.iterations,
+        seed,
+      });
+      this.report = data.report;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Network error');
+    }
+    this.running = false;
+    this.render(container, ctx);
+  }
+
+  private reportHtml(report: BattleSimReport): string {
+    const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+    const fmt = (n: number) => n.toFixed(1);
+    const rows = report.members.map(m => `<tr>
+      <td>${escapeHtml(m.name)}</td>
+      <td>${m.className}</td>
+      <td>${m.level}</td>
+      <td>${fmt(m.avgDamage)}</td>
+      <td>${fmt(m.avgHealing)}</td>
+      <td>${pct(m.deathRate)}</td>
+    </tr>`).join('');
+
+    return `
+      <div class="admin-page-section">
+        <h3>Results <span class="admin-form-hint">${report.iterations} battles · seed ${report.seed}</span></h3>
+        <div class="admin-stats">
+          <div class="admin-stat">
+            <span class="admin-stat-label">Win rate</span>
+            <span class="admin-stat-value">${pct(report.winRate)}</span>
+          </div>
+          <div class="admin-stat">
+            <span class="admin-stat-label">Avg ticks to kill</span>
+            <span class="admin-stat-value">${report.avgTicksToKill === null ? '—' : fmt(report.avgTicksToKill)}</span>
+          </div>
+          <div class="admin-stat">
+            <span class="admin-stat-label">Avg rounds</span>
+            <span class="admin-stat-value">${fmt(report.avgRounds)}</span>
+          </div>
+          <div class="admin-stat">
+            <span class="admin-stat-label">Timeouts</span>
+            <span class="admin-stat-value">${report.timeouts}</span>
+          </div>
+        </div>
+        <div class="admin-table-wrap">
+          <table class="admin-table">
+            <thead><tr><th>Member</th><th>Class</th><th>Lv</th><th>Avg Damage</th><th>Avg Healing</th><th>Death Rate</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      </div>
+    `;
+  }
+}
@@ -9,12 +9,16 @@ import type {
   ItemDefinition,
   EncounterDefinition,
   ClassName,
+  MonsterDefinition,
 } from '@idle-party-rpg/shared';
 import { ALL_CLASS_NAMES } from '@idle-party-rpg/shared';
 import { escapeHtml, putAdmin, deleteAdmin } from '../api';
 import { openModal, type ModalHandle } from '../components/Modal';
 
 export class DungeonsTab implements Tab {
+  /** Boss monster choices for floor rows — refreshed each time the form opens. */
+  private monsters: MonsterDefinition[] = [];
+
   render(container: HTMLElement, ctx: AdminContext): void {
     const content = ctx.getDisplayContent();
     if (!content) {
@@ -34,7 +38,7 @@ export class DungeonsTab implements Tab {
           </td>`;
       return `<tr>
         <td>${escapeHtml(d.name)}</td>
-        <td>${d.floors.length}</td>
+        <td>${d.floors.length}${d.floors.some(f => f.isBoss) ? ' <span class="admin-pill">boss</span>' : ''}</td>
         <td>${escapeHtml(reqs)}</td>
         ${actions}
       </tr>`;
@@ -102,6 +106,8 @@ export class DungeonsTab implements Tab {
     const encounters = Object.values(content.encounters)
       .slice()
       .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    this.monsters = Object.values(content.monsters)
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
 
     const reqs = d.entryRequirements ?? {};
     const classCheckboxes = ALL_CLASS_NAMES.map(cn => `
@@ -211,6 +217,9 @@ export class DungeonsTab implements Tab {
   private floorRowHtml(index: number, floor: DungeonFloor, encounters: EncounterDefinition[], items: ItemDefinition[]): string {
     const rewardRows = (floor.rewards ?? []).map((r, i) => this.rewardRowHtml(`df-floor-${index}-reward`, i, r, items)).join('');
     const encounterRows = (floor.encounterTable ?? []).map((e, i) => this.encounterRowHtml(`df-floor-${index}-enc`, i, e, encounters)).join('');
+    const bossOptions = `<option value="">— none —</option>` + this.monsters.map(m =>
+      `<option value="${escapeHtml(m.id)}" ${m.id === floor.bossMonsterId ? 'selected' : ''}>${escapeHtml(m.name)}${m.phases?.length ? ` (${m.phases.length} phases)` : ''}</option>`
+    ).join('');
     return `
       <fieldset class="admin-form-fieldset df-floor" data-floor-index="${index}">
         <legend>
@@ -225,7 +234,12 @@ export class DungeonsTab implements Tab {
             <input type="checkbox" class="df-floor-boss" ${floor.isBoss ? 'checked' : ''}>
             Boss floor
           </label>
+          <label>Boss Monster
+            <select class="df-floor-boss-monster">${bossOptions}</select>
+          </label>
+          <label>Boss Position<input type="number" class="df-floor-boss-pos" value="${floor.bossPosition ?? 4}" min="0" max="8"></label>
         </div>
+        <div class="admin-form-hint">On a boss floor the boss joins the rolled encounter (an empty table means it fights alone). Give the monster boss phases on the Monsters tab.</div>
         <div class="df-floor-grid-wrap">
           <div class="admin-form-hint">Floor layout (${floor.gridShape.cols}×${floor.gridShape.rows}). Cells are placeholders — content tools coming soon.</div>
           ${this.floorGridHtml(index, floor.gridShape.cols, floor.gridShape.rows)}
@@ -393,6 +407,8 @@ export class DungeonsTab implements Tab {
       const cols = parseInt((floorEl.querySelector('.df-floor-cols') as HTMLInputElement).value) || 3;
       const rows = parseInt((floorEl.querySelector('.df-floor-rows') as HTMLInputElement).value) || 3;
       const isBoss = (floorEl.querySelector('.df-floor-boss') as HTMLInputElement).checked;
+      const bossMonsterId = (floorEl.querySelector('.df-floor-boss-monster') as HTMLSelectElement).value;
+      const bossPosition = parseInt((floorEl.querySelector('.df-floor-boss-pos') as HTMLInputElement).value);
       const encounterTable: EncounterTableEntry[] = [];
       floorEl.querySelectorAll<HTMLElement>('.df-enc-row').forEach(row => {
         const encounterId = (row.querySelector('.df-enc-id') as HTMLSelectElement).value;
@@ -410,6 +426,10 @@ export class DungeonsTab implements Tab {
         encounterTable,
       };
       if (isBoss) floor.isBoss = true;
+      if (isBoss && bossMonsterId) {
+        floor.bossMonsterId = bossMonsterId;
+        if (bossPosition >= 0 && bossPosition <= 8 && bossPosition !== 4) floor.bossPosition = bossPosition as DungeonFloor['bossPosition'];
+      }
       if (rewards.length) floor.rewards = rewards;
       floors.push(floor);
     });
@@ -1,9 +1,10 @@
 import type { Tab } from './Tab';
 import type { AdminContext } from '../AdminContext';
-import { EQUIP_SLOTS, DISPLAY_EQUIP_SLOTS, ALL_CLASS_NAMES } from '@idle-party-rpg/shared';
-import type { ItemDefinition, ItemRarity, EquipSlot, SkillDefinition } from '@idle-party-rpg/shared';
+import { EQUIP_SLOTS, DISPLAY_EQUIP_SLOTS, ALL_CLASS_NAMES, DEFAULT_GEM_REMOVAL_COST, ALL_CONSUMABLE_EFFECT_KINDS, ALL_BOOSTER_STATS, formatDamageType, validateItemSockets, validateConsumableEffect, getConsumableEffectText } from '@idle-party-rpg/shared';
+import type { ItemDefinition, ItemRarity, EquipSlot, SkillDefinition, DamageType, ConsumableEffect, ConsumableEffectKind, BoosterStat } from '@idle-party-rpg/shared';
 import { escapeHtml, putAdmin, deleteAdmin } from '../api';
 import { openModal } from '../components/Modal';
+import { damageTypeOptionsHtml, readResistanceRows, renderResistanceEditor, wireResistanceEditor } from '../components/ResistanceEditor';
 
 const RARITIES: ItemRarity[] = ['janky', 'common', 'uncommon', 'rare', 'epic', 'legendary', 'heirloom'];
 
@@ -59,10 +60,16 @@ export class ItemsTab implements Tab {
       if (i.magicReductionMin != null && i.magicReductionMax != null && i.magicReductionMax > 0) {
         effects.push(`${i.magicReductionMin}-${i.magicReductionMax} MR`);
       }
+      if (i.stunResistance) effects.push(`${i.stunResistance}% Stun Res`);
+      if (i.dotResistance) effects.push(`${i.dotResistance}% DoT Res`);
+      if (i.debuffResistance) effects.push(`${i.debuffResistance}% Debuff Res`);
+      for (const r of i.resistances ?? []) effects.push(`${formatDamageType(r.damageType)} Res ${r.percentReduction}%/${r.flatReduction}`);
+      if (i.damageType) effects.push(`${formatDamageType(i.damageType)} dmg`);
       if (i.grantedSkillIds && i.grantedSkillIds.length > 0) {
         const names = i.grantedSkillIds.map(sid => content.skills?.[sid]?.name ?? sid).join(', ');
         effects.push(`Grants: ${names}`);
       }
+      if (i.sockets) effects.push(`${i.sockets} socket${i.sockets === 1 ? '' : 's'}`);
       const setName = itemSetMap.get(i.id) ?? '—';
 
       const actions = readOnly
@@ -72,7 +79,8 @@ export class ItemsTab implements Tab {
             <button class="admin-btn admin-btn-sm admin-btn-danger item-delete-btn" data-id="${i.id}">Del</button>
           </td>`;
 
-      const consumableTag = i.consumable ? ' <span class="admin-form-hint">(consumable)</span>' : '';
+      const consumableTag = i.consumable ? ' <span class="admin-form-hint">(consumable)</span>'
+        : i.gem ? ' <span class="admin-form-hint">(gem)</span>' : '';
       const emojiSwatch = i.iconEmoji
         ? `<span class="admin-thumb" style="display:inline-flex;align-items:center;justify-content:center;background:${i.iconColor ?? '#888'};border-radius:3px">${escapeHtml(i.iconEmoji)}</span>`
         : `<img src="/item-artwork/${i.id}.png" class="admin-thumb" onerror="this.style.display='none'">`;
@@ -81,8 +89,8 @@ export class ItemsTab implements Tab {
         <tr>
           <td>${emojiSwatch}${escapeHtml(i.name)}${consumableTag}</td>
           <td><span class="rarity-${i.rarity}">${i.rarity}</span></td>
-          <td>${i.equipSlot ?? (i.consumable ? 'consumable' : '—')}</td>
-          <td>${effects.length > 0 ? escapeHtml(effects.join(', ')) : (i.consumable ? 'Coming soon' : 'Material')}</td>
+          <td>${i.equipSlot ?? (i.consumable ? 'consumable' : i.gem ? 'gem' : '—')}</td>
+          <td>${effects.length > 0 ? escapeHtml(effects.join(', ')) : (i.consumableEffect ? getConsumableEffectText(i.consumableEffect) : i.consumable ? 'No effect' : 'Material')}</td>
           <td>${i.value ?? 1}</td>
           <td>${escapeHtml(setName)}</td>
           ${actions}
@@ -147,11 +155,16 @@ export class ItemsTab implements Tab {
     const isNew = !item;
     const readOnly = ctx.isReadOnly();
     const i = item ?? { id: '', name: '', rarity: 'common' as const };
+    const ce = item?.consumableEffect;
 
     const skills = Object.values(ctx.getDisplayContent()?.skills ?? {})
       .sort((a, b) => a.className.localeCompare(b.className) || a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
     const granted = new Set(i.grantedSkillIds ?? []);
     const skillRows = skills.map(s => this.skillChecklistRowHtml(s, granted.has(s.id))).join('');
+    const recipeOptions = Object.values(ctx.getDisplayContent()?.recipes ?? {})
+      .filter(r => r.discoverable)
+      .map(r => `<option value="${escapeHtml(r.id)}" ${ce?.recipeId === r.id ? 'selected' : ''}>${escapeHtml(r.name)}</option>`)
+      .join('');
 
     const rarityOptions = RARITIES.map(r =>
       `<option value="${r}" ${i.rarity === r ? 'selected' : ''}>${r}</option>`
@@ -185,15 +198,28 @@ export class ItemsTab implements Tab {
         <label>DR Max<input type="number" id="if-drMax" value="${i.damageReductionMax ?? 0}" min="0"></label>
         <label>MR Min<input type="number" id="if-mrMin" value="${i.magicReductionMin ?? 0}" min="0"></label>
         <label>MR Max<input type="number" id="if-mrMax" value="${i.magicReductionMax ?? 0}" min="0"></label>
+        <label>Stun Resist %<input type="number" id="if-stunRes" value="${i.stunResistance ?? 0}" min="0" max="100"></label>
+        <label>DoT Resist %<input type="number" id="if-dotRes" value="${i.dotResistance ?? 0}" min="0" max="100"></label>
+        <label>Debuff Resist %<input type="number" id="if-debuffRes" value="${i.debuffResistance ?? 0}" min="0" max="100"></label>
         <label>Value<input type="number" id="if-value" value="${i.value ?? 1}" min="0"></label>
+        <label>Sockets (gear)<input type="number" id="if-sockets" value="${i.sockets ?? 0}" min="0"></label>
+        <label>Weapon Damage Type
+          <select id="if-damageType"><option value="">Class default</option>${damageTypeOptionsHtml(i.damageType)}</select>
+        </label>
       </div>
+      ${renderResistanceEditor('if', i.resistances, readOnly)}
       <fieldset class="admin-form-fieldset">
         <legend>Display & Type</legend>
         <div class="admin-form-grid">
           <label class="admin-form-checkbox">
             <input type="checkbox" id="if-consumable" ${i.consumable ? 'checked' : ''}>
-            Consumable (potion etc. — shows "not usable yet" tooltip)
+            Consumable (potion etc. — used up from the inventory; set its effect below)
           </label>
+          <label class="admin-form-checkbox">
+            <input type="checkbox" id="if-gem" ${i.gem ? 'checked' : ''}>
+            Gem (stats and granted skills apply while socketed into equipped gear)
+          </label>
+          <label>Gem Removal Cost<input type="number" id="if-gemRemovalCost" value="${i.gemRemovalCost ?? ''}" min="0" placeholder="${DEFAULT_GEM_REMOVAL_COST}"></label>
           <label>Icon Emoji <input type="text" id="if-iconEmoji" value="${escapeHtml(i.iconEmoji ?? '')}" placeholder="🧪" maxlength="8"></label>
           <label>Icon Color <input type="color" id="if-iconColor" value="${escapeHtml(i.iconColor ?? '#888888')}"></label>
         </div>
@@ -201,6 +227,33 @@ export class ItemsTab implements Tab {
           ${ITEM_EMOJI_PALETTE.map(e => `<button type="button" class="if-emoji-pick" data-emoji="${escapeHtml(e)}" title="${escapeHtml(e)}" style="font-size:1.3em;padding:4px 6px;background:var(--admin-panel);border:1px solid var(--admin-border);border-radius:var(--admin-radius-sm);cursor:pointer;line-height:1">${escapeHtml(e)}</button>`).join('')}
         </div>
       </fieldset>
+      <fieldset class="admin-form-fieldset">
+        <legend>Consumable Effect</legend>
+        <span class="admin-form-hint">Heal amount is a fraction of max HP; booster amount a bonus fraction (0.5 = +50%). Buffs and boosters run for the duration in real time. Recipe items teach one discoverable recipe.</span>
+        <div class="admin-form-grid">
+          <label>Kind
+            <select id="if-ceKind">
+              <option value="">None</option>
+              ${ALL_CONSUMABLE_EFFECT_KINDS.map(k => `<option value="${k}" ${ce?.kind === k ? 'selected' : ''}>${k}</option>`).join('')}
+            </select>
+          </label>
+          <label>Amount<input type="number" id="if-ceAmount" value="${ce?.amount ?? ''}" min="0" step="0.05"></label>
+          <label>Boost (booster)
+            <select id="if-ceBoost">${ALL_BOOSTER_STATS.map(b => `<option value="${b}" ${ce?.boost === b ? 'selected' : ''}>${b}</option>`).join('')}</select>
+          </label>
+          <label>Duration (s)<input type="number" id="if-ceDuration" value="${ce?.durationSeconds ?? ''}" min="1"></label>
+          <label>Damage Dealt (buff)<input type="number" id="if-ceDamageDealt" value="${ce?.modifiers?.damageDealt ?? ''}" step="0.05"></label>
+          <label>Damage Taken (buff)<input type="number" id="if-ceDamageTaken" value="${ce?.modifiers?.damageTaken ?? ''}" step="0.05"></label>
+          <label>Dodge Chance (buff)<input type="number" id="if-ceDodge" value="${ce?.modifiers?.dodgeChance ?? ''}" min="0" max="1" step="0.05"></label>
+          <label>Bonus Damage (buff)<input type="number" id="if-ceBonusDamage" value="${ce?.modifiers?.bonusDamage ?? ''}" min="0"></label>
+          <label>Bonus Damage Type
+            <select id="if-ceBonusType"><option value="">Default (holy)</option>${damageTypeOptionsHtml(ce?.bonusDamageType)}</select>
+          </label>
+          <label>Recipe (learn_recipe)
+            <select id="if-ceRecipe"><option value="">(recipe…)</option>${recipeOptions}</select>
+          </label>
+        </div>
+      </fieldset>
       <fieldset class="admin-form-fieldset">
         <legend>Class Restriction</legend>
         <div class="admin-checkbox-row">${classCheckboxes}</div>
@@ -258,6 +311,7 @@ export class ItemsTab implements Tab {
       });
     });
 
+    wireResistanceEditor(root, 'if');
     this.wireSkillFilter(root);
   }
 
@@ -342,6 +396,36 @@ export class ItemsTab implements Tab {
     }
   }
 
+  /** Build the consumable effect from the form, keeping only the fields its kind uses. */
+  private readConsumableEffect(root: HTMLElement): ConsumableEffect | undefined {
+    const value = (sel: string) => (root.querySelector(sel) as HTMLInputElement | HTMLSelectElement).value.trim();
+    const num = (sel: string) => value(sel) === '' ? undefined : parseFloat(value(sel));
+    const kind = value('#if-ceKind') as ConsumableEffectKind | '';
+    if (!kind) return undefined;
+    const effect: ConsumableEffect = { kind };
+    if (kind === 'heal' || kind === 'booster') effect.amount = num('#if-ceAmount');
+    if (kind === 'booster') effect.boost = value('#if-ceBoost') as BoosterStat;
+    if (kind === 'buff') {
+      const modifiers: ConsumableEffect['modifiers'] = {};
+      const damageDealt = num('#if-ceDamageDealt');
+      const damageTaken = num('#if-ceDamageTaken');
+      const dodgeChance = num('#if-ceDodge');
+      const bonusDamage = num('#if-ceBonusDamage');
+      if (damageDealt) modifiers.damageDealt = damageDealt;
+      if (damageTaken) modifiers.damageTaken = damageTaken;
+      if (dodgeChance) modifiers.dodgeChance = dodgeChance;
+      if (bonusDamage) {
+        modifiers.bonusDamage = bonusDamage;
+        const bonusType = value('#if-ceBonusType') as DamageType | '';
+        if (bonusType) effect.bonusDamageType = bonusType;
+      }
+      effect.modifiers = modifiers;
+    }
+    if (kind === 'buff' || kind === 'booster') effect.durationSeconds = num('#if-ceDuration');
+    if (kind === 'learn_recipe') effect.recipeId = value('#if-ceRecipe') || undefined;
+    return effect;
+  }
+
   private async saveForm(root: HTMLElement, ctx: AdminContext, close: () => void): Promise<void> {
     const existingId = (root.querySelector('#if-id') as HTMLInputElement).value.trim();
     const name = (root.querySelector('#if-name') as HTMLInputElement).value.trim();
@@ -353,8 +437,16 @@ export class ItemsTab implements Tab {
     const damageReductionMax = parseInt((root.querySelector('#if-drMax') as HTMLInputElement).value) || 0;
     const magicReductionMin = parseInt((root.querySelector('#if-mrMin') as HTMLInputElement).value) || 0;
     const magicReductionMax = parseInt((root.querySelector('#if-mrMax') as HTMLInputElement).value) || 0;
+    const stunResistance = parseInt((root.querySelector('#if-stunRes') as HTMLInputElement).value) || 0;
+    const dotResistance = parseInt((root.querySelector('#if-dotRes') as HTMLInputElement).value) || 0;
+    const debuffResistance = parseInt((root.querySelector('#if-debuffRes') as HTMLInputElement).value) || 0;
     const value = parseInt((root.querySelector('#if-value') as HTMLInputElement).value) || 1;
+    const damageType = (root.querySelector('#if-damageType') as HTMLSelectElement).value as DamageType | '';
+    const resistances = readResistanceRows(root, 'if');
     const consumable = (root.querySelector('#if-consumable') as HTMLInputElement).checked;
+    const sockets = parseInt((root.querySelector('#if-sockets') as HTMLInputElement).value) || 0;
+    const gem = (root.querySelector('#if-gem') as HTMLInputElement).checked;
+    const gemRemovalCostRaw = (root.querySelector('#if-gemRemovalCost') as HTMLInputElement).value.trim();
     const iconEmoji = (root.querySelector('#if-iconEmoji') as HTMLInputElement).value.trim();
     const iconColorRaw = (root.querySelector('#if-iconColor') as HTMLInputElement).value;
 
@@ -383,8 +475,21 @@ export class ItemsTab implements Tab {
     if (bonusAttackMin > 0 || bonusAttackMax > 0) { item.bonusAttackMin = bonusAttackMin; item.bonusAttackMax = bonusAttackMax; }
     if (damageReductionMin > 0 || damageReductionMax > 0) { item.damageReductionMin = damageReductionMin; item.damageReductionMax = damageReductionMax; }
     if (magicReductionMin > 0 || magicReductionMax > 0) { item.magicReductionMin = magicReductionMin; item.magicReductionMax = magicReductionMax; }
+    if (stunResistance > 0) item.stunResistance = stunResistance;
+    if (dotResistance > 0) item.dotResistance = dotResistance;
+    if (debuffResistance > 0) item.debuffResistance = debuffResistance;
+    if (resistances.length > 0) item.resistances = resistances;
+    if (damageType && (equipSlot === 'mainhand' || equipSlot === 'twohanded')) item.damageType = damageType;
     if (value !== 1) item.value = value;
     if (consumable) item.consumable = true;
+    const consumableEffect = this.readConsumableEffect(root);
+    if (consumableEffect) item.consumableEffect = consumableEffect;
+    if (sockets > 0) item.sockets = sockets;
+    if (gem) item.gem = true;
+    if (gem && gemRemovalCostRaw !== '') item.gemRemovalCost = parseInt(gemRemovalCostRaw);
+
+    const socketErrors = [...validateItemSockets(item), ...validateConsumableEffect(item)];
+    if (socketErrors.length > 0) { alert(socketErrors.join('\n')); return; }
     if (iconEmoji) item.iconEmoji = iconEmoji;
     // Only persist iconColor if the user has set an emoji (otherwise the default rarity color applies).
     if (iconEmoji && iconColorRaw && iconColorRaw !== '#888888') item.iconColor = iconColorRaw;
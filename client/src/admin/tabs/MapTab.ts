@@ -11,6 +11,8 @@ import {
   TILE_CONFIGS,
   HEX_SIZE,
   DEFAULT_MAP_ID,
+  ALL_HARVEST_NODE_KINDS,
+  HARVEST_NODE_KIND_LABELS,
 } from '@idle-party-rpg/shared';
 import type {
   CubeCoord,
@@ -18,6 +20,8 @@ import type {
   WorldData,
   WorldTileDefinition,
   EncounterDefinition,
+  HarvestNode,
+  ItemDefinition,
 } from '@idle-party-rpg/shared';
 
 import type { Tab } from './Tab';
@@ -800,6 +804,10 @@ export class MapTab implements Tab {
           </select>
         </label>
         <div class="admin-form-coords">Coordinates (${tile.col}, ${tile.row})</div>
+        <label class="admin-form-checkbox">
+          <input type="checkbox" id="sidebar-stash" ${tile.stash ? 'checked' : ''}${disabled}>
+          Stash Room
+        </label>
         <label class="admin-form-checkbox">
           <input type="checkbox" id="sidebar-custom-encounters" ${tile.encounterTable?.length ? 'checked' : ''}${disabled}>
           Custom Encounters
@@ -807,6 +815,10 @@ export class MapTab implements Tab {
         <div id="sidebar-encounters-section" style="${tile.encounterTable?.length ? '' : 'display:none'}">
           ${this.encounterRowsHtml(tile, content ? Object.values(content.encounters) : [], readOnly)}
         </div>
+        <div class="admin-form-label-text">Harvest Nodes</div>
+        <div id="sidebar-harvest-section">
+          ${this.harvestRowsHtml(tile, content ? Object.values(content.items) : [], readOnly)}
+        </div>
         ${startBtnHtml}
         <div class="admin-map-sidebar-spacer"></div>
         ${deleteBtnHtml}
@@ -855,6 +867,13 @@ export class MapTab implements Tab {
       else delete this.selectedTile.requiredItemId;
       this.scheduleSave(ctx);
     });
+    const stashCheck = document.getElementById('sidebar-stash') as HTMLInputElement;
+    stashCheck?.addEventListener('change', () => {
+      if (!this.selectedTile) return;
+      if (stashCheck.checked) this.selectedTile.stash = true;
+      else delete this.selectedTile.stash;
+      this.scheduleSave(ctx);
+    });
     const customEncCheck = document.getElementById('sidebar-custom-encounters') as HTMLInputElement;
     customEncCheck?.addEventListener('change', () => {
       const section = document.getElementById('sidebar-encounters-section');
@@ -875,6 +894,7 @@ export class MapTab implements Tab {
     });
 
     this.wireEncounterEvents(ctx);
+    this.wireHarvestEvents(ctx);
     document.getElementById('sidebar-set-start')?.addEventListener('click', () => this.setAsStartTile(ctx));
     document.getElementById('sidebar-delete')?.addEventListener('click', () => this.deleteSelectedTile(ctx));
     document.getElementById('sidebar-link-transition')?.addEventListener('click', () => {
@@ -965,6 +985,149 @@ export class MapTab implements Tab {
     });
   }
 
+  private harvestRowsHtml(tile: WorldTileDefinition, items: ItemDefinition[], readOnly: boolean): string {
+    const disabled = readOnly ? ' disabled' : '';
+    const nodes = tile.harvestNodes ?? [];
+    const rows = nodes.map((node, i) => {
+      const kindOptions = ALL_HARVEST_NODE_KINDS.map(k =>
+        `<option value="${k}"${k === node.kind ? ' selected' : ''}>${HARVEST_NODE_KIND_LABELS[k]}</option>`
+      ).join('');
+      const dropRows = node.drops.map((d, j) => {
+        const itemOptions = items.map(item =>
+          `<option value="${escapeHtml(item.id)}"${item.id === d.itemId ? ' selected' : ''}>${escapeHtml(item.name)}</option>`
+        ).join('');
+        return `
+          <div class="admin-form-row sidebar-harvest-drop" data-drop="${j}">
+            <select class="sidebar-harvest-drop-item"${disabled}>${itemOptions}</select>
+            <label>% <input type="number" class="sidebar-harvest-drop-chance" value="${Math.round(d.chance * 100)}" min="1" max="100" step="1"${disabled}></label>
+            ${readOnly ? '' : '<button class="admin-btn admin-btn-sm admin-btn-danger sidebar-harvest-drop-remove" type="button">×</button>'}
+          </div>
+        `;
+      }).join('');
+      return `
+        <div class="sidebar-harvest-node" data-index="${i}">
+          <div class="admin-form-row">
+            <select class="sidebar-harvest-kind"${disabled}>${kindOptions}</select>
+            <input type="text" class="sidebar-harvest-name" value="${escapeHtml(node.name)}"${disabled}>
+            ${readOnly ? '' : '<button class="admin-btn admin-btn-sm admin-btn-danger sidebar-harvest-remove" type="button">×</button>'}
+          </div>
+          <div class="admin-form-row">
+            <label>Craft Lv <input type="number" class="sidebar-harvest-level" value="${node.requiredCraftLevel ?? 1}" min="1" step="1"${disabled}></label>
+            <label>Respawn s <input type="number" class="sidebar-harvest-respawn" value="${node.respawnSeconds}" min="1" step="1"${disabled}></label>
+            <label>XP <input type="number" class="sidebar-harvest-xp" value="${node.xpReward ?? 0}" min="0" step="1"${disabled}></label>
+          </div>
+          ${dropRows}
+          ${readOnly ? '' : '<button class="admin-btn admin-btn-sm sidebar-harvest-add-drop" type="button">+ Drop</button>'}
+        </div>
+      `;
+    }).join('');
+    const empty = nodes.length === 0 ? '<div class="admin-form-hint">No harvest nodes. Idle parties gather from these between battles.</div>' : '';
+    const addBtn = readOnly ? '' : '<button class="admin-btn admin-btn-sm" id="sidebar-add-harvest" type="button">+ Harvest Node</button>';
+    return `${empty}${rows}${addBtn}`;
+  }
+
+  private rerenderHarvestSection(ctx: AdminContext): void {
+    const section = document.getElementById('sidebar-harvest-section');
+    if (!section || !this.selectedTile) return;
+    const c = ctx.getDisplayContent();
+    section.innerHTML = this.harvestRowsHtml(this.selectedTile, c ? Object.values(c.items) : [], ctx.isReadOnly());
+    this.wireHarvestEvents(ctx);
+  }
+
+  private wireHarvestEvents(ctx: AdminContext): void {
+    const nodeAt = (el: Element): HarvestNode | undefined => {
+      const index = parseInt(el.closest('.sidebar-harvest-node')?.getAttribute('data-index') ?? '-1');
+      return this.selectedTile?.harvestNodes?.[index];
+    };
+    const firstItemId = (): string | undefined => {
+      const c = ctx.getDisplayContent();
+      return c ? Object.keys(c.items)[0] : undefined;
+    };
+
+    document.getElementById('sidebar-add-harvest')?.addEventListener('click', () => {
+      const itemId = firstItemId();
+      if (!this.selectedTile || !itemId) return;
+      if (!this.selectedTile.harvestNodes) this.selectedTile.harvestNodes = [];
+      this.selectedTile.harvestNodes.push({
+        id: crypto.randomUUID(), kind: 'ore', name: 'New Node', respawnSeconds: 300, drops: [{ itemId, chance: 0.5 }],
+      });
+      this.scheduleSave(ctx);
+      this.rerenderHarvestSection(ctx);
+    });
+    document.querySelectorAll<HTMLButtonElement>('.sidebar-harvest-remove').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const node = nodeAt(btn);
+        if (!node || !this.selectedTile?.harvestNodes) return;
+        this.selectedTile.harvestNodes.splice(this.selectedTile.harvestNodes.indexOf(node), 1);
+        if (this.selectedTile.harvestNodes.length === 0) delete this.selectedTile.harvestNodes;
+        this.scheduleSave(ctx);
+        this.rerenderHarvestSection(ctx);
+      });
+    });
+    document.querySelectorAll<HTMLButtonElement>('.sidebar-harvest-add-drop').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const node = nodeAt(btn);
+        const itemId = firstItemId();
+        if (!node || !itemId) return;
+        node.drops.push({ itemId, chance: 0.5 });
+        this.scheduleSave(ctx);
+        this.rerenderHarvestSection(ctx);
+      });
+    });
+    document.querySelectorAll<HTMLButtonElement>('.sidebar-harvest-drop-remove').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const node = nodeAt(btn);
+        const dropIndex = parseInt(btn.closest('.sidebar-harvest-drop')?.getAttribute('data-drop') ?? '-1');
+        // A node needs at least one drop — remove the node itself instead.
+        if (!node || dropIndex < 0 || node.drops.length <= 1) return;
+        node.drops.splice(dropIndex, 1);
+        this.scheduleSave(ctx);
+        this.rerenderHarvestSection(ctx);
+      });
+    });
+    document.querySelectorAll<HTMLElement>('.sidebar-harvest-node').forEach(row => {
+      const node = nodeAt(row);
+      if (!node) return;
+      row.querySelector('.sidebar-harvest-kind')?.addEventListener('change', e => {
+        node.kind = (e.target as HTMLSelectElement).value as HarvestNode['kind'];
+        this.scheduleSave(ctx);
+      });
+      row.querySelector('.sidebar-harvest-name')?.addEventListener('input', e => {
+        node.name = (e.target as HTMLInputElement).value;
+        this.scheduleSave(ctx);
+      });
+      row.querySelector('.sidebar-harvest-level')?.addEventListener('input', e => {
+        const level = parseInt((e.target as HTMLInputElement).value) || 1;
+        if (level > 1) node.requiredCraftLevel = level;
+        else delete node.requiredCraftLevel;
+        this.scheduleSave(ctx);
+      });
+      row.querySelector('.sidebar-harvest-respawn')?.addEventListener('input', e => {
+        node.respawnSeconds = parseInt((e.target as HTMLInputElement).value) || 1;
+        this.scheduleSave(ctx);
+      });
+      row.querySelector('.sidebar-harvest-xp')?.addEventListener('input', e => {
+        const xp = parseInt((e.target as HTMLInputElement).value) || 0;
+        if (xp > 0) node.xpReward = xp;
+        else delete node.xpReward;
+        this.scheduleSave(ctx);
+      });
+      row.querySelectorAll<HTMLElement>('.sidebar-harvest-drop').forEach(dropRow => {
+        const drop = node.drops[parseInt(dropRow.getAttribute('data-drop') ?? '-1')];
+        if (!drop) return;
+        dropRow.querySelector('.sidebar-harvest-drop-item')?.addEventListener('change', e => {
+          drop.itemId = (e.target as HTMLSelectElement).value;
+          this.scheduleSave(ctx);
+        });
+        dropRow.querySelector('.sidebar-harvest-drop-chance')?.addEventListener('input', e => {
+          const percent = parseInt((e.target as HTMLInputElement).value) || 1;
+          drop.chance = Math.min(100, Math.max(1, percent)) / 100;
+          this.scheduleSave(ctx);
+        });
+      });
+    });
+  }
+
   private scheduleSave(ctx: AdminContext): void {
     if (this.saveTimeout) clearTimeout(this.saveTimeout);
     this.saveTimeout = setTimeout(() => this.saveSelectedTile(ctx), 300);
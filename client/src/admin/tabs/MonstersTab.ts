@@ -2,17 +2,25 @@ import type { Tab } from './Tab';
 import type { AdminContext } from '../AdminContext';
 import { MONSTER_SKILL_CATALOG } from '@idle-party-rpg/shared';
 import type {
+  BossPhase,
+  BossSummon,
   MonsterDefinition,
   ItemDefinition,
-  Resistance,
   MonsterSkillEntry,
   DamageType,
+  StatusEffectDefinition,
 } from '@idle-party-rpg/shared';
 import { escapeHtml, putAdmin, deleteAdmin } from '../api';
 import { openModal } from '../components/Modal';
 import { renderArtworkSection, wireArtworkSection } from '../components/ArtworkSection';
+import { damageTypeOptionsHtml, readResistanceRows, renderResistanceEditor, wireResistanceEditor } from '../components/ResistanceEditor';
 
 export class MonstersTab implements Tab {
+  /** Status effects offered on skill rows — refreshed each time the form opens. */
+  private statusEffects: StatusEffectDefinition[] = [];
+  /** Summon targets offered on boss phase rows — refreshed each time the form opens. */
+  private summonables: MonsterDefinition[] = [];
+
   render(container: HTMLElement, ctx: AdminContext): void {
     const content = ctx.getDisplayContent();
     if (!content) {
@@ -38,7 +46,7 @@ export class MonstersTab implements Tab {
 
       return `
         <tr>
-          <td>${escapeHtml(m.name)}${m.passive ? ' <span class="admin-pill">passive</span>' : ''}</td>
+          <td>${escapeHtml(m.name)}${m.passive ? ' <span class="admin-pill">passive</span>' : ''}${m.phases?.length ? ` <span class="admin-pill">boss · ${m.phases.length} phases</span>` : ''}${(m.tags ?? []).map(t => ` <span class="admin-pill">${escapeHtml(t)}</span>`).join('')}</td>
           <td>${m.hp}</td>
           <td>${m.damage}</td>
           <td>${m.damageType}</td>
@@ -110,10 +118,14 @@ export class MonstersTab implements Tab {
       xp: 5, goldMin: 1, goldMax: 2, drops: [],
     };
     const items = Object.values(content.items);
+    this.statusEffects = Object.values(content.statusEffects ?? {})
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    this.summonables = Object.values(content.monsters)
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
 
     const dropRows = (m.drops ?? []).map((d, i) => this.dropRowHtml(i, d.itemId, d.chance, items)).join('');
-    const resistanceRows = (m.resistances ?? []).map((r, i) => this.resistanceRowHtml(i, r)).join('');
     const skillRows = (m.skills ?? []).map((s, i) => this.skillRowHtml(i, s)).join('');
+    const phaseRows = (m.phases ?? []).map(p => this.phaseRowHtml(p)).join('');
 
     const bodyHtml = `
       <input type="hidden" id="mf-id" value="${escapeHtml(m.id)}">
@@ -122,14 +134,17 @@ export class MonstersTab implements Tab {
         <label>HP<input type="number" id="mf-hp" value="${m.hp}" min="1"></label>
         <label>Damage<input type="number" id="mf-damage" value="${m.damage}" min="0"></label>
         <label>Type
-          <select id="mf-damageType">
-            <option value="physical" ${m.damageType === 'physical' ? 'selected' : ''}>Physical</option>
-            <option value="magical" ${m.damageType === 'magical' ? 'selected' : ''}>Magical</option>
-          </select>
+          <select id="mf-damageType">${damageTypeOptionsHtml(m.damageType)}</select>
         </label>
         <label>XP<input type="number" id="mf-xp" value="${m.xp}" min="0"></label>
         <label>Gold Min<input type="number" id="mf-goldMin" value="${m.goldMin}" min="0"></label>
         <label>Gold Max<input type="number" id="mf-goldMax" value="${m.goldMax}" min="0"></label>
+        <label>Stun Resist %<input type="number" id="mf-stunRes" value="${m.stunResistance ?? 0}" min="0" max="100"></label>
+        <label>DoT Resist %<input type="number" id="mf-dotRes" value="${m.dotResistance ?? 0}" min="0" max="100"></label>
+        <label>Debuff Resist %<input type="number" id="mf-debuffRes" value="${m.debuffResistance ?? 0}" min="0" max="100"></label>
+        <label title="Comma-separated; scripted skills can require a tag (undead, beast, …)">Tags
+          <input type="text" id="mf-tags" value="${escapeHtml((m.tags ?? []).join(', '))}" placeholder="undead, beast">
+        </label>
         <label class="admin-form-checkbox">
           <input type="checkbox" id="mf-passive" ${m.passive ? 'checked' : ''}>
           Passive (wall — never attacks, doesn't count toward victory)
@@ -142,14 +157,17 @@ export class MonstersTab implements Tab {
         <legend>Drops ${readOnly ? '' : '<button class="admin-btn admin-btn-sm" id="mf-add-drop" type="button">+ Drop</button>'}</legend>
         <div id="mf-drops-list">${dropRows}</div>
       </fieldset>
-      <fieldset class="admin-form-fieldset">
-        <legend>Resistances ${readOnly ? '' : '<button class="admin-btn admin-btn-sm" id="mf-add-resistance" type="button">+ Resistance</button>'}</legend>
-        <div id="mf-resistances-list">${resistanceRows}</div>
-      </fieldset>
+      ${renderResistanceEditor('mf', m.resistances, readOnly)}
       <fieldset class="admin-form-fieldset">
         <legend>Skills ${readOnly ? '' : '<button class="admin-btn admin-btn-sm" id="mf-add-skill" type="button">+ Skill</button>'}</legend>
+        <span class="admin-form-hint">target_priority skills never take a turn: Value is the % chance each single-target attack uses their rule. Taunting players override them.</span>
         <div id="mf-skills-list">${skillRows}</div>
       </fieldset>
+      <fieldset class="admin-form-fieldset">
+        <legend>Boss Phases ${readOnly ? '' : '<button class="admin-btn admin-btn-sm" id="mf-add-phase" type="button">+ Phase</button>'}</legend>
+        <span class="admin-form-hint">Highest HP threshold first. Each phase fires once when HP falls to its threshold.</span>
+        <div id="mf-phases-list">${phaseRows}</div>
+      </fieldset>
       <fieldset class="admin-form-fieldset">
         <legend>Artwork</legend>
         ${renderArtworkSection({ kind: 'monster', id: m.id })}
@@ -185,15 +203,7 @@ export class MonstersTab implements Tab {
       this.wireRowRemovers(root, '.mf-drop-remove', '.monster-drop-row');
     });
 
-    root.querySelector('#mf-add-resistance')?.addEventListener('click', () => {
-      const list = root.querySelector('#mf-resistances-list');
-      if (!list) return;
-      const index = list.querySelectorAll('.monster-resistance-row').length;
-      list.insertAdjacentHTML('beforeend', this.resistanceRowHtml(index, {
-        damageType: 'physical', flatReduction: 0, percentReduction: 0,
-      }));
-      this.wireRowRemovers(root, '.mf-res-remove', '.monster-resistance-row');
-    });
+    wireResistanceEditor(root, 'mf');
 
     root.querySelector('#mf-add-skill')?.addEventListener('click', () => {
       const list = root.querySelector('#mf-skills-list');
@@ -207,9 +217,18 @@ export class MonstersTab implements Tab {
       this.wireRowRemovers(root, '.mf-skill-remove', '.monster-skill-row');
     });
 
+    root.querySelector('#mf-add-phase')?.addEventListener('click', () => {
+      const list = root.querySelector('#mf-phases-list');
+      if (!list) return;
+      const thresholds = Array.from(list.querySelectorAll<HTMLInputElement>('.mf-phase-threshold')).map(i => parseInt(i.value) || 0);
+      const next = thresholds.length > 0 ? Math.max(1, Math.min(...thresholds) - 25) : 50;
+      list.insertAdjacentHTML('beforeend', this.phaseRowHtml({ hpThreshold: next }));
+      this.wirePhaseRows(root);
+    });
+
     this.wireRowRemovers(root, '.mf-drop-remove', '.monster-drop-row');
-    this.wireRowRemovers(root, '.mf-res-remove', '.monster-resistance-row');
     this.wireRowRemovers(root, '.mf-skill-remove', '.monster-skill-row');
+    this.wirePhaseRows(root);
 
     root.querySelector('#mf-save')?.addEventListener('click', () => {
       this.saveForm(root, ctx, modal.close);
@@ -224,6 +243,71 @@ export class MonstersTab implements Tab {
     });
   }
 
+  /** (Re)wire the per-phase add/remove buttons after phase, summon or skill rows change. */
+  private wirePhaseRows(root: HTMLElement): void {
+    this.wireRowRemovers(root, '.mf-phase-remove', '.monster-phase-row');
+    this.wireRowRemovers(root, '.mf-summon-remove', '.monster-summon-row');
+    this.wireRowRemovers(root, '.mf-skill-remove', '.monster-skill-row');
+    root.querySelectorAll<HTMLButtonElement>('.mf-phase-add-summon').forEach(btn => {
+      btn.onclick = () => {
+        const first = this.summonables[0];
+        if (!first) return;
+        btn.closest('.monster-phase-row')?.querySelector('.mf-phase-summons')
+          ?.insertAdjacentHTML('beforeend', this.summonRowHtml({ monsterId: first.id, count: 1 }));
+        this.wirePhaseRows(root);
+      };
+    });
+    root.querySelectorAll<HTMLButtonElement>('.mf-phase-add-skill').forEach(btn => {
+      btn.onclick = () => {
+        const list = btn.closest('.monster-phase-row')?.querySelector('.mf-phase-skills');
+        if (!list) return;
+        const firstSkillId = Object.keys(MONSTER_SKILL_CATALOG)[0];
+        list.insertAdjacentHTML('beforeend', this.skillRowHtml(list.children.length, {
+          skillId: firstSkillId, value: 1, cooldown: MONSTER_SKILL_CATALOG[firstSkillId]?.cooldown ?? 3,
+        }));
+        this.wirePhaseRows(root);
+      };
+    });
+  }
+
+  private phaseRowHtml(phase: BossPhase): string {
+    const summonRows = (phase.summons ?? []).map(s => this.summonRowHtml(s)).join('');
+    const skillRows = (phase.skills ?? []).map((s, i) => this.skillRowHtml(i, s)).join('');
+    return `
+      <div class="monster-phase-row admin-form-fieldset">
+        <div class="admin-form-row">
+          <label>HP ≤ %<input type="number" class="mf-phase-threshold" value="${phase.hpThreshold}" min="1" max="100"></label>
+          <label>Name<input type="text" class="mf-phase-name" value="${escapeHtml(phase.name ?? '')}"></label>
+          <label>Immune turns<input type="number" class="mf-phase-immune" value="${phase.immuneTurns ?? 0}" min="0"></label>
+          <label>Enrage after rounds<input type="number" class="mf-phase-enrage" value="${phase.enrageAfterRounds ?? 0}" min="0"></label>
+          <label>Enrage ×<input type="number" class="mf-phase-enrage-mult" value="${phase.enrageDamageMultiplier ?? ''}" min="0.1" step="0.1" placeholder="1.5"></label>
+          <button class="admin-btn admin-btn-sm admin-btn-danger mf-phase-remove" type="button">×</button>
+        </div>
+        <div>Summons <button class="admin-btn admin-btn-sm mf-phase-add-summon" type="button">+ Summon</button></div>
+        <div class="mf-phase-summons">${summonRows}</div>
+        <label class="admin-form-checkbox">
+          <input type="checkbox" class="mf-phase-swap-skills" ${phase.skills ? 'checked' : ''}>
+          Replace skills with
+        </label>
+        <button class="admin-btn admin-btn-sm mf-phase-add-skill" type="button">+ Skill</button>
+        <div class="mf-phase-skills">${skillRows}</div>
+      </div>
+    `;
+  }
+
+  private summonRowHtml(summon: BossSummon): string {
+    const options = this.summonables.map(m =>
+      `<option value="${escapeHtml(m.id)}" ${m.id === summon.monsterId ? 'selected' : ''}>${escapeHtml(m.name)}</option>`
+    ).join('');
+    return `
+      <div class="monster-summon-row admin-form-row">
+        <select class="mf-summon-id">${options}</select>
+        <label>Count<input type="number" class="mf-summon-count" value="${summon.count}" min="1" max="8"></label>
+        <button class="admin-btn admin-btn-sm admin-btn-danger mf-summon-remove" type="button">×</button>
+      </div>
+    `;
+  }
+
   private dropRowHtml(index: number, itemId: string, chance: number, items: ItemDefinition[]): string {
     const options = items.map(i =>
       `<option value="${i.id}" ${i.id === itemId ? 'selected' : ''}>${escapeHtml(i.name)}</option>`
@@ -240,32 +324,21 @@ export class MonstersTab implements Tab {
     `;
   }
 
-  private resistanceRowHtml(index: number, resistance: Resistance): string {
-    return `
-      <div class="monster-resistance-row admin-form-row" data-index="${index}">
-        <select class="mf-res-type">
-          <option value="physical" ${resistance.damageType === 'physical' ? 'selected' : ''}>Physical</option>
-          <option value="magical" ${resistance.damageType === 'magical' ? 'selected' : ''}>Magical</option>
-          <option value="holy" ${resistance.damageType === 'holy' ? 'selected' : ''}>Holy</option>
-        </select>
-        <label>Flat<input type="number" class="mf-res-flat" value="${resistance.flatReduction}" step="1"></label>
-        <label>%<input type="number" class="mf-res-percent" value="${resistance.percentReduction}" step="1"></label>
-        <button class="admin-btn admin-btn-sm admin-btn-danger mf-res-remove" type="button">×</button>
-      </div>
-    `;
-  }
-
   private skillRowHtml(index: number, entry: MonsterSkillEntry): string {
     const options = Object.values(MONSTER_SKILL_CATALOG).map(s =>
       `<option value="${s.id}" ${s.id === entry.skillId ? 'selected' : ''}>${escapeHtml(s.name)}</option>`
     ).join('');
     const skillDef = MONSTER_SKILL_CATALOG[entry.skillId];
     const info = skillDef ? `${skillDef.targeting} / ${skillDef.effect}` : '';
+    const statusOptions = this.statusEffects.map(e =>
+      `<option value="${escapeHtml(e.id)}" ${e.id === entry.statusEffectId ? 'selected' : ''}>${escapeHtml(e.name)}</option>`
+    ).join('');
     return `
       <div class="monster-skill-row admin-form-row" data-index="${index}">
         <select class="mf-skill-id">${options}</select>
         <label>Value<input type="number" class="mf-skill-value" value="${entry.value}" min="1"></label>
         <label>CD<input type="number" class="mf-skill-cd" value="${entry.cooldown}" min="1"></label>
+        <label>Status<select class="mf-skill-status"><option value="">None</option>${statusOptions}</select></label>
         <span class="admin-form-hint">${escapeHtml(info)}</span>
         <button class="admin-btn admin-btn-sm admin-btn-danger mf-skill-remove" type="button">×</button>
       </div>
@@ -298,32 +371,55 @@ export class MonstersTab implements Tab {
       if (itemId && chance > 0) drops.push({ itemId, chance });
     });
 
-    const resistances: Resistance[] = [];
-    root.querySelectorAll('.monster-resistance-row').forEach(row => {
-      const dt = (row.querySelector('.mf-res-type') as HTMLSelectElement).value as DamageType;
-      const flatReduction = parseInt((row.querySelector('.mf-res-flat') as HTMLInputElement).value) || 0;
-      const percentReduction = parseInt((row.querySelector('.mf-res-percent') as HTMLInputElement).value) || 0;
-      resistances.push({ damageType: dt, flatReduction, percentReduction });
-    });
-
-    const skills: MonsterSkillEntry[] = [];
-    root.querySelectorAll('.monster-skill-row').forEach(row => {
-      const skillId = (row.querySelector('.mf-skill-id') as HTMLSelectElement).value;
-      const value = parseInt((row.querySelector('.mf-skill-value') as HTMLInputElement).value) || 1;
-      const cooldown = parseInt((row.querySelector('.mf-skill-cd') as HTMLInputElement).value) || 3;
-      if (skillId) skills.push({ skillId, value, cooldown });
+    const resistances = readResistanceRows(root, 'mf');
+
+    const skills = this.readSkillRows(root.querySelector('#mf-skills-list'));
+
+    const phases: BossPhase[] = [];
+    root.querySelectorAll('.monster-phase-row').forEach(row => {
+      const hpThreshold = parseInt((row.querySelector('.mf-phase-threshold') as HTMLInputElement).value) || 0;
+      const phaseName = (row.querySelector('.mf-phase-name') as HTMLInputElement).value.trim();
+      const immuneTurns = parseInt((row.querySelector('.mf-phase-immune') as HTMLInputElement).value) || 0;
+      const enrageAfterRounds = parseInt((row.querySelector('.mf-phase-enrage') as HTMLInputElement).value) || 0;
+      const enrageDamageMultiplier = parseFloat((row.querySelector('.mf-phase-enrage-mult') as HTMLInputElement).value);
+      const summons: BossSummon[] = [];
+      row.querySelectorAll('.monster-summon-row').forEach(summonRow => {
+        const monsterId = (summonRow.querySelector('.mf-summon-id') as HTMLSelectElement).value;
+        const count = parseInt((summonRow.querySelector('.mf-summon-count') as HTMLInputElement).value) || 0;
+        if (monsterId && count > 0) summons.push({ monsterId, count });
+      });
+      const swapSkills = (row.querySelector('.mf-phase-swap-skills') as HTMLInputElement).checked;
+      phases.push({
+        hpThreshold,
+        name: phaseName || undefined,
+        skills: swapSkills ? this.readSkillRows(row.querySelector('.mf-phase-skills')) : undefined,
+        summons: summons.length > 0 ? summons : undefined,
+        immuneTurns: immuneTurns > 0 ? immuneTurns : undefined,
+        enrageAfterRounds: enrageAfterRounds > 0 ? enrageAfterRounds : undefined,
+        enrageDamageMultiplier: enrageAfterRounds > 0 && enrageDamageMultiplier > 0 ? enrageDamageMultiplier : undefined,
+      });
     });
 
+    const stunResistance = parseInt((root.querySelector('#mf-stunRes') as HTMLInputElement).value) || 0;
+    const dotResistance = parseInt((root.querySelector('#mf-dotRes') as HTMLInputElement).value) || 0;
+    const debuffResistance = parseInt((root.querySelector('#mf-debuffRes') as HTMLInputElement).value) || 0;
     const passive = (root.querySelector('#mf-passive') as HTMLInputElement).checked;
     const description = (root.querySelector('#mf-description') as HTMLTextAreaElement).value.trim();
+    const tags = [...new Set((root.querySelector('#mf-tags') as HTMLInputElement).value
+      .split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
 
     const monster: MonsterDefinition = {
       id, name, hp, damage, damageType, xp, goldMin, goldMax,
       drops: drops.length > 0 ? drops : undefined,
       resistances: resistances.length > 0 ? resistances : undefined,
       skills: skills.length > 0 ? skills : undefined,
+      phases: phases.length > 0 ? phases : undefined,
+      stunResistance: stunResistance > 0 ? stunResistance : undefined,
+      dotResistance: dotResistance > 0 ? dotResistance : undefined,
+      debuffResistance: debuffResistance > 0 ? debuffResistance : undefined,
       passive: passive ? true : undefined,
       description: description || undefined,
+      tags: tags.length > 0 ? tags : undefined,
     };
 
     try {
@@ -337,6 +433,18 @@ export class MonstersTab implements Tab {
     }
   }
 
+  private readSkillRows(list: Element | null): MonsterSkillEntry[] {
+    const skills: MonsterSkillEntry[] = [];
+    list?.querySelectorAll(':scope > .monster-skill-row').forEach(row => {
+      const skillId = (row.querySelector('.mf-skill-id') as HTMLSelectElement).value;
+      const value = parseInt((row.querySelector('.mf-skill-value') as HTMLInputElement).value) || 1;
+      const cooldown = parseInt((row.querySelector('.mf-skill-cd') as HTMLInputElement).value) || 3;
+      const statusEffectId = (row.querySelector('.mf-skill-status') as HTMLSelectElement).value;
+      if (skillId) skills.push({ skillId, value, cooldown, ...(statusEffectId ? { statusEffectId } : {}) });
+    });
+    return skills;
+  }
+
   private async deleteMonster(ctx: AdminContext, id: string): Promise<void> {
     const monster = ctx.getDisplayContent()?.monsters[id];
     if (!monster) return;
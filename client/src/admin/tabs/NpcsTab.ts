@@ -1,6 +1,6 @@
 import type { Tab } from './Tab';
 import type { AdminContext } from '../AdminContext';
-import type { NpcDefinition } from '@idle-party-rpg/shared';
+import type { NpcDefinition, NpcRecipeOffer } from '@idle-party-rpg/shared';
 import { escapeHtml, putAdmin, deleteAdmin } from '../api';
 import { openModal } from '../components/Modal';
 
@@ -90,6 +90,20 @@ export class NpcsTab implements Tab {
         `).join('')
       : '<div class="admin-form-hint">No quests defined yet. Create some on the Quests tab.</div>';
 
+    const discoverable = content ? Object.values(content.recipes ?? {}).filter(r => r.discoverable) : [];
+    const taught = new Map((n.recipesForSale ?? []).map(o => [o.recipeId, o.price]));
+    const recipeRows = discoverable.length > 0
+      ? discoverable.map(r => `
+          <div class="admin-form-row">
+            <label class="admin-checkbox">
+              <input type="checkbox" class="npcf-recipe" value="${escapeHtml(r.id)}" ${taught.has(r.id) ? 'checked' : ''}>
+              ${escapeHtml(r.name)}
+            </label>
+            <label>Price <input type="number" class="npcf-recipe-price" data-recipe-id="${escapeHtml(r.id)}" min="0" value="${taught.get(r.id) ?? 100}"></label>
+          </div>
+        `).join('')
+      : '<div class="admin-form-hint">No discoverable recipes yet. Mark some on the Recipes tab.</div>';
+
     const paletteButtons = EMOJI_PALETTE.map(e => `
       <button type="button" class="npcf-emoji-pick" data-emoji="${escapeHtml(e)}" title="${escapeHtml(e)}"
         style="font-size:1.3em;padding:4px 6px;background:var(--admin-panel);border:1px solid var(--admin-border);border-radius:var(--admin-radius-sm);cursor:pointer;line-height:1;">${escapeHtml(e)}</button>
@@ -111,6 +125,10 @@ export class NpcsTab implements Tab {
         <legend>Quests offered</legend>
         ${questCheckboxes}
       </fieldset>
+      <fieldset class="admin-form-fieldset">
+        <legend>Recipes taught</legend>
+        ${recipeRows}
+      </fieldset>
       <div class="admin-modal-actions">
         <button class="admin-btn" id="npcf-save" type="button">${isNew ? 'Add' : 'Save'}</button>
         <button class="admin-btn admin-btn-secondary" id="npcf-cancel" type="button">Cancel</button>
@@ -149,7 +167,20 @@ export class NpcsTab implements Tab {
       questIds.push(cb.value);
     }
 
-    const npcDef: NpcDefinition = { id, name, emoji, greeting, questIds: questIds.length > 0 ? questIds : undefined };
+    const prices = new Map<string, number>();
+    for (const input of root.querySelectorAll<HTMLInputElement>('.npcf-recipe-price')) {
+      prices.set(input.dataset.recipeId!, Math.max(0, parseInt(input.value, 10) || 0));
+    }
+    const recipesForSale: NpcRecipeOffer[] = [];
+    for (const cb of root.querySelectorAll<HTMLInputElement>('.npcf-recipe:checked')) {
+      recipesForSale.push({ recipeId: cb.value, price: prices.get(cb.value) ?? 0 });
+    }
+
+    const npcDef: NpcDefinition = {
+      id, name, emoji, greeting,
+      questIds: questIds.length > 0 ? questIds : undefined,
+      recipesForSale: recipesForSale.length > 0 ? recipesForSale : undefined,
+    };
     try {
       const data = await putAdmin<{ npcs: Record<string, NpcDefinition> }>(
         `/api/admin/npcs/${encodeURIComponent(id)}${ctx.versionQueryParam()}`, npcDef);
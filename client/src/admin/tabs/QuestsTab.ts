@@ -38,6 +38,7 @@ export class QuestsTab implements Tab {
       const rewardSummary = q.rewards.map(r => {
         if (r.kind === 'xp') return `${r.amount} XP`;
         if (r.kind === 'gold') return `${r.amount}g`;
+        if (r.kind === 'recipe') return `recipe ${r.recipeId}`;
         return `${r.quantity}× ${r.itemId}`;
       }).join(', ');
       return `<tr>
@@ -140,6 +141,8 @@ export class QuestsTab implements Tab {
       `<option value="${escapeHtml(m.id)}">${escapeHtml(m.name)}</option>`).join('');
     const itemOpts = Object.values(content.items).map(i =>
       `<option value="${escapeHtml(i.id)}">${escapeHtml(i.name)}</option>`).join('');
+    const recipeOpts = Object.values(content.recipes ?? {}).map(r =>
+      `<option value="${escapeHtml(r.id)}">${escapeHtml(r.name)}</option>`).join('');
     const tileOpts = content.world.tiles.map(t =>
       `<option value="${escapeHtml(t.id)}">${escapeHtml(t.name)} (${t.col},${t.row})</option>`).join('');
     const objectiveRows = w.objectives.map((obj, i) => {
@@ -174,6 +177,8 @@ export class QuestsTab implements Tab {
         body = `<label>XP <input type="number" class="qf-rwd-amount" data-idx="${i}" min="0" value="${r.amount}"></label>`;
       } else if (r.kind === 'gold') {
         body = `<label>Gold <input type="number" class="qf-rwd-amount" data-idx="${i}" min="0" value="${r.amount}"></label>`;
+      } else if (r.kind === 'recipe') {
+        body = `<select class="qf-rwd-recipe" data-idx="${i}"><option value="">(recipe…)</option>${recipeOpts.replace(`value="${r.recipeId}"`, `value="${r.recipeId}" selected`)}</select>`;
       } else {
         body = `
           <select class="qf-rwd-item" data-idx="${i}"><option value="">(item…)</option>${itemOpts.replace(`value="${r.itemId}"`, `value="${r.itemId}" selected`)}</select>
@@ -239,6 +244,7 @@ export class QuestsTab implements Tab {
             <button class="admin-btn admin-btn-sm qf-add-reward" data-kind="xp" type="button">+ XP</button>
             <button class="admin-btn admin-btn-sm qf-add-reward" data-kind="gold" type="button">+ Gold</button>
             <button class="admin-btn admin-btn-sm qf-add-reward" data-kind="item" type="button">+ Item</button>
+            <button class="admin-btn admin-btn-sm qf-add-reward" data-kind="recipe" type="button">+ Recipe</button>
           </div>
         </fieldset>
         <fieldset class="admin-form-fieldset">
@@ -265,6 +271,7 @@ export class QuestsTab implements Tab {
     if (!this.working) return;
     if (kind === 'xp') this.working.rewards.push({ kind: 'xp', amount: 100 });
     else if (kind === 'gold') this.working.rewards.push({ kind: 'gold', amount: 50 });
+    else if (kind === 'recipe') this.working.rewards.push({ kind: 'recipe', recipeId: '' });
     else this.working.rewards.push({ kind: 'item', itemId: '', quantity: 1 });
     this.renderForm(root, ctx);
   }
@@ -311,6 +318,10 @@ export class QuestsTab implements Tab {
       const idx = parseInt(target.dataset.idx ?? '-1', 10);
       const r = this.working.rewards[idx];
       if (r?.kind === 'item') r.itemId = target.value;
+    } else if (target.classList.contains('qf-rwd-recipe')) {
+      const idx = parseInt(target.dataset.idx ?? '-1', 10);
+      const r = this.working.rewards[idx];
+      if (r?.kind === 'recipe') r.recipeId = target.value;
     } else if (target.classList.contains('qf-rwd-qty')) {
       const idx = parseInt(target.dataset.idx ?? '-1', 10);
       const r = this.working.rewards[idx];
@@ -330,6 +341,7 @@ export class QuestsTab implements Tab {
     }
     for (const r of w.rewards) {
       if (r.kind === 'item' && !r.itemId) { alert('Each item reward needs an item.'); return; }
+      if (r.kind === 'recipe' && !r.recipeId) { alert('Each recipe reward needs a recipe.'); return; }
     }
     const id = w.id || crypto.randomUUID();
     const payload: QuestDefinition = { ...w, id };
@@ -37,6 +37,7 @@ export class RecipesTab implements Tab {
         <td>${ings}</td>
         <td>${r.durationSeconds}s</td>
         <td>${r.xpReward ?? 0}</td>
+        <td>${r.discoverable ? 'discoverable' : '<span class="admin-form-hint">starter</span>'}</td>
         ${actions}
       </tr>`;
     }).join('');
@@ -52,7 +53,7 @@ export class RecipesTab implements Tab {
         </div>
         <div class="admin-table-wrap">
           <table class="admin-table">
-            <thead><tr><th>Name</th><th>Class</th><th>Result</th><th>Ingredients</th><th>Duration</th><th>XP</th>${actionsHeader}</tr></thead>
+            <thead><tr><th>Name</th><th>Class</th><th>Result</th><th>Ingredients</th><th>Duration</th><th>XP</th><th>Availability</th>${actionsHeader}</tr></thead>
             <tbody>${rows}</tbody>
           </table>
         </div>
@@ -116,8 +117,12 @@ export class RecipesTab implements Tab {
         <label>Name<input type="text" id="rcf-name" value="${escapeHtml(r.name)}"></label>
         <label>Duration (sec)<input type="number" id="rcf-duration" value="${r.durationSeconds}" min="1"></label>
         <label>Required Level<input type="number" id="rcf-required-level" value="${r.requiredLevel ?? CRAFTING_UNLOCK_LEVEL}" min="1"></label>
+        <label>Required Craft Level<input type="number" id="rcf-required-craft-level" value="${r.requiredCraftLevel ?? 1}" min="1" title="Craft skill level needed to queue. Gear results roll better quality the further the crafter is above it."></label>
         <label>XP Reward<input type="number" id="rcf-xp" value="${r.xpReward ?? 0}" min="0"></label>
       </div>
+      <label class="admin-checkbox" title="Starter recipes are known by every eligible player. Discoverable ones must be learned from a recipe item, a quest reward or an NPC.">
+        <input type="checkbox" id="rcf-discoverable" ${r.discoverable ? 'checked' : ''}> Discoverable (hidden until learned)
+      </label>
       <label>Description<textarea id="rcf-description" rows="2" placeholder="Flavor text shown on the recipe card.">${escapeHtml(r.description ?? '')}</textarea></label>
       <fieldset class="admin-form-fieldset">
         <legend>Class restriction <span class="admin-form-hint">(none = anyone can craft)</span></legend>
@@ -182,7 +187,9 @@ export class RecipesTab implements Tab {
     const description = (root.querySelector('#rcf-description') as HTMLTextAreaElement).value.trim();
     const durationSeconds = parseInt((root.querySelector('#rcf-duration') as HTMLInputElement).value);
     const requiredLevel = parseInt((root.querySelector('#rcf-required-level') as HTMLInputElement).value);
+    const requiredCraftLevel = parseInt((root.querySelector('#rcf-required-craft-level') as HTMLInputElement).value);
     const xpReward = parseInt((root.querySelector('#rcf-xp') as HTMLInputElement).value) || 0;
+    const discoverable = (root.querySelector('#rcf-discoverable') as HTMLInputElement).checked;
     const resultItemId = (root.querySelector('#rcf-result-item') as HTMLSelectElement).value;
     const resultQty = parseInt((root.querySelector('#rcf-result-qty') as HTMLInputElement).value);
 
@@ -211,6 +218,8 @@ export class RecipesTab implements Tab {
       description: description || undefined,
       classRestriction: classRestriction.length > 0 ? classRestriction : undefined,
       requiredLevel: Number.isFinite(requiredLevel) ? requiredLevel : CRAFTING_UNLOCK_LEVEL,
+      requiredCraftLevel: Number.isFinite(requiredCraftLevel) && requiredCraftLevel > 1 ? requiredCraftLevel : undefined,
+      discoverable: discoverable || undefined,
       durationSeconds,
       xpReward,
       ingredients,
@@ -0,0 +1,185 @@
+import type { Tab } from './Tab';
+import type { AdminContext } from '../AdminContext';
+import { RARITY_DROP_RATES, BULK_SALVAGE_RARITIES, validateSalvageTable } from '@idle-party-rpg/shared';
+import type { ItemDefinition, ItemRarity, SalvageTableDefinition, SalvageYield } from '@idle-party-rpg/shared';
+import { escapeHtml, putAdmin, deleteAdmin } from '../api';
+import { openModal } from '../components/Modal';
+
+const RARITIES = Object.keys(RARITY_DROP_RATES) as ItemRarity[];
+
+export class SalvageTab implements Tab {
+  render(container: HTMLElement, ctx: AdminContext): void {
+    const content = ctx.getDisplayContent();
+    if (!content) {
+      container.innerHTML = '<div class="admin-page-empty">No data</div>';
+      return;
+    }
+    const tables = content.salvageTables ?? {};
+    const readOnly = ctx.isReadOnly();
+
+    const rows = RARITIES.map(rarity => {
+      const table = tables[rarity];
+      const yields = table
+        ? table.yields.map(y => escapeHtml(this.yieldText(y, content.items))).join('<br>')
+        : '<span class="admin-muted">Can\'t be salvaged</span>';
+      let actions: string;
+      if (readOnly) {
+        actions = table
+          ? `<button class="admin-btn admin-btn-sm salvage-view-btn" data-id="${rarity}">View</button>`
+          : '';
+      } else if (table) {
+        actions = `
+          <button class="admin-btn admin-btn-sm salvage-edit-btn" data-id="${rarity}">Edit</button>
+          <button class="admin-btn admin-btn-sm admin-btn-danger salvage-delete-btn" data-id="${rarity}">Del</button>`;
+      } else {
+        actions = `<button class="admin-btn admin-btn-sm salvage-edit-btn" data-id="${rarity}">Add</button>`;
+      }
+      return `
+        <tr>
+          <td>${escapeHtml(rarity)}</td>
+          <td>${yields}</td>
+          <td class="admin-actions-cell">${actions}</td>
+        </tr>
+      `;
+    }).join('');
+
+    container.innerHTML = `
+      <div class="admin-page">
+        <div class="admin-page-header">
+          <h2>Salvage <span class="admin-count-badge">${Object.keys(tables).length}</span></h2>
+        </div>
+        <p class="admin-form-hint">What unequipped gear of each rarity breaks down into. Players can bulk-salvage ${escapeHtml(BULK_SALVAGE_RARITIES.join(' and '))} gear in one go; socketed gear must be emptied first.</p>
+        <div class="admin-table-wrap">
+          <table class="admin-table">
+            <thead><tr><th>Rarity</th><th>Yields (per item)</th><th>Actions</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      </div>
+    `;
+
+    container.querySelectorAll<HTMLButtonElement>('.salvage-edit-btn, .salvage-view-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const rarity = btn.dataset.id as ItemRarity;
+        const table = (ctx.getDisplayContent()?.salvageTables ?? {})[rarity];
+        this.openForm(rarity, table ?? null, ctx);
+      });
+    });
+    container.querySelectorAll<HTMLButtonElement>('.salvage-delete-btn').forEach(btn => {
+      btn.addEventListener('click', () => this.deleteTable(ctx, btn.dataset.id!));
+    });
+  }
+
+  /** "Scrap Metal ×1–2 (50%)" */
+  private yieldText(y: SalvageYield, items: Record<string, ItemDefinition>): string {
+    const qty = y.min === y.max ? `${y.max}` : `${y.min}–${y.max}`;
+    const chance = y.chance !== undefined && y.chance < 1 ? ` (${Math.round(y.chance * 100)}%)` : '';
+    return `${items[y.itemId]?.name ?? y.itemId} ×${qty}${chance}`;
+  }
+
+  private openForm(rarity: ItemRarity, table: SalvageTableDefinition | null, ctx: AdminContext): void {
+    const content = ctx.getDisplayContent();
+    if (!content) return;
+    const readOnly = ctx.isReadOnly();
+    const yields: SalvageYield[] = table?.yields ?? [{ itemId: '', min: 1, max: 1 }];
+
+    const items = Object.values(content.items)
+      .filter(item => !item.equipSlot)
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    const itemOption = (selectedId: string) => items.map(item =>
+      `<option value="${escapeHtml(item.id)}" ${item.id === selectedId ? 'selected' : ''}>${escapeHtml(item.name)}</option>`
+    ).join('');
+
+    const yieldRow = (y: SalvageYield) => `
+      <div class="admin-form-row slv-yield-row">
+        <select class="slv-item" style="flex:1">${itemOption(y.itemId)}</select>
+        <label>Min <input type="number" class="slv-min" value="${y.min}" min="0" style="width:60px"></label>
+        <label>Max <input type="number" class="slv-max" value="${y.max}" min="1" style="width:60px"></label>
+        <label>Chance <input type="number" class="slv-chance" value="${y.chance ?? ''}" min="0" max="1" step="0.05" placeholder="1" style="width:70px"></label>
+        <button type="button" class="admin-btn admin-btn-sm admin-btn-danger slv-remove">×</button>
+      </div>
+    `;
+
+    const formHtml = `
+      <span class="admin-form-hint">Each salvaged item rolls every yield: a whole quantity between min and max, if its chance hits.</span>
+      <fieldset class="admin-form-fieldset">
+        <legend>Yields</legend>
+        <div id="slv-yields">${yields.map(yieldRow).join('')}</div>
+        ${readOnly ? '' : '<button type="button" class="admin-btn admin-btn-sm" id="slv-add">+ Add yield</button>'}
+      </fieldset>
+    `;
+    const actionsHtml = readOnly
+      ? `<div class="admin-modal-actions admin-modal-actions-readonly">
+          <span class="admin-form-hint admin-modal-readonly-hint">* Create a new draft to edit</span>
+          <button class="admin-btn admin-btn-secondary" id="slv-cancel" type="button">Close</button>
+        </div>`
+      : `<div class="admin-modal-actions">
+          <button class="admin-btn" id="slv-save" type="button">Save</button>
+          <button class="admin-btn admin-btn-secondary" id="slv-cancel" type="button">Cancel</button>
+        </div>`;
+    const bodyHtml = readOnly
+      ? `<fieldset class="admin-form-readonly-wrap" disabled>${formHtml}</fieldset>${actionsHtml}`
+      : `${formHtml}${actionsHtml}`;
+    const titlePrefix = !table ? 'Add' : (readOnly ? 'View' : 'Edit');
+    const modal = openModal({
+      title: `${titlePrefix} Salvage: ${rarity}`,
+      bodyHtml,
+      width: '640px',
+    });
+    const root = modal.body;
+
+    const yieldsContainer = root.querySelector<HTMLElement>('#slv-yields')!;
+    const wireRowRemove = (row: HTMLElement) => {
+      row.querySelector('.slv-remove')?.addEventListener('click', () => row.remove());
+    };
+    yieldsContainer.querySelectorAll<HTMLElement>('.slv-yield-row').forEach(wireRowRemove);
+    root.querySelector('#slv-add')?.addEventListener('click', () => {
+      const wrapper = document.createElement('div');
+      wrapper.innerHTML = yieldRow({ itemId: items[0]?.id ?? '', min: 1, max: 1 });
+      const newRow = wrapper.firstElementChild as HTMLElement;
+      yieldsContainer.appendChild(newRow);
+      wireRowRemove(newRow);
+    });
+
+    root.querySelector('#slv-cancel')?.addEventListener('click', modal.close);
+    root.querySelector('#slv-save')?.addEventListener('click', () => this.saveForm(root, rarity, ctx, modal.close));
+  }
+
+  private async saveForm(root: HTMLElement, rarity: ItemRarity, ctx: AdminContext, close: () => void): Promise<void> {
+    const yields: SalvageYield[] = Array.from(root.querySelectorAll<HTMLElement>('.slv-yield-row')).map(row => {
+      const chance = (row.querySelector('.slv-chance') as HTMLInputElement).value.trim();
+      return {
+        itemId: (row.querySelector('.slv-item') as HTMLSelectElement).value,
+        min: parseInt((row.querySelector('.slv-min') as HTMLInputElement).value),
+        max: parseInt((row.querySelector('.slv-max') as HTMLInputElement).value),
+        chance: chance === '' ? undefined : parseFloat(chance),
+      };
+    });
+    const table: SalvageTableDefinition = { id: rarity, yields };
+
+    const errors = validateSalvageTable(table, new Set(Object.keys(ctx.getDisplayContent()?.items ?? {})));
+    if (errors.length > 0) { alert(errors.join('\n')); return; }
+
+    try {
+      const data = await putAdmin<{ salvageTables: Record<string, SalvageTableDefinition> }>(
+        `/api/admin/salvage-tables/${encodeURIComponent(rarity)}${ctx.versionQueryParam()}`, table);
+      ctx.patchVersionContent({ salvageTables: data.salvageTables });
+      close();
+      ctx.rerenderTab();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Network error');
+    }
+  }
+
+  private async deleteTable(ctx: AdminContext, id: string): Promise<void> {
+    if (!confirm(`Delete the ${id} salvage table? Gear of that rarity can no longer be salvaged.`)) return;
+    try {
+      const data = await deleteAdmin<{ salvageTables: Record<string, SalvageTableDefinition> }>(
+        `/api/admin/salvage-tables/${encodeURIComponent(id)}${ctx.versionQueryParam()}`);
+      ctx.patchVersionContent({ salvageTables: data.salvageTables });
+      ctx.rerenderTab();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Network error');
+    }
+  }
+}
@@ -10,6 +10,7 @@ import type { SetDefinition, SetBreakpoint, SetBonuses, SkillDefinition } from '
 import { escapeHtml, putAdmin, deleteAdmin } from '../api';
 import { openModal } from '../components/Modal';
 import { renderArtworkSection, wireArtworkSection } from '../components/ArtworkSection';
+import { readResistanceRows, renderResistanceEditor, wireResistanceEditor } from '../components/ResistanceEditor';
 
 export class SetsTab implements Tab {
   /** Working state for the set form's breakpoints — kept across re-renders inside one modal. */
@@ -229,7 +230,11 @@ export class SetsTab implements Tab {
             <label>Atk Max<input type="number" class="sf-bp-atkMax" value="${b.bonusAttackMax ?? 0}" min="0"></label>
             <label>Flat HP<input type="number" class="sf-bp-flatHp" value="${b.flatHp ?? 0}" min="0"></label>
             <label>% HP<input type="number" class="sf-bp-pctHp" value="${b.percentHp ?? 0}" min="0"></label>
+            <label>Stun Resist %<input type="number" class="sf-bp-stunRes" value="${b.stunResistance ?? 0}" min="0" max="100"></label>
+            <label>DoT Resist %<input type="number" class="sf-bp-dotRes" value="${b.dotResistance ?? 0}" min="0" max="100"></label>
+            <label>Debuff Resist %<input type="number" class="sf-bp-debuffRes" value="${b.debuffResistance ?? 0}" min="0" max="100"></label>
           </div>
+          ${renderResistanceEditor(`sf-bp${idx}`, b.resistances, false)}
           <div class="sf-bp-grants">
             <div class="admin-checklist-toolbar">
               <span class="admin-form-hint">Grants skills at this tier</span>
@@ -242,6 +247,7 @@ export class SetsTab implements Tab {
     }).join('');
 
     container.querySelectorAll<HTMLElement>('.sf-breakpoint-row').forEach(row => {
+      wireResistanceEditor(row, `sf-bp${row.dataset.bpIdx}`);
       const search = row.querySelector<HTMLInputElement>('.sf-bp-skill-search');
       search?.addEventListener('input', () => {
         const q = search.value.trim().toLowerCase();
@@ -283,6 +289,11 @@ export class SetsTab implements Tab {
       if (atkMin || atkMax) { bonuses.bonusAttackMin = atkMin; bonuses.bonusAttackMax = atkMax; }
       const flatHp = num('.sf-bp-flatHp'); if (flatHp) bonuses.flatHp = flatHp;
       const pctHp = num('.sf-bp-pctHp'); if (pctHp) bonuses.percentHp = pctHp;
+      const stunRes = num('.sf-bp-stunRes'); if (stunRes) bonuses.stunResistance = stunRes;
+      const dotRes = num('.sf-bp-dotRes'); if (dotRes) bonuses.dotResistance = dotRes;
+      const debuffRes = num('.sf-bp-debuffRes'); if (debuffRes) bonuses.debuffResistance = debuffRes;
+      const resistances = readResistanceRows(row, `sf-bp${row.dataset.bpIdx}`);
+      if (resistances.length > 0) bonuses.resistances = resistances;
       const grantedSkillIds: string[] = [];
       row.querySelectorAll<HTMLInputElement>('.sf-bp-skill-check').forEach(cb => {
         if (cb.checked) grantedSkillIds.push(cb.value);
@@ -22,7 +22,8 @@ export class ShopsTab implements Tab {
             <button class="admin-btn admin-btn-sm shop-edit-btn" data-id="${s.id}">Edit</button>
             <button class="admin-btn admin-btn-sm admin-btn-danger shop-delete-btn" data-id="${s.id}">Del</button>
           </td>`;
-      return `<tr><td>${escapeHtml(s.name)}</td><td>${s.inventory.length}</td>${actions}</tr>`;
+      const restock = s.restockMinutes ? `${s.restockMinutes}m` : '—';
+      return `<tr><td>${escapeHtml(s.name)}</td><td>${s.inventory.length}</td><td>${restock}</td>${actions}</tr>`;
     }).join('');
 
     const addBtn = readOnly ? '' : '<button class="admin-btn" id="shop-add-btn">+ Add Shop</button>';
@@ -36,7 +37,7 @@ export class ShopsTab implements Tab {
         </div>
         <div class="admin-table-wrap">
           <table class="admin-table">
-            <thead><tr><th>Name</th><th>Items</th>${actionsHeader}</tr></thead>
+            <thead><tr><th>Name</th><th>Items</th><th>Restock</th>${actionsHeader}</tr></thead>
             <tbody>${rows}</tbody>
           </table>
         </div>
@@ -66,13 +67,13 @@ export class ShopsTab implements Tab {
       .slice()
       .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
 
-    const priceMap = new Map<string, number>();
-    const inShop = new Set<string>();
-    for (const si of s.inventory) { priceMap.set(si.itemId, si.price); inShop.add(si.itemId); }
+    const shopItems = new Map<string, ShopItem>();
+    for (const si of s.inventory) shopItems.set(si.itemId, si);
 
     const itemRows = items.map(item => {
-      const checked = inShop.has(item.id);
-      const price = priceMap.get(item.id) ?? (item.value ?? 1);
+      const shopItem = shopItems.get(item.id);
+      const checked = !!shopItem;
+      const price = shopItem?.price ?? (item.value ?? 1);
       return `
         <div class="admin-shop-row" data-item-name="${escapeHtml(item.name.toLowerCase())}">
           <label class="admin-checkbox">
@@ -80,6 +81,7 @@ export class ShopsTab implements Tab {
             ${escapeHtml(item.name)}
           </label>
           <label>Price <input type="number" class="shf-item-price" data-item-id="${item.id}" value="${price}" min="0"></label>
+          <label>Stock <input type="number" class="shf-item-stock" data-item-id="${item.id}" value="${shopItem?.stock ?? ''}" min="1" placeholder="∞"></label>
         </div>
       `;
     }).join('');
@@ -88,7 +90,10 @@ export class ShopsTab implements Tab {
       <input type="hidden" id="shf-id" value="${escapeHtml(s.id)}">
       <div class="admin-form-grid">
         <label>Name<input type="text" id="shf-name" value="${escapeHtml(s.name)}"></label>
+        <label>Restock (minutes)<input type="number" id="shf-restock" value="${s.restockMinutes ?? ''}" min="0" placeholder="never"></label>
+        <label>Price scaling (% per zone level)<input type="number" id="shf-price-scaling" value="${s.priceScalingPercent ?? ''}" min="0" placeholder="0"></label>
       </div>
+      <p class="admin-form-hint">Leave an item's stock empty for unlimited supply. Limited items refill to their stock every restock; price scaling adds this percent per level of the room's zone minimum above 1.</p>
       <fieldset class="admin-form-fieldset">
         <legend>Inventory</legend>
         <div class="admin-checklist-toolbar">
@@ -181,11 +186,21 @@ export class ShopsTab implements Tab {
         const itemId = cb.value;
         const priceInput = root.querySelector(`.shf-item-price[data-item-id="${itemId}"]`) as HTMLInputElement;
         const price = parseInt(priceInput?.value) || 1;
-        inventory.push({ itemId, price });
+        const stockInput = root.querySelector(`.shf-item-stock[data-item-id="${itemId}"]`) as HTMLInputElement;
+        const stock = parseInt(stockInput?.value);
+        inventory.push({ itemId, price, ...(stock > 0 ? { stock } : {}) });
       }
     });
 
-    const shopDef: ShopDefinition = { id, name, inventory };
+    const restockMinutes = parseFloat((root.querySelector('#shf-restock') as HTMLInputElement).value);
+    const priceScalingPercent = parseFloat((root.querySelector('#shf-price-scaling') as HTMLInputElement).value);
+    const shopDef: ShopDefinition = {
+      id,
+      name,
+      inventory,
+      ...(restockMinutes > 0 ? { restockMinutes } : {}),
+      ...(priceScalingPercent > 0 ? { priceScalingPercent } : {}),
+    };
     try {
       const data = await putAdmin<{ shops: Record<string, ShopDefinition> }>(
         `/api/admin/shops/${encodeURIComponent(id)}${ctx.versionQueryParam()}`, shopDef);
@@ -2,6 +2,7 @@ import type { Tab } from './Tab';
 import type { AdminContext } from '../AdminContext';
 import {
   ALL_CLASS_NAMES,
+  ALL_STATUS_TARGETS,
   CLASS_DEFINITIONS,
   SKILL_CONDITION_VALUES,
   SKILL_OPTION_CATALOG,
@@ -11,6 +12,7 @@ import {
 import type {
   ActiveEffect,
   ClassName,
+  DamageType,
   PassiveEffect,
   SkillContent,
   SkillDefinition,
@@ -18,9 +20,11 @@ import type {
   SkillOptionParamSpec,
   SkillSlot,
   SkillSlotType,
+  StatusEffectDefinition,
 } from '@idle-party-rpg/shared';
 import { escapeHtml, putAdmin, postAdmin, deleteAdmin } from '../api';
 import { openModal } from '../components/Modal';
+import { damageTypeOptionsHtml } from '../components/ResistanceEditor';
 
 /**
  * Draft-aware CRUD editor for skills-as-content (issue #267): per-class skill
@@ -30,6 +34,9 @@ import { openModal } from '../components/Modal';
  * (list → openModal form → saveForm → delete) with draft gating.
  */
 export class SkillsTab implements Tab {
+  /** Status effects offered by `status` params — refreshed each time the form opens. */
+  private statusEffects: StatusEffectDefinition[] = [];
+
   render(container: HTMLElement, ctx: AdminContext): void {
     const content = ctx.getDisplayContent();
     if (!content) {
@@ -119,10 +126,10 @@ export class SkillsTab implements Tab {
       .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
     const passives = classSkills.filter(s => s.type === 'passive').length;
     const actives = classSkills.length - passives;
-    // Default starting skill: the level-1 passive (tie: lowest sortOrder), matching
-    // createDefaultSkillLoadout — a class with no level-1 passive starts with none equipped.
+    // Default starting skill: the level-1 non-talent passive (tie: lowest sortOrder),
+    // matching createDefaultSkillLoadout — a class with no such passive starts with none equipped.
     const startId = classSkills
-      .filter(s => s.type === 'passive' && s.unlockLevel !== null && s.unlockLevel <= 1)
+      .filter(s => s.type === 'passive' && !s.talent && s.unlockLevel !== null && s.unlockLevel <= 1)
       .sort((a, b) => (a.unlockLevel! - b.unlockLevel!) || (a.sortOrder - b.sortOrder))[0]?.id;
     const rows = classSkills.map(s => this.renderSkillRow(s, s.id === startId, readOnly)).join('');
 
@@ -163,15 +170,54 @@ export class SkillsTab implements Tab {
             <tbody>${rows}</tbody>
           </table>
         </div>
+        ${this.renderTalentTree(classSkills)}
       </div>
     `;
   }
 
+  /**
+   * Read-only tree of the class's talents: one row per unlock level, each node
+   * showing its max rank, prerequisites and exclusive group.
+   */
+  private renderTalentTree(classSkills: SkillDefinition[]): string {
+    const talents = classSkills.filter(s => s.talent && s.unlockLevel !== null);
+    if (talents.length === 0) return '';
+    const names = new Map(classSkills.map(s => [s.id, s.name]));
+    const levels = [...new Set(talents.map(s => s.unlockLevel!))].sort((a, b) => a - b);
+    const tiers = levels.map(level => {
+      const nodes = talents.filter(s => s.unlockLevel === level).map(s => {
+        const talent = s.talent!;
+        const prereqs = (talent.prerequisites ?? []).map(id => names.get(id) ?? id);
+        return `
+          <div class="skills-talent-node admin-pill-${s.type}">
+            <strong>${escapeHtml(s.name)}</strong>
+            <span class="admin-muted">max rank ${talent.maxRank}${talent.rankScaling !== undefined ? ` &middot; +${Math.round(talent.rankScaling * 100)}%/rank` : ''}</span>
+            ${talent.exclusiveGroup ? `<span class="admin-pill admin-pill-grant">${escapeHtml(talent.exclusiveGroup)}</span>` : ''}
+            ${prereqs.length > 0 ? `<span class="admin-muted">&larr; ${escapeHtml(prereqs.join(', '))}</span>` : ''}
+          </div>
+        `;
+      }).join('');
+      return `
+        <div class="skills-talent-tier">
+          <span class="skills-talent-level">Lv ${level}</span>
+          ${nodes}
+        </div>
+      `;
+    }).join('');
+    return `
+      <h4 class="skills-talent-head">Talent tree</h4>
+      <div class="skills-talent-tree">${tiers}</div>
+    `;
+  }
+
   private renderSkillRow(skill: SkillDefinition, isStart: boolean, readOnly: boolean): string {
     const unlockCell = skill.unlockLevel === null
       ? '<span class="admin-pill admin-pill-grant">grant-only</span>'
       : String(skill.unlockLevel);
     const startPill = isStart ? ' <span class="admin-pill admin-pill-start">start</span>' : '';
+    const talentPill = skill.talent
+      ? ` <span class="admin-pill admin-pill-talent">talent &times;${skill.talent.maxRank}</span>`
+      : '';
     const typeLabel = skill.type === 'passive' ? 'Passive' : 'Active';
     const cooldown = skill.type === 'active' && skill.cooldown != null
       ? `every ${skill.cooldown}`
@@ -190,7 +236,7 @@ export class SkillsTab implements Tab {
         <td>${unlockCell}</td>
         <td><span class="admin-pill admin-pill-${skill.type}">${typeLabel}</span></td>
         <td>
-          <div>${escapeHtml(skill.name)}${startPill}</div>
+          <div>${escapeHtml(skill.name)}${startPill}${talentPill}</div>
           <div class="skills-id admin-muted">${escapeHtml(skill.id)}</div>
         </td>
         <td>${escapeHtml(skill.description)}</td>
@@ -224,6 +270,8 @@ export class SkillsTab implements Tab {
 
     const isNew = !skill;
     const readOnly = ctx.isReadOnly();
+    this.statusEffects = Object.values(content.statusEffects ?? {})
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
     const s: SkillDefinition = skill ?? {
       id: '', name: '', description: '',
       className: ALL_CLASS_NAMES[0], type: 'passive',
@@ -242,6 +290,18 @@ export class SkillsTab implements Tab {
       .map(e => this.optionRowHtml(e)).join('');
     const pickerRows = Object.values(SKILL_OPTION_CATALOG)
       .map(opt => this.pickerRowHtml(opt)).join('');
+    const talent = s.talent;
+    const prereqs = new Set(talent?.prerequisites ?? []);
+    const prereqRows = Object.values(content.skills ?? {})
+      .filter(other => other.id !== s.id && other.unlockLevel !== null)
+      .sort((a, b) => (a.unlockLevel! - b.unlockLevel!) || a.name.localeCompare(b.name))
+      .map(other => `
+        <label class="admin-checkbox skf-prereq-row" data-class="${other.className}" ${other.className === s.className ? '' : 'hidden'}>
+          <input type="checkbox" class="skf-prereq-check" value="${escapeHtml(other.id)}" ${prereqs.has(other.id) ? 'checked' : ''}>
+          ${escapeHtml(other.name)}
+          <span class="admin-form-hint">Lv ${other.unlockLevel}${other.talent ? ' · talent' : ''}</span>
+        </label>
+      `).join('');
 
     const bodyHtml = `
       <input type="hidden" id="skf-id" value="${escapeHtml(s.id)}">
@@ -261,10 +321,32 @@ export class SkillsTab implements Tab {
           Cooldown (triggers every Nth attack)
           <input type="number" id="skf-cooldown" value="${s.cooldown ?? 2}" min="1" step="1">
         </label>
+        <label id="skf-damageType-wrap" ${s.type === 'active' ? '' : 'style="display:none"'}>
+          Damage type
+          <select id="skf-damageType"><option value="">Caster's attack type</option>${damageTypeOptionsHtml(s.damageType)}</select>
+        </label>
       </div>
       <label class="admin-form-fullrow">Description
         <textarea id="skf-description" rows="3">${escapeHtml(s.description)}</textarea>
       </label>
+      <fieldset class="admin-form-fieldset">
+        <legend>Talent</legend>
+        <div class="admin-form-hint">
+          Talents are not unlocked by level: players spend talent points on them from their unlock level,
+          one point per rank. Rank scaling is the magnitude added per rank above 1 (0.5 = +50% per rank; empty = no scaling).
+        </div>
+        <div class="admin-form-grid">
+          <label class="admin-form-checkbox">
+            <input type="checkbox" id="skf-talent" ${talent ? 'checked' : ''} ${grantOnly ? 'disabled' : ''}>
+            Talent
+          </label>
+          <label>Max rank<input type="number" id="skf-talent-maxRank" value="${talent?.maxRank ?? 1}" min="1" max="10" step="1"></label>
+          <label>Rank scaling<input type="number" id="skf-talent-rankScaling" value="${talent?.rankScaling ?? ''}" min="0" step="0.1" placeholder="none"></label>
+          <label>Exclusive group<input type="text" id="skf-talent-group" value="${escapeHtml(talent?.exclusiveGroup ?? '')}" placeholder="(none)"></label>
+        </div>
+        <div class="admin-form-hint">Prerequisites (same class; non-talent skills count once their level is reached):</div>
+        <div class="admin-checklist" id="skf-prereq-list">${prereqRows}</div>
+      </fieldset>
       <fieldset class="admin-form-fieldset">
         <legend>Options ${readOnly ? '' : '<button class="admin-btn admin-btn-sm" id="skf-add-option" type="button">+ Add option</button>'}</legend>
         <div class="skills-option-picker" id="skf-option-picker" hidden>
@@ -302,18 +384,34 @@ export class SkillsTab implements Tab {
       this.saveForm(root, ctx, modal.close);
     });
 
-    // Grant-only checkbox disables the unlock-level input.
+    // Grant-only checkbox disables the unlock-level input (and talent, which needs a level).
     const grantCheck = root.querySelector<HTMLInputElement>('#skf-grantOnly');
     const levelInput = root.querySelector<HTMLInputElement>('#skf-unlockLevel');
+    const talentCheck = root.querySelector<HTMLInputElement>('#skf-talent');
     grantCheck?.addEventListener('change', () => {
       if (levelInput) levelInput.disabled = grantCheck.checked;
+      if (talentCheck) {
+        talentCheck.disabled = grantCheck.checked;
+        if (grantCheck.checked) talentCheck.checked = false;
+      }
     });
 
-    // Type select toggles the cooldown field and re-filters the picker.
+    // Prerequisites must share the skill's class — only list that class's skills.
+    const classSelect = root.querySelector<HTMLSelectElement>('#skf-class');
+    classSelect?.addEventListener('change', () => {
+      root.querySelectorAll<HTMLElement>('.skf-prereq-row').forEach(row => {
+        const match = row.dataset.class === classSelect.value;
+        row.hidden = !match;
+        if (!match) row.querySelector<HTMLInputElement>('.skf-prereq-check')!.checked = false;
+      });
+    });
+
+    // Type select toggles the active-only fields and re-filters the picker.
     const typeSelect = root.querySelector<HTMLSelectElement>('#skf-type');
     typeSelect?.addEventListener('change', () => {
-      const wrap = root.querySelector<HTMLElement>('#skf-cooldown-wrap');
-      if (wrap) wrap.style.display = typeSelect.value === 'active' ? '' : 'none';
+      root.querySelectorAll<HTMLElement>('#skf-cooldown-wrap, #skf-damageType-wrap').forEach(wrap => {
+        wrap.style.display = typeSelect.value === 'active' ? '' : 'none';
+      });
       this.applyPickerFilter(root);
     });
 
@@ -388,6 +486,9 @@ export class SkillsTab implements Tab {
       else if (spec.input === 'boolean') effect[spec.key] = false;
       else if (spec.input === 'class') effect[spec.key] = ALL_CLASS_NAMES[0];
       else if (spec.input === 'condition') effect[spec.key] = SKILL_CONDITION_VALUES[0];
+      else if (spec.input === 'status') effect[spec.key] = this.statusEffects[0]?.id ?? '';
+      else if (spec.input === 'statusTarget') effect[spec.key] = ALL_STATUS_TARGETS[0];
+      else if (spec.input === 'choice') effect[spec.key] = spec.choices?.[0] ?? '';
     }
     return effect as unknown as PassiveEffect | ActiveEffect;
   }
@@ -428,16 +529,39 @@ export class SkillsTab implements Tab {
     if (spec.input === 'boolean') {
       return `<label${title}><input type="checkbox" ${attrs} ${value === true ? 'checked' : ''}>${label}</label>`;
     }
+    // Optional selects get a blank entry so they can be left unset
+    const blank = spec.required ? '' : `<option value="" ${value === undefined ? 'selected' : ''}>(any)</option>`;
     if (spec.input === 'class') {
       const options = ALL_CLASS_NAMES.map(c =>
         `<option value="${c}" ${value === c ? 'selected' : ''}>${c}</option>`).join('');
-      return `<label${title}>${label}<select ${attrs}>${options}</select></label>`;
+      return `<label${title}>${label}<select ${attrs}>${blank}${options}</select></label>`;
     }
     if (spec.input === 'condition') {
       const options = SKILL_CONDITION_VALUES.map(c =>
         `<option value="${c}" ${value === c ? 'selected' : ''}>${c}</option>`).join('');
       return `<label${title}>${label}<select ${attrs}>${options}</select></label>`;
     }
+    if (spec.input === 'status') {
+      const known = this.statusEffects.some(e => e.id === value);
+      const unknown = !known && typeof value === 'string' && value
+        ? `<option value="${escapeHtml(value)}" selected>${escapeHtml(value)} (missing)</option>` : '';
+      const options = this.statusEffects.map(e =>
+        `<option value="${escapeHtml(e.id)}" ${value === e.id ? 'selected' : ''}>${escapeHtml(e.name)} (${e.kind})</option>`).join('');
+      return `<label${title}>${label}<select ${attrs}>${blank}${unknown}${options}</select></label>`;
+    }
+    if (spec.input === 'statusTarget') {
+      const options = ALL_STATUS_TARGETS.map(t =>
+        `<option value="${t}" ${value === t ? 'selected' : ''}>${t}</option>`).join('');
+      return `<label${title}>${label}<select ${attrs}>${options}</select></label>`;
+    }
+    if (spec.input === 'choice') {
+      const options = (spec.choices ?? []).map(c =>
+        `<option value="${escapeHtml(c)}" ${value === c ? 'selected' : ''}>${escapeHtml(c)}</option>`).join('');
+      return `<label${title}>${label}<select ${attrs}>${blank}${options}</select></label>`;
+    }
+    if (spec.input === 'text') {
+      return `<label${title}>${label}<input type="text" ${attrs} value="${typeof value === 'string' ? escapeHtml(value) : ''}"></label>`;
+    }
     if (spec.input === 'percent') {
       // Stored as a 0-1 fraction; displayed ×100 (monster drop-chance precedent).
       const display = typeof value === 'number' ? String(Math.round(value * 100 * 1000) / 1000) : '';
@@ -468,7 +592,14 @@ export class SkillsTab implements Tab {
     const unlockLevel = parseInt((root.querySelector('#skf-unlockLevel') as HTMLInputElement).value);
     const sortOrder = parseInt((root.querySelector('#skf-sortOrder') as HTMLInputElement).value) || 0;
     const cooldown = parseInt((root.querySelector('#skf-cooldown') as HTMLInputElement).value);
+    const damageType = (root.querySelector('#skf-damageType') as HTMLSelectElement).value as DamageType | '';
     const description = (root.querySelector('#skf-description') as HTMLTextAreaElement).value.trim();
+    const isTalent = (root.querySelector('#skf-talent') as HTMLInputElement).checked;
+    const maxRank = parseInt((root.querySelector('#skf-talent-maxRank') as HTMLInputElement).value);
+    const rankScaling = parseFloat((root.querySelector('#skf-talent-rankScaling') as HTMLInputElement).value);
+    const exclusiveGroup = (root.querySelector('#skf-talent-group') as HTMLInputElement).value.trim();
+    const prerequisites = Array.from(root.querySelectorAll<HTMLInputElement>('.skf-prereq-check:checked'))
+      .map(el => el.value);
 
     const id = existingId || crypto.randomUUID();
 
@@ -505,6 +636,13 @@ export class SkillsTab implements Tab {
     if (passiveEffects.length > 0) def.passiveEffects = passiveEffects;
     if (activeEffects.length > 0) def.activeEffects = activeEffects;
     if (type === 'active' && Number.isFinite(cooldown)) def.cooldown = cooldown;
+    if (type === 'active' && damageType) def.damageType = damageType;
+    if (isTalent && !grantOnly) {
+      def.talent = { maxRank };
+      if (!Number.isNaN(rankScaling)) def.talent.rankScaling = rankScaling;
+      if (prerequisites.length > 0) def.talent.prerequisites = prerequisites;
+      if (exclusiveGroup) def.talent.exclusiveGroup = exclusiveGroup;
+    }
 
     const errors = validateSkillDefinition(def, this.skillContentOf(ctx));
     if (errors.length > 0) {
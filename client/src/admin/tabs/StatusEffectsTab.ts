@@ -0,0 +1,275 @@
+import type { Tab } from './Tab';
+import type { AdminContext } from '../AdminContext';
+import {
+  ALL_DAMAGE_TYPES,
+  ALL_STATUS_STACKING,
+  SEED_STATUS_EFFECTS,
+  validateStatusEffectDefinition,
+} from '@idle-party-rpg/shared';
+import type {
+  DamageType,
+  StatusEffectDefinition,
+  StatusEffectKind,
+  StatusModifiers,
+  StatusStacking,
+} from '@idle-party-rpg/shared';
+import { escapeHtml, putAdmin, deleteAdmin } from '../api';
+import { openModal } from '../components/Modal';
+
+export class StatusEffectsTab implements Tab {
+  render(container: HTMLElement, ctx: AdminContext): void {
+    const content = ctx.getDisplayContent();
+    if (!content) {
+      container.innerHTML = '<div class="admin-page-empty">No data</div>';
+      return;
+    }
+    const effects = Object.values(content.statusEffects ?? {})
+      .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    const readOnly = ctx.isReadOnly();
+
+    const rows = effects.map(e => {
+      // Seed statuses back built-in skill options, so they can be tuned but not removed.
+      const deletable = !SEED_STATUS_EFFECTS[e.id];
+      const actions = readOnly
+        ? `<td class="admin-actions-cell"><button class="admin-btn admin-btn-sm status-view-btn" data-id="${escapeHtml(e.id)}">View</button></td>`
+        : `<td class="admin-actions-cell">
+            <button class="admin-btn admin-btn-sm status-edit-btn" data-id="${escapeHtml(e.id)}">Edit</button>
+            ${deletable ? `<button class="admin-btn admin-btn-sm admin-btn-danger status-delete-btn" data-id="${escapeHtml(e.id)}">Del</button>` : ''}
+          </td>`;
+      return `
+        <tr>
+          <td>
+            <div>${escapeHtml(e.name)}</div>
+            <div class="admin-muted">${escapeHtml(e.id)}</div>
+          </td>
+          <td>${e.kind}</td>
+          <td>${e.stacking}${e.maxStacks !== undefined ? ` (max ${e.maxStacks})` : ''}</td>
+          <td>${e.duration === -1 ? 'Combat' : e.duration}</td>
+          <td>${e.dispellable ? 'Yes' : 'No'}</td>
+          <td>${escapeHtml(this.summarize(e))}</td>
+          ${actions}
+        </tr>
+      `;
+    }).join('');
+
+    const addBtn = readOnly ? '' : '<button class="admin-btn" id="status-add-btn">+ Add Status Effect</button>';
+
+    container.innerHTML = `
+      <div class="admin-page">
+        <div class="admin-page-header">
+          <h2>Status Effects <span class="admin-count-badge">${effects.length}</span></h2>
+          ${addBtn}
+        </div>
+        <div class="admin-table-wrap">
+          <table class="admin-table">
+            <thead><tr><th>Name</th><th>Kind</th><th>Stacking</th><th>Duration</th><th>Dispellable</th><th>Effect</th><th>Actions</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      </div>
+    `;
+
+    container.querySelector('#status-add-btn')?.addEventListener('click', () => this.openForm(null, ctx));
+    container.querySelectorAll<HTMLButtonElement>('.status-edit-btn, .status-view-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const effect = (ctx.getDisplayContent()?.statusEffects ?? {})[btn.dataset.id!];
+        if (effect) this.openForm(effect, ctx);
+      });
+    });
+    container.querySelectorAll<HTMLButtonElement>('.status-delete-btn').forEach(btn => {
+      btn.addEventListener('click', () => this.deleteEffect(ctx, btn.dataset.id!));
+    });
+  }
+
+  /** One-line summary of what the status does, for the table. */
+  private summarize(e: StatusEffectDefinition): string {
+    const parts: string[] = [];
+    const mods = e.modifiers ?? {};
+    const pct = (n: number) => `${n > 0 ? '+' : ''}${Math.round(n * 100)}%`;
+    if (mods.damageDealt) parts.push(`${pct(mods.damageDealt)} damage dealt`);
+    if (mods.damageTaken) {
+      const types = e.damageTakenTypes?.length ? ` (${e.damageTakenTypes.join('/')})` : '';
+      parts.push(`${pct(mods.damageTaken)} damage taken${types}`);
+    }
+    if (mods.dodgeChance) parts.push(`${pct(mods.dodgeChance)} dodge`);
+    if (mods.bonusDamage !== undefined) parts.push(`+${mods.bonusDamage} ${e.bonusDamageType ?? 'holy'} per hit`);
+    if (e.tick) parts.push(`${e.tick.amount} ${e.tick.kind === 'heal' ? 'heal' : `${e.tick.damageType ?? 'physical'} damage`}/turn`);
+    if (e.confusion) parts.push('confused');
+    if (e.taunt) parts.push('taunt');
+    if (e.expiresOnAction) parts.push('ends on action');
+    return parts.join(', ') || '—';
+  }
+
+  private openForm(effect: StatusEffectDefinition | null, ctx: AdminContext): void {
+    const isNew = !effect;
+    const readOnly = ctx.isReadOnly();
+    const e: StatusEffectDefinition = effect ?? {
+      id: '', name: '', kind: 'debuff', stacking: 'refresh', duration: 3, dispellable: true,
+    };
+    const mods = e.modifiers ?? {};
+    const pctValue = (n: number | undefined) => n === undefined ? '' : String(Math.round(n * 1000) / 10);
+
+    const kindOptions = (['buff', 'debuff'] as StatusEffectKind[]).map(k =>
+      `<option value="${k}" ${e.kind === k ? 'selected' : ''}>${k}</option>`).join('');
+    const stackingOptions = ALL_STATUS_STACKING.map(s =>
+      `<option value="${s}" ${e.stacking === s ? 'selected' : ''}>${s}</option>`).join('');
+    const tickKindOptions = [['', 'None'], ['damage', 'Damage'], ['heal', 'Heal']].map(([v, label]) =>
+      `<option value="${v}" ${(e.tick?.kind ?? '') === v ? 'selected' : ''}>${label}</option>`).join('');
+    const damageTypeOptions = (selected: DamageType | undefined, fallback: DamageType) => ALL_DAMAGE_TYPES.map(t =>
+      `<option value="${t}" ${(selected ?? fallback) === t ? 'selected' : ''}>${t}</option>`).join('');
+    const takenTypeChecks = ALL_DAMAGE_TYPES.map(t => `
+      <label class="admin-form-checkbox">
+        <input type="checkbox" class="sef-taken-type" value="${t}" ${e.damageTakenTypes?.includes(t) ? 'checked' : ''}>
+        ${t}
+      </label>
+    `).join('');
+
+    const formHtml = `
+      <div class="admin-form-grid">
+        <label>ID<input type="text" id="sef-id" value="${escapeHtml(e.id)}" ${isNew ? '' : 'disabled'}></label>
+        <label>Name<input type="text" id="sef-name" value="${escapeHtml(e.name)}"></label>
+        <label>Kind<select id="sef-kind">${kindOptions}</select></label>
+        <label>Stacking<select id="sef-stacking">${stackingOptions}</select></label>
+        <label>Max Stacks<input type="number" id="sef-maxStacks" value="${e.maxStacks ?? ''}" min="1" placeholder="Uncapped"></label>
+        <label>Duration (turns, -1 = combat)<input type="number" id="sef-duration" value="${e.duration}" min="-1"></label>
+        <label class="admin-form-checkbox">
+          <input type="checkbox" id="sef-dispellable" ${e.dispellable ? 'checked' : ''}>
+          Dispellable
+        </label>
+      </div>
+      <label class="admin-form-fullrow">Description (optional)
+        <textarea id="sef-description" rows="2">${escapeHtml(e.description ?? '')}</textarea>
+      </label>
+      <fieldset class="admin-form-fieldset">
+        <legend>Modifiers (per stack)</legend>
+        <div class="admin-form-grid">
+          <label>Damage Dealt %<input type="number" id="sef-damageDealt" value="${pctValue(mods.damageDealt)}" step="1"></label>
+          <label>Damage Taken %<input type="number" id="sef-damageTaken" value="${pctValue(mods.damageTaken)}" step="1"></label>
+          <label>Dodge Chance %<input type="number" id="sef-dodgeChance" value="${pctValue(mods.dodgeChance)}" step="1"></label>
+          <label>Bonus Damage / hit<input type="number" id="sef-bonusDamage" value="${mods.bonusDamage ?? ''}" min="0"></label>
+          <label>Bonus Damage Type<select id="sef-bonusDamageType">${damageTypeOptions(e.bonusDamageType, 'holy')}</select></label>
+        </div>
+        <span class="admin-form-hint">Damage Taken only from these types (none checked = all):</span>
+        <div class="admin-form-grid">${takenTypeChecks}</div>
+      </fieldset>
+      <fieldset class="admin-form-fieldset">
+        <legend>Tick (start of the bearer's turn)</legend>
+        <div class="admin-form-grid">
+          <label>Kind<select id="sef-tickKind">${tickKindOptions}</select></label>
+          <label>Amount / stack<input type="number" id="sef-tickAmount" value="${e.tick?.amount ?? 0}" min="0"></label>
+          <label>Damage Type<select id="sef-tickDamageType">${damageTypeOptions(e.tick?.damageType, 'physical')}</select></label>
+        </div>
+      </fieldset>
+      <fieldset class="admin-form-fieldset">
+        <legend>Behaviour</legend>
+        <label class="admin-form-checkbox">
+          <input type="checkbox" id="sef-confusion" ${e.confusion ? 'checked' : ''}>
+          Confusion (monster attacks its own side)
+        </label>
+        <label class="admin-form-checkbox">
+          <input type="checkbox" id="sef-taunt" ${e.taunt ? 'checked' : ''}>
+          Taunt (monsters' single-target attacks must hit the bearer)
+        </label>
+        <label class="admin-form-checkbox">
+          <input type="checkbox" id="sef-expiresOnAction" ${e.expiresOnAction ? 'checked' : ''}>
+          Ends after the bearer's next action
+        </label>
+      </fieldset>
+    `;
+    const actionsHtml = readOnly
+      ? `<div class="admin-modal-actions admin-modal-actions-readonly">
+          <span class="admin-form-hint admin-modal-readonly-hint">* Create a new draft to edit</span>
+          <button class="admin-btn admin-btn-secondary" id="sef-cancel" type="button">Close</button>
+        </div>`
+      : `<div class="admin-modal-actions">
+          <button class="admin-btn" id="sef-save" type="button">${isNew ? 'Add' : 'Save'}</button>
+          <button class="admin-btn admin-btn-secondary" id="sef-cancel" type="button">Cancel</button>
+        </div>`;
+    const bodyHtml = readOnly
+      ? `<fieldset class="admin-form-readonly-wrap" disabled>${formHtml}</fieldset>${actionsHtml}`
+      : `${formHtml}${actionsHtml}`;
+    const titlePrefix = isNew ? 'Add' : (readOnly ? 'View' : 'Edit');
+    const modal = openModal({
+      title: isNew ? 'Add Status Effect' : `${titlePrefix}: ${e.name}`,
+      bodyHtml,
+      width: '720px',
+    });
+    const root = modal.body;
+
+    root.querySelector('#sef-cancel')?.addEventListener('click', modal.close);
+    root.querySelector('#sef-save')?.addEventListener('click', () => this.saveForm(root, ctx, modal.close));
+  }
+
+  private async saveForm(root: HTMLElement, ctx: AdminContext, close: () => void): Promise<void> {
+    const str = (sel: string) => (root.querySelector(sel) as HTMLInputElement | HTMLSelectElement).value.trim();
+    const checked = (sel: string) => (root.querySelector(sel) as HTMLInputElement).checked;
+    const optionalPct = (sel: string) => str(sel) === '' ? undefined : parseFloat(str(sel)) / 100;
+
+    const modifiers: StatusModifiers = {
+      damageDealt: optionalPct('#sef-damageDealt'),
+      damageTaken: optionalPct('#sef-damageTaken'),
+      dodgeChance: optionalPct('#sef-dodgeChance'),
+      bonusDamage: str('#sef-bonusDamage') === '' ? undefined : parseInt(str('#sef-bonusDamage')),
+    };
+    for (const key of Object.keys(modifiers) as (keyof StatusModifiers)[]) {
+      if (modifiers[key] === undefined) delete modifiers[key];
+    }
+    const damageTakenTypes = Array.from(root.querySelectorAll<HTMLInputElement>('.sef-taken-type'))
+      .filter(cb => cb.checked)
+      .map(cb => cb.value as DamageType);
+    const tickKind = str('#sef-tickKind');
+    const maxStacks = str('#sef-maxStacks');
+    const description = str('#sef-description');
+
+    const effect: StatusEffectDefinition = {
+      id: str('#sef-id'),
+      name: str('#sef-name'),
+      description: description || undefined,
+      kind: str('#sef-kind') as StatusEffectKind,
+      stacking: str('#sef-stacking') as StatusStacking,
+      maxStacks: maxStacks === '' ? undefined : parseInt(maxStacks),
+      duration: parseInt(str('#sef-duration')),
+      dispellable: checked('#sef-dispellable'),
+      tick: tickKind === 'damage' || tickKind === 'heal'
+        ? {
+            kind: tickKind,
+            amount: parseInt(str('#sef-tickAmount')) || 0,
+            damageType: tickKind === 'damage' ? str('#sef-tickDamageType') as DamageType : undefined,
+          }
+        : undefined,
+      modifiers: Object.keys(modifiers).length > 0 ? modifiers : undefined,
+      damageTakenTypes: damageTakenTypes.length > 0 ? damageTakenTypes : undefined,
+      bonusDamageType: modifiers.bonusDamage !== undefined ? str('#sef-bonusDamageType') as DamageType : undefined,
+      confusion: checked('#sef-confusion') ? true : undefined,
+      taunt: checked('#sef-taunt') ? true : undefined,
+      expiresOnAction: checked('#sef-expiresOnAction') ? true : undefined,
+    };
+
+    const errors = validateStatusEffectDefinition(effect);
+    if (errors.length > 0) { alert(errors.join('\n')); return; }
+
+    try {
+      const data = await putAdmin<{ statusEffects: Record<string, StatusEffectDefinition> }>(
+        `/api/admin/status-effects/${encodeURIComponent(effect.id)}${ctx.versionQueryParam()}`, effect);
+      ctx.patchVersionContent({ statusEffects: data.statusEffects });
+      close();
+      ctx.rerenderTab();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Network error');
+    }
+  }
+
+  private async deleteEffect(ctx: AdminContext, id: string): Promise<void> {
+    const effect = (ctx.getDisplayContent()?.statusEffects ?? {})[id];
+    if (!effect) return;
+    if (!confirm(`Delete status effect "${effect.name}"?`)) return;
+    try {
+      const data = await deleteAdmin<{ statusEffects: Record<string, StatusEffectDefinition> }>(
+        `/api/admin/status-effects/${encodeURIComponent(id)}${ctx.versionQueryParam()}`);
+      ctx.patchVersionContent({ statusEffects: data.statusEffects });
+      ctx.rerenderTab();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Network error');
+    }
+  }
+}
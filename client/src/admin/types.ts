@@ -13,6 +13,9 @@ import type {
   DungeonDefinition,
   SkillDefinition,
   SkillSlot,
+  StatusEffectDefinition,
+  AffixDefinition,
+  SalvageTableDefinition,
   DesignNote,
 } from '@idle-party-rpg/shared';
 
@@ -68,6 +71,9 @@ export interface ContentData {
   dungeons: Record<string, DungeonDefinition>;
   skills: Record<string, SkillDefinition>;
   skillSlotSchedules: Record<string, SkillSlot[]>;
+  statusEffects: Record<string, StatusEffectDefinition>;
+  affixes: Record<string, AffixDefinition>;
+  salvageTables: Record<string, SalvageTableDefinition>;
   designNotes: Record<string, DesignNote>;
   world: WorldData;
 }
@@ -95,12 +101,16 @@ export type TabId =
   | 'quests'
   | 'zones'
   | 'encounters'
+  | 'battle-sim'
   | 'tile-types'
   | 'dungeons'
   | 'maps'
   | 'map'
   | 'versions'
   | 'skills'
+  | 'status-effects'
+  | 'affixes'
+  | 'salvage'
   | 'xp-table';
 
 export interface TabDef {
@@ -122,12 +132,16 @@ export const TABS: TabDef[] = [
   { id: 'quests',     label: 'Quests',     icon: '!' },
   { id: 'zones',      label: 'Zones',      icon: '○' },
   { id: 'encounters', label: 'Encounters', icon: '⚔' },
+  { id: 'battle-sim', label: 'Battle Sim', icon: '⚖' },
   { id: 'tile-types', label: 'Tile Types', icon: '■' },
   { id: 'dungeons',   label: 'Dungeons',   icon: '⛬' },
   { id: 'maps',       label: 'Maps',       icon: '▤' },
   { id: 'map',        label: 'Map Editor', icon: '⌖' },
   { id: 'versions',   label: 'Versions',   icon: '⧉' },
   { id: 'skills',     label: 'Skills',     icon: '✥' },
+  { id: 'status-effects', label: 'Status Effects', icon: '✺' },
+  { id: 'affixes',    label: 'Affixes',    icon: '✧' },
+  { id: 'salvage',    label: 'Salvage',    icon: '♻' },
   { id: 'xp-table',   label: 'XP Table',   icon: '✨' },
 ];
 
@@ -1,4 +1,4 @@
-import type { ServerStateMessage, ServerEquipBlockedMessage, PlayerProfileMessage, BlockLevel, ChatMessage, ChatChannelType, TradeOfferItem, NotificationEntry, NotificationPreferences, WebPushSubscription } from '@idle-party-rpg/shared';
+import type { ServerStateMessage, ServerEquipBlockedMessage, ItemRarity, AutoUseTrigger, PlayerProfileMessage, ServerAuctionResultsMessage, ServerWorkOrderResultsMessage, AuctionSearchFilter, BlockLevel, ChatMessage, ChatChannelType, TradeOfferItem, NotificationEntry, NotificationPreferences, WebPushSubscription } from '@idle-party-rpg/shared';
 
 const RECONNECT_DELAY = 2000;
 
@@ -13,6 +13,8 @@ type ResumeListener = () => void;
 type MoveBlockedListener = (msg: { itemName: string; itemId: string; missingPlayers: string[] }) => void;
 type PlayerProfileListener = (profile: PlayerProfileMessage) => void;
 type NotificationListener = (notification: NotificationEntry) => void;
+type AuctionResultsListener = (results: ServerAuctionResultsMessage) => void;
+type WorkOrderResultsListener = (results: ServerWorkOrderResultsMessage) => void;
 
 export class GameClient {
   private ws: WebSocket | null = null;
@@ -32,6 +34,8 @@ export class GameClient {
   private resumeListeners = new Set<ResumeListener>();
   private playerProfileListeners = new Set<PlayerProfileListener>();
   private notificationListeners = new Set<NotificationListener>();
+  private auctionResultsListeners = new Set<AuctionResultsListener>();
+  private workOrderResultsListeners = new Set<WorkOrderResultsListener>();
 
   /** Pending connect resolve — set during connect() call. */
   private connectResolve?: (result: { success: boolean; error?: string }) => void;
@@ -211,6 +215,22 @@ export class GameClient {
             console.error('[GameClient] error in player_profile listener:', err);
           }
         }
+      } else if (msg.type === 'auction_results') {
+        for (const listener of this.auctionResultsListeners) {
+          try {
+            listener(msg);
+          } catch (err) {
+            console.error('[GameClient] error in auction_results listener:', err);
+          }
+        }
+      } else if (msg.type === 'work_order_results') {
+        for (const listener of this.workOrderResultsListeners) {
+          try {
+            listener(msg);
+          } catch (err) {
+            console.error('[GameClient] error in work_order_results listener:', err);
+          }
+        }
       } else if (msg.type === 'notification') {
         for (const listener of this.notificationListeners) {
           try {
@@ -302,6 +322,14 @@ export class GameClient {
     this.sendRaw({ type: 'unequip_skill', slotIndex });
   }
 
+  sendLearnTalent(skillId: string): void {
+    this.sendRaw({ type: 'learn_talent', skillId });
+  }
+
+  sendRespecTalents(): void {
+    this.sendRaw({ type: 'respec_talents' });
+  }
+
   sendSetClass(className: string): void {
     this.sendRaw({ type: 'set_class', className });
   }
@@ -318,6 +346,52 @@ export class GameClient {
     this.sendRaw({ type: 'destroy_items', itemId, count });
   }
 
+  sendSocketGem(itemId: string, gemId: string, equipped: boolean): void {
+    this.sendRaw({ type: 'socket_gem', itemId, gemId, equipped });
+  }
+
+  /** Remove the gem at `index`; `destroy` skips the gold fee and loses the gem. */
+  sendUnsocketGem(itemId: string, index: number, destroy: boolean): void {
+    this.sendRaw({ type: 'unsocket_gem', itemId, index, destroy });
+  }
+
+  sendSalvageItem(itemId: string, count: number): void {
+    this.sendRaw({ type: 'salvage_item', itemId, count });
+  }
+
+  /** Salvage every unequipped gear item of the given rarities. */
+  sendSalvageAll(rarities: ItemRarity[]): void {
+    this.sendRaw({ type: 'salvage_all', rarities });
+  }
+
+  sendSaveLoadout(name: string): void {
+    this.sendRaw({ type: 'save_loadout', name });
+  }
+
+  sendDeleteLoadout(name: string): void {
+    this.sendRaw({ type: 'delete_loadout', name });
+  }
+
+  sendApplyLoadout(name: string): void {
+    this.sendRaw({ type: 'apply_loadout', name });
+  }
+
+  sendStashDeposit(tab: number, itemId: string, quantity: number): void {
+    this.sendRaw({ type: 'stash_deposit', tab, itemId, quantity });
+  }
+
+  sendStashWithdraw(tab: number, itemId: string, quantity: number): void {
+    this.sendRaw({ type: 'stash_withdraw', tab, itemId, quantity });
+  }
+
+  sendUseConsumable(itemId: string): void {
+    this.sendRaw({ type: 'use_consumable', itemId });
+  }
+
+  sendSetAutoUse(itemId: string, trigger: AutoUseTrigger | null, hpPercent?: number): void {
+    this.sendRaw({ type: 'set_auto_use', itemId, trigger, hpPercent });
+  }
+
   sendEquipItemForceDestroy(itemId: string): void {
     this.sendRaw({ type: 'equip_item_force_destroy', itemId });
   }
@@ -348,10 +422,14 @@ export class GameClient {
     this.sendRaw({ type: 'shop_sell', itemId, quantity });
   }
 
+  sendShopBuyback(index: number): void {
+    this.sendRaw({ type: 'shop_buyback', index });
+  }
+
   // --- Crafting ---
 
-  sendCraftQueue(recipeId: string): void {
-    this.sendRaw({ type: 'craft_queue', recipeId });
+  sendCraftQueue(recipeId: string, workOrderId?: string): void {
+    this.sendRaw({ type: 'craft_queue', recipeId, ...(workOrderId ? { workOrderId } : {}) });
   }
 
   sendCraftCancel(index: number): void {
@@ -368,6 +446,10 @@ export class GameClient {
     this.sendRaw({ type: 'turn_in_quest', questId });
   }
 
+  sendLearnRecipe(recipeId: string): void {
+    this.sendRaw({ type: 'learn_recipe', recipeId });
+  }
+
   // --- View Player ---
 
   sendViewPlayer(username: string): void {
@@ -554,18 +636,68 @@ export class GameClient {
     this.sendRaw({ type: 'cancel_trade', tradeId });
   }
 
-  // --- Gift ---
+  // --- Mail ---
+
+  sendMail(targetUsername: string, subject: string, body: string, attachments: { itemId: string; quantity: number }[], gold: number): void {
+    this.sendRaw({ type: 'send_mail', targetUsername, subject, body, attachments, gold });
+  }
+
+  sendClaimMail(entryId: string): void {
+    this.sendRaw({ type: 'claim_mail', entryId });
+  }
+
+  sendClaimAllMail(): void {
+    this.sendRaw({ type: 'claim_all_mail' });
+  }
+
+  sendReturnMail(entryId: string): void {
+    this.sendRaw({ type: 'return_mail', entryId });
+  }
+
+  sendDeleteMail(entryId: string): void {
+    this.sendRaw({ type: 'delete_mail', entryId });
+  }
+
+  // --- Auction house ---
+
+  sendSearchAuctions(filter: AuctionSearchFilter): void {
+    this.sendRaw({ type: 'search_auctions', filter });
+  }
+
+  sendListAuction(itemId: string, quantity: number, price: number, durationHours: number): void {
+    this.sendRaw({ type: 'list_auction', itemId, quantity, price, durationHours });
+  }
+
+  sendBuyAuction(listingId: string): void {
+    this.sendRaw({ type: 'buy_auction', listingId });
+  }
+
+  sendCancelAuction(listingId: string): void {
+    this.sendRaw({ type: 'cancel_auction', listingId });
+  }
+
+  onAuctionResults(listener: AuctionResultsListener): () => void {
+    this.auctionResultsListeners.add(listener);
+    return () => { this.auctionResultsListeners.delete(listener); };
+  }
+
+  // --- Work orders ---
+
+  sendGetWorkOrders(): void {
+    this.sendRaw({ type: 'get_work_orders' });
+  }
 
-  sendGift(targetUsername: string, itemId: string, quantity: number): void {
-    this.sendRaw({ type: 'send_gift', targetUsername, itemId, quantity });
+  sendPostWorkOrder(itemId: string, quantity: number, reward: number): void {
+    this.sendRaw({ type: 'post_work_order', itemId, quantity, reward });
   }
 
-  sendAcceptGift(entryId: string): void {
-    this.sendRaw({ type: 'accept_gift', entryId });
+  sendCancelWorkOrder(orderId: string): void {
+    this.sendRaw({ type: 'cancel_work_order', orderId });
   }
 
-  sendDenyGift(entryId: string): void {
-    this.sendRaw({ type: 'deny_gift', entryId });
+  onWorkOrderResults(listener: WorkOrderResultsListener): () => void {
+    this.workOrderResultsListeners.add(listener);
+    return () => { this.workOrderResultsListeners.delete(listener); };
   }
 
   destroy(): void {
@@ -582,5 +714,7 @@ export class GameClient {
     this.worldUpdateListeners.clear();
     this.resumeListeners.clear();
     this.notificationListeners.clear();
+    this.auctionResultsListeners.clear();
+    this.workOrderResultsListeners.clear();
   }
 }
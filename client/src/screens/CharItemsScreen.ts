@@ -9,14 +9,42 @@ import type {
   ItemDefinition,
   SetDefinition,
   SkillDefinition,
+  SalvageTableDefinition,
+  ActiveConsumable,
+  AutoUseRule,
+  AutoUseTrigger,
+  SavedLoadout,
+  StashTab,
 } from '@idle-party-rpg/shared';
 import {
   computeEquipmentBonuses,
+  getResistanceText,
   classIconHtml,
   CLASS_DEFINITIONS,
   getSkillsForClass,
+  canLearnTalent,
+  getTalentPointsForLevel,
+  getSpentTalentPoints,
+  getRespecCost,
   getOwnedItemIds,
   getEquippedItemIds,
+  getFreeSockets,
+  getGemRemovalCost,
+  getSalvageBlockReason,
+  getBulkSalvageKeys,
+  BULK_SALVAGE_RARITIES,
+  getConsumableEffect,
+  getConsumableEffectText,
+  AUTO_USE_TRIGGERS_BY_KIND,
+  AUTO_USE_TRIGGER_LABELS,
+  DEFAULT_AUTO_USE_HP_PERCENT,
+  MAX_LOADOUTS,
+  MAX_LOADOUT_NAME_LENGTH,
+  MAX_STACK,
+  MAX_STASH_TAB_STACKS,
+  hasMailContents,
+  canMailExpire,
+  splitClaimableAttachments,
 } from '@idle-party-rpg/shared';
 import type { Screen } from './ScreenManager';
 import type { WorldCache } from '../network/WorldCache';
@@ -48,7 +76,8 @@ const RARITY_BUCKET_ORDER = ['heirloom', 'legendary', 'epic', 'rare', 'uncommon'
 const STAT_TOOLTIPS: Record<string, { full: string; desc: string }> = {
   ATK: { full: 'Attack', desc: 'Damage you deal per attack (base + equipment).' },
   DR: { full: 'Damage Reduction', desc: 'Reduces incoming physical damage (per hit).' },
-  MR: { full: 'Magic Resistance', desc: 'Reduces incoming magical damage. Holy damage is unaffected.' },
+  MR: { full: 'Magic Resistance', desc: 'Reduces incoming spell damage (arcane, fire, frost, poison, shadow, nature). Holy damage is unaffected.' },
+  RES: { full: 'Type Resistances', desc: 'Per-damage-type resistances from gear: percent first, then flat.' },
   HP: { full: 'Hit Points', desc: 'Maximum health pool.' },
 };
 
@@ -235,6 +264,48 @@ function injectCharItemsStyles(): void {
     }
     .charitems-skill-popup-btn:hover { background: #3a3a55; }
     .charitems-skill-popup-btn.danger { border-color: #a33; color: #f88; }
+    .charitems-skill-popup-btn:disabled { opacity: 0.45; cursor: not-allowed; }
+
+    .charitems-skill-slot.talents { border-color: var(--accent-gold); }
+    .charitems-talent-popup { max-width: 520px; }
+    .charitems-talent-tier {
+      display: flex;
+      gap: 6px;
+      align-items: stretch;
+      padding-left: 8px;
+      border-left: 2px solid #333;
+    }
+    .charitems-talent-tier-label {
+      flex: 0 0 40px;
+      font-size: 10px;
+      color: var(--text-dim);
+      text-transform: uppercase;
+      padding-top: 6px;
+    }
+    .charitems-talent-nodes {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      flex: 1;
+    }
+    .charitems-talent-node {
+      flex: 1 1 130px;
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      padding: 6px 8px;
+      border: 1px solid #333;
+      background: #0f0f1c;
+      border-radius: 4px;
+      opacity: 0.55;
+    }
+    .charitems-talent-node.learned { opacity: 1; border-color: #5c8a5c; }
+    .charitems-talent-node.available { opacity: 1; cursor: pointer; border-color: var(--accent-gold); }
+    .charitems-talent-node.available:hover { background: #1c1c30; }
+    .charitems-talent-rank {
+      font-size: 10px;
+      color: var(--accent-gold, #c89b3c);
+    }
 
     .charitems-stat-card {
       display: flex;
@@ -544,6 +615,30 @@ function injectItemsStyles(): void {
       padding: 4px 6px; border-radius: 4px; border: 1px solid #555;
       background: #1a1a2e; color: #e8e8e8; font-family: inherit; font-size: 14px;
     }
+    .items-salvage-junk {
+      padding: 4px 8px; border-radius: 4px; border: 1px solid #555;
+      background: #2a2a40; color: #e8e8e8; font-family: inherit; font-size: 14px;
+      cursor: pointer; white-space: nowrap;
+    }
+    .items-salvage-junk:hover { background: #3a3a55; }
+
+    .charitems-loadouts { display: flex; gap: 6px; align-items: center; margin-top: 8px; }
+    .charitems-loadouts select {
+      flex: 1; min-width: 0; padding: 4px 6px; border-radius: 4px; border: 1px solid #555;
+      background: #1a1a2e; color: #e8e8e8; font-family: inherit; font-size: 14px;
+    }
+    .charitems-loadouts button {
+      padding: 4px 8px; border-radius: 4px; border: 1px solid #555;
+      background: #2a2a40; color: #e8e8e8; font-family: inherit; font-size: 14px; cursor: pointer;
+    }
+    .charitems-loadouts button:hover { background: #3a3a55; }
+    .charitems-loadouts button:disabled { opacity: 0.45; cursor: not-allowed; }
+
+    .items-active-effects { display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 8px; }
+    .items-active-effect {
+      padding: 2px 8px; border-radius: 4px; border: 1px solid #555;
+      background: #1a1a2e; color: #f6c177; font-size: 13px;
+    }
 
     .items-inv-grid {
       display: grid;
@@ -577,8 +672,13 @@ function injectItemsStyles(): void {
     .mailbox-info, .trade-row-main { flex: 1; min-width: 0; }
     .mailbox-from { color: #aaa; font-size: 13px; }
     .mailbox-note { color: #d77; font-style: italic; margin-left: 4px; }
+    .mailbox-expiry { color: #666; float: right; }
+    .mailbox-subject { color: #e8e8e8; margin-top: 2px; }
+    .mailbox-body { color: #aaa; font-size: 13px; margin-top: 2px; white-space: pre-wrap; overflow-wrap: anywhere; }
+    .mailbox-claim-all { float: right; padding: 2px 8px; font-size: 12px; }
     .mailbox-item { margin-top: 2px; }
     .mailbox-item-qty { color: #888; margin-left: 4px; }
+    .mailbox-gold { color: #e9bc18; }
     .mailbox-warn { color: #d77; font-size: 13px; margin-top: 2px; }
     .mailbox-actions, .trade-row-actions {
       display: flex; flex-direction: column; gap: 4px; flex-shrink: 0;
@@ -594,6 +694,15 @@ function injectItemsStyles(): void {
     .trade-row-label { color: #666; margin-right: 4px; }
     .trade-row-empty { color: #555; font-style: italic; }
     .trade-row-item { display: inline-block; }
+
+    .items-stash { margin-top: 8px; }
+    .items-stash-tabs { display: flex; gap: 4px; margin-bottom: 6px; }
+    .items-stash-tabs button {
+      flex: 1; padding: 4px 6px; border-radius: 4px; border: 1px solid #555;
+      background: #1a1a2e; color: #aaa; font-family: inherit; font-size: 13px; cursor: pointer;
+    }
+    .items-stash-tabs button.active { background: #2a2a40; color: #e8e8e8; border-color: #888; }
+    .items-stash-empty { color: #666; font-size: 13px; font-style: italic; padding: 4px 0 8px; }
   `;
   document.head.appendChild(style);
 }
@@ -623,9 +732,13 @@ export class CharItemsScreen implements Screen {
   private inventoryGrid!: HTMLElement;
   private mailboxContainer!: HTMLElement;
   private tradesContainer!: HTMLElement;
+  private stashContainer!: HTMLElement;
   private modalOverlay!: HTMLElement;
   private searchInput!: HTMLInputElement;
   private sortSelect!: HTMLSelectElement;
+  private salvageJunkBtn!: HTMLButtonElement;
+  private activeEffectsEl!: HTMLElement;
+  private loadoutsEl!: HTMLElement;
 
   private unsubscribe?: () => void;
   private unsubEquipBlocked?: () => void;
@@ -633,12 +746,22 @@ export class CharItemsScreen implements Screen {
   /** Cached item definitions. */
   private itemDefs: Record<string, ItemDefinition> = {};
   private setDefs: Record<string, SetDefinition> = {};
+  private salvageTables: Record<string, SalvageTableDefinition> = {};
+  private lastAutoUseRules: AutoUseRule[] = [];
+  private lastActiveEffectsKey = '';
+  private lastLoadoutsKey = '';
+  /** Loadout picked in the dropdown, kept across re-renders. */
+  private selectedLoadout = '';
 
   /** Cached character state. */
   private lastEquipment: Record<string, string | null> = {};
   private lastInventory: Record<string, number> = {};
   private lastClassName = '';
+  private lastLevel = 1;
   private lastMailbox: MailboxEntry[] = [];
+  private lastStash: StashTab[] = [];
+  private lastStashAvailable = false;
+  private selectedStashTab = 0;
   private lastProposedTrades: TradeState[] = [];
   private lastUsername = '';
 
@@ -648,6 +771,7 @@ export class CharItemsScreen implements Screen {
   private lastSkillKey = '';
   private lastMailboxKey = '';
   private lastTradesKey = '';
+  private lastStashKey = '';
   private lastHeroKey = '';
   private lastStatKey = '';
 
@@ -715,6 +839,7 @@ export class CharItemsScreen implements Screen {
             </div>
           </div>
           <div class="charitems-skills-strip"></div>
+          <div class="charitems-loadouts"></div>
         </div>
 
         <div class="charitems-stat-card"></div>
@@ -740,6 +865,9 @@ export class CharItemsScreen implements Screen {
 
         <div class="items-mailbox"></div>
         <div class="items-trades"></div>
+        <div class="items-stash"></div>
+
+        <div class="items-active-effects"></div>
 
         <div class="items-section-label">Inventory</div>
         <div class="items-search-sort">
@@ -749,6 +877,7 @@ export class CharItemsScreen implements Screen {
             <option value="rarity">Rarity</option>
             <option value="newest">Newest</option>
           </select>
+          <button class="items-salvage-junk" style="display:none">Salvage junk</button>
         </div>
         <div class="items-inv-grid"></div>
       </div>
@@ -772,9 +901,14 @@ export class CharItemsScreen implements Screen {
     this.inventoryGrid = this.container.querySelector('.items-inv-grid')!;
     this.mailboxContainer = this.container.querySelector('.items-mailbox')!;
     this.tradesContainer = this.container.querySelector('.items-trades')!;
+    this.stashContainer = this.container.querySelector('.items-stash')!;
     this.modalOverlay = this.container.querySelector('.items-modal-overlay')!;
     this.searchInput = this.container.querySelector('.items-search-input')!;
     this.sortSelect = this.container.querySelector('.items-sort-select')!;
+    this.salvageJunkBtn = this.container.querySelector('.items-salvage-junk')!;
+    this.salvageJunkBtn.addEventListener('click', () => this.showSalvageJunkModal());
+    this.activeEffectsEl = this.container.querySelector('.items-active-effects')!;
+    this.loadoutsEl = this.container.querySelector('.charitems-loadouts')!;
 
     // XP rate reset
     this.container.querySelector('.charitems-xp-rate-reset')!.addEventListener('click', () => {
@@ -787,10 +921,12 @@ export class CharItemsScreen implements Screen {
       const btn = (e.target as HTMLElement).closest('button[data-mb-action]') as HTMLButtonElement | null;
       if (!btn) return;
       const action = btn.getAttribute('data-mb-action');
+      if (action === 'claim-all') { this.gameClient.sendClaimAllMail(); return; }
       const id = btn.getAttribute('data-entry-id');
       if (!id) return;
-      if (action === 'accept') this.gameClient.sendAcceptGift(id);
-      if (action === 'deny') this.gameClient.sendDenyGift(id);
+      if (action === 'claim') this.gameClient.sendClaimMail(id);
+      if (action === 'return') this.gameClient.sendReturnMail(id);
+      if (action === 'delete') this.gameClient.sendDeleteMail(id);
     });
     this.tradesContainer.addEventListener('click', (e) => {
       const target = e.target as HTMLElement;
@@ -807,6 +943,19 @@ export class CharItemsScreen implements Screen {
       }
     });
 
+    this.stashContainer.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const tabBtn = target.closest('button[data-stash-tab]') as HTMLButtonElement | null;
+      if (tabBtn) {
+        this.selectedStashTab = parseInt(tabBtn.getAttribute('data-stash-tab')!, 10);
+        this.renderStash();
+        return;
+      }
+      const square = target.closest('.item-square[data-item]') as HTMLElement | null;
+      const itemId = square?.getAttribute('data-item');
+      if (itemId) this.showStashWithdraw(itemId);
+    });
+
     this.modalOverlay.addEventListener('click', (e) => {
       if (e.target === this.modalOverlay) this.hideModal();
     });
@@ -847,6 +996,10 @@ export class CharItemsScreen implements Screen {
 
     // Skill slot click delegation
     this.skillStripEl.addEventListener('click', (e) => {
+      if ((e.target as HTMLElement).closest('.charitems-skill-slot.talents')) {
+        this.openTalentPopup();
+        return;
+      }
       const slot = (e.target as HTMLElement).closest('.charitems-skill-slot[data-slot-index]') as HTMLElement | null;
       if (!slot) return;
       if (slot.classList.contains('locked')) return;
@@ -869,10 +1022,15 @@ export class CharItemsScreen implements Screen {
 
     this.itemDefs = state.itemDefinitions ?? {};
     this.setDefs = state.setDefinitions ?? {};
+    this.salvageTables = state.salvageTables ?? {};
+    this.lastAutoUseRules = char.autoUseRules ?? [];
     this.lastEquipment = { ...char.equipment };
     this.lastInventory = { ...char.inventory };
     this.lastClassName = char.className;
+    this.lastLevel = char.level;
     this.lastMailbox = state.social?.mailbox ?? [];
+    this.lastStash = char.stash ?? [];
+    this.lastStashAvailable = !!state.stashAvailable;
     this.lastProposedTrades = state.social?.proposedTrades ?? [];
     this.lastUsername = state.username ?? '';
 
@@ -901,20 +1059,33 @@ export class CharItemsScreen implements Screen {
       this.renderEquipment(char);
     }
 
+    const loadoutsKey = JSON.stringify((char.loadouts ?? []).map(l => l.name));
+    if (loadoutsKey !== this.lastLoadoutsKey) {
+      this.lastLoadoutsKey = loadoutsKey;
+      this.renderLoadouts(char.loadouts ?? []);
+    }
+
+    const activeEffectsKey = JSON.stringify(char.activeConsumables ?? []);
+    if (activeEffectsKey !== this.lastActiveEffectsKey) {
+      this.lastActiveEffectsKey = activeEffectsKey;
+      this.renderActiveEffects(char.activeConsumables ?? []);
+    }
+
     const invKey = JSON.stringify(char.inventory);
     if (invKey !== this.lastInvKey) {
       this.lastInvKey = invKey;
       this.renderInventory();
     }
 
-    // Skill loadout — re-render when skill state, the content catalog, or the
-    // equipment-granted skill set changes
+    // Skill loadout — re-render when skill state, the content catalog, the
+    // equipment-granted skill set, or gold (talent respec button) changes
     const skillKey = JSON.stringify(char.skillLoadout) + '|' + char.level
       + '|' + this.worldCache.contentGeneration
-      + '|' + JSON.stringify(char.grantedSkillIds ?? []);
+      + '|' + JSON.stringify(char.grantedSkillIds ?? []) + '|' + char.gold;
     if (!this.skillPopupOpen && skillKey !== this.lastSkillKey) {
       this.lastSkillKey = skillKey;
       this.renderSkillStrip(state);
+      this.renderTalentPopup(state);
     }
 
     // Stat card — re-render when stats change
@@ -938,12 +1109,21 @@ export class CharItemsScreen implements Screen {
     this.renderXpRate(char.xpRate);
 
     // Mailbox & trades — re-render on change
-    const mailboxKey = JSON.stringify(this.lastMailbox.map(e => [e.id, e.itemId, e.quantity, e.fromUsername, e.returned ?? false]));
+    const mailboxKey = JSON.stringify([
+      this.lastMailbox.map(e => [e.id, e.attachments.map(a => [a.itemId, a.quantity]), e.gold ?? 0]),
+      this.lastMailbox.flatMap(e => e.attachments.map(a => this.lastInventory[a.itemId] ?? 0)),
+    ]);
     if (mailboxKey !== this.lastMailboxKey) {
       this.lastMailboxKey = mailboxKey;
       this.renderMailbox();
     }
 
+    const stashKey = JSON.stringify([this.lastStashAvailable, this.lastStash]);
+    if (stashKey !== this.lastStashKey) {
+      this.lastStashKey = stashKey;
+      this.renderStash();
+    }
+
     const tradesKey = JSON.stringify(this.lastProposedTrades.map(t => [t.id, t.status, t.lastUpdatedBy, t.initiator.items.length, t.target?.items.length ?? 0]));
     if (tradesKey !== this.lastTradesKey) {
       this.lastTradesKey = tradesKey;
@@ -1032,6 +1212,15 @@ export class CharItemsScreen implements Screen {
         </div>`;
       }
     }
+    const talentCount = getSkillsForClass(char.className as ClassName, this.worldCache.getSkillContent())
+      .filter(s => s.talent).length;
+    if (talentCount > 0) {
+      const free = getTalentPointsForLevel(char.level) - getSpentTalentPoints(char.skillLoadout.talentRanks);
+      html += `<div class="charitems-skill-slot talents">
+        <span class="charitems-skill-slot-name">Talents</span>
+        <span class="charitems-skill-slot-meta">${free} pt${free === 1 ? '' : 's'} free</span>
+      </div>`;
+    }
     this.skillStripEl.innerHTML = html;
   }
 
@@ -1105,7 +1294,7 @@ export class CharItemsScreen implements Screen {
           ? `data-locked="1"`
           : `data-skill-id="${this.escapeHtml(s.id)}" ${isCurrent ? 'data-current="1"' : ''}`;
         const tagline = locked
-          ? `<div class="charitems-skill-row-locklabel">Unlocks at Lv ${s.unlockLevel}</div>`
+          ? `<div class="charitems-skill-row-locklabel">${s.talent ? `Talent &middot; learn from Lv ${s.unlockLevel}` : `Unlocks at Lv ${s.unlockLevel}`}</div>`
           : granted
             ? `<div class="charitems-skill-row-locklabel">Granted by equipment</div>`
             : '';
@@ -1157,6 +1346,92 @@ export class CharItemsScreen implements Screen {
     });
   }
 
+  // ── Talent tree ─────────────────────────────────────────────
+
+  private openTalentPopup(): void {
+    this.closeSkillPopup();
+    const overlay = document.createElement('div');
+    overlay.className = 'charitems-skill-popup-overlay charitems-talent-overlay';
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) this.closeSkillPopup();
+    });
+    document.body.appendChild(overlay);
+    bringToFront(overlay);
+    const state = this.gameClient.lastState;
+    if (state) this.renderTalentPopup(state);
+  }
+
+  /**
+   * (Re)draw the open talent tree: one row per unlock level, a node per talent
+   * with its rank, prerequisites and exclusive group. Nodes that can take a point
+   * now are clickable; the rest say why not.
+   */
+  private renderTalentPopup(state: ServerStateMessage): void {
+    const overlay = document.querySelector<HTMLElement>('.charitems-talent-overlay');
+    const char = state.character;
+    if (!overlay || !char) return;
+
+    const content = this.worldCache.getSkillContent();
+    const className = char.className as ClassName;
+    const ranks = char.skillLoadout.talentRanks ?? {};
+    const talents = getSkillsForClass(className, content).filter(s => s.talent && s.unlockLevel !== null);
+    const spent = getSpentTalentPoints(ranks);
+    const total = getTalentPointsForLevel(char.level);
+    const respecCost = getRespecCost(char.level);
+
+    const tiers = new Map<number, SkillDefinition[]>();
+    for (const skill of talents) {
+      const tier = tiers.get(skill.unlockLevel!) ?? [];
+      tier.push(skill);
+      tiers.set(skill.unlockLevel!, tier);
+    }
+    const tierHtml = [...tiers.entries()].sort(([a], [b]) => a - b).map(([level, skills]) => {
+      const nodes = skills.map(s => {
+        const talent = s.talent!;
+        const rank = ranks[s.id] ?? 0;
+        const blocked = canLearnTalent(s.id, className, char.level, ranks, content);
+        const classes = ['charitems-talent-node', s.type];
+        if (rank > 0) classes.push('learned');
+        if (!blocked) classes.push('available');
+        const prereqs = (talent.prerequisites ?? []).map(id => content.skills[id]?.name ?? id);
+        return `<div class="${classes.join(' ')}" ${blocked ? '' : `data-talent-id="${this.escapeHtml(s.id)}"`}>
+          <div class="charitems-skill-row-name">${this.escapeHtml(s.name)}</div>
+          <div class="charitems-talent-rank">Rank ${rank} / ${talent.maxRank}</div>
+          <div class="charitems-skill-row-meta">${s.type}${talent.exclusiveGroup ? ` &middot; ${this.escapeHtml(talent.exclusiveGroup)} (pick one)` : ''}</div>
+          ${prereqs.length > 0 ? `<div class="charitems-skill-row-desc">Requires ${this.escapeHtml(prereqs.join(', '))}</div>` : ''}
+          <div class="charitems-skill-row-desc">${this.escapeHtml(s.description)}</div>
+          ${blocked && rank < talent.maxRank ? `<div class="charitems-skill-row-locklabel">${this.escapeHtml(blocked)}</div>` : ''}
+        </div>`;
+      }).join('');
+      return `<div class="charitems-talent-tier">
+        <div class="charitems-talent-tier-label">Lv ${level}</div>
+        <div class="charitems-talent-nodes">${nodes}</div>
+      </div>`;
+    }).join('');
+
+    overlay.innerHTML = `
+      <div class="charitems-skill-popup charitems-talent-popup">
+        <div class="charitems-skill-popup-title">Talents &middot; ${total - spent} of ${total} points free</div>
+        ${tierHtml || '<div class="charitems-skill-popup-empty">Your class has no talents.</div>'}
+        <div class="charitems-skill-popup-actions">
+          <button class="charitems-skill-popup-btn cancel-btn">Close</button>
+          <button class="charitems-skill-popup-btn danger respec-btn" ${spent === 0 || char.gold < respecCost ? 'disabled' : ''}>
+            Respec (${respecCost} gold)
+          </button>
+        </div>
+      </div>
+    `;
+
+    overlay.querySelector('.cancel-btn')?.addEventListener('click', () => this.closeSkillPopup());
+    overlay.querySelector('.respec-btn')?.addEventListener('click', () => {
+      if (!confirm(`Refund all talent points for ${respecCost} gold?`)) return;
+      this.gameClient.sendRespecTalents();
+    });
+    overlay.querySelectorAll<HTMLElement>('[data-talent-id]').forEach(node => {
+      node.addEventListener('click', () => this.gameClient.sendLearnTalent(node.dataset.talentId!));
+    });
+  }
+
   private closeSkillPopup(): void {
     document.querySelectorAll<HTMLElement>('.charitems-skill-popup-overlay').forEach(el => {
       release(el);
@@ -1206,6 +1481,21 @@ export class CharItemsScreen implements Screen {
         <span class="charitems-stat-label" data-tooltip="HP">HP</span>
         <span class="charitems-stat-value">${char.maxHp}</span>
       </div>
+      ${bonuses.resistances.length > 0 ? `
+      <div class="charitems-stat">
+        <span class="charitems-stat-label" data-tooltip="RES">RES</span>
+        <span class="charitems-stat-value">${getResistanceText(bonuses.resistances).join(', ')}</span>
+      </div>` : ''}
+      ${bonuses.critChance > 0 ? `
+      <div class="charitems-stat">
+        <span class="charitems-stat-label" data-tooltip="CRIT">CRIT</span>
+        <span class="charitems-stat-value">${bonuses.critChance}%</span>
+      </div>` : ''}
+      ${bonuses.bonusDamage.length > 0 ? `
+      <div class="charitems-stat">
+        <span class="charitems-stat-label" data-tooltip="Bonus damage per hit">+DMG</span>
+        <span class="charitems-stat-value">${bonuses.bonusDamage.map(b => `+${b.amount} ${b.damageType}`).join(', ')}</span>
+      </div>` : ''}
     `;
   }
 
@@ -1281,7 +1571,81 @@ export class CharItemsScreen implements Screen {
 
   // ── Inventory ───────────────────────────────────────────────
 
+  /** Loadout bar: pick a saved loadout to equip or delete, or save the current gear as one. */
+  private renderLoadouts(loadouts: SavedLoadout[]): void {
+    if (!loadouts.some(l => l.name === this.selectedLoadout)) this.selectedLoadout = loadouts[0]?.name ?? '';
+    const options = loadouts.map(l =>
+      `<option value="${this.escapeHtml(l.name)}" ${l.name === this.selectedLoadout ? 'selected' : ''}>${this.escapeHtml(l.name)}</option>`
+    ).join('');
+    const none = loadouts.length === 0;
+    this.loadoutsEl.innerHTML = `
+      <select class="charitems-loadout-select" ${none ? 'disabled' : ''}>${none ? '<option>No loadouts</option>' : options}</select>
+      <button class="charitems-loadout-apply" ${none ? 'disabled' : ''}>Equip</button>
+      <button class="charitems-loadout-save">Save</button>
+      <button class="charitems-loadout-delete" ${none ? 'disabled' : ''}>Delete</button>
+    `;
+    const select = this.loadoutsEl.querySelector<HTMLSelectElement>('.charitems-loadout-select')!;
+    select.addEventListener('change', () => { this.selectedLoadout = select.value; });
+    this.loadoutsEl.querySelector('.charitems-loadout-apply')!.addEventListener('click', () => {
+      if (this.selectedLoadout) this.gameClient.sendApplyLoadout(this.selectedLoadout);
+    });
+    this.loadoutsEl.querySelector('.charitems-loadout-save')!.addEventListener('click', () => this.showSaveLoadoutModal(loadouts));
+    this.loadoutsEl.querySelector('.charitems-loadout-delete')!.addEventListener('click', () => {
+      const name = this.selectedLoadout;
+      if (!name) return;
+      this.showConfirmModal(`Delete ${name}?`, 'The saved loadout is removed; your gear is untouched.', () => {
+        this.gameClient.sendDeleteLoadout(name);
+        this.hideModal();
+      });
+    });
+  }
+
+  /** Name the current gear and skills as a loadout; an existing name is overwritten. */
+  private showSaveLoadoutModal(loadouts: SavedLoadout[]): void {
+    const full = loadouts.length >= MAX_LOADOUTS;
+    this.modalOverlay.innerHTML = `
+      <div class="item-popup-overlay">
+        <div class="item-popup">
+          <div class="item-popup-name">Save loadout</div>
+          <div class="item-popup-stats" style="text-align:center">Saves your current gear and skills.${full ? ` You have ${MAX_LOADOUTS} loadouts — reuse a name to overwrite one.` : ''}</div>
+          <div style="display:flex;justify-content:center;margin:8px 0">
+            <input type="text" class="items-modal-loadout-name" maxlength="${MAX_LOADOUT_NAME_LENGTH}" value="${this.escapeHtml(this.selectedLoadout)}" placeholder="Loadout name" style="padding:4px 8px;border-radius:4px;border:1px solid #555;background:#1a1a2e;color:#e8e8e8;font-family:inherit;font-size:14px">
+          </div>
+          <div class="item-popup-actions">
+            <button class="items-modal-confirm">Save</button>
+            <button class="items-modal-cancel">Cancel</button>
+          </div>
+        </div>
+      </div>
+    `;
+    this.modalOverlay.style.display = 'flex';
+    bringToFront(this.modalOverlay);
+
+    const overlay = this.modalOverlay.querySelector('.item-popup-overlay') as HTMLElement;
+    overlay?.addEventListener('click', (e) => { if (e.target === overlay) this.hideModal(); });
+    const input = this.modalOverlay.querySelector<HTMLInputElement>('.items-modal-loadout-name')!;
+    input.focus();
+    this.modalOverlay.querySelector('.items-modal-confirm')!.addEventListener('click', () => {
+      const name = input.value.trim();
+      if (!name) return;
+      this.selectedLoadout = name;
+      this.gameClient.sendSaveLoadout(name);
+      this.hideModal();
+    });
+    this.modalOverlay.querySelector('.items-modal-cancel')!.addEventListener('click', () => this.hideModal());
+  }
+
+  /** Running buffs and boosters, one chip each with its expiry time. */
+  private renderActiveEffects(active: ActiveConsumable[]): void {
+    this.activeEffectsEl.innerHTML = active.map(a => {
+      const until = new Date(a.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const title = `${getConsumableEffectText(a.effect)} (until ${until})`;
+      return `<span class="items-active-effect" title="${this.escapeHtml(title)}">${this.escapeHtml(a.name)} · ${until}</span>`;
+    }).join('');
+  }
+
   private renderInventory(): void {
+    this.salvageJunkBtn.style.display = this.getJunkKeys().length > 0 ? '' : 'none';
     const entries = Object.entries(this.lastInventory).filter(([, count]) => count > 0);
     if (entries.length === 0) {
       this.inventoryGrid.innerHTML = '<div class="items-empty" style="grid-column:1/-1">No items yet</div>';
@@ -1378,6 +1742,44 @@ export class CharItemsScreen implements Screen {
     return SLOT_LABELS[key] ?? (key.charAt(0).toUpperCase() + key.slice(1));
   }
 
+  // ── Stash ──────────────────────────────────────────────────
+
+  /** Stash tabs and contents — only shown while standing in a stash room. */
+  private renderStash(): void {
+    if (!this.lastStashAvailable || this.lastStash.length === 0) {
+      this.stashContainer.innerHTML = '';
+      return;
+    }
+    if (this.selectedStashTab >= this.lastStash.length) this.selectedStashTab = 0;
+    const tab = this.lastStash[this.selectedStashTab];
+    const tabs = this.lastStash.map((t, i) =>
+      `<button data-stash-tab="${i}" class="${i === this.selectedStashTab ? 'active' : ''}">${this.escapeHtml(t.name)}</button>`
+    ).join('');
+    const entries = Object.entries(tab.items).filter(([id, count]) => count > 0 && this.itemDefs[id]);
+    const contents = entries.length > 0
+      ? `<div class="items-inv-grid">${entries.map(([id, count]) => this.renderInventoryEntry(id, count)).join('')}</div>`
+      : '<div class="items-stash-empty">Empty — open an inventory item and choose Stash to store it here.</div>';
+    this.stashContainer.innerHTML = `
+      <div class="items-section-label">Stash <span class="items-section-count">(${Object.keys(tab.items).length}/${MAX_STASH_TAB_STACKS})</span></div>
+      <div class="items-stash-tabs">${tabs}</div>
+      ${contents}
+    `;
+  }
+
+  private showStashWithdraw(itemId: string): void {
+    const tab = this.selectedStashTab;
+    const stored = this.lastStash[tab]?.items[itemId] ?? 0;
+    const max = Math.min(stored, MAX_STACK - (this.lastInventory[itemId] ?? 0));
+    const name = this.itemDefs[itemId]?.name ?? 'item';
+    if (max < 1) {
+      this.showConfirmModal(`Can't take ${name}`, `Your inventory already holds ${MAX_STACK}.`, () => this.hideModal(), 'OK', false);
+    } else if (max === 1) {
+      this.gameClient.sendStashWithdraw(tab, itemId, 1);
+    } else {
+      this.showCountModal(`Take ${name}`, 'Take', max, n => this.gameClient.sendStashWithdraw(tab, itemId, n));
+    }
+  }
+
   // ── Mailbox / trades ───────────────────────────────────────
 
   private renderMailbox(): void {
@@ -1385,33 +1787,52 @@ export class CharItemsScreen implements Screen {
       this.mailboxContainer.innerHTML = '';
       return;
     }
+    const now = Date.now();
     const rows = this.lastMailbox.map(entry => {
-      const def = this.itemDefs[entry.itemId];
-      const color = def ? (RARITY_COLORS[def.rarity] ?? '#e8e8e8') : '#e8e8e8';
-      const name = def?.name ?? entry.itemId;
-      const fullCount = (this.lastInventory[entry.itemId] ?? 0) + entry.quantity;
-      const willOverflow = fullCount > 99;
+      const id = this.escapeHtml(entry.id);
+      const { remaining } = splitClaimableAttachments(entry.attachments, itemId => this.lastInventory[itemId] ?? 0);
+      const attachmentRows = entry.attachments.map(a => {
+        const def = this.itemDefs[a.itemId];
+        const color = def ? (RARITY_COLORS[def.rarity] ?? '#e8e8e8') : '#e8e8e8';
+        const warn = remaining.includes(a)
+          ? `<div class="mailbox-warn">Inventory full — would exceed ${MAX_STACK} (${this.lastInventory[a.itemId] ?? 0} + ${a.quantity})</div>`
+          : '';
+        return `<div class="mailbox-item">
+          <span class="mailbox-item-name" style="color:${color}">${this.escapeHtml(def?.name ?? a.itemId)}</span>
+          <span class="mailbox-item-qty">×${a.quantity}</span>
+        </div>${warn}`;
+      }).join('');
+      const gold = entry.gold
+        ? `<div class="mailbox-item"><span class="mailbox-item-name mailbox-gold">${entry.gold.toLocaleString('en-US')} gold</span></div>`
+        : '';
       const note = entry.returned ? '<span class="mailbox-note">(returned)</span>' : '';
-      const overflow = willOverflow
-        ? `<div class="mailbox-warn">Inventory full — would exceed 99 (${this.lastInventory[entry.itemId] ?? 0} + ${entry.quantity})</div>`
+      const daysLeft = Math.max(0, Math.ceil((entry.expiresAt - now) / (24 * 3600 * 1000)));
+      const expiry = canMailExpire(entry) ? `<span class="mailbox-expiry">${daysLeft}d left</span>` : '';
+      const hasContents = hasMailContents(entry);
+      const canClaim = hasContents && (!!entry.gold || remaining.length < entry.attachments.length);
+      // System mail has no sender to return it to; returned mail is dropped rather than bounced again.
+      const returnBtn = hasContents && !entry.system
+        ? `<button class="social-action-btn remove-friend" data-mb-action="return" data-entry-id="${id}">${entry.returned ? 'Discard' : 'Return'}</button>`
         : '';
+      const actions = hasContents
+        ? `<button class="social-action-btn add-friend" data-mb-action="claim" data-entry-id="${id}"${canClaim ? '' : ' disabled'}>Claim</button>${returnBtn}`
+        : `<button class="social-action-btn remove-friend" data-mb-action="delete" data-entry-id="${id}">Delete</button>`;
       return `<div class="mailbox-row">
         <div class="mailbox-info">
-          <div class="mailbox-from">From <strong>${this.escapeHtml(entry.fromUsername)}</strong> ${note}</div>
-          <div class="mailbox-item">
-            <span class="mailbox-item-name" style="color:${color}">${this.escapeHtml(name)}</span>
-            <span class="mailbox-item-qty">×${entry.quantity}</span>
-          </div>
-          ${overflow}
-        </div>
-        <div class="mailbox-actions">
-          <button class="social-action-btn add-friend" data-mb-action="accept" data-entry-id="${this.escapeHtml(entry.id)}"${willOverflow ? ' disabled' : ''}>Accept</button>
-          <button class="social-action-btn remove-friend" data-mb-action="deny" data-entry-id="${this.escapeHtml(entry.id)}">Decline</button>
+          <div class="mailbox-from">From <strong>${this.escapeHtml(entry.fromUsername)}</strong> ${note}${expiry}</div>
+          <div class="mailbox-subject">${this.escapeHtml(entry.subject)}</div>
+          ${entry.body ? `<div class="mailbox-body">${this.escapeHtml(entry.body)}</div>` : ''}
+          ${attachmentRows}
+          ${gold}
         </div>
+        <div class="mailbox-actions">${actions}</div>
       </div>`;
     }).join('');
+    const claimAll = this.lastMailbox.some(hasMailContents)
+      ? '<button class="social-action-btn add-friend mailbox-claim-all" data-mb-action="claim-all">Claim all</button>'
+      : '';
     this.mailboxContainer.innerHTML = `
-      <div class="items-section-label">Mailbox <span class="items-section-count">(${this.lastMailbox.length})</span></div>
+      <div class="items-section-label">Mailbox <span class="items-section-count">(${this.lastMailbox.length})</span>${claimAll}</div>
       <div class="mailbox-list">${rows}</div>
     `;
   }
@@ -1489,20 +1910,26 @@ export class CharItemsScreen implements Screen {
           actionsHtml += `<button class="popup-action-equip" data-item="${itemId}">Equip</button>`;
         }
       }
+      if (getConsumableEffect(def)) {
+        actionsHtml += `<button class="popup-action-use" data-item="${itemId}">Use</button>`;
+      }
+      if (def.equipSlot && !getSalvageBlockReason(def, this.salvageTables)) {
+        actionsHtml += `<button class="popup-action-salvage" data-item="${itemId}" data-max="${count}">Salvage</button>`;
+      }
+      if (this.lastStashAvailable) {
+        actionsHtml += `<button class="popup-action-stash" data-item="${itemId}" data-max="${count}">Stash</button>`;
+      }
       actionsHtml += `<button class="popup-action-destroy danger" data-item="${itemId}" data-max="${count}">Destroy</button>`;
     }
 
-    // Inline equip-compare block when viewing an inventory item that would
-    // replace something already equipped — saves the player from having to
-    // click Equip just to see the swap diff.
+    // Inline equip-compare block for inventory gear — saves the player from
+    // having to click Equip just to see the swap diff.
+    const compareWith = context === 'inventory' && def.equipSlot && this.lastEquipment[def.equipSlot] !== itemId
+      ? { equipment: this.lastEquipment, level: this.lastLevel }
+      : undefined;
     let extraHtml = '';
-    if (context === 'inventory' && def.equipSlot) {
-      const currentId = this.lastEquipment[def.equipSlot];
-      if (currentId && currentId !== itemId) {
-        const oldDef = this.itemDefs[currentId];
-        if (oldDef) extraHtml = this.buildEquipCompareBlock(def, oldDef);
-      }
-    }
+    if (def.sockets) extraHtml += this.buildSocketBlock(def);
+    if (context === 'inventory') extraHtml += this.buildAutoUseBlock(def);
 
     const popupContent = renderItemPopupContent(def, {
       itemDefs: this.itemDefs,
@@ -1511,6 +1938,7 @@ export class CharItemsScreen implements Screen {
       equippedItemIds,
       className: this.lastClassName || null,
       skills: this.worldCache.getSkillContent().skills,
+      compareWith,
       actionsHtml,
       extraHtml,
     });
@@ -1557,6 +1985,75 @@ export class CharItemsScreen implements Screen {
       });
     }
 
+    const equipped = context === 'equipped';
+    this.modalOverlay.querySelector('.popup-action-socket')?.addEventListener('click', () => {
+      this.showGemPickerModal(itemId, equipped);
+    });
+    this.modalOverlay.querySelectorAll<HTMLElement>('.popup-action-unsocket').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.gameClient.sendUnsocketGem(itemId, parseInt(btn.dataset.index!, 10), false);
+        this.hideModal();
+      });
+    });
+    this.modalOverlay.querySelectorAll<HTMLElement>('.popup-action-shatter').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const index = parseInt(btn.dataset.index!, 10);
+        const gemName = this.itemDefs[def.gems?.[index] ?? '']?.name ?? 'gem';
+        this.showConfirmModal(
+          `Destroy ${gemName}?`,
+          'The gem comes out free but is permanently lost.',
+          () => { this.gameClient.sendUnsocketGem(itemId, index, true); this.hideModal(); }
+        );
+      });
+    });
+
+    this.modalOverlay.querySelector('.popup-action-use')?.addEventListener('click', () => {
+      this.gameClient.sendUseConsumable(itemId);
+      this.hideModal();
+    });
+    const autoUseTrigger = this.modalOverlay.querySelector<HTMLSelectElement>('.popup-autouse-trigger');
+    const autoUseHp = this.modalOverlay.querySelector<HTMLInputElement>('.popup-autouse-hp');
+    if (autoUseTrigger && autoUseHp) {
+      const syncHp = () => { autoUseHp.style.display = autoUseTrigger.value.endsWith('_hp_below') ? '' : 'none'; };
+      syncHp();
+      autoUseTrigger.addEventListener('change', () => {
+        syncHp();
+        this.sendAutoUse(itemId, autoUseTrigger.value, autoUseHp.value);
+      });
+      autoUseHp.addEventListener('change', () => this.sendAutoUse(itemId, autoUseTrigger.value, autoUseHp.value));
+    }
+
+    const salvageBtn = this.modalOverlay.querySelector('.popup-action-salvage') as HTMLElement | null;
+    if (salvageBtn) {
+      salvageBtn.addEventListener('click', () => {
+        const max = parseInt(salvageBtn.getAttribute('data-max') ?? '1', 10);
+        if (max === 1) {
+          this.showConfirmModal(
+            `Salvage ${def.name}?`,
+            'It breaks down into crafting materials.',
+            () => { this.gameClient.sendSalvageItem(itemId, 1); this.hideModal(); },
+            'Salvage', false,
+          );
+        } else {
+          this.showCountModal(`Salvage ${def.name}`, 'Salvage', max, n => this.gameClient.sendSalvageItem(itemId, n));
+        }
+      });
+    }
+
+    const stashBtn = this.modalOverlay.querySelector('.popup-action-stash') as HTMLElement | null;
+    if (stashBtn) {
+      stashBtn.addEventListener('click', () => {
+        const max = parseInt(stashBtn.getAttribute('data-max') ?? '1', 10);
+        const tab = this.selectedStashTab;
+        if (max === 1) {
+          this.gameClient.sendStashDeposit(tab, itemId, 1);
+          this.hideModal();
+        } else {
+          this.showCountModal(`Stash ${def.name}`, 'Stash', max, n => this.gameClient.sendStashDeposit(tab, itemId, n));
+        }
+      });
+    }
+
     const destroyBtn = this.modalOverlay.querySelector('.popup-action-destroy') as HTMLElement | null;
     if (destroyBtn) {
       destroyBtn.addEventListener('click', () => {
@@ -1570,20 +2067,120 @@ export class CharItemsScreen implements Screen {
             () => { this.gameClient.sendDestroyItems(id, 1); this.hideModal(); }
           );
         } else {
-          this.showDestroyCountModal(id, dDef?.name ?? 'item', max);
+          this.showCountModal(`Destroy ${dDef?.name ?? 'item'}`, 'Destroy', max, n => this.gameClient.sendDestroyItems(id, n), true);
         }
       });
     }
   }
 
-  private showConfirmModal(title: string, message: string, onConfirm: () => void): void {
+  /**
+   * Socket controls under the popup stats: one row per gem with Remove (paid,
+   * keeps the gem) and Destroy (free, loses it), plus a Socket Gem button when
+   * a socket is open and the player carries a gem.
+   */
+  private buildSocketBlock(def: ItemDefinition): string {
+    const rows = (def.gems ?? []).map((gemId, index) => {
+      const gem = this.itemDefs[gemId];
+      return `
+        <div class="item-popup-gem-row">
+          <span class="item-popup-gem-name">${this.escapeHtml(gem?.name ?? gemId)}</span>
+          <button class="popup-action-unsocket" data-index="${index}">Remove (${getGemRemovalCost(gem)}g)</button>
+          <button class="popup-action-shatter danger" data-index="${index}">Destroy</button>
+        </div>
+      `;
+    }).join('');
+    const hasGem = Object.keys(this.lastInventory).some(id => this.itemDefs[id]?.gem);
+    const socketBtn = getFreeSockets(def) > 0 && hasGem
+      ? '<button class="popup-action-socket">Socket Gem</button>'
+      : '';
+    if (!rows && !socketBtn) return '';
+    return `<div class="item-popup-sockets">${rows}${socketBtn ? `<div class="item-popup-actions">${socketBtn}</div>` : ''}</div>`;
+  }
+
+  /**
+   * Auto-use control for a consumable: a trigger picker (Off, or the triggers
+   * its effect supports) plus an HP threshold for the HP triggers. Effects
+   * with no triggers (recipe items) get no control.
+   */
+  private buildAutoUseBlock(def: ItemDefinition): string {
+    const effect = getConsumableEffect(def);
+    if (!effect || AUTO_USE_TRIGGERS_BY_KIND[effect.kind].length === 0) return '';
+    const rule = this.lastAutoUseRules.find(r => r.itemId === def.id);
+    const options = AUTO_USE_TRIGGERS_BY_KIND[effect.kind].map(t =>
+      `<option value="${t}" ${rule?.trigger === t ? 'selected' : ''}>${this.escapeHtml(AUTO_USE_TRIGGER_LABELS[t])}</option>`
+    ).join('');
+    return `
+      <div class="item-popup-autouse">
+        <span class="item-popup-autouse-label">Auto-use</span>
+        <select class="popup-autouse-trigger"><option value="">Off</option>${options}</select>
+        <input type="number" class="popup-autouse-hp" min="1" max="99" value="${rule?.hpPercent ?? DEFAULT_AUTO_USE_HP_PERCENT}" title="HP %">
+      </div>
+    `;
+  }
+
+  private sendAutoUse(itemId: string, trigger: string, hpPercent: string): void {
+    const hp = parseInt(hpPercent, 10);
+    this.gameClient.sendSetAutoUse(itemId, (trigger || null) as AutoUseTrigger | null, Number.isNaN(hp) ? undefined : hp);
+  }
+
+  /** Pick which carried gem goes into the item's next open socket. */
+  private showGemPickerModal(itemId: string, equipped: boolean): void {
+    const gemIds = Object.keys(this.lastInventory).filter(id => this.itemDefs[id]?.gem);
+    const buttons = gemIds.map(gemId => {
+      const gem = this.itemDefs[gemId];
+      const color = RARITY_COLORS[gem.rarity] ?? '#e8e8e8';
+      return `<button class="items-modal-gem" data-gem="${this.escapeHtml(gemId)}" style="color:${color}">${this.escapeHtml(gem.name)} ×${this.lastInventory[gemId]}</button>`;
+    }).join('');
+    this.modalOverlay.innerHTML = `
+      <div class="item-popup-overlay">
+        <div class="item-popup">
+          <div class="item-popup-name">Socket a gem</div>
+          <div class="item-popup-gem-list">${buttons}</div>
+          <div class="item-popup-actions">
+            <button class="items-modal-cancel">Cancel</button>
+          </div>
+        </div>
+      </div>
+    `;
+    this.modalOverlay.style.display = 'flex';
+    bringToFront(this.modalOverlay);
+
+    const overlay = this.modalOverlay.querySelector('.item-popup-overlay') as HTMLElement;
+    overlay?.addEventListener('click', (e) => { if (e.target === overlay) this.hideModal(); });
+    this.modalOverlay.querySelectorAll<HTMLElement>('.items-modal-gem').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.gameClient.sendSocketGem(itemId, btn.dataset.gem!, equipped);
+        this.hideModal();
+      });
+    });
+    this.modalOverlay.querySelector('.items-modal-cancel')!.addEventListener('click', () => this.hideModal());
+  }
+
+  /** Unequipped janky/common gear the bulk salvage would break down. */
+  private getJunkKeys(): string[] {
+    return getBulkSalvageKeys(this.lastInventory, this.itemDefs, this.salvageTables, BULK_SALVAGE_RARITIES);
+  }
+
+  /** Confirm salvaging every janky/common gear item; the server skips anything the current path needs. */
+  private showSalvageJunkModal(): void {
+    const total = this.getJunkKeys().reduce((sum, key) => sum + (this.lastInventory[key] ?? 0), 0);
+    if (total === 0) return;
+    this.showConfirmModal(
+      `Salvage ${total} junk item${total > 1 ? 's' : ''}?`,
+      'All unequipped janky and common gear breaks down into crafting materials.',
+      () => { this.gameClient.sendSalvageAll(BULK_SALVAGE_RARITIES); this.hideModal(); },
+      'Salvage', false,
+    );
+  }
+
+  private showConfirmModal(title: string, message: string, onConfirm: () => void, confirmLabel = 'Destroy', danger = true): void {
     this.modalOverlay.innerHTML = `
       <div class="item-popup-overlay">
         <div class="item-popup">
           <div class="item-popup-name">${title}</div>
           <div class="item-popup-stats" style="text-align:center">${message}</div>
           <div class="item-popup-actions">
-            <button class="items-modal-confirm danger">Destroy</button>
+            <button class="items-modal-confirm${danger ? ' danger' : ''}">${confirmLabel}</button>
             <button class="items-modal-cancel">Cancel</button>
           </div>
         </div>
@@ -1598,11 +2195,12 @@ export class CharItemsScreen implements Screen {
     this.modalOverlay.querySelector('.items-modal-cancel')!.addEventListener('click', () => this.hideModal());
   }
 
-  private showDestroyCountModal(itemId: string, itemName: string, max: number): void {
+  /** Pick how many of a stack (1..max) to act on, then run `onConfirm` with the count. */
+  private showCountModal(title: string, confirmLabel: string, max: number, onConfirm: (count: number) => void, danger = false): void {
     this.modalOverlay.innerHTML = `
       <div class="item-popup-overlay">
         <div class="item-popup">
-          <div class="item-popup-name">Destroy ${itemName}</div>
+          <div class="item-popup-name">${title}</div>
           <div class="item-popup-stats" style="text-align:center">How many? (1-${max})</div>
           <div class="items-modal-count-row" style="display:flex;gap:8px;justify-content:center;align-items:center;margin:8px 0">
             <button class="items-modal-minus" style="padding:4px 10px;border-radius:4px;border:1px solid #555;background:#2a2a40;color:#e8e8e8;cursor:pointer;font-family:inherit">-</button>
@@ -1611,7 +2209,7 @@ export class CharItemsScreen implements Screen {
             <button class="items-modal-max" style="padding:4px 10px;border-radius:4px;border:1px solid #555;background:#2a2a40;color:#e8e8e8;cursor:pointer;font-family:inherit">Max</button>
           </div>
           <div class="item-popup-actions">
-            <button class="items-modal-confirm danger">Destroy</button>
+            <button class="items-modal-confirm${danger ? ' danger' : ''}">${confirmLabel}</button>
             <button class="items-modal-cancel">Cancel</button>
           </div>
         </div>
@@ -1634,7 +2232,7 @@ export class CharItemsScreen implements Screen {
     this.modalOverlay.querySelector('.items-modal-plus')!.addEventListener('click', () => updateCount(count + 1));
     this.modalOverlay.querySelector('.items-modal-max')!.addEventListener('click', () => updateCount(max));
     this.modalOverlay.querySelector('.items-modal-confirm')!.addEventListener('click', () => {
-      this.gameClient.sendDestroyItems(itemId, count);
+      onConfirm(count);
       this.hideModal();
     });
     this.modalOverlay.querySelector('.items-modal-cancel')!.addEventListener('click', () => this.hideModal());
@@ -1696,88 +2294,6 @@ export class CharItemsScreen implements Screen {
     try { localStorage.setItem(key, this.sortMode); } catch { /* ignore */ }
   }
 
-  /**
-   * Build the inline equip-comparison HTML block. Rendered inside the item
-   * popup whenever the viewed inventory item would replace something already
-   * equipped — players see the diff up-front instead of having to click
-   * Equip just to preview the swap.
-   *
-   * Layout: header line "Replaces: <oldName>" + a 4-col grid (label / new /
-   * arrow / current). Stats shown for both items unconditionally; arrows
-   * only appear when both items contribute to the same stat.
-   */
-  private buildEquipCompareBlock(newDef: ItemDefinition, oldDef: ItemDefinition): string {
-    type StatKey = 'atk' | 'dr' | 'mr';
-    const stats: { key: StatKey; label: string }[] = [
-      { key: 'atk', label: 'ATK' },
-      { key: 'dr', label: 'DR' },
-      { key: 'mr', label: 'MR' },
-    ];
-    const itemStat = (def: ItemDefinition, key: StatKey): string | null => {
-      if (key === 'atk') {
-        const lo = def.bonusAttackMin ?? 0;
-        const hi = def.bonusAttackMax ?? 0;
-        if (lo === 0 && hi === 0) return null;
-        return lo === hi ? `+${lo}` : `+${lo}-${hi}`;
-      }
-      if (key === 'dr') {
-        const lo = def.damageReductionMin ?? 0;
-        const hi = def.damageReductionMax ?? 0;
-        if (lo === 0 && hi === 0) return null;
-        return lo === hi ? `${lo}` : `${lo}-${hi}`;
-      }
-      const lo = def.magicReductionMin ?? 0;
-      const hi = def.magicReductionMax ?? 0;
-      if (lo === 0 && hi === 0) return null;
-      return lo === hi ? `${lo}` : `${lo}-${hi}`;
-    };
-    const mid = (def: ItemDefinition, key: StatKey): number => {
-      if (key === 'atk') return ((def.bonusAttackMin ?? 0) + (def.bonusAttackMax ?? 0)) / 2;
-      if (key === 'dr') return ((def.damageReductionMin ?? 0) + (def.damageReductionMax ?? 0)) / 2;
-      return ((def.magicReductionMin ?? 0) + (def.magicReductionMax ?? 0)) / 2;
-    };
-
-    const rows = stats.map(({ key, label }) => {
-      const newV = itemStat(newDef, key);
-      const oldV = itemStat(oldDef, key);
-      if (newV === null && oldV === null) return '';
-      let arrow = '';
-      if (newV !== null && oldV !== null) {
-        const dn = mid(newDef, key);
-        const dc = mid(oldDef, key);
-        if (dn > dc) arrow = '<span class="compare-up">↑</span>';
-        else if (dn < dc) arrow = '<span class="compare-down">↓</span>';
-        else arrow = '<span class="compare-eq">=</span>';
-      }
-      return `
-        <div class="compare-row">
-          <div class="compare-cell-label">${label}</div>
-          <div class="compare-cell-new">${newV ?? '<span class="compare-dash">—</span>'}</div>
-          <div class="compare-cell-arrow">${arrow}</div>
-          <div class="compare-cell-old">${oldV ?? '<span class="compare-dash">—</span>'}</div>
-        </div>
-      `;
-    }).join('');
-
-    const oldColor = (RARITY_COLORS[oldDef.rarity ?? 'common']) ?? '#e8e8e8';
-
-    return `
-      <div class="item-popup-compare">
-        <div class="compare-block-header">
-          <span class="compare-block-label">Replaces equipped</span>
-          <span class="compare-block-old-name" style="color:${oldColor}">${this.escapeHtml(oldDef.name)}</span>
-        </div>
-        <div class="compare-block-subhead">
-          <span class="compare-cell-label">Stat</span>
-          <span class="compare-side-label">This</span>
-          <span></span>
-          <span class="compare-side-label">Equipped</span>
-        </div>
-        <div class="compare-grid">${rows || '<div class="compare-dash" style="text-align:center;grid-column:1/-1">No combat stats</div>'}</div>
-      </div>
-    `;
-  }
-
   /**
    * Pulse-highlight the class-restriction line in the open item popup so
    * the player notices the red class text. The popup itself stays open;
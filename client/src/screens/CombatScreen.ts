@@ -1,7 +1,7 @@
 import type { GameClient } from '../network/GameClient';
 import type { WorldCache } from '../network/WorldCache';
-import type { ServerStateMessage, CombatLogEntry, ClientCombatAction } from '@idle-party-rpg/shared';
-import { classIconHtml, RUN_AVAILABLE_ROUNDS } from '@idle-party-rpg/shared';
+import type { ServerStateMessage, CombatLogEntry, ClientCombatAction, ClientMeterState, MeterMemberStats } from '@idle-party-rpg/shared';
+import { ALL_DAMAGE_TYPES, classIconHtml, RUN_AVAILABLE_ROUNDS } from '@idle-party-rpg/shared';
 import type { Screen } from './ScreenManager';
 import { artworkUrl, placeholderUrl } from '../ui/assets';
 import { bringToFront, release, wireFocusOnInteract } from '../ui/ModalStack';
@@ -41,6 +41,8 @@ export class CombatScreen implements Screen {
   private logWrapper!: HTMLElement;
   private resumeBtn!: HTMLElement;
   private fullscreenBtn!: HTMLElement;
+  private meterBtn!: HTMLElement;
+  private meterPanel!: HTMLElement;
   private runBtn!: HTMLButtonElement;
   private runHint!: HTMLElement;
   private runBar!: HTMLElement;
@@ -69,6 +71,11 @@ export class CombatScreen implements Screen {
   private paused = false;
   private isFullscreen = false;
 
+  // Damage meter — shown in place of the log while open
+  private meterOpen = false;
+  private meterView: 'current' | 'last' | 'session' = 'current';
+  private lastMeter?: ClientMeterState;
+
   // Username click callback
   private onUserClick?: (username: string, anchor: HTMLElement) => void;
 
@@ -135,9 +142,11 @@ export class CombatScreen implements Screen {
       </div>
       <div class="combat-log-wrapper">
         <div class="combat-log-controls">
+          <button class="log-meter-btn" title="Damage Meter">\uD83D\uDCCA</button>
           <button class="log-fullscreen-btn" title="Fullscreen">\u26F6</button>
         </div>
         <div class="combat-log"></div>
+        <div class="combat-meter" style="display:none"></div>
         <button class="log-resume-btn" style="display:none">\u25BC Resume Live</button>
       </div>
     `;
@@ -149,6 +158,8 @@ export class CombatScreen implements Screen {
     this.logContainer = this.container.querySelector('.combat-log')!;
     this.resumeBtn = this.container.querySelector('.log-resume-btn')!;
     this.fullscreenBtn = this.container.querySelector('.log-fullscreen-btn')!;
+    this.meterBtn = this.container.querySelector('.log-meter-btn')!;
+    this.meterPanel = this.container.querySelector('.combat-meter')!;
     this.runBtn = this.container.querySelector('.combat-run-btn')! as HTMLButtonElement;
     this.runHint = this.container.querySelector('.combat-run-hint')!;
     this.runBar = this.container.querySelector('.combat-run-bar')!;
@@ -185,6 +196,28 @@ export class CombatScreen implements Screen {
       }
     });
 
+    // Damage meter toggle — swaps the log for the meter panel
+    this.meterBtn.addEventListener('click', () => {
+      this.meterOpen = !this.meterOpen;
+      this.meterBtn.classList.toggle('active', this.meterOpen);
+      this.logContainer.style.display = this.meterOpen ? 'none' : '';
+      this.meterPanel.style.display = this.meterOpen ? '' : 'none';
+      if (this.meterOpen) {
+        this.resumeBtn.style.display = 'none';
+        this.renderMeter();
+      } else {
+        this.setPaused(this.paused);
+      }
+    });
+
+    // Meter view tabs (delegated: the panel is re-rendered on every tick)
+    this.meterPanel.addEventListener('click', (e) => {
+      const tab = (e.target as HTMLElement).closest<HTMLElement>('[data-meter-view]');
+      if (!tab) return;
+      this.meterView = tab.dataset.meterView as 'current' | 'last' | 'session';
+      this.renderMeter();
+    });
+
     // Run button — show hint when locked, send run when available
     this.runBtn.addEventListener('click', () => {
       if (this.runBtn.classList.contains('combat-run-locked')) {
@@ -210,11 +243,13 @@ export class CombatScreen implements Screen {
 
   private handleState(state: ServerStateMessage): void {
     this.lastLog = state.combatLog;
+    this.lastMeter = state.battle.meter;
 
     if (!this.isActive) return;
 
     this.updateVisuals(state);
     this.updateLog(state.combatLog);
+    if (this.meterOpen) this.renderMeter();
   }
 
   /**
@@ -304,6 +339,9 @@ export class CombatScreen implements Screen {
         if (card) {
           card.classList.toggle('dead', m.currentHp <= 0);
           card.classList.toggle('stunned', !!(m.stunTurns && m.stunTurns > 0));
+          card.classList.toggle('boss', !!m.boss);
+          card.classList.toggle('immune', !!m.immune);
+          card.classList.toggle('enraged', !!m.enraged);
           const img = card.querySelector('.combat-card-img') as HTMLImageElement | null;
           if (img) {
             const { real, fallback } = monsterArtSrc(m);
@@ -617,7 +655,64 @@ export class CombatScreen implements Screen {
 
   private setPaused(paused: boolean): void {
     this.paused = paused;
-    this.resumeBtn.style.display = paused ? '' : 'none';
+    this.resumeBtn.style.display = paused && !this.meterOpen ? '' : 'none';
+  }
+
+  private renderMeter(): void {
+    const meter = this.lastMeter;
+    const views: { id: 'current' | 'last' | 'session'; label: string }[] = [
+      { id: 'current', label: 'This Fight' },
+      { id: 'last', label: 'Last Fight' },
+      { id: 'session', label: 'Session' },
+    ];
+    const tabs = views.map(v =>
+      `<button class="combat-meter-tab${v.id === this.meterView ? ' active' : ''}" data-meter-view="${v.id}">${v.label}</button>`,
+    ).join('');
+
+    let caption = '';
+    let members: MeterMemberStats[] = [];
+    if (this.meterView === 'session') {
+      const session = meter?.session;
+      if (session && session.battles > 0) {
+        caption = `${session.wins}/${session.battles} won`;
+        members = session.members;
+      }
+    } else {
+      const battle = this.meterView === 'current' ? meter?.current : meter?.last;
+      if (battle) {
+        caption = `${battle.rounds} round${battle.rounds === 1 ? '' : 's'}${battle.result ? ` \u2014 ${battle.result}` : ''}`;
+        members = battle.members;
+      }
+    }
+
+    const body = members.length === 0
+      ? '<div class="combat-meter-empty">No data yet</div>'
+      : [...members].sort((a, b) => b.damageDealt - a.damageDealt).map(m => this.meterRowHtml(m)).join('');
+    this.meterPanel.innerHTML = `
+      <div class="combat-meter-tabs">${tabs}</div>
+      ${caption ? `<div class="combat-meter-caption">${caption}</div>` : ''}
+      ${body}
+    `;
+  }
+
+  private meterRowHtml(m: MeterMemberStats): string {
+    const stat = (label: string, value: number) =>
+      `<span class="combat-meter-stat"><span class="combat-meter-label">${label}</span> ${Math.round(value)}</span>`;
+    const sources = Object.entries(m.damageBySource)
+      .sort((a, b) => b[1] - a[1])
+      .map(([label, value]) => `<span class="combat-meter-source">${this.escapeHtml(label)} ${Math.round(value)}</span>`)
+      .join('');
+    const nameClass = m.username === this.selfUsername ? 'log-name-self' : 'log-name-party';
+    return `
+      <div class="combat-meter-row">
+        <div class="combat-meter-name">${CombatScreen.classIcon(m.className)} <span class="${nameClass}">${this.escapeHtml(m.username)}</span></div>
+        <div class="combat-meter-stats">
+          ${stat('DMG', m.damageDealt)}${stat('Taken', m.damageTaken)}${stat('Heal', m.healingDone)}
+          ${stat('Overheal', m.overheal)}${stat('Shield', m.shieldAbsorbed)}${stat('Stuns', m.stunsLanded)}
+        </div>
+        ${sources ? `<div class="combat-meter-sources">${sources}</div>` : ''}
+      </div>
+    `;
   }
 
   private updateLog(log: CombatLogEntry[]): void {
@@ -705,7 +800,7 @@ export class CombatScreen implements Screen {
     }
 
     result = result.replace(
-      /\b(physical|magical|holy)\b/gi,
+      new RegExp(`\\b(${ALL_DAMAGE_TYPES.join('|')})\\b`, 'gi'),
       (match) => `<span class="dmg-${match.toLowerCase()}">${match}</span>`,
     );
 
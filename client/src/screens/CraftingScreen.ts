@@ -1,6 +1,6 @@
 import type { GameClient } from '../network/GameClient';
-import type { ServerStateMessage, RecipeDefinition, ItemDefinition, ClientCraftingState } from '@idle-party-rpg/shared';
-import { canQueueRecipe, MAX_CRAFT_QUEUE } from '@idle-party-rpg/shared';
+import type { ServerStateMessage, RecipeDefinition, ItemDefinition, ClientCraftingState, ServerWorkOrderResultsMessage, WorkOrder } from '@idle-party-rpg/shared';
+import { canQueueRecipe, getRecipeQualityOdds, getRequiredCraftLevel, ALL_CRAFT_QUALITIES, CRAFT_QUALITY_LABELS, MAX_CRAFT_QUEUE, MAX_WORK_ORDERS, WORK_ORDER_DURATION_HOURS, getWorkOrderRemaining } from '@idle-party-rpg/shared';
 import type { Screen } from './ScreenManager';
 
 function injectCraftingStyles(): void {
@@ -68,6 +68,9 @@ function injectCraftingStyles(): void {
     .craft-recipe-ings { font-size: 0.7em; opacity: 0.85; }
     .craft-recipe-ing-missing { color: #f88; }
     .craft-recipe-result { font-size: 0.7em; opacity: 0.85; }
+    .craft-recipe-odds { font-size: 0.7em; opacity: 0.85; }
+    .craft-quality-fine { color: #7cc7ff; }
+    .craft-quality-masterwork { color: #f0d574; }
     .craft-queue-btn {
       font-size: 0.75em; padding: 5px 10px;
       background: rgba(80,140,180,0.45); border: 1px solid rgba(120,180,220,0.6);
@@ -79,6 +82,19 @@ function injectCraftingStyles(): void {
       font-size: 0.65em; padding: 1px 5px; margin-left: 6px;
       background: rgba(180,140,80,0.3); border-radius: 3px;
     }
+    .craft-recipe-components { font-size: 0.7em; opacity: 0.75; font-style: italic; }
+    .craft-work-orders { padding: 0 12px 12px; display: flex; flex-direction: column; gap: 14px; }
+    .craft-order-list { display: flex; flex-direction: column; gap: 6px; }
+    .craft-order-row {
+      display: grid; grid-template-columns: 1fr auto; gap: 8px; align-items: center;
+      padding: 6px 8px; background: rgba(255,255,255,0.04); border-radius: 4px;
+    }
+    .craft-order-name { font-size: 0.85em; }
+    .craft-order-meta { font-size: 0.7em; opacity: 0.7; }
+    .craft-order-form { display: flex; flex-wrap: wrap; gap: 6px; align-items: center; font-size: 0.75em; }
+    .craft-order-form select, .craft-order-form input { font-size: 1em; padding: 3px 5px; }
+    .craft-order-form input { width: 80px; }
+    .craft-order-note { font-size: 0.7em; opacity: 0.6; }
   `;
   document.head.appendChild(style);
 }
@@ -107,12 +123,26 @@ export class CraftingScreen implements Screen {
   private lastClassName: string | null = null;
   private lastLevel = 0;
 
+  // Work-order board — results arrive as `work_order_results` replies, not in the state tick.
+  // Lives in its own element so state ticks don't wipe the post form mid-edit.
+  private mainEl: HTMLElement;
+  private ordersEl: HTMLElement;
+  private unsubOrders?: () => void;
+  private orderResults: ServerWorkOrderResultsMessage | null = null;
+  private orderItemId = '';
+  private orderQuantity = 1;
+  private orderReward = 0;
+
   constructor(containerId: string, gameClient: GameClient) {
     const el = document.getElementById(containerId);
     if (!el) throw new Error(`Screen container #${containerId} not found`);
     this.container = el;
     this.gameClient = gameClient;
     injectCraftingStyles();
+    this.container.innerHTML = `<div class="craft-main"></div><div class="craft-work-orders"></div>`;
+    this.mainEl = this.container.querySelector<HTMLElement>('.craft-main')!;
+    this.ordersEl = this.container.querySelector<HTMLElement>('.craft-work-orders')!;
+    this.bindWorkOrderEvents();
   }
 
   onActivate(): void {
@@ -120,15 +150,25 @@ export class CraftingScreen implements Screen {
     this.unsubscribe = this.gameClient.subscribe(state => {
       if (this.isActive) this.updateFromState(state);
     });
+    this.unsubOrders = this.gameClient.onWorkOrderResults(results => {
+      this.orderResults = results;
+      if (!this.orderItemId || !results.orderableItemIds.includes(this.orderItemId)) {
+        this.orderItemId = results.orderableItemIds[0] ?? '';
+      }
+      if (this.isActive) this.renderWorkOrders();
+    });
     const state = this.gameClient.lastState;
     if (state) this.updateFromState(state);
     this.startProgressLoop();
+    this.gameClient.sendGetWorkOrders();
   }
 
   onDeactivate(): void {
     this.isActive = false;
     this.unsubscribe?.();
     this.unsubscribe = undefined;
+    this.unsubOrders?.();
+    this.unsubOrders = undefined;
     if (this.rafHandle !== undefined) {
       cancelAnimationFrame(this.rafHandle);
       this.rafHandle = undefined;
@@ -142,6 +182,7 @@ export class CraftingScreen implements Screen {
     this.lastClassName = state.character?.className ?? null;
     this.lastLevel = state.character?.level ?? 0;
     this.render();
+    this.renderOrderBoard();
   }
 
   private startProgressLoop(): void {
@@ -169,11 +210,13 @@ export class CraftingScreen implements Screen {
   private render(): void {
     const c = this.lastState;
     if (!c) {
-      this.container.innerHTML = `<div class="craft-screen"><div class="craft-locked"><h3>No character</h3><p>Pick a class first.</p></div></div>`;
+      this.mainEl.innerHTML = `<div class="craft-screen"><div class="craft-locked"><h3>No character</h3><p>Pick a class first.</p></div></div>`;
+      this.ordersEl.style.display = 'none';
       return;
     }
+    this.ordersEl.style.display = c.unlocked ? '' : 'none';
     if (!c.unlocked) {
-      this.container.innerHTML = `
+      this.mainEl.innerHTML = `
         <div class="craft-screen">
           <div class="craft-locked">
             <h3>Crafting locked</h3>
@@ -185,7 +228,7 @@ export class CraftingScreen implements Screen {
       return;
     }
 
-    this.container.innerHTML = `
+    this.mainEl.innerHTML = `
       <div class="craft-screen">
         ${this.renderSkillHeader(c)}
         <section class="craft-section">
@@ -199,13 +242,13 @@ export class CraftingScreen implements Screen {
       </div>
     `;
 
-    this.container.querySelectorAll<HTMLButtonElement>('.craft-queue-btn').forEach(btn => {
+    this.mainEl.querySelectorAll<HTMLButtonElement>('.craft-queue-btn').forEach(btn => {
       btn.addEventListener('click', () => {
         const id = btn.dataset.recipeId;
         if (id) this.gameClient.sendCraftQueue(id);
       });
     });
-    this.container.querySelectorAll<HTMLButtonElement>('.craft-cancel-btn').forEach(btn => {
+    this.mainEl.querySelectorAll<HTMLButtonElement>('.craft-cancel-btn').forEach(btn => {
       btn.addEventListener('click', () => {
         const idx = Number(btn.dataset.index);
         if (Number.isFinite(idx)) this.gameClient.sendCraftCancel(idx);
@@ -237,7 +280,7 @@ export class CraftingScreen implements Screen {
     for (const r of c.recipes) recipesById.set(r.id, r);
     const rows = c.queue.jobs.map((job, idx) => {
       const recipe = recipesById.get(job.recipeId);
-      const name = recipe ? recipe.name : job.recipeId;
+      const name = `${recipe ? recipe.name : job.recipeId}${job.workOrderId ? ' (work order)' : ''}`;
       const isActive = idx === 0 && c.activeProgress;
       let progressBlock = '';
       let statusText = '';
@@ -286,22 +329,37 @@ export class CraftingScreen implements Screen {
         const cls = enough ? '' : 'craft-recipe-ing-missing';
         return `<span class="${cls}">${escapeHtml(name)} ${have}/${ing.quantity}</span>`;
       }).join(', ');
+      const components = recipe.ingredients
+        .filter(ing => c.ingredientCrafters[ing.itemId])
+        .map(ing => `${lookupItem(ing.itemId)?.name ?? ing.itemId} (${c.ingredientCrafters[ing.itemId].join('/')})`);
+      const componentsHtml = components.length > 0
+        ? `<div class="craft-recipe-components">Made by other crafts: ${escapeHtml(components.join(', '))} — post a work order below.</div>`
+        : '';
       const resultDef = lookupItem(recipe.result.itemId);
       const resultName = resultDef?.name ?? recipe.result.itemId;
       const resultStr = recipe.result.quantity > 1 ? `${resultName} ×${recipe.result.quantity}` : resultName;
       const classTag = recipe.classRestriction && recipe.classRestriction.length > 0
         ? `<span class="craft-class-tag">${escapeHtml(recipe.classRestriction.join('/'))}</span>` : '';
       const xpStr = recipe.xpReward && recipe.xpReward > 0 ? ` · ${recipe.xpReward} XP` : '';
-      const check = canQueueRecipe(recipe, this.lastInventory, c.queue, this.lastClassName, this.lastLevel);
+      const craftLevelStr = ` · ${escapeHtml(c.skillName)} ${getRequiredCraftLevel(recipe)}`;
+      const check = canQueueRecipe(recipe, this.lastInventory, c.queue, this.lastClassName, this.lastLevel, c.skillLevel);
       const disabled = !check.ok;
-      const reason = !check.ok ? this.reasonText(check.reason) : '';
+      const reason = !check.ok ? this.reasonText(check.reason, c.skillName) : '';
+      const odds = getRecipeQualityOdds(recipe, c.skillLevel, c.itemDefs);
+      const oddsHtml = odds
+        ? `<div class="craft-recipe-odds">Quality: ${ALL_CRAFT_QUALITIES
+          .map(q => `<span class="craft-quality-${q}">${CRAFT_QUALITY_LABELS[q]} ${odds[q]}%</span>`)
+          .join(' · ')}</div>`
+        : '';
       return `
         <div class="craft-recipe-card">
           <div class="craft-recipe-info">
             <div class="craft-recipe-name">${escapeHtml(recipe.name)}${classTag}</div>
-            <div class="craft-recipe-meta">Crafting Time: ${fmtSeconds(recipe.durationSeconds)}${xpStr}</div>
+            <div class="craft-recipe-meta">Crafting Time: ${fmtSeconds(recipe.durationSeconds)}${xpStr}${craftLevelStr}</div>
             <div class="craft-recipe-ings">Cost: ${ings}</div>
+            ${componentsHtml}
             <div class="craft-recipe-result">Produces: ${escapeHtml(resultStr)}</div>
+            ${oddsHtml}
           </div>
           <button class="craft-queue-btn" data-recipe-id="${escapeHtml(recipe.id)}" ${disabled ? 'disabled' : ''} title="${escapeHtml(reason)}">Queue</button>
         </div>
@@ -310,10 +368,114 @@ export class CraftingScreen implements Screen {
     return `<div class="craft-recipe-list">${cards}</div>`;
   }
 
-  private reasonText(reason: string): string {
+  // ── Work orders ─────────────────────────────────────────────
+
+  private bindWorkOrderEvents(): void {
+    this.ordersEl.addEventListener('click', (e) => {
+      const btn = (e.target as HTMLElement).closest<HTMLButtonElement>('button');
+      if (!btn) return;
+      const orderId = btn.dataset.orderId;
+      if (btn.matches('.craft-order-refresh-btn')) {
+        this.gameClient.sendGetWorkOrders();
+      } else if (btn.matches('.craft-order-fill-btn') && orderId && btn.dataset.recipeId) {
+        this.gameClient.sendCraftQueue(btn.dataset.recipeId, orderId);
+      } else if (btn.matches('.craft-order-cancel-btn') && orderId) {
+        this.gameClient.sendCancelWorkOrder(orderId);
+        this.gameClient.sendGetWorkOrders();
+      } else if (btn.matches('.craft-order-post-btn')) {
+        if (!this.orderItemId) return;
+        this.gameClient.sendPostWorkOrder(this.orderItemId, this.orderQuantity, this.orderReward);
+        this.gameClient.sendGetWorkOrders();
+      }
+    });
+    this.ordersEl.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.matches('.craft-order-qty')) this.orderQuantity = Math.max(1, Math.floor(Number(target.value)) || 1);
+      if (target.matches('.craft-order-reward')) this.orderReward = Math.max(0, Math.floor(Number(target.value)) || 0);
+    });
+    this.ordersEl.addEventListener('change', (e) => {
+      const target = e.target as HTMLSelectElement;
+      if (target.matches('.craft-order-item')) this.orderItemId = target.value;
+    });
+  }
+
+  /** Full rebuild, post form included — only on `work_order_results`, never on a state tick. */
+  private renderWorkOrders(): void {
+    const results = this.orderResults;
+    if (!results) return;
+    const options = results.orderableItemIds.map(id => {
+      const name = results.itemDefinitions[id]?.name ?? id;
+      return `<option value="${escapeHtml(id)}" ${id === this.orderItemId ? 'selected' : ''}>${escapeHtml(name)}</option>`;
+    }).join('');
+    this.ordersEl.innerHTML = `
+      <section class="craft-section">
+        <h3>Work Orders <button class="craft-cancel-btn craft-order-refresh-btn">Refresh</button></h3>
+        <div class="craft-order-board"></div>
+      </section>
+      <section class="craft-section">
+        <h3>My Orders (<span class="craft-my-order-count"></span> / ${MAX_WORK_ORDERS})</h3>
+        <div class="craft-my-orders"></div>
+        <div class="craft-order-form">
+          <select class="craft-order-item">${options}</select>
+          <label>Qty <input class="craft-order-qty" type="number" min="1" value="${this.orderQuantity}" /></label>
+          <label>Reward <input class="craft-order-reward" type="number" min="1" value="${this.orderReward || ''}" placeholder="gold" /></label>
+          <button class="craft-queue-btn craft-order-post-btn">Post</button>
+        </div>
+        <div class="craft-order-note">The reward is held until the order is filled, and lasts ${WORK_ORDER_DURATION_HOURS}h. Deliveries and refunds arrive by mail.</div>
+      </section>
+    `;
+    this.renderOrderBoard();
+  }
+
+  /** Order lists only — cheap enough to redo on every state tick so Craft buttons track inventory. */
+  private renderOrderBoard(): void {
+    const results = this.orderResults;
+    const board = this.ordersEl.querySelector<HTMLElement>('.craft-order-board');
+    const mine = this.ordersEl.querySelector<HTMLElement>('.craft-my-orders');
+    const count = this.ordersEl.querySelector<HTMLElement>('.craft-my-order-count');
+    if (!results || !board || !mine || !count) return;
+
+    board.innerHTML = results.orders.length === 0
+      ? `<div class="craft-queue-empty">No open orders.</div>`
+      : `<div class="craft-order-list">${results.orders.map(o => this.renderOrderRow(o, results, false)).join('')}</div>`;
+    mine.innerHTML = results.myOrders.length === 0
+      ? `<div class="craft-queue-empty">You have no orders posted.</div>`
+      : `<div class="craft-order-list">${results.myOrders.map(o => this.renderOrderRow(o, results, true)).join('')}</div>`;
+    count.textContent = String(results.myOrders.length);
+  }
+
+  private renderOrderRow(order: WorkOrder, results: ServerWorkOrderResultsMessage, own: boolean): string {
+    const name = results.itemDefinitions[order.itemId]?.name ?? order.itemId;
+    const hoursLeft = Math.max(0, Math.ceil((order.expiresAt - Date.now()) / 3_600_000));
+    const who = own ? '' : ` · ${escapeHtml(order.poster)}`;
+    let action = '';
+    if (own) {
+      action = `<button class="craft-cancel-btn craft-order-cancel-btn" data-order-id="${escapeHtml(order.id)}">Cancel</button>`;
+    } else {
+      const c = this.lastState;
+      const recipe = c?.recipes.find(r => r.result.itemId === order.itemId);
+      if (c && recipe) {
+        const check = canQueueRecipe(recipe, this.lastInventory, c.queue, this.lastClassName, this.lastLevel, c.skillLevel);
+        const reason = !check.ok ? this.reasonText(check.reason, c.skillName) : '';
+        action = `<button class="craft-queue-btn craft-order-fill-btn" data-order-id="${escapeHtml(order.id)}" data-recipe-id="${escapeHtml(recipe.id)}" ${check.ok ? '' : 'disabled'} title="${escapeHtml(reason)}">Craft</button>`;
+      }
+    }
+    return `
+      <div class="craft-order-row">
+        <div>
+          <div class="craft-order-name">${escapeHtml(name)} ${order.delivered}/${order.quantity}</div>
+          <div class="craft-order-meta">${order.reward} gold${who} · ${hoursLeft}h left${!own && !action ? ' · not your craft' : ''}${own && getWorkOrderRemaining(order) < order.quantity ? ' · partly delivered' : ''}</div>
+        </div>
+        ${action}
+      </div>
+    `;
+  }
+
+  private reasonText(reason: string, skillName: string): string {
     switch (reason) {
       case 'queue_full': return 'Queue is full';
       case 'level_too_low': return 'Level too low';
+      case 'craft_level_too_low': return `${skillName} level too low`;
       case 'class_restricted': return 'Wrong class';
       case 'missing_ingredients': return 'Missing ingredients';
       default: return '';
@@ -176,6 +176,9 @@ export class MapScreen implements Screen {
       this.roomView!.transitions = (playerOnTile && !state?.dungeon && tileDef?.transitions)
         ? tileDef.transitions.map(t => ({ tileId: t.tileId, name: this.resolveTransitionName(t) }))
         : [];
+      // Harvest nodes are per-player (respawn timers, craft level), so they come from state.
+      this.roomView!.harvestNodes = (playerOnTile && !state?.dungeon) ? (state?.harvestNodes ?? []) : [];
+      this.roomView!.itemDefinitions = state?.itemDefinitions ?? {};
       this.roomView!.show(tileInfo);
     });
 
@@ -1,15 +1,15 @@
 import type { GameClient } from '../network/GameClient';
 import type { ChatLocalStore } from '../network/ChatLocalStore';
-import type { ServerStateMessage, ClientSocialState, ChatMessage, ChatChannelType, PlayerListEntry, PlayerProfileMessage, TradeOfferItem, TradeState, ItemDefinition, SetDefinition } from '@idle-party-rpg/shared';
-import { MAX_PARTY_SIZE, classIconHtml, serverIconHtml, getItemEffectText, listUnequippedEntries, getEquippedItemIds } from '@idle-party-rpg/shared';
+import type { ServerStateMessage, ClientSocialState, ChatMessage, ChatChannelType, PlayerListEntry, PlayerProfileMessage, TradeOfferItem, TradeState, ItemDefinition, SetDefinition, AuctionListing, AuctionSearchFilter, ServerAuctionResultsMessage } from '@idle-party-rpg/shared';
+import { MAX_PARTY_SIZE, classIconHtml, serverIconHtml, getItemEffectText, listUnequippedEntries, getEquippedItemIds, ALL_CLASS_NAMES, EQUIP_SLOTS, AUCTION_DURATIONS_HOURS, MAX_AUCTION_LISTINGS, getAuctionFee, getAuctionPayout, GIFT_MAIL_SUBJECT, MAIL_EXPIRY_DAYS, MAX_MAIL_ATTACHMENTS, MAX_MAIL_SUBJECT_LENGTH, MAX_MAIL_BODY_LENGTH } from '@idle-party-rpg/shared';
 import type { Screen } from './ScreenManager';
 import type { WorldCache } from '../network/WorldCache';
-import { RARITY_COLORS, renderItemIcon, renderEmptySlotIcon } from '../ui/ItemIcon';
+import { RARITY_COLORS, RARITY_ORDER, SLOT_LABELS, renderItemIcon, renderEmptySlotIcon } from '../ui/ItemIcon';
 import { renderItemPopupContent } from '../ui/ItemPopup';
 import { bringToFront, release, wireFocusOnInteract } from '../ui/ModalStack';
 import { renderAssetImg } from '../ui/assets';
 
-type SubTab = 'users' | 'guild' | 'party' | 'chat';
+type SubTab = 'users' | 'guild' | 'party' | 'auction' | 'chat';
 
 // Chat sub-tab is gone — replaced by the global pop-out chat. The 'chat' value
 // is still allowed in stored prefs for back-compat; we silently coerce it back
@@ -18,6 +18,7 @@ const SUB_TABS: { id: SubTab; label: string }[] = [
   { id: 'party', label: 'Party' },
   { id: 'guild', label: 'Guild' },
   { id: 'users', label: 'Leaderboard' },
+  { id: 'auction', label: 'Auction' },
 ];
 
 export class SocialScreen implements Screen {
@@ -34,6 +35,7 @@ export class SocialScreen implements Screen {
   private unsubscribe?: () => void;
   private unsubChat?: () => void;
   private unsubSyncChat?: () => void;
+  private unsubAuction?: () => void;
 
   private panelContainer!: HTMLElement;
   private lastSocial: ClientSocialState | null = null;
@@ -80,6 +82,17 @@ export class SocialScreen implements Screen {
   private giftModalEl: HTMLElement | null = null;
   private giftTargetUsername: string | null = null;
   private giftSelectedItems = new Map<string, number>(); // itemId → quantity
+  private giftSubject = GIFT_MAIL_SUBJECT;
+  private giftBody = '';
+  private giftGold = 0;
+
+  // Auction house — results arrive as `auction_results` replies, not in the state tick
+  private auctionFilter: AuctionSearchFilter = {};
+  private auctionResults: ServerAuctionResultsMessage | null = null;
+  private auctionSellItemId = '';
+  private auctionSellQuantity = 1;
+  private auctionSellPrice = 0;
+  private auctionSellHours: number = AUCTION_DURATIONS_HOURS[1];
 
   // Grid drag-to-reposition state
   private gridDragging = false;
@@ -92,6 +105,7 @@ export class SocialScreen implements Screen {
   private lastRenderedUsersKey = '';
   private lastRenderedGuildKey = '';
   private lastRenderedPartyKey = '';
+  private lastRenderedAuctionKey = '';
 
   constructor(containerId: string, gameClient: GameClient, chatStore: ChatLocalStore, worldCache: WorldCache) {
     const el = document.getElementById(containerId);
@@ -129,6 +143,13 @@ export class SocialScreen implements Screen {
       // Add to localStorage-backed store (O(1) dedup)
       this.chatStore.addMessage(msg);
     });
+    this.unsubAuction = this.gameClient.onAuctionResults((results) => {
+      this.auctionResults = results;
+      if (this.isActive && this.activeTab === 'auction') {
+        this.renderAuctionSell();
+        this.renderAuctionResults();
+      }
+    });
     this.unsubSyncChat = this.gameClient.onSyncChat((messages, full) => {
       this.chatStore.mergeSyncBatch(messages, full);
       if (this.isActive && this.activeTab === 'chat') {
@@ -160,6 +181,8 @@ export class SocialScreen implements Screen {
     this.unsubChat = undefined;
     this.unsubSyncChat?.();
     this.unsubSyncChat = undefined;
+    this.unsubAuction?.();
+    this.unsubAuction = undefined;
     this.dismissPopup();
     this.dismissTradeModal();
   }
@@ -183,6 +206,7 @@ export class SocialScreen implements Screen {
     this.lastRenderedUsersKey = '';
     this.lastRenderedGuildKey = '';
     this.lastRenderedPartyKey = '';
+    this.lastRenderedAuctionKey = '';
     if (this.isActive) this.renderPanel();
   }
 
@@ -241,6 +265,27 @@ export class SocialScreen implements Screen {
         return;
       }
 
+      // Auction panel
+      if (btn.matches('.auction-search-btn')) { this.searchAuctions(); return; }
+      if (btn.matches('.auction-list-btn')) {
+        if (!this.auctionSellItemId) return;
+        this.gameClient.sendListAuction(this.auctionSellItemId, this.auctionSellQuantity, this.auctionSellPrice, this.auctionSellHours);
+        this.auctionSellItemId = '';
+        this.searchAuctions();
+        return;
+      }
+      const listingId = btn.getAttribute('data-listing-id');
+      if (btn.matches('.auction-buy-btn') && listingId) {
+        this.gameClient.sendBuyAuction(listingId);
+        this.searchAuctions();
+        return;
+      }
+      if (btn.matches('.auction-cancel-btn') && listingId) {
+        this.gameClient.sendCancelAuction(listingId);
+        this.searchAuctions();
+        return;
+      }
+
       // Users panel — filter buttons
       if (btn.matches('.social-filter-btn')) {
         this.filterBy = btn.getAttribute('data-filter') as typeof this.filterBy;
@@ -323,10 +368,16 @@ export class SocialScreen implements Screen {
     // Delegated input handler for search + chat inputs
     this.panelContainer.addEventListener('input', (e) => {
       const target = e.target as HTMLElement;
-      if (target.matches('.social-search:not(.social-chat-input):not(.social-chat-dm-target):not(.social-guild-name-input)')) {
+      if (target.matches('.social-search:not(.social-chat-input):not(.social-chat-dm-target):not(.social-guild-name-input):not(.auction-search)')) {
         this.searchQuery = (target as HTMLInputElement).value;
         this.renderUserRows();
       }
+      if (target.matches('.auction-search')) {
+        this.auctionFilter.text = (target as HTMLInputElement).value;
+      }
+      if (target.matches('.auction-sell-qty, .auction-sell-price')) {
+        this.readAuctionSellForm();
+      }
       if (target.matches('.social-chat-dm-target')) {
         this.chatDmTarget = (target as HTMLInputElement).value.trim();
         this.updateChatDmState();
@@ -337,6 +388,23 @@ export class SocialScreen implements Screen {
     // Delegated change handler for chat channel select
     this.panelContainer.addEventListener('change', (e) => {
       const target = e.target as HTMLElement;
+      if (target.matches('.auction-filter')) {
+        const key = target.getAttribute('data-filter-key') as 'slot' | 'rarity' | 'className';
+        const value = (target as HTMLSelectElement).value;
+        this.auctionFilter = { ...this.auctionFilter, [key]: value || undefined };
+        this.searchAuctions();
+        return;
+      }
+      if (target.matches('.auction-sell-item')) {
+        this.auctionSellItemId = (target as HTMLSelectElement).value;
+        this.auctionSellQuantity = 1;
+        this.renderAuctionSell();
+        return;
+      }
+      if (target.matches('.auction-sell-hours')) {
+        this.readAuctionSellForm();
+        return;
+      }
       if (target.matches('.chat-send-select')) {
         this.chatSendChannel = (target as HTMLSelectElement).value as ChatChannelType;
         this.updateChatDmState();
@@ -354,6 +422,9 @@ export class SocialScreen implements Screen {
       if (target.matches('.social-chat-input') && (e as KeyboardEvent).key === 'Enter') {
         this.doChatSend();
       }
+      if (target.matches('.auction-search') && (e as KeyboardEvent).key === 'Enter') {
+        this.searchAuctions();
+      }
     });
 
     // Delegated click for channel tag switching in chat messages
@@ -409,6 +480,7 @@ export class SocialScreen implements Screen {
       case 'users': this.updateUsersPanel(); break;
       case 'guild': this.updateGuildPanel(); break;
       case 'party': this.updatePartyPanel(); break;
+      case 'auction': this.updateAuctionPanel(); break;
       case 'chat': break; // Chat uses incremental appendChatMessage — no tick rebuild needed
     }
   }
@@ -420,6 +492,7 @@ export class SocialScreen implements Screen {
       case 'users': this.renderUsersPanel(); break;
       case 'guild': this.renderGuildPanel(); break;
       case 'party': this.renderPartyPanel(); break;
+      case 'auction': this.renderAuctionPanel(); break;
       case 'chat': this.renderChatPanel(); break;
     }
   }
@@ -563,6 +636,18 @@ export class SocialScreen implements Screen {
     }
   }
 
+  /** Rebuild the sell form and result rows when the bag or gold changes (Buy buttons depend on gold). */
+  private updateAuctionPanel(): void {
+    const character = this.lastState?.character;
+    if (!character) return;
+    const key = JSON.stringify({ inventory: character.inventory, gold: character.gold });
+    if (key !== this.lastRenderedAuctionKey) {
+      this.lastRenderedAuctionKey = key;
+      this.renderAuctionSell();
+      this.renderAuctionResults();
+    }
+  }
+
   // ── Class icon helper ────────────────────────────────────────
 
   private classIcon(className?: string): string {
@@ -682,7 +767,7 @@ export class SocialScreen implements Screen {
     }
 
     // Gift — always available (no same-room or active-trade restriction)
-    items.push(`<button class="user-popup-item" data-popup-action="gift">Send Gift</button>`);
+    items.push(`<button class="user-popup-item" data-popup-action="gift">Send Mail</button>`);
 
     // Block
     if (isBlocked) {
@@ -1125,6 +1210,142 @@ export class SocialScreen implements Screen {
     `;
   }
 
+  // ── Auction Panel ───────────────────────────────────────────
+
+  private renderAuctionPanel(): void {
+    if (!this.lastState?.character) {
+      this.panelContainer.innerHTML = '<div class="social-placeholder">Loading...</div>';
+      return;
+    }
+    const filter = this.auctionFilter;
+    const option = (value: string, label: string, selected: string | undefined) =>
+      `<option value="${value}"${(selected ?? '') === value ? ' selected' : ''}>${label}</option>`;
+
+    this.panelContainer.innerHTML = `
+      <div class="social-users-toolbar">
+        <div class="social-guild-form">
+          <input class="social-search auction-search" type="text" placeholder="Search items..." value="${this.escapeHtml(filter.text ?? '')}" />
+          <button class="social-action-btn add-friend auction-search-btn">Search</button>
+        </div>
+        <div class="social-toolbar-btns auction-filters">
+          <select class="auction-filter" data-filter-key="slot">
+            ${option('', 'Any slot', filter.slot)}
+            ${EQUIP_SLOTS.map(slot => option(slot, SLOT_LABELS[slot] ?? slot, filter.slot)).join('')}
+            ${option('none', 'Not wearable', filter.slot)}
+          </select>
+          <select class="auction-filter" data-filter-key="rarity">
+            ${option('', 'Any rarity', filter.rarity)}
+            ${Object.keys(RARITY_ORDER).reverse().map(r => option(r, r[0].toUpperCase() + r.slice(1), filter.rarity)).join('')}
+          </select>
+          <select class="auction-filter" data-filter-key="className">
+            ${option('', 'Any class', filter.className)}
+            ${ALL_CLASS_NAMES.map(c => option(c, c, filter.className)).join('')}
+          </select>
+        </div>
+      </div>
+      <div class="auction-sell"></div>
+      <div class="auction-results"></div>
+    `;
+    this.lastRenderedAuctionKey = '';
+    this.updateAuctionPanel();
+    this.searchAuctions();
+  }
+
+  private searchAuctions(): void {
+    this.gameClient.sendSearchAuctions(this.auctionFilter);
+  }
+
+  private readAuctionSellForm(): void {
+    const qty = this.panelContainer.querySelector('.auction-sell-qty') as HTMLInputElement | null;
+    const price = this.panelContainer.querySelector('.auction-sell-price') as HTMLInputElement | null;
+    const hours = this.panelContainer.querySelector('.auction-sell-hours') as HTMLSelectElement | null;
+    if (qty) this.auctionSellQuantity = Math.max(1, Math.floor(Number(qty.value)) || 1);
+    if (price) this.auctionSellPrice = Math.max(0, Math.floor(Number(price.value)) || 0);
+    if (hours) this.auctionSellHours = Number(hours.value);
+    const note = this.panelContainer.querySelector('.auction-sell-note');
+    if (note) note.textContent = this.auctionFeeNote();
+  }
+
+  private auctionFeeNote(): string {
+    if (this.auctionSellPrice < 1) return 'Items are held by the house until they sell or expire.';
+    return `You receive ${getAuctionPayout(this.auctionSellPrice)} gold after the ${getAuctionFee(this.auctionSellPrice)} gold fee.`;
+  }
+
+  /** The "list an item" form — unequipped inventory only, like gifts and trades. */
+  private renderAuctionSell(): void {
+    const el = this.panelContainer.querySelector('.auction-sell');
+    if (!el) return;
+    const itemDefs = this.lastState?.itemDefinitions ?? {};
+    const inventory = this.lastState?.character?.inventory ?? {};
+    const entries = listUnequippedEntries(inventory);
+    if (!entries.some(([id]) => id === this.auctionSellItemId)) this.auctionSellItemId = '';
+    const count = this.auctionSellItemId ? inventory[this.auctionSellItemId] ?? 0 : 0;
+    this.auctionSellQuantity = Math.min(Math.max(1, this.auctionSellQuantity), Math.max(1, count));
+    const myCount = this.auctionResults?.myListings.length ?? 0;
+
+    el.innerHTML = `
+      <div class="social-group-header">Sell</div>
+      <div class="auction-sell-form">
+        <select class="auction-sell-item">
+          <option value="">Choose an item...</option>
+          ${entries.map(([id, qty]) => `<option value="${this.escapeHtml(id)}"${id === this.auctionSellItemId ? ' selected' : ''}>${this.escapeHtml(itemDefs[id]?.name ?? id)} (${qty})</option>`).join('')}
+        </select>
+        <input class="social-search auction-sell-qty" type="number" min="1" max="${count}" value="${this.auctionSellQuantity}" title="Quantity" />
+        <input class="social-search auction-sell-price" type="number" min="1" value="${this.auctionSellPrice || ''}" placeholder="Price" title="Buy-now price (gold)" />
+        <select class="auction-sell-hours">
+          ${AUCTION_DURATIONS_HOURS.map(h => `<option value="${h}"${h === this.auctionSellHours ? ' selected' : ''}>${h}h</option>`).join('')}
+        </select>
+        <button class="social-action-btn add-friend auction-list-btn"${this.auctionSellItemId && myCount < MAX_AUCTION_LISTINGS ? '' : ' disabled'}>List</button>
+      </div>
+      <div class="social-guild-note auction-sell-note">${this.escapeHtml(this.auctionFeeNote())}</div>
+    `;
+  }
+
+  private renderAuctionResults(): void {
+    const el = this.panelContainer.querySelector('.auction-results');
+    if (!el) return;
+    const results = this.auctionResults;
+    if (!results) {
+      el.innerHTML = '<div class="social-placeholder">Loading...</div>';
+      return;
+    }
+    const gold = this.lastState?.character?.gold ?? 0;
+    const now = Date.now();
+    const row = (listing: AuctionListing, own: boolean) => {
+      const def = results.itemDefinitions[listing.itemId];
+      const color = def ? (RARITY_COLORS[def.rarity] ?? '#e8e8e8') : '#e8e8e8';
+      const action = own
+        ? `<button class="social-action-btn remove-friend auction-cancel-btn" data-listing-id="${this.escapeHtml(listing.id)}">Cancel</button>`
+        : `<button class="social-action-btn add-friend auction-buy-btn" data-listing-id="${this.escapeHtml(listing.id)}"${gold < listing.price ? ' disabled title="Not enough gold"' : ''}>Buy</button>`;
+      return `<div class="social-user-row auction-row">
+        <span class="auction-item" style="color:${color}">${this.escapeHtml(def?.name ?? listing.itemId)}${listing.quantity > 1 ? ` ×${listing.quantity}` : ''}</span>
+        ${own ? '' : `<span class="auction-seller">${this.escapeHtml(listing.seller)}</span>`}
+        <span class="auction-time">${SocialScreen.formatTimeLeft(listing.expiresAt - now)}</span>
+        <span class="auction-price">${listing.price.toLocaleString('en-US')}g</span>
+        ${action}
+      </div>`;
+    };
+    const others = results.listings.filter(l => l.seller !== this.lastState?.username);
+
+    el.innerHTML = `
+      ${results.myListings.length > 0 ? `
+        <div class="social-group-header">Your listings (${results.myListings.length}/${MAX_AUCTION_LISTINGS})</div>
+        <div class="social-user-list">${results.myListings.map(l => row(l, true)).join('')}</div>
+      ` : ''}
+      <div class="social-group-header">Listings (${others.length})</div>
+      ${others.length > 0
+        ? `<div class="social-user-list">${others.map(l => row(l, false)).join('')}</div>`
+        : '<div class="social-empty">No listings match.</div>'}
+    `;
+  }
+
+  private static formatTimeLeft(ms: number): string {
+    if (ms <= 0) return 'expired';
+    const minutes = Math.ceil(ms / 60_000);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
   // ── Party Panel ─────────────────────────────────────────────
 
   private renderPartyPanel(): void {
@@ -1794,6 +2015,9 @@ export class SocialScreen implements Screen {
   openGiftModal(targetUsername: string): void {
     this.giftTargetUsername = targetUsername;
     this.giftSelectedItems = new Map();
+    this.giftSubject = GIFT_MAIL_SUBJECT;
+    this.giftBody = '';
+    this.giftGold = 0;
     this.renderGiftModal();
   }
 
@@ -1821,6 +2045,7 @@ export class SocialScreen implements Screen {
         const inventory = this.lastState?.character?.inventory ?? {};
         const maxQty = (inventory[itemId] as number) ?? 0;
         const current = this.giftSelectedItems.get(itemId) ?? 0;
+        if (current === 0 && this.giftSelectedItems.size >= MAX_MAIL_ATTACHMENTS) return;
         if (current < maxQty) {
           this.giftSelectedItems.set(itemId, current + 1);
           this.updateGiftModal();
@@ -1840,16 +2065,24 @@ export class SocialScreen implements Screen {
 
       if (btn.matches('.gift-send-btn')) {
         if (!this.giftTargetUsername) return;
-        const target = this.giftTargetUsername;
-        // Send each item entry as its own gift so the mailbox has separate stacks.
-        for (const [itemId, quantity] of this.giftSelectedItems) {
-          this.gameClient.sendGift(target, itemId, quantity);
-        }
+        const attachments = Array.from(this.giftSelectedItems, ([itemId, quantity]) => ({ itemId, quantity }));
+        this.gameClient.sendMail(this.giftTargetUsername, this.giftSubject.trim(), this.giftBody.trim(), attachments, this.giftGold);
         this.dismissGiftModal();
         return;
       }
     });
 
+    // Text fields update state in place — re-rendering would steal focus mid-typing.
+    overlay.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement | HTMLTextAreaElement;
+      if (target.matches('.gift-subject')) this.giftSubject = target.value;
+      else if (target.matches('.gift-body')) this.giftBody = target.value;
+      else if (target.matches('.gift-gold')) this.giftGold = Math.max(0, Math.floor(Number(target.value) || 0));
+      else return;
+      const sendBtn = overlay.querySelector('.gift-send-btn') as HTMLButtonElement | null;
+      if (sendBtn) sendBtn.disabled = !this.canSendGift();
+    });
+
     document.body.appendChild(overlay);
     this.giftModalEl = overlay;
     bringToFront(overlay);
@@ -1870,11 +2103,12 @@ export class SocialScreen implements Screen {
     const giftableItems = listUnequippedEntries(inventory).map(([id]) => id);
 
     const selItems = Array.from(this.giftSelectedItems.entries());
-    const hasSelection = selItems.length > 0;
+    const attachmentsFull = selItems.length >= MAX_MAIL_ATTACHMENTS;
+    const gold = this.lastState?.character?.gold ?? 0;
 
     const renderPicker = (): string => {
       if (giftableItems.length === 0) {
-        return '<div class="trade-picker-list"><div class="trade-empty">No giftable items in inventory</div></div>';
+        return '<div class="trade-picker-list"><div class="trade-empty">No items to attach in inventory</div></div>';
       }
       const rows = giftableItems.map(id => {
         const def = itemDefs[id];
@@ -1891,7 +2125,7 @@ export class SocialScreen implements Screen {
             <span class="trade-item-count">×${invCount}</span>
             <button class="gift-qty-dec" data-item-id="${this.escapeHtml(id)}"${selQty === 0 ? ' disabled' : ''}>−</button>
             <span class="trade-qty-val">${selQty}</span>
-            <button class="gift-qty-inc" data-item-id="${this.escapeHtml(id)}"${selQty >= invCount ? ' disabled' : ''}>+</button>
+            <button class="gift-qty-inc" data-item-id="${this.escapeHtml(id)}"${selQty >= invCount || (selQty === 0 && attachmentsFull) ? ' disabled' : ''}>+</button>
           </div>
         </div>`;
       }).join('');
@@ -1900,7 +2134,7 @@ export class SocialScreen implements Screen {
 
     const summaryHtml = selItems.length === 0
       ? '<div class="trade-item-card trade-item-empty"><div class="trade-item-none">No items selected</div></div>'
-      : `<div class="trade-item-card"><div class="trade-item-label">You will gift</div>${selItems.map(([id, q]) => {
+      : `<div class="trade-item-card"><div class="trade-item-label">Attached</div>${selItems.map(([id, q]) => {
           const def = itemDefs[id];
           const color = def ? (RARITY_COLORS[def.rarity] ?? '#e8e8e8') : '#e8e8e8';
           return `<div class="trade-offer-row">
@@ -1910,18 +2144,27 @@ export class SocialScreen implements Screen {
         }).join('')}</div>`;
 
     modal.innerHTML = `
-      <div class="trade-modal-header">Send gift to ${this.escapeHtml(target)}</div>
-      <div class="trade-status">Gifts arrive in their mailbox. They can accept or decline; declined gifts return to your mailbox.</div>
-      <div class="trade-picker-label">Select items to gift:</div>
+      <div class="trade-modal-header">Send mail to ${this.escapeHtml(target)}</div>
+      <div class="trade-status">Mail arrives in their mailbox. They can claim or return it; unclaimed mail comes back to you after ${MAIL_EXPIRY_DAYS} days.</div>
+      <input class="social-search gift-subject" type="text" maxlength="${MAX_MAIL_SUBJECT_LENGTH}" placeholder="Subject" value="${this.escapeHtml(this.giftSubject)}">
+      <textarea class="social-search gift-body" rows="3" maxlength="${MAX_MAIL_BODY_LENGTH}" placeholder="Message (optional)">${this.escapeHtml(this.giftBody)}</textarea>
+      <div class="trade-picker-label">Select up to ${MAX_MAIL_ATTACHMENTS} items to attach:</div>
       ${renderPicker()}
       ${summaryHtml}
+      <label class="gift-gold-row">Gold <input class="social-search gift-gold" type="number" min="0" max="${gold}" step="1" value="${this.giftGold}"> <span class="trade-item-count">of ${gold.toLocaleString('en-US')}</span></label>
       <div class="trade-actions">
-        <button class="social-action-btn add-friend gift-send-btn"${hasSelection ? '' : ' disabled'}>Send Gift</button>
+        <button class="social-action-btn add-friend gift-send-btn"${this.canSendGift() ? '' : ' disabled'}>Send Mail</button>
         <button class="social-action-btn remove-friend gift-close-btn">Cancel</button>
       </div>
     `;
   }
 
+  /** A mail needs a subject and something in it — items, gold or a message. */
+  private canSendGift(): boolean {
+    if (!this.giftSubject.trim()) return false;
+    return this.giftSelectedItems.size > 0 || this.giftGold > 0 || !!this.giftBody.trim();
+  }
+
   dismissGiftModal(): void {
     if (this.giftModalEl) {
       release(this.giftModalEl);
@@ -1,4 +1,5 @@
 import type { GameClient } from '../network/GameClient';
+import { hasMailContents } from '@idle-party-rpg/shared';
 
 export type NavMode = 'screen' | 'overlay' | 'submenu';
 
@@ -255,11 +256,11 @@ export class BottomNav {
         if (badge) badge.classList.toggle('visible', this.hasFriendRequests || this.hasPartyInvites);
       }
 
-      // Items badge: gifts in mailbox or trades needing attention
+      // Items badge: unclaimed mail or trades needing attention
       const itemsTab = this.tabButtons.get('items');
       if (itemsTab && social) {
         const selfUsername = state.username ?? '';
-        const hasMailbox = (social.mailbox?.length ?? 0) > 0;
+        const hasMailbox = (social.mailbox ?? []).some(hasMailContents);
         const tradeNeedsAction = (social.proposedTrades ?? []).some(t =>
           t.lastUpdatedBy && t.lastUpdatedBy !== selfUsername,
         );
@@ -1,4 +1,5 @@
 import type { ItemDefinition, SetDefinition } from '@idle-party-rpg/shared';
+import { getBaseItemId } from '@idle-party-rpg/shared';
 
 export const RARITY_COLORS: Record<string, string> = {
   janky: '#808080',
@@ -67,8 +68,9 @@ export function getItemInitials(name: string): string {
 
 /** Check if an item belongs to any set; returns the set ID or null. */
 export function getItemSetId(itemId: string, setDefs: Record<string, SetDefinition>): string | null {
+  const baseId = getBaseItemId(itemId);
   for (const set of Object.values(setDefs)) {
-    if (set.itemIds.includes(itemId)) return set.id;
+    if (set.itemIds.includes(baseId)) return set.id;
   }
   return null;
 }
@@ -130,7 +132,7 @@ export function renderItemIcon(itemId: string, def: ItemDefinition, options?: It
     // img starts at opacity:0 so a missing PNG never flashes the browser's
     // broken-image glyph; the initials sibling acts as the visible placeholder
     // until onload reveals the real artwork.
-    inner = `<img class="item-square-img" src="/item-artwork/${itemId}.png" style="opacity:0" onerror="this.style.display='none'" onload="this.style.opacity='1';this.nextElementSibling.style.display='none'" alt="">
+    inner = `<img class="item-square-img" src="/item-artwork/${getBaseItemId(itemId)}.png" style="opacity:0" onerror="this.style.display='none'" onload="this.style.opacity='1';this.nextElementSibling.style.display='none'" alt="">
     <span class="item-square-initials">${initials}</span>`;
   }
 
@@ -1,5 +1,5 @@
-import type { ItemDefinition, SetDefinition, SkillDefinition } from '@idle-party-rpg/shared';
-import { getItemEffectText, getSetsForItem, getSetBonusText, getSetDisplayName, getActiveBreakpoint } from '@idle-party-rpg/shared';
+import type { ItemComparison, ItemDefinition, SetDefinition, SkillDefinition } from '@idle-party-rpg/shared';
+import { compareEquipItem, formatStatDelta, getStatDeltaDirection, getItemEffectText, getGemRemovalCost, getBaseItemId, toBaseItemIds, getSetsForItem, getSetBonusText, getSetDisplayName, getActiveBreakpoint, getConsumableEffect, getConsumableEffectText } from '@idle-party-rpg/shared';
 import { RARITY_COLORS, SLOT_LABELS, SHINY_RARITIES, getItemInitials, escapeHtml } from './ItemIcon';
 
 export interface ItemPopupOptions {
@@ -17,6 +17,12 @@ export interface ItemPopupOptions {
    * are shown. When omitted, every set containing the item is listed (admin / preview).
    */
   className?: string | null;
+  /**
+   * The viewer's current gear. When set, equippable items get a comparison
+   * block (effective stat deltas, set tiers, skills, displaced gear) from
+   * `compareEquipItem`.
+   */
+  compareWith?: { equipment: Record<string, string | null>; level: number };
   /** Action buttons HTML (empty string for read-only view) */
   actionsHtml?: string;
   /** Extra HTML rendered between the set sections and the action buttons.
@@ -44,11 +50,26 @@ export function renderItemPopupContent(def: ItemDefinition, options?: ItemPopupO
     statLines.push(`<div><span class="stat-label">Slot</span><span>${SLOT_LABELS[def.equipSlot] ?? def.equipSlot}</span></div>`);
   } else if (def.consumable) {
     statLines.push(`<div><span class="stat-label">Type</span><span>Consumable</span></div>`);
+  } else if (def.gem) {
+    statLines.push(`<div><span class="stat-label">Type</span><span>Gem</span></div>`);
+    statLines.push(`<div><span class="stat-label">Unsocket</span><span>${getGemRemovalCost(def)}g to keep, free to destroy</span></div>`);
   } else {
     statLines.push(`<div><span class="stat-label">Type</span><span>Material</span></div>`);
   }
+  if (def.sockets) {
+    // One line per socketed gem (name + its stats), then the open count.
+    const gems = (def.gems ?? []).map(gemId => {
+      const gem = options?.itemDefs?.[gemId];
+      return gem ? `${escapeHtml(gem.name)} (${escapeHtml(getItemEffectText(gem, options?.skills))})` : escapeHtml(gemId);
+    });
+    const empty = def.sockets - (def.gems?.length ?? 0);
+    if (empty > 0) gems.push(`<span style="color:#888">${empty} empty</span>`);
+    statLines.push(`<div><span class="stat-label">Sockets</span><span>${gems.join('<br>')}</span></div>`);
+  }
   if (def.consumable) {
-    statLines.push(`<div><span class="stat-label">Use</span><span style="color:#f6c177">Not usable yet — coming soon!</span></div>`);
+    const consumableEffect = getConsumableEffect(def);
+    const useText = consumableEffect ? getConsumableEffectText(consumableEffect) : 'No effect';
+    statLines.push(`<div><span class="stat-label">Use</span><span style="color:#f6c177">${escapeHtml(useText)}</span></div>`);
   }
   statLines.push(`<div><span class="stat-label">Rarity</span><span style="color:${color}">${def.rarity.charAt(0).toUpperCase() + def.rarity.slice(1)}</span></div>`);
   if (def.value != null && def.value > 0) {
@@ -56,8 +77,9 @@ export function renderItemPopupContent(def: ItemDefinition, options?: ItemPopupO
   }
   // Set info section — list every applicable set the item belongs to.
   const setDefs = options?.setDefs ?? {};
-  const ownedItemIds = options?.ownedItemIds;
-  const equippedItemIds = options?.equippedItemIds;
+  // Sets list content item ids; owned instances count as their base item.
+  const ownedItemIds = options?.ownedItemIds && toBaseItemIds(options.ownedItemIds);
+  const equippedItemIds = options?.equippedItemIds && toBaseItemIds(options.equippedItemIds);
   const itemDefs = options?.itemDefs ?? {};
   const className = options?.className;
 
@@ -112,10 +134,14 @@ export function renderItemPopupContent(def: ItemDefinition, options?: ItemPopupO
 
   const actionsHtml = options?.actionsHtml ?? '';
   const extraHtml = options?.extraHtml ?? '';
+  const comparison = options?.compareWith
+    ? compareEquipItem(options.compareWith.equipment, def.id, itemDefs, setDefs, className, options.compareWith.level)
+    : null;
+  const compareHtml = comparison ? renderItemComparison(comparison, itemDefs, options?.skills) : '';
 
   const artworkInner = def.iconEmoji
     ? `<span class="item-popup-emoji">${escapeHtml(def.iconEmoji)}</span>`
-    : `<img src="/item-artwork/${def.id}.png" style="opacity:0" onerror="this.style.display='none'" onload="this.style.opacity='1';this.nextElementSibling.style.display='none'" alt="">
+    : `<img src="/item-artwork/${getBaseItemId(def.id)}.png" style="opacity:0" onerror="this.style.display='none'" onload="this.style.opacity='1';this.nextElementSibling.style.display='none'" alt="">
       <span class="item-popup-initials">${initials}</span>`;
 
   return `
@@ -125,11 +151,53 @@ export function renderItemPopupContent(def: ItemDefinition, options?: ItemPopupO
     <div class="item-popup-name" style="color:${color}">${escapeHtml(def.name)}</div>
     <div class="item-popup-stats">${statLines.join('')}</div>
     ${setHtmlBlocks}
+    ${compareHtml}
     ${extraHtml}
     ${actionsHtml ? `<div class="item-popup-actions">${actionsHtml}</div>` : ''}
   `;
 }
 
+/** Comparison block: what comes off, then every effective stat, set tier and skill that changes. */
+export function renderItemComparison(
+  comparison: ItemComparison,
+  itemDefs: Record<string, ItemDefinition>,
+  skills?: Record<string, SkillDefinition>,
+): string {
+  const displaced = comparison.displacedItemIds.map(id => {
+    const def = itemDefs[id];
+    const color = def ? (RARITY_COLORS[def.rarity] ?? '#e8e8e8') : '#e8e8e8';
+    return `<span style="color:${color}">${escapeHtml(def?.name ?? id)}</span>`;
+  });
+  const header = displaced.length > 0
+    ? `<span class="compare-block-label">Replaces equipped</span><span class="compare-block-old-name">${displaced.join(', ')}</span>`
+    : '<span class="compare-block-label">Fills an empty slot</span>';
+
+  const rows = comparison.statDeltas.map(delta => {
+    const direction = getStatDeltaDirection(delta);
+    const cls = direction > 0 ? 'compare-up' : direction < 0 ? 'compare-down' : 'compare-eq';
+    return `<div class="compare-delta-row"><span class="compare-cell-label">${escapeHtml(delta.label)}</span><span class="${cls}">${formatStatDelta(delta)}</span></div>`;
+  });
+  for (const change of comparison.setChanges) {
+    const gained = change.to !== null && (change.from === null || change.to > change.from);
+    const tier = (pieces: number | null) => (pieces === null ? 'none' : `${pieces}pc`);
+    rows.push(`<div class="compare-delta-row"><span class="compare-cell-label">${escapeHtml(change.name)}</span><span class="${gained ? 'compare-up' : 'compare-down'}">${tier(change.from)} → ${tier(change.to)}</span></div>`);
+  }
+  const skillName = (id: string) => escapeHtml(skills?.[id]?.name ?? id);
+  for (const id of comparison.skillsGained) {
+    rows.push(`<div class="compare-delta-row"><span class="compare-cell-label">Skill</span><span class="compare-up">+ ${skillName(id)}</span></div>`);
+  }
+  for (const id of comparison.skillsLost) {
+    rows.push(`<div class="compare-delta-row"><span class="compare-cell-label">Skill</span><span class="compare-down">− ${skillName(id)}</span></div>`);
+  }
+
+  return `
+    <div class="item-popup-compare">
+      <div class="compare-block-header">${header}</div>
+      <div class="compare-grid">${rows.join('') || '<div class="compare-dash" style="text-align:center">No stat change</div>'}</div>
+    </div>
+  `;
+}
+
 /**
  * Show an item popup modal overlay. Returns the overlay element.
  * Caller is responsible for wiring action button click handlers.
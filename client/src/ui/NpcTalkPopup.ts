@@ -1,5 +1,6 @@
 import type { GameClient } from '../network/GameClient';
 import type {
+  ClientNpcRecipeOffer,
   NpcDefinition,
   ServerStateMessage,
   QuestDefinition,
@@ -152,6 +153,15 @@ export class NpcTalkPopup {
          </div>`
       : '';
 
+    const recipeOffers = state?.npcRecipeOffers ?? [];
+    const gold = state?.character?.gold ?? 0;
+    const recipesHtml = recipeOffers.length > 0
+      ? `<div class="npc-quest-section">
+           <div class="npc-quest-section-title">Recipes</div>
+           ${recipeOffers.map(o => this.renderRecipeOffer(o, gold)).join('')}
+         </div>`
+      : '';
+
     const noQuestsHtml = (offered.length > 0 && readyQuests.length + inProgressQuests.length + availableQuests.length === 0)
       ? `<div class="npc-quest-section-empty">Nothing for you right now.</div>`
       : '';
@@ -168,6 +178,7 @@ export class NpcTalkPopup {
         ${inProgressHtml}
         ${availableHtml}
         ${noQuestsHtml}
+        ${recipesHtml}
         <div class="npc-talk-actions">
           <button class="npc-talk-btn npc-talk-close">Close</button>
         </div>
@@ -189,6 +200,9 @@ export class NpcTalkPopup {
         this.gameClient.sendTurnInQuest(qid);
       });
     }
+    for (const btn of this.overlay.querySelectorAll<HTMLButtonElement>('[data-recipe-learn]')) {
+      btn.addEventListener('click', () => this.gameClient.sendLearnRecipe(btn.dataset.recipeLearn!));
+    }
     for (const btn of this.overlay.querySelectorAll<HTMLButtonElement>('[data-dismiss-completion]')) {
       btn.addEventListener('click', () => {
         const qid = btn.dataset.dismissCompletion!;
@@ -217,6 +231,22 @@ export class NpcTalkPopup {
     `;
   }
 
+  private renderRecipeOffer(offer: ClientNpcRecipeOffer, gold: number): string {
+    const affordable = gold >= offer.price;
+    const action = offer.blockedReason
+      ? `<span class="npc-recipe-blocked">${this.escape(offer.blockedReason)}</span>`
+      : `<button class="npc-talk-btn" data-recipe-learn="${this.escape(offer.recipeId)}" ${affordable ? '' : 'disabled'}>Learn</button>`;
+    return `
+      <div class="npc-quest-card">
+        <div class="npc-quest-card-header">
+          <span class="npc-quest-card-name">${this.escape(offer.name)}</span>
+          <span class="npc-quest-card-rewards">${offer.price} Gold</span>
+        </div>
+        <div class="npc-quest-card-actions">${action}</div>
+      </div>
+    `;
+  }
+
   private renderInProgress(def: QuestDefinition, progress: QuestProgressEntry): string {
     return `
       <div class="npc-quest-card">
@@ -262,6 +292,7 @@ export class NpcTalkPopup {
   private rewardText(reward: QuestReward): string {
     if (reward.kind === 'xp') return `${reward.amount} XP`;
     if (reward.kind === 'gold') return `${reward.amount} Gold`;
+    if (reward.kind === 'recipe') return `Recipe: ${this.escape(this.lastResolutions?.recipes[reward.recipeId] ?? reward.recipeId)}`;
     return `${reward.quantity}× ${this.escape(this.resolveItem(reward.itemId))}`;
   }
 
@@ -1,6 +1,6 @@
 import type { TileClickInfo } from './ThreeWorldMap';
-import type { NpcDefinition, DungeonDefinition } from '@idle-party-rpg/shared';
-import { classIconHtml } from '@idle-party-rpg/shared';
+import type { NpcDefinition, DungeonDefinition, ClientHarvestNode, ItemDefinition } from '@idle-party-rpg/shared';
+import { classIconHtml, HARVEST_NODE_KIND_EMOJI, HARVEST_NODE_KIND_LABELS } from '@idle-party-rpg/shared';
 import { renderAssetImg } from './assets';
 import { bringToFront, release, wireFocusOnInteract } from './ModalStack';
 
@@ -32,6 +32,10 @@ export class RoomView {
   dungeon: DungeonDefinition | null = null;
   /** Map transitions on the player's current tile. Set externally before showing. */
   transitions: { tileId: string; name: string }[] = [];
+  /** Harvest nodes on the player's current tile. Set externally before showing. */
+  harvestNodes: ClientHarvestNode[] = [];
+  /** Definitions for the harvest nodes' yields. Set externally before showing. */
+  itemDefinitions: Record<string, ItemDefinition> = {};
   /** Last shown remote-room key — used to drive the arrival transition. */
   private lastRemoteKey: string | null = null;
 
@@ -156,6 +160,7 @@ export class RoomView {
           ${partySection}
           ${otherSection}
         </div>
+        ${this.renderHarvestNodes()}
         <div class="room-view-actions">
           ${transitionButtons}
           ${dungeonButton}
@@ -301,6 +306,45 @@ export class RoomView {
     return { mine, mineDungeonName, others };
   }
 
+  /**
+   * The current room's harvest nodes: what each yields and whether the
+   * player's party will gather from it after its next won battle here.
+   */
+  private renderHarvestNodes(): string {
+    if (this.harvestNodes.length === 0) return '';
+    const now = Date.now();
+    const rows = this.harvestNodes.map(node => {
+      const yields = node.itemIds.map(id => this.itemDefinitions[id]?.name ?? id).join(', ');
+      let status: string;
+      let statusClass = '';
+      if (node.blockedReason) {
+        status = node.blockedReason;
+        statusClass = ' room-harvest-status-blocked';
+      } else if (node.readyAt !== null && node.readyAt > now) {
+        status = `Respawns in ${formatRespawn((node.readyAt - now) / 1000)}`;
+        statusClass = ' room-harvest-status-waiting';
+      } else {
+        status = 'Ready';
+      }
+      return `
+        <div class="room-harvest-node">
+          <span class="room-harvest-icon" title="${HARVEST_NODE_KIND_LABELS[node.kind]}">${HARVEST_NODE_KIND_EMOJI[node.kind]}</span>
+          <div class="room-harvest-info">
+            <div class="room-harvest-name">${this.escapeHtml(node.name)}</div>
+            <div class="room-harvest-yields">${this.escapeHtml(yields)}</div>
+          </div>
+          <span class="room-harvest-status${statusClass}">${this.escapeHtml(status)}</span>
+        </div>
+      `;
+    }).join('');
+    return `
+      <div class="room-harvest">
+        <div class="room-party-other-label">Gathering</div>
+        ${rows}
+      </div>
+    `;
+  }
+
   /** Render a single party box with optional header label and dungeon tag. */
   private renderPartyBox(
     members: { username: string; className?: string }[],
@@ -333,3 +377,9 @@ export class RoomView {
     release(this.overlay);
   }
 }
+
+function formatRespawn(seconds: number): string {
+  if (seconds < 60) return `${Math.ceil(seconds)}s`;
+  const m = Math.ceil(seconds / 60);
+  return m < 60 ? `${m}m` : `${Math.floor(m / 60)}h ${m % 60}m`;
+}
@@ -1,7 +1,7 @@
 import type { GameClient } from '../network/GameClient';
 import type { WorldCache } from '../network/WorldCache';
 import type { ServerStateMessage } from '@idle-party-rpg/shared';
-import type { ShopDefinition, ItemDefinition, SetDefinition } from '@idle-party-rpg/shared';
+import type { ShopDefinition, ItemDefinition, SetDefinition, ClientShopState, BuybackEntry } from '@idle-party-rpg/shared';
 import { getUnequippedCount, listUnequippedEntries } from '@idle-party-rpg/shared';
 import { renderItemIcon, escapeHtml } from './ItemIcon';
 import { renderItemPopupContent } from './ItemPopup';
@@ -11,7 +11,7 @@ export class ShopPopup {
   private overlay: HTMLElement;
   private gameClient: GameClient;
   private worldCache: WorldCache;
-  private mode: 'buy' | 'sell' = 'buy';
+  private mode: 'buy' | 'sell' | 'buyback' = 'buy';
   /** View context — what's open inside the shop popup right now. */
   private view: { kind: 'grid' } | { kind: 'buy'; itemId: string; price: number; qty: number } | { kind: 'sell'; itemId: string; qty: number } = { kind: 'grid' };
   private notice: string | null = null;
@@ -84,6 +84,7 @@ export class ShopPopup {
       notice: this.notice,
       shopId: shop.id,
       shopInv: shop.inventory,
+      shopState: state.shopState,
       gold: state.character?.gold ?? 0,
       inv: state.character?.inventory ?? {},
       eq: state.character?.equipment ?? {},
@@ -94,6 +95,11 @@ export class ShopPopup {
     if (this.view.kind === 'grid') {
       this.renderGrid(state, shop);
     } else if (this.view.kind === 'buy') {
+      if (this.getStockLeft(state.shopState, this.view.itemId) <= 0) {
+        this.view = { kind: 'grid' };
+        this.renderGrid(state, shop);
+        return;
+      }
       this.renderBuyDetail(this.view.itemId, this.view.price, state.itemDefinitions ?? {}, state.setDefinitions ?? {}, state, shop);
     } else if (this.view.kind === 'sell') {
       // Recompute max from current inventory minus equipped
@@ -107,6 +113,11 @@ export class ShopPopup {
     }
   }
 
+  /** Units the shop has left of an item — Infinity for unlimited items. */
+  private getStockLeft(shopState: ClientShopState | undefined, itemId: string): number {
+    return shopState?.stock[itemId] ?? Infinity;
+  }
+
   private computeSellable(state: ServerStateMessage, itemId: string): number {
     const char = state.character;
     if (!char) return 0;
@@ -133,14 +144,24 @@ export class ShopPopup {
 
     const buyActive = this.mode === 'buy' ? ' active' : '';
     const sellActive = this.mode === 'sell' ? ' active' : '';
+    const buybackActive = this.mode === 'buyback' ? ' active' : '';
+    const buyback = state.shopState?.buyback ?? [];
 
     let itemsHtml = '';
     if (this.mode === 'buy') {
-      itemsHtml = this.renderBuyItems(shop, itemDefs, setDefs);
-    } else {
+      itemsHtml = this.renderBuyItems(shop, state.shopState, itemDefs, setDefs);
+    } else if (this.mode === 'sell') {
       itemsHtml = this.renderSellItems(char.inventory, char.equipment, itemDefs, setDefs);
+    } else {
+      itemsHtml = this.renderBuybackItems(buyback, itemDefs);
     }
 
+    const restockAt = state.shopState?.restockAt;
+    const hasLimited = Object.keys(state.shopState?.stock ?? {}).length > 0;
+    const restockHtml = this.mode === 'buy' && hasLimited && restockAt
+      ? `<div class="shop-restock">Restocks at ${new Date(restockAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>`
+      : '';
+
     const noticeHtml = this.notice ? `<div class="shop-notice">${escapeHtml(this.notice)}</div>` : '';
 
     this.overlay.innerHTML = `
@@ -153,7 +174,9 @@ export class ShopPopup {
         <div class="shop-toggle">
           <button class="shop-toggle-btn${buyActive}" data-mode="buy">Buy</button>
           <button class="shop-toggle-btn${sellActive}" data-mode="sell">Sell</button>
+          <button class="shop-toggle-btn${buybackActive}" data-mode="buyback">Buyback${buyback.length > 0 ? ` (${buyback.length})` : ''}</button>
         </div>
+        ${restockHtml}
         <div class="shop-items-grid">${itemsHtml}</div>
         <div style="margin-top:12px;text-align:center;">
           <button class="item-popup-btn item-popup-btn-secondary shop-close-btn">Close</button>
@@ -164,7 +187,7 @@ export class ShopPopup {
     // Wire toggle
     for (const btn of this.overlay.querySelectorAll('.shop-toggle-btn')) {
       btn.addEventListener('click', () => {
-        this.mode = (btn as HTMLElement).dataset.mode as 'buy' | 'sell';
+        this.mode = (btn as HTMLElement).dataset.mode as 'buy' | 'sell' | 'buyback';
         this.view = { kind: 'grid' };
         this.renderGrid(state, shop);
       });
@@ -175,7 +198,22 @@ export class ShopPopup {
       el.addEventListener('click', () => {
         const itemId = (el as HTMLElement).dataset.itemId;
         if (!itemId) return;
+        if (this.mode === 'buyback') {
+          const entry = buyback[parseInt((el as HTMLElement).dataset.index ?? '-1', 10)];
+          if (!entry) return;
+          const cost = entry.unitPrice * entry.quantity;
+          if (cost > char.gold) {
+            this.setNotice('Not enough gold to buy that back.');
+            this.renderCurrentView(state);
+            return;
+          }
+          this.gameClient.sendShopBuyback(buyback.indexOf(entry));
+          const name = itemDefs[entry.itemId]?.name ?? entry.itemId;
+          this.setNotice(`You bought back ${entry.quantity === 1 ? name : `${entry.quantity} ${name}`} for ${cost} gold.`);
+          return;
+        }
         if (this.mode === 'buy') {
+          if (this.getStockLeft(state.shopState, itemId) <= 0) return;
           const price = parseInt((el as HTMLElement).dataset.price ?? '0', 10);
           this.view = { kind: 'buy', itemId, price, qty: 1 };
           this.renderBuyDetail(itemId, price, itemDefs, setDefs, state, shop);
@@ -190,21 +228,57 @@ export class ShopPopup {
     this.overlay.querySelector('.shop-close-btn')?.addEventListener('click', () => this.hide());
   }
 
-  private renderBuyItems(shop: ShopDefinition, itemDefs: Record<string, ItemDefinition>, _setDefs: Record<string, SetDefinition>): string {
+  private renderBuyItems(
+    shop: ShopDefinition,
+    shopState: ClientShopState | undefined,
+    itemDefs: Record<string, ItemDefinition>,
+    _setDefs: Record<string, SetDefinition>,
+  ): string {
     return shop.inventory.map(si => {
+      const price = shopState?.prices[si.itemId] ?? si.price;
+      const left = this.getStockLeft(shopState, si.itemId);
+      const soldOut = left <= 0;
+      // Limited items show what's left on the shelf; sold-out ones are greyed and unclickable
+      const stockHtml = soldOut
+        ? '<span class="shop-item-stock">Sold out</span>'
+        : Number.isFinite(left) ? `<span class="shop-item-stock">${left} left</span>` : '';
+      const extraClass = soldOut ? 'shop-item-square shop-item-soldout' : 'shop-item-square';
       const def = itemDefs[si.itemId];
       if (!def) {
         const name = si.itemId;
-        return `<div class="item-square shop-item-square" data-item-id="${si.itemId}" data-price="${si.price}" style="background:#e8e8e840;" data-tooltip="${escapeHtml(name)}">
+        return `<div class="item-square ${extraClass}" data-item-id="${si.itemId}" data-price="${price}" style="background:#e8e8e840;" data-tooltip="${escapeHtml(name)}">
           <span class="item-square-initials">${name.split(' ').map(w => w[0]).join('').slice(0, 2)}</span>
-          <span class="shop-item-price">${si.price}g</span>
+          ${stockHtml}<span class="shop-item-price">${price}g</span>
         </div>`;
       }
       const html = renderItemIcon(si.itemId, def, {
+        extraClass,
+        dataAttrs: { 'item-id': si.itemId, price: String(price) },
+      });
+      return html.replace(/<\/div>$/, `${stockHtml}<span class="shop-item-price">${price}g</span></div>`);
+    }).join('');
+  }
+
+  /** Recent sales, newest first — each buys back at the price it sold for. */
+  private renderBuybackItems(buyback: BuybackEntry[], itemDefs: Record<string, ItemDefinition>): string {
+    if (buyback.length === 0) {
+      return '<div style="color:#888;text-align:center;padding:16px;">Nothing sold recently</div>';
+    }
+    return buyback.map((entry, index) => {
+      const cost = entry.unitPrice * entry.quantity;
+      const def = itemDefs[entry.itemId];
+      if (!def) {
+        return `<div class="item-square shop-item-square" data-item-id="${entry.itemId}" data-index="${index}" style="background:#e8e8e840;" data-tooltip="${escapeHtml(entry.itemId)}">
+          <span class="item-square-initials">${entry.itemId.split(' ').map(w => w[0]).join('').slice(0, 2)}</span>
+          <span class="shop-item-price">${cost}g</span>
+        </div>`;
+      }
+      const html = renderItemIcon(entry.itemId, def, {
+        qty: entry.quantity,
         extraClass: 'shop-item-square',
-        dataAttrs: { 'item-id': si.itemId, price: String(si.price) },
+        dataAttrs: { 'item-id': entry.itemId, index: String(index) },
       });
-      return html.replace(/<\/div>$/, `<span class="shop-item-price">${si.price}g</span></div>`);
+      return html.replace(/<\/div>$/, `<span class="shop-item-price">${cost}g</span></div>`);
     }).join('');
   }
 
@@ -250,7 +324,8 @@ export class ShopPopup {
     const def = itemDefs[itemId];
     if (!def) return;
 
-    const maxAffordable = Math.max(1, Math.floor((state.character?.gold ?? 0) / price));
+    const stockLeft = this.getStockLeft(state.shopState, itemId);
+    const maxAffordable = Math.max(1, Math.min(stockLeft, Math.floor((state.character?.gold ?? 0) / price)));
     if (this.view.kind !== 'buy') this.view = { kind: 'buy', itemId, price, qty: 1 };
     let qty = Math.min(this.view.qty, maxAffordable);
     this.view.qty = qty;
@@ -261,6 +336,7 @@ export class ShopPopup {
       setDefs,
       className: state.character?.className ?? null,
       skills: this.worldCache.getSkillContent().skills,
+      compareWith: state.character ? { equipment: state.character.equipment, level: state.character.level } : undefined,
     });
 
     this.overlay.innerHTML = `
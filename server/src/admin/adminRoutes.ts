@@ -7,10 +7,11 @@ import type { AccountStore } from '../auth/AccountStore.js';
 import type { InviteListStore } from '../auth/InviteListStore.js';
 import type { ContentStore } from '../game/ContentStore.js';
 import type { VersionStore } from '../game/VersionStore.js';
-import { ALL_CLASS_NAMES, SEED_TILE_TYPES, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES, migrateLegacySet, migrateLegacySkill, validateSkillDefinition, DEFAULT_MAP_ID } from '@idle-party-rpg/shared';
-import type { ClassName, SkillDefinition, SkillSlot, SkillSlotType } from '@idle-party-rpg/shared';
+import { ALL_CLASS_NAMES, SEED_TILE_TYPES, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES, migrateLegacySet, migrateLegacySkill, migrateLegacyStatusEffect, validateSkillDefinition, validateStatusEffectDefinition, validateAffixDefinition, validateSalvageTable, validateBossPhases, validateItemSockets, validateConsumableEffect, isItemInstanceId, ITEM_INSTANCE_SEPARATOR, DEFAULT_MAP_ID, validateMailDraft, validateShopDefinition, validateHarvestNodes } from '@idle-party-rpg/shared';
+import type { ClassName, SkillDefinition, SkillSlot, SkillSlotType, StatusEffectDefinition, AffixDefinition, SalvageTableDefinition } from '@idle-party-rpg/shared';
 import { adminMiddleware } from './adminMiddleware.js';
 import { DraftEditor, toRecord } from '../game/DraftEditor.js';
+import { runBattleSim } from '../game/BattleSimRunner.js';
 
 const artworkUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 512 * 1024 } });
 
@@ -155,6 +156,9 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       dungeons: content.getAllDungeons(),
       skills: content.getAllSkills(),
       skillSlotSchedules: content.getAllSkillSlotSchedules(),
+      statusEffects: content.getAllStatusEffects(),
+      affixes: content.getAllAffixes(),
+      salvageTables: content.getAllSalvageTables(),
       designNotes: content.getAllDesignNotes(),
       world: content.getWorld(),
     });
@@ -163,7 +167,7 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
   /** Add or update a world tile. Supports ?versionId= for draft editing. */
   router.put('/world/tile', async (req, res) => {
     const versionId = req.query.versionId as string | undefined;
-    const { col, row, type, zone, name, encounterTable, shopId, npcId, dungeonId, requiredItemId, transitions } = req.body;
+    const { col, row, type, zone, name, encounterTable, shopId, npcId, dungeonId, requiredItemId, stash, harvestNodes, transitions } = req.body;
     if (col == null || row == null || !type || !zone || !name) {
       res.status(400).json({ error: 'Missing required fields: col, row, type, zone, name' });
       return;
@@ -187,11 +191,19 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       }
     }
 
+    if (harvestNodes != null) {
+      const harvestError = Array.isArray(harvestNodes) ? validateHarvestNodes(harvestNodes) : 'harvestNodes must be an array.';
+      if (harvestError) {
+        res.status(400).json({ error: harvestError });
+        return;
+      }
+    }
+
     // Only include encounterTable if it has entries
     const tileEncounterTable = Array.isArray(encounterTable) && encounterTable.length > 0 ? encounterTable : undefined;
     // Which map this tile belongs to. Clients that predate multi-map omit it → default map.
     const tileMapId = (req.body.mapId as string) || DEFAULT_MAP_ID;
-    const tileInput = { mapId: tileMapId, col, row, type, zone, name, encounterTable: tileEncounterTable, shopId: shopId || undefined, npcId: npcId || undefined, dungeonId: dungeonId || undefined, requiredItemId: requiredItemId || undefined, transitions: tileTransitionsOrUndef };
+    const tileInput = { mapId: tileMapId, col, row, type, zone, name, encounterTable: tileEncounterTable, shopId: shopId || undefined, npcId: npcId || undefined, dungeonId: dungeonId || undefined, requiredItemId: requiredItemId || undefined, stash: stash ? true : undefined, harvestNodes: Array.isArray(harvestNodes) && harvestNodes.length > 0 ? harvestNodes : undefined, transitions: tileTransitionsOrUndef };
 
     if (versionId) {
       const result = await draftEditor.upsertTile(versionId, tileInput);
@@ -319,6 +331,11 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       res.status(400).json({ error: 'Missing required fields: id, name, level, hp, damage, damageType, xp, goldMin, goldMax' });
       return;
     }
+    const phaseErrors = validateBossPhases(monster.phases);
+    if (phaseErrors.length > 0) {
+      res.status(400).json({ error: phaseErrors.join(' ') });
+      return;
+    }
 
     if (versionId) {
       const result = await draftEditor.upsertMonster(versionId, monster);
@@ -435,6 +452,20 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       res.status(400).json({ error: 'Missing required fields: id, name, rarity' });
       return;
     }
+    if (isItemInstanceId(item.id)) {
+      res.status(400).json({ error: `Item id cannot contain "${ITEM_INSTANCE_SEPARATOR}" — it separates item instance ids.` });
+      return;
+    }
+    const socketErrors = validateItemSockets(item);
+    if (socketErrors.length > 0) {
+      res.status(400).json({ error: socketErrors.join(' ') });
+      return;
+    }
+    const consumableErrors = validateConsumableEffect(item);
+    if (consumableErrors.length > 0) {
+      res.status(400).json({ error: consumableErrors.join(' ') });
+      return;
+    }
     const grantedSkillIds: string[] = Array.isArray(item.grantedSkillIds) ? item.grantedSkillIds : [];
 
     if (versionId) {
@@ -636,6 +667,11 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       res.status(400).json({ error: 'Missing required fields: id, name, inventory' });
       return;
     }
+    const shopError = validateShopDefinition(shop);
+    if (shopError) {
+      res.status(400).json({ error: shopError });
+      return;
+    }
 
     if (versionId) {
       const result = await draftEditor.upsertShop(versionId, shop);
@@ -689,6 +725,10 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       res.status(400).json({ error: 'durationSeconds must be > 0' });
       return;
     }
+    if (recipe.requiredCraftLevel !== undefined && (!Number.isInteger(recipe.requiredCraftLevel) || recipe.requiredCraftLevel < 1)) {
+      res.status(400).json({ error: 'requiredCraftLevel must be a whole number >= 1' });
+      return;
+    }
     if (recipe.ingredients.length === 0) {
       res.status(400).json({ error: 'At least one ingredient is required' });
       return;
@@ -751,6 +791,18 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       res.status(400).json({ error: 'Missing required fields: id, name, emoji, greeting' });
       return;
     }
+    if (npc.recipesForSale !== undefined) {
+      if (!Array.isArray(npc.recipesForSale)) {
+        res.status(400).json({ error: 'recipesForSale must be an array' });
+        return;
+      }
+      for (const offer of npc.recipesForSale) {
+        if (!offer.recipeId || !Number.isInteger(offer.price) || offer.price < 0) {
+          res.status(400).json({ error: 'Each recipe for sale requires: recipeId, price (whole number >= 0)' });
+          return;
+        }
+      }
+    }
 
     if (versionId) {
       const result = await draftEditor.upsertNpc(versionId, npc);
@@ -858,6 +910,10 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
         res.status(400).json({ error: 'Each floor needs floorNumber, gridShape (cols/rows >= 1), and encounterTable.' });
         return;
       }
+      if (floor.bossPosition != null && !(Number.isInteger(floor.bossPosition) && floor.bossPosition >= 0 && floor.bossPosition <= 8)) {
+        res.status(400).json({ error: 'Floor bossPosition must be a grid position from 0 to 8.' });
+        return;
+      }
     }
 
     if (versionId) {
@@ -987,6 +1043,26 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
     }
   });
 
+  // ── Battle simulator ─────────────────────────────────────────
+
+  /** Run a hypothetical party against an encounter many times. Supports ?versionId= to simulate a draft. */
+  router.post('/battle-sim', async (req, res) => {
+    const versionId = req.query.versionId as string | undefined;
+    const { party, encounterId, iterations, seed } = req.body;
+    if (!encounterId || typeof encounterId !== 'string' || typeof iterations !== 'number') {
+      res.status(400).json({ error: 'Missing required fields: party, encounterId, iterations' });
+      return;
+    }
+    if (seed !== undefined && typeof seed !== 'number') {
+      res.status(400).json({ error: 'seed must be a number' });
+      return;
+    }
+
+    const result = await runBattleSim({ party, encounterId, iterations, seed, versionId }, getContentStore(), getVersionStore());
+    if (!result.success) { res.status(result.status).json({ error: result.error }); return; }
+    res.json({ success: true, report: result.report });
+  });
+
   // ── Tile Type endpoints ──────────────────────────────────────
 
   router.get('/tile-types', (_req, res) => {
@@ -1089,7 +1165,12 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       return;
     }
     const skill = migrateLegacySkill(raw);
-    const errors = validateSkillDefinition(skill);
+    // Live edits check talent prerequisites here; the draft editor checks them against the draft
+    const live = getContentStore();
+    const errors = validateSkillDefinition(skill, versionId ? undefined : {
+      skills: live.getAllSkills(),
+      slotSchedules: live.getAllSkillSlotSchedules(),
+    });
     if (errors.length > 0) {
       res.status(400).json({ error: errors.join(' ') });
       return;
@@ -1107,7 +1188,7 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
     }
   });
 
-  /** Delete a skill. Blocked while any item or set breakpoint grants it. Supports ?versionId=. */
+  /** Delete a skill. Blocked while any item or set breakpoint grants it or a talent requires it. Supports ?versionId=. */
   router.delete('/skills/:id', async (req, res) => {
     const skillId = req.params.id;
     const versionId = req.query.versionId as string | undefined;
@@ -1190,6 +1271,166 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
     }
   });
 
+  // ── Status effect endpoints ─────────────────────────────
+
+  /** List all status effects. */
+  router.get('/status-effects', (_req, res) => {
+    const content = getContentStore();
+    res.json({ statusEffects: content.getAllStatusEffects() });
+  });
+
+  /** Add or update a status effect. Supports ?versionId= for draft editing. */
+  router.put('/status-effects/:id', async (req, res) => {
+    const versionId = req.query.versionId as string | undefined;
+    const raw = req.body as StatusEffectDefinition;
+    if (!raw || typeof raw !== 'object' || !raw.id) {
+      res.status(400).json({ error: 'Missing required field: id' });
+      return;
+    }
+    const effect = migrateLegacyStatusEffect(raw);
+    const errors = validateStatusEffectDefinition(effect);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join(' ') });
+      return;
+    }
+
+    if (versionId) {
+      const result = await draftEditor.upsertStatusEffect(versionId, effect);
+      if (!result.success) { res.status(result.status).json({ error: result.error }); return; }
+      res.json({ success: true, statusEffects: toRecord(result.entries) });
+    } else {
+      const content = getContentStore();
+      await content.addOrUpdateStatusEffect(effect);
+      res.json({ success: true, statusEffects: content.getAllStatusEffects() });
+    }
+  });
+
+  /** Delete a status effect. Blocked for built-ins and while any skill or monster applies it. Supports ?versionId=. */
+  router.delete('/status-effects/:id', async (req, res) => {
+    const effectId = req.params.id;
+    const versionId = req.query.versionId as string | undefined;
+
+    if (versionId) {
+      const result = await draftEditor.deleteStatusEffect(versionId, effectId);
+      if (!result.success) { res.status(result.status).json({ error: result.error }); return; }
+      res.json({ success: true, statusEffects: toRecord(result.entries) });
+    } else {
+      const content = getContentStore();
+      const result = await content.deleteStatusEffect(effectId);
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+      res.json({ success: true, statusEffects: content.getAllStatusEffects() });
+    }
+  });
+
+  // ── Affix endpoints ─────────────────────────────────────
+
+  /** List all affixes. */
+  router.get('/affixes', (_req, res) => {
+    const content = getContentStore();
+    res.json({ affixes: content.getAllAffixes() });
+  });
+
+  /** Add or update an affix. Supports ?versionId= for draft editing. */
+  router.put('/affixes/:id', async (req, res) => {
+    const versionId = req.query.versionId as string | undefined;
+    const affix = req.body as AffixDefinition;
+    if (!affix || typeof affix !== 'object' || !affix.id) {
+      res.status(400).json({ error: 'Missing required field: id' });
+      return;
+    }
+    const errors = validateAffixDefinition(affix);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join(' ') });
+      return;
+    }
+
+    if (versionId) {
+      const result = await draftEditor.upsertAffix(versionId, affix);
+      if (!result.success) { res.status(result.status).json({ error: result.error }); return; }
+      res.json({ success: true, affixes: toRecord(result.entries) });
+    } else {
+      const content = getContentStore();
+      await content.addOrUpdateAffix(affix);
+      res.json({ success: true, affixes: content.getAllAffixes() });
+    }
+  });
+
+  /** Delete an affix. Items that already rolled it keep their value. Supports ?versionId=. */
+  router.delete('/affixes/:id', async (req, res) => {
+    const affixId = req.params.id;
+    const versionId = req.query.versionId as string | undefined;
+
+    if (versionId) {
+      const result = await draftEditor.deleteAffix(versionId, affixId);
+      if (!result.success) { res.status(result.status).json({ error: result.error }); return; }
+      res.json({ success: true, affixes: toRecord(result.entries) });
+    } else {
+      const content = getContentStore();
+      const result = await content.deleteAffix(affixId);
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+      res.json({ success: true, affixes: content.getAllAffixes() });
+    }
+  });
+
+  // ── Salvage table endpoints ─────────────────────────────
+
+  /** List all salvage tables, keyed by item rarity. */
+  router.get('/salvage-tables', (_req, res) => {
+    const content = getContentStore();
+    res.json({ salvageTables: content.getAllSalvageTables() });
+  });
+
+  /** Add or update a rarity's salvage table. Supports ?versionId= for draft editing. */
+  router.put('/salvage-tables/:id', async (req, res) => {
+    const versionId = req.query.versionId as string | undefined;
+    const table = req.body as SalvageTableDefinition;
+    if (!table || typeof table !== 'object' || !table.id) {
+      res.status(400).json({ error: 'Missing required field: id' });
+      return;
+    }
+
+    if (versionId) {
+      const result = await draftEditor.upsertSalvageTable(versionId, table);
+      if (!result.success) { res.status(result.status).json({ error: result.error }); return; }
+      res.json({ success: true, salvageTables: toRecord(result.entries) });
+    } else {
+      const content = getContentStore();
+      const errors = validateSalvageTable(table, new Set(Object.keys(content.getAllItems())));
+      if (errors.length > 0) {
+        res.status(400).json({ error: errors.join(' ') });
+        return;
+      }
+      await content.addOrUpdateSalvageTable(table);
+      res.json({ success: true, salvageTables: content.getAllSalvageTables() });
+    }
+  });
+
+  /** Delete a salvage table — that rarity can no longer be salvaged. Supports ?versionId=. */
+  router.delete('/salvage-tables/:id', async (req, res) => {
+    const tableId = req.params.id;
+    const versionId = req.query.versionId as string | undefined;
+
+    if (versionId) {
+      const result = await draftEditor.deleteSalvageTable(versionId, tableId);
+      if (!result.success) { res.status(result.status).json({ error: result.error }); return; }
+      res.json({ success: true, salvageTables: toRecord(result.entries) });
+    } else {
+      const content = getContentStore();
+      const result = await content.deleteSalvageTable(tableId);
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+      res.json({ success: true, salvageTables: content.getAllSalvageTables() });
+    }
+  });
+
   // ── Version endpoints ──────────────────────────────────────
 
   /** List all versions. */
@@ -1257,6 +1498,15 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
     const skillsRecord: Record<string, SkillDefinition> = snapshot.skills !== undefined
       ? toRecord(snapshot.skills)
       : getContentStore().getAllSkills();
+    const statusEffectsRecord: Record<string, StatusEffectDefinition> = snapshot.statusEffects !== undefined
+      ? toRecord(snapshot.statusEffects)
+      : getContentStore().getAllStatusEffects();
+    const affixesRecord: Record<string, AffixDefinition> = snapshot.affixes !== undefined
+      ? toRecord(snapshot.affixes)
+      : getContentStore().getAllAffixes();
+    const salvageTablesRecord: Record<string, SalvageTableDefinition> = snapshot.salvageTables !== undefined
+      ? toRecord(snapshot.salvageTables)
+      : getContentStore().getAllSalvageTables();
     const designNotesRecord = snapshot.designNotes !== undefined
       ? toRecord(snapshot.designNotes)
       : getContentStore().getAllDesignNotes();
@@ -1268,7 +1518,7 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
       const liveSchedules = getContentStore().getAllSkillSlotSchedules();
       for (const [cn, sl] of Object.entries(liveSchedules)) skillSlotSchedulesRecord[cn] = sl;
     }
-    res.json({ monsters: monstersRecord, items: itemsRecord, zones: zonesRecord, encounters: encountersRecord, sets: setsRecord, shops: shopsRecord, tileTypes: tileTypesRecord, recipes: recipesRecord, npcs: npcsRecord, quests: questsRecord, dungeons: dungeonsRecord, skills: skillsRecord, skillSlotSchedules: skillSlotSchedulesRecord, designNotes: designNotesRecord, world: snapshot.world });
+    res.json({ monsters: monstersRecord, items: itemsRecord, zones: zonesRecord, encounters: encountersRecord, sets: setsRecord, shops: shopsRecord, tileTypes: tileTypesRecord, recipes: recipesRecord, npcs: npcsRecord, quests: questsRecord, dungeons: dungeonsRecord, skills: skillsRecord, skillSlotSchedules: skillSlotSchedulesRecord, statusEffects: statusEffectsRecord, affixes: affixesRecord, salvageTables: salvageTablesRecord, designNotes: designNotesRecord, world: snapshot.world });
   });
 
   /** Rename a draft version. */
@@ -1352,6 +1602,40 @@ export function createAdminRoutes({ playerManager: getPlayerManager, accountStor
     res.json({ success: true, className, level: session.getLevel() });
   });
 
+  /** Grant items and/or gold to a player as system mail (admin). */
+  router.post('/players/:username/mail', (req, res) => {
+    const { username } = req.params;
+    const { subject, body, attachments, gold } = req.body as {
+      subject?: string; body?: string; attachments?: { itemId: string; quantity: number }[]; gold?: number;
+    };
+
+    if (typeof subject !== 'string' || (attachments !== undefined && !Array.isArray(attachments))) {
+      res.status(400).json({ error: 'subject is required; attachments must be an array' });
+      return;
+    }
+    const draft = { subject: subject.trim(), body, attachments: (attachments ?? []).map(a => ({ itemId: a.itemId, quantity: a.quantity })), gold };
+    const error = validateMailDraft(draft);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const unknown = draft.attachments.find(a => !getContentStore().getItem(a.itemId));
+    if (unknown) {
+      res.status(400).json({ error: `Unknown item "${unknown.itemId}"` });
+      return;
+    }
+
+    const pm = getPlayerManager();
+    if (!pm.getSessionByUsername(username)) {
+      res.status(404).json({ error: `Player "${username}" not found` });
+      return;
+    }
+
+    const entry = pm.sendSystemMail(username, draft);
+    console.log(`[Admin] Mailed "${username}": ${draft.subject}`);
+    res.json({ success: true, mailId: entry.id });
+  });
+
   /** Deploy a published version to the live game. */
   router.post('/versions/:id/deploy', async (req, res) => {
     const result = await deployVersion(req.params.id);
@@ -23,6 +23,22 @@ const sharedComponents = {
         damageReductionMax: { type: 'number' },
         magicReductionMin: { type: 'number' },
         magicReductionMax: { type: 'number' },
+        stunResistance: { type: 'number', description: 'Percent chance (0-100) to resist each stun' },
+        dotResistance: { type: 'number', description: 'Percent (0-100) taken off DoT ticks' },
+        debuffResistance: { type: 'number', description: 'Percent chance (0-100) to resist each debuff status' },
+        resistances: {
+          type: 'array',
+          description: 'Per-type resistances: percent first, then flat (negative = vulnerability)',
+          items: {
+            type: 'object',
+            properties: {
+              damageType: { type: 'string', enum: ['physical', 'arcane', 'holy', 'fire', 'frost', 'poison', 'shadow', 'nature'] },
+              flatReduction: { type: 'number' },
+              percentReduction: { type: 'number' },
+            },
+          },
+        },
+        damageType: { type: 'string', enum: ['physical', 'arcane', 'holy', 'fire', 'frost', 'poison', 'shadow', 'nature'], description: 'Weapons only: overrides the wearer\'s attack damage type' },
         value: { type: 'number' },
       },
     },
@@ -35,7 +51,7 @@ const sharedComponents = {
         level: { type: 'number' },
         hp: { type: 'number' },
         damage: { type: 'number' },
-        damageType: { type: 'string', enum: ['physical', 'magical', 'holy'] },
+        damageType: { type: 'string', enum: ['physical', 'arcane', 'holy', 'fire', 'frost', 'poison', 'shadow', 'nature'], description: 'Legacy \'magical\' is accepted and stored as \'arcane\'' },
         xp: { type: 'number' },
         goldMin: { type: 'number' },
         goldMax: { type: 'number' },
@@ -49,6 +65,48 @@ const sharedComponents = {
             },
           },
         },
+        stunResistance: { type: 'number', description: 'Percent chance (0-100) to resist each stun; 100 = immune' },
+        dotResistance: { type: 'number', description: 'Percent (0-100) taken off DoT ticks' },
+        debuffResistance: { type: 'number', description: 'Percent chance (0-100) to resist each debuff status' },
+        resistances: {
+          type: 'array',
+          description: 'Per-type resistances: percent first, then flat (negative = vulnerability)',
+          items: {
+            type: 'object',
+            properties: {
+              damageType: { type: 'string', enum: ['physical', 'arcane', 'holy', 'fire', 'frost', 'poison', 'shadow', 'nature'] },
+              flatReduction: { type: 'number' },
+              percentReduction: { type: 'number' },
+            },
+          },
+        },
+        phases: {
+          type: 'array',
+          description: 'Boss phases, highest hpThreshold first; each begins once HP falls to its threshold percent',
+          items: {
+            type: 'object',
+            required: ['hpThreshold'],
+            properties: {
+              hpThreshold: { type: 'number', description: 'HP percent (1-100)' },
+              name: { type: 'string', example: 'Shatter' },
+              skills: { type: 'array', description: 'Replaces the skill set for this phase', items: { type: 'object' } },
+              summons: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    monsterId: { type: 'string' },
+                    count: { type: 'number' },
+                  },
+                },
+              },
+              immuneTurns: { type: 'number', description: 'Own turns of damage immunity' },
+              enrageAfterRounds: { type: 'number' },
+              enrageDamageMultiplier: { type: 'number', description: 'Defaults to 1.5' },
+            },
+          },
+        },
+        tags: { type: 'array', items: { type: 'string' }, example: ['undead'], description: 'Labels scripted skill conditions (triggered_effect tag) can test' },
       },
     },
     ZoneDefinition: {
@@ -86,6 +144,74 @@ const sharedComponents = {
         passiveEffects: { type: 'array', items: { type: 'object' }, description: 'Effect options — allowed on both passive and active skills' },
         activeEffects: { type: 'array', items: { type: 'object' }, description: 'Effect options — allowed only on active skills' },
         cooldown: { type: 'number', description: 'Actives: triggers every Nth attack (>= 1)' },
+        damageType: { type: 'string', enum: ['physical', 'arcane', 'holy', 'fire', 'frost', 'poison', 'shadow', 'nature'], description: 'Actives: damage type of the skill\'s hits; absent = caster\'s attack type' },
+        talent: {
+          type: 'object',
+          description: 'Makes the skill a talent: learned with talent points from unlockLevel instead of auto-unlocked',
+          required: ['maxRank'],
+          properties: {
+            maxRank: { type: 'number', description: 'Integer 1-10; one talent point per rank' },
+            rankScaling: { type: 'number', description: 'Magnitude added per rank above 1 (0.5 = rank 3 is 2x); absent = ranks do not scale' },
+            prerequisites: { type: 'array', items: { type: 'string' }, description: 'Same-class skill ids; talents need rank 1, other skills their unlock level' },
+            exclusiveGroup: { type: 'string', description: 'Only one talent per group per class may be learned' },
+          },
+        },
+      },
+    },
+    StatusEffectDefinition: {
+      type: 'object',
+      required: ['id', 'name', 'kind', 'stacking', 'duration', 'dispellable'],
+      properties: {
+        id: { type: 'string', example: 'poison' },
+        name: { type: 'string', example: 'Poison' },
+        description: { type: 'string' },
+        kind: { type: 'string', enum: ['buff', 'debuff'] },
+        stacking: { type: 'string', enum: ['refresh', 'stack', 'independent'] },
+        maxStacks: { type: 'number', description: 'Cap on stacks (stack) or concurrent instances (independent)' },
+        duration: { type: 'number', description: "Bearer's turns; -1 = rest of combat" },
+        dispellable: { type: 'boolean', description: 'Removable by Dispel (buffs) and Cure (debuffs)' },
+        tick: { type: 'object', description: '{ kind: damage | heal, amount (per stack per turn), damageType? }' },
+        modifiers: { type: 'object', description: 'Per-stack fractions: damageDealt, damageTaken, dodgeChance; flat bonusDamage' },
+        damageTakenTypes: { type: 'array', items: { type: 'string' }, description: 'Limit damageTaken to these attacker damage types' },
+        bonusDamageType: { type: 'string', description: 'Damage type of bonusDamage (default holy)' },
+        confusion: { type: 'boolean', description: 'Monster attacks its own side on its next action' },
+        taunt: { type: 'boolean', description: "Monsters' single-target attacks must hit the bearer (players only)" },
+        expiresOnAction: { type: 'boolean', description: "Removed after the bearer's next action" },
+      },
+    },
+    AffixDefinition: {
+      type: 'object',
+      required: ['id', 'name', 'stat', 'min', 'max', 'rarities'],
+      properties: {
+        id: { type: 'string', example: 'keen' },
+        name: { type: 'string', example: 'Keen' },
+        stat: { type: 'string', enum: ['bonus_attack', 'damage_reduction', 'magic_reduction', 'crit_chance', 'bonus_damage', 'resistance', 'stun_resistance', 'dot_resistance', 'debuff_resistance'] },
+        damageType: { type: 'string', description: 'Required for bonus_damage and resistance' },
+        min: { type: 'number', description: 'Inclusive integer roll range' },
+        max: { type: 'number' },
+        rarities: { type: 'array', items: { type: 'string' }, description: 'Item rarities whose pool includes this affix' },
+        slots: { type: 'array', items: { type: 'string' }, description: 'Equip slots whose pool includes this affix (absent = all)' },
+        weight: { type: 'number', description: 'Relative draw weight (default 1)' },
+      },
+    },
+    SalvageTableDefinition: {
+      type: 'object',
+      required: ['id', 'yields'],
+      properties: {
+        id: { type: 'string', enum: ['janky', 'common', 'uncommon', 'rare', 'epic', 'legendary', 'heirloom'], description: 'The item rarity this table covers' },
+        yields: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['itemId', 'min', 'max'],
+            properties: {
+              itemId: { type: 'string', example: 'scrap_metal' },
+              min: { type: 'number', description: 'Inclusive integer quantity range per salvaged item' },
+              max: { type: 'number' },
+              chance: { type: 'number', description: 'Chance 0-1 the yield drops at all (default 1)' },
+            },
+          },
+        },
       },
     },
     SkillSlot: {
@@ -107,6 +233,31 @@ const sharedComponents = {
         type: { type: 'string', enum: ['plains', 'forest', 'mountain', 'water', 'town', 'dungeon', 'desert', 'swamp'] },
         zone: { type: 'string' },
         name: { type: 'string', example: 'Town Square' },
+        stash: { type: 'boolean', description: 'Players can reach their personal stash here (town rooms only).' },
+        harvestNodes: {
+          type: 'array',
+          description: 'Gatherable resources. A party idling here gathers from them after each won battle.',
+          items: {
+            type: 'object',
+            required: ['id', 'kind', 'name', 'respawnSeconds', 'drops'],
+            properties: {
+              id: { type: 'string', description: 'Unique within the room' },
+              kind: { type: 'string', enum: ['ore', 'herb', 'fishing'] },
+              name: { type: 'string', example: 'Crystal Seam' },
+              requiredCraftLevel: { type: 'number', description: 'Craft skill level needed to gather. Default 1.' },
+              respawnSeconds: { type: 'number', description: 'Per-player cooldown after a gather' },
+              drops: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['itemId', 'chance'],
+                  properties: { itemId: { type: 'string' }, chance: { type: 'number', description: '0-1' } },
+                },
+              },
+              xpReward: { type: 'number', description: 'Craft skill XP per gather' },
+            },
+          },
+        },
         transitions: {
           type: 'array',
           description: 'Links to rooms on other maps (e.g. manhole → sewers). A room may have several exits.',
@@ -136,7 +287,11 @@ export const adminSwaggerSpec = {
     { name: 'Items', description: 'Item definition CRUD' },
     { name: 'Monsters', description: 'Monster definition CRUD' },
     { name: 'Zones', description: 'Zone definition CRUD' },
+    { name: 'Battle Sim', description: 'Headless combat simulation for balancing' },
     { name: 'Skills', description: 'Skill definition CRUD and per-class slot schedules' },
+    { name: 'Status Effects', description: 'Buff/debuff definitions applied by skills and monster skills' },
+    { name: 'Affixes', description: 'Randomized stat lines rolled onto dropped gear' },
+    { name: 'Salvage', description: 'Per-rarity tables of materials that salvaged gear breaks down into' },
     { name: 'World', description: 'World map tile CRUD' },
     { name: 'Versions', description: 'Content versioning' },
     { name: 'Players', description: 'Player management' },
@@ -342,6 +497,48 @@ export const adminSwaggerSpec = {
       },
     },
 
+    // ── Battle Sim ──
+    '/api/admin/battle-sim': {
+      post: {
+        tags: ['Battle Sim'],
+        summary: 'Simulate a hypothetical party against an encounter',
+        description: 'Runs the combat engine to completion `iterations` times (max 10000) and reports win rate, average ticks-to-kill, and per-member damage, healing and death rate. Battle i uses seed + i, so a report replays from its seed.',
+        parameters: [{ name: 'versionId', in: 'query', required: false, schema: { type: 'string' }, description: 'Simulate against a version snapshot instead of live content' }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: {
+            type: 'object',
+            required: ['party', 'encounterId', 'iterations'],
+            properties: {
+              party: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['name', 'className', 'level', 'skillIds', 'equipmentIds', 'gridPosition'],
+                  properties: {
+                    name: { type: 'string', example: 'Tank' },
+                    className: { type: 'string', enum: ['Knight', 'Archer', 'Priest', 'Mage', 'Bard'] },
+                    level: { type: 'number', example: 10, description: 'Integer 1-100' },
+                    skillIds: { type: 'array', items: { type: 'string', nullable: true }, description: 'Equipped skill IDs by slot' },
+                    equipmentIds: { type: 'array', items: { type: 'string' }, description: 'Item IDs; each goes into its equip slot' },
+                    gridPosition: { type: 'number', description: '0-8 on the 3x3 party grid' },
+                  },
+                },
+              },
+              encounterId: { type: 'string', example: 'darkwood_wolves' },
+              iterations: { type: 'number', example: 1000 },
+              seed: { type: 'number', description: 'Optional; random when omitted' },
+            },
+          } } },
+        },
+        responses: {
+          200: { description: 'Simulation report' },
+          400: { description: 'Invalid party, unknown item/skill, or bad iteration count' },
+          404: { description: 'Encounter or version not found' },
+        },
+      },
+    },
+
     // ── Skills ──
     '/api/admin/skills': {
       get: {
@@ -416,6 +613,126 @@ export const adminSwaggerSpec = {
       },
     },
 
+    // ── Status Effects ──
+    '/api/admin/status-effects': {
+      get: {
+        tags: ['Status Effects'],
+        summary: 'List all status effects',
+        responses: { 200: { description: 'All status effect definitions keyed by ID' } },
+      },
+    },
+    '/api/admin/status-effects/{id}': {
+      put: {
+        tags: ['Status Effects'],
+        summary: 'Add or update a status effect',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'versionId', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/StatusEffectDefinition' } } },
+        },
+        responses: {
+          200: { description: 'Status effect saved, returns all status effects' },
+          400: { description: 'Validation errors (joined into a single message)' },
+        },
+      },
+      delete: {
+        tags: ['Status Effects'],
+        summary: 'Delete a status effect',
+        description: 'Fails for built-in effects the engine applies, and while any skill or monster skill applies it.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'versionId', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Status effect deleted, returns all status effects' },
+          400: { description: 'Built-in, referenced, or not found' },
+        },
+      },
+    },
+
+    // ── Affixes ──
+    '/api/admin/affixes': {
+      get: {
+        tags: ['Affixes'],
+        summary: 'List all item affixes',
+        responses: { 200: { description: 'All affix definitions keyed by ID' } },
+      },
+    },
+    '/api/admin/affixes/{id}': {
+      put: {
+        tags: ['Affixes'],
+        summary: 'Add or update an affix',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'versionId', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/AffixDefinition' } } },
+        },
+        responses: {
+          200: { description: 'Affix saved, returns all affixes' },
+          400: { description: 'Validation errors (joined into a single message)' },
+        },
+      },
+      delete: {
+        tags: ['Affixes'],
+        summary: 'Delete an affix',
+        description: 'Already-rolled items keep their affix values.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'versionId', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Affix deleted, returns all affixes' },
+          400: { description: 'Not found' },
+        },
+      },
+    },
+
+    // ── Salvage ──
+    '/api/admin/salvage-tables': {
+      get: {
+        tags: ['Salvage'],
+        summary: 'List all salvage tables',
+        responses: { 200: { description: 'All salvage tables keyed by rarity' } },
+      },
+    },
+    '/api/admin/salvage-tables/{id}': {
+      put: {
+        tags: ['Salvage'],
+        summary: "Add or update a rarity's salvage table",
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' }, description: 'Item rarity' },
+          { name: 'versionId', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/SalvageTableDefinition' } } },
+        },
+        responses: {
+          200: { description: 'Table saved, returns all salvage tables' },
+          400: { description: 'Validation errors (joined into a single message)' },
+        },
+      },
+      delete: {
+        tags: ['Salvage'],
+        summary: 'Delete a salvage table',
+        description: 'Gear of that rarity can no longer be salvaged.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'versionId', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Table deleted, returns all salvage tables' },
+          400: { description: 'Not found' },
+        },
+      },
+    },
+
     // ── World ──
     '/api/admin/world/tile': {
       put: {
@@ -620,6 +937,39 @@ export const adminSwaggerSpec = {
         },
       },
     },
+    '/api/admin/players/{username}/mail': {
+      post: {
+        tags: ['Players'],
+        summary: 'Grant items and/or gold to a player as system mail',
+        parameters: [{ name: 'username', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: {
+            type: 'object',
+            required: ['subject'],
+            properties: {
+              subject: { type: 'string', maxLength: 60 },
+              body: { type: 'string', maxLength: 500 },
+              attachments: {
+                type: 'array',
+                maxItems: 8,
+                items: {
+                  type: 'object',
+                  required: ['itemId', 'quantity'],
+                  properties: { itemId: { type: 'string' }, quantity: { type: 'integer', minimum: 1, maximum: 99 } },
+                },
+              },
+              gold: { type: 'integer', minimum: 0 },
+            },
+          } } },
+        },
+        responses: {
+          200: { description: 'Mail delivered' },
+          400: { description: 'Invalid mail' },
+          404: { description: 'Player not found' },
+        },
+      },
+    },
   },
 };
 
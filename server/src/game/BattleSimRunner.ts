@@ -0,0 +1,90 @@
+import type { BattleSimReport, EncounterDefinition, PartyGridPosition, SimContent, SimPartyMember } from '@idle-party-rpg/shared';
+import { ALL_CLASS_NAMES, MAX_SIM_LEVEL, migrateLegacySet, simulateBattleAsync } from '@idle-party-rpg/shared';
+import type { ContentStore } from './ContentStore.js';
+import type { VersionStore } from './VersionStore.js';
+import { toRecord } from './DraftEditor.js';
+
+export interface BattleSimRequest {
+  party: SimPartyMember[];
+  encounterId: string;
+  iterations: number;
+  seed?: number;
+  /** Simulate against this version's snapshot instead of live content. */
+  versionId?: string;
+}
+
+export type BattleSimResult =
+  | { success: true; report: BattleSimReport }
+  | { success: false; status: 404 | 400; error: string };
+
+/**
+ * Resolve content (live or a version snapshot) and run the headless battle simulator.
+ * Shared by the admin `/battle-sim` route and the `simulate_battle` MCP tool so both
+ * validate the hypothetical party the same way. Runs on the game server's event
+ * loop, so it uses `simulateBattleAsync`, which yields between battles.
+ */
+export async function runBattleSim(
+  request: BattleSimRequest,
+  contentStore: ContentStore,
+  versionStore: VersionStore,
+): Promise<BattleSimResult> {
+  const partyError = validateParty(request.party);
+  if (partyError) return { success: false, status: 400, error: partyError };
+
+  let content: SimContent;
+  let encounter: EncounterDefinition | undefined;
+  if (request.versionId) {
+    if (!versionStore.get(request.versionId)) return { success: false, status: 404, error: 'Version not found.' };
+    const snapshot = await versionStore.loadSnapshot(request.versionId);
+    content = {
+      monsters: toRecord(snapshot.monsters),
+      items: toRecord(snapshot.items),
+      sets: toRecord((snapshot.sets ?? []).map(s => migrateLegacySet(s))),
+      skills: toRecord(snapshot.skills ?? []),
+      statusEffects: snapshot.statusEffects !== undefined ? toRecord(snapshot.statusEffects) : contentStore.getAllStatusEffects(),
+    };
+    encounter = (snapshot.encounters ?? []).find(e => e.id === request.encounterId);
+  } else {
+    content = {
+      monsters: contentStore.getAllMonsters(),
+      items: contentStore.getAllItems(),
+      sets: contentStore.getAllSets(),
+      skills: contentStore.getAllSkills(),
+      statusEffects: contentStore.getAllStatusEffects(),
+    };
+    encounter = contentStore.getEncounter(request.encounterId);
+  }
+  if (!encounter) return { success: false, status: 404, error: `Encounter '${request.encounterId}' not found.` };
+
+  try {
+    const report = await simulateBattleAsync(request.party, encounter, content, {
+      iterations: request.iterations,
+      seed: request.seed,
+    });
+    return { success: true, report };
+  } catch (err) {
+    return { success: false, status: 400, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Shape-check an untrusted party payload (content references are checked by the simulator). */
+function validateParty(party: unknown): string | null {
+  if (!Array.isArray(party) || party.length === 0) return 'party must be a non-empty array';
+  if (party.length > 9) return 'party can have at most 9 members';
+  for (const member of party as Partial<SimPartyMember>[]) {
+    if (!member || typeof member.name !== 'string' || !member.name) return 'Every member needs a name';
+    if (!ALL_CLASS_NAMES.includes(member.className as SimPartyMember['className'])) return `Member '${member.name}' has an unknown class`;
+    if (!isLevel(member.level)) return `Member '${member.name}' needs a whole-number level from 1 to ${MAX_SIM_LEVEL}`;
+    if (!Array.isArray(member.skillIds) || !Array.isArray(member.equipmentIds)) return `Member '${member.name}' needs skillIds and equipmentIds arrays`;
+    if (!isGridPosition(member.gridPosition)) return `Member '${member.name}' needs a gridPosition from 0 to 8`;
+  }
+  return null;
+}
+
+function isLevel(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_SIM_LEVEL;
+}
+
+function isGridPosition(value: unknown): value is PartyGridPosition {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 8;
+}
@@ -9,8 +9,11 @@ import type { NpcDefinition } from '@idle-party-rpg/shared';
 import type { QuestDefinition } from '@idle-party-rpg/shared';
 import type { DungeonDefinition } from '@idle-party-rpg/shared';
 import type { SkillDefinition, SkillSlot } from '@idle-party-rpg/shared';
+import type { StatusEffectDefinition } from '@idle-party-rpg/shared';
+import type { AffixDefinition } from '@idle-party-rpg/shared';
+import type { SalvageTableDefinition } from '@idle-party-rpg/shared';
 import type { DesignNote } from '@idle-party-rpg/shared';
-import { SEED_MONSTERS, SEED_ITEMS, SEED_ZONES, SEED_ENCOUNTERS, SEED_TILE_TYPES, SEED_RECIPES, SEED_NPCS, SEED_DUNGEONS, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES, TILE_CONFIGS, migrateLegacySet, migrateLegacySkill, findSetConflicts, DEFAULT_MAP_ID, migrateWorldData } from '@idle-party-rpg/shared';
+import { SEED_MONSTERS, SEED_ITEMS, SEED_ZONES, SEED_ENCOUNTERS, SEED_TILE_TYPES, SEED_RECIPES, SEED_NPCS, SEED_DUNGEONS, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES, SEED_STATUS_EFFECTS, SEED_AFFIXES, SEED_SALVAGE_TABLES, TILE_CONFIGS, migrateLegacySet, migrateLegacySkill, migrateLegacyMonster, migrateLegacyStatusEffect, findSetConflicts, DEFAULT_MAP_ID, migrateWorldData } from '@idle-party-rpg/shared';
 import { TileType } from '@idle-party-rpg/shared';
 
 const DATA_DIR = path.resolve('data');
@@ -28,6 +31,9 @@ const QUESTS_FILE = path.join(DATA_DIR, 'quests.json');
 const DUNGEONS_FILE = path.join(DATA_DIR, 'dungeons.json');
 const SKILLS_FILE = path.join(DATA_DIR, 'skills.json');
 const SKILL_SLOTS_FILE = path.join(DATA_DIR, 'skill-slots.json');
+const STATUS_EFFECTS_FILE = path.join(DATA_DIR, 'status-effects.json');
+const AFFIXES_FILE = path.join(DATA_DIR, 'affixes.json');
+const SALVAGE_TABLES_FILE = path.join(DATA_DIR, 'salvage-tables.json');
 const DESIGN_NOTES_FILE = path.join(DATA_DIR, 'design-notes.json');
 
 /**
@@ -49,6 +55,9 @@ export class ContentStore {
   private dungeons = new Map<string, DungeonDefinition>();
   private skills = new Map<string, SkillDefinition>();
   private skillSlotSchedules = new Map<string, SkillSlot[]>();
+  private statusEffects = new Map<string, StatusEffectDefinition>();
+  private affixes = new Map<string, AffixDefinition>();
+  private salvageTables = new Map<string, SalvageTableDefinition>();
   private designNotes = new Map<string, DesignNote>();
   private world: WorldData = {
     startTile: { col: 0, row: 0 },
@@ -82,6 +91,9 @@ export class ContentStore {
     await fs.writeFile(DUNGEONS_FILE, JSON.stringify(Array.from(this.dungeons.values()), null, 2));
     await fs.writeFile(SKILLS_FILE, JSON.stringify(Array.from(this.skills.values()), null, 2));
     await fs.writeFile(SKILL_SLOTS_FILE, JSON.stringify(this.skillSlotSchedulesToArray(), null, 2));
+    await fs.writeFile(STATUS_EFFECTS_FILE, JSON.stringify(Array.from(this.statusEffects.values()), null, 2));
+    await fs.writeFile(AFFIXES_FILE, JSON.stringify(Array.from(this.affixes.values()), null, 2));
+    await fs.writeFile(SALVAGE_TABLES_FILE, JSON.stringify(Array.from(this.salvageTables.values()), null, 2));
     await fs.writeFile(DESIGN_NOTES_FILE, JSON.stringify(Array.from(this.designNotes.values()), null, 2));
   }
 
@@ -227,6 +239,33 @@ export class ContentStore {
     return result;
   }
 
+  getStatusEffect(id: string): StatusEffectDefinition | undefined {
+    return this.statusEffects.get(id);
+  }
+
+  getAllStatusEffects(): Record<string, StatusEffectDefinition> {
+    const result: Record<string, StatusEffectDefinition> = {};
+    for (const [id, def] of this.statusEffects) result[id] = def;
+    return result;
+  }
+
+  getAffix(id: string): AffixDefinition | undefined {
+    return this.affixes.get(id);
+  }
+
+  getAllAffixes(): Record<string, AffixDefinition> {
+    const result: Record<string, AffixDefinition> = {};
+    for (const [id, def] of this.affixes) result[id] = def;
+    return result;
+  }
+
+  /** Salvage tables keyed by item rarity. */
+  getAllSalvageTables(): Record<string, SalvageTableDefinition> {
+    const result: Record<string, SalvageTableDefinition> = {};
+    for (const [id, def] of this.salvageTables) result[id] = def;
+    return result;
+  }
+
   getWorld(): WorldData {
     return this.world;
   }
@@ -351,7 +390,7 @@ export class ContentStore {
   // --- Monster CRUD ---
 
   async addOrUpdateMonster(monster: MonsterDefinition): Promise<void> {
-    this.monsters.set(monster.id, monster);
+    this.monsters.set(monster.id, migrateLegacyMonster(monster));
     await this.save();
   }
 
@@ -381,6 +420,11 @@ export class ContentStore {
         return { success: false, error: `Cannot delete: item is referenced in ${monster.name}'s drop table.` };
       }
     }
+    for (const table of this.salvageTables.values()) {
+      if (table.yields.some(y => y.itemId === id)) {
+        return { success: false, error: `Cannot delete: item is a ${table.id} salvage yield.` };
+      }
+    }
     this.items.delete(id);
     await this.save();
     return { success: true };
@@ -641,6 +685,12 @@ export class ContentStore {
         return { success: false, error: `Cannot delete: skill is granted by set "${set.name}".` };
       }
     }
+    // Block delete if any talent requires this skill
+    for (const skill of this.skills.values()) {
+      if (skill.talent?.prerequisites?.includes(id)) {
+        return { success: false, error: `Cannot delete: skill is a prerequisite of "${skill.name}".` };
+      }
+    }
     this.skills.delete(id);
     await this.save();
     return { success: true };
@@ -651,10 +701,77 @@ export class ContentStore {
     await this.save();
   }
 
+  // --- Status Effect CRUD ---
+
+  async addOrUpdateStatusEffect(effect: StatusEffectDefinition): Promise<void> {
+    this.statusEffects.set(effect.id, migrateLegacyStatusEffect(effect));
+    await this.save();
+  }
+
+  async deleteStatusEffect(id: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.statusEffects.has(id)) {
+      return { success: false, error: 'Status effect not found.' };
+    }
+    // Built-ins are applied by engine skill options (Sunder, Lullaby, …) — edit, don't delete
+    if (SEED_STATUS_EFFECTS[id]) {
+      return { success: false, error: 'Cannot delete: built-in status effect used by the combat engine.' };
+    }
+    // Block delete if any skill applies this status
+    for (const skill of this.skills.values()) {
+      if (skill.activeEffects?.some(e => e.kind === 'apply_status' && e.statusEffectId === id)
+        || skill.passiveEffects?.some(e => e.kind === 'triggered_effect' && e.statusEffectId === id)) {
+        return { success: false, error: `Cannot delete: status effect is applied by skill "${skill.name}".` };
+      }
+    }
+    // Block delete if any monster skill applies this status
+    for (const monster of this.monsters.values()) {
+      if (monster.skills?.some(s => s.statusEffectId === id)) {
+        return { success: false, error: `Cannot delete: status effect is applied by monster "${monster.name}".` };
+      }
+    }
+    this.statusEffects.delete(id);
+    await this.save();
+    return { success: true };
+  }
+
+  // --- Affix CRUD ---
+
+  async addOrUpdateAffix(affix: AffixDefinition): Promise<void> {
+    this.affixes.set(affix.id, affix);
+    await this.save();
+  }
+
+  /** Rolled affixes are snapshots on the item instance, so nothing blocks deleting one from the pool. */
+  async deleteAffix(id: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.affixes.has(id)) {
+      return { success: false, error: 'Affix not found.' };
+    }
+    this.affixes.delete(id);
+    await this.save();
+    return { success: true };
+  }
+
+  // --- Salvage table CRUD ---
+
+  async addOrUpdateSalvageTable(table: SalvageTableDefinition): Promise<void> {
+    this.salvageTables.set(table.id, table);
+    await this.save();
+  }
+
+  /** Removing a rarity's table just makes that rarity unsalvageable. */
+  async deleteSalvageTable(id: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.salvageTables.has(id)) {
+      return { success: false, error: 'Salvage table not found.' };
+    }
+    this.salvageTables.delete(id);
+    await this.save();
+    return { success: true };
+  }
+
   // --- Snapshot ---
 
   /** Export current live state as a ContentSnapshot. */
-  toSnapshot(): { monsters: MonsterDefinition[]; items: ItemDefinition[]; zones: ZoneDefinition[]; encounters: EncounterDefinition[]; sets: SetDefinition[]; shops: ShopDefinition[]; tileTypes: TileTypeDefinition[]; recipes: RecipeDefinition[]; npcs: NpcDefinition[]; quests: QuestDefinition[]; dungeons: DungeonDefinition[]; skills: SkillDefinition[]; skillSlotSchedules: { className: string; slots: SkillSlot[] }[]; designNotes: DesignNote[]; world: WorldData } {
+  toSnapshot(): { monsters: MonsterDefinition[]; items: ItemDefinition[]; zones: ZoneDefinition[]; encounters: EncounterDefinition[]; sets: SetDefinition[]; shops: ShopDefinition[]; tileTypes: TileTypeDefinition[]; recipes: RecipeDefinition[]; npcs: NpcDefinition[]; quests: QuestDefinition[]; dungeons: DungeonDefinition[]; skills: SkillDefinition[]; skillSlotSchedules: { className: string; slots: SkillSlot[] }[]; statusEffects: StatusEffectDefinition[]; affixes: AffixDefinition[]; salvageTables: SalvageTableDefinition[]; designNotes: DesignNote[]; world: WorldData } {
     return {
       monsters: Array.from(this.monsters.values()),
       items: Array.from(this.items.values()),
@@ -669,15 +786,18 @@ export class ContentStore {
       dungeons: Array.from(this.dungeons.values()),
       skills: Array.from(this.skills.values()),
       skillSlotSchedules: this.skillSlotSchedulesToArray(),
+      statusEffects: Array.from(this.statusEffects.values()),
+      affixes: Array.from(this.affixes.values()),
+      salvageTables: Array.from(this.salvageTables.values()),
       designNotes: Array.from(this.designNotes.values()),
       world: JSON.parse(JSON.stringify(this.world)),
     };
   }
 
   /** Bulk-replace all content from a snapshot (used for deploy). */
-  async replaceAll(snapshot: { monsters: MonsterDefinition[]; items: ItemDefinition[]; zones: ZoneDefinition[]; encounters?: EncounterDefinition[]; sets?: SetDefinition[]; shops?: ShopDefinition[]; tileTypes?: TileTypeDefinition[]; recipes?: RecipeDefinition[]; npcs?: NpcDefinition[]; quests?: QuestDefinition[]; dungeons?: DungeonDefinition[]; skills?: SkillDefinition[]; skillSlotSchedules?: { className: string; slots: SkillSlot[] }[]; designNotes?: DesignNote[]; world: WorldData }): Promise<void> {
+  async replaceAll(snapshot: { monsters: MonsterDefinition[]; items: ItemDefinition[]; zones: ZoneDefinition[]; encounters?: EncounterDefinition[]; sets?: SetDefinition[]; shops?: ShopDefinition[]; tileTypes?: TileTypeDefinition[]; recipes?: RecipeDefinition[]; npcs?: NpcDefinition[]; quests?: QuestDefinition[]; dungeons?: DungeonDefinition[]; skills?: SkillDefinition[]; skillSlotSchedules?: { className: string; slots: SkillSlot[] }[]; statusEffects?: StatusEffectDefinition[]; affixes?: AffixDefinition[]; salvageTables?: SalvageTableDefinition[]; designNotes?: DesignNote[]; world: WorldData }): Promise<void> {
     this.monsters.clear();
-    for (const m of snapshot.monsters) this.monsters.set(m.id, m);
+    for (const m of snapshot.monsters) this.monsters.set(m.id, migrateLegacyMonster(m));
 
     this.items.clear();
     for (const i of snapshot.items) this.items.set(i.id, i);
@@ -740,6 +860,24 @@ export class ContentStore {
     }
     // Old snapshots predate skill slot schedules (key absent) — keep existing intact.
 
+    if (snapshot.statusEffects !== undefined) {
+      this.statusEffects.clear();
+      for (const e of snapshot.statusEffects) this.statusEffects.set(e.id, migrateLegacyStatusEffect(e));
+    }
+    // Old snapshots predate status effects (key absent) — keep existing intact.
+
+    if (snapshot.affixes !== undefined) {
+      this.affixes.clear();
+      for (const a of snapshot.affixes) this.affixes.set(a.id, a);
+    }
+    // Old snapshots predate affixes (key absent) — keep existing intact.
+
+    if (snapshot.salvageTables !== undefined) {
+      this.salvageTables.clear();
+      for (const t of snapshot.salvageTables) this.salvageTables.set(t.id, t);
+    }
+    // Old snapshots predate salvage (key absent) — keep existing intact.
+
     if (snapshot.designNotes) {
       this.designNotes.clear();
       for (const n of snapshot.designNotes) this.designNotes.set(n.id, n);
@@ -784,7 +922,7 @@ export class ContentStore {
       ]);
 
       const monstersArr: MonsterDefinition[] = JSON.parse(monstersRaw);
-      for (const m of monstersArr) this.monsters.set(m.id, m);
+      for (const m of monstersArr) this.monsters.set(m.id, migrateLegacyMonster(m));
 
       const itemsArr: ItemDefinition[] = JSON.parse(itemsRaw);
       for (const i of itemsArr) this.items.set(i.id, i);
@@ -898,6 +1036,45 @@ export class ContentStore {
         skillSlotsSeeded = true;
       }
 
+      let statusEffectsSeeded = false;
+      try {
+        const statusRaw = await fs.readFile(STATUS_EFFECTS_FILE, 'utf-8');
+        const statusArr: StatusEffectDefinition[] = JSON.parse(statusRaw);
+        for (const e of statusArr) this.statusEffects.set(e.id, migrateLegacyStatusEffect(e));
+      } catch {
+        // status-effects.json doesn't exist yet — seed the built-ins
+        for (const e of Object.values(SEED_STATUS_EFFECTS)) this.statusEffects.set(e.id, e);
+        statusEffectsSeeded = true;
+      }
+
+      let affixesSeeded = false;
+      try {
+        const affixRaw = await fs.readFile(AFFIXES_FILE, 'utf-8');
+        const affixArr: AffixDefinition[] = JSON.parse(affixRaw);
+        for (const a of affixArr) this.affixes.set(a.id, a);
+      } catch {
+        // affixes.json doesn't exist yet — seed the default pools
+        for (const a of Object.values(SEED_AFFIXES)) this.affixes.set(a.id, a);
+        affixesSeeded = true;
+      }
+
+      let salvageSeeded = false;
+      try {
+        const salvageRaw = await fs.readFile(SALVAGE_TABLES_FILE, 'utf-8');
+        const salvageArr: SalvageTableDefinition[] = JSON.parse(salvageRaw);
+        for (const t of salvageArr) this.salvageTables.set(t.id, t);
+      } catch {
+        // salvage-tables.json doesn't exist yet — seed the defaults, plus the seed
+        // materials they yield when this install's items predate them
+        for (const t of Object.values(SEED_SALVAGE_TABLES)) {
+          this.salvageTables.set(t.id, t);
+          for (const y of t.yields) {
+            if (!this.items.has(y.itemId) && SEED_ITEMS[y.itemId]) this.items.set(y.itemId, SEED_ITEMS[y.itemId]);
+          }
+        }
+        salvageSeeded = true;
+      }
+
       // Migrate: assign GUIDs to any tiles missing an id
       let migrated = 0;
       for (const tile of this.world.tiles) {
@@ -919,7 +1096,7 @@ export class ContentStore {
       // Migrate items: twoHanded → twohanded slot, remove dodge, classRestriction→array, add value
       const itemsMigrated = this.migrateItems();
 
-      if (migrated > 0 || worldMigrated || encountersMigrated || itemsMigrated || tileTypesSeeded || recipesSeeded || skillsSeeded || skillSlotsSeeded) {
+      if (migrated > 0 || worldMigrated || encountersMigrated || itemsMigrated || tileTypesSeeded || recipesSeeded || skillsSeeded || skillSlotsSeeded || statusEffectsSeeded || affixesSeeded || salvageSeeded) {
         await this.save();
       }
 
@@ -1093,6 +1270,21 @@ export class ContentStore {
       this.skillSlotSchedules.set(className, slots);
     }
 
+    // Status effects (engine built-ins)
+    for (const e of Object.values(SEED_STATUS_EFFECTS)) {
+      this.statusEffects.set(e.id, e);
+    }
+
+    // Item affix pools
+    for (const a of Object.values(SEED_AFFIXES)) {
+      this.affixes.set(a.id, a);
+    }
+
+    // Salvage tables
+    for (const t of Object.values(SEED_SALVAGE_TABLES)) {
+      this.salvageTables.set(t.id, t);
+    }
+
     // World — Hatchetmill (village), Darkwood (forest), Crystal Caves (dungeon)
     //
     // Layout (offset coords, flat-top hexagons):
@@ -1100,7 +1292,7 @@ export class ContentStore {
     //   Hatchetmill (center):
     //     (2,2) = Town Square (start tile, plains)
     //     (1,2) = Blacksmith (town)
-    //     (3,2) = General Store (town)
+    //     (3,2) = General Store (town, stash)
     //     (2,1) = Healer's Hut (town)
     //     (1,1) = Dirt Road (plains)
     //     (3,1) = Village Green (plains)
@@ -1110,12 +1302,12 @@ export class ContentStore {
     //     (4,2) = Woodland Edge (plains)
     //     (5,2) = Forest Path (forest)
     //     (5,1) = Thick Trees (forest)
-    //     (4,1) = Mossy Clearing (forest)
+    //     (4,1) = Mossy Clearing (forest, herb node)
     //     (4,3) = Overgrown Trail (plains)
     //
     //   Crystal Caves (south of Darkwood):
     //     (5,3) = Cave Entrance (dungeon)
-    //     (6,3) = Glittering Tunnel (dungeon)
+    //     (6,3) = Glittering Tunnel (dungeon, ore node)
     //     (6,2) = Crystal Chamber (dungeon)
 
     this.world = {
@@ -1126,7 +1318,7 @@ export class ContentStore {
         // Hatchetmill
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 2, row: 2, type: TileType.Plains, zone: 'hatchetmill', name: 'Town Square' },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 1, row: 2, type: TileType.Town, zone: 'hatchetmill', name: 'Blacksmith' },
-        { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 3, row: 2, type: TileType.Town, zone: 'hatchetmill', name: 'General Store' },
+        { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 3, row: 2, type: TileType.Town, zone: 'hatchetmill', name: 'General Store', stash: true },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 2, row: 1, type: TileType.Town, zone: 'hatchetmill', name: "Healer's Hut" },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 1, row: 1, type: TileType.Plains, zone: 'hatchetmill', name: 'Dirt Road' },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 3, row: 1, type: TileType.Plains, zone: 'hatchetmill', name: 'Village Green' },
@@ -1136,12 +1328,14 @@ export class ContentStore {
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 4, row: 2, type: TileType.Plains, zone: 'darkwood', name: 'Woodland Edge' },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 5, row: 2, type: TileType.Forest, zone: 'darkwood', name: 'Forest Path' },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 5, row: 1, type: TileType.Forest, zone: 'darkwood', name: 'Thick Trees' },
-        { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 4, row: 1, type: TileType.Forest, zone: 'darkwood', name: 'Mossy Clearing' },
+        { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 4, row: 1, type: TileType.Forest, zone: 'darkwood', name: 'Mossy Clearing',
+          harvestNodes: [{ id: 'glowcap_patch', kind: 'herb', name: 'Glowcap Patch', respawnSeconds: 300, drops: [{ itemId: 'arcane_dust', chance: 0.5 }], xpReward: 3 }] },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 4, row: 3, type: TileType.Plains, zone: 'darkwood', name: 'Overgrown Trail' },
 
         // Crystal Caves
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 5, row: 3, type: TileType.Dungeon, zone: 'crystal_caves', name: 'Cave Entrance', dungeonId: 'crystal_caves_trial' },
-        { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 6, row: 3, type: TileType.Dungeon, zone: 'crystal_caves', name: 'Glittering Tunnel' },
+        { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 6, row: 3, type: TileType.Dungeon, zone: 'crystal_caves', name: 'Glittering Tunnel',
+          harvestNodes: [{ id: 'crystal_seam', kind: 'ore', name: 'Crystal Seam', requiredCraftLevel: 2, respawnSeconds: 600, drops: [{ itemId: 'scrap_metal', chance: 0.6 }, { itemId: 'rough_quartz', chance: 0.15 }], xpReward: 5 }] },
         { id: crypto.randomUUID(), mapId: DEFAULT_MAP_ID, col: 6, row: 2, type: TileType.Dungeon, zone: 'crystal_caves', name: 'Crystal Chamber' },
       ],
     };
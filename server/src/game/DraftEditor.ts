@@ -15,17 +15,20 @@ import type {
   DungeonDefinition,
   SkillDefinition,
   SkillSlot,
+  StatusEffectDefinition,
+  AffixDefinition,
+  SalvageTableDefinition,
   DesignNote,
   WorldTileDefinition,
   WorldMapMeta,
 } from '@idle-party-rpg/shared';
-import { migrateLegacySet, migrateLegacySkill, findSetConflicts, validateSkillDefinition, SEED_TILE_TYPES, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES } from '@idle-party-rpg/shared';
+import { migrateLegacySet, migrateLegacySkill, migrateLegacyMonster, migrateLegacyStatusEffect, findSetConflicts, validateSkillDefinition, validateStatusEffectDefinition, validateAffixDefinition, validateSalvageTable, validateItemSockets, validateConsumableEffect, isItemInstanceId, ITEM_INSTANCE_SEPARATOR, SEED_TILE_TYPES, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES, SEED_STATUS_EFFECTS } from '@idle-party-rpg/shared';
 
 /** Content types editable through the generic (MCP) draft-write surface. Single source of truth — derive z.enum(...) lists from this array, don't hand-copy the literals. */
 export const DRAFT_CONTENT_TYPES = [
   'monsters', 'items', 'sets', 'shops', 'recipes', 'npcs',
   'quests', 'dungeons', 'zones', 'encounters', 'tileTypes',
-  'skills', 'designNotes',
+  'skills', 'statusEffects', 'affixes', 'salvageTables', 'designNotes',
 ] as const;
 
 export type DraftContentType = (typeof DRAFT_CONTENT_TYPES)[number];
@@ -89,7 +92,8 @@ export class DraftEditor {
 
   // --- Monster CRUD ---
 
-  private upsertMonsterCore(snapshot: ContentSnapshot, monster: MonsterDefinition): string | null {
+  private upsertMonsterCore(snapshot: ContentSnapshot, raw: MonsterDefinition): string | null {
+    const monster = migrateLegacyMonster(raw);
     const idx = snapshot.monsters.findIndex(m => m.id === monster.id);
     if (idx >= 0) snapshot.monsters[idx] = monster; else snapshot.monsters.push(monster);
     return null;
@@ -104,9 +108,9 @@ export class DraftEditor {
     return { success: true, snapshot, entries: snapshot.monsters };
   }
 
-  // No referential guard on delete — mirrors ContentStore.deleteMonster (nothing in the
-  // schema references a monster by id directly; encounters reference via monsterPool,
-  // which validate_draft flags rather than blocking deletion outright).
+  // No referential guard on delete — mirrors ContentStore.deleteMonster (encounters
+  // reference monsters via monsterPool, boss floors via bossMonsterId and boss phases via
+  // summons; validate_draft flags those rather than blocking deletion outright).
   private deleteMonsterCore(snapshot: ContentSnapshot, id: string): string | null {
     const idx = snapshot.monsters.findIndex(m => m.id === id);
     if (idx < 0) return 'Monster not found.';
@@ -127,6 +131,13 @@ export class DraftEditor {
   // --- Item CRUD ---
 
   private upsertItemCore(snapshot: ContentSnapshot, item: ItemDefinition): string | null {
+    if (isItemInstanceId(item.id)) {
+      return `Item id cannot contain "${ITEM_INSTANCE_SEPARATOR}" — it separates item instance ids.`;
+    }
+    const socketErrors = validateItemSockets(item);
+    if (socketErrors.length > 0) return socketErrors.join(' ');
+    const consumableErrors = validateConsumableEffect(item);
+    if (consumableErrors.length > 0) return consumableErrors.join(' ');
     const grantedSkillIds = item.grantedSkillIds ?? [];
     if (grantedSkillIds.length > 0) {
       // Snapshots that predate skills have no skills key — materialize live skills into
@@ -160,6 +171,9 @@ export class DraftEditor {
     if (idx < 0) return 'Item not found.';
     const referencingMonster = snapshot.monsters.find(m => m.drops?.some(d => d.itemId === id));
     if (referencingMonster) return `Cannot delete: item is referenced in ${referencingMonster.name}'s drop table.`;
+    const salvageTables = snapshot.salvageTables ?? Object.values(this.liveContent().getAllSalvageTables());
+    const referencingTable = salvageTables.find(t => t.yields.some(y => y.itemId === id));
+    if (referencingTable) return `Cannot delete: item is a ${referencingTable.id} salvage yield.`;
     snapshot.items.splice(idx, 1);
     return null;
   }
@@ -565,11 +579,11 @@ export class DraftEditor {
 
   private upsertSkillCore(snapshot: ContentSnapshot, raw: SkillDefinition): string | null {
     const skill = migrateLegacySkill(raw);
-    const errors = validateSkillDefinition(skill);
-    if (errors.length > 0) return errors.join(' ');
     if (snapshot.skills === undefined) {
       snapshot.skills = Object.values(this.liveContent().getAllSkills());
     }
+    const errors = validateSkillDefinition(skill, { skills: toRecord(snapshot.skills), slotSchedules: {} });
+    if (errors.length > 0) return errors.join(' ');
     const idx = snapshot.skills.findIndex(s => s.id === skill.id);
     if (idx >= 0) snapshot.skills[idx] = skill; else snapshot.skills.push(skill);
     return null;
@@ -595,6 +609,8 @@ export class DraftEditor {
     if (referencingItem) return `Cannot delete: skill is granted by item "${referencingItem.name}".`;
     const referencingSet = (snapshot.sets ?? []).find(s => migrateLegacySet(s).breakpoints?.some(bp => bp.bonuses.grantedSkillIds?.includes(id)));
     if (referencingSet) return `Cannot delete: skill is granted by set "${referencingSet.name}".`;
+    const dependent = snapshot.skills.find(s => s.talent?.prerequisites?.includes(id));
+    if (dependent) return `Cannot delete: skill is a prerequisite of "${dependent.name}".`;
     snapshot.skills.splice(idx, 1);
     return null;
   }
@@ -609,6 +625,143 @@ export class DraftEditor {
     return { success: true, snapshot, entries: snapshot.skills ?? [] };
   }
 
+  // --- Status Effect CRUD ---
+
+  private upsertStatusEffectCore(snapshot: ContentSnapshot, raw: StatusEffectDefinition): string | null {
+    const effect = migrateLegacyStatusEffect(raw);
+    const errors = validateStatusEffectDefinition(effect);
+    if (errors.length > 0) return errors.join(' ');
+    if (snapshot.statusEffects === undefined) {
+      snapshot.statusEffects = Object.values(this.liveContent().getAllStatusEffects());
+    }
+    const idx = snapshot.statusEffects.findIndex(s => s.id === effect.id);
+    if (idx >= 0) snapshot.statusEffects[idx] = effect; else snapshot.statusEffects.push(effect);
+    return null;
+  }
+
+  async upsertStatusEffect(versionId: string, effect: StatusEffectDefinition): Promise<DraftResult<StatusEffectDefinition>> {
+    const draft = await this.loadDraft(versionId);
+    if ('error' in draft) return { success: false, status: draft.status, error: draft.error };
+    const { snapshot } = draft;
+    const err = this.upsertStatusEffectCore(snapshot, effect);
+    if (err) return { success: false, status: 400, error: err };
+    await this.persist(versionId, snapshot);
+    return { success: true, snapshot, entries: snapshot.statusEffects ?? [] };
+  }
+
+  private deleteStatusEffectCore(snapshot: ContentSnapshot, id: string): string | null {
+    if (snapshot.statusEffects === undefined) {
+      snapshot.statusEffects = Object.values(this.liveContent().getAllStatusEffects());
+    }
+    const idx = snapshot.statusEffects.findIndex(s => s.id === id);
+    if (idx < 0) return 'Status effect not found.';
+    if (SEED_STATUS_EFFECTS[id]) return 'Cannot delete: built-in status effect used by the combat engine.';
+    const skills = snapshot.skills ?? Object.values(this.liveContent().getAllSkills());
+    const referencingSkill = skills.find(s => s.activeEffects?.some(e => e.kind === 'apply_status' && e.statusEffectId === id)
+      || s.passiveEffects?.some(e => e.kind === 'triggered_effect' && e.statusEffectId === id));
+    if (referencingSkill) return `Cannot delete: status effect is applied by skill "${referencingSkill.name}".`;
+    const referencingMonster = snapshot.monsters.find(m => m.skills?.some(s => s.statusEffectId === id));
+    if (referencingMonster) return `Cannot delete: status effect is applied by monster "${referencingMonster.name}".`;
+    snapshot.statusEffects.splice(idx, 1);
+    return null;
+  }
+
+  async deleteStatusEffect(versionId: string, id: string): Promise<DraftResult<StatusEffectDefinition>> {
+    const draft = await this.loadDraft(versionId);
+    if ('error' in draft) return { success: false, status: draft.status, error: draft.error };
+    const { snapshot } = draft;
+    const err = this.deleteStatusEffectCore(snapshot, id);
+    if (err) return { success: false, status: 400, error: err };
+    await this.persist(versionId, snapshot);
+    return { success: true, snapshot, entries: snapshot.statusEffects ?? [] };
+  }
+
+  // --- Affix CRUD ---
+
+  private upsertAffixCore(snapshot: ContentSnapshot, affix: AffixDefinition): string | null {
+    const errors = validateAffixDefinition(affix);
+    if (errors.length > 0) return errors.join(' ');
+    if (snapshot.affixes === undefined) {
+      snapshot.affixes = Object.values(this.liveContent().getAllAffixes());
+    }
+    const idx = snapshot.affixes.findIndex(a => a.id === affix.id);
+    if (idx >= 0) snapshot.affixes[idx] = affix; else snapshot.affixes.push(affix);
+    return null;
+  }
+
+  async upsertAffix(versionId: string, affix: AffixDefinition): Promise<DraftResult<AffixDefinition>> {
+    const draft = await this.loadDraft(versionId);
+    if ('error' in draft) return { success: false, status: draft.status, error: draft.error };
+    const { snapshot } = draft;
+    const err = this.upsertAffixCore(snapshot, affix);
+    if (err) return { success: false, status: 400, error: err };
+    await this.persist(versionId, snapshot);
+    return { success: true, snapshot, entries: snapshot.affixes ?? [] };
+  }
+
+  private deleteAffixCore(snapshot: ContentSnapshot, id: string): string | null {
+    if (snapshot.affixes === undefined) {
+      snapshot.affixes = Object.values(this.liveContent().getAllAffixes());
+    }
+    const idx = snapshot.affixes.findIndex(a => a.id === id);
+    if (idx < 0) return 'Affix not found.';
+    snapshot.affixes.splice(idx, 1);
+    return null;
+  }
+
+  async deleteAffix(versionId: string, id: string): Promise<DraftResult<AffixDefinition>> {
+    const draft = await this.loadDraft(versionId);
+    if ('error' in draft) return { success: false, status: draft.status, error: draft.error };
+    const { snapshot } = draft;
+    const err = this.deleteAffixCore(snapshot, id);
+    if (err) return { success: false, status: 400, error: err };
+    await this.persist(versionId, snapshot);
+    return { success: true, snapshot, entries: snapshot.affixes ?? [] };
+  }
+
+  // --- Salvage table CRUD ---
+
+  private upsertSalvageTableCore(snapshot: ContentSnapshot, table: SalvageTableDefinition): string | null {
+    const errors = validateSalvageTable(table, new Set(snapshot.items.map(i => i.id)));
+    if (errors.length > 0) return errors.join(' ');
+    if (snapshot.salvageTables === undefined) {
+      snapshot.salvageTables = Object.values(this.liveContent().getAllSalvageTables());
+    }
+    const idx = snapshot.salvageTables.findIndex(t => t.id === table.id);
+    if (idx >= 0) snapshot.salvageTables[idx] = table; else snapshot.salvageTables.push(table);
+    return null;
+  }
+
+  async upsertSalvageTable(versionId: string, table: SalvageTableDefinition): Promise<DraftResult<SalvageTableDefinition>> {
+    const draft = await this.loadDraft(versionId);
+    if ('error' in draft) return { success: false, status: draft.status, error: draft.error };
+    const { snapshot } = draft;
+    const err = this.upsertSalvageTableCore(snapshot, table);
+    if (err) return { success: false, status: 400, error: err };
+    await this.persist(versionId, snapshot);
+    return { success: true, snapshot, entries: snapshot.salvageTables ?? [] };
+  }
+
+  private deleteSalvageTableCore(snapshot: ContentSnapshot, id: string): string | null {
+    if (snapshot.salvageTables === undefined) {
+      snapshot.salvageTables = Object.values(this.liveContent().getAllSalvageTables());
+    }
+    const idx = snapshot.salvageTables.findIndex(t => t.id === id);
+    if (idx < 0) return 'Salvage table not found.';
+    snapshot.salvageTables.splice(idx, 1);
+    return null;
+  }
+
+  async deleteSalvageTable(versionId: string, id: string): Promise<DraftResult<SalvageTableDefinition>> {
+    const draft = await this.loadDraft(versionId);
+    if ('error' in draft) return { success: false, status: draft.status, error: draft.error };
+    const { snapshot } = draft;
+    const err = this.deleteSalvageTableCore(snapshot, id);
+    if (err) return { success: false, status: 400, error: err };
+    await this.persist(versionId, snapshot);
+    return { success: true, snapshot, entries: snapshot.salvageTables ?? [] };
+  }
+
   async setSkillSlotSchedule(versionId: string, className: string, slots: SkillSlot[]): Promise<DraftSkillSlotsResult> {
     const draft = await this.loadDraft(versionId);
     if ('error' in draft) return { success: false, status: draft.status, error: draft.error };
@@ -804,6 +957,9 @@ export class DraftEditor {
       case 'encounters': return snapshot.encounters ?? [];
       case 'tileTypes': return snapshot.tileTypes ?? [];
       case 'skills': return snapshot.skills ?? [];
+      case 'statusEffects': return snapshot.statusEffects ?? [];
+      case 'affixes': return snapshot.affixes ?? [];
+      case 'salvageTables': return snapshot.salvageTables ?? [];
       case 'designNotes': return snapshot.designNotes ?? [];
     }
   }
@@ -827,6 +983,9 @@ export class DraftEditor {
       case 'encounters': return this.upsertEncounterCore(snapshot, entry as EncounterDefinition);
       case 'tileTypes': return this.upsertTileTypeCore(snapshot, entry as TileTypeDefinition);
       case 'skills': return this.upsertSkillCore(snapshot, entry as SkillDefinition);
+      case 'statusEffects': return this.upsertStatusEffectCore(snapshot, entry as StatusEffectDefinition);
+      case 'affixes': return this.upsertAffixCore(snapshot, entry as AffixDefinition);
+      case 'salvageTables': return this.upsertSalvageTableCore(snapshot, entry as SalvageTableDefinition);
       case 'designNotes': return this.upsertDesignNoteCore(snapshot, entry as DesignNote);
     }
   }
@@ -875,6 +1034,9 @@ export class DraftEditor {
       case 'encounters': return this.deleteEncounter(versionId, id);
       case 'tileTypes': return this.deleteTileType(versionId, id);
       case 'skills': return this.deleteSkill(versionId, id);
+      case 'statusEffects': return this.deleteStatusEffect(versionId, id);
+      case 'affixes': return this.deleteAffix(versionId, id);
+      case 'salvageTables': return this.deleteSalvageTable(versionId, id);
       case 'designNotes': return this.deleteDesignNote(versionId, id);
     }
   }
@@ -7,6 +7,8 @@ import { WorldGrids } from './WorldGrids.js';
 import type { GameStateStore } from './GameStateStore.js';
 import { GuildStore } from './social/GuildStore.js';
 import { TradeStore } from './social/TradeStore.js';
+import { AuctionStore } from './social/AuctionStore.js';
+import { WorkOrderStore } from './social/WorkOrderStore.js';
 import { ContentStore } from './ContentStore.js';
 import { VersionStore } from './VersionStore.js';
 import type { AccountStore } from '../auth/AccountStore.js';
@@ -14,6 +16,7 @@ import { seedDevContent, seedDevPlayers } from './DevSeed.js';
 
 const SAVE_INTERVAL_MS = 30_000; // Save every 30 seconds
 const CRAFT_TICK_MS = 1000;       // Check craft completions every 1s
+const EXPIRY_TICK_MS = 60_000;    // Return expired auction listings, work orders and mail every minute
 const VERSION_FILE = path.resolve('data', 'game-version.txt');
 
 export class GameLoop {
@@ -23,8 +26,11 @@ export class GameLoop {
   private store: GameStateStore;
   private guildStore: GuildStore;
   private tradeStore: TradeStore;
+  private auctionStore: AuctionStore;
+  private workOrderStore: WorkOrderStore;
   private saveInterval?: ReturnType<typeof setInterval>;
   private craftTickInterval?: ReturnType<typeof setInterval>;
+  private expiryTickInterval?: ReturnType<typeof setInterval>;
   private grids!: WorldGrids;
 
   constructor(store: GameStateStore) {
@@ -32,6 +38,8 @@ export class GameLoop {
     this.versionStore = new VersionStore();
     this.guildStore = new GuildStore();
     this.tradeStore = new TradeStore();
+    this.auctionStore = new AuctionStore();
+    this.workOrderStore = new WorkOrderStore();
     this.store = store;
   }
 
@@ -117,6 +125,16 @@ export class GameLoop {
     this.playerManager.trades.restoreFromSaveData(savedTrades);
     console.log(`[Startup] TradeStore loaded (${savedTrades.length} trades) in ${(performance.now() - t).toFixed(1)}ms`);
 
+    t = performance.now();
+    const savedListings = await this.auctionStore.load();
+    this.playerManager.auctions.restoreFromSaveData(savedListings);
+    console.log(`[Startup] AuctionStore loaded (${savedListings.length} listings) in ${(performance.now() - t).toFixed(1)}ms`);
+
+    t = performance.now();
+    const savedOrders = await this.workOrderStore.load();
+    this.playerManager.workOrders.restoreFromSaveData(savedOrders);
+    console.log(`[Startup] WorkOrderStore loaded (${savedOrders.length} orders) in ${(performance.now() - t).toFixed(1)}ms`);
+
     t = performance.now();
     const saves = await this.store.loadAll();
     console.log(`[Startup] Save files loaded (${saves.length} players) in ${(performance.now() - t).toFixed(1)}ms`);
@@ -156,7 +174,16 @@ export class GameLoop {
       catch (err) { console.error('[GameLoop] Craft tick failed:', err); }
     }, CRAFT_TICK_MS);
 
-    console.log(`[GameLoop] Periodic save every ${SAVE_INTERVAL_MS / 1000}s, craft tick every ${CRAFT_TICK_MS / 1000}s`);
+    // Sessions are restored by now, so returned listings, refunds and mail land in loaded mailboxes.
+    this.expiryTickInterval = setInterval(() => {
+      try {
+        this.playerManager.expireAuctions();
+        this.playerManager.expireWorkOrders();
+        this.playerManager.expireMail();
+      } catch (err) { console.error('[GameLoop] Expiry tick failed:', err); }
+    }, EXPIRY_TICK_MS);
+
+    console.log(`[GameLoop] Periodic save every ${SAVE_INTERVAL_MS / 1000}s, craft tick every ${CRAFT_TICK_MS / 1000}s, expiry tick every ${EXPIRY_TICK_MS / 1000}s`);
   }
 
   /**
@@ -170,6 +197,8 @@ export class GameLoop {
     }
     await this.guildStore.save();
     await this.tradeStore.save(this.playerManager.trades.getAllTrades());
+    await this.auctionStore.save(this.playerManager.auctions.getAllListings());
+    await this.workOrderStore.save(this.playerManager.workOrders.getAllOrders());
     await this.contentStore.save();
     await this.versionStore.save();
   }
@@ -186,6 +215,10 @@ export class GameLoop {
       clearInterval(this.craftTickInterval);
       this.craftTickInterval = undefined;
     }
+    if (this.expiryTickInterval) {
+      clearInterval(this.expiryTickInterval);
+      this.expiryTickInterval = undefined;
+    }
     // Drain craft completions one last time so jobs that finished between ticks aren't lost.
     this.playerManager.tickAllCrafting();
 
@@ -1,4 +1,4 @@
-import type { CombatLogEntry, BlockLevel, ChatMessage, FriendRequest, SkillLoadout, MailboxEntry, CraftQueueState, QuestProgressEntry, CompletedQuestEntry, NotificationEntry, NotificationPreferences, WebPushSubscription } from '@idle-party-rpg/shared';
+import type { CombatLogEntry, BlockLevel, ChatMessage, FriendRequest, SkillLoadout, ItemInstance, ActiveConsumable, AutoUseRule, SavedLoadout, StashTab, MailboxEntry, BuybackEntry, CraftQueueState, QuestProgressEntry, CompletedQuestEntry, NotificationEntry, NotificationPreferences, WebPushSubscription } from '@idle-party-rpg/shared';
 
 /**
  * Serializable snapshot of a player's persistent state.
@@ -20,9 +20,22 @@ export interface PlayerSaveData {
     gold?: number;
     inventory?: Record<string, number>;
     equipment?: Record<string, string | null>;
+    /** Rolled item instances keyed by instance id (absent in saves from before item instances). */
+    itemInstances?: Record<string, ItemInstance>;
     skillLoadout?: SkillLoadout;
     craftLevel?: number;
     craftXp?: number;
+    /** Timed consumables still running (absent in saves from before consumables). */
+    activeConsumables?: ActiveConsumable[];
+    autoUseRules?: AutoUseRule[];
+    /** Named gear loadouts (absent in saves from before loadouts). */
+    loadouts?: SavedLoadout[];
+    /** Personal stash tabs (absent in saves from before the stash). */
+    stash?: StashTab[];
+    /** Learned discoverable recipes (absent in saves from before recipe discovery). */
+    knownRecipeIds?: string[];
+    /** Pending harvest node respawns (absent in saves from before harvesting). */
+    harvestReadyAt?: Record<string, number>;
     // Legacy fields (ignored on load, kept for backward compat with old saves)
     skillPoints?: number;
     stats?: Record<string, number>;
@@ -38,8 +51,10 @@ export interface PlayerSaveData {
   chatHistory?: ChatMessage[];
   chatSendChannel?: string;
   chatDmTarget?: string;
-  /** Pending gift entries awaiting accept/deny in the player's mailbox. */
+  /** Mail in the player's mailbox (entries saved as single gifts are migrated on load). */
   mailbox?: MailboxEntry[];
+  /** Recent shop sales the player can buy back, newest first (absent in saves from before buyback). */
+  shopBuyback?: BuybackEntry[];
   /** Per-player FIFO craft queue. Materials are reserved (already deducted from inventory). */
   craftQueue?: CraftQueueState;
   /** Active quests the player has accepted (status: accepted/in_progress/ready). */
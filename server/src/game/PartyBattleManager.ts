@@ -4,11 +4,19 @@ import {
   cubeToOffset,
   createPartyCombatState,
   createEncounter,
+  placeFloorBoss,
   getZone,
   rollDrops,
   validateDungeonEntry,
   rollDungeonRewards,
   rewardAppliesToClass,
+  createRngState,
+  rngFn,
+  createBattleMeter,
+  recordMeterEvents,
+  summarizeMeterSession,
+  METER_HISTORY_SIZE,
+  applySkillRank,
 } from '@idle-party-rpg/shared';
 import type {
   BattleResult,
@@ -20,6 +28,7 @@ import type {
   DungeonRunInfo,
   DungeonEntryMemberInfo,
   DungeonReward,
+  BattleMeterSummary,
 } from '@idle-party-rpg/shared';
 import { ServerParty } from './ServerParty.js';
 import { ServerBattleTimer } from './ServerBattleTimer.js';
@@ -43,6 +52,10 @@ interface PartyBattleEntry {
   members: Set<string>;
   /** Present only while the party is inside a dungeon. */
   dungeonRun?: DungeonRunState;
+  /** Damage meter for the fight in progress (created on its first tick). */
+  meter?: BattleMeterSummary;
+  /** Finished fights' meters, newest first, capped at METER_HISTORY_SIZE. */
+  meterHistory: BattleMeterSummary[];
 }
 
 /** Result of a dungeon entry attempt. */
@@ -82,19 +95,25 @@ export class PartyBattleManager {
       () => this.createCombatForParty(partyId),
       {
         onBattleStart: () => {
+          // Restarted or escaped fights are dropped from the meter, not summarized.
+          const entry = this.entries.get(partyId);
+          if (entry) entry.meter = undefined;
           for (const m of members) {
             const s = this.getSession(m);
             if (!s) continue;
             s.incrementBattleCount();
             s.addLogEntry('Battle begins!', 'battle');
           }
+          this.runBattleStartAutoUse(partyId, members);
         },
         onStateChange: () => {
           for (const m of members) {
             this.broadcastToMember(m);
           }
         },
-        onCombatTick: (_state: PartyCombatState, logEntries: string[]) => {
+        onCombatTick: (state: PartyCombatState, logEntries: string[]) => {
+          this.recordMeterTick(partyId, state);
+          logEntries = [...logEntries, ...this.runCombatAutoUse(members, state)];
           for (const m of members) {
             const s = this.getSession(m);
             if (s) {
@@ -148,7 +167,7 @@ export class PartyBattleManager {
       },
     );
 
-    this.entries.set(partyId, { partyId, serverParty, battleTimer, members });
+    this.entries.set(partyId, { partyId, serverParty, battleTimer, members, meterHistory: [] });
   }
 
   /** Create a party battle entry from saved movement state (for restoring). */
@@ -170,19 +189,25 @@ export class PartyBattleManager {
       () => this.createCombatForParty(partyId),
       {
         onBattleStart: () => {
+          // Restarted or escaped fights are dropped from the meter, not summarized.
+          const entry = this.entries.get(partyId);
+          if (entry) entry.meter = undefined;
           for (const m of members) {
             const s = this.getSession(m);
             if (!s) continue;
             s.incrementBattleCount();
             s.addLogEntry('Battle begins!', 'battle');
           }
+          this.runBattleStartAutoUse(partyId, members);
         },
         onStateChange: () => {
           for (const m of members) {
             this.broadcastToMember(m);
           }
         },
-        onCombatTick: (_state: PartyCombatState, logEntries: string[]) => {
+        onCombatTick: (state: PartyCombatState, logEntries: string[]) => {
+          this.recordMeterTick(partyId, state);
+          logEntries = [...logEntries, ...this.runCombatAutoUse(members, state)];
           for (const m of members) {
             const s = this.getSession(m);
             if (s) {
@@ -236,7 +261,7 @@ export class PartyBattleManager {
       },
     );
 
-    this.entries.set(partyId, { partyId, serverParty, battleTimer, members });
+    this.entries.set(partyId, { partyId, serverParty, battleTimer, members, meterHistory: [] });
   }
 
   /** Add a member to an existing party battle. They join the next combat cycle. */
@@ -420,6 +445,37 @@ export class PartyBattleManager {
     return entry.serverParty.toJSON();
   }
 
+  /** The party's fight in progress, or null between battles. */
+  getCurrentCombat(partyId: string): PartyCombatState | null {
+    const combat = this.entries.get(partyId)?.battleTimer.currentCombat;
+    return combat && !combat.finished ? combat : null;
+  }
+
+  /** Fire each member's `keep_active` consumables as a fight begins; the whole party sees the log. */
+  private runBattleStartAutoUse(partyId: string, members: Set<string>): void {
+    const combat = this.getCurrentCombat(partyId);
+    const lines: string[] = [];
+    for (const m of members) {
+      const s = this.getSession(m);
+      if (s) lines.push(...s.runBattleStartAutoUse(combat));
+    }
+    if (lines.length === 0) return;
+    for (const m of members) {
+      const s = this.getSession(m);
+      if (s) for (const line of lines) s.addLogEntry(line, 'battle');
+    }
+  }
+
+  /** Fire each member's in-combat auto-use rules for this tick. Returns the log lines. */
+  private runCombatAutoUse(members: Set<string>, state: PartyCombatState): string[] {
+    const lines: string[] = [];
+    for (const m of members) {
+      const s = this.getSession(m);
+      if (s) lines.push(...s.runCombatAutoUse(state));
+    }
+    return lines;
+  }
+
   /** Get the ServerBattleState for the state message. */
   getBattleState(partyId: string): ServerBattleState | null {
     const entry = this.entries.get(partyId);
@@ -443,9 +499,13 @@ export class PartyBattleManager {
         gridPosition: m.gridPosition,
         stunTurns: m.stunTurns > 0 ? m.stunTurns : undefined,
         description: m.description,
+        boss: m.phases.length > 0 || undefined,
+        immune: m.immuneTurns > 0 || undefined,
+        enraged: m.enrageMultiplier !== 1 || undefined,
       })),
       tickCount: combat.tickCount,
       roundCount: combat.roundCount,
+      seed: combat.rng.seed,
       lastAction: combat.lastAction ? {
         attackerSide: combat.lastAction.attackerSide,
         attackerPos: combat.lastAction.attackerPos,
@@ -457,6 +517,7 @@ export class PartyBattleManager {
         healAmount: combat.lastAction.healAmount,
         healTarget: combat.lastAction.healTarget,
       } : undefined,
+      events: combat.lastEvents.length > 0 ? combat.lastEvents : undefined,
     } : undefined;
 
     return {
@@ -465,6 +526,11 @@ export class PartyBattleManager {
       visual: entry.battleTimer.visual,
       duration: entry.battleTimer.currentDuration,
       combat: clientCombat,
+      meter: {
+        current: entry.meter ?? null,
+        last: entry.meterHistory[0] ?? null,
+        session: summarizeMeterSession(entry.meterHistory),
+      },
     };
   }
 
@@ -556,10 +622,14 @@ export class PartyBattleManager {
     const allMonsters = this.content.getAllMonsters();
     const allZones = this.content.getAllZones();
     const allEncounters = this.content.getAllEncounters();
+    const statusEffects = this.content.getAllStatusEffects();
+    // One stream per battle: the encounter roll, every combat roll and the loot
+    // roll all draw from it, so the seed alone replays the whole fight.
+    const rng = createRngState();
 
     if (!entry) {
       // Fallback: empty combat
-      return createPartyCombatState([], createEncounter(undefined, allMonsters, allZones, allEncounters));
+      return createPartyCombatState([], createEncounter(undefined, allMonsters, allZones, allEncounters, undefined, rngFn(rng)), rng, statusEffects, allMonsters);
     }
 
     const players: PartyCombatant[] = [];
@@ -577,8 +647,14 @@ export class PartyBattleManager {
       const dungeon = this.content.getDungeon(entry.dungeonRun.dungeonId);
       const floor = dungeon?.floors[entry.dungeonRun.currentFloorIndex];
       if (floor) {
-        const monsters = createEncounter(zone, allMonsters, allZones, allEncounters, floor.encounterTable);
-        return createPartyCombatState(players, monsters);
+        // A boss floor with an empty table is the boss alone (createEncounter would fall back to goblins).
+        const bossAlone = floor.isBoss && !!floor.bossMonsterId && !!allMonsters[floor.bossMonsterId]
+          && floor.encounterTable.length === 0;
+        const rolled = bossAlone
+          ? []
+          : createEncounter(zone, allMonsters, allZones, allEncounters, floor.encounterTable, rngFn(rng));
+        const monsters = placeFloorBoss(floor, allMonsters, rolled);
+        return createPartyCombatState(players, monsters, rng, statusEffects, allMonsters);
       }
       // Dungeon/floor vanished (e.g. content deploy) — abandon the run so the
       // party isn't stuck (movement stays blocked while dungeonRun is set) and
@@ -588,19 +664,37 @@ export class PartyBattleManager {
 
     const tileId = entry.serverParty.tile.id;
     const tileDef = this.content.getTileById(tileId);
-    const monsters = createEncounter(zone, allMonsters, allZones, allEncounters, tileDef?.encounterTable);
+    const monsters = createEncounter(zone, allMonsters, allZones, allEncounters, tileDef?.encounterTable, rngFn(rng));
 
-    return createPartyCombatState(players, monsters);
+    return createPartyCombatState(players, monsters, rng, statusEffects, allMonsters);
+  }
+
+  /** Fold a combat tick's events into the party's live damage meter. */
+  private recordMeterTick(partyId: string, state: PartyCombatState): void {
+    const entry = this.entries.get(partyId);
+    if (!entry) return;
+    entry.meter ??= createBattleMeter(state.players);
+    recordMeterEvents(entry.meter, state.lastEvents);
+    entry.meter.rounds = state.roundCount;
   }
 
   private handleBattleEnd(partyId: string, result: BattleResult): void {
     const entry = this.entries.get(partyId);
     if (!entry) return;
 
+    if (entry.meter) {
+      entry.meter.result = result;
+      entry.meterHistory.unshift(entry.meter);
+      entry.meterHistory.length = Math.min(entry.meterHistory.length, METER_HISTORY_SIZE);
+      entry.meter = undefined;
+    }
+
     if (result === 'victory') {
       const combat = entry.battleTimer.currentCombat;
       const members = Array.from(entry.members);
       const partySize = members.length;
+      // Loot continues the battle's own stream so a seeded replay reproduces the drops too.
+      const rng = combat ? rngFn(combat.rng) : Math.random;
 
       // Compute total XP and gold once, then split
       const totalXp = combat
@@ -611,7 +705,7 @@ export class PartyBattleManager {
         for (const m of combat.monsters) {
           const def = this.content.getMonster(m.id);
           if (def) {
-            totalGold += def.goldMin + Math.floor(Math.random() * (def.goldMax - def.goldMin + 1));
+            totalGold += def.goldMin + Math.floor(rng() * (def.goldMax - def.goldMin + 1));
           }
         }
       }
@@ -626,7 +720,8 @@ export class PartyBattleManager {
         if (loadout) {
           for (const skillId of loadout.equippedSkills) {
             if (!skillId) continue;
-            const skill = this.content.getSkill(skillId);
+            const def = this.content.getSkill(skillId);
+            const skill = def && applySkillRank(def, loadout.talentRanks?.[skillId] ?? 1);
             if (!skill?.passiveEffects) continue;
             for (const effect of skill.passiveEffects) {
               if (effect.kind === 'xp_bonus') {
@@ -642,13 +737,15 @@ export class PartyBattleManager {
 
       // Roll item drops once, randomly assign each to a party member
       const memberItems: Map<string, string[]> = new Map();
+      // Drop boosters don't stack across the party: the strongest one counts.
+      const dropBoost = Math.max(0, ...members.map(u => this.getSession(u)?.getBoost('drops') ?? 0));
       for (const u of members) memberItems.set(u, []);
 
       if (combat) {
         for (const m of combat.monsters) {
           const def = this.content.getMonster(m.id);
           if (def?.drops) {
-            const dropped = rollDrops(def.drops);
+            const dropped = rollDrops(def.drops, rng, 1 + dropBoost);
             for (const itemId of dropped) {
               const itemDef = this.content.getItem(itemId);
               let eligible = members;
@@ -660,7 +757,7 @@ export class PartyBattleManager {
                 });
                 if (matching.length > 0) eligible = matching;
               }
-              const recipient = eligible[Math.floor(Math.random() * eligible.length)];
+              const recipient = eligible[Math.floor(rng() * eligible.length)];
               memberItems.get(recipient)!.push(itemId);
             }
           }
@@ -674,7 +771,7 @@ export class PartyBattleManager {
           { xp: splitXp, gold: splitGold, items: memberItems.get(username)! },
           entry.serverParty.tile,
           // Dungeon floors aren't overworld tiles — don't unlock neighbours mid-run.
-          { unlockTiles: !entry.dungeonRun },
+          { unlockTiles: !entry.dungeonRun, rng },
         );
       }
 
@@ -690,9 +787,20 @@ export class PartyBattleManager {
         }
       }
 
+      // Harvesting: a party idling in a room gathers from its nodes between battles.
+      if (!entry.dungeonRun && entry.serverParty.remainingPath.length === 0) {
+        const tileDef = this.content.getTileById(entry.serverParty.tile.id);
+        if (tileDef?.harvestNodes?.length) {
+          const now = Date.now();
+          for (const username of members) {
+            this.getSession(username)?.gatherHarvestNodes(tileDef, now, rng);
+          }
+        }
+      }
+
       // Dungeon: grant floor rewards, then advance to the next floor or complete the run.
       if (entry.dungeonRun) {
-        this.handleDungeonFloorCleared(entry);
+        this.handleDungeonFloorCleared(entry, rng);
       }
     } else {
       for (const username of entry.members) {
@@ -877,7 +985,7 @@ export class PartyBattleManager {
   }
 
   /** Victory inside a dungeon: grant floor rewards, then advance or complete. */
-  private handleDungeonFloorCleared(entry: PartyBattleEntry): void {
+  private handleDungeonFloorCleared(entry: PartyBattleEntry, rng: () => number): void {
     const run = entry.dungeonRun;
     if (!run) return;
     const dungeon = this.content.getDungeon(run.dungeonId);
@@ -890,7 +998,7 @@ export class PartyBattleManager {
 
     // Bonus floor-clear rewards (per member, in addition to monster loot).
     if (floor?.rewards && floor.rewards.length > 0) {
-      this.grantDungeonRewards(entry, floor.rewards, 'Floor reward');
+      this.grantDungeonRewards(entry, floor.rewards, 'Floor reward', rng);
     }
 
     run.currentFloorIndex += 1;
@@ -912,14 +1020,11 @@ export class PartyBattleManager {
             session.grantXp(dungeon.firstClearXp, `First-clear bonus: +${dungeon.firstClearXp} XP!`);
           }
           const eligibleFirstClear = (dungeon.firstClearRewards ?? []).filter(r => rewardAppliesToClass(r, session.getClassName()));
-          const drops = rollDungeonRewards(eligibleFirstClear);
+          const drops = rollDungeonRewards(eligibleFirstClear, rng);
           for (const { itemId, quantity } of drops) {
-            const itemDef = this.content.getItem(itemId);
-            if (!itemDef) continue;
             for (let i = 0; i < quantity; i++) {
-              if (session.addOneToInventory(itemId)) {
-                session.addLogEntry(`First-clear reward: ${itemDef.name}!`, 'victory');
-              }
+              const key = session.receiveLoot(itemId, rng);
+              if (key) session.addLogEntry(`First-clear reward: ${session.describeItem(key)}!`, 'victory');
             }
           }
         }
@@ -947,20 +1052,17 @@ export class PartyBattleManager {
   }
 
   /** Roll a reward table once per member (respecting per-reward class restrictions) and grant the results. */
-  private grantDungeonRewards(entry: PartyBattleEntry, rewards: DungeonReward[], label: string): void {
+  private grantDungeonRewards(entry: PartyBattleEntry, rewards: DungeonReward[], label: string, rng: () => number): void {
     for (const username of entry.members) {
       const session = this.getSession(username);
       if (!session) continue;
       const className = session.getClassName();
       const eligible = rewards.filter(r => rewardAppliesToClass(r, className));
-      const drops = rollDungeonRewards(eligible);
+      const drops = rollDungeonRewards(eligible, rng);
       for (const { itemId, quantity } of drops) {
-        const itemDef = this.content.getItem(itemId);
-        if (!itemDef) continue;
         for (let i = 0; i < quantity; i++) {
-          if (session.addOneToInventory(itemId)) {
-            session.addLogEntry(`${label}: ${itemDef.name}!`, 'victory');
-          }
+          const key = session.receiveLoot(itemId, rng);
+          if (key) session.addLogEntry(`${label}: ${session.describeItem(key)}!`, 'victory');
         }
       }
     }
@@ -1,7 +1,7 @@
 import { randomUUID } from 'crypto';
 import { WebSocket } from 'ws';
-import { offsetToCube, cubeDistance, cubeToKey } from '@idle-party-rpg/shared';
-import type { HexGrid, HexTile, OtherPlayerState, ClientSocialState, ChatMessage, PartyGridPosition, PartyRole, ClassName, NotificationEntry } from '@idle-party-rpg/shared';
+import { offsetToCube, cubeDistance, cubeToKey, getBaseItemId, getAuctionFee, getAuctionPayout, getAuctionItemDefinition, AUCTION_HOUSE_SENDER, GIFT_MAIL_SUBJECT, SYSTEM_MAIL_SENDER, WORK_ORDER_SENDER, getWorkOrderItemIds, getWorkOrderPayment, getWorkOrderRefund, hasMailContents, splitClaimableAttachments, validateMailDraft } from '@idle-party-rpg/shared';
+import type { HexGrid, HexTile, OtherPlayerState, ClientSocialState, ChatMessage, PartyGridPosition, PartyRole, ClassName, NotificationEntry, TradeOfferItem, AuctionListing, AuctionSearchFilter, ItemDefinition, ServerAuctionResultsMessage, ServerWorkOrderResultsMessage, WorkOrder, MailAttachment, MailboxEntry, MailDraft } from '@idle-party-rpg/shared';
 import { PlayerSession } from './PlayerSession.js';
 import type { WorldGrids } from './WorldGrids.js';
 import type { GameStateStore, PlayerSaveData } from './GameStateStore.js';
@@ -12,6 +12,9 @@ import { ChatSystem } from './social/ChatSystem.js';
 import { PartySystem } from './social/PartySystem.js';
 import { TradeSystem } from './social/TradeSystem.js';
 import { MailboxSystem } from './social/MailboxSystem.js';
+import { AuctionSystem } from './social/AuctionSystem.js';
+import { WorkOrderSystem } from './social/WorkOrderSystem.js';
+import { ShopStockSystem } from './ShopStockSystem.js';
 import { NotificationSystem } from './social/NotificationSystem.js';
 import { NotificationService } from './social/NotificationService.js';
 import { InAppNotificationDriver } from './social/InAppNotificationDriver.js';
@@ -21,6 +24,13 @@ import { PartyBattleManager } from './PartyBattleManager.js';
 import type { ContentStore } from './ContentStore.js';
 import type { AccountStore } from '../auth/AccountStore.js';
 
+/** `send_gift` predates mail; its callers still expect the gift wording. */
+const GIFT_ERRORS: Record<string, string> = {
+  'Cannot mail yourself': 'Cannot gift to yourself',
+  'Cannot mail a blocked user': 'Cannot gift to a blocked user',
+  'Invalid quantity.': 'Invalid quantity',
+};
+
 export class PlayerManager {
   private sessions = new Map<string, PlayerSession>();
   private connections = new Map<WebSocket, string>();
@@ -35,6 +45,9 @@ export class PlayerManager {
   readonly parties: PartySystem;
   readonly trades: TradeSystem;
   readonly mailboxes: MailboxSystem;
+  readonly auctions: AuctionSystem;
+  readonly workOrders: WorkOrderSystem;
+  readonly shopStock: ShopStockSystem;
   readonly notifications: NotificationSystem;
   readonly notify: NotificationService;
   readonly partyBattles: PartyBattleManager;
@@ -52,6 +65,9 @@ export class PlayerManager {
     this.parties = new PartySystem();
     this.trades = new TradeSystem();
     this.mailboxes = new MailboxSystem();
+    this.auctions = new AuctionSystem();
+    this.workOrders = new WorkOrderSystem();
+    this.shopStock = new ShopStockSystem();
     this.notifications = new NotificationSystem();
     this.notify = new NotificationService(
       (username) => this.sessions.get(username)?.getNotificationPreferences(),
@@ -431,12 +447,22 @@ export class PlayerManager {
   private wireCallbacks(session: PlayerSession): void {
     session.getSocialState = () => this.getSocialState(session.username);
     session.getMailbox = () => this.mailboxes.getMailbox(session.username);
+    session.sendSystemMail = (draft) => { this.sendSystemMail(session.username, draft); };
+    session.getShopStock = (shop) => this.shopStock.getStock(shop);
+    session.takeShopStock = (shop, itemId, quantity) => this.shopStock.take(shop, itemId, quantity);
+    session.getWorkOrderFillError = (orderId, itemId) => this.getWorkOrderFillError(session.username, orderId, itemId);
+    session.deliverWorkOrder = (orderId, itemId, units) => this.deliverWorkOrder(session.username, orderId, itemId, units);
     session.getNotifications = () => this.notifications.getInbox(session.username);
     session.getBattleState = () => {
       const partyId = session.getPartyId();
       if (!partyId) return null;
       return this.partyBattles.getBattleState(partyId);
     };
+    session.getCurrentCombat = () => {
+      const partyId = session.getPartyId();
+      if (!partyId) return null;
+      return this.partyBattles.getCurrentCombat(partyId);
+    };
     session.getPartyPositionState = () => {
       const partyId = session.getPartyId();
       if (!partyId) return null;
@@ -1005,6 +1031,441 @@ export class PlayerManager {
     return session.getInventoryCount(itemId) >= quantity;
   }
 
+  /**
+   * Normalize a client-sent trade offer: keep only itemId/quantity and attach the
+   * offering player's rolled instance for instance ids, so the partner can see it.
+   */
+  toTradeOfferItems(username: string, items: TradeOfferItem[]): TradeOfferItem[] {
+    const session = this.sessions.get(username);
+    return items.map(({ itemId, quantity }) => {
+      const instance = session?.getItemInstance(itemId);
+      return instance ? { itemId, quantity, instance } : { itemId, quantity };
+    });
+  }
+
+  // ── Mailbox ────────────────────────────────────────────────────
+
+  /** "Iron Ore x5" / "Rusty Dagger (Keen)" for a mail attachment. */
+  private describeAttachment(attachment: MailAttachment): string {
+    const def = attachment.instance
+      ? this.content.getItem(getBaseItemId(attachment.itemId))
+      : this.content.getItem(attachment.itemId);
+    const name = def?.name ?? attachment.itemId;
+    return attachment.quantity > 1 ? `${name} x${attachment.quantity}` : name;
+  }
+
+  /**
+   * Gift one stack as a mail with the default subject, reporting errors in the
+   * gift wording. Returns an error message, or null.
+   */
+  sendGift(username: string, targetUsername: string, itemId: string, quantity: number): string | null {
+    const error = this.sendMail(username, targetUsername, {
+      subject: GIFT_MAIL_SUBJECT,
+      attachments: [{ itemId, quantity }],
+    });
+    return error ? GIFT_ERRORS[error] ?? error : null;
+  }
+
+  /**
+   * Send a mail from one player to another. Attachments and gold leave the
+   * sender immediately — all of them or none. Returns an error message, or null.
+   */
+  sendMail(
+    username: string,
+    targetUsername: string,
+    draft: { subject: string; body?: string; attachments?: { itemId: string; quantity: number }[]; gold?: number },
+  ): string | null {
+    const session = this.sessions.get(username);
+    if (!session?.hasCharacter()) return 'No character';
+    if (targetUsername === username) return 'Cannot mail yourself';
+    if (!this.accountStore.findByUsername(targetUsername)) return 'Player not found';
+    if (this.isTradeBlocked(username, targetUsername)) return 'Cannot mail a blocked user';
+    const error = validateMailDraft(draft);
+    if (error) return error;
+
+    const requested = draft.attachments ?? [];
+    const gold = draft.gold ?? 0;
+    if (requested.length === 0 && gold === 0 && !draft.body?.trim()) return 'Mail is empty.';
+    if (requested.some(a => session.getInventoryCount(a.itemId) < a.quantity)) return 'Not enough items in inventory';
+    if (session.getGold() < gold) return 'Not enough gold.';
+
+    const attachments: MailAttachment[] = requested.map(({ itemId, quantity }) => {
+      const instance = session.getItemInstance(itemId);
+      session.removeFromInventory(itemId, quantity);
+      return instance ? { itemId, quantity, instance } : { itemId, quantity };
+    });
+    session.deductGold(gold);
+
+    const subject = draft.subject.trim();
+    this.mailboxes.send(targetUsername, username, { subject, body: draft.body?.trim(), attachments, gold });
+    session.addLogEntry(`Sent "${subject}" to ${targetUsername}`, 'unlock');
+    this.notify.notify(targetUsername, 'mail_received', {
+      title: 'New mail',
+      body: `${username}: ${subject}`,
+      payload: { fromUsername: username },
+    });
+    return null;
+  }
+
+  /**
+   * Deliver a mail from the game itself — quest rewards that didn't fit,
+   * admin grants. System mail can't be returned.
+   */
+  sendSystemMail(targetUsername: string, draft: MailDraft, fromUsername: string = SYSTEM_MAIL_SENDER): MailboxEntry {
+    const entry = this.mailboxes.send(targetUsername, fromUsername, { ...draft, system: true });
+    this.notify.notify(targetUsername, 'mail_received', {
+      title: 'New mail',
+      body: `${fromUsername}: ${draft.subject}`,
+      payload: { fromUsername },
+    });
+    this.sendStateToPlayer(targetUsername);
+    return entry;
+  }
+
+  /**
+   * Move a mail's gold and every attachment that fits into the inventory.
+   * Returns the log labels of what was claimed and how many attachments stayed behind.
+   */
+  private claimEntry(session: PlayerSession, entry: MailboxEntry): { claimed: string[]; leftOver: number } {
+    const { claimable, remaining } = splitClaimableAttachments(entry.attachments, id => session.getInventoryCount(id));
+    const claimed: string[] = [];
+    for (const attachment of claimable) {
+      const added = attachment.instance
+        ? session.addItemInstance(attachment.instance)
+        : session.addToInventory(attachment.itemId, attachment.quantity);
+      if (added) claimed.push(this.describeAttachment(attachment));
+      else remaining.push(attachment);
+    }
+    if (entry.gold) {
+      session.grantGold(entry.gold);
+      claimed.push(`${entry.gold} gold`);
+    }
+    this.mailboxes.setClaimed(session.username, entry.id, remaining);
+    return { claimed, leftOver: remaining.length };
+  }
+
+  /** Claim one mail. Attachments that would overflow a stack stay in the mail. */
+  claimMail(username: string, entryId: string): string | null {
+    const session = this.sessions.get(username);
+    if (!session?.hasCharacter()) return 'No character';
+    const entry = this.mailboxes.findEntry(username, entryId);
+    if (!entry) return 'Mail not found';
+    if (!hasMailContents(entry)) return 'Nothing to claim.';
+
+    const { claimed, leftOver } = this.claimEntry(session, entry);
+    if (claimed.length === 0) return 'Inventory full for that item (max 99)';
+    session.addLogEntry(`Claimed ${claimed.join(', ')} from ${entry.fromUsername}`, 'unlock');
+    if (leftOver > 0) session.addLogEntry(`${leftOver} attachment(s) didn't fit and are still in the mail.`, 'move');
+    return null;
+  }
+
+  /** Claim every mail in the mailbox, oldest first. */
+  claimAllMail(username: string): string | null {
+    const session = this.sessions.get(username);
+    if (!session?.hasCharacter()) return 'No character';
+    const entries = this.mailboxes.getMailbox(username).filter(hasMailContents);
+    if (entries.length === 0) return 'Nothing to claim.';
+
+    const claimed: string[] = [];
+    let leftOver = 0;
+    for (const entry of entries) {
+      const result = this.claimEntry(session, entry);
+      claimed.push(...result.claimed);
+      leftOver += result.leftOver;
+    }
+    if (claimed.length === 0) return 'Inventory full (max 99 per item)';
+    session.addLogEntry(`Claimed ${claimed.join(', ')} from your mailbox`, 'unlock');
+    if (leftOver > 0) session.addLogEntry(`${leftOver} attachment(s) didn't fit and are still in your mailbox.`, 'move');
+    return null;
+  }
+
+  /**
+   * Send a player's mail back to its sender, contents and all. Mail that was
+   * already returned once is dropped instead, so nothing ping-pongs forever.
+   */
+  returnMail(username: string, entryId: string): string | null {
+    const entry = this.mailboxes.findEntry(username, entryId);
+    if (!entry) return 'Mail not found';
+    if (entry.system) return `Mail from ${entry.fromUsername} cannot be returned`;
+    this.mailboxes.removeEntry(username, entryId);
+
+    if (!entry.returned && hasMailContents(entry)) {
+      this.mailboxes.send(entry.fromUsername, username, {
+        subject: entry.subject,
+        body: entry.body,
+        attachments: entry.attachments,
+        gold: entry.gold,
+        returned: true,
+      });
+      this.sendStateToPlayer(entry.fromUsername);
+    }
+    this.sessions.get(username)?.addLogEntry(`Returned "${entry.subject}" to ${entry.fromUsername}`, 'move');
+    return null;
+  }
+
+  /** Discard a mail with nothing left to claim. */
+  deleteMail(username: string, entryId: string): string | null {
+    const entry = this.mailboxes.findEntry(username, entryId);
+    if (!entry) return 'Mail not found';
+    if (hasMailContents(entry)) return 'Claim or return the attachments first.';
+    this.mailboxes.removeEntry(username, entryId);
+    return null;
+  }
+
+  /**
+   * Handle mail whose time is up: unclaimed player mail goes back to its
+   * sender once, everything else is deleted. Called from the GameLoop expiry tick.
+   */
+  expireMail(now: number = Date.now()): void {
+    // takeExpired only hands over letters with nothing to claim and player mail that can bounce.
+    for (const { username, entry } of this.mailboxes.takeExpired(now)) {
+      if (hasMailContents(entry)) {
+        this.mailboxes.send(entry.fromUsername, username, {
+          subject: entry.subject,
+          body: entry.body,
+          attachments: entry.attachments,
+          gold: entry.gold,
+          returned: true,
+        }, now);
+        this.sessions.get(entry.fromUsername)?.addLogEntry(`${username} didn't collect "${entry.subject}". It's back in your mailbox.`, 'move');
+        this.sendStateToPlayer(entry.fromUsername);
+      }
+      this.sendStateToPlayer(username);
+    }
+  }
+
+  // ── Auction house ──────────────────────────────────────────────
+
+  /** "Iron Ore x5" / "Rusty Dagger" — listings outlive the seller's instance record, so use the base name. */
+  private describeListing(listing: AuctionListing): string {
+    const name = this.content.getItem(getBaseItemId(listing.itemId))?.name ?? listing.itemId;
+    return listing.quantity > 1 ? `${name} x${listing.quantity}` : name;
+  }
+
+  private listingAttachment(listing: AuctionListing): MailAttachment {
+    const { itemId, quantity, instance } = listing;
+    return instance ? { itemId, quantity, instance } : { itemId, quantity };
+  }
+
+  /** Take unequipped items into escrow as a buy-now listing. Returns an error message, or null. */
+  listAuction(username: string, itemId: string, quantity: number, price: number, durationHours: number): string | null {
+    const session = this.sessions.get(username);
+    if (!session?.hasCharacter()) return 'No character';
+    const error = this.auctions.getListingError(username, quantity, price, durationHours);
+    if (error) return error;
+    if (!session.getItemDefinition(itemId)) return 'Unknown item.';
+    const instance = session.getItemInstance(itemId);
+    if (!session.removeFromInventory(itemId, quantity)) return 'Not enough items in inventory.';
+
+    const listing = this.auctions.createListing(username, itemId, quantity, price, durationHours, instance);
+    session.addLogEntry(`Listed ${this.describeListing(listing)} on the auction house for ${price} gold.`, 'unlock');
+    return null;
+  }
+
+  /**
+   * Buy a listing outright: the buyer pays the price, the items arrive in the
+   * buyer's mailbox, and the seller is mailed the price minus the house fee.
+   */
+  buyAuction(username: string, listingId: string): string | null {
+    const session = this.sessions.get(username);
+    if (!session?.hasCharacter()) return 'No character';
+    const listing = this.auctions.checkPurchase(listingId, username);
+    if (typeof listing === 'string') return listing;
+    if (this.isTradeBlocked(username, listing.seller)) return "You can't buy from a blocked user.";
+    if (!session.deductGold(listing.price)) return 'Not enough gold.';
+    this.auctions.removeListing(listingId);
+
+    const label = this.describeListing(listing);
+    const payout = getAuctionPayout(listing.price);
+    this.mailboxes.send(username, AUCTION_HOUSE_SENDER, {
+      subject: `Purchased: ${label}`,
+      attachments: [this.listingAttachment(listing)],
+      system: true,
+    });
+    this.mailboxes.send(listing.seller, AUCTION_HOUSE_SENDER, {
+      subject: `Sold: ${label}`,
+      body: `Sold for ${listing.price} gold, less the ${getAuctionFee(listing.price)} gold house fee.`,
+      gold: payout,
+      system: true,
+    });
+    session.addLogEntry(`Bought ${label} for ${listing.price} gold. It's waiting in your mailbox.`, 'unlock');
+    this.sessions.get(listing.seller)?.addLogEntry(
+      `Your ${label} sold for ${listing.price} gold. ${payout} gold (after the ${getAuctionFee(listing.price)} gold fee) is in your mailbox.`,
+      'victory',
+    );
+    this.notify.notify(listing.seller, 'auction_sold', {
+      title: 'Auction sold',
+      body: `${label} sold for ${listing.price} gold.`,
+      payload: { listingId, itemId: listing.itemId },
+    });
+    this.sendStateToPlayer(listing.seller);
+    return null;
+  }
+
+  /** Withdraw a seller's listing; the items go back through their mailbox. */
+  cancelAuction(username: string, listingId: string): string | null {
+    const listing = this.auctions.cancelListing(listingId, username);
+    if (typeof listing === 'string') return listing;
+    const label = this.describeListing(listing);
+    this.mailboxes.send(username, AUCTION_HOUSE_SENDER, {
+      subject: `Cancelled: ${label}`,
+      attachments: [this.listingAttachment(listing)],
+      system: true,
+      returned: true,
+    });
+    this.sessions.get(username)?.addLogEntry(`Cancelled your auction of ${label}. It's back in your mailbox.`, 'move');
+    return null;
+  }
+
+  /** Return every expired listing to its seller's mailbox. Called from the GameLoop expiry tick. */
+  expireAuctions(now: number = Date.now()): void {
+    for (const listing of this.auctions.takeExpired(now)) {
+      const label = this.describeListing(listing);
+      this.mailboxes.send(listing.seller, AUCTION_HOUSE_SENDER, {
+        subject: `Expired: ${label}`,
+        attachments: [this.listingAttachment(listing)],
+        system: true,
+        returned: true,
+      }, now);
+      this.sessions.get(listing.seller)?.addLogEntry(`Your auction of ${label} expired. It's back in your mailbox.`, 'move');
+      this.notify.notify(listing.seller, 'auction_expired', {
+        title: 'Auction expired',
+        body: `${label} didn't sell and was returned to your mailbox.`,
+        payload: { listingId: listing.id, itemId: listing.itemId },
+      });
+      this.sendStateToPlayer(listing.seller);
+    }
+  }
+
+  /** Build the `auction_results` reply: listings matching `filter` plus all of the player's own. */
+  getAuctionResults(username: string, filter: AuctionSearchFilter, now: number = Date.now()): ServerAuctionResultsMessage {
+    const items = this.content.getAllItems();
+    const listings = this.auctions.search(items, filter, now);
+    const myListings = this.auctions.getSellerListings(username);
+    const itemDefinitions: Record<string, ItemDefinition> = {};
+    for (const listing of [...listings, ...myListings]) {
+      const def = getAuctionItemDefinition(listing, items);
+      if (def) itemDefinitions[listing.itemId] = def;
+    }
+    return { type: 'auction_results', listings, myListings, itemDefinitions };
+  }
+
+  // ── Work orders ────────────────────────────────────────────────
+
+  /** "Tempered Ingot x3" */
+  private describeWorkOrder(order: WorkOrder, units: number = order.quantity): string {
+    const name = this.content.getItem(order.itemId)?.name ?? order.itemId;
+    return units > 1 ? `${name} x${units}` : name;
+  }
+
+  /** Take the reward into escrow and post the order. Returns an error message, or null. */
+  postWorkOrder(username: string, itemId: string, quantity: number, reward: number): string | null {
+    const session = this.sessions.get(username);
+    if (!session?.hasCharacter()) return 'No character';
+    const error = this.workOrders.getPostError(
+      username, itemId, quantity, reward, this.content.getAllRecipes(), this.content.getAllItems(),
+    );
+    if (error) return error;
+    if (!session.deductGold(reward)) return 'Not enough gold.';
+
+    const order = this.workOrders.createOrder(username, itemId, quantity, reward);
+    session.addLogEntry(`Posted a work order for ${this.describeWorkOrder(order)}, paying ${reward} gold.`, 'unlock');
+    return null;
+  }
+
+  /** Why `crafter` can't queue a job for this order, or null if they can. */
+  getWorkOrderFillError(crafter: string, orderId: string, itemId: string): string | null {
+    const order = this.workOrders.checkFill(orderId, crafter, itemId);
+    if (typeof order === 'string') return order;
+    if (this.isTradeBlocked(crafter, order.poster)) return "You can't fill a blocked user's work order.";
+    return null;
+  }
+
+  /**
+   * Deliver a completed craft job's output: the accepted units are mailed to
+   * the poster and their share of the reward to the crafter. Returns how many
+   * units the order took — the caller removes those from the crafter's
+   * inventory and keeps the rest.
+   */
+  deliverWorkOrder(crafter: string, orderId: string, itemId: string, units: number, now: number = Date.now()): number {
+    const result = this.workOrders.deliver(orderId, itemId, units, now);
+    if (!result) return 0;
+    const { before, accepted } = result;
+    const label = this.describeWorkOrder(before, accepted);
+    const payment = getWorkOrderPayment(before, accepted);
+    const filled = before.delivered + accepted >= before.quantity;
+
+    this.mailboxes.send(before.poster, WORK_ORDER_SENDER, {
+      subject: `Delivered: ${label}`,
+      body: `Crafted by ${crafter}.${filled ? ' Your work order is complete.' : ''}`,
+      attachments: [{ itemId, quantity: accepted }],
+      system: true,
+    }, now);
+    this.mailboxes.send(crafter, WORK_ORDER_SENDER, {
+      subject: `Payment: ${label}`,
+      body: `For ${before.poster}'s work order.`,
+      gold: payment,
+      system: true,
+    }, now);
+    this.sessions.get(before.poster)?.addLogEntry(`${crafter} delivered ${label} for your work order. It's waiting in your mailbox.`, 'victory');
+    this.notify.notify(before.poster, 'work_order_delivered', {
+      title: filled ? 'Work order complete' : 'Work order delivery',
+      body: `${crafter} delivered ${label}.`,
+      payload: { orderId, itemId },
+    });
+    this.sendStateToPlayer(before.poster);
+    return accepted;
+  }
+
+  /** Withdraw a poster's order; the unpaid reward goes back through their mailbox. */
+  cancelWorkOrder(username: string, orderId: string): string | null {
+    const order = this.workOrders.cancelOrder(orderId, username);
+    if (typeof order === 'string') return order;
+    const label = this.describeWorkOrder(order);
+    this.mailboxes.send(username, WORK_ORDER_SENDER, {
+      subject: `Cancelled: ${label}`,
+      gold: getWorkOrderRefund(order),
+      system: true,
+      returned: true,
+    });
+    this.sessions.get(username)?.addLogEntry(`Cancelled your work order for ${label}. The unpaid reward is in your mailbox.`, 'move');
+    return null;
+  }
+
+  /** Refund every expired order's unpaid reward to its poster. Called from the GameLoop expiry tick. */
+  expireWorkOrders(now: number = Date.now()): void {
+    for (const order of this.workOrders.takeExpired(now)) {
+      const label = this.describeWorkOrder(order);
+      this.mailboxes.send(order.poster, WORK_ORDER_SENDER, {
+        subject: `Expired: ${label}`,
+        body: `${order.delivered}/${order.quantity} delivered.`,
+        gold: getWorkOrderRefund(order),
+        system: true,
+        returned: true,
+      }, now);
+      this.sessions.get(order.poster)?.addLogEntry(`Your work order for ${label} expired. The unpaid reward is in your mailbox.`, 'move');
+      this.notify.notify(order.poster, 'work_order_expired', {
+        title: 'Work order expired',
+        body: `${label}: ${order.delivered}/${order.quantity} delivered. The rest of the reward was refunded.`,
+        payload: { orderId: order.id, itemId: order.itemId },
+      });
+      this.sendStateToPlayer(order.poster);
+    }
+  }
+
+  /** Build the `work_order_results` reply: everyone else's open orders plus all of the player's own. */
+  getWorkOrderResults(username: string, now: number = Date.now()): ServerWorkOrderResultsMessage {
+    const items = this.content.getAllItems();
+    const orders = this.workOrders.getOpenOrders(username, now);
+    const myOrders = this.workOrders.getPosterOrders(username);
+    const orderableItemIds = getWorkOrderItemIds(this.content.getAllRecipes(), items);
+    const itemDefinitions: Record<string, ItemDefinition> = {};
+    for (const id of [...orderableItemIds, ...orders.map(o => o.itemId), ...myOrders.map(o => o.itemId)]) {
+      if (items[id]) itemDefinitions[id] = items[id];
+    }
+    return { type: 'work_order_results', orders, myOrders, orderableItemIds, itemDefinitions };
+  }
+
   /**
    * Save all sessions to the store.
    */
@@ -11,9 +11,8 @@ import {
   calculateMaxHp,
   calculateBaseDamage,
   xpForNextLevel,
-  computeEquipmentBonuses,
   computeActiveSetBonuses,
-  mergeSetBonusesIntoEquip,
+  getWeaponDamageType,
   MAX_STACK,
   addItemToInventory,
   equipItem,
@@ -24,12 +23,55 @@ import {
   isTwoHandedEquipped,
   getOwnedItemIds,
   hasItemEquipped as inventoryHasItemEquipped,
+  rollItemInstance,
+  withItemInstances,
+  resolveItemInstance,
+  isItemInstanceId,
+  getBaseItemId,
+  toBaseItemIds,
+  socketGem,
+  unsocketGem,
+  getSalvageCapacity,
+  salvageItems,
+  getBulkSalvageKeys,
+  getConsumableEffect,
+  needsCombat,
+  activateConsumable,
+  pruneActiveConsumables,
+  getActiveBoost,
+  applyConsumableStatus,
+  pickConsumableTarget,
+  applyConsumableInCombat,
+  getAutoUseTarget,
+  validateAutoUseRule,
+  AUTO_USE_TICK_COOLDOWN,
+  applyLoadoutEquipment,
+  validateLoadoutName,
+  normalizeStash,
+  isItemStashed,
+  getStashDepositError,
+  getStashWithdrawError,
+  getHarvestNodeKey,
+  getHarvestNodeCraftLevel,
+  getHarvestBlockedReason,
+  isHarvestNodeReady,
+  pruneHarvestTimers,
+  rollDrops,
+  getShopItemPrice,
+  getShopStockCount,
+  getNextRestockAt,
+  fullShopStock,
+  pushBuyback,
+  MAX_LOADOUTS,
   getZone,
   setAppliesToClass,
   createDefaultSkillLoadout,
   reconcileSkillLoadout,
   computeGrantedSkillIds,
   getUnlockedSkillsForLevel,
+  canLearnTalent,
+  getRespecCost,
+  applySkillRank,
   equipSkillInSlot,
   unequipSkillFromSlot,
   emptyCraftQueue,
@@ -38,10 +80,14 @@ import {
   processCompletions,
   getActiveJobProgress,
   getVisibleRecipes,
+  isRecipeKnown,
+  getItemCrafterClasses,
+  getLearnRecipeError,
   CRAFTING_UNLOCK_LEVEL,
   addCraftXp,
   xpForCraftLevel,
   getCraftSkillName,
+  buildPartyCombatant,
   emptyNotificationPreferences,
 } from '@idle-party-rpg/shared';
 import type {
@@ -62,15 +108,34 @@ import type {
   FriendRequest,
   ChatChannelType,
   ItemDefinition,
+  ItemInstance,
+  ItemRarity,
   SetDefinition,
+  PartyCombatState,
+  ActiveConsumable,
+  AutoUseRule,
+  AutoUseTrigger,
+  BoosterStat,
+  SavedLoadout,
+  StashTab,
+  ClientHarvestNode,
+  HarvestNode,
+  WorldTileDefinition,
   ShopDefinition,
+  ShopStockState,
+  BuybackEntry,
+  ClientShopState,
   SkillDefinition,
   SkillLoadout,
   SkillContent,
   MailboxEntry,
+  MailDraft,
+  TradeState,
   CraftQueueState,
   ClientCraftingState,
   EnqueueError,
+  RecipeDefinition,
+  ClientNpcRecipeOffer,
   NotificationEntry,
   NotificationPreferences,
   WebPushSubscription,
@@ -110,6 +175,18 @@ export class PlayerSession {
   private initialMailbox: MailboxEntry[] = [];
   /** Callback to fetch the player's live mailbox from MailboxSystem. */
   getMailbox?: () => MailboxEntry[];
+  /** Callback to deliver system mail to this player (quest rewards that didn't fit) — set by PlayerManager. */
+  sendSystemMail?: (draft: MailDraft) => void;
+  /** Callback to read a shop's shared stock from ShopStockSystem — set by PlayerManager. */
+  getShopStock?: (shop: ShopDefinition) => ShopStockState;
+  /** Callback to take units off a shop's shared shelf. Returns false if there weren't enough. */
+  takeShopStock?: (shop: ShopDefinition, itemId: string, quantity: number) => boolean;
+  /** Callback to check a work order is open to this player for `itemId` — set by PlayerManager. */
+  getWorkOrderFillError?: (orderId: string, itemId: string) => string | null;
+  /** Callback to deliver crafted units to a work order. Returns how many the order took. */
+  deliverWorkOrder?: (orderId: string, itemId: string, units: number) => number;
+  /** Recent `shop_sell`s, newest first, capped at BUYBACK_LIMIT. */
+  private shopBuyback: BuybackEntry[] = [];
   /** Initial notification inbox snapshot from save data; live state lives in NotificationSystem. */
   private initialNotifications: NotificationEntry[] = [];
   /** Callback to fetch the player's live notification inbox from NotificationSystem. */
@@ -152,6 +229,12 @@ export class PlayerSession {
   /** Callback to get the active dungeon run state — set by PlayerManager. */
   getDungeonState?: () => import('@idle-party-rpg/shared').DungeonRunInfo | null;
 
+  /** Callback to get the party's live battle (null between fights) — set by PlayerManager. */
+  getCurrentCombat?: () => PartyCombatState | null;
+
+  /** Combat tick each auto-use rule last fired on, keyed by item id. In-memory; reset every battle. */
+  private autoUseFiredAt = new Map<string, number>();
+
   constructor(username: string, grids: WorldGrids, content: ContentStore, onQuestEvent?: (event: QuestEvent) => void) {
     this.username = username;
     this.grids = grids;
@@ -199,25 +282,15 @@ export class PlayerSession {
   /** Get combat info for the party combat system. Requires character to exist. */
   getCombatInfo(): PartyCombatant {
     if (!this.character) throw new Error('getCombatInfo called on characterless session');
-    const baseMaxHp = calculateMaxHp(this.character.level, this.character.className);
-    let baseDamage = calculateBaseDamage(this.character.level, this.character.className);
-    const rawEquipBonuses = computeEquipmentBonuses(this.character.equipment, this.content.getAllItems(), this.character.level);
-    const playerDamageType = CLASS_DEFINITIONS[this.character.className].damageType;
-
-    // Compute set bonuses (filtered by class) and merge flat DR/MR/attack into equipBonuses.
-    // Multiplicative bonuses (damagePercent, damageResistancePercent, cooldownReduction)
-    // ride along on `setBonuses` so the combat engine can consume them at the right time.
-    const setResult = computeActiveSetBonuses(this.character.equipment, this.content.getAllSets(), this.character.className);
-    const equipBonuses = mergeSetBonusesIntoEquip(rawEquipBonuses, setResult.bonuses);
-    const flatHp = setResult.bonuses.flatHp ?? 0;
-    const percentHp = setResult.bonuses.percentHp ?? 0;
-    const maxHp = Math.max(1, Math.floor((baseMaxHp + flatHp) * (1 + percentHp / 100)));
-
-    // Resolve equipped skill definitions from live content. Grants are NOT
-    // auto-appended here — they only gate which skills can occupy a slot.
-    const equippedSkills: (SkillDefinition | null)[] = this.character.skillLoadout.equippedSkills.map(
-      id => id ? this.content.getSkill(id) ?? null : null
-    );
+
+    // Resolve equipped skill definitions from live content, scaled to their
+    // talent rank. Grants are NOT auto-appended here — they only gate which
+    // skills can occupy a slot.
+    const ranks = this.character.skillLoadout.talentRanks ?? {};
+    const equippedSkills: (SkillDefinition | null)[] = this.character.skillLoadout.equippedSkills.map(id => {
+      const skill = id ? this.content.getSkill(id) : undefined;
+      return skill ? applySkillRank(skill, ranks[skill.id] ?? 1) : null;
+    });
 
     // Get grid position from party info via social state
     let gridPosition: PartyGridPosition = 4;
@@ -227,44 +300,30 @@ export class PlayerSession {
       if (member) gridPosition = member.gridPosition;
     }
 
-    return {
+    const combatant = buildPartyCombatant({
       username: this.username,
-      maxHp,
-      currentHp: maxHp,
-      baseDamage,
-      playerDamageType,
-      equipBonuses,
-      setBonuses: setResult.bonuses,
-      gridPosition,
       className: this.character.className,
       level: this.character.level,
+      equipment: this.character.equipment,
       equippedSkills,
-      attackCount: 0,
-      stunTurns: 0,
-      dots: [],
-      hots: [],
-      damageShield: 0,
-      debuffs: [],
-      consecutiveHits: 0,
-      lastTargetId: '',
-      hasResurrected: false,
-      martyrBonus: 0,
-      braceActive: false,
-      braceDamageTaken: 0,
-      interceptActive: false,
-      activeSkillCount: 0,
-    };
+      gridPosition,
+    }, this.getItemDefinitions(), this.content.getAllSets());
+    for (const entry of this.getActiveConsumables()) {
+      if (entry.effect.kind === 'buff') applyConsumableStatus(combatant, entry);
+    }
+    return combatant;
   }
 
   /**
    * Handle victory rewards (called by PartyBattleManager with pre-split rewards).
    * Set `options.unlockTiles = false` to skip adjacent-tile unlocking (dungeon
-   * floors aren't overworld tiles).
+   * floors aren't overworld tiles). `options.rng` is the battle's loot stream,
+   * so affix rolls replay with the battle seed.
    */
   handleVictory(
     rewards: { xp: number; gold: number; items: string[] },
     tile: HexTile,
-    options?: { unlockTiles?: boolean },
+    options?: { unlockTiles?: boolean; rng?: () => number },
   ): void {
     if (!this.character) return;
     this.addLogEntry('Victory!', 'victory');
@@ -276,21 +335,21 @@ export class PlayerSession {
       }
     }
 
-    if (rewards.gold > 0) {
-      addGold(this.character, rewards.gold);
-      this.addLogEntry(`+${rewards.gold} Gold`, 'victory');
+    const gold = Math.round(rewards.gold * (1 + this.getBoost('gold')));
+    if (gold > 0) {
+      addGold(this.character, gold);
+      this.addLogEntry(`+${gold} Gold`, 'victory');
     }
 
     for (const itemId of rewards.items) {
-      const itemDef = this.content.getItem(itemId);
-      if (itemDef && addItemToInventory(this.character.inventory, itemId)) {
-        this.addLogEntry(`Found ${itemDef.name}!`, 'victory');
-      }
+      const key = this.receiveLoot(itemId, options?.rng);
+      if (key) this.addLogEntry(`Found ${this.describeItem(key)}!`, 'victory');
     }
 
-    const { leveledUp, levelsGained } = addXp(this.character, rewards.xp);
-    this.xpRateXpTotal += rewards.xp;
-    this.addLogEntry(`+${rewards.xp} XP`, 'victory');
+    const xp = Math.round(rewards.xp * (1 + this.getBoost('xp')));
+    const { leveledUp, levelsGained } = addXp(this.character, xp);
+    this.xpRateXpTotal += xp;
+    this.addLogEntry(`+${xp} XP`, 'victory');
     if (leveledUp) {
       for (let i = 0; i < levelsGained; i++) {
         this.addLogEntry(`Level up! Now level ${this.character.level - levelsGained + i + 1}!`, 'levelup');
@@ -353,16 +412,54 @@ export class PlayerSession {
    * plus shop items and every piece of any set the player has at least one piece of —
    * the latter so the set-info popup can render piece names instead of item GUIDs.
    */
-  private getOwnedItemDefinitions(setDefs: Record<string, SetDefinition>): Record<string, ItemDefinition> {
+  private getOwnedItemDefinitions(setDefs: Record<string, SetDefinition>, trades: TradeState[] = []): Record<string, ItemDefinition> {
     if (!this.character) return {};
     const defs: Record<string, ItemDefinition> = {};
 
-    // Owned items (unequipped + equipped, deduped)
+    // Owned items (unequipped + equipped, deduped) — instances resolve to their base item plus affixes
     for (const itemId of getOwnedItemIds(this.character.inventory, this.character.equipment)) {
-      const def = this.content.getItem(itemId);
+      const def = this.getItemDefinition(itemId);
       if (def) defs[itemId] = def;
     }
 
+    // Stashed items — the stash panel lists them, instances included
+    for (const tab of this.getStash()) {
+      for (const itemId of Object.keys(tab.items)) {
+        const def = defs[itemId] ? undefined : this.getItemDefinition(itemId);
+        if (def) defs[itemId] = def;
+      }
+    }
+
+    // Gems sitting in owned gear — the popup and stat card look them up by id
+    for (const def of Object.values(defs)) {
+      for (const gemId of def.gems ?? []) {
+        const gem = defs[gemId] ? undefined : this.content.getItem(gemId);
+        if (gem) defs[gemId] = gem;
+      }
+    }
+
+    // Instances waiting in the mailbox carry their own affixes
+    for (const entry of this.getMailbox?.() ?? []) {
+      for (const attachment of entry.attachments) {
+        if (!attachment.instance || defs[attachment.itemId]) continue;
+        const def = resolveItemInstance(attachment.instance, this.content.getAllItems());
+        if (def) defs[attachment.itemId] = def;
+      }
+    }
+
+    // Items on the table in open trades — the partner's instances aren't in this character's records
+    for (const trade of trades) {
+      for (const offer of [trade.initiator, trade.target]) {
+        for (const item of offer?.items ?? []) {
+          if (defs[item.itemId]) continue;
+          const def = item.instance
+            ? resolveItemInstance(item.instance, this.content.getAllItems())
+            : this.content.getItem(item.itemId);
+          if (def) defs[item.itemId] = def;
+        }
+      }
+    }
+
     // Shop items (so client has defs for buyable items)
     const shop = this.getCurrentShopDefinition();
     if (shop) {
@@ -374,6 +471,24 @@ export class PlayerSession {
       }
     }
 
+    // Harvest node yields in the current room (so the room view can name them)
+    for (const node of this.getCurrentRoom()?.harvestNodes ?? []) {
+      for (const drop of node.drops) {
+        if (defs[drop.itemId]) continue;
+        const def = this.content.getItem(drop.itemId);
+        if (def) defs[drop.itemId] = def;
+      }
+    }
+
+    // Buyback list — sold instances are no longer in this character's records
+    for (const entry of this.shopBuyback) {
+      if (defs[entry.itemId]) continue;
+      const def = entry.instance
+        ? resolveItemInstance(entry.instance, this.content.getAllItems())
+        : this.content.getItem(entry.itemId);
+      if (def) defs[entry.itemId] = def;
+    }
+
     // Set pieces — needed so the popup can render names for unowned pieces of a set the player partially owns.
     for (const set of Object.values(setDefs)) {
       for (const itemId of set.itemIds) {
@@ -395,7 +510,7 @@ export class PlayerSession {
    */
   private getOwnedSetDefinitions(): Record<string, SetDefinition> {
     if (!this.character) return {};
-    const ownedItemIds = getOwnedItemIds(this.character.inventory, this.character.equipment);
+    const ownedItemIds = toBaseItemIds(getOwnedItemIds(this.character.inventory, this.character.equipment));
 
     const allSets = this.content.getAllSets();
     const result: Record<string, SetDefinition> = {};
@@ -410,11 +525,19 @@ export class PlayerSession {
 
   /** Get the shop definition for the player's current tile, if any. */
   private getCurrentShopDefinition(): ShopDefinition | undefined {
+    return this.getCurrentShop()?.shop;
+  }
+
+  /** The shop on the player's current tile, with the minimum level of the tile's zone (drives price scaling). */
+  private getCurrentShop(): { shop: ShopDefinition; zoneLevel: number } | undefined {
     const pos = this.getPosition();
-    const world = this.content.getWorld();
-    const tile = world.tiles.find(t => t.col === pos.col && t.row === pos.row);
+    const mapId = this.getMapId();
+    const tile = this.content.getWorld().tiles.find(t => t.mapId === mapId && t.col === pos.col && t.row === pos.row);
     if (!tile?.shopId) return undefined;
-    return this.content.getShop(tile.shopId);
+    const shop = this.content.getShop(tile.shopId);
+    if (!shop) return undefined;
+    const zoneLevel = getZone(tile.zone, this.content.getAllZones())?.levelRange[0] ?? 1;
+    return { shop, zoneLevel };
   }
 
   /** Get the NPC definition for the player's current tile, if any. */
@@ -435,6 +558,7 @@ export class PlayerSession {
     questResolutions: {
       monsters: Record<string, string>;
       items: Record<string, string>;
+      recipes: Record<string, string>;
       tiles: Record<string, { name: string; col: number; row: number }>;
     };
   } {
@@ -466,6 +590,7 @@ export class PlayerSession {
     // Resolve display names for every monster/item/tile referenced by these quests + reward items
     const monsterNames: Record<string, string> = {};
     const itemNames: Record<string, string> = {};
+    const recipeNames: Record<string, string> = {};
     const tileLookups: Record<string, { name: string; col: number; row: number }> = {};
     for (const def of Object.values(defs)) {
       for (const obj of def.objectives) {
@@ -484,6 +609,9 @@ export class PlayerSession {
         if (r.kind === 'item') {
           const it = this.content.getItem(r.itemId);
           if (it) itemNames[r.itemId] = it.name;
+        } else if (r.kind === 'recipe') {
+          const recipe = this.content.getRecipe(r.recipeId);
+          if (recipe) recipeNames[r.recipeId] = recipe.name;
         }
       }
     }
@@ -493,7 +621,7 @@ export class PlayerSession {
       completedQuests: this.quests.getCompleted(),
       questDefinitions: defs,
       offeredQuestIds,
-      questResolutions: { monsters: monsterNames, items: itemNames, tiles: tileLookups },
+      questResolutions: { monsters: monsterNames, items: itemNames, recipes: recipeNames, tiles: tileLookups },
     };
   }
 
@@ -535,15 +663,28 @@ export class PlayerSession {
     let totalXp = 0;
     let totalGold = 0;
     const grantedItems: string[] = [];
+    const grantedRecipes: RecipeDefinition[] = [];
+    const overflow: Record<string, number> = {};
     for (const reward of result.rewards ?? []) {
       if (reward.kind === 'xp') totalXp += reward.amount;
       else if (reward.kind === 'gold') totalGold += reward.amount;
       else if (reward.kind === 'item') {
         for (let i = 0; i < reward.quantity; i++) {
           if (this.addOneToInventory(reward.itemId)) grantedItems.push(reward.itemId);
+          else overflow[reward.itemId] = (overflow[reward.itemId] ?? 0) + 1;
         }
+      } else if (reward.kind === 'recipe') {
+        const recipe = this.content.getRecipe(reward.recipeId);
+        // Already known or not for this class: nothing to teach
+        if (recipe && !getLearnRecipeError(recipe, this.character.className, this.character.knownRecipeIds)) grantedRecipes.push(recipe);
       }
     }
+    // Rewards that would overflow a full stack go to the mailbox instead of being lost
+    const overflowAttachments = Object.entries(overflow).map(([itemId, quantity]) => ({ itemId, quantity }));
+    if (overflowAttachments.length > 0 && this.sendSystemMail) {
+      this.sendSystemMail({ subject: `Quest reward: ${def.name}`, attachments: overflowAttachments });
+      this.addLogEntry("Some quest rewards didn't fit in your bags and were sent to your mailbox.", 'victory');
+    }
     if (totalGold > 0) {
       addGold(this.character, totalGold);
       this.addLogEntry(`+${totalGold} Gold (quest reward)`, 'victory');
@@ -552,6 +693,7 @@ export class PlayerSession {
       const itemDef = this.content.getItem(itemId);
       if (itemDef) this.addLogEntry(`Quest reward: ${itemDef.name}`, 'victory');
     }
+    for (const recipe of grantedRecipes) this.learnRecipe(recipe);
     if (totalXp > 0) {
       const { leveledUp, levelsGained } = addXp(this.character, totalXp);
       this.xpRateXpTotal += totalXp;
@@ -588,7 +730,7 @@ export class PlayerSession {
         maxHp,
         gold: this.character.gold,
         baseDamage: calculateBaseDamage(this.character.level, this.character.className),
-        damageType: CLASS_DEFINITIONS[this.character.className].damageType,
+        damageType: getWeaponDamageType(this.character.equipment, this.getItemDefinitions()) ?? CLASS_DEFINITIONS[this.character.className].damageType,
         skillLoadout: this.character.skillLoadout,
         grantedSkillIds: this.getGrantedSkillIds(),
         inventory: { ...this.character.inventory },
@@ -596,6 +738,10 @@ export class PlayerSession {
         xpRate: { startTime: this.xpRateStartTime, totalXp: this.xpRateXpTotal },
         craftLevel: this.character.craftLevel,
         craftXp: this.character.craftXp,
+        activeConsumables: [...this.getActiveConsumables()],
+        autoUseRules: [...(this.character.autoUseRules ?? [])],
+        loadouts: [...this.getLoadouts()],
+        stash: this.getStash().map(tab => ({ ...tab, items: { ...tab.items } })),
       };
     }
 
@@ -605,6 +751,7 @@ export class PlayerSession {
 
     const setDefs = this.getOwnedSetDefinitions();
     const questBlock = this.buildQuestState();
+    const social = this.getSocialState?.();
 
     return {
       username: this.username,
@@ -618,26 +765,156 @@ export class PlayerSession {
       battleCount: this.battleCount,
       character: charState,
       zoneName,
-      social: this.getSocialState?.(),
-      itemDefinitions: this.getOwnedItemDefinitions(setDefs),
+      social,
+      itemDefinitions: this.getOwnedItemDefinitions(setDefs, social?.proposedTrades),
       setDefinitions: setDefs,
       shopDefinition: this.getCurrentShopDefinition(),
+      shopState: this.getShopState(),
+      stashAvailable: this.isAtStash(),
+      harvestNodes: this.getHarvestNodes(),
       crafting: this.getCraftingState(),
       activeQuests: questBlock.activeQuests,
       completedQuests: questBlock.completedQuests,
       questDefinitions: questBlock.questDefinitions,
       offeredQuestIds: questBlock.offeredQuestIds,
       questResolutions: questBlock.questResolutions,
+      npcRecipeOffers: this.getNpcRecipeOffers(),
       dungeon: this.getDungeonState?.() ?? undefined,
+      salvageTables: this.content.getAllSalvageTables(),
     };
   }
 
+  // ── Consumables ──────────────────────────────────────
+
+  /** Timed consumables still running. Drops expired entries as a side effect. */
+  getActiveConsumables(now: number = Date.now()): ActiveConsumable[] {
+    if (!this.character) return [];
+    this.character.activeConsumables = pruneActiveConsumables(this.character.activeConsumables ?? [], now);
+    return this.character.activeConsumables;
+  }
+
+  /** Strongest running booster for a reward stat, as a bonus fraction (0 = none). */
+  getBoost(stat: BoosterStat, now: number = Date.now()): number {
+    return getActiveBoost(this.character?.activeConsumables ?? [], stat, now);
+  }
+
+  /**
+   * Consume one `itemId` and resolve its effect. Instant effects act on `combat`
+   * (landing on `target`, or wherever `pickConsumableTarget` sends them); timed ones
+   * start their clock and, mid-battle, put a buff's status on this player at once.
+   * Returns the combat-log line, or `{ error }`.
+   */
+  private consume(
+    itemId: string,
+    combat: PartyCombatState | null,
+    target?: PartyCombatant | null,
+    now: number = Date.now(),
+  ): { line: string } | { error: string } {
+    if (!this.character) return { error: 'No character' };
+    const def = this.content.getItem(itemId);
+    const effect = getConsumableEffect(def);
+    if (!def || !effect) return { error: "That item can't be used." };
+    if ((this.character.inventory[itemId] ?? 0) <= 0) return { error: `You have no ${def.name}.` };
+
+    let line: string;
+    if (needsCombat(effect)) {
+      if (!combat || combat.finished) return { error: `${def.name} can only be used in battle.` };
+      const resolved = target ?? pickConsumableTarget(combat, this.username, effect);
+      if (!resolved) return { error: `${def.name} would have no effect right now.` };
+      line = applyConsumableInCombat(combat, this.username, resolved, def, effect);
+    } else if (effect.kind === 'learn_recipe') {
+      const recipe = effect.recipeId ? this.content.getRecipe(effect.recipeId) : undefined;
+      if (!recipe) return { error: `${def.name} is unreadable.` };
+      const error = getLearnRecipeError(recipe, this.character.className, this.character.knownRecipeIds);
+      if (error) return { error };
+      this.learnRecipe(recipe);
+      line = `${this.username} reads ${def.name}.`;
+    } else {
+      this.character.activeConsumables = activateConsumable(this.character.activeConsumables ?? [], def, effect, now);
+      const entry = this.character.activeConsumables[this.character.activeConsumables.length - 1];
+      const self = combat?.players.find(p => p.username === this.username);
+      if (self && effect.kind === 'buff' && !combat!.finished) applyConsumableStatus(self, entry);
+      line = `${this.username} uses ${def.name}.`;
+    }
+    this.removeFromInventory(itemId, 1);
+    return { line };
+  }
+
+  /** Use a consumable by hand. Returns an error message, or null on success. */
+  handleUseConsumable(itemId: string): string | null {
+    const result = this.consume(itemId, this.getCurrentCombat?.() ?? null);
+    if ('error' in result) return result.error;
+    this.addLogEntry(result.line, 'battle');
+    return null;
+  }
+
+  /**
+   * Opt a consumable into auto-use (or out, with a null trigger). Returns an
+   * error message, or null on success.
+   */
+  handleSetAutoUse(itemId: string, trigger: AutoUseTrigger | null, hpPercent?: number): string | null {
+    if (!this.character) return 'No character';
+    const rules = (this.character.autoUseRules ?? []).filter(r => r.itemId !== itemId);
+    if (trigger) {
+      const rule: AutoUseRule = { itemId, trigger };
+      if (trigger === 'member_hp_below' || trigger === 'self_hp_below') rule.hpPercent = hpPercent;
+      const error = validateAutoUseRule(rule, this.content.getItem(itemId));
+      if (error) return error;
+      rules.push(rule);
+    }
+    this.character.autoUseRules = rules;
+    return null;
+  }
+
+  /**
+   * Battle start: drink every `keep_active` consumable whose effect isn't
+   * running, and forget last battle's auto-use timings. Returns the log lines
+   * (PartyBattleManager shows them to the whole party).
+   */
+  runBattleStartAutoUse(combat: PartyCombatState | null, now: number = Date.now()): string[] {
+    this.autoUseFiredAt.clear();
+    if (!this.character) return [];
+    const running = new Set(this.getActiveConsumables(now).map(a => a.itemId));
+    const lines: string[] = [];
+    for (const rule of this.character.autoUseRules ?? []) {
+      if (rule.trigger !== 'keep_active' || running.has(rule.itemId)) continue;
+      if ((this.character.inventory[rule.itemId] ?? 0) <= 0) continue;
+      const result = this.consume(rule.itemId, combat, null, now);
+      if ('line' in result) lines.push(result.line);
+    }
+    return lines;
+  }
+
+  /**
+   * Combat tick: fire the first in-combat auto-use rule whose trigger holds
+   * (at most one consumable per player per tick; each rule then waits
+   * AUTO_USE_TICK_COOLDOWN ticks). Returns the log lines.
+   */
+  runCombatAutoUse(combat: PartyCombatState): string[] {
+    if (!this.character || combat.finished) return [];
+    for (const rule of this.character.autoUseRules ?? []) {
+      if (rule.trigger === 'keep_active') continue;
+      if ((this.character.inventory[rule.itemId] ?? 0) <= 0) continue;
+      const lastFired = this.autoUseFiredAt.get(rule.itemId);
+      if (lastFired !== undefined && combat.tickCount - lastFired < AUTO_USE_TICK_COOLDOWN) continue;
+      const effect = getConsumableEffect(this.content.getItem(rule.itemId));
+      if (!effect || !needsCombat(effect)) continue;
+      const target = getAutoUseTarget(rule, combat, this.username, effect);
+      if (!target) continue;
+      const result = this.consume(rule.itemId, combat, target);
+      if ('error' in result) continue;
+      this.autoUseFiredAt.set(rule.itemId, combat.tickCount);
+      return [result.line];
+    }
+    return [];
+  }
+
   // ── Crafting ──────────────────────────────────────
 
   getCraftingState(now: number = Date.now()): ClientCraftingState | undefined {
     if (!this.character) return undefined;
     const recipes = this.content.getAllRecipes();
-    const visible = getVisibleRecipes(recipes, this.character.className);
+    const visible = getVisibleRecipes(recipes, this.character.className, this.character.knownRecipeIds);
     const unlockLevel = CRAFTING_UNLOCK_LEVEL;
     const unlocked = this.character.level >= unlockLevel;
 
@@ -645,12 +922,15 @@ export class PlayerSession {
     // client can show readable names even for items the player doesn't own yet.
     const allItems = this.content.getAllItems();
     const itemDefs: Record<string, ItemDefinition> = {};
+    const ingredientCrafters: Record<string, string[]> = {};
     for (const recipe of visible) {
       const resultDef = allItems[recipe.result.itemId];
       if (resultDef) itemDefs[recipe.result.itemId] = resultDef;
       for (const ing of recipe.ingredients) {
         const ingDef = allItems[ing.itemId];
         if (ingDef) itemDefs[ing.itemId] = ingDef;
+        const crafters = getItemCrafterClasses(ing.itemId, recipes);
+        if (crafters.length > 0 && !crafters.includes(this.character.className)) ingredientCrafters[ing.itemId] = crafters;
       }
     }
 
@@ -665,6 +945,7 @@ export class PlayerSession {
       skillXp: this.character.craftXp,
       skillXpForNext: xpForCraftLevel(this.character.craftLevel),
       itemDefs,
+      ingredientCrafters,
     };
   }
 
@@ -674,19 +955,36 @@ export class PlayerSession {
     if (this.craftQueue.jobs.length === 0) return false;
     const recipes = this.content.getAllRecipes();
     const items = this.content.getAllItems();
-    const events = processCompletions(recipes, this.character.inventory, this.craftQueue, now);
+    const events = processCompletions(recipes, this.character.inventory, this.craftQueue, now, {
+      craftLevel: this.character.craftLevel,
+      items,
+    }, this.deliverWorkOrder);
     if (events.length === 0) return false;
     let totalCraftXp = 0;
     for (const ev of events) {
       const itemDef = items[ev.resultItemId];
       const itemName = itemDef?.name ?? ev.resultItemId;
-      if (ev.quantityProduced > 0) {
-        const qtyStr = ev.quantityProduced > 1 ? `x${ev.quantityProduced}` : '';
+      const instances = ev.instances ?? [];
+      for (const instance of instances) {
+        this.character.itemInstances[instance.id] = instance;
+        this.addLogEntry(`Crafted ${this.describeItem(instance.id)}!`, 'unlock');
+      }
+      const delivered = ev.quantityDelivered ?? 0;
+      const normal = ev.quantityProduced - instances.length;
+      const crafted = normal + delivered;
+      if (crafted > 0) {
+        const qtyStr = crafted > 1 ? `x${crafted}` : '';
         this.addLogEntry(`Crafted ${itemName}${qtyStr}.`, 'unlock');
       }
       if (ev.quantityLost > 0) {
         this.addLogEntry(`Crafted ${itemName} but inventory full — lost ${ev.quantityLost}.`, 'damage');
       }
+      if (delivered > 0) {
+        this.addLogEntry(`Delivered ${itemName}${delivered > 1 ? ` x${delivered}` : ''} to a work order. Payment is in your mailbox.`, 'victory');
+      }
+      if (ev.workOrderId && normal > 0) {
+        this.addLogEntry(`The work order no longer needed ${itemName} — you keep ${normal}.`, 'move');
+      }
       const recipe = recipes[ev.recipeId];
       if (recipe?.xpReward) totalCraftXp += recipe.xpReward;
     }
@@ -700,10 +998,18 @@ export class PlayerSession {
     return true;
   }
 
-  handleCraftQueue(recipeId: string, now: number = Date.now()): { ok: true } | { ok: false; reason: EnqueueError | 'no_character' | 'unknown_recipe' } {
+  /** Queue a recipe, optionally to fill a work order with its output on completion. */
+  handleCraftQueue(
+    recipeId: string,
+    now: number = Date.now(),
+    workOrderId?: string,
+  ): { ok: true } | { ok: false; reason: EnqueueError | 'no_character' | 'unknown_recipe' | 'work_order_unavailable' } {
     if (!this.character) return { ok: false, reason: 'no_character' };
     const recipe = this.content.getRecipe(recipeId);
-    if (!recipe) return { ok: false, reason: 'unknown_recipe' };
+    if (!recipe || !isRecipeKnown(recipe, this.character.knownRecipeIds)) return { ok: false, reason: 'unknown_recipe' };
+    if (workOrderId && this.getWorkOrderFillError?.(workOrderId, recipe.result.itemId) !== null) {
+      return { ok: false, reason: 'work_order_unavailable' };
+    }
     // Drain completions first so the queue accurately reflects current state.
     this.processCraftCompletions(now);
     const result = enqueueRecipe(
@@ -713,12 +1019,53 @@ export class PlayerSession {
       this.character.className,
       this.character.level,
       now,
+      this.character.craftLevel,
+      workOrderId,
     );
     if (!result.ok) return result;
-    this.addLogEntry(`Started crafting ${recipe.name}.`, 'battle');
+    this.addLogEntry(`Started crafting ${recipe.name}${workOrderId ? ' for a work order' : ''}.`, 'battle');
     return { ok: true };
   }
 
+  /** Add a discoverable recipe to the character's known list. Callers check `getLearnRecipeError` first. */
+  private learnRecipe(recipe: RecipeDefinition): void {
+    if (!this.character) return;
+    this.character.knownRecipeIds = [...(this.character.knownRecipeIds ?? []), recipe.id];
+    this.addLogEntry(`Learned recipe: ${recipe.name}!`, 'unlock');
+  }
+
+  /** Recipes the NPC in this room teaches, with why each can't be learned (if so). */
+  private getNpcRecipeOffers(): ClientNpcRecipeOffer[] | undefined {
+    const offers = this.getCurrentNpc()?.recipesForSale;
+    if (!this.character || !offers || offers.length === 0) return undefined;
+    const out: ClientNpcRecipeOffer[] = [];
+    for (const offer of offers) {
+      const recipe = this.content.getRecipe(offer.recipeId);
+      if (!recipe) continue;
+      out.push({
+        recipeId: recipe.id,
+        name: recipe.name,
+        price: offer.price,
+        blockedReason: getLearnRecipeError(recipe, this.character.className, this.character.knownRecipeIds),
+      });
+    }
+    return out;
+  }
+
+  /** Pay the NPC in this room to teach a recipe. Returns an error message, or null on success. */
+  handleLearnRecipe(recipeId: string): string | null {
+    if (!this.character) return 'No character';
+    const offer = this.getCurrentNpc()?.recipesForSale?.find(o => o.recipeId === recipeId);
+    const recipe = this.content.getRecipe(recipeId);
+    if (!offer || !recipe) return 'No one here teaches that recipe.';
+    const error = getLearnRecipeError(recipe, this.character.className, this.character.knownRecipeIds);
+    if (error) return error;
+    if (this.character.gold < offer.price) return 'Not enough gold';
+    this.character.gold -= offer.price;
+    this.learnRecipe(recipe);
+    return null;
+  }
+
   handleCraftCancel(index: number, now: number = Date.now()): boolean {
     if (!this.character) return false;
     this.processCraftCompletions(now);
@@ -824,6 +1171,7 @@ export class PlayerSession {
     if (current <= 0) return false;
     if (current === 1) {
       delete this.character.inventory[itemId];
+      this.forgetItemInstanceIfGone(itemId);
     } else {
       this.character.inventory[itemId] = current - 1;
     }
@@ -844,6 +1192,7 @@ export class PlayerSession {
     const newCount = current - quantity;
     if (newCount === 0) {
       delete this.character.inventory[itemId];
+      this.forgetItemInstanceIfGone(itemId);
     } else {
       this.character.inventory[itemId] = newCount;
     }
@@ -859,6 +1208,67 @@ export class PlayerSession {
     return true;
   }
 
+  // ── Item instances ──────────────────────────────────────────────
+
+  /** Live item definitions plus this character's rolled instances (keyed by instance id). */
+  getItemDefinitions(): Record<string, ItemDefinition> {
+    return withItemInstances(this.content.getAllItems(), this.character?.itemInstances);
+  }
+
+  /** Definition for an inventory key — a content item id or one of this character's instance ids. */
+  getItemDefinition(itemId: string): ItemDefinition | undefined {
+    const instance = this.character?.itemInstances[itemId];
+    return instance ? resolveItemInstance(instance, this.content.getAllItems()) : this.content.getItem(itemId);
+  }
+
+  /** The rolled instance behind an inventory key, if it is one this character owns. */
+  getItemInstance(itemId: string): ItemInstance | undefined {
+    return this.character?.itemInstances[itemId];
+  }
+
+  /**
+   * Take ownership of an instance (trade, gift) and put it in the unequipped
+   * inventory. Returns false if this character already holds that id.
+   */
+  addItemInstance(instance: ItemInstance): boolean {
+    if (!this.character) return false;
+    if (this.character.itemInstances[instance.id] || this.character.inventory[instance.id]) return false;
+    this.character.itemInstances[instance.id] = instance;
+    this.character.inventory[instance.id] = 1;
+    return true;
+  }
+
+  /**
+   * Grant a looted item. Gear of a rarity with affix slots rolls into a unique
+   * instance (see `rollItemInstance`); everything else stacks as before.
+   * Returns the inventory key the item landed under, or null if it didn't fit.
+   * `rng` drives the affix rolls and instance id (pass the battle's stream).
+   */
+  receiveLoot(itemId: string, rng: () => number = Math.random): string | null {
+    if (!this.character) return null;
+    const def = this.content.getItem(itemId);
+    if (!def) return null;
+    const instance = rollItemInstance(def, this.content.getAllAffixes(), rng);
+    if (instance && this.addItemInstance(instance)) return instance.id;
+    return addItemToInventory(this.character.inventory, itemId) ? itemId : null;
+  }
+
+  /** Display name for log lines — instances list their affix names, e.g. "Rusty Dagger (Keen, Flaming)". */
+  describeItem(itemId: string): string {
+    const def = this.getItemDefinition(itemId);
+    if (!def) return itemId;
+    return def.affixes?.length ? `${def.name} (${def.affixes.map(a => a.name).join(', ')})` : def.name;
+  }
+
+  /** Drop an instance record once its id is in neither the inventory nor any equipment slot. */
+  private forgetItemInstanceIfGone(itemId: string): void {
+    if (!this.character || !isItemInstanceId(itemId)) return;
+    if (this.character.inventory[itemId]) return;
+    if (Object.values(this.character.equipment).includes(itemId)) return;
+    if (isItemStashed(this.getStash(), itemId)) return;
+    delete this.character.itemInstances[itemId];
+  }
+
   getGold(): number { return this.character?.gold ?? 0; }
 
   /** Deduct gold from the character. Returns false if insufficient gold. */
@@ -968,21 +1378,26 @@ export class PlayerSession {
     if (!this.character) return [];
     return computeGrantedSkillIds(
       this.character.equipment,
-      this.content.getAllItems(),
+      this.getItemDefinitions(),
       this.content.getAllSets(),
       this.character.className,
     );
   }
 
   /**
-   * Auto-unlock all skills the player qualifies for based on level, then
-   * reconcile the equipped loadout against current content (schedule length,
-   * removed/edited skills, lost grants).
+   * Auto-unlock all skills the player qualifies for based on level (plus learned
+   * talents), then reconcile the equipped loadout against current content
+   * (schedule length, removed/edited skills, lost grants).
    */
   autoUnlockSkills(): void {
     if (!this.character) return;
     const skillContent = this.skillContent();
-    this.character.skillLoadout.unlockedSkills = getUnlockedSkillsForLevel(this.character.className, this.character.level, skillContent);
+    this.character.skillLoadout.unlockedSkills = getUnlockedSkillsForLevel(
+      this.character.className,
+      this.character.level,
+      skillContent,
+      this.character.skillLoadout.talentRanks,
+    );
     this.character.skillLoadout = reconcileSkillLoadout(
       this.character.skillLoadout,
       this.character.className,
@@ -1015,6 +1430,33 @@ export class PlayerSession {
     return true;
   }
 
+  /** Spend a talent point on the next rank of a talent skill. Returns an error message, or null on success. */
+  handleLearnTalent(skillId: string): string | null {
+    if (!this.character) return 'No character';
+    const ranks = this.character.skillLoadout.talentRanks ?? {};
+    const error = canLearnTalent(skillId, this.character.className, this.character.level, ranks, this.skillContent());
+    if (error) return error;
+    this.character.skillLoadout.talentRanks = { ...ranks, [skillId]: (ranks[skillId] ?? 0) + 1 };
+    this.autoUnlockSkills();
+    return null;
+  }
+
+  /**
+   * Refund every talent point for gold. Talent skills leave their slots (the
+   * reconcile in autoUnlockSkills nulls them). Returns an error message, or null.
+   */
+  handleRespecTalents(): string | null {
+    if (!this.character) return 'No character';
+    const ranks = this.character.skillLoadout.talentRanks ?? {};
+    if (Object.keys(ranks).length === 0) return 'No talent points to refund.';
+    const cost = getRespecCost(this.character.level);
+    if (!this.deductGold(cost)) return `Respec costs ${cost} gold.`;
+    this.character.skillLoadout.talentRanks = {};
+    this.autoUnlockSkills();
+    this.addLogEntry(`Talents reset for ${cost} gold.`, 'battle');
+    return null;
+  }
+
   addLogEntry(text: string, type: CombatLogEntry['type']): void {
     this.combatLog.push({ id: ++this.logIdCounter, text, type });
     if (this.combatLog.length > MAX_LOG_ENTRIES) {
@@ -1094,9 +1536,16 @@ export class PlayerSession {
         gold: this.character.gold,
         inventory: { ...this.character.inventory },
         equipment: { ...this.character.equipment },
+        itemInstances: { ...this.character.itemInstances },
         skillLoadout: { ...this.character.skillLoadout },
         craftLevel: this.character.craftLevel,
         craftXp: this.character.craftXp,
+        activeConsumables: this.getActiveConsumables().map(a => ({ ...a })),
+        autoUseRules: (this.character.autoUseRules ?? []).map(r => ({ ...r })),
+        loadouts: this.getLoadouts().map(l => ({ ...l, equipment: { ...l.equipment }, equippedSkills: [...l.equippedSkills] })),
+        stash: this.getStash().map(tab => ({ ...tab, items: { ...tab.items } })),
+        knownRecipeIds: [...(this.character.knownRecipeIds ?? [])],
+        harvestReadyAt: pruneHarvestTimers(this.character.harvestReadyAt ?? {}, Date.now()),
       } : undefined,
       friends: [...this.friends],
       outgoingFriendRequests: [...this.outgoingFriendRequests],
@@ -1109,6 +1558,7 @@ export class PlayerSession {
       chatSendChannel: this.chatSendChannel,
       chatDmTarget: this.chatDmTarget,
       mailbox: this.getMailbox ? this.getMailbox() : this.initialMailbox,
+      shopBuyback: this.shopBuyback.map(entry => ({ ...entry })),
       craftQueue: { activeStartedAtMs: this.craftQueue.activeStartedAtMs, jobs: [...this.craftQueue.jobs] },
       activeQuests: this.quests.toSaveData().active,
       completedQuests: this.quests.toSaveData().completed,
@@ -1192,9 +1642,17 @@ export class PlayerSession {
         equipment: data.character.equipment
           ? { ...data.character.equipment }
           : { head: null, shoulders: null, chest: null, bracers: null, gloves: null, mainhand: null, offhand: null, foot: null, ring: null, necklace: null, back: null, relic: null },
+        // Saves from before item instances hold only stackables
+        itemInstances: data.character.itemInstances ? { ...data.character.itemInstances } : {},
         skillLoadout,
         craftLevel: data.character.craftLevel ?? 1,
         craftXp: data.character.craftXp ?? 0,
+        activeConsumables: data.character.activeConsumables ? [...data.character.activeConsumables] : [],
+        autoUseRules: data.character.autoUseRules ? [...data.character.autoUseRules] : [],
+        loadouts: data.character.loadouts ? [...data.character.loadouts] : [],
+        stash: normalizeStash(data.character.stash),
+        knownRecipeIds: data.character.knownRecipeIds ? [...data.character.knownRecipeIds] : [],
+        harvestReadyAt: data.character.harvestReadyAt ? { ...data.character.harvestReadyAt } : {},
       };
     } else {
       // Invalid or legacy class — no character (will force class selection on login)
@@ -1219,6 +1677,7 @@ export class PlayerSession {
     session['chatSendChannel'] = (data.chatSendChannel as ChatChannelType) ?? 'zone';
     session['chatDmTarget'] = data.chatDmTarget ?? '';
     session['initialMailbox'] = data.mailbox ? [...data.mailbox] : [];
+    session['shopBuyback'] = data.shopBuyback ? [...data.shopBuyback] : [];
     session['initialNotifications'] = data.notifications ? [...data.notifications] : [];
     session['notificationPreferences'] = data.notificationPreferences ?? emptyNotificationPreferences();
     session['pushSubscriptions'] = data.pushSubscriptions ? [...data.pushSubscriptions] : [];
@@ -1232,6 +1691,7 @@ export class PlayerSession {
     // XP rate tracking — auto-start from session restore time
     session['xpRateStartTime'] = Date.now();
     session['xpRateXpTotal'] = 0;
+    session['autoUseFiredAt'] = new Map();
 
     // Add server-online log entry
     session['addLogEntry']('Server back online — resuming!', 'battle');
@@ -1241,10 +1701,10 @@ export class PlayerSession {
 
   handleEquipItem(itemId: string): boolean {
     if (!this.character) return false;
-    const def = this.content.getItem(itemId);
+    const def = this.getItemDefinition(itemId);
     if (!def || !def.equipSlot) return false;
 
-    const result = equipItem(this.character.inventory, this.character.equipment, itemId, this.content.getAllItems(), this.character.className);
+    const result = equipItem(this.character.inventory, this.character.equipment, itemId, this.getItemDefinitions(), this.character.className);
     if (result.success) this.reconcileLoadoutAfterEquipmentChange();
     return result.success;
   }
@@ -1287,10 +1747,10 @@ export class PlayerSession {
     const equippedInSlot = this.character.equipment[slot];
     if (equippedInSlot) {
       const lockedIds = this.getLockedItemIds();
-      if (lockedIds.includes(equippedInSlot)) return { success: false, lockedByTile: true };
+      if (lockedIds.includes(getBaseItemId(equippedInSlot))) return { success: false, lockedByTile: true };
     }
 
-    const result = unequipItem(this.character.inventory, this.character.equipment, slot, this.content.getAllItems());
+    const result = unequipItem(this.character.inventory, this.character.equipment, slot, this.getItemDefinitions());
     if (result.success) this.reconcileLoadoutAfterEquipmentChange();
     return { success: result.success };
   }
@@ -1298,7 +1758,7 @@ export class PlayerSession {
   /** Check why equip failed — returns the blocking item info if inventory full. */
   getEquipBlockInfo(itemId: string): { blockedByItemId: string; blockedBySlot: EquipSlot } | null {
     if (!this.character) return null;
-    const def = this.content.getItem(itemId);
+    const def = this.getItemDefinition(itemId);
     if (!def || !def.equipSlot) return null;
 
     const slot = def.equipSlot;
@@ -1306,7 +1766,7 @@ export class PlayerSession {
     const is2H = slot === 'twohanded';
 
     // If a 2H weapon is equipped and we're touching mainhand/offhand/twohanded, check that
-    if ((slot === 'mainhand' || slot === 'offhand' || is2H) && isTwoHandedEquipped(this.character.equipment, this.content.getAllItems())) {
+    if ((slot === 'mainhand' || slot === 'offhand' || is2H) && isTwoHandedEquipped(this.character.equipment, this.getItemDefinitions())) {
       const twoHandId = this.character.equipment.mainhand!;
       const current = this.character.inventory[twoHandId] ?? 0;
       if (current >= 99) {
@@ -1342,19 +1802,404 @@ export class PlayerSession {
 
   handleEquipItemForceDestroy(itemId: string): boolean {
     if (!this.character) return false;
-    const def = this.content.getItem(itemId);
+    const def = this.getItemDefinition(itemId);
     if (!def || !def.equipSlot) return false;
 
     const result = equipItemForceDestroy(
-      this.character.inventory, this.character.equipment, itemId, this.content.getAllItems(), this.character.className
+      this.character.inventory, this.character.equipment, itemId, this.getItemDefinitions(), this.character.className
     );
-    if (result.success) this.reconcileLoadoutAfterEquipmentChange();
+    if (result.success) {
+      if (result.destroyedItemId) this.forgetItemInstanceIfGone(result.destroyedItemId);
+      this.reconcileLoadoutAfterEquipmentChange();
+    }
     return result.success;
   }
 
+  // ── Loadouts ──────────────────────────────────────
+
+  getLoadouts(): SavedLoadout[] {
+    return this.character?.loadouts ?? [];
+  }
+
+  /**
+   * Save the current equipment and skill slots under `name`, replacing a loadout
+   * with the same name. Returns an error message, or null on success.
+   */
+  handleSaveLoadout(name: string): string | null {
+    if (!this.character) return 'No character';
+    const nameError = validateLoadoutName(name);
+    if (nameError) return nameError;
+    const trimmed = name.trim();
+    const loadouts = this.getLoadouts().filter(l => l.name !== trimmed);
+    if (loadouts.length >= MAX_LOADOUTS) return `You can save at most ${MAX_LOADOUTS} loadouts.`;
+    loadouts.push({
+      name: trimmed,
+      equipment: { ...this.character.equipment },
+      equippedSkills: [...this.character.skillLoadout.equippedSkills],
+    });
+    this.character.loadouts = loadouts;
+    return null;
+  }
+
+  /** Returns an error message, or null on success. */
+  handleDeleteLoadout(name: string): string | null {
+    if (!this.character) return 'No character';
+    const loadouts = this.getLoadouts();
+    if (!loadouts.some(l => l.name === name)) return 'No such loadout.';
+    this.character.loadouts = loadouts.filter(l => l.name !== name);
+    return null;
+  }
+
+  /**
+   * Swap all equipment and skill slots to a saved loadout at once (see
+   * `applyLoadoutEquipment`): nothing changes if a piece is class-restricted,
+   * a two-handed weapon clashes, or a path-locked item would come off. Pieces
+   * and skills the player no longer has are left empty and listed in the log.
+   * Returns an error message, or null on success.
+   */
+  handleApplyLoadout(name: string): string | null {
+    if (!this.character) return 'No character';
+    const loadout = this.getLoadouts().find(l => l.name === name);
+    if (!loadout) return 'No such loadout.';
+
+    const result = applyLoadoutEquipment(
+      this.character.inventory, this.character.equipment, loadout,
+      this.getItemDefinitions(), this.character.className, this.getLockedItemIds(),
+    );
+    if (!result.success) return result.error;
+    this.character.inventory = result.inventory;
+    this.character.equipment = result.equipment;
+
+    this.character.skillLoadout = reconcileSkillLoadout(
+      { ...this.character.skillLoadout, equippedSkills: [...loadout.equippedSkills] },
+      this.character.className,
+      this.character.level,
+      this.getGrantedSkillIds(),
+      this.skillContent(),
+    );
+    const skills = this.skillContent().skills;
+    const missing = [
+      ...result.missing.map(key => this.content.getItem(getBaseItemId(key))?.name ?? key),
+      ...loadout.equippedSkills
+        .filter((id, i): id is string => !!id && this.character!.skillLoadout.equippedSkills[i] !== id)
+        .map(id => skills[id]?.name ?? id),
+    ];
+
+    this.addLogEntry(`Equipped loadout "${loadout.name}".`, 'battle');
+    if (missing.length > 0) this.addLogEntry(`Missing from "${loadout.name}": ${missing.join(', ')}.`, 'battle');
+    return null;
+  }
+
+  // ── Harvesting ────────────────────────────────────
+
+  private getHarvestBlockedReason(node: HarvestNode): string | null {
+    if (!this.character) return 'No character';
+    return getHarvestBlockedReason(
+      node,
+      this.character.level >= CRAFTING_UNLOCK_LEVEL,
+      this.character.craftLevel,
+      getCraftSkillName(this.character.className),
+    );
+  }
+
+  /** Harvest nodes in the current room, with this player's respawn timers. */
+  private getHarvestNodes(now: number = Date.now()): ClientHarvestNode[] | undefined {
+    const tile = this.getCurrentRoom();
+    if (!this.character || !tile?.harvestNodes?.length) return undefined;
+    const readyAt = this.character.harvestReadyAt ?? {};
+    return tile.harvestNodes.map(node => {
+      const key = getHarvestNodeKey(tile.id, node.id);
+      return {
+        id: node.id,
+        kind: node.kind,
+        name: node.name,
+        requiredCraftLevel: getHarvestNodeCraftLevel(node),
+        itemIds: node.drops.map(d => d.itemId),
+        readyAt: isHarvestNodeReady(readyAt, key, now) ? null : readyAt[key],
+        blockedReason: this.getHarvestBlockedReason(node),
+      };
+    });
+  }
+
+  /**
+   * Gather from every ready node in `tile` this player qualifies for — called
+   * by PartyBattleManager after a won battle while the party idles there.
+   * Each gather rolls the node's drops, grants its craft XP and starts its
+   * respawn timer, even when nothing dropped. Returns true if anything was gathered.
+   */
+  gatherHarvestNodes(tile: WorldTileDefinition, now: number = Date.now(), rng: () => number = Math.random): boolean {
+    if (!this.character || !tile.harvestNodes?.length) return false;
+    const readyAt = this.character.harvestReadyAt ?? (this.character.harvestReadyAt = {});
+    let gathered = false;
+    let totalCraftXp = 0;
+    for (const node of tile.harvestNodes) {
+      const key = getHarvestNodeKey(tile.id, node.id);
+      if (!isHarvestNodeReady(readyAt, key, now) || this.getHarvestBlockedReason(node)) continue;
+      readyAt[key] = now + node.respawnSeconds * 1000;
+      gathered = true;
+      const found: string[] = [];
+      for (const itemId of rollDrops(node.drops, rng)) {
+        const itemKey = this.receiveLoot(itemId, rng);
+        if (itemKey) found.push(this.describeItem(itemKey));
+      }
+      this.addLogEntry(
+        found.length > 0 ? `Gathered ${found.join(', ')} from ${node.name}.` : `Found nothing at ${node.name}.`,
+        found.length > 0 ? 'unlock' : 'move',
+      );
+      totalCraftXp += node.xpReward ?? 0;
+    }
+    if (totalCraftXp > 0) {
+      const result = addCraftXp(this.character, totalCraftXp);
+      if (result.leveledUp) {
+        this.addLogEntry(`${getCraftSkillName(this.character.className)} reached level ${this.character.craftLevel}!`, 'levelup');
+      }
+    }
+    return gathered;
+  }
+
+  // ── Stash ──────────────────────────────────────────
+
+  getStash(): StashTab[] {
+    if (!this.character) return [];
+    if (!this.character.stash) this.character.stash = normalizeStash(undefined);
+    return this.character.stash;
+  }
+
+  /** Definition of the room the party is standing in. */
+  private getCurrentRoom(): WorldTileDefinition | undefined {
+    const pos = this.getPosition();
+    const mapId = this.getMapId();
+    return this.content.getWorld().tiles.find(t => t.mapId === mapId && t.col === pos.col && t.row === pos.row);
+  }
+
+  /** Whether the room the party is standing in is flagged as a stash room. */
+  isAtStash(): boolean {
+    return !!this.getCurrentRoom()?.stash;
+  }
+
+  /** Move unequipped items into a stash tab. Returns an error message, or null on success. */
+  handleStashDeposit(tabIndex: number, itemId: string, quantity: number): string | null {
+    if (!this.character) return 'No character';
+    if (!this.isAtStash()) return 'You can only use your stash in a town with a stash.';
+    const tab = this.getStash()[tabIndex];
+    const error = getStashDepositError(tab, itemId, quantity, this.getInventoryCount(itemId));
+    if (error) return error;
+    // Move the count directly — removeFromInventory would drop a stashed instance's record
+    const remaining = this.character.inventory[itemId] - quantity;
+    if (remaining > 0) this.character.inventory[itemId] = remaining;
+    else delete this.character.inventory[itemId];
+    tab.items[itemId] = (tab.items[itemId] ?? 0) + quantity;
+    this.addLogEntry(`Stashed ${this.describeStack(itemId, quantity)} in ${tab.name}.`, 'move');
+    return null;
+  }
+
+  /** Move items from a stash tab back into the carried inventory. Returns an error message, or null on success. */
+  handleStashWithdraw(tabIndex: number, itemId: string, quantity: number): string | null {
+    if (!this.character) return 'No character';
+    if (!this.isAtStash()) return 'You can only use your stash in a town with a stash.';
+    const tab = this.getStash()[tabIndex];
+    const error = getStashWithdrawError(tab, itemId, quantity, this.getInventoryCount(itemId));
+    if (error) return error;
+    const remaining = tab.items[itemId] - quantity;
+    if (remaining > 0) tab.items[itemId] = remaining;
+    else delete tab.items[itemId];
+    this.character.inventory[itemId] = this.getInventoryCount(itemId) + quantity;
+    this.addLogEntry(`Took ${this.describeStack(itemId, quantity)} from ${tab.name}.`, 'move');
+    return null;
+  }
+
+  /** "Iron Ore x5" / "Rusty Dagger (Keen)" for log lines. */
+  private describeStack(itemId: string, quantity: number): string {
+    const name = this.describeItem(itemId);
+    return quantity > 1 ? `${name} x${quantity}` : name;
+  }
+
+  // ── Shop ───────────────────────────────────────────
+
+  /** Live stock of a shop — unwired sessions (tests) see a full shelf. */
+  private readShopStock(shop: ShopDefinition): ShopStockState {
+    return this.getShopStock?.(shop) ?? fullShopStock(shop, Date.now());
+  }
+
+  /** Prices, stock and buyback for the shop the player is standing in, if any. */
+  private getShopState(): ClientShopState | undefined {
+    const current = this.getCurrentShop();
+    if (!current) return undefined;
+    const { shop, zoneLevel } = current;
+    const stock = this.readShopStock(shop);
+    const prices: Record<string, number> = {};
+    for (const item of shop.inventory) prices[item.itemId] = getShopItemPrice(item, shop, zoneLevel);
+    return {
+      prices,
+      stock: { ...stock.stock },
+      restockAt: getNextRestockAt(shop, stock),
+      buyback: this.shopBuyback.map(entry => ({ ...entry })),
+    };
+  }
+
+  getShopBuyback(): BuybackEntry[] {
+    return this.shopBuyback;
+  }
+
+  /** Buy one of `itemId` from the shop on the current tile. Returns an error message, or null on success. */
+  handleShopBuy(itemId: string): string | null {
+    if (!this.character) return 'No character';
+    const current = this.getCurrentShop();
+    if (!current) return 'No shop here';
+    const { shop, zoneLevel } = current;
+
+    const shopItem = shop.inventory.find(si => si.itemId === itemId);
+    if (!shopItem) return 'Item not available in this shop';
+    const price = getShopItemPrice(shopItem, shop, zoneLevel);
+    if (this.getGold() < price) return 'Not enough gold';
+    if (getShopStockCount(this.readShopStock(shop), itemId) < 1) return 'Sold out';
+    if (this.getInventoryCount(itemId) >= MAX_STACK) return 'Inventory full';
+
+    if (this.takeShopStock && !this.takeShopStock(shop, itemId, 1)) return 'Sold out';
+    this.addOneToInventory(itemId);
+    this.deductGold(price);
+    this.addLogEntry(`Bought ${this.content.getItem(itemId)?.name ?? itemId} for ${price} gold`, 'victory');
+    return null;
+  }
+
+  /**
+   * Sell unequipped items for their value. The sale goes on the buyback list
+   * (instances keep their rolled record there). Returns an error message, or null on success.
+   */
+  handleShopSell(itemId: string, quantity: number): string | null {
+    if (!this.character) return 'No character';
+    if (!Number.isInteger(quantity) || quantity < 1) return 'Invalid quantity';
+    if (this.getInventoryCount(itemId) < quantity) return 'Not enough items';
+    const itemDef = this.getItemDefinition(itemId);
+    if (!itemDef) return 'Unknown item';
+
+    const unitPrice = itemDef.value ?? 1;
+    const instance = this.getItemInstance(itemId);
+    if (!this.removeFromInventory(itemId, quantity)) return 'Failed to remove items';
+    this.grantGold(unitPrice * quantity);
+    this.shopBuyback = pushBuyback(this.shopBuyback, {
+      itemId,
+      quantity,
+      unitPrice,
+      ...(instance ? { instance } : {}),
+      soldAt: Date.now(),
+    });
+
+    const itemName = quantity > 1 ? `${itemDef.name} x${quantity}` : itemDef.name;
+    this.addLogEntry(`Sold ${itemName} for ${unitPrice * quantity} gold`, 'victory');
+    return null;
+  }
+
+  /** Buy back entry `index` of the buyback list at what it sold for. Returns an error message, or null on success. */
+  handleShopBuyback(index: number): string | null {
+    if (!this.character) return 'No character';
+    if (!this.getCurrentShop()) return 'No shop here';
+    const entry = this.shopBuyback[index];
+    if (!entry) return 'That sale is no longer available';
+    const cost = entry.unitPrice * entry.quantity;
+    if (this.getGold() < cost) return 'Not enough gold';
+
+    if (entry.instance) {
+      if (!this.addItemInstance(entry.instance)) return 'You already have that item';
+    } else if (!this.addToInventory(entry.itemId, entry.quantity)) {
+      return 'Inventory full';
+    }
+    this.deductGold(cost);
+    this.shopBuyback.splice(index, 1);
+    this.addLogEntry(`Bought back ${this.describeStack(entry.itemId, entry.quantity)} for ${cost} gold`, 'victory');
+    return null;
+  }
+
+  /**
+   * Slot a gem into gear (`equipped` picks the worn copy over an inventory one).
+   * Returns an error message, or null on success.
+   */
+  handleSocketGem(itemId: string, gemId: string, equipped: boolean): string | null {
+    if (!this.character) return 'No character';
+    const result = socketGem(this.character, itemId, gemId, this.content.getAllItems(), equipped);
+    if (!result.success) return result.error;
+    if (equipped) this.reconcileLoadoutAfterEquipmentChange();
+    this.addLogEntry(`Socketed ${this.content.getItem(gemId)?.name ?? gemId} into ${this.describeItem(result.itemKey)}.`, 'battle');
+    return null;
+  }
+
+  /** Pull a gem out of gear, for its removal fee or destroying it. Returns an error message, or null on success. */
+  handleUnsocketGem(itemId: string, index: number, destroy: boolean): string | null {
+    if (!this.character) return 'No character';
+    const result = unsocketGem(this.character, itemId, index, this.content.getAllItems(), destroy);
+    if (!result.success) return result.error;
+    this.reconcileLoadoutAfterEquipmentChange();
+    const gemName = this.content.getItem(result.gemId)?.name ?? result.gemId;
+    this.addLogEntry(
+      destroy ? `Destroyed ${gemName} from ${this.describeItem(itemId)}.` : `Removed ${gemName} for ${result.cost} gold.`,
+      'battle',
+    );
+    return null;
+  }
+
+  /**
+   * Break `count` unequipped copies of a gear item down into crafting materials
+   * via its rarity's salvage table. Items the current path needs are kept.
+   * Returns an error message, or null on success.
+   */
+  handleSalvage(itemId: string, count: number): string | null {
+    if (!this.character) return 'No character';
+    if (this.getLockedItemIds().includes(getBaseItemId(itemId))) return 'That item is needed for the path ahead.';
+    const name = this.describeItem(itemId);
+    const result = salvageItems(
+      this.character.inventory, itemId, count, this.getItemDefinitions(), this.content.getAllSalvageTables(),
+    );
+    if (!result.success) return result.error;
+    this.forgetItemInstanceIfGone(itemId);
+    this.addLogEntry(`Salvaged ${count > 1 ? `${count}× ` : ''}${name} into ${this.describeMaterials(result.materials)}.`, 'unlock');
+    return null;
+  }
+
+  /**
+   * Salvage every unequipped gear item of the given rarities, skipping path-locked
+   * items. Each stack is clamped to what its materials have room for; whatever
+   * doesn't fit stays in the inventory and the summary says so.
+   * Returns an error message, or null if anything was salvaged.
+   */
+  handleSalvageAll(rarities: ItemRarity[]): string | null {
+    if (!this.character) return 'No character';
+    const tables = this.content.getAllSalvageTables();
+    const items = this.getItemDefinitions();
+    const keys = getBulkSalvageKeys(this.character.inventory, items, tables, rarities, this.getLockedItemIds());
+    if (keys.length === 0) return 'Nothing to salvage.';
+
+    let salvaged = 0;
+    let kept = 0;
+    const materials: Record<string, number> = {};
+    for (const key of keys) {
+      const have = this.character.inventory[key];
+      const count = Math.min(have, getSalvageCapacity(this.character.inventory, tables[items[key].rarity]));
+      kept += have - count;
+      if (count === 0) continue;
+      const result = salvageItems(this.character.inventory, key, count, items, tables);
+      if (!result.success) { kept += count; continue; }
+      salvaged += result.salvaged;
+      this.forgetItemInstanceIfGone(key);
+      for (const [materialId, quantity] of Object.entries(result.materials)) {
+        materials[materialId] = (materials[materialId] ?? 0) + quantity;
+      }
+    }
+    if (salvaged === 0) return 'No room for the salvaged materials.';
+    const keptNote = kept > 0 ? ` Kept ${kept} with no room for their materials.` : '';
+    this.addLogEntry(`Salvaged ${salvaged} item${salvaged > 1 ? 's' : ''} into ${this.describeMaterials(materials)}.${keptNote}`, 'unlock');
+    return null;
+  }
+
+  /** "3 Scrap Metal, 1 Arcane Dust" — or "nothing" for an unlucky roll. */
+  private describeMaterials(materials: Record<string, number>): string {
+    const parts = Object.entries(materials).map(([id, n]) => `${n} ${this.content.getItem(id)?.name ?? id}`);
+    return parts.length > 0 ? parts.join(', ') : 'nothing';
+  }
+
   handleDestroyItems(itemId: string, count: number): boolean {
     if (!this.character) return false;
     const result = destroyItems(this.character.inventory, itemId, count);
+    if (result.success) this.forgetItemInstanceIfGone(itemId);
     return result.success;
   }
 
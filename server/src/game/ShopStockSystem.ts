@@ -0,0 +1,30 @@
+import type { ShopDefinition, ShopStockState } from '@idle-party-rpg/shared';
+import { getShopStockCount, refreshShopStock } from '@idle-party-rpg/shared';
+
+/**
+ * ShopStockSystem tracks how much of each limited shop item is left on the
+ * shelf. Stock is shared by every player: one buyer emptying a shelf sells it
+ * out for everyone until the shop's next restock.
+ *
+ * Restocks are lazy — `getStock` refreshes a shop's state whenever it is read,
+ * so there is no timer. State is in-memory only: after a server restart every
+ * shop starts freshly restocked.
+ */
+export class ShopStockSystem {
+  private shops = new Map<string, ShopStockState>();
+
+  /** Current stock of a shop, restocked first if it is due (or never visited). */
+  getStock(shop: ShopDefinition, now: number = Date.now()): ShopStockState {
+    const state = refreshShopStock(shop, this.shops.get(shop.id), now);
+    this.shops.set(shop.id, state);
+    return state;
+  }
+
+  /** Take `quantity` units off the shelf. Returns false (and takes nothing) if there aren't enough. */
+  take(shop: ShopDefinition, itemId: string, quantity: number, now: number = Date.now()): boolean {
+    const state = this.getStock(shop, now);
+    if (getShopStockCount(state, itemId) < quantity) return false;
+    if (itemId in state.stock) state.stock[itemId] -= quantity;
+    return true;
+  }
+}
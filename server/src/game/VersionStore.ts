@@ -1,8 +1,8 @@
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
-import type { MonsterDefinition, ItemDefinition, ZoneDefinition, WorldData, EncounterDefinition, EncounterTableEntry, SetDefinition, ShopDefinition, TileTypeDefinition, RecipeDefinition, NpcDefinition, QuestDefinition, DungeonDefinition, SkillDefinition, SkillSlot, DesignNote } from '@idle-party-rpg/shared';
-import { migrateWorldData, migrateLegacySkill } from '@idle-party-rpg/shared';
+import type { MonsterDefinition, ItemDefinition, ZoneDefinition, WorldData, EncounterDefinition, EncounterTableEntry, SetDefinition, ShopDefinition, TileTypeDefinition, RecipeDefinition, NpcDefinition, QuestDefinition, DungeonDefinition, SkillDefinition, SkillSlot, StatusEffectDefinition, AffixDefinition, SalvageTableDefinition, DesignNote } from '@idle-party-rpg/shared';
+import { migrateWorldData, migrateLegacySkill, migrateLegacyMonster, migrateLegacyStatusEffect } from '@idle-party-rpg/shared';
 
 export type VersionStatus = 'draft' | 'published';
 
@@ -20,6 +20,9 @@ export interface ContentSnapshot {
   dungeons?: DungeonDefinition[];
   skills?: SkillDefinition[];
   skillSlotSchedules?: { className: string; slots: SkillSlot[] }[];
+  statusEffects?: StatusEffectDefinition[];
+  affixes?: AffixDefinition[];
+  salvageTables?: SalvageTableDefinition[];
   designNotes?: DesignNote[];
   world: WorldData;
 }
@@ -192,6 +195,11 @@ export class VersionStore {
     if (snapshot.skills !== undefined) {
       snapshot.skills = snapshot.skills.map(s => migrateLegacySkill(s));
     }
+    // Retired 'magical' damage type → 'arcane'. Idempotent, no save needed.
+    snapshot.monsters = snapshot.monsters.map(m => migrateLegacyMonster(m));
+    if (snapshot.statusEffects !== undefined) {
+      snapshot.statusEffects = snapshot.statusEffects.map(e => migrateLegacyStatusEffect(e));
+    }
     const encountersMigrated = migrateSnapshotEncounterTables(snapshot);
     if (encountersMigrated) {
       console.log(`[VersionStore] Migrated encounter tables in version ${id}`);
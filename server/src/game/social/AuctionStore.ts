@@ -0,0 +1,30 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { AuctionListing } from '@idle-party-rpg/shared';
+
+const AUCTION_FILE = path.resolve('data', 'auctions.json');
+
+/**
+ * Persists auction house listings to data/auctions.json.
+ *
+ * Listed items live only here while in escrow — they have already left the
+ * seller's inventory — so losing this file would destroy them. Sold and
+ * cancelled listings are already removed from AuctionSystem; expired ones are
+ * returned to the seller's mailbox by the next expiry sweep after a restart.
+ */
+export class AuctionStore {
+  async load(): Promise<AuctionListing[]> {
+    try {
+      const raw = await fs.readFile(AUCTION_FILE, 'utf-8');
+      const arr = JSON.parse(raw) as AuctionListing[];
+      return Array.isArray(arr) ? arr : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async save(listings: AuctionListing[]): Promise<void> {
+    await fs.mkdir(path.dirname(AUCTION_FILE), { recursive: true });
+    await fs.writeFile(AUCTION_FILE, JSON.stringify(listings, null, 2));
+  }
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import type { AuctionListing, AuctionSearchFilter, ItemDefinition, ItemInstance } from '@idle-party-rpg/shared';
+import { MAX_AUCTION_LISTINGS, searchAuctionListings, validateAuctionListing } from '@idle-party-rpg/shared';
+
+/**
+ * AuctionSystem holds the server-wide auction house's buy-now listings.
+ *
+ * Listing lifecycle:
+ *   listed    — items taken from the seller's inventory into escrow
+ *   sold      — a buyer paid the price; caller mails the items and payout
+ *   cancelled — the seller withdrew it; caller mails the items back
+ *   expired   — `takeExpired` removes it; caller mails the items back
+ *
+ * Every exit removes the listing here, so an escrowed item exists in exactly
+ * one place. This class is pure stateful logic — no inventory, gold or mail.
+ * PlayerManager wires those in; AuctionStore handles persistence.
+ */
+export class AuctionSystem {
+  private listings = new Map<string, AuctionListing>();
+
+  /** Restore listings from persisted data (called at startup). */
+  restoreFromSaveData(saved: AuctionListing[]): void {
+    this.listings.clear();
+    for (const listing of saved) this.listings.set(listing.id, listing);
+  }
+
+  /** Snapshot all listings for persistence. */
+  getAllListings(): AuctionListing[] {
+    return Array.from(this.listings.values());
+  }
+
+  getListing(listingId: string): AuctionListing | null {
+    return this.listings.get(listingId) ?? null;
+  }
+
+  /** A seller's listings, oldest first (includes expired ones awaiting the sweep). */
+  getSellerListings(seller: string): AuctionListing[] {
+    return this.getAllListings().filter(l => l.seller === seller);
+  }
+
+  /**
+   * Why `seller` can't list this, or null if they can. Checked before the
+   * caller takes the items out of the inventory.
+   */
+  getListingError(seller: string, quantity: number, price: number, durationHours: number): string | null {
+    const error = validateAuctionListing(quantity, price, durationHours);
+    if (error) return error;
+    if (this.getSellerListings(seller).length >= MAX_AUCTION_LISTINGS) {
+      return `You can have at most ${MAX_AUCTION_LISTINGS} listings.`;
+    }
+    return null;
+  }
+
+  /** Record a listing for items the caller has already taken into escrow. */
+  createListing(
+    seller: string,
+    itemId: string,
+    quantity: number,
+    price: number,
+    durationHours: number,
+    instance?: ItemInstance,
+    now: number = Date.now(),
+  ): AuctionListing {
+    const listing: AuctionListing = {
+      id: `auction_${randomUUID()}`,
+      seller,
+      itemId,
+      quantity,
+      price,
+      listedAt: now,
+      expiresAt: now + durationHours * 3600 * 1000,
+      ...(instance ? { instance } : {}),
+    };
+    this.listings.set(listing.id, listing);
+    return listing;
+  }
+
+  /**
+   * Validate a purchase without removing the listing — the caller still has
+   * to take the buyer's gold. Returns the listing or an error message.
+   */
+  checkPurchase(listingId: string, buyer: string, now: number = Date.now()): AuctionListing | string {
+    const listing = this.listings.get(listingId);
+    if (!listing || listing.expiresAt <= now) return 'That listing is no longer available.';
+    if (listing.seller === buyer) return "You can't buy your own listing.";
+    return listing;
+  }
+
+  /** Remove a listing (sold). Returns it, or null if it was already gone. */
+  removeListing(listingId: string): AuctionListing | null {
+    const listing = this.listings.get(listingId);
+    if (!listing) return null;
+    this.listings.delete(listingId);
+    return listing;
+  }
+
+  /** Withdraw a listing for its seller. Returns the listing or an error message. */
+  cancelListing(listingId: string, username: string): AuctionListing | string {
+    const listing = this.listings.get(listingId);
+    if (!listing) return 'That listing is no longer available.';
+    if (listing.seller !== username) return 'That is not your listing.';
+    this.listings.delete(listingId);
+    return listing;
+  }
+
+  /** Remove and return every listing whose time is up. */
+  takeExpired(now: number = Date.now()): AuctionListing[] {
+    const expired: AuctionListing[] = [];
+    for (const [id, listing] of this.listings) {
+      if (listing.expiresAt > now) continue;
+      expired.push(listing);
+      this.listings.delete(id);
+    }
+    return expired;
+  }
+
+  /** Live listings matching `filter`, cheapest first. Listed instances resolve against `items`. */
+  search(items: Record<string, ItemDefinition>, filter: AuctionSearchFilter, now: number = Date.now()): AuctionListing[] {
+    return searchAuctionListings(this.getAllListings(), items, filter, now);
+  }
+}
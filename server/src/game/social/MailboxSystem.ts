@@ -1,27 +1,28 @@
 import { randomUUID } from 'crypto';
-import type { MailboxEntry } from '@idle-party-rpg/shared';
+import type { MailAttachment, MailboxEntry, MailDraft } from '@idle-party-rpg/shared';
+import { MAIL_EXPIRY_MS, canMailExpire, hasMailContents, migrateMailboxEntry } from '@idle-party-rpg/shared';
 
 /**
- * MailboxSystem manages per-player gift mailboxes.
+ * MailboxSystem manages per-player mailboxes.
  *
- * Each entry is a single (item, quantity) pair from a sender. Entries are NOT
- * grouped or merged — multiple gifts of the same item produce multiple entries.
- * This intentionally allows a player to "hold" more than MAX_STACK of an item
- * by leaving copies in their mailbox; accepting a gift still has to fit in the
- * 99-stack inventory cap.
+ * Each mail carries a subject, optional body, any number of item attachments
+ * and optional gold. Mails are NOT grouped or merged — several mails of the
+ * same item stay separate. This intentionally allows a player to "hold" more
+ * than MAX_STACK of an item by leaving it in the mailbox; claiming still has
+ * to fit in the 99-stack inventory cap, and whatever doesn't fit stays behind.
  *
  * Pure stateful logic. PlayerManager wires inventory mutations + persistence.
  */
 export class MailboxSystem {
   private boxes = new Map<string, MailboxEntry[]>();
 
-  /** Restore mailbox contents at startup. */
-  setMailbox(username: string, entries: MailboxEntry[]): void {
+  /** Restore mailbox contents at startup. Entries saved as single gifts are upgraded to mail. */
+  setMailbox(username: string, entries: MailboxEntry[], now: number = Date.now()): void {
     if (entries.length === 0) {
       this.boxes.delete(username);
       return;
     }
-    this.boxes.set(username, [...entries]);
+    this.boxes.set(username, entries.map(entry => migrateMailboxEntry(entry, now)));
   }
 
   getMailbox(username: string): MailboxEntry[] {
@@ -32,21 +33,19 @@ export class MailboxSystem {
     return (this.boxes.get(username)?.length ?? 0) > 0;
   }
 
-  /** Append a gift entry to a player's mailbox. */
-  addEntry(
-    toUsername: string,
-    fromUsername: string,
-    itemId: string,
-    quantity: number,
-    options?: { returned?: boolean },
-  ): MailboxEntry {
+  /** Deliver a mail to a player's mailbox. */
+  send(toUsername: string, fromUsername: string, draft: MailDraft, now: number = Date.now()): MailboxEntry {
     const entry: MailboxEntry = {
-      id: `gift_${randomUUID()}`,
+      id: `mail_${randomUUID()}`,
       fromUsername,
-      itemId,
-      quantity,
-      sentAt: Date.now(),
-      ...(options?.returned ? { returned: true } : {}),
+      subject: draft.subject,
+      attachments: draft.attachments ?? [],
+      sentAt: now,
+      expiresAt: now + MAIL_EXPIRY_MS,
+      ...(draft.body ? { body: draft.body } : {}),
+      ...(draft.gold ? { gold: draft.gold } : {}),
+      ...(draft.system ? { system: true } : {}),
+      ...(draft.returned ? { returned: true } : {}),
     };
     let list = this.boxes.get(toUsername);
     if (!list) {
@@ -57,13 +56,25 @@ export class MailboxSystem {
     return entry;
   }
 
-  /** Look up a single entry by ID, returning the owner and entry. */
+  /** Look up a single entry by ID. */
   findEntry(toUsername: string, entryId: string): MailboxEntry | null {
     const list = this.boxes.get(toUsername);
     if (!list) return null;
     return list.find(e => e.id === entryId) ?? null;
   }
 
+  /**
+   * Record a claim: the mail keeps only `remaining` and loses its gold. A mail
+   * left with nothing to claim and no message to read is removed.
+   */
+  setClaimed(toUsername: string, entryId: string, remaining: MailAttachment[]): void {
+    const entry = this.findEntry(toUsername, entryId);
+    if (!entry) return;
+    entry.attachments = remaining;
+    delete entry.gold;
+    if (!hasMailContents(entry) && !entry.body) this.removeEntry(toUsername, entryId);
+  }
+
   /** Remove an entry. Returns the removed entry, or null if not found. */
   removeEntry(toUsername: string, entryId: string): MailboxEntry | null {
     const list = this.boxes.get(toUsername);
@@ -75,6 +86,21 @@ export class MailboxSystem {
     return entry;
   }
 
+  /**
+   * Remove and return every mail whose time is up, with its owner. Mail that
+   * `canMailExpire` rules out is left in place past its expiry.
+   */
+  takeExpired(now: number = Date.now()): { username: string; entry: MailboxEntry }[] {
+    const expired: { username: string; entry: MailboxEntry }[] = [];
+    for (const [username, list] of this.boxes) {
+      for (const entry of list) {
+        if (entry.expiresAt <= now && canMailExpire(entry)) expired.push({ username, entry });
+      }
+    }
+    for (const { username, entry } of expired) this.removeEntry(username, entry.id);
+    return expired;
+  }
+
   /** All current usernames with mailbox entries. */
   getAllUsernames(): string[] {
     return Array.from(this.boxes.keys());
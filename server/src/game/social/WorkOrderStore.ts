@@ -0,0 +1,30 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { WorkOrder } from '@idle-party-rpg/shared';
+
+const WORK_ORDER_FILE = path.resolve('data', 'work-orders.json');
+
+/**
+ * Persists the work-order board to data/work-orders.json.
+ *
+ * Escrowed rewards live only here — the gold has already left the poster —
+ * so losing this file would destroy it. Filled and cancelled orders are
+ * already removed from WorkOrderSystem; expired ones are refunded to the
+ * poster's mailbox by the next expiry sweep after a restart.
+ */
+export class WorkOrderStore {
+  async load(): Promise<WorkOrder[]> {
+    try {
+      const raw = await fs.readFile(WORK_ORDER_FILE, 'utf-8');
+      const arr = JSON.parse(raw) as WorkOrder[];
+      return Array.isArray(arr) ? arr : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async save(orders: WorkOrder[]): Promise<void> {
+    await fs.mkdir(path.dirname(WORK_ORDER_FILE), { recursive: true });
+    await fs.writeFile(WORK_ORDER_FILE, JSON.stringify(orders, null, 2));
+  }
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+import type { ItemDefinition, RecipeDefinition, WorkOrder } from '@idle-party-rpg/shared';
+import { MAX_WORK_ORDERS, WORK_ORDER_DURATION_HOURS, getWorkOrderRemaining, validateWorkOrder } from '@idle-party-rpg/shared';
+
+/**
+ * WorkOrderSystem holds the server-wide work-order board.
+ *
+ * Order lifecycle:
+ *   posted    — the reward taken from the poster's gold into escrow
+ *   delivered — a crafter's job completed; caller mails the items to the
+ *               poster and that delivery's share of the reward to the crafter
+ *   filled    — the last unit arrived; `deliver` removes the order
+ *   cancelled — the poster withdrew it; caller mails the unpaid reward back
+ *   expired   — `takeExpired` removes it; caller mails the unpaid reward back
+ *
+ * Several crafters can work on one order at once. Deliveries are first come,
+ * first served — whatever arrives after the order is filled stays with its
+ * crafter. This class is pure stateful logic — no inventory, gold or mail.
+ * PlayerManager wires those in; WorkOrderStore handles persistence.
+ */
+export class WorkOrderSystem {
+  private orders = new Map<string, WorkOrder>();
+
+  /** Restore orders from persisted data (called at startup). */
+  restoreFromSaveData(saved: WorkOrder[]): void {
+    this.orders.clear();
+    for (const order of saved) this.orders.set(order.id, order);
+  }
+
+  /** Snapshot all orders for persistence. */
+  getAllOrders(): WorkOrder[] {
+    return Array.from(this.orders.values());
+  }
+
+  getOrder(orderId: string): WorkOrder | null {
+    return this.orders.get(orderId) ?? null;
+  }
+
+  /** A poster's orders, oldest first (includes expired ones awaiting the sweep). */
+  getPosterOrders(poster: string): WorkOrder[] {
+    return this.getAllOrders().filter(o => o.poster === poster);
+  }
+
+  /** Live orders from everyone but `username`, oldest first. */
+  getOpenOrders(username: string, now: number = Date.now()): WorkOrder[] {
+    return this.getAllOrders()
+      .filter(o => o.poster !== username && o.expiresAt > now)
+      .sort((a, b) => a.postedAt - b.postedAt);
+  }
+
+  /**
+   * Why `poster` can't post this order, or null if they can. Checked before
+   * the caller takes the reward out of their gold.
+   */
+  getPostError(
+    poster: string,
+    itemId: string,
+    quantity: number,
+    reward: number,
+    recipes: Record<string, RecipeDefinition>,
+    items: Record<string, ItemDefinition>,
+  ): string | null {
+    const error = validateWorkOrder(itemId, quantity, reward, recipes, items);
+    if (error) return error;
+    if (this.getPosterOrders(poster).length >= MAX_WORK_ORDERS) {
+      return `You can have at most ${MAX_WORK_ORDERS} work orders.`;
+    }
+    return null;
+  }
+
+  /** Record an order whose reward the caller has already taken into escrow. */
+  createOrder(poster: string, itemId: string, quantity: number, reward: number, now: number = Date.now()): WorkOrder {
+    const order: WorkOrder = {
+      id: `workorder_${randomUUID()}`,
+      poster,
+      itemId,
+      quantity,
+      reward,
+      delivered: 0,
+      postedAt: now,
+      expiresAt: now + WORK_ORDER_DURATION_HOURS * 3600 * 1000,
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  /** Whether `crafter` may queue a job for this order. Returns the order or an error message. */
+  checkFill(orderId: string, crafter: string, itemId: string, now: number = Date.now()): WorkOrder | string {
+    const order = this.orders.get(orderId);
+    if (!order || order.expiresAt <= now) return 'That work order is no longer open.';
+    if (order.poster === crafter) return "You can't fill your own work order.";
+    if (order.itemId !== itemId) return 'That recipe does not make what the order asks for.';
+    return order;
+  }
+
+  /**
+   * Accept up to `units` of `itemId` into an order. Returns the order as it
+   * was before the delivery and how many units it took (0 when it's gone,
+   * expired, or wants a different item). Removes the order once it's filled.
+   */
+  deliver(orderId: string, itemId: string, units: number, now: number = Date.now()): { before: WorkOrder; accepted: number } | null {
+    const order = this.orders.get(orderId);
+    if (!order || order.expiresAt <= now || order.itemId !== itemId) return null;
+    const accepted = Math.min(units, getWorkOrderRemaining(order));
+    if (accepted <= 0) return null;
+    const before = { ...order };
+    order.delivered += accepted;
+    if (getWorkOrderRemaining(order) === 0) this.orders.delete(orderId);
+    return { before, accepted };
+  }
+
+  /** Withdraw an order for its poster. Returns the order or an error message. */
+  cancelOrder(orderId: string, username: string): WorkOrder | string {
+    const order = this.orders.get(orderId);
+    if (!order) return 'That work order is no longer open.';
+    if (order.poster !== username) return 'That is not your work order.';
+    this.orders.delete(orderId);
+    return order;
+  }
+
+  /** Remove and return every order whose time is up. */
+  takeExpired(now: number = Date.now()): WorkOrder[] {
+    const expired: WorkOrder[] = [];
+    for (const [id, order] of this.orders) {
+      if (order.expiresAt > now) continue;
+      expired.push(order);
+      this.orders.delete(id);
+    }
+    return expired;
+  }
+}
@@ -26,8 +26,8 @@ import { createMcpRouter } from './mcp/McpEndpoint.js';
 import swaggerUi from 'swagger-ui-express';
 import { adminSwaggerSpec, gameSwaggerSpec } from './admin/adminSwaggerSpec.js';
 import { JsonSessionStore } from './auth/JsonSessionStore.js';
-import type { ClassName, ItemDefinition } from '@idle-party-rpg/shared';
-import { ALL_CLASS_NAMES, EQUIP_SLOTS, RUN_AVAILABLE_ROUNDS, getEquippedItemIds, setAppliesToClass } from '@idle-party-rpg/shared';
+import type { ClassName, ItemDefinition, ItemInstance } from '@idle-party-rpg/shared';
+import { ALL_CLASS_NAMES, EQUIP_SLOTS, RUN_AVAILABLE_ROUNDS, getEquippedItemIds, sanitizeAuctionSearchFilter, setAppliesToClass, toBaseItemIds } from '@idle-party-rpg/shared';
 import { canMove } from './game/social/PartySystem.js';
 import { getVapidPublicKey } from './game/social/BrowserPushNotificationDriver.js';
 
@@ -458,6 +458,30 @@ wss.on('connection', (ws) => {
         return;
       }
 
+      if (msg.type === 'learn_talent' && typeof msg.skillId === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
+          return;
+        }
+        const error = session.handleLearnTalent(msg.skillId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
+
+      if (msg.type === 'respec_talents') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
+          return;
+        }
+        const error = session.handleRespecTalents();
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
+
       if (msg.type === 'set_class' && typeof msg.className === 'string') {
         const session = playerManager.getSessionByUsername(username);
         if (!session) {
@@ -574,94 +598,171 @@ wss.on('connection', (ws) => {
         return;
       }
 
-      // --- Shop messages ---
+      if (msg.type === 'socket_gem' && typeof msg.itemId === 'string' && typeof msg.gemId === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
+          return;
+        }
+        const error = session.handleSocketGem(msg.itemId, msg.gemId, msg.equipped === true);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-      if (msg.type === 'shop_buy' && typeof msg.itemId === 'string') {
+      if (msg.type === 'unsocket_gem' && typeof msg.itemId === 'string' && typeof msg.index === 'number') {
         const session = playerManager.getSessionByUsername(username);
         if (!session) {
           ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleUnsocketGem(msg.itemId, msg.index, msg.destroy === true);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        // Find the tile the player is on and check for a shop
-        const pos = session.getPosition();
-        const world = gameLoop.contentStore.getWorld();
-        const tile = world.tiles.find(t => t.col === pos.col && t.row === pos.row);
-        if (!tile?.shopId) {
-          ws.send(JSON.stringify({ type: 'error', message: 'No shop here' }));
+      if (msg.type === 'salvage_item' && typeof msg.itemId === 'string' && typeof msg.count === 'number') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
-        const shop = gameLoop.contentStore.getShop(tile.shopId);
-        if (!shop) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Shop not found' }));
+        const error = session.handleSalvage(msg.itemId, msg.count);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
+
+      if (msg.type === 'salvage_all' && Array.isArray(msg.rarities)) {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleSalvageAll(msg.rarities);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        // Check item is in shop inventory
-        const shopItem = shop.inventory.find(si => si.itemId === msg.itemId);
-        if (!shopItem) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Item not available in this shop' }));
+      // --- Loadout messages ---
+
+      if (msg.type === 'save_loadout' && typeof msg.name === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleSaveLoadout(msg.name);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        // Check player has enough gold
-        if (session.getGold() < shopItem.price) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Not enough gold' }));
+      if (msg.type === 'delete_loadout' && typeof msg.name === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleDeleteLoadout(msg.name);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        // Check inventory space (addOneToInventory checks MAX_STACK)
-        if (!session.addOneToInventory(msg.itemId)) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Inventory full' }));
+      if (msg.type === 'apply_loadout' && typeof msg.name === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleApplyLoadout(msg.name);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        // Deduct gold (item already added above)
-        session.deductGold(shopItem.price);
+      // --- Stash messages ---
 
-        const itemDef = gameLoop.contentStore.getItem(msg.itemId);
-        session.addLogEntry(`Bought ${itemDef?.name ?? msg.itemId} for ${shopItem.price} gold`, 'victory');
+      if ((msg.type === 'stash_deposit' || msg.type === 'stash_withdraw')
+        && typeof msg.tab === 'number' && typeof msg.itemId === 'string' && typeof msg.quantity === 'number') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
+          return;
+        }
+        const error = msg.type === 'stash_deposit'
+          ? session.handleStashDeposit(msg.tab, msg.itemId, msg.quantity)
+          : session.handleStashWithdraw(msg.tab, msg.itemId, msg.quantity);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
         playerManager.sendStateToPlayer(username);
         return;
       }
 
-      if (msg.type === 'shop_sell' && typeof msg.itemId === 'string' && typeof msg.quantity === 'number') {
+      // --- Consumable messages ---
+
+      if (msg.type === 'use_consumable' && typeof msg.itemId === 'string') {
         const session = playerManager.getSessionByUsername(username);
         if (!session) {
           ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleUseConsumable(msg.itemId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        const quantity = msg.quantity;
-        if (quantity < 1) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Invalid quantity' }));
+      if (msg.type === 'set_auto_use' && typeof msg.itemId === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const trigger = typeof msg.trigger === 'string' ? msg.trigger : null;
+        const hpPercent = typeof msg.hpPercent === 'number' ? msg.hpPercent : undefined;
+        const error = session.handleSetAutoUse(msg.itemId, trigger, hpPercent);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
+
+      // --- Shop messages ---
 
-        // Check player has the item (unequipped inventory only)
-        if (session.getInventoryCount(msg.itemId) < quantity) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Not enough items' }));
+      if (msg.type === 'shop_buy' && typeof msg.itemId === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleShopBuy(msg.itemId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        // Get item definition for sell value
-        const itemDef = gameLoop.contentStore.getItem(msg.itemId);
-        if (!itemDef) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Unknown item' }));
+      if (msg.type === 'shop_sell' && typeof msg.itemId === 'string' && typeof msg.quantity === 'number') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
+        const error = session.handleShopSell(msg.itemId, msg.quantity);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        const sellValue = (itemDef.value ?? 1) * quantity;
-
-        // Remove items and add gold
-        if (!session.removeFromInventory(msg.itemId, quantity)) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Failed to remove items' }));
+      if (msg.type === 'shop_buyback' && typeof msg.index === 'number') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
-        session.grantGold(sellValue);
-
-        const itemName = quantity > 1 ? `${itemDef.name} x${quantity}` : itemDef.name;
-        session.addLogEntry(`Sold ${itemName} for ${sellValue} gold`, 'victory');
+        const error = session.handleShopBuyback(msg.index);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
         playerManager.sendStateToPlayer(username);
         return;
       }
@@ -674,15 +775,18 @@ wss.on('connection', (ws) => {
           ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
           return;
         }
-        const result = session.handleCraftQueue(msg.recipeId);
+        const workOrderId = typeof msg.workOrderId === 'string' ? msg.workOrderId : undefined;
+        const result = session.handleCraftQueue(msg.recipeId, Date.now(), workOrderId);
         if (!result.ok) {
           const messages: Record<string, string> = {
             no_character: 'Pick a class first.',
             unknown_recipe: 'Unknown recipe.',
             queue_full: 'Craft queue is full.',
             level_too_low: 'You are not high enough level for this recipe.',
+            craft_level_too_low: 'Your craft skill is not high enough for this recipe.',
             class_restricted: 'Your class cannot craft this recipe.',
             missing_ingredients: 'Missing ingredients.',
+            work_order_unavailable: 'That work order is no longer open to you.',
           };
           ws.send(JSON.stringify({ type: 'error', message: messages[result.reason] ?? 'Cannot queue recipe' }));
           return;
@@ -738,6 +842,18 @@ wss.on('connection', (ws) => {
         return;
       }
 
+      if (msg.type === 'learn_recipe' && typeof msg.recipeId === 'string') {
+        const session = playerManager.getSessionByUsername(username);
+        if (!session) {
+          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
+          return;
+        }
+        const error = session.handleLearnRecipe(msg.recipeId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
+
       // --- View player profile ---
       if (msg.type === 'view_player' && typeof msg.username === 'string') {
         const targetSession = playerManager.getSessionByUsername(msg.username);
@@ -759,9 +875,10 @@ wss.on('connection', (ws) => {
         const itemDefs: Record<string, ItemDefinition> = {};
         const equippedItemIds = getEquippedItemIds(profile.equipment);
         for (const itemId of equippedItemIds) {
-          const def = gameLoop.contentStore.getItem(itemId);
+          const def = targetSession.getItemDefinition(itemId);
           if (def) itemDefs[itemId] = def;
         }
+        const equippedBaseIds = toBaseItemIds(equippedItemIds);
 
         // Build party member list
         const partyMembers = (party?.members ?? []).map(m => {
@@ -776,7 +893,7 @@ wss.on('connection', (ws) => {
         const profileSetDefs: Record<string, import('@idle-party-rpg/shared').SetDefinition> = {};
         for (const [id, set] of Object.entries(allSets)) {
           if (!setAppliesToClass(set, profile.className)) continue;
-          if (set.itemIds.some(itemId => equippedItemIds.has(itemId))) {
+          if (set.itemIds.some(itemId => equippedBaseIds.has(itemId))) {
             profileSetDefs[id] = set;
           }
         }
@@ -1475,7 +1592,7 @@ wss.on('connection', (ws) => {
         const result = playerManager.trades.proposeTrade(
           username,
           msg.targetUsername,
-          msg.items,
+          playerManager.toTradeOfferItems(username, msg.items),
           (u, itemId, qty) => playerManager.hasItemInInventory(u, itemId, qty),
           (a, b) => playerManager.isTradeBlocked(a, b),
         );
@@ -1497,7 +1614,7 @@ wss.on('connection', (ws) => {
         const result = playerManager.trades.counterTrade(
           msg.tradeId,
           username,
-          msg.items,
+          playerManager.toTradeOfferItems(username, msg.items),
           (u, itemId, qty) => playerManager.hasItemInInventory(u, itemId, qty),
         );
         if (typeof result === 'string') {
@@ -1548,48 +1665,45 @@ wss.on('connection', (ws) => {
           return;
         }
 
-        type Removal = { session: typeof initiatorSession; itemId: string; qty: number };
+        // Rolled instances travel with their record; stackables just move counts.
+        type Removal = { session: typeof initiatorSession; itemId: string; qty: number; instance?: ItemInstance };
         const removals: Removal[] = [];
 
+        const giveItem = (session: typeof initiatorSession, itemId: string, qty: number, instance?: ItemInstance) => {
+          if (instance) session.addItemInstance(instance);
+          else session.addToInventory(itemId, qty);
+        };
+
         const rollback = () => {
-          for (const { session, itemId, qty } of removals) {
-            session.addToInventory(itemId, qty);
+          for (const { session, itemId, qty, instance } of removals) {
+            giveItem(session, itemId, qty, instance);
           }
         };
 
-        for (const { itemId, quantity } of initiatorOffer.items) {
-          if (!initiatorSession.removeFromInventory(itemId, quantity)) {
-            rollback();
-            ws.send(JSON.stringify({ type: 'error', message: 'Trade failed — item no longer available' }));
-            return;
-          }
-          removals.push({ session: initiatorSession, itemId, qty: quantity });
-        }
-        for (const { itemId, quantity } of targetOffer.items) {
-          if (!targetSession.removeFromInventory(itemId, quantity)) {
-            rollback();
-            ws.send(JSON.stringify({ type: 'error', message: 'Trade failed — item no longer available' }));
-            return;
+        for (const [session, offer] of [[initiatorSession, initiatorOffer], [targetSession, targetOffer]] as const) {
+          for (const { itemId, quantity } of offer.items) {
+            const instance = session.getItemInstance(itemId);
+            if (!session.removeFromInventory(itemId, quantity)) {
+              rollback();
+              ws.send(JSON.stringify({ type: 'error', message: 'Trade failed — item no longer available' }));
+              return;
+            }
+            removals.push({ session, itemId, qty: quantity, instance });
           }
-          removals.push({ session: targetSession, itemId, qty: quantity });
         }
 
-        for (const { itemId, quantity } of initiatorOffer.items) {
-          targetSession.addToInventory(itemId, quantity);
-        }
-        for (const { itemId, quantity } of targetOffer.items) {
-          initiatorSession.addToInventory(itemId, quantity);
+        for (const { session, itemId, qty, instance } of removals) {
+          giveItem(session === initiatorSession ? targetSession : initiatorSession, itemId, qty, instance);
         }
 
-        const describeItems = (items: typeof initiatorOffer.items) =>
+        const describeItems = (receiver: typeof initiatorSession, items: typeof initiatorOffer.items) =>
           items.map(({ itemId, quantity }) => {
-            const def = gameLoop.contentStore.getItem(itemId);
-            const name = def?.name ?? itemId;
+            const name = receiver.describeItem(itemId);
             return quantity > 1 ? `${name} x${quantity}` : name;
           }).join(', ');
 
-        initiatorSession.addLogEntry(`Trade complete: received ${describeItems(targetOffer.items)} from ${targetOffer.username}`, 'unlock');
-        targetSession.addLogEntry(`Trade complete: received ${describeItems(initiatorOffer.items)} from ${initiatorOffer.username}`, 'unlock');
+        initiatorSession.addLogEntry(`Trade complete: received ${describeItems(initiatorSession, targetOffer.items)} from ${targetOffer.username}`, 'unlock');
+        targetSession.addLogEntry(`Trade complete: received ${describeItems(targetSession, initiatorOffer.items)} from ${initiatorOffer.username}`, 'unlock');
 
         console.log(`[Trade] Swap complete: ${initiatorOffer.username} ↔ ${targetOffer.username}`);
 
@@ -1608,95 +1722,109 @@ wss.on('connection', (ws) => {
         return;
       }
 
-      // --- Gift / Mailbox messages ---
+      // --- Mailbox messages ---
 
+      // send_gift predates mail: one attachment, default subject.
       if (msg.type === 'send_gift' && typeof msg.targetUsername === 'string' && typeof msg.itemId === 'string' && typeof msg.quantity === 'number') {
-        if (msg.targetUsername === username) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Cannot gift to yourself' }));
-          return;
-        }
-        if (msg.quantity < 1) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Invalid quantity' }));
-          return;
-        }
-        const targetAccount = accountStore.findByUsername(msg.targetUsername);
-        if (!targetAccount) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Player not found' }));
-          return;
-        }
-        if (playerManager.isTradeBlocked(username, msg.targetUsername)) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Cannot gift to a blocked user' }));
-          return;
-        }
+        const error = playerManager.sendGift(username, msg.targetUsername, msg.itemId, msg.quantity);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        else playerManager.sendStateToPlayer(msg.targetUsername);
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        const senderSession = playerManager.getSessionByUsername(username);
-        if (!senderSession) {
-          ws.send(JSON.stringify({ type: 'error', message: 'No session' }));
-          return;
-        }
-        if (!senderSession.removeFromInventory(msg.itemId, msg.quantity)) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Not enough items in inventory' }));
-          return;
-        }
+      if (msg.type === 'send_mail' && typeof msg.targetUsername === 'string' && typeof msg.subject === 'string'
+        && (msg.body === undefined || typeof msg.body === 'string')
+        && (msg.gold === undefined || typeof msg.gold === 'number')
+        && (msg.attachments === undefined || (Array.isArray(msg.attachments)
+          && msg.attachments.every((a: { itemId?: unknown; quantity?: unknown }) => typeof a?.itemId === 'string' && typeof a.quantity === 'number')))) {
+        const error = playerManager.sendMail(username, msg.targetUsername, {
+          subject: msg.subject,
+          body: msg.body,
+          attachments: msg.attachments?.map((a: { itemId: string; quantity: number }) => ({ itemId: a.itemId, quantity: a.quantity })),
+          gold: msg.gold,
+        });
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        else playerManager.sendStateToPlayer(msg.targetUsername);
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        playerManager.mailboxes.addEntry(msg.targetUsername, username, msg.itemId, msg.quantity);
+      if ((msg.type === 'claim_mail' || msg.type === 'accept_gift') && typeof msg.entryId === 'string') {
+        const error = playerManager.claimMail(username, msg.entryId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        const itemDef = gameLoop.contentStore.getItem(msg.itemId);
-        const label = msg.quantity > 1 ? `${itemDef?.name ?? msg.itemId} x${msg.quantity}` : (itemDef?.name ?? msg.itemId);
-        senderSession.addLogEntry(`Sent ${label} to ${msg.targetUsername}`, 'unlock');
+      if (msg.type === 'claim_all_mail') {
+        const error = playerManager.claimAllMail(username);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
+      if ((msg.type === 'return_mail' || msg.type === 'deny_gift') && typeof msg.entryId === 'string') {
+        const error = playerManager.returnMail(username, msg.entryId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
         playerManager.sendStateToPlayer(username);
-        playerManager.sendStateToPlayer(msg.targetUsername);
         return;
       }
 
-      if (msg.type === 'accept_gift' && typeof msg.entryId === 'string') {
-        const session = playerManager.getSessionByUsername(username);
-        if (!session) return;
+      if (msg.type === 'delete_mail' && typeof msg.entryId === 'string') {
+        const error = playerManager.deleteMail(username, msg.entryId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        const entry = playerManager.mailboxes.findEntry(username, msg.entryId);
-        if (!entry) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Gift not found' }));
-          return;
-        }
-        // Stack capacity check at accept time
-        if (session.getInventoryCount(entry.itemId) + entry.quantity > 99) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Inventory full for that item (max 99)' }));
-          return;
-        }
-        if (!session.addToInventory(entry.itemId, entry.quantity)) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Inventory full for that item (max 99)' }));
-          return;
-        }
-        playerManager.mailboxes.removeEntry(username, msg.entryId);
+      // --- Auction house messages ---
 
-        const itemDef = gameLoop.contentStore.getItem(entry.itemId);
-        const label = entry.quantity > 1 ? `${itemDef?.name ?? entry.itemId} x${entry.quantity}` : (itemDef?.name ?? entry.itemId);
-        session.addLogEntry(`Accepted ${label} from ${entry.fromUsername}`, 'unlock');
+      if (msg.type === 'search_auctions' && msg.filter && typeof msg.filter === 'object') {
+        ws.send(JSON.stringify(playerManager.getAuctionResults(username, sanitizeAuctionSearchFilter(msg.filter))));
+        return;
+      }
+
+      if (msg.type === 'list_auction' && typeof msg.itemId === 'string' && typeof msg.quantity === 'number'
+        && typeof msg.price === 'number' && typeof msg.durationHours === 'number') {
+        const error = playerManager.listAuction(username, msg.itemId, msg.quantity, msg.price, msg.durationHours);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
         playerManager.sendStateToPlayer(username);
         return;
       }
 
-      if (msg.type === 'deny_gift' && typeof msg.entryId === 'string') {
-        const entry = playerManager.mailboxes.findEntry(username, msg.entryId);
-        if (!entry) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Gift not found' }));
-          return;
-        }
-        playerManager.mailboxes.removeEntry(username, msg.entryId);
+      if (msg.type === 'buy_auction' && typeof msg.listingId === 'string') {
+        const error = playerManager.buyAuction(username, msg.listingId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
 
-        // If this was already a returned gift, drop it (don't ping-pong forever).
-        // Otherwise, return it to the original sender's mailbox.
-        if (!entry.returned) {
-          playerManager.mailboxes.addEntry(entry.fromUsername, username, entry.itemId, entry.quantity, { returned: true });
-          playerManager.sendStateToPlayer(entry.fromUsername);
-        }
-        const session = playerManager.getSessionByUsername(username);
-        if (session) {
-          const itemDef = gameLoop.contentStore.getItem(entry.itemId);
-          const label = entry.quantity > 1 ? `${itemDef?.name ?? entry.itemId} x${entry.quantity}` : (itemDef?.name ?? entry.itemId);
-          session.addLogEntry(`Declined ${label} from ${entry.fromUsername}`, 'move');
-        }
+      if (msg.type === 'cancel_auction' && typeof msg.listingId === 'string') {
+        const error = playerManager.cancelAuction(username, msg.listingId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
+
+      // --- Work order messages ---
+
+      if (msg.type === 'get_work_orders') {
+        ws.send(JSON.stringify(playerManager.getWorkOrderResults(username)));
+        return;
+      }
+
+      if (msg.type === 'post_work_order' && typeof msg.itemId === 'string' && typeof msg.quantity === 'number'
+        && typeof msg.reward === 'number') {
+        const error = playerManager.postWorkOrder(username, msg.itemId, msg.quantity, msg.reward);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
+        playerManager.sendStateToPlayer(username);
+        return;
+      }
+
+      if (msg.type === 'cancel_work_order' && typeof msg.orderId === 'string') {
+        const error = playerManager.cancelWorkOrder(username, msg.orderId);
+        if (error) ws.send(JSON.stringify({ type: 'error', message: error }));
         playerManager.sendStateToPlayer(username);
         return;
       }
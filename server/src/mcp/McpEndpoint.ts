@@ -10,6 +10,7 @@ import { registerReadTools } from './tools/readTools.js';
 import { registerNotesTools } from './tools/notesTools.js';
 import { registerWriteTools } from './tools/writeTools.js';
 import { registerValidateTools } from './tools/validateTools.js';
+import { registerSimulateTools } from './tools/simulateTools.js';
 
 export interface McpEndpointOptions {
   contentStore: () => ContentStore;
@@ -36,6 +37,7 @@ export function createMcpRouter(opts: McpEndpointOptions): Router {
       registerNotesTools(server, deps);
       registerWriteTools(server, deps);
       registerValidateTools(server, deps);
+      registerSimulateTools(server, deps);
 
       const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
       await server.connect(transport);
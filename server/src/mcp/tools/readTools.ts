@@ -7,23 +7,26 @@ import type { DraftContentType } from '../../game/DraftEditor.js';
 import type { McpToolDeps } from './McpToolDeps.js';
 import { toolResult, errorMessage } from './mcpResult.js';
 
-/** The 13 content types editable through the generic draft-write surface — single source of truth, shared with writeTools.ts. */
+/** The 16 content types editable through the generic draft-write surface — single source of truth, shared with writeTools.ts. */
 const CONTENT_TYPES = DRAFT_CONTENT_TYPES;
 
 /** Per-type field-shape cheat sheet, verbatim — used by `get_content_schema` so the calling AI doesn't have to guess field names. */
 const CONTENT_TYPE_DESCRIPTIONS: Record<DraftContentType, string> = {
-  monsters: "MonsterDefinition — id, name, hp, damage, damageType ('physical'|'magical'), xp, goldMin, goldMax, optional description (combat-popup flavor text), optional drops (ItemDrop[]: {itemId, chance, quantity?}), optional passive:true (makes it a \"wall\": never attacks, doesn't count toward victory — use for tactical obstacles, not real enemies).",
-  items: "ItemDefinition — id, name, rarity ('janky'|'common'|'uncommon'|'rare'|'epic'|'legendary'|'heirloom'), optional slot (EquipSlot union: head/shoulders/chest/bracers/gloves/mainhand/offhand/twohanded/foot/ring/necklace/back/relic — omit entirely for non-equippable items), optional bonusAttackMin/Max, damageReductionMin/Max, magicReductionMin/Max, optional classRestriction (string[] of class names that can equip), optional value (gold sell price), optional grantedSkillIds (skills equippable ONLY while this item is equipped).",
-  sets: 'SetDefinition — id, name, itemIds (string[]), optional classRestriction, breakpoints (SetBreakpoint[]: {piecesRequired, bonuses: SetBonuses}). Bonuses do NOT stack across tiers within one set (highest unlocked tier wins) but DO stack across different sets. SetBonuses: cooldownReduction, damagePercent, damageResistancePercent, damageReductionMin/Max, magicReductionMin/Max, bonusAttackMin/Max, flatHp, percentHp, optional grantedSkillIds.',
-  shops: 'ShopDefinition — id, name, inventory (ShopItem[]: {itemId, stock, price}).',
-  recipes: 'RecipeDefinition — id, name, durationSeconds (>0), ingredients (RecipeIngredient[]: {itemId, quantity>0}), result ({itemId, quantity>0}).',
-  npcs: 'NpcDefinition — id, name, emoji (REQUIRED, always renders even with no artwork), greeting, optional artworkUrl, optional questIds (string[] quests this NPC offers).',
-  quests: "QuestDefinition — id, name, description, scope ('solo' — only acceptable while in a solo party — or 'party_shared'), objectives (kill:{monsterId,count} | collect:{itemId,count, consumed on turn-in} | visit:{tileId}), rewards (xp|gold|item kinds), optional prerequisiteQuestIds, optional requiredLevel, repeat ('once'|'weekly').",
-  dungeons: 'DungeonDefinition — id, name, optional description, floors (DungeonFloor[]: {floorNumber, gridShape:{cols,rows}, encounterTable, optional isBoss, optional rewards}), optional entryRequirements ({minLevel?,maxLevel?,requiredItemId?,consumeRequiredItem?,requiredClasses?,minPartySize?,maxPartySize?}), optional firstClearRewards + flat firstClearXp/firstClearGold.',
+  monsters: "MonsterDefinition — id, name, hp, damage, damageType ('physical'|'arcane'|'holy'|'fire'|'frost'|'poison'|'shadow'|'nature'; legacy 'magical' is stored as 'arcane'), xp, goldMin, goldMax, optional description (combat-popup flavor text), optional drops (ItemDrop[]: {itemId, chance, quantity?}), optional passive:true (makes it a \"wall\": never attacks, doesn't count toward victory — use for tactical obstacles, not real enemies), optional stunResistance/dotResistance/debuffResistance (percent 0-100; stunResistance 100 = stun-immune boss), optional resistances (Resistance[]: {damageType, percentReduction, flatReduction} — percent first, then flat; negative = vulnerability), optional phases (BossPhase[], highest hpThreshold first: {hpThreshold 1-100, name?, skills? (replaces the skill set), summons? ({monsterId, count}[] into empty grid positions), immuneTurns?, enrageAfterRounds?, enrageDamageMultiplier? (default 1.5)}) — any monster with phases fights as a boss; optional tags (string[], e.g. ['undead'] — tested by triggered_effect skill conditions).",
+  items: "ItemDefinition — id, name, rarity ('janky'|'common'|'uncommon'|'rare'|'epic'|'legendary'|'heirloom'), optional slot (EquipSlot union: head/shoulders/chest/bracers/gloves/mainhand/offhand/twohanded/foot/ring/necklace/back/relic — omit entirely for non-equippable items), optional bonusAttackMin/Max, damageReductionMin/Max, magicReductionMin/Max, optional stunResistance/dotResistance/debuffResistance (percent 0-100, not heirloom-scaled), optional resistances (Resistance[] per damage type, same shape as monsters, not heirloom-scaled), optional damageType (weapons only — overrides the wearer's attack type), optional classRestriction (string[] of class names that can equip), optional value (gold sell price), optional grantedSkillIds (skills equippable ONLY while this item is equipped), optional sockets (gear only — gem slots), optional gem (true = socketable gem: its stats and grantedSkillIds apply while socketed in equipped gear; no slot), optional gemRemovalCost (gems only — gold to unsocket intact, default 25), optional consumable (true = usable, consumed on use), optional consumableEffect (consumables only — { kind: 'heal'|'cure'|'buff'|'booster'|'skill_reset'|'learn_recipe', amount? (heal: fraction of max HP; booster: bonus fraction), modifiers? (buff: StatusModifiers), boost? ('xp'|'gold'|'drops', boosters), durationSeconds? (buffs and boosters), recipeId? (learn_recipe — the discoverable recipe a \"Recipe: X\" item teaches) }).",
+  sets: 'SetDefinition — id, name, itemIds (string[]), optional classRestriction, breakpoints (SetBreakpoint[]: {piecesRequired, bonuses: SetBonuses}). Bonuses do NOT stack across tiers within one set (highest unlocked tier wins) but DO stack across different sets. SetBonuses: cooldownReduction, damagePercent, damageResistancePercent, damageReductionMin/Max, magicReductionMin/Max, bonusAttackMin/Max, flatHp, percentHp, stunResistance/dotResistance/debuffResistance (percent), resistances (Resistance[] per damage type), optional grantedSkillIds.',
+  shops: 'ShopDefinition — id, name, inventory (ShopItem[]: {itemId, price, stock?}), restockMinutes?, priceScalingPercent?. Omitted stock = unlimited.',
+  recipes: 'RecipeDefinition — id, name, durationSeconds (>0), ingredients (RecipeIngredient[]: {itemId, quantity>0}), result ({itemId, quantity>0}), optional requiredLevel (character level), optional requiredCraftLevel (craft skill level, default 1; gear results roll normal/fine/masterwork quality from the gap above it), optional discoverable (true = hidden until learned from a learn_recipe item, a recipe quest reward or an NPC\'s recipesForSale; omit for starter recipes).',
+  npcs: 'NpcDefinition — id, name, emoji (REQUIRED, always renders even with no artwork), greeting, optional artworkUrl, optional questIds (string[] quests this NPC offers), optional recipesForSale ({recipeId, price}[] discoverable recipes this NPC teaches for gold).',
+  quests: "QuestDefinition — id, name, description, scope ('solo' — only acceptable while in a solo party — or 'party_shared'), objectives (kill:{monsterId,count} | collect:{itemId,count, consumed on turn-in} | visit:{tileId}), rewards (xp|gold|item|recipe kinds — recipe: {recipeId} teaches a discoverable recipe), optional prerequisiteQuestIds, optional requiredLevel, repeat ('once'|'weekly').",
+  dungeons: 'DungeonDefinition — id, name, optional description, floors (DungeonFloor[]: {floorNumber, gridShape:{cols,rows}, encounterTable, optional isBoss, optional bossMonsterId (boss joins the rolled encounter; empty table = boss alone), optional bossPosition (0-8, default 4), optional rewards}), optional entryRequirements ({minLevel?,maxLevel?,requiredItemId?,consumeRequiredItem?,requiredClasses?,minPartySize?,maxPartySize?}), optional firstClearRewards + flat firstClearXp/firstClearGold.',
   zones: 'ZoneDefinition — id, displayName (NOTE: zones use displayName, NOT name), levelRange, encounterTable (EncounterTableEntry[]: {encounterId, weight}).',
   encounters: "EncounterDefinition — id, name, type ('random'|'explicit'), monsterPool (random: {monsterId,min,max}[]), optional placements (explicit type), optional roomMax.",
   tileTypes: 'TileTypeDefinition — id, name, icon (emoji), color (hex like #ff0000), traversable (boolean), optional requiredItemId (item required to enter any tile of this type, overridable per-tile).',
-  skills: "SkillDefinition — id, className, type ('passive'|'active'), unlockLevel (number, or null = grant-only via item/set, never level-learned), sortOrder, cooldown (actives only), passiveEffects[] and/or activeEffects[] — each effect's \"kind\" must be one from SKILL_OPTION_CATALOG (import { SKILL_OPTION_CATALOG } from '@idle-party-rpg/shared' — Record<string,SkillOptionDefinition> with {kind,slotType,label,description,targeting,params}). Percent params are stored as 0-1 fractions, not 0-100.",
+  skills: "SkillDefinition — id, className, type ('passive'|'active'), unlockLevel (number, or null = grant-only via item/set, never level-learned), sortOrder, cooldown (actives only), optional damageType (actives only — the skill's hits use it instead of the caster's attack type), optional talent ({maxRank 1-10, rankScaling? (magnitude added per rank above 1; absent = no scaling), prerequisites? (same-class skill ids), exclusiveGroup?} — talents are bought with talent points from unlockLevel instead of auto-unlocking; grant-only skills can't be talents), passiveEffects[] and/or activeEffects[] — each effect's \"kind\" must be one from SKILL_OPTION_CATALOG (import { SKILL_OPTION_CATALOG } from '@idle-party-rpg/shared' — Record<string,SkillOptionDefinition> with {kind,slotType,label,description,targeting,params}). Percent params are stored as 0-1 fractions, not 0-100. The 'triggered_effect' passive kind is a small script — trigger (on_hit|on_crit|on_kill|on_hit_taken|ally_below_hp|round_start) + optional conditions on the trigger's subject (targetClass, tag, hpMin/hpMax, gridDepth front|middle|back) + action (damage|heal|apply_status|shield|modify_cooldown) on actionTarget (subject|self|lowest_ally|party|all_enemies) with actionValue — use it for new behavior before asking for engine work.",
+  statusEffects: "StatusEffectDefinition — id, name, optional description, kind ('buff'|'debuff'), stacking ('refresh' = one instance, reapply resets duration | 'stack' = one instance, each application adds its modifiers/tick | 'independent' = every application is its own instance), optional maxStacks, duration (bearer turns; -1 = rest of combat), dispellable (boolean — Dispel/Cure only remove dispellable ones), optional tick ({kind:'damage'|'heal', amount per stack per turn, damageType?}), optional modifiers (per-stack 0-1 fractions: damageDealt, damageTaken, dodgeChance (players only); flat bonusDamage (players only)), optional damageTakenTypes (DamageType[] limiting damageTaken), optional bonusDamageType (default holy), optional confusion (monsters attack their own side), optional taunt (players only — monsters' single-target attacks must hit the bearer; apply to self from a Knight skill), optional expiresOnAction. Built-ins (lullaby, crippling_shot, scorch, sunder, chaos, war_song, blessed_arms, taunt) are applied by engine skill options and can be edited but not deleted. Apply custom ones via the 'apply_status' skill option or a monster skill entry's statusEffectId.",
+  affixes: "AffixDefinition — id, name, stat ('bonus_attack'|'damage_reduction'|'magic_reduction'|'crit_chance' (percent)|'bonus_damage'|'resistance' (percent)|'stun_resistance'|'dot_resistance'|'debuff_resistance' (percent)), damageType (REQUIRED for bonus_damage and resistance), min/max (inclusive integer roll range), rarities (ItemRarity[] whose pool includes it), optional slots (EquipSlot[]; absent = every slot), optional weight (relative draw weight, default 1). Dropped gear rolls 1/2/3/4 affixes at uncommon/rare/epic/legendary from the affixes matching its rarity and slot, becoming a unique item instance (inventory key '<itemId>#<suffix>'); item ids therefore cannot contain '#'. Rolled values are snapshots — editing or deleting an affix does not change items already dropped.",
+  salvageTables: "SalvageTableDefinition — id (the ItemRarity it covers: one table per rarity; a rarity without a table can't be salvaged), yields (SalvageYield[]: {itemId (must be an existing item — usually a crafting material fed into RecipeDefinition ingredients), min/max (inclusive integer quantity per salvaged item), optional chance (0-1, default 1)}). Only gear salvages; socketed gear must have its gems removed first.",
   designNotes: 'DesignNote — id, title, body (markdown), optional tags (string[]), author (server fills this from the token label, do not accept from caller input), createdAt/updatedAt (server fills, ISO timestamps via new Date().toISOString()).',
 };
 
@@ -47,6 +50,9 @@ function getLiveContentArray(deps: McpToolDeps, type: DraftContentType): unknown
     case 'encounters': return Object.values(store.getAllEncounters());
     case 'tileTypes': return Object.values(store.getAllTileTypes());
     case 'skills': return Object.values(store.getAllSkills());
+    case 'statusEffects': return Object.values(store.getAllStatusEffects());
+    case 'affixes': return Object.values(store.getAllAffixes());
+    case 'salvageTables': return Object.values(store.getAllSalvageTables());
     case 'designNotes': return Object.values(store.getAllDesignNotes());
   }
 }
@@ -93,6 +99,9 @@ export async function getOverview(deps: McpToolDeps) {
       quests: Object.keys(store.getAllQuests()).length,
       dungeons: Object.keys(store.getAllDungeons()).length,
       skills: Object.keys(store.getAllSkills()).length,
+      statusEffects: Object.keys(store.getAllStatusEffects()).length,
+      affixes: Object.keys(store.getAllAffixes()).length,
+      salvageTables: Object.keys(store.getAllSalvageTables()).length,
       designNotes: Object.keys(store.getAllDesignNotes()).length,
     };
     const versionStore = deps.versionStore();
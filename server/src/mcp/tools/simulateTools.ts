@@ -0,0 +1,51 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ALL_CLASS_NAMES, MAX_SIM_ITERATIONS, MAX_SIM_LEVEL } from '@idle-party-rpg/shared';
+import type { BattleSimReport, ClassName, PartyGridPosition } from '@idle-party-rpg/shared';
+import { runBattleSim } from '../../game/BattleSimRunner.js';
+import type { BattleSimRequest } from '../../game/BattleSimRunner.js';
+import type { McpToolDeps } from './McpToolDeps.js';
+import { toolResult, errorMessage } from './mcpResult.js';
+
+export async function simulateBattleTool(
+  deps: McpToolDeps,
+  args: BattleSimRequest,
+): Promise<{ error?: string; report?: BattleSimReport }> {
+  try {
+    const result = await runBattleSim(args, deps.contentStore(), deps.versionStore());
+    if (!result.success) return { error: result.error };
+    return { report: result.report };
+  } catch (err) {
+    return { error: errorMessage(err) };
+  }
+}
+
+export function registerSimulateTools(server: McpServer, deps: McpToolDeps): void {
+  server.registerTool(
+    'simulate_battle',
+    {
+      description: `Run a hypothetical party against an encounter with the real combat engine, up to ${MAX_SIM_ITERATIONS} times, and report win rate, average ticks-to-kill, and per-member average damage, healing and death rate. Use it to check a monster/encounter/item/skill change for balance before proposing it. Battle i uses seed + i, so quoting the report's seed reproduces it.`,
+      inputSchema: {
+        party: z.array(z.object({
+          name: z.string().describe('Unique display name for this member.'),
+          className: z.enum(ALL_CLASS_NAMES as [ClassName, ...ClassName[]]),
+          level: z.number().int().min(1).max(MAX_SIM_LEVEL),
+          skillIds: z.array(z.string().nullable()).describe('Equipped skill IDs by slot (null = empty slot).'),
+          equipmentIds: z.array(z.string()).describe('Item IDs to wear; each lands in its equip slot.'),
+          gridPosition: z.number().int().min(0).max(8).describe('Cell on the 3x3 party grid (col 2 = front).'),
+        })).min(1),
+        encounterId: z.string(),
+        iterations: z.number().int().min(1).max(MAX_SIM_ITERATIONS),
+        seed: z.number().int().optional().describe('Omit for a random seed.'),
+        versionId: z.string().optional().describe('If given, simulate against this version snapshot (e.g. a draft) instead of live content.'),
+      },
+    },
+    async (args) => {
+      const result = await simulateBattleTool(deps, {
+        ...args,
+        party: args.party.map(m => ({ ...m, gridPosition: m.gridPosition as PartyGridPosition })),
+      });
+      return toolResult(result);
+    },
+  );
+}
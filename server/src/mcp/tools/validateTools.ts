@@ -1,6 +1,6 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { migrateLegacySet } from '@idle-party-rpg/shared';
+import { migrateLegacySet, validateItemSockets, validateConsumableEffect, validateSalvageTable, SEED_STATUS_EFFECTS } from '@idle-party-rpg/shared';
 import type { ContentSnapshot } from '../../game/VersionStore.js';
 import type { McpToolDeps } from './McpToolDeps.js';
 import { toolResult, errorMessage } from './mcpResult.js';
@@ -20,9 +20,12 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
   const shopIds = new Set((snapshot.shops ?? []).map(s => s.id));
   const npcIds = new Set((snapshot.npcs ?? []).map(n => n.id));
   const questIds = new Set((snapshot.quests ?? []).map(q => q.id));
+  const recipeIds = new Set((snapshot.recipes ?? []).map(r => r.id));
   const dungeonIds = new Set((snapshot.dungeons ?? []).map(d => d.id));
   const tileTypeIds = new Set((snapshot.tileTypes ?? []).map(t => t.id));
   const skillIds = new Set((snapshot.skills ?? []).map(s => s.id));
+  // Built-in status effects always resolve (the engine falls back to the seeds).
+  const statusEffectIds = new Set([...Object.keys(SEED_STATUS_EFFECTS), ...(snapshot.statusEffects ?? []).map(s => s.id)]);
   const mapIds = new Set(snapshot.world.maps.map(m => m.id));
   const tileById = new Map(snapshot.world.tiles.map(t => [t.id, t]));
 
@@ -35,7 +38,7 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
     });
   }
 
-  // --- Tiles: encounter table, zone/type/shop/npc/dungeon/requiredItemId, mapId ---
+  // --- Tiles: encounter table, zone/type/shop/npc/dungeon/requiredItemId, mapId, harvest drops ---
   for (const tile of snapshot.world.tiles) {
     (tile.encounterTable ?? []).forEach((entry, index) => {
       if (!encounterIds.has(entry.encounterId)) {
@@ -63,6 +66,13 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
     if (!mapIds.has(tile.mapId)) {
       problems.push(`Room '${tile.name}' (${tile.id}) references unknown map '${tile.mapId}'.`);
     }
+    for (const node of tile.harvestNodes ?? []) {
+      for (const drop of node.drops) {
+        if (!itemIds.has(drop.itemId)) {
+          problems.push(`Room '${tile.name}' (${tile.id}) harvest node '${node.id}' drops unknown item '${drop.itemId}'.`);
+        }
+      }
+    }
     (tile.transitions ?? []).forEach((transition, index) => {
       const target = tileById.get(transition.tileId);
       if (!target || target.mapId !== transition.mapId) {
@@ -92,6 +102,13 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
         problems.push(`Monster '${monster.id}' drops reference unknown item '${drop.itemId}' (index ${index}).`);
       }
     });
+    (monster.phases ?? []).forEach((phase, phaseIndex) => {
+      (phase.summons ?? []).forEach(summon => {
+        if (!monsterIds.has(summon.monsterId)) {
+          problems.push(`Monster '${monster.id}' phase ${phaseIndex} summons unknown monster '${summon.monsterId}'.`);
+        }
+      });
+    });
   }
 
   // --- Dungeons ---
@@ -107,6 +124,9 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
           problems.push(`Dungeon '${dungeon.id}' floor ${floorIndex} (floorNumber ${floor.floorNumber}) reward ${rewardIndex} references unknown item '${reward.itemId}'.`);
         }
       });
+      if (floor.bossMonsterId && !monsterIds.has(floor.bossMonsterId)) {
+        problems.push(`Dungeon '${dungeon.id}' floor ${floorIndex} (floorNumber ${floor.floorNumber}) references unknown boss monster '${floor.bossMonsterId}'.`);
+      }
     });
     if (dungeon.entryRequirements?.requiredItemId && !itemIds.has(dungeon.entryRequirements.requiredItemId)) {
       problems.push(`Dungeon '${dungeon.id}' entryRequirements.requiredItemId references unknown item '${dungeon.entryRequirements.requiredItemId}'.`);
@@ -146,6 +166,11 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
     }
   }
 
+  // --- Salvage tables ---
+  for (const table of snapshot.salvageTables ?? []) {
+    for (const error of validateSalvageTable(table, itemIds)) problems.push(`Salvage table '${table.id}': ${error}`);
+  }
+
   // --- Quests ---
   for (const quest of snapshot.quests ?? []) {
     quest.objectives.forEach((obj, index) => {
@@ -160,6 +185,8 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
     quest.rewards.forEach((reward, index) => {
       if (reward.kind === 'item' && !itemIds.has(reward.itemId)) {
         problems.push(`Quest '${quest.id}' reward ${index} (item) references unknown item '${reward.itemId}'.`);
+      } else if (reward.kind === 'recipe' && !recipeIds.has(reward.recipeId)) {
+        problems.push(`Quest '${quest.id}' reward ${index} (recipe) references unknown recipe '${reward.recipeId}'.`);
       }
     });
   }
@@ -171,6 +198,11 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
         problems.push(`NPC '${npc.id}' questIds references unknown quest '${qid}' (index ${index}).`);
       }
     });
+    (npc.recipesForSale ?? []).forEach((offer, index) => {
+      if (!recipeIds.has(offer.recipeId)) {
+        problems.push(`NPC '${npc.id}' recipesForSale references unknown recipe '${offer.recipeId}' (index ${index}).`);
+      }
+    });
   }
 
   // --- Quest prerequisites + cycle detection ---
@@ -222,6 +254,49 @@ function collectProblems(snapshot: ContentSnapshot): string[] {
         problems.push(`Item '${item.id}' grantedSkillIds references unknown skill '${skillId}' (index ${index}).`);
       }
     });
+    for (const error of validateItemSockets(item)) problems.push(`Item '${item.id}': ${error}`);
+    for (const error of validateConsumableEffect(item)) problems.push(`Item '${item.id}': ${error}`);
+    const teaches = item.consumableEffect?.kind === 'learn_recipe' ? item.consumableEffect.recipeId : undefined;
+    if (teaches && !recipeIds.has(teaches)) {
+      problems.push(`Item '${item.id}' consumableEffect.recipeId references unknown recipe '${teaches}'.`);
+    }
+  }
+
+  // --- Skills: talent prerequisites ---
+  for (const skill of snapshot.skills ?? []) {
+    (skill.talent?.prerequisites ?? []).forEach((prereqId, index) => {
+      if (!skillIds.has(prereqId)) {
+        problems.push(`Skill '${skill.id}' talent prerequisite ${index} references unknown skill '${prereqId}'.`);
+      }
+    });
+  }
+
+  // --- Status effects: skill apply_status options and monster skill entries ---
+  for (const skill of snapshot.skills ?? []) {
+    (skill.activeEffects ?? []).forEach((effect, index) => {
+      if (effect.kind === 'apply_status' && effect.statusEffectId && !statusEffectIds.has(effect.statusEffectId)) {
+        problems.push(`Skill '${skill.id}' active option ${index} references unknown status effect '${effect.statusEffectId}'.`);
+      }
+    });
+    (skill.passiveEffects ?? []).forEach((effect, index) => {
+      if (effect.kind === 'triggered_effect' && effect.statusEffectId && !statusEffectIds.has(effect.statusEffectId)) {
+        problems.push(`Skill '${skill.id}' passive option ${index} references unknown status effect '${effect.statusEffectId}'.`);
+      }
+    });
+  }
+  for (const monster of snapshot.monsters) {
+    (monster.skills ?? []).forEach((entry, index) => {
+      if (entry.statusEffectId && !statusEffectIds.has(entry.statusEffectId)) {
+        problems.push(`Monster '${monster.id}' skill ${index} (${entry.skillId}) references unknown status effect '${entry.statusEffectId}'.`);
+      }
+    });
+    (monster.phases ?? []).forEach((phase, phaseIndex) => {
+      (phase.skills ?? []).forEach((entry, index) => {
+        if (entry.statusEffectId && !statusEffectIds.has(entry.statusEffectId)) {
+          problems.push(`Monster '${monster.id}' phase ${phaseIndex} skill ${index} (${entry.skillId}) references unknown status effect '${entry.statusEffectId}'.`);
+        }
+      });
+    });
   }
 
   // --- World start tiles ---
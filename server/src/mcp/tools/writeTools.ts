@@ -1,7 +1,7 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { ALL_CLASS_NAMES, DEFAULT_MAP_ID } from '@idle-party-rpg/shared';
-import type { ClassName, SkillSlot, SkillSlotType, WorldTileDefinition } from '@idle-party-rpg/shared';
+import type { ClassName, HarvestNode, SkillSlot, SkillSlotType, WorldTileDefinition } from '@idle-party-rpg/shared';
 import type { McpToolDeps } from './McpToolDeps.js';
 import { DRAFT_CONTENT_TYPES } from '../../game/DraftEditor.js';
 import type { DraftContentType } from '../../game/DraftEditor.js';
@@ -21,6 +21,16 @@ const TILE_INPUT_SHAPE = {
   npcId: z.string().optional(),
   dungeonId: z.string().optional(),
   requiredItemId: z.string().optional(),
+  stash: z.boolean().optional(),
+  harvestNodes: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(['ore', 'herb', 'fishing']),
+    name: z.string(),
+    requiredCraftLevel: z.number().optional(),
+    respawnSeconds: z.number(),
+    drops: z.array(z.object({ itemId: z.string(), chance: z.number() })),
+    xpReward: z.number().optional(),
+  })).optional(),
   transitions: z.array(z.object({ mapId: z.string(), tileId: z.string() })).optional(),
 };
 
@@ -68,6 +78,8 @@ interface UpsertTileInput {
   npcId?: string;
   dungeonId?: string;
   requiredItemId?: string;
+  stash?: boolean;
+  harvestNodes?: HarvestNode[];
   transitions?: { mapId: string; tileId: string }[];
 }
 
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, AUCTION_HOUSE_SENDER } from '@idle-party-rpg/shared';
+import { PlayerManager } from '../src/game/PlayerManager.js';
+import { AuctionSystem } from '../src/game/social/AuctionSystem.js';
+import { GuildStore } from '../src/game/social/GuildStore.js';
+import type { GameStateStore } from '../src/game/GameStateStore.js';
+import type { AccountStore } from '../src/auth/AccountStore.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+import WebSocket from 'ws';
+
+const HOUR = 3600 * 1000;
+
+function makeContentStore(): ContentStore {
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles: [], startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({}),
+    getAllRecipes: () => ({}),
+    getRecipe: () => undefined,
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'plains', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeAccountStore(): AccountStore {
+  return {
+    findByUsername: (username: string) => ({ username }),
+    getAllUsernames: () => ['alice', 'bob'],
+    updateLastActive: vi.fn().mockResolvedValue(undefined),
+  } as unknown as AccountStore;
+}
+
+function makeStore(): GameStateStore {
+  return {
+    save: vi.fn().mockResolvedValue(undefined),
+    saveAll: vi.fn().mockResolvedValue(undefined),
+    load: vi.fn().mockResolvedValue(null),
+    loadAll: vi.fn().mockResolvedValue([]),
+    delete: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+function makeWs(): WebSocket {
+  return { readyState: WebSocket.OPEN, send: vi.fn(), on: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+}
+
+async function makeManager(): Promise<PlayerManager> {
+  const pm = new PlayerManager(wrapGrids(makeGrid()), makeContentStore(), new GuildStore(), makeAccountStore(), makeStore());
+  for (const username of ['alice', 'bob']) {
+    await pm.login(makeWs(), username);
+    pm.getSessionByUsername(username)!.setClass('Knight');
+  }
+  return pm;
+}
+
+describe('AuctionSystem', () => {
+  let auctions: AuctionSystem;
+  beforeEach(() => { auctions = new AuctionSystem(); });
+
+  it('caps listings per seller and refuses self-purchase', () => {
+    for (let i = 0; i < 10; i++) auctions.createListing('alice', 'janky_helmet', 1, 10, 24);
+    expect(auctions.getListingError('alice', 1, 10, 24)).toBe('You can have at most 10 listings.');
+    expect(auctions.getListingError('bob', 1, 10, 24)).toBeNull();
+    const [first] = auctions.getSellerListings('alice');
+    expect(auctions.checkPurchase(first.id, 'alice')).toBe("You can't buy your own listing.");
+    expect(auctions.checkPurchase(first.id, 'bob')).toBe(first);
+  });
+
+  it('hands expired listings back exactly once', () => {
+    const listing = auctions.createListing('alice', 'janky_helmet', 1, 10, 12, undefined, 0);
+    expect(auctions.takeExpired(11 * HOUR)).toEqual([]);
+    expect(auctions.checkPurchase(listing.id, 'bob', 12 * HOUR)).toBe('That listing is no longer available.');
+    expect(auctions.takeExpired(12 * HOUR)).toEqual([listing]);
+    expect(auctions.getAllListings()).toEqual([]);
+  });
+});
+
+describe('PlayerManager auction house', () => {
+  it('escrows the item, then mails it to the buyer and the payout to the seller', async () => {
+    const pm = await makeManager();
+    const alice = pm.getSessionByUsername('alice')!;
+    const bob = pm.getSessionByUsername('bob')!;
+    alice.addToInventory('janky_helmet', 3);
+    bob.grantGold(500);
+
+    expect(pm.listAuction('alice', 'janky_helmet', 2, 200, 24)).toBeNull();
+    expect(alice.getInventoryCount('janky_helmet')).toBe(1);
+    const [listing] = pm.getAuctionResults('bob', { slot: 'head' }).listings;
+    expect(listing).toMatchObject({ seller: 'alice', quantity: 2, price: 200 });
+
+    expect(pm.buyAuction('bob', listing.id)).toBeNull();
+    expect(bob.getGold()).toBe(300);
+    expect(pm.mailboxes.getMailbox('bob')).toMatchObject([{ fromUsername: AUCTION_HOUSE_SENDER, system: true, attachments: [{ itemId: 'janky_helmet', quantity: 2 }] }]);
+    expect(pm.mailboxes.getMailbox('alice')).toMatchObject([{ fromUsername: AUCTION_HOUSE_SENDER, system: true, gold: 190, attachments: [] }]);
+    expect(pm.buyAuction('bob', listing.id)).toBe('That listing is no longer available.');
+  });
+
+  it('refuses purchases the buyer cannot afford without touching the listing', async () => {
+    const pm = await makeManager();
+    pm.getSessionByUsername('alice')!.addToInventory('janky_helmet', 1);
+    pm.listAuction('alice', 'janky_helmet', 1, 999_999, 48);
+    const [listing] = pm.auctions.getAllListings();
+
+    expect(pm.buyAuction('bob', listing.id)).toBe('Not enough gold.');
+    expect(pm.auctions.getListing(listing.id)).not.toBeNull();
+    expect(pm.listAuction('alice', 'janky_helmet', 1, 10, 24)).toBe('Not enough items in inventory.');
+  });
+
+  it('returns cancelled and expired listings through the mailbox', async () => {
+    const pm = await makeManager();
+    const alice = pm.getSessionByUsername('alice')!;
+    alice.addToInventory('janky_helmet', 2);
+    pm.listAuction('alice', 'janky_helmet', 1, 10, 12);
+    pm.listAuction('alice', 'janky_helmet', 1, 10, 24);
+    const [first, second] = pm.auctions.getSellerListings('alice');
+
+    expect(pm.cancelAuction('bob', first.id)).toBe('That is not your listing.');
+    expect(pm.cancelAuction('alice', first.id)).toBeNull();
+    pm.expireAuctions(second.expiresAt);
+    expect(pm.auctions.getAllListings()).toEqual([]);
+    expect(pm.mailboxes.getMailbox('alice')).toMatchObject([
+      { attachments: [{ itemId: 'janky_helmet', quantity: 1 }], returned: true },
+      { attachments: [{ itemId: 'janky_helmet', quantity: 1 }], returned: true },
+    ]);
+  });
+});
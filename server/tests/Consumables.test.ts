@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, createPartyCombatState, createMonsterInstance, SEED_MONSTERS } from '@idle-party-rpg/shared';
+import type { PartyCombatState } from '@idle-party-rpg/shared';
+import { PlayerSession } from '../src/game/PlayerSession.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+
+function makeContentStore(): ContentStore {
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles: [], startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({}),
+    getAllRecipes: () => ({}),
+    getRecipe: () => undefined,
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+const START = new HexTile(offsetToCube({ col: 0, row: 0 }), 'plains', 'zone', 'tile-start');
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(START);
+  return grid;
+}
+
+function makeSession(username = 'alice'): PlayerSession {
+  const session = new PlayerSession(username, wrapGrids(makeGrid()), makeContentStore());
+  session.setClass('Knight');
+  return session;
+}
+
+function makeCombat(session: PlayerSession): PartyCombatState {
+  const combat = createPartyCombatState([session.getCombatInfo()], [createMonsterInstance(SEED_MONSTERS.goblin, 4)]);
+  session.getCurrentCombat = () => combat;
+  return combat;
+}
+
+describe('PlayerSession consumables', () => {
+  it('starts a booster out of combat and applies it to victory gold', () => {
+    const session = makeSession();
+    session.addToInventory('gold_elixir', 1);
+
+    expect(session.handleUseConsumable('gold_elixir')).toBeNull();
+    expect(session.getInventoryCount('gold_elixir')).toBe(0);
+    expect(session.getState([]).character.activeConsumables).toMatchObject([{ itemId: 'gold_elixir' }]);
+
+    session.handleVictory({ xp: 0, gold: 10, items: [] }, START, { unlockTiles: false });
+    expect(session.getGold()).toBe(15);
+  });
+
+  it('refuses instant effects outside battle and uses them inside', () => {
+    const session = makeSession();
+    session.addToInventory('lesser_red_potion', 1);
+    expect(session.handleUseConsumable('lesser_red_potion')).toBe('Lesser Red Potion can only be used in battle.');
+
+    const combat = makeCombat(session);
+    combat.players[0].currentHp = 1;
+    expect(session.handleUseConsumable('lesser_red_potion')).toBeNull();
+    expect(combat.players[0].currentHp).toBeGreaterThan(1);
+    expect(session.getInventoryCount('lesser_red_potion')).toBe(0);
+  });
+
+  it('validates and stores auto-use rules', () => {
+    const session = makeSession();
+    expect(session.handleSetAutoUse('lesser_red_potion', 'keep_active')).toBe("Lesser Red Potion can't be auto-used that way.");
+    expect(session.handleSetAutoUse('lesser_red_potion', 'self_hp_below', 40)).toBeNull();
+    expect(session.getState([]).character.autoUseRules).toEqual([{ itemId: 'lesser_red_potion', trigger: 'self_hp_below', hpPercent: 40 }]);
+    expect(session.handleSetAutoUse('lesser_red_potion', null)).toBeNull();
+    expect(session.getState([]).character.autoUseRules).toEqual([]);
+  });
+
+  it('fires in-combat rules once per cooldown window', () => {
+    const session = makeSession();
+    session.addToInventory('lesser_red_potion', 3);
+    session.handleSetAutoUse('lesser_red_potion', 'self_hp_below', 50);
+    const combat = makeCombat(session);
+
+    expect(session.runCombatAutoUse(combat)).toEqual([]);
+    combat.players[0].currentHp = 1;
+    expect(session.runCombatAutoUse(combat)).toHaveLength(1);
+    combat.players[0].currentHp = 1;
+    expect(session.runCombatAutoUse(combat)).toEqual([]);
+    expect(session.getInventoryCount('lesser_red_potion')).toBe(2);
+  });
+
+  it('keeps a buff running from battle start and persists it', () => {
+    const session = makeSession();
+    session.addToInventory('elixir_of_might', 2);
+    session.handleSetAutoUse('elixir_of_might', 'keep_active');
+    const combat = makeCombat(session);
+
+    expect(session.runBattleStartAutoUse(combat)).toEqual(['alice uses Elixir of Might.']);
+    expect(combat.players[0].statuses.some(s => s.effectId === 'consumable:elixir_of_might')).toBe(true);
+    // Still running — the next battle doesn't drink another.
+    expect(session.runBattleStartAutoUse(null)).toEqual([]);
+    expect(session.getCombatInfo().statuses?.some(s => s.effectId === 'consumable:elixir_of_might')).toBe(true);
+
+    const saved = JSON.parse(JSON.stringify(session.toSaveData()));
+    const restored = PlayerSession.fromSaveData(saved, wrapGrids(makeGrid()), makeContentStore());
+    expect(restored.getActiveConsumables()).toMatchObject([{ itemId: 'elixir_of_might' }]);
+    expect(restored.getState([]).character.autoUseRules).toEqual([{ itemId: 'elixir_of_might', trigger: 'keep_active' }]);
+  });
+});
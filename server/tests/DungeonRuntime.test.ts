@@ -6,7 +6,7 @@ import type { AccountStore, Account } from '../src/auth/AccountStore.js';
 import { HexGrid, HexTile, offsetToCube, DEFAULT_MAP_ID } from '@idle-party-rpg/shared';
 import type { ContentStore } from '../src/game/ContentStore.js';
 import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
-import type { DungeonDefinition, WorldTileDefinition, ClassName } from '@idle-party-rpg/shared';
+import type { DungeonDefinition, WorldTileDefinition, ClassName, MonsterDefinition, PartyCombatState } from '@idle-party-rpg/shared';
 import WebSocket from 'ws';
 
 // The entrance room (0,0) is linked to this dungeon.
@@ -35,13 +35,13 @@ function createFakeGrid(): HexGrid {
   return grid;
 }
 
-function createFakeContentStore(dungeon: DungeonDefinition): ContentStore {
+function createFakeContentStore(dungeon: DungeonDefinition, monsters: Record<string, MonsterDefinition> = {}): ContentStore {
   const entranceTile: WorldTileDefinition = { id: ENTRANCE_TILE_ID, mapId: DEFAULT_MAP_ID, col: 0, row: 0, type: 'dungeon', zone: 'crystal_caves', name: 'Cave Entrance', dungeonId: DUNGEON_ID };
   return {
     getStartTile: () => ({ col: 0, row: 0 }),
     getMonster: () => ({ id: 'goblin', name: 'Goblin', hp: 10, damage: 2, drops: [], damageType: 'physical' }),
     getItem: (id: string) => (id ? { id, name: id } : null),
-    getAllMonsters: () => ({}),
+    getAllMonsters: () => monsters,
     getAllItems: () => ({}),
     getZone: () => ({ id: 'crystal_caves', name: 'Crystal Caves', encounterTable: [{ encounterId: 'auto_goblin', weight: 1 }] }),
     getAllZones: () => ({}),
@@ -93,9 +93,13 @@ function createFakeWs(): WebSocket {
 }
 
 /** Spin up a manager with one player (default Knight) standing on the dungeon entrance room. */
-async function setup(dungeon = makeDungeon(), className: ClassName = 'Knight'): Promise<{ pm: PlayerManager; partyId: string; grid: HexGrid }> {
+async function setup(
+  dungeon = makeDungeon(),
+  className: ClassName = 'Knight',
+  monsters: Record<string, MonsterDefinition> = {},
+): Promise<{ pm: PlayerManager; partyId: string; grid: HexGrid }> {
   const grid = createFakeGrid();
-  const content = createFakeContentStore(dungeon);
+  const content = createFakeContentStore(dungeon, monsters);
   const pm = new PlayerManager(wrapGrids(grid), content, createFakeGuildStore(), createFakeAccountStore(['alice']), createFakeStore());
   const session = await pm.login(createFakeWs(), 'alice');
   session.setClass(className);
@@ -195,6 +199,24 @@ describe('Dungeon runtime (PartyBattleManager via PlayerManager)', () => {
     expect(session.getState([]).character?.xp).toBe(baseXp + 500);
   });
 
+  it('fights the boss floor\'s boss monster, alone when the floor has no encounter table', async () => {
+    const golem: MonsterDefinition = {
+      id: 'golem', name: 'Golem', hp: 200, damage: 5, damageType: 'physical', xp: 50, goldMin: 0, goldMax: 0,
+      phases: [{ hpThreshold: 50, summons: [{ monsterId: 'golem', count: 1 }] }],
+    };
+    const dungeon = makeDungeon({
+      floors: [{ floorNumber: 1, gridShape: { cols: 3, rows: 3 }, encounterTable: [], isBoss: true, bossMonsterId: 'golem', bossPosition: 1 }],
+    });
+    const { pm, partyId } = await setup(dungeon, 'Knight', { golem });
+    pm.partyBattles.enterDungeon(partyId, DUNGEON_ID);
+
+    const createCombat = (pm.partyBattles as unknown as { createCombatForParty: (id: string) => PartyCombatState }).createCombatForParty.bind(pm.partyBattles);
+    const combat = createCombat(partyId);
+    expect(combat.monsters.map(m => [m.id, m.gridPosition])).toEqual([['golem', 1]]);
+    expect(combat.monsterDefinitions.golem).toBe(golem);
+    expect(combat.monsters[0].phases).toHaveLength(1);
+  });
+
   it('routes class-restricted first-clear rewards to matching classes only', async () => {
     const rewards = [
       { itemId: 'knight_blade', chance: 1, classRestriction: ['Knight'] as ClassName[] },
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, SEED_RECIPES, DEFAULT_MAP_ID, CRAFTING_UNLOCK_LEVEL } from '@idle-party-rpg/shared';
+import type { WorldTileDefinition } from '@idle-party-rpg/shared';
+import { PlayerSession } from '../src/game/PlayerSession.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+
+const MINE: WorldTileDefinition = {
+  id: 'tile-mine',
+  mapId: DEFAULT_MAP_ID,
+  col: 0,
+  row: 0,
+  type: 'plains',
+  zone: 'zone',
+  name: 'Mine',
+  harvestNodes: [
+    { id: 'seam', kind: 'ore', name: 'Crystal Seam', respawnSeconds: 60, drops: [{ itemId: 'scrap_metal', chance: 1 }], xpReward: 5 },
+    { id: 'deep', kind: 'ore', name: 'Deep Vein', requiredCraftLevel: 3, respawnSeconds: 60, drops: [{ itemId: 'rough_quartz', chance: 1 }] },
+  ],
+};
+
+function makeContentStore(): ContentStore {
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles: [MINE], startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({}),
+    getQuest: () => undefined,
+    getAllRecipes: () => SEED_RECIPES,
+    getRecipe: (id: string) => SEED_RECIPES[id],
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'plains', 'zone', MINE.id));
+  return grid;
+}
+
+function makeSession(level = CRAFTING_UNLOCK_LEVEL): PlayerSession {
+  const session = new PlayerSession('alice', wrapGrids(makeGrid()), makeContentStore());
+  session.setClass('Knight');
+  (session as unknown as { character: { level: number } }).character.level = level;
+  return session;
+}
+
+describe('PlayerSession harvesting', () => {
+  it('gathers ready nodes it qualifies for, then waits out the respawn', () => {
+    const session = makeSession();
+    const now = Date.now();
+    expect(session.gatherHarvestNodes(MINE, now, () => 0)).toBe(true);
+    expect(session.getInventoryCount('scrap_metal')).toBe(1);
+    expect(session.getInventoryCount('rough_quartz')).toBe(0);
+
+    const nodes = session.getState([]).harvestNodes!;
+    expect(nodes.map(n => [n.id, n.blockedReason])).toEqual([['seam', null], ['deep', 'Requires Smithing 3.']]);
+    expect(nodes[0].readyAt).toBe(now + 60_000);
+
+    expect(session.gatherHarvestNodes(MINE, now + 59_999, () => 0)).toBe(false);
+    expect(session.gatherHarvestNodes(MINE, now + 60_000, () => 0)).toBe(true);
+    expect(session.getInventoryCount('scrap_metal')).toBe(2);
+  });
+
+  it('does nothing before crafting unlocks', () => {
+    const session = makeSession(CRAFTING_UNLOCK_LEVEL - 1);
+    expect(session.gatherHarvestNodes(MINE, 1000, () => 0)).toBe(false);
+    expect(session.getInventoryCount('scrap_metal')).toBe(0);
+    expect(session.getState([]).harvestNodes?.[0].blockedReason).toBe('Unlocks with crafting.');
+  });
+
+  it('keeps pending respawn timers across a save', () => {
+    const session = makeSession();
+    const now = Date.now();
+    session.gatherHarvestNodes(MINE, now, () => 0);
+    const saved = JSON.parse(JSON.stringify(session.toSaveData()));
+    const restored = PlayerSession.fromSaveData(saved, wrapGrids(makeGrid()), makeContentStore());
+    expect(restored.gatherHarvestNodes(MINE, now + 1000, () => 0)).toBe(false);
+    expect(restored.gatherHarvestNodes(MINE, now + 60_000, () => 0)).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, MAX_STACK, SEED_AFFIXES, createRngState, rngFn } from '@idle-party-rpg/shared';
+import type { ItemDefinition, ItemInstance } from '@idle-party-rpg/shared';
+import { PlayerSession } from '../src/game/PlayerSession.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+
+const SWORD: ItemDefinition = {
+  id: 'steel_sword', name: 'Steel Sword', rarity: 'rare', equipSlot: 'mainhand', bonusAttackMin: 2, bonusAttackMax: 4, value: 10,
+};
+const ORE: ItemDefinition = { id: 'iron_ore', name: 'Iron Ore', rarity: 'rare', value: 1 };
+const RUBY: ItemDefinition = { id: 'ruby', name: 'Ruby', rarity: 'rare', gem: true, bonusAttackMin: 2, bonusAttackMax: 2, gemRemovalCost: 10 };
+const SOCKETED_SWORD: ItemDefinition = { ...SWORD, id: 'socketed_sword', name: 'Socketed Sword', sockets: 1 };
+const ITEMS: Record<string, ItemDefinition> = { steel_sword: SWORD, iron_ore: ORE, ruby: RUBY, socketed_sword: SOCKETED_SWORD };
+
+function makeContentStore(): ContentStore {
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles: [], startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => ITEMS[id],
+    getAllItems: () => ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({}),
+    getAllRecipes: () => ({}),
+    getRecipe: () => undefined,
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'plains', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeSession(username = 'alice'): PlayerSession {
+  const session = new PlayerSession(username, wrapGrids(makeGrid()), makeContentStore());
+  session.setClass('Knight');
+  return session;
+}
+
+const KEEN_SWORD: ItemInstance = {
+  id: 'steel_sword#k33n0001', itemId: 'steel_sword',
+  affixes: [{ affixId: 'keen', name: 'Keen', stat: 'crit_chance', value: 4 }],
+};
+
+describe('PlayerSession item instances', () => {
+  it('rolls looted gear into an instance and keeps non-gear stackable', () => {
+    const session = makeSession();
+    const key = session.receiveLoot('steel_sword');
+    expect(key).toMatch(/^steel_sword#/);
+    expect(session.getInventoryCount(key!)).toBe(1);
+    expect(session.getItemInstance(key!)?.affixes).toHaveLength(2);
+    for (const affix of session.getItemInstance(key!)!.affixes) {
+      expect(SEED_AFFIXES[affix.affixId]).toBeDefined();
+    }
+
+    expect(session.receiveLoot('iron_ore')).toBe('iron_ore');
+    expect(session.receiveLoot('iron_ore')).toBe('iron_ore');
+    expect(session.getInventoryCount('iron_ore')).toBe(2);
+  });
+
+  it('rolls the same affixes and instance id from the same seed', () => {
+    const first = makeSession('alice');
+    const second = makeSession('bob');
+    const a = first.receiveLoot('steel_sword', rngFn(createRngState(42)));
+    const b = second.receiveLoot('steel_sword', rngFn(createRngState(42)));
+    expect(a).toBe(b);
+    expect(first.getItemInstance(a!)?.affixes).toEqual(second.getItemInstance(b!)?.affixes);
+  });
+
+  it('equips an instance and applies its affixes to combat stats', () => {
+    const session = makeSession();
+    expect(session.addItemInstance(KEEN_SWORD)).toBe(true);
+    expect(session.addItemInstance(KEEN_SWORD)).toBe(false);
+
+    expect(session.handleEquipItem(KEEN_SWORD.id)).toBe(true);
+    expect(session.getInventoryCount(KEEN_SWORD.id)).toBe(0);
+    expect(session.getCombatInfo().equipBonuses.critChance).toBe(4);
+    expect(session.getState([]).itemDefinitions[KEEN_SWORD.id]).toMatchObject({ name: 'Steel Sword', affixes: KEEN_SWORD.affixes });
+
+    // Unequipping keeps the record; giving the item away drops it.
+    expect(session.handleUnequipItem('mainhand').success).toBe(true);
+    expect(session.getItemInstance(KEEN_SWORD.id)).toEqual(KEEN_SWORD);
+    expect(session.removeFromInventory(KEEN_SWORD.id, 1)).toBe(true);
+    expect(session.getItemInstance(KEEN_SWORD.id)).toBeUndefined();
+  });
+
+  it('round-trips instances through save data alongside stackables', () => {
+    const session = makeSession();
+    session.addItemInstance(KEEN_SWORD);
+    session.addToInventory('steel_sword', 2);
+
+    const saved = JSON.parse(JSON.stringify(session.toSaveData()));
+    const restored = PlayerSession.fromSaveData(saved, wrapGrids(makeGrid()), makeContentStore());
+
+    expect(restored.getItemInstance(KEEN_SWORD.id)).toEqual(KEEN_SWORD);
+    expect(restored.getInventoryCount(KEEN_SWORD.id)).toBe(1);
+    expect(restored.getInventoryCount('steel_sword')).toBe(2);
+    expect(restored.describeItem(KEEN_SWORD.id)).toBe('Steel Sword (Keen)');
+  });
+
+  it('sockets a gem into equipped gear and pays to take it back out', () => {
+    const session = makeSession();
+    session.addToInventory('socketed_sword', 1);
+    session.addToInventory('ruby', 1);
+    expect(session.handleEquipItem('socketed_sword')).toBe(true);
+
+    expect(session.handleSocketGem('socketed_sword', 'ruby', true)).toBeNull();
+    const swordKey = session.getState([]).character.equipment.mainhand!;
+    expect(swordKey).toMatch(/^socketed_sword#/);
+    expect(session.getItemInstance(swordKey)?.gems).toEqual(['ruby']);
+    expect(session.getCombatInfo().equipBonuses.bonusAttackMin).toBe(4);
+    expect(session.getState([]).itemDefinitions.ruby).toMatchObject({ name: 'Ruby' });
+
+    expect(session.handleUnsocketGem(swordKey, 0, false)).toBe('Removing this gem costs 10 gold.');
+    session.grantGold(10);
+    expect(session.handleUnsocketGem(swordKey, 0, false)).toBeNull();
+    expect(session.getGold()).toBe(0);
+    expect(session.getInventoryCount('ruby')).toBe(1);
+    expect(session.getCombatInfo().equipBonuses.bonusAttackMin).toBe(2);
+  });
+
+  it('salvages an instance into materials and forgets its record', () => {
+    const session = makeSession();
+    session.addItemInstance(KEEN_SWORD);
+    session.addToInventory('iron_ore', 1);
+
+    expect(session.handleSalvage('iron_ore', 1)).toBe("Iron Ore isn't gear and can't be salvaged.");
+    expect(session.handleSalvage(KEEN_SWORD.id, 1)).toBeNull();
+    expect(session.getItemInstance(KEEN_SWORD.id)).toBeUndefined();
+    expect(session.getInventoryCount('scrap_metal')).toBeGreaterThanOrEqual(2);
+  });
+
+  it('bulk-salvages only the requested rarities', () => {
+    const session = makeSession();
+    session.addToInventory('steel_sword', 2);
+    session.addToInventory('socketed_sword', 1);
+
+    expect(session.handleSalvageAll(['common'])).toBe('Nothing to salvage.');
+    expect(session.handleSalvageAll(['rare'])).toBeNull();
+    expect(session.getInventoryCount('steel_sword')).toBe(0);
+    expect(session.getInventoryCount('socketed_sword')).toBe(0);
+    expect(session.getInventoryCount('arcane_dust')).toBeGreaterThanOrEqual(3);
+  });
+
+  it('bulk-salvages as much of a stack as the materials have room for', () => {
+    const session = makeSession();
+    session.addToInventory('steel_sword', 30);
+    session.handleSalvageAll(['rare']);
+    // Rare yields up to 4 scrap metal each: 24 fit, 6 stay
+    expect(session.getInventoryCount('steel_sword')).toBe(6);
+    expect(session.getInventoryCount('scrap_metal')).toBeLessThanOrEqual(MAX_STACK);
+    expect(session.getState([]).combatLog.at(-1)?.text).toMatch(/^Salvaged 24 items into .*Kept 6 with no room/);
+
+    const full = makeSession('bob');
+    full.addToInventory('steel_sword', 5);
+    full.addToInventory('arcane_dust', MAX_STACK - 3);
+    expect(full.handleSalvageAll(['rare'])).toBeNull();
+    // Up to 2 arcane dust each: one more fits
+    expect(full.getInventoryCount('steel_sword')).toBe(4);
+
+    full.addToInventory('arcane_dust', MAX_STACK - full.getInventoryCount('arcane_dust'));
+    expect(full.handleSalvageAll(['rare'])).toBe('No room for the salvaged materials.');
+    expect(full.getInventoryCount('steel_sword')).toBe(4);
+  });
+});
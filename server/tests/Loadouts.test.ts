@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS } from '@idle-party-rpg/shared';
+import { PlayerSession } from '../src/game/PlayerSession.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+
+function makeContentStore(): ContentStore {
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles: [], startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({}),
+    getAllRecipes: () => ({}),
+    getRecipe: () => undefined,
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'plains', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeSession(): PlayerSession {
+  const session = new PlayerSession('alice', wrapGrids(makeGrid()), makeContentStore());
+  session.setClass('Knight');
+  return session;
+}
+
+function lastLog(session: PlayerSession): string {
+  const log = session.getState([]).combatLog;
+  return log[log.length - 1].text;
+}
+
+describe('PlayerSession loadouts', () => {
+  it('swaps gear and skill slots back to a saved loadout', () => {
+    const session = makeSession();
+    session.addToInventory('iron_battleaxe', 1);
+    session.addToInventory('janky_helmet', 1);
+    session.handleEquipItem('iron_battleaxe');
+    session.handleEquipItem('janky_helmet');
+    const skills = [...session.getSkillLoadout()!.equippedSkills];
+    expect(session.handleSaveLoadout('  Dungeon ')).toBeNull();
+
+    session.handleUnequipItem('mainhand');
+    session.handleUnequipItem('head');
+    session.handleUnequipSkill(0);
+
+    expect(session.handleApplyLoadout('Dungeon')).toBeNull();
+    const character = session.getState([]).character;
+    expect(character.equipment).toMatchObject({ mainhand: 'iron_battleaxe', offhand: 'iron_battleaxe', head: 'janky_helmet' });
+    expect(character.inventory).toEqual({});
+    expect(session.getSkillLoadout()!.equippedSkills).toEqual(skills);
+    expect(lastLog(session)).toBe('Equipped loadout "Dungeon".');
+  });
+
+  it('reports pieces the player no longer has', () => {
+    const session = makeSession();
+    session.addToInventory('janky_helmet', 1);
+    session.handleEquipItem('janky_helmet');
+    session.handleSaveLoadout('Farming');
+    session.handleUnequipItem('head');
+    session.removeFromInventory('janky_helmet', 1);
+
+    expect(session.handleApplyLoadout('Farming')).toBeNull();
+    expect(lastLog(session)).toBe('Missing from "Farming": Janky Helmet.');
+  });
+
+  it('refuses to drop an item the path needs', () => {
+    const session = makeSession();
+    session.addToInventory('waterskin', 1);
+    session.handleSaveLoadout('Bare');
+    session.handleEquipItem('waterskin');
+    session.getCurrentTile = () => ({ requiredItemId: 'waterskin' }) as unknown as HexTile;
+
+    expect(session.handleApplyLoadout('Bare')).toBe('Waterskin is needed for the path ahead.');
+    expect(session.hasItemEquipped('waterskin')).toBe(true);
+  });
+
+  it('manages the saved list and round-trips it through save data', () => {
+    const session = makeSession();
+    expect(session.handleSaveLoadout('')).toBe('Loadout name is required.');
+    expect(session.handleApplyLoadout('Nope')).toBe('No such loadout.');
+    session.handleSaveLoadout('A');
+    session.handleSaveLoadout('B');
+    session.handleSaveLoadout('A');
+    expect(session.getLoadouts().map(l => l.name)).toEqual(['B', 'A']);
+    expect(session.handleDeleteLoadout('B')).toBeNull();
+
+    const saved = JSON.parse(JSON.stringify(session.toSaveData()));
+    const restored = PlayerSession.fromSaveData(saved, wrapGrids(makeGrid()), makeContentStore());
+    expect(restored.getState([]).character.loadouts.map(l => l.name)).toEqual(['A']);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, GIFT_MAIL_SUBJECT, MAIL_EXPIRY_MS, SYSTEM_MAIL_SENDER } from '@idle-party-rpg/shared';
+import { PlayerManager } from '../src/game/PlayerManager.js';
+import { GuildStore } from '../src/game/social/GuildStore.js';
+import type { GameStateStore } from '../src/game/GameStateStore.js';
+import type { AccountStore } from '../src/auth/AccountStore.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+import WebSocket from 'ws';
+
+function makeContentStore(): ContentStore {
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles: [], startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({}),
+    getAllRecipes: () => ({}),
+    getRecipe: () => undefined,
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'plains', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeAccountStore(): AccountStore {
+  return {
+    findByUsername: (username: string) => ({ username }),
+    getAllUsernames: () => ['alice', 'bob'],
+    updateLastActive: vi.fn().mockResolvedValue(undefined),
+  } as unknown as AccountStore;
+}
+
+function makeStore(): GameStateStore {
+  return {
+    save: vi.fn().mockResolvedValue(undefined),
+    saveAll: vi.fn().mockResolvedValue(undefined),
+    load: vi.fn().mockResolvedValue(null),
+    loadAll: vi.fn().mockResolvedValue([]),
+    delete: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+function makeWs(): WebSocket {
+  return { readyState: WebSocket.OPEN, send: vi.fn(), on: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+}
+
+async function makeManager(): Promise<PlayerManager> {
+  const pm = new PlayerManager(wrapGrids(makeGrid()), makeContentStore(), new GuildStore(), makeAccountStore(), makeStore());
+  for (const username of ['alice', 'bob']) {
+    await pm.login(makeWs(), username);
+    pm.getSessionByUsername(username)!.setClass('Knight');
+  }
+  return pm;
+}
+
+describe('PlayerManager mailbox', () => {
+  it('sends several attachments plus gold in one mail, all or nothing', async () => {
+    const pm = await makeManager();
+    const alice = pm.getSessionByUsername('alice')!;
+    alice.addToInventory('janky_helmet', 2);
+    alice.addToInventory('lesser_red_potion', 10);
+    alice.grantGold(100);
+
+    const attachments = [{ itemId: 'janky_helmet', quantity: 1 }, { itemId: 'lesser_red_potion', quantity: 11 }];
+    expect(pm.sendMail('alice', 'bob', { subject: 'Loot', attachments })).toBe('Not enough items in inventory');
+    expect(alice.getInventoryCount('janky_helmet')).toBe(2);
+
+    attachments[1].quantity = 10;
+    expect(pm.sendMail('alice', 'bob', { subject: ' Loot ', body: 'Enjoy', attachments, gold: 40 })).toBeNull();
+    expect(alice.getInventoryCount('janky_helmet')).toBe(1);
+    expect(alice.getInventoryCount('lesser_red_potion')).toBe(0);
+    expect(alice.getGold()).toBe(60);
+    expect(pm.mailboxes.getMailbox('bob')).toMatchObject([{ fromUsername: 'alice', subject: 'Loot', body: 'Enjoy', attachments, gold: 40 }]);
+    expect(pm.sendMail('alice', 'alice', { subject: 'Hi', gold: 1 })).toBe('Cannot mail yourself');
+  });
+
+  it('sends a gift as mail and keeps the gift wording for errors', async () => {
+    const pm = await makeManager();
+    const alice = pm.getSessionByUsername('alice')!;
+    alice.addToInventory('lesser_red_potion', 2);
+
+    expect(pm.sendGift('alice', 'alice', 'lesser_red_potion', 1)).toBe('Cannot gift to yourself');
+    expect(pm.sendGift('alice', 'bob', 'lesser_red_potion', 0)).toBe('Invalid quantity');
+    expect(pm.sendGift('alice', 'bob', 'lesser_red_potion', 5)).toBe('Not enough items in inventory');
+    expect(pm.sendGift('alice', 'bob', 'lesser_red_potion', 2)).toBeNull();
+    expect(pm.mailboxes.getMailbox('bob')).toMatchObject([{ fromUsername: 'alice', subject: GIFT_MAIL_SUBJECT }]);
+  });
+
+  it('claims everything that fits and leaves the rest in the mail', async () => {
+    const pm = await makeManager();
+    const bob = pm.getSessionByUsername('bob')!;
+    bob.addToInventory('lesser_red_potion', 95);
+    const goldBefore = bob.getGold();
+    pm.sendSystemMail('bob', { subject: 'Grant', attachments: [{ itemId: 'lesser_red_potion', quantity: 10 }, { itemId: 'janky_helmet', quantity: 1 }], gold: 25 });
+    pm.sendSystemMail('bob', { subject: 'More', attachments: [{ itemId: 'janky_helmet', quantity: 2 }] });
+
+    expect(pm.claimAllMail('bob')).toBeNull();
+    expect(bob.getInventoryCount('janky_helmet')).toBe(3);
+    expect(bob.getGold()).toBe(goldBefore + 25);
+    const [left] = pm.mailboxes.getMailbox('bob');
+    expect(pm.mailboxes.getMailbox('bob')).toHaveLength(1);
+    expect(left).toMatchObject({ fromUsername: SYSTEM_MAIL_SENDER, attachments: [{ itemId: 'lesser_red_potion', quantity: 10 }] });
+    expect(left.gold).toBeUndefined();
+    expect(pm.claimMail('bob', left.id)).toBe('Inventory full for that item (max 99)');
+    expect(pm.returnMail('bob', left.id)).toBe('Mail from System cannot be returned');
+    expect(pm.deleteMail('bob', left.id)).toBe('Claim or return the attachments first.');
+  });
+
+  it('returns player mail to its sender once, on request or on expiry', async () => {
+    const pm = await makeManager();
+    pm.getSessionByUsername('alice')!.addToInventory('janky_helmet', 2);
+    pm.sendMail('alice', 'bob', { subject: 'One', attachments: [{ itemId: 'janky_helmet', quantity: 1 }] });
+    pm.sendMail('alice', 'bob', { subject: 'Two', attachments: [{ itemId: 'janky_helmet', quantity: 1 }] });
+    const [first, second] = pm.mailboxes.getMailbox('bob');
+
+    // Bounced mail gets a fresh expiry from the time it was returned.
+    vi.spyOn(Date, 'now').mockReturnValue(first.sentAt + 1000);
+    expect(pm.returnMail('bob', first.id)).toBeNull();
+    vi.restoreAllMocks();
+    pm.expireMail(second.expiresAt);
+    expect(pm.mailboxes.getMailbox('bob')).toEqual([]);
+    const returned = [...pm.mailboxes.getMailbox('alice')];
+    expect(returned).toMatchObject([{ subject: 'One', returned: true }, { subject: 'Two', returned: true }]);
+
+    // Returned mail that expires again is kept with its items, not bounced back to bob.
+    expect(returned[1].expiresAt).toBe(second.expiresAt + MAIL_EXPIRY_MS);
+    pm.expireMail(returned[1].expiresAt);
+    expect(pm.mailboxes.getMailbox('alice')).toMatchObject([{ subject: 'One' }, { subject: 'Two' }]);
+    expect(pm.mailboxes.getMailbox('bob')).toEqual([]);
+  });
+
+  it('keeps expired system mail that still holds items or gold, and drops it once claimed', async () => {
+    const pm = await makeManager();
+    const bob = pm.getSessionByUsername('bob')!;
+    const mail = pm.sendSystemMail('bob', { subject: 'Auction purchase', attachments: [{ itemId: 'janky_helmet', quantity: 1 }], gold: 30 });
+    const notice = pm.sendSystemMail('bob', { subject: 'Notice', body: 'Read me' });
+
+    pm.expireMail(notice.expiresAt);
+    expect(pm.mailboxes.getMailbox('bob')).toMatchObject([{ subject: 'Auction purchase', attachments: [{ itemId: 'janky_helmet', quantity: 1 }], gold: 30 }]);
+
+    const goldBefore = bob.getGold();
+    expect(pm.claimMail('bob', mail.id)).toBeNull();
+    expect(bob.getInventoryCount('janky_helmet')).toBe(1);
+    expect(bob.getGold()).toBe(goldBefore + 30);
+  });
+});
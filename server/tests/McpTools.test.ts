@@ -23,6 +23,7 @@ let getOverview: typeof import('../src/mcp/tools/readTools.js').getOverview;
 let getContentSchema: typeof import('../src/mcp/tools/readTools.js').getContentSchema;
 let createDraft: typeof import('../src/mcp/tools/notesTools.js').createDraft;
 let saveNote: typeof import('../src/mcp/tools/notesTools.js').saveNote;
+let simulateBattleTool: typeof import('../src/mcp/tools/simulateTools.js').simulateBattleTool;
 
 let tmpDir: string;
 let originalCwd: string;
@@ -43,6 +44,7 @@ beforeAll(async () => {
   ({ validateDraft } = await import('../src/mcp/tools/validateTools.js'));
   ({ getOverview, getContentSchema } = await import('../src/mcp/tools/readTools.js'));
   ({ createDraft, saveNote } = await import('../src/mcp/tools/notesTools.js'));
+  ({ simulateBattleTool } = await import('../src/mcp/tools/simulateTools.js'));
 });
 
 afterAll(async () => {
@@ -259,3 +261,52 @@ describe('saveNote (notesTools)', () => {
     expect(updated.title).toBe('v2');
   });
 });
+
+describe('simulateBattleTool (simulateTools)', () => {
+  const party = [
+    { name: 'Tank', className: 'Knight' as const, level: 5, skillIds: ['knight_bash'], equipmentIds: [], gridPosition: 5 as const },
+    { name: 'Archer', className: 'Archer' as const, level: 5, skillIds: [], equipmentIds: [], gridPosition: 4 as const },
+  ];
+
+  it('simulates against live content and echoes the seed', async () => {
+    const { deps } = await setupDeps();
+    const result = await simulateBattleTool(deps, { party, encounterId: 'darkwood_goblins', iterations: 25, seed: 7 });
+    expect(result.error).toBeUndefined();
+    expect(result.report?.seed).toBe(7);
+    expect(result.report?.iterations).toBe(25);
+    expect(result.report?.members.map(m => m.name)).toEqual(['Tank', 'Archer']);
+  });
+
+  it('simulates against a draft snapshot when versionId is given', async () => {
+    const { deps, contentStore, versionStore } = await setupDeps();
+    const version = await versionStore.createDraft('sim draft', null, contentStore.toSnapshot());
+    const upsert = await deps.draftEditor.upsertEncounter(version.id, {
+      id: 'draft_only', name: 'Draft Only', type: 'explicit', placements: [{ monsterId: 'goblin', gridPosition: 4 }],
+    });
+    expect(upsert.success).toBe(true);
+
+    const live = await simulateBattleTool(deps, { party, encounterId: 'draft_only', iterations: 5 });
+    expect(live.error).toMatch(/not found/);
+    const draft = await simulateBattleTool(deps, { party, encounterId: 'draft_only', iterations: 5, versionId: version.id });
+    expect(draft.error).toBeUndefined();
+    expect(draft.report?.wins).toBeGreaterThan(0);
+  });
+
+  it('reports an error for unknown gear instead of throwing', async () => {
+    const { deps } = await setupDeps();
+    const result = await simulateBattleTool(deps, {
+      party: [{ ...party[0], equipmentIds: ['no_such_item'] }],
+      encounterId: 'darkwood_goblins',
+      iterations: 5,
+    });
+    expect(result.error).toBe("Unknown item 'no_such_item'");
+  });
+
+  it('rejects levels outside the game range before simulating', async () => {
+    const { deps } = await setupDeps();
+    for (const level of [Number.NaN, -1, 1.5, 101]) {
+      const result = await simulateBattleTool(deps, { party: [{ ...party[0], level }], encounterId: 'darkwood_goblins', iterations: 5 });
+      expect(result.error).toBe("Member 'Tank' needs a whole-number level from 1 to 100");
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, SEED_RECIPES, DEFAULT_MAP_ID } from '@idle-party-rpg/shared';
+import type { ClassName, NpcDefinition, QuestDefinition, WorldTileDefinition } from '@idle-party-rpg/shared';
+import { PlayerSession } from '../src/game/PlayerSession.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+
+const RECIPE_ID = 'reforge_iron_battleaxe';
+
+const SMITH_QUEST: QuestDefinition = {
+  id: 'smith_quest',
+  name: 'Scrap Run',
+  description: 'Bring 2 pelts.',
+  scope: 'solo',
+  objectives: [{ kind: 'collect', itemId: 'mangy_pelt', count: 2 }],
+  rewards: [{ kind: 'recipe', recipeId: RECIPE_ID }],
+};
+
+const SMITH: NpcDefinition = {
+  id: 'smith',
+  name: 'Smith',
+  emoji: '⚒️',
+  greeting: 'Hm.',
+  questIds: [SMITH_QUEST.id],
+  recipesForSale: [{ recipeId: RECIPE_ID, price: 50 }],
+};
+
+function makeContentStore(): ContentStore {
+  const tiles: WorldTileDefinition[] = [
+    { id: 'tile-start', mapId: DEFAULT_MAP_ID, col: 0, row: 0, type: 'town', zone: 'zone', name: 'Forge', npcId: SMITH.id },
+  ];
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles, startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({ [SMITH_QUEST.id]: SMITH_QUEST }),
+    getQuest: (id: string) => (id === SMITH_QUEST.id ? SMITH_QUEST : undefined),
+    getAllRecipes: () => SEED_RECIPES,
+    getRecipe: (id: string) => SEED_RECIPES[id],
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: (id: string) => (id === SMITH.id ? SMITH : undefined),
+    getAllNpcs: () => ({ [SMITH.id]: SMITH }),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'town', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeSession(className: ClassName = 'Knight'): PlayerSession {
+  const session = new PlayerSession('alice', wrapGrids(makeGrid()), makeContentStore());
+  session.setClass(className);
+  return session;
+}
+
+function knowsRecipe(session: PlayerSession): boolean {
+  return session.getCraftingState()!.recipes.some(r => r.id === RECIPE_ID);
+}
+
+describe('PlayerSession recipe discovery', () => {
+  it('hides a discoverable recipe until a recipe item teaches it, and keeps it across a save', () => {
+    const session = makeSession();
+    expect(knowsRecipe(session)).toBe(false);
+    expect(session.handleCraftQueue(RECIPE_ID)).toEqual({ ok: false, reason: 'unknown_recipe' });
+
+    session.addToInventory('recipe_iron_battleaxe', 2);
+    expect(session.handleUseConsumable('recipe_iron_battleaxe')).toBeNull();
+    expect(knowsRecipe(session)).toBe(true);
+    expect(session.handleUseConsumable('recipe_iron_battleaxe')).toBe('You already know Reforge Iron Battleaxe.');
+    expect(session.getInventoryCount('recipe_iron_battleaxe')).toBe(1);
+
+    const saved = JSON.parse(JSON.stringify(session.toSaveData()));
+    const restored = PlayerSession.fromSaveData(saved, wrapGrids(makeGrid()), makeContentStore());
+    expect(knowsRecipe(restored)).toBe(true);
+  });
+
+  it('will not teach a recipe to a class that cannot craft it', () => {
+    const session = makeSession('Mage');
+    session.addToInventory('recipe_iron_battleaxe', 1);
+    expect(session.handleUseConsumable('recipe_iron_battleaxe')).toBe('Only Knight can learn Reforge Iron Battleaxe.');
+    expect(session.getState([]).npcRecipeOffers?.[0].blockedReason).toBe('Only Knight can learn Reforge Iron Battleaxe.');
+  });
+
+  it('sells recipe knowledge at the NPC for gold', () => {
+    const session = makeSession();
+    expect(session.getState([]).npcRecipeOffers).toEqual([
+      { recipeId: RECIPE_ID, name: 'Reforge Iron Battleaxe', price: 50, blockedReason: null },
+    ]);
+    expect(session.handleLearnRecipe(RECIPE_ID)).toBe('Not enough gold');
+    expect(session.handleLearnRecipe('brew_antidote')).toBe('No one here teaches that recipe.');
+
+    session.grantGold(80);
+    expect(session.handleLearnRecipe(RECIPE_ID)).toBeNull();
+    expect(session.getGold()).toBe(30);
+    expect(knowsRecipe(session)).toBe(true);
+    expect(session.handleLearnRecipe(RECIPE_ID)).toBe('You already know Reforge Iron Battleaxe.');
+  });
+
+  it('teaches a recipe as a quest reward', () => {
+    const session = makeSession();
+    expect(session.handleAcceptQuest(SMITH_QUEST.id, 1)).toEqual({ success: true });
+    session.addToInventory('mangy_pelt', 2);
+    expect(session.getState([]).questResolutions?.recipes).toEqual({ [RECIPE_ID]: 'Reforge Iron Battleaxe' });
+    expect(session.handleTurnInQuest(SMITH_QUEST.id)).toEqual({ success: true });
+    expect(knowsRecipe(session)).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, DEFAULT_MAP_ID, BUYBACK_LIMIT } from '@idle-party-rpg/shared';
+import type { ShopDefinition, WorldTileDefinition, ZoneDefinition } from '@idle-party-rpg/shared';
+import { PlayerSession } from '../src/game/PlayerSession.js';
+import { PlayerManager } from '../src/game/PlayerManager.js';
+import { GuildStore } from '../src/game/social/GuildStore.js';
+import type { GameStateStore } from '../src/game/GameStateStore.js';
+import type { AccountStore } from '../src/auth/AccountStore.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+import WebSocket from 'ws';
+
+const SHOP: ShopDefinition = {
+  id: 'outfitter',
+  name: 'Outfitter',
+  inventory: [
+    { itemId: 'janky_helmet', price: 10, stock: 2 },
+    { itemId: 'mangy_pelt', price: 4 },
+  ],
+  restockMinutes: 60,
+  priceScalingPercent: 50,
+};
+
+const ZONE: ZoneDefinition = { id: 'zone', displayName: 'Zone', encounterTable: [], levelRange: [3, 5] };
+
+function makeContentStore(): ContentStore {
+  const tiles: WorldTileDefinition[] = [
+    { id: 'tile-start', mapId: DEFAULT_MAP_ID, col: 0, row: 0, type: 'town', zone: 'zone', name: 'Market', shopId: SHOP.id },
+  ];
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles, startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({ zone: ZONE }),
+    getAllQuests: () => ({}),
+    getAllRecipes: () => ({}),
+    getRecipe: () => undefined,
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: (id: string) => (id === SHOP.id ? SHOP : undefined),
+    getAllShops: () => ({ [SHOP.id]: SHOP }),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'town', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeSession(): PlayerSession {
+  const session = new PlayerSession('alice', wrapGrids(makeGrid()), makeContentStore());
+  session.setClass('Knight');
+  return session;
+}
+
+async function makeManager(): Promise<PlayerManager> {
+  const accounts = {
+    findByUsername: (username: string) => ({ username }),
+    getAllUsernames: () => ['alice', 'bob'],
+    updateLastActive: vi.fn().mockResolvedValue(undefined),
+  } as unknown as AccountStore;
+  const store: GameStateStore = {
+    save: vi.fn().mockResolvedValue(undefined),
+    saveAll: vi.fn().mockResolvedValue(undefined),
+    load: vi.fn().mockResolvedValue(null),
+    loadAll: vi.fn().mockResolvedValue([]),
+    delete: vi.fn().mockResolvedValue(undefined),
+  };
+  const pm = new PlayerManager(wrapGrids(makeGrid()), makeContentStore(), new GuildStore(), accounts, store);
+  for (const username of ['alice', 'bob']) {
+    const ws = { readyState: WebSocket.OPEN, send: vi.fn(), on: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+    await pm.login(ws, username);
+    pm.getSessionByUsername(username)!.setClass('Knight');
+  }
+  return pm;
+}
+
+describe('PlayerSession shop', () => {
+  it('charges the zone-scaled price', () => {
+    const session = makeSession();
+    session.grantGold(100 - session.getGold());
+    // Zone minimum level 3 → +50% per level above 1 → double price
+    expect(session.getState([]).shopState?.prices).toEqual({ janky_helmet: 20, mangy_pelt: 8 });
+    expect(session.handleShopBuy('mangy_pelt')).toBeNull();
+    expect(session.getGold()).toBe(92);
+    expect(session.handleShopBuy('ruby')).toBe('Item not available in this shop');
+  });
+
+  it('buys back a sold instance at the sell price and keeps only the latest sales', () => {
+    const session = makeSession();
+    const instance = { id: 'janky_helmet#abc12345', itemId: 'janky_helmet', affixes: [] };
+    session.addItemInstance(instance);
+    const gold = session.getGold();
+    expect(session.handleShopSell(instance.id, 1)).toBeNull();
+    expect(session.getItemInstance(instance.id)).toBeUndefined();
+    const [entry] = session.getShopBuyback();
+    expect(entry).toMatchObject({ itemId: instance.id, quantity: 1, instance });
+
+    expect(session.handleShopBuyback(0)).toBeNull();
+    expect(session.getGold()).toBe(gold);
+    expect(session.getItemInstance(instance.id)).toEqual(instance);
+    expect(session.getShopBuyback()).toEqual([]);
+    expect(session.handleShopBuyback(0)).toBe('That sale is no longer available');
+
+    session.addToInventory('mangy_pelt', BUYBACK_LIMIT + 2);
+    for (let i = 0; i < BUYBACK_LIMIT + 2; i++) session.handleShopSell('mangy_pelt', 1);
+    expect(session.getShopBuyback()).toHaveLength(BUYBACK_LIMIT);
+  });
+
+  it('persists the buyback list', () => {
+    const session = makeSession();
+    session.addToInventory('mangy_pelt', 3);
+    session.handleShopSell('mangy_pelt', 3);
+    const saved = JSON.parse(JSON.stringify(session.toSaveData()));
+    const restored = PlayerSession.fromSaveData(saved, wrapGrids(makeGrid()), makeContentStore());
+    expect(restored.getShopBuyback()).toMatchObject([{ itemId: 'mangy_pelt', quantity: 3 }]);
+    expect(restored.getState([]).shopState?.buyback).toHaveLength(1);
+  });
+});
+
+describe('PlayerManager shop stock', () => {
+  it('shares limited stock between players until the restock', async () => {
+    const pm = await makeManager();
+    const alice = pm.getSessionByUsername('alice')!;
+    const bob = pm.getSessionByUsername('bob')!;
+    alice.grantGold(100);
+    bob.grantGold(100);
+
+    expect(alice.handleShopBuy('janky_helmet')).toBeNull();
+    expect(bob.handleShopBuy('janky_helmet')).toBeNull();
+    expect(bob.handleShopBuy('janky_helmet')).toBe('Sold out');
+    expect(alice.getState([]).shopState?.stock).toEqual({ janky_helmet: 0 });
+    expect(bob.handleShopBuy('mangy_pelt')).toBeNull();
+
+    const later = pm.shopStock.getStock(SHOP).restockedAt + 60 * 60_000;
+    expect(pm.shopStock.getStock(SHOP, later).stock).toEqual({ janky_helmet: 2 });
+  });
+});
@@ -45,6 +45,7 @@ function makeContentStore(skills: Record<string, SkillDefinition>, items: Record
     getAllNpcs: () => ({}),
     getShop: () => undefined,
     getAllShops: () => ({}),
+    getAllSalvageTables: () => ({}),
     getSkill: (id: string) => skills[id],
     getAllSkills: () => skills,
     getSkillSlotSchedule: (className: string) => (className === 'Knight' ? KNIGHT_SCHEDULE : undefined),
@@ -146,4 +147,29 @@ describe('PlayerSession skill loadout (content-driven)', () => {
     expect(session.getSkillLoadout()!.unlockedSkills).toEqual([]);
     expect(session.getSkillLoadout()!.equippedSkills[0]).toBeNull();
   });
+
+  it('learns talent ranks with points and refunds them for gold', () => {
+    const skills = makeSkills();
+    skills['knight_rage'] = {
+      id: 'knight_rage', name: 'Rage', description: '', className: 'Knight', type: 'active',
+      unlockLevel: 1, sortOrder: 2, cooldown: 2, activeEffects: [{ kind: 'damage_percent', damagePercent: 1 }],
+      talent: { maxRank: 2, rankScaling: 0.5 },
+    };
+    const session = makeSession(skills);
+    session.autoUnlockSkills();
+    expect(session.getSkillLoadout()!.unlockedSkills).not.toContain('knight_rage');
+
+    expect(session.handleLearnTalent('knight_rage')).toBeNull();
+    expect(session.handleEquipSkill('knight_rage', 1)).toBe(true);
+    // Level 1 = one point
+    expect(session.handleLearnTalent('knight_rage')).toMatch(/points/);
+
+    expect(session.handleRespecTalents()).toMatch(/gold/);
+    (session as unknown as { character: { gold: number } }).character.gold = 100;
+    expect(session.handleRespecTalents()).toBeNull();
+    expect(session.getGold()).toBe(75);
+    expect(session.getSkillLoadout()!.talentRanks).toEqual({});
+    expect(session.getSkillLoadout()!.equippedSkills[1]).toBeNull();
+    expect(session.handleRespecTalents()).toMatch(/No talent points/);
+  });
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, DEFAULT_MAP_ID } from '@idle-party-rpg/shared';
+import type { QuestDefinition, WorldTileDefinition } from '@idle-party-rpg/shared';
+import { PlayerSession } from '../src/game/PlayerSession.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+
+const COLLECT_PELTS: QuestDefinition = {
+  id: 'collect_pelts',
+  name: 'Pelt Collector',
+  description: 'Bring 5 pelts.',
+  scope: 'solo',
+  objectives: [{ kind: 'collect', itemId: 'mangy_pelt', count: 5 }],
+  rewards: [{ kind: 'gold', amount: 100 }],
+};
+
+function makeContentStore(stash: boolean): ContentStore {
+  const tiles: WorldTileDefinition[] = [
+    { id: 'tile-start', mapId: DEFAULT_MAP_ID, col: 0, row: 0, type: 'town', zone: 'zone', name: 'Bank', npcId: 'banker', stash },
+  ];
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles, startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({ collect_pelts: COLLECT_PELTS }),
+    getQuest: (id: string) => (id === COLLECT_PELTS.id ? COLLECT_PELTS : undefined),
+    getAllRecipes: () => ({}),
+    getRecipe: () => undefined,
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: (id: string) => (id === 'banker' ? { id, name: 'Banker', questIds: [COLLECT_PELTS.id] } : undefined),
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'town', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeSession(stash = true): PlayerSession {
+  const session = new PlayerSession('alice', wrapGrids(makeGrid()), makeContentStore(stash));
+  session.setClass('Knight');
+  return session;
+}
+
+describe('PlayerSession stash', () => {
+  it('only opens in stash rooms', () => {
+    const session = makeSession(false);
+    session.addToInventory('mangy_pelt', 3);
+    expect(session.getState([]).stashAvailable).toBe(false);
+    expect(session.handleStashDeposit(0, 'mangy_pelt', 1)).toBe('You can only use your stash in a town with a stash.');
+    expect(session.getInventoryCount('mangy_pelt')).toBe(3);
+  });
+
+  it('moves stacks between the inventory and a tab and survives a save', () => {
+    const session = makeSession();
+    session.addToInventory('mangy_pelt', 10);
+    expect(session.handleStashDeposit(1, 'mangy_pelt', 4)).toBeNull();
+    expect(session.handleStashDeposit(4, 'mangy_pelt', 1)).toBe('No such stash tab.');
+    expect(session.handleStashWithdraw(1, 'mangy_pelt', 5)).toBe('Not enough of that item in Tab 2.');
+    expect(session.handleStashWithdraw(1, 'mangy_pelt', 1)).toBeNull();
+
+    const saved = JSON.parse(JSON.stringify(session.toSaveData()));
+    const restored = PlayerSession.fromSaveData(saved, wrapGrids(makeGrid()), makeContentStore(true));
+    const character = restored.getState([]).character;
+    expect(character.inventory).toEqual({ mangy_pelt: 7 });
+    expect(character.stash[1].items).toEqual({ mangy_pelt: 3 });
+    expect(character.stash).toHaveLength(4);
+  });
+
+  it('keeps a rolled instance record while it sits in the stash', () => {
+    const session = makeSession();
+    const instance = { id: 'janky_helmet#abc12345', itemId: 'janky_helmet', affixes: [] };
+    session.addItemInstance(instance);
+    expect(session.handleStashDeposit(0, instance.id, 1)).toBeNull();
+    expect(session.getInventoryCount(instance.id)).toBe(0);
+    expect(session.getItemInstance(instance.id)).toEqual(instance);
+    expect(session.handleStashWithdraw(0, instance.id, 1)).toBeNull();
+    expect(session.getInventoryCount(instance.id)).toBe(1);
+  });
+
+  it('does not count stashed items toward collect objectives', () => {
+    const session = makeSession();
+    expect(session.handleAcceptQuest(COLLECT_PELTS.id, 1)).toEqual({ success: true });
+    session.addToInventory('mangy_pelt', 5);
+    session.handleStashDeposit(0, 'mangy_pelt', 2);
+
+    expect(session.getState([]).activeQuests[0].progress).toEqual([3]);
+    expect(session.handleTurnInQuest(COLLECT_PELTS.id).success).toBe(false);
+    expect(session.getState([]).character.stash[0].items).toEqual({ mangy_pelt: 2 });
+  });
+});
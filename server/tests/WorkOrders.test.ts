@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HexGrid, HexTile, offsetToCube, SEED_ITEMS, SEED_RECIPES, CRAFTING_UNLOCK_LEVEL, WORK_ORDER_SENDER } from '@idle-party-rpg/shared';
+import type { ClassName } from '@idle-party-rpg/shared';
+import { PlayerManager } from '../src/game/PlayerManager.js';
+import type { PlayerSession } from '../src/game/PlayerSession.js';
+import { GuildStore } from '../src/game/social/GuildStore.js';
+import type { GameStateStore } from '../src/game/GameStateStore.js';
+import type { AccountStore } from '../src/auth/AccountStore.js';
+import type { ContentStore } from '../src/game/ContentStore.js';
+import { wrapGrids, fakeWorldMeta, fakeSkillContent } from './testGrids.js';
+import WebSocket from 'ws';
+
+const INGOT_RECIPE = SEED_RECIPES.smelt_tempered_ingot;
+const INGOT_MS = INGOT_RECIPE.durationSeconds * 1000;
+
+function makeContentStore(): ContentStore {
+  return {
+    getStartTile: () => ({ col: 0, row: 0 }),
+    getWorld: () => ({ tiles: [], startTile: { col: 0, row: 0 }, ...fakeWorldMeta() }),
+    getItem: (id: string) => SEED_ITEMS[id],
+    getAllItems: () => SEED_ITEMS,
+    getAllSets: () => ({}),
+    getAllZones: () => ({}),
+    getAllQuests: () => ({}),
+    getAllRecipes: () => SEED_RECIPES,
+    getRecipe: (id: string) => SEED_RECIPES[id],
+    getAllMonsters: () => ({}),
+    getMonster: () => undefined,
+    getNpc: () => undefined,
+    getAllNpcs: () => ({}),
+    getShop: () => undefined,
+    getAllShops: () => ({}),
+    ...fakeSkillContent(),
+  } as unknown as ContentStore;
+}
+
+function makeGrid(): HexGrid {
+  const grid = new HexGrid();
+  grid.addTile(new HexTile(offsetToCube({ col: 0, row: 0 }), 'plains', 'zone', 'tile-start'));
+  return grid;
+}
+
+function makeAccountStore(): AccountStore {
+  return {
+    findByUsername: (username: string) => ({ username }),
+    getAllUsernames: () => ['alice', 'bob', 'carol'],
+    updateLastActive: vi.fn().mockResolvedValue(undefined),
+  } as unknown as AccountStore;
+}
+
+function makeStore(): GameStateStore {
+  return {
+    save: vi.fn().mockResolvedValue(undefined),
+    saveAll: vi.fn().mockResolvedValue(undefined),
+    load: vi.fn().mockResolvedValue(null),
+    loadAll: vi.fn().mockResolvedValue([]),
+    delete: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+function makeWs(): WebSocket {
+  return { readyState: WebSocket.OPEN, send: vi.fn(), on: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+}
+
+/** alice (Archer) needs ingots; bob and carol (Knights) can smelt them. */
+async function makeManager(): Promise<PlayerManager> {
+  const pm = new PlayerManager(wrapGrids(makeGrid()), makeContentStore(), new GuildStore(), makeAccountStore(), makeStore());
+  const classes: Record<string, ClassName> = { alice: 'Archer', bob: 'Knight', carol: 'Knight' };
+  for (const [username, className] of Object.entries(classes)) {
+    await pm.login(makeWs(), username);
+    const session = pm.getSessionByUsername(username)!;
+    session.setClass(className);
+    (session as unknown as { character: { level: number } }).character.level = CRAFTING_UNLOCK_LEVEL;
+  }
+  return pm;
+}
+
+function queueIngots(session: PlayerSession, orderId: string, jobs: number, now: number): void {
+  session.addToInventory('scrap_metal', jobs * 3);
+  for (let i = 0; i < jobs; i++) expect(session.handleCraftQueue(INGOT_RECIPE.id, now, orderId)).toEqual({ ok: true });
+}
+
+describe('PlayerManager work orders', () => {
+  it('escrows the reward, then delivers crafted units to the poster and pays the crafter by mail', async () => {
+    const pm = await makeManager();
+    const alice = pm.getSessionByUsername('alice')!;
+    const bob = pm.getSessionByUsername('bob')!;
+    alice.grantGold(500);
+
+    expect(pm.postWorkOrder('alice', 'magma_boots', 1, 100)).toBe('That item cannot be ordered.');
+    expect(pm.postWorkOrder('alice', 'tempered_ingot', 3, 500)).toBeNull();
+    expect(alice.getGold()).toBe(0);
+    const [order] = pm.getWorkOrderResults('bob').orders;
+    expect(order).toMatchObject({ poster: 'alice', itemId: 'tempered_ingot', quantity: 3, reward: 500, delivered: 0 });
+    expect(pm.getWorkOrderResults('alice').orders).toEqual([]);
+
+    // Archers can't smelt, and nobody can fill their own order
+    alice.addToInventory('scrap_metal', 3);
+    expect(alice.handleCraftQueue(INGOT_RECIPE.id, 0, order.id)).toEqual({ ok: false, reason: 'work_order_unavailable' });
+
+    queueIngots(bob, order.id, 2, 0);
+    pm.tickAllCrafting(2 * INGOT_MS);
+    expect(bob.getInventoryCount('tempered_ingot')).toBe(0);
+    expect(pm.workOrders.getOrder(order.id)?.delivered).toBe(2);
+    expect(pm.mailboxes.getMailbox('alice')).toMatchObject([
+      { fromUsername: WORK_ORDER_SENDER, attachments: [{ itemId: 'tempered_ingot', quantity: 1 }] },
+      { fromUsername: WORK_ORDER_SENDER, attachments: [{ itemId: 'tempered_ingot', quantity: 1 }] },
+    ]);
+    // floor(500 * 1/3) = 166, then floor(500 * 2/3) - 166 = 167
+    expect(pm.mailboxes.getMailbox('bob').map(m => m.gold)).toEqual([166, 167]);
+  });
+
+  it('lets the crafter keep units that arrive after the order is filled', async () => {
+    const pm = await makeManager();
+    const bob = pm.getSessionByUsername('bob')!;
+    const carol = pm.getSessionByUsername('carol')!;
+    pm.getSessionByUsername('alice')!.grantGold(100);
+    pm.postWorkOrder('alice', 'tempered_ingot', 1, 100);
+    const [order] = pm.workOrders.getAllOrders();
+
+    queueIngots(bob, order.id, 1, 0);
+    queueIngots(carol, order.id, 1, 0);
+    pm.tickAllCrafting(INGOT_MS);
+
+    expect(pm.workOrders.getAllOrders()).toEqual([]);
+    expect(bob.getInventoryCount('tempered_ingot') + carol.getInventoryCount('tempered_ingot')).toBe(1);
+    expect(pm.mailboxes.getMailbox('alice')).toHaveLength(1);
+  });
+
+  it('delivers to the order before the inventory, so a full stack loses nothing the order takes', async () => {
+    const pm = await makeManager();
+    const bob = pm.getSessionByUsername('bob')!;
+    pm.getSessionByUsername('alice')!.grantGold(100);
+    pm.postWorkOrder('alice', 'tempered_ingot', 1, 100);
+    const [order] = pm.workOrders.getAllOrders();
+
+    bob.addToInventory('tempered_ingot', 99);
+    queueIngots(bob, order.id, 1, 0);
+    pm.tickAllCrafting(INGOT_MS);
+
+    expect(bob.getInventoryCount('tempered_ingot')).toBe(99);
+    expect(pm.workOrders.getAllOrders()).toEqual([]);
+    expect(pm.mailboxes.getMailbox('alice')).toMatchObject([{ attachments: [{ itemId: 'tempered_ingot', quantity: 1 }] }]);
+    expect(pm.mailboxes.getMailbox('bob').map(m => m.gold)).toEqual([100]);
+  });
+
+  it('refunds the unpaid reward when an order is cancelled or expires', async () => {
+    const pm = await makeManager();
+    const alice = pm.getSessionByUsername('alice')!;
+    alice.grantGold(300);
+    pm.postWorkOrder('alice', 'tempered_ingot', 2, 100);
+    pm.postWorkOrder('alice', 'tempered_ingot', 4, 200);
+    const [first, second] = pm.workOrders.getPosterOrders('alice');
+
+    expect(pm.cancelWorkOrder('bob', first.id)).toBe('That is not your work order.');
+    expect(pm.cancelWorkOrder('alice', first.id)).toBeNull();
+    expect(pm.deliverWorkOrder('bob', second.id, 'tempered_ingot', 1)).toBe(1);
+    pm.expireWorkOrders(second.expiresAt);
+
+    expect(pm.workOrders.getAllOrders()).toEqual([]);
+    expect(pm.mailboxes.getMailbox('alice').filter(m => m.returned).map(m => m.gold)).toEqual([100, 150]);
+  });
+});
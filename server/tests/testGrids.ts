@@ -1,4 +1,4 @@
-import { DEFAULT_MAP_ID, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES } from '@idle-party-rpg/shared';
+import { DEFAULT_MAP_ID, SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES, SEED_STATUS_EFFECTS, SEED_AFFIXES, SEED_SALVAGE_TABLES } from '@idle-party-rpg/shared';
 import type { HexGrid, SkillSlot } from '@idle-party-rpg/shared';
 import type { WorldGrids } from '../src/game/WorldGrids.js';
 
@@ -29,12 +29,15 @@ export function fakeWorldMeta(startTile = { col: 0, row: 0 }) {
   };
 }
 
-/** Seed-backed skill content accessors — spread into fake ContentStore objects. */
+/** Seed-backed skill, status effect, affix and salvage accessors — spread into fake ContentStore objects. */
 export function fakeSkillContent() {
   return {
     getSkill: (id: string) => SEED_SKILLS[id],
     getAllSkills: () => SEED_SKILLS,
     getSkillSlotSchedule: (className: string) => (SEED_SKILL_SLOT_SCHEDULES as Record<string, SkillSlot[]>)[className],
     getAllSkillSlotSchedules: () => SEED_SKILL_SLOT_SCHEDULES as Record<string, SkillSlot[]>,
+    getAllStatusEffects: () => SEED_STATUS_EFFECTS,
+    getAllAffixes: () => SEED_AFFIXES,
+    getAllSalvageTables: () => SEED_SALVAGE_TABLES,
   };
 }
@@ -1,5 +1,6 @@
 import { TileType } from './HexTile.js';
 import type { EncounterTableEntry } from '../systems/ZoneTypes.js';
+import type { HarvestNode } from '../systems/HarvestTypes.js';
 
 /**
  * Schema for defining a map.
@@ -43,6 +44,10 @@ export interface WorldTileDefinition {
   dungeonId?: string;
   /** Item ID required to traverse. Overrides the tile type default if set. */
   requiredItemId?: string;
+  /** Town room where players can reach their personal stash. */
+  stash?: boolean;
+  /** Ore veins, herb patches and fishing spots a party idling here gathers from. */
+  harvestNodes?: HarvestNode[];
   /**
    * Rooms this room can travel to (e.g. a manhole into the sewers, plus stairs to
    * a tower). Each target is identified by stable GUID so it survives col/row
@@ -45,6 +45,10 @@ export {
   classIconHtml,
   serverIconHtml,
   ALL_CLASS_NAMES,
+  ALL_DAMAGE_TYPES,
+  SPELL_DAMAGE_TYPES,
+  formatDamageType,
+  migrateLegacyDamageType,
   CRAFT_SKILL_NAMES,
   getCraftSkillName,
   MAX_GOLD,
@@ -78,6 +82,13 @@ export {
   getSkillsForClass,
   getSlotSchedule,
   getUnlockedSkillsForLevel,
+  TALENT_POINTS_PER_LEVEL,
+  RESPEC_GOLD_PER_LEVEL,
+  getTalentPointsForLevel,
+  getSpentTalentPoints,
+  getRespecCost,
+  canLearnTalent,
+  applySkillRank,
 } from './systems/SkillTypes.js';
 export type {
   SkillSlotType,
@@ -87,7 +98,13 @@ export type {
   PassiveEffect,
   ActiveEffectKind,
   ActiveEffect,
+  StatusTarget,
+  EffectTrigger,
+  EffectAction,
+  EffectActionTarget,
+  GridDepth,
   SkillDefinition,
+  SkillTalent,
   SkillLoadout,
   SkillContent,
 } from './systems/SkillTypes.js';
@@ -96,8 +113,13 @@ export type {
 export {
   SKILL_OPTION_CATALOG,
   SKILL_CONDITION_VALUES,
+  ALL_STATUS_TARGETS,
   ALL_PASSIVE_EFFECT_KINDS,
   ALL_ACTIVE_EFFECT_KINDS,
+  ALL_EFFECT_TRIGGERS,
+  ALL_EFFECT_ACTIONS,
+  ALL_EFFECT_ACTION_TARGETS,
+  ALL_GRID_DEPTHS,
   validateSkillDefinition,
 } from './systems/SkillOptionCatalog.js';
 export type {
@@ -108,6 +130,7 @@ export type {
 // Item types
 export {
   MAX_STACK,
+  STATUS_RESISTANCE_KEYS,
   RARITY_DROP_RATES,
   EQUIP_SLOTS,
   DISPLAY_EQUIP_SLOTS,
@@ -119,6 +142,11 @@ export {
   destroyItems,
   equipItemForceDestroy,
   computeEquipmentBonuses,
+  addResistances,
+  addBonusDamage,
+  getWeaponDamageType,
+  getResistanceText,
+  getAffixText,
   isTwoHandedEquipped,
   getItemEffectText,
   rollDrops,
@@ -129,8 +157,214 @@ export type {
   ItemDefinition,
   ItemDrop,
   EquipmentBonuses,
+  StatusResistances,
+  AffixStat,
+  RolledAffix,
 } from './systems/ItemTypes.js';
 
+// Item affixes and item instances
+export {
+  ALL_AFFIX_STATS,
+  TYPED_AFFIX_STATS,
+  AFFIX_COUNT_BY_RARITY,
+  ITEM_INSTANCE_SEPARATOR,
+  SEED_AFFIXES,
+  isItemInstanceId,
+  getBaseItemId,
+  createItemInstanceId,
+  toBaseItemIds,
+  getAffixPool,
+  rollItemInstance,
+  resolveItemInstance,
+  withItemInstances,
+  validateAffixDefinition,
+} from './systems/AffixTypes.js';
+export type {
+  AffixDefinition,
+  ItemInstance,
+} from './systems/AffixTypes.js';
+
+// Sockets & gems
+export {
+  DEFAULT_GEM_REMOVAL_COST,
+  getGemRemovalCost,
+  getFreeSockets,
+  socketGem,
+  unsocketGem,
+  validateItemSockets,
+} from './systems/GemTypes.js';
+export type {
+  GemOwner,
+  SocketResult,
+  UnsocketResult,
+} from './systems/GemTypes.js';
+
+// Salvage
+export {
+  BULK_SALVAGE_RARITIES,
+  SEED_SALVAGE_TABLES,
+  getSalvageBlockReason,
+  rollSalvage,
+  getSalvageCapacity,
+  salvageItems,
+  getBulkSalvageKeys,
+  validateSalvageTable,
+} from './systems/SalvageTypes.js';
+export type {
+  SalvageYield,
+  SalvageTableDefinition,
+  SalvageResult,
+} from './systems/SalvageTypes.js';
+
+// Consumables & auto-use
+export {
+  ALL_CONSUMABLE_EFFECT_KINDS,
+  ALL_BOOSTER_STATS,
+  AUTO_USE_TRIGGERS_BY_KIND,
+  AUTO_USE_TRIGGER_LABELS,
+  DEFAULT_AUTO_USE_HP_PERCENT,
+  AUTO_USE_TICK_COOLDOWN,
+  getConsumableEffect,
+  isTimedEffect,
+  needsCombat,
+  getConsumableEffectText,
+  pruneActiveConsumables,
+  activateConsumable,
+  getActiveBoost,
+  toConsumableStatus,
+  applyConsumableStatus,
+  pickConsumableTarget,
+  applyConsumableInCombat,
+  getAutoUseTarget,
+  validateConsumableEffect,
+  validateAutoUseRule,
+} from './systems/ConsumableTypes.js';
+export type {
+  ConsumableEffectKind,
+  BoosterStat,
+  ConsumableEffect,
+  ActiveConsumable,
+  AutoUseTrigger,
+  AutoUseRule,
+} from './systems/ConsumableTypes.js';
+
+// Item comparison
+export {
+  compareEquipItem,
+  formatStatDelta,
+  getStatDeltaDirection,
+} from './systems/ItemComparison.js';
+export type {
+  ItemStatDelta,
+  SetBreakpointChange,
+  ItemComparison,
+} from './systems/ItemComparison.js';
+
+// Gear loadouts
+export {
+  MAX_LOADOUTS,
+  MAX_LOADOUT_NAME_LENGTH,
+  getLoadoutEquipmentError,
+  applyLoadoutEquipment,
+  validateLoadoutName,
+} from './systems/LoadoutTypes.js';
+export type {
+  SavedLoadout,
+  ApplyLoadoutResult,
+} from './systems/LoadoutTypes.js';
+
+// Personal stash
+export {
+  STASH_TAB_COUNT,
+  MAX_STASH_TAB_STACKS,
+  emptyStash,
+  normalizeStash,
+  isItemStashed,
+  getStashDepositError,
+  getStashWithdrawError,
+} from './systems/StashTypes.js';
+export type {
+  StashTab,
+} from './systems/StashTypes.js';
+
+// Harvest nodes
+export {
+  ALL_HARVEST_NODE_KINDS,
+  HARVEST_NODE_KIND_LABELS,
+  HARVEST_NODE_KIND_EMOJI,
+  getHarvestNodeKey,
+  getHarvestNodeCraftLevel,
+  getHarvestBlockedReason,
+  isHarvestNodeReady,
+  pruneHarvestTimers,
+  validateHarvestNodes,
+} from './systems/HarvestTypes.js';
+export type {
+  HarvestNodeKind,
+  HarvestNode,
+  ClientHarvestNode,
+} from './systems/HarvestTypes.js';
+
+// Auction house
+export {
+  AUCTION_DURATIONS_HOURS,
+  AUCTION_FEE_RATE,
+  MAX_AUCTION_LISTINGS,
+  MAX_AUCTION_PRICE,
+  AUCTION_SEARCH_LIMIT,
+  AUCTION_HOUSE_SENDER,
+  getAuctionFee,
+  getAuctionPayout,
+  getAuctionItemDefinition,
+  matchesAuctionFilter,
+  searchAuctionListings,
+  validateAuctionListing,
+  sanitizeAuctionSearchFilter,
+} from './systems/AuctionTypes.js';
+export type {
+  AuctionListing,
+  AuctionSearchFilter,
+} from './systems/AuctionTypes.js';
+
+// Work orders
+export {
+  MAX_WORK_ORDERS,
+  WORK_ORDER_DURATION_HOURS,
+  MAX_WORK_ORDER_REWARD,
+  WORK_ORDER_SENDER,
+  getWorkOrderRemaining,
+  getWorkOrderPayment,
+  getWorkOrderRefund,
+  getRecipesProducing,
+  getItemCrafterClasses,
+  getWorkOrderItemIds,
+  validateWorkOrder,
+} from './systems/WorkOrderTypes.js';
+export type {
+  WorkOrder,
+} from './systems/WorkOrderTypes.js';
+
+// Mailbox
+export {
+  MAX_MAIL_ATTACHMENTS,
+  MAX_MAIL_SUBJECT_LENGTH,
+  MAX_MAIL_BODY_LENGTH,
+  MAIL_EXPIRY_DAYS,
+  MAIL_EXPIRY_MS,
+  SYSTEM_MAIL_SENDER,
+  GIFT_MAIL_SUBJECT,
+  migrateMailboxEntry,
+  hasMailContents,
+  canMailExpire,
+  splitClaimableAttachments,
+  validateMailDraft,
+} from './systems/MailTypes.js';
+export type {
+  MailAttachment,
+  MailboxEntry,
+  MailDraft,
+} from './systems/MailTypes.js';
+
 // Inventory views (read-only helpers over inventory + equipment)
 export {
   getEquippedCount,
@@ -148,10 +382,15 @@ export {
 export {
   SEED_MONSTERS,
   createMonsterInstance,
+  migrateLegacyMonster,
+  validateBossPhases,
+  DEFAULT_ENRAGE_MULTIPLIER,
 } from './systems/MonsterTypes.js';
 export type {
   Resistance,
   MonsterSkillEntry,
+  BossSummon,
+  BossPhase,
   MonsterDefinition,
   MonsterInstance,
 } from './systems/MonsterTypes.js';
@@ -162,6 +401,8 @@ export {
 } from './systems/MonsterSkills.js';
 export type {
   MonsterSkillDefinition,
+  MonsterSkillTargeting,
+  MonsterSkillEffect,
 } from './systems/MonsterSkills.js';
 
 // Encounter types
@@ -198,12 +439,23 @@ export type {
   GenerateOptions as GenerateDevWorldOptions,
 } from './seed/SeedDevWorld.js';
 
+// Seedable RNG
+export {
+  randomSeed,
+  createRngState,
+  nextRandom,
+  rngFn,
+} from './systems/Rng.js';
+export type { RngState } from './systems/Rng.js';
+
 // Combat engine
 export {
+  buildPartyCombatant,
   createPartyCombatState,
   processPartyTick,
   findTarget,
   applyMonsterResistance,
+  getEffectiveCooldown,
 } from './systems/CombatEngine.js';
 export type {
   TickResult,
@@ -213,11 +465,87 @@ export type {
   CombatAction,
   DotEffect,
   HotEffect,
-  CombatBuff,
-  CombatDebuff,
-  SunderMark,
+  CombatantLoadout,
 } from './systems/CombatEngine.js';
 
+// Status effects
+export {
+  ALL_STATUS_STACKING,
+  SEED_STATUS_EFFECTS,
+  addStatus,
+  scaleByStatuses,
+  sumStatusModifier,
+  statusBonusDamage,
+  validateStatusEffectDefinition,
+  migrateLegacyStatusEffect,
+} from './systems/StatusEffectTypes.js';
+export type {
+  StatusEffectKind,
+  StatusStacking,
+  StatusModifiers,
+  StatusTick,
+  StatusEffectDefinition,
+  StatusInstance,
+  StatusApplication,
+} from './systems/StatusEffectTypes.js';
+
+// Combat events
+export { renderCombatEvent, renderCombatLog, NO_MITIGATION } from './systems/CombatEvents.js';
+export type {
+  CombatEvent,
+  CombatSide,
+  CombatantRef,
+  DamageMitigation,
+  DamageCause,
+  BuffStatus,
+  DebuffStatus,
+  BonusDamage,
+  DamageEvent,
+  DodgeEvent,
+  HealEvent,
+  ShieldAbsorbEvent,
+  DotTickEvent,
+  HotTickEvent,
+  BuffAppliedEvent,
+  DebuffAppliedEvent,
+  StatusExpiredEvent,
+  StatusRemovedEvent,
+  StunEvent,
+  StunTurnEvent,
+  StunResistedEvent,
+  DebuffResistedEvent,
+  InterceptEvent,
+  KillEvent,
+  ResurrectEvent,
+  SkillCastEvent,
+  PhaseChangeEvent,
+  SummonEvent,
+  EnrageEvent,
+  ImmuneEvent,
+} from './systems/CombatEvents.js';
+
+// Damage meter
+export { createBattleMeter, recordMeterEvents, summarizeMeterSession, METER_HISTORY_SIZE } from './systems/DamageMeter.js';
+export type { MeterMemberStats, BattleMeterSummary, SessionMeterSummary, ClientMeterState } from './systems/DamageMeter.js';
+
+// Battle simulator
+export {
+  buildSimParty,
+  simulateBattle,
+  simulateBattleAsync,
+  DEFAULT_SIM_MAX_TICKS,
+  MAX_SIM_ITERATIONS,
+  MAX_SIM_LEVEL,
+  SIM_TICKS_PER_YIELD,
+} from './systems/BattleSimulator.js';
+export type {
+  SimPartyMember,
+  SimContent,
+  BattleSimOptions,
+  BattleSimMemberStats,
+  BattleSimReport,
+} from './systems/BattleSimulator.js';
+
 // Battle types & constants
 export type {
   BattleTimerState,
@@ -241,19 +569,34 @@ export type {
   ClientUnequipItemMessage,
   ClientDestroyItemsMessage,
   ClientEquipItemForceDestroyMessage,
+  ClientSocketGemMessage,
+  ClientUnsocketGemMessage,
+  ClientSalvageItemMessage,
+  ClientSalvageAllMessage,
+  ClientUseConsumableMessage,
+  ClientSetAutoUseMessage,
+  ClientSaveLoadoutMessage,
+  ClientDeleteLoadoutMessage,
+  ClientApplyLoadoutMessage,
+  ClientStashDepositMessage,
+  ClientStashWithdrawMessage,
   ServerEquipBlockedMessage,
   ClientSetClassMessage,
   ClientResetXpRateMessage,
   ClientEquipSkillMessage,
   ClientUnequipSkillMessage,
+  ClientLearnTalentMessage,
+  ClientRespecTalentsMessage,
   ClientViewPlayerMessage,
   ClientShopBuyMessage,
   ClientShopSellMessage,
+  ClientShopBuybackMessage,
   ClientCraftQueueMessage,
   ClientCraftCancelMessage,
   ClientCraftingState,
   ClientAcceptQuestMessage,
   ClientTurnInQuestMessage,
+  ClientLearnRecipeMessage,
   PlayerProfileMessage,
   ServerMessage,
   ClientMessage,
@@ -287,9 +630,22 @@ export type {
 } from './systems/SetTypes.js';
 
 // Shop types
+export {
+  BUYBACK_LIMIT,
+  getShopItemPrice,
+  fullShopStock,
+  getNextRestockAt,
+  refreshShopStock,
+  getShopStockCount,
+  pushBuyback,
+  validateShopDefinition,
+} from './systems/ShopTypes.js';
 export type {
   ShopItem,
   ShopDefinition,
+  ShopStockState,
+  BuybackEntry,
+  ClientShopState,
 } from './systems/ShopTypes.js';
 
 // Crafting types
@@ -304,6 +660,11 @@ export {
   processCompletions,
   getActiveJobProgress,
   getVisibleRecipes,
+  getRequiredCraftLevel,
+  recipeRollsQuality,
+  getRecipeQualityOdds,
+  isRecipeKnown,
+  getLearnRecipeError,
 } from './systems/CraftingTypes.js';
 export type {
   RecipeIngredient,
@@ -313,12 +674,33 @@ export type {
   CraftQueueState,
   EnqueueError,
   CompletedJobEvent,
+  CraftQualityContext,
   ActiveJobProgress,
 } from './systems/CraftingTypes.js';
 
+// Craft quality
+export {
+  ALL_CRAFT_QUALITIES,
+  CRAFT_QUALITY_LABELS,
+  CRAFT_QUALITY_STAT_MULTIPLIER,
+  BASE_FINE_CHANCE,
+  BASE_MASTERWORK_CHANCE,
+  FINE_CHANCE_PER_LEVEL,
+  MASTERWORK_CHANCE_PER_LEVEL,
+  MAX_FINE_CHANCE,
+  MAX_MASTERWORK_CHANCE,
+  getCraftQualityOdds,
+  rollCraftQuality,
+  applyCraftQuality,
+} from './systems/CraftQualityTypes.js';
+export type {
+  CraftQuality,
+  CraftQualityOdds,
+} from './systems/CraftQualityTypes.js';
+
 // NPC types
 export { SEED_NPCS } from './systems/NpcTypes.js';
-export type { NpcDefinition } from './systems/NpcTypes.js';
+export type { NpcDefinition, NpcRecipeOffer, ClientNpcRecipeOffer } from './systems/NpcTypes.js';
 
 // Design note types (MCP-authored content design context)
 export type { DesignNote } from './systems/DesignNoteTypes.js';
@@ -342,6 +724,7 @@ export type {
   XpReward,
   GoldReward,
   ItemReward,
+  RecipeReward,
   QuestReward,
   QuestDefinition,
   QuestProgressEntry,
@@ -355,6 +738,7 @@ export {
   validateDungeonEntry,
   rollDungeonRewards,
   rewardAppliesToClass,
+  placeFloorBoss,
 } from './systems/DungeonTypes.js';
 export type {
   DungeonGridShape,
@@ -424,10 +808,23 @@ export type {
   ClientSendGiftMessage,
   ClientAcceptGiftMessage,
   ClientDenyGiftMessage,
+  ClientSendMailMessage,
+  ClientClaimMailMessage,
+  ClientClaimAllMailMessage,
+  ClientReturnMailMessage,
+  ClientDeleteMailMessage,
+  ClientSearchAuctionsMessage,
+  ClientListAuctionMessage,
+  ClientBuyAuctionMessage,
+  ClientCancelAuctionMessage,
+  ClientGetWorkOrdersMessage,
+  ClientPostWorkOrderMessage,
+  ClientCancelWorkOrderMessage,
   ServerTradeProposedMessage,
   ServerTradeCancelledMessage,
   ServerTradeCompletedMessage,
-  MailboxEntry,
+  ServerAuctionResultsMessage,
+  ServerWorkOrderResultsMessage,
 } from './systems/SocialTypes.js';
 
 // Notification framework
@@ -0,0 +1,272 @@
+import type { DamageType } from './CharacterStats.js';
+import { ALL_DAMAGE_TYPES } from './CharacterStats.js';
+import type { AffixStat, EquipSlot, ItemDefinition, ItemRarity, RolledAffix } from './ItemTypes.js';
+import { EQUIP_SLOTS, RARITY_DROP_RATES } from './ItemTypes.js';
+import type { CraftQuality } from './CraftQualityTypes.js';
+import { applyCraftQuality } from './CraftQualityTypes.js';
+
+// --- Types ---
+
+/**
+ * A randomized stat line that can roll onto dropped gear. Affixes are content:
+ * the pool an item draws from is every affix listing the item's rarity and
+ * (when `slots` is set) its equip slot.
+ */
+export interface AffixDefinition {
+  id: string;
+  /** Short label shown with the item, e.g. "Keen" or "Flaming". */
+  name: string;
+  stat: AffixStat;
+  /** Required for `bonus_damage` and `resistance`. */
+  damageType?: DamageType;
+  /** Inclusive integer roll range. */
+  min: number;
+  max: number;
+  /** Item rarities whose pool includes this affix. */
+  rarities: ItemRarity[];
+  /** Equip slots whose pool includes this affix. Absent = every slot. */
+  slots?: EquipSlot[];
+  /** Relative draw weight within a pool. Default 1. */
+  weight?: number;
+}
+
+/**
+ * One unique copy of an item with rolled affixes and/or socketed gems. It sits in `inventory` /
+ * `equipment` under its own `id` (always with count 1), next to ordinary
+ * stackable entries keyed by item id, and resolves to an `ItemDefinition`
+ * through `resolveItemInstance`.
+ */
+export interface ItemInstance {
+  /** `<itemId>#<suffix>` — see `getBaseItemId`. */
+  id: string;
+  itemId: string;
+  affixes: RolledAffix[];
+  /** Gem item ids in socket order (see `socketGem`). */
+  gems?: string[];
+  /** Crafted quality above normal (see CraftQualityTypes). */
+  quality?: CraftQuality;
+}
+
+// --- Constants ---
+
+export const ALL_AFFIX_STATS: AffixStat[] = [
+  'bonus_attack', 'damage_reduction', 'magic_reduction', 'crit_chance', 'bonus_damage',
+  'resistance', 'stun_resistance', 'dot_resistance', 'debuff_resistance',
+];
+
+/** Affix stats that need a `damageType`. */
+export const TYPED_AFFIX_STATS: AffixStat[] = ['bonus_damage', 'resistance'];
+
+/** How many affixes a dropped piece of gear rolls, by rarity. Zero = the drop stays a plain stackable. */
+export const AFFIX_COUNT_BY_RARITY: Record<ItemRarity, number> = {
+  janky: 0,
+  common: 0,
+  uncommon: 1,
+  rare: 2,
+  epic: 3,
+  legendary: 4,
+  heirloom: 0,
+};
+
+/** Separates the base item id from the unique suffix in an instance id. Content ids never contain it. */
+export const ITEM_INSTANCE_SEPARATOR = '#';
+
+const WEAPON_SLOTS: EquipSlot[] = ['mainhand', 'twohanded'];
+const ARMOR_SLOTS: EquipSlot[] = ['head', 'shoulders', 'chest', 'bracers', 'gloves', 'foot', 'offhand', 'back'];
+const JEWELRY_SLOTS: EquipSlot[] = ['ring', 'necklace', 'relic'];
+const MAGIC_RARITIES: ItemRarity[] = ['uncommon', 'rare', 'epic', 'legendary'];
+const HIGH_RARITIES: ItemRarity[] = ['rare', 'epic', 'legendary'];
+
+export const SEED_AFFIXES: Record<string, AffixDefinition> = {
+  brutal: {
+    id: 'brutal', name: 'Brutal', stat: 'bonus_attack', min: 1, max: 3,
+    rarities: MAGIC_RARITIES, slots: [...WEAPON_SLOTS, 'gloves', 'ring'], weight: 3,
+  },
+  sturdy: {
+    id: 'sturdy', name: 'Sturdy', stat: 'damage_reduction', min: 1, max: 2,
+    rarities: MAGIC_RARITIES, slots: ARMOR_SLOTS, weight: 3,
+  },
+  warded: {
+    id: 'warded', name: 'Warded', stat: 'magic_reduction', min: 1, max: 2,
+    rarities: MAGIC_RARITIES, slots: [...ARMOR_SLOTS, ...JEWELRY_SLOTS], weight: 2,
+  },
+  keen: {
+    id: 'keen', name: 'Keen', stat: 'crit_chance', min: 2, max: 5,
+    rarities: HIGH_RARITIES, slots: [...WEAPON_SLOTS, 'gloves', 'ring', 'necklace'],
+  },
+  flaming: {
+    id: 'flaming', name: 'Flaming', stat: 'bonus_damage', damageType: 'fire', min: 1, max: 3,
+    rarities: MAGIC_RARITIES, slots: WEAPON_SLOTS,
+  },
+  hallowed: {
+    id: 'hallowed', name: 'Hallowed', stat: 'bonus_damage', damageType: 'holy', min: 2, max: 4,
+    rarities: HIGH_RARITIES, slots: [...WEAPON_SLOTS, 'relic'],
+  },
+  fireproof: {
+    id: 'fireproof', name: 'Fireproof', stat: 'resistance', damageType: 'fire', min: 5, max: 15,
+    rarities: MAGIC_RARITIES, slots: ARMOR_SLOTS,
+  },
+  steadfast: {
+    id: 'steadfast', name: 'Steadfast', stat: 'stun_resistance', min: 5, max: 10,
+    rarities: MAGIC_RARITIES, slots: [...ARMOR_SLOTS, 'necklace'],
+  },
+};
+
+// --- Instance ids ---
+
+/** True if `id` names an item instance rather than a stackable item. */
+export function isItemInstanceId(id: string): boolean {
+  return id.includes(ITEM_INSTANCE_SEPARATOR);
+}
+
+/**
+ * Content item id behind an inventory key: the key itself for stackables, the
+ * prefix for instances. Use it wherever content refers to items by id (sets,
+ * tile requirements, quest objectives).
+ */
+export function getBaseItemId(id: string): string {
+  const idx = id.indexOf(ITEM_INSTANCE_SEPARATOR);
+  return idx < 0 ? id : id.slice(0, idx);
+}
+
+/** Fresh instance id for `itemId`: the base id plus an 8-character base-36 suffix. */
+export function createItemInstanceId(itemId: string, rng: () => number = Math.random): string {
+  let suffix = '';
+  for (let i = 0; i < 8; i++) suffix += Math.floor(rng() * 36).toString(36);
+  return `${itemId}${ITEM_INSTANCE_SEPARATOR}${suffix}`;
+}
+
+/** Map a set of inventory keys to their base item ids. */
+export function toBaseItemIds(ids: Iterable<string>): Set<string> {
+  const result = new Set<string>();
+  for (const id of ids) result.add(getBaseItemId(id));
+  return result;
+}
+
+// --- Rolling ---
+
+/** Affixes eligible for an item of this rarity and slot. */
+export function getAffixPool(
+  affixes: Record<string, AffixDefinition>,
+  rarity: ItemRarity,
+  slot: EquipSlot,
+): AffixDefinition[] {
+  return Object.values(affixes).filter(a => a.rarities.includes(rarity) && (!a.slots || a.slots.includes(slot)));
+}
+
+/**
+ * Roll a dropped item into a unique instance. Returns null when the item isn't
+ * gear, its rarity rolls no affixes, or its pool is empty — the caller then adds
+ * it as an ordinary stackable. Affixes are drawn by weight without repeats.
+ * `rng` is injectable for deterministic tests.
+ */
+export function rollItemInstance(
+  def: ItemDefinition,
+  affixes: Record<string, AffixDefinition>,
+  rng: () => number = Math.random,
+): ItemInstance | null {
+  if (!def.equipSlot) return null;
+  const count = AFFIX_COUNT_BY_RARITY[def.rarity] ?? 0;
+  if (count <= 0) return null;
+
+  const pool = getAffixPool(affixes, def.rarity, def.equipSlot);
+  const rolled: RolledAffix[] = [];
+  while (rolled.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, a) => sum + (a.weight ?? 1), 0);
+    let pick = rng() * total;
+    let idx = 0;
+    while (idx < pool.length - 1 && pick >= (pool[idx].weight ?? 1)) {
+      pick -= pool[idx].weight ?? 1;
+      idx++;
+    }
+    const [affix] = pool.splice(idx, 1);
+    const value = affix.min + Math.floor(rng() * (affix.max - affix.min + 1));
+    rolled.push({
+      affixId: affix.id,
+      name: affix.name,
+      stat: affix.stat,
+      ...(affix.damageType ? { damageType: affix.damageType } : {}),
+      value,
+    });
+  }
+  if (rolled.length === 0) return null;
+
+  return { id: createItemInstanceId(def.id, rng), itemId: def.id, affixes: rolled };
+}
+
+// --- Resolution ---
+
+/**
+ * Definition for an instance: its base item (scaled by crafted quality) plus the
+ * rolled affixes and socketed gems, under the instance id.
+ */
+export function resolveItemInstance(
+  instance: ItemInstance,
+  items: Record<string, ItemDefinition>,
+): ItemDefinition | undefined {
+  const base = items[instance.itemId];
+  if (!base) return undefined;
+  const scaled = instance.quality ? applyCraftQuality(base, instance.quality) : base;
+  const def: ItemDefinition = { ...scaled, id: instance.id, affixes: instance.affixes };
+  if (instance.gems?.length) def.gems = instance.gems;
+  return def;
+}
+
+/**
+ * `items` plus a resolved definition per instance — pass the result anywhere an
+ * item record is expected (`equipItem`, `computeEquipmentBonuses`, …).
+ * Instances whose base item was deleted are left out.
+ */
+export function withItemInstances(
+  items: Record<string, ItemDefinition>,
+  instances: Record<string, ItemInstance> | undefined,
+): Record<string, ItemDefinition> {
+  if (!instances || Object.keys(instances).length === 0) return items;
+  const result: Record<string, ItemDefinition> = { ...items };
+  for (const instance of Object.values(instances)) {
+    const def = resolveItemInstance(instance, items);
+    if (def) result[instance.id] = def;
+  }
+  return result;
+}
+
+// --- Validation ---
+
+/** Validate an affix definition. Returns a list of error messages (empty = valid). */
+export function validateAffixDefinition(def: AffixDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!def.id || typeof def.id !== 'string' || !def.id.trim()) {
+    errors.push('Affix id is required.');
+  }
+  if (!def.name || typeof def.name !== 'string' || !def.name.trim()) {
+    errors.push('Affix name is required.');
+  }
+  if (!ALL_AFFIX_STATS.includes(def.stat)) {
+    errors.push(`Stat must be one of: ${ALL_AFFIX_STATS.join(', ')}.`);
+  }
+  if (TYPED_AFFIX_STATS.includes(def.stat) && !def.damageType) {
+    errors.push(`Stat "${def.stat}" needs a damage type.`);
+  }
+  if (def.damageType !== undefined && !ALL_DAMAGE_TYPES.includes(def.damageType)) {
+    errors.push(`Unknown damage type "${def.damageType}".`);
+  }
+  if (!Number.isInteger(def.min) || !Number.isInteger(def.max) || def.min < 0 || def.max < 1 || def.min > def.max) {
+    errors.push('Min and max must be integers with 0 ≤ min ≤ max and max ≥ 1.');
+  }
+  if (!Array.isArray(def.rarities) || def.rarities.length === 0) {
+    errors.push('At least one rarity is required.');
+  } else {
+    for (const rarity of def.rarities) {
+      if (!(rarity in RARITY_DROP_RATES)) errors.push(`Unknown rarity "${rarity}".`);
+    }
+  }
+  for (const slot of def.slots ?? []) {
+    if (!EQUIP_SLOTS.includes(slot)) errors.push(`Unknown equip slot "${slot}".`);
+  }
+  if (def.weight !== undefined && (typeof def.weight !== 'number' || !(def.weight > 0))) {
+    errors.push('Weight must be a positive number.');
+  }
+
+  return errors;
+}
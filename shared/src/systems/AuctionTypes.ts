@@ -0,0 +1,130 @@
+import type { ItemDefinition, ItemRarity, EquipSlot } from './ItemTypes.js';
+import { MAX_STACK } from './ItemTypes.js';
+import type { ItemInstance } from './AffixTypes.js';
+import { resolveItemInstance } from './AffixTypes.js';
+
+// --- Types ---
+
+/**
+ * A buy-now listing on the server-wide auction house. The listed items are
+ * held in escrow — already removed from the seller's inventory — until the
+ * listing sells, is cancelled, or expires.
+ */
+export interface AuctionListing {
+  id: string;
+  seller: string;
+  /** Inventory key — a content item id, or an instance id when `instance` is set (quantity 1). */
+  itemId: string;
+  quantity: number;
+  /** Buy-now price in gold for the whole stack. */
+  price: number;
+  listedAt: number;
+  expiresAt: number;
+  /** The rolled instance in escrow when `itemId` is an instance id. */
+  instance?: ItemInstance;
+}
+
+/** Search filters. Every field is optional; an empty filter matches everything. */
+export interface AuctionSearchFilter {
+  /** Equip slot, or 'none' for items that can't be worn (materials, consumables). */
+  slot?: EquipSlot | 'none';
+  rarity?: ItemRarity;
+  /** Only items this class can use (unrestricted items always match). */
+  className?: string;
+  /** Case-insensitive substring of the item name. */
+  text?: string;
+}
+
+// --- Constants ---
+
+/** Listing durations a seller can pick from, in hours. */
+export const AUCTION_DURATIONS_HOURS = [12, 24, 48] as const;
+/** Share of the sale price kept by the house — a gold sink taken out of the seller's payout. */
+export const AUCTION_FEE_RATE = 0.05;
+export const MAX_AUCTION_LISTINGS = 10;
+export const MAX_AUCTION_PRICE = 10_000_000;
+/** Most listings a single search returns. */
+export const AUCTION_SEARCH_LIMIT = 50;
+/** Sender name on auction house mail (payouts, purchases, returned listings). */
+export const AUCTION_HOUSE_SENDER = 'Auction House';
+
+// --- Pure functions ---
+
+/** The house's cut of a sale: 5% of the price, at least 1 gold. */
+export function getAuctionFee(price: number): number {
+  return Math.max(1, Math.floor(price * AUCTION_FEE_RATE));
+}
+
+/** What the seller receives when a listing sells. */
+export function getAuctionPayout(price: number): number {
+  return Math.max(0, price - getAuctionFee(price));
+}
+
+/** Definition for a listing — resolves rolled instances against `items`. */
+export function getAuctionItemDefinition(
+  listing: AuctionListing,
+  items: Record<string, ItemDefinition>,
+): ItemDefinition | undefined {
+  return listing.instance ? resolveItemInstance(listing.instance, items) : items[listing.itemId];
+}
+
+/** Whether an item matches a search filter. */
+export function matchesAuctionFilter(def: ItemDefinition, filter: AuctionSearchFilter): boolean {
+  if (filter.slot) {
+    if (filter.slot === 'none' ? !!def.equipSlot : def.equipSlot !== filter.slot) return false;
+  }
+  if (filter.rarity && def.rarity !== filter.rarity) return false;
+  if (filter.className && def.classRestriction?.length && !def.classRestriction.includes(filter.className)) return false;
+  const text = filter.text?.trim().toLowerCase();
+  if (text && !def.name.toLowerCase().includes(text)) return false;
+  return true;
+}
+
+/**
+ * Live listings matching `filter`, cheapest first, capped at `limit`.
+ * Expired listings and listings whose item no longer exists are skipped.
+ */
+export function searchAuctionListings(
+  listings: AuctionListing[],
+  items: Record<string, ItemDefinition>,
+  filter: AuctionSearchFilter,
+  now: number,
+  limit: number = AUCTION_SEARCH_LIMIT,
+): AuctionListing[] {
+  return listings
+    .filter(listing => {
+      if (listing.expiresAt <= now) return false;
+      const def = getAuctionItemDefinition(listing, items);
+      return !!def && matchesAuctionFilter(def, filter);
+    })
+    .sort((a, b) => a.price - b.price || a.listedAt - b.listedAt)
+    .slice(0, limit);
+}
+
+// --- Validation ---
+
+/** Validate a new listing's quantity, price and duration. Returns an error message, or null. */
+export function validateAuctionListing(quantity: number, price: number, durationHours: number): string | null {
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_STACK) return 'Invalid quantity.';
+  if (!Number.isInteger(price) || price < 1) return 'Price must be at least 1 gold.';
+  if (price > MAX_AUCTION_PRICE) return `Price can be at most ${MAX_AUCTION_PRICE.toLocaleString('en-US')} gold.`;
+  if (!(AUCTION_DURATIONS_HOURS as readonly number[]).includes(durationHours)) {
+    return `Duration must be ${AUCTION_DURATIONS_HOURS.join('/')} hours.`;
+  }
+  return null;
+}
+
+/**
+ * Rebuild a search filter from an untrusted client payload, keeping only the
+ * known fields that are strings. Anything else is dropped rather than rejected.
+ */
+export function sanitizeAuctionSearchFilter(raw: unknown): AuctionSearchFilter {
+  const filter: AuctionSearchFilter = {};
+  if (!raw || typeof raw !== 'object') return filter;
+  const { slot, rarity, className, text } = raw as Record<string, unknown>;
+  if (typeof slot === 'string') filter.slot = slot as AuctionSearchFilter['slot'];
+  if (typeof rarity === 'string') filter.rarity = rarity as ItemRarity;
+  if (typeof className === 'string') filter.className = className;
+  if (typeof text === 'string') filter.text = text;
+  return filter;
+}
@@ -0,0 +1,275 @@
+import type { ClassName } from './CharacterStats.js';
+import { CLASS_DEFINITIONS } from './CharacterStats.js';
+import type { ItemDefinition } from './ItemTypes.js';
+import type { MonsterDefinition } from './MonsterTypes.js';
+import type { SetDefinition } from './SetTypes.js';
+import type { SkillDefinition } from './SkillTypes.js';
+import type { StatusEffectDefinition } from './StatusEffectTypes.js';
+import type { PartyGridPosition } from './SocialTypes.js';
+import type { EncounterDefinition } from './EncounterTypes.js';
+import { resolveEncounter } from './EncounterTypes.js';
+import type { PartyCombatant } from './CombatEngine.js';
+import { buildPartyCombatant, createPartyCombatState, processPartyTick } from './CombatEngine.js';
+import { createBattleMeter, recordMeterEvents } from './DamageMeter.js';
+import { createRngState, randomSeed, rngFn } from './Rng.js';
+
+// --- Types ---
+
+/** One member of a hypothetical party. */
+export interface SimPartyMember {
+  /** Display name — must be unique within the party (the engine keys combatants by it). */
+  name: string;
+  className: ClassName;
+  level: number;
+  /** Equipped skill IDs by slot (null = empty slot). */
+  skillIds: (string | null)[];
+  /** Item IDs to wear; each lands in its item's equip slot (2H fills mainhand + offhand). */
+  equipmentIds: string[];
+  gridPosition: PartyGridPosition;
+}
+
+/** The content a simulation resolves IDs against (live content or a draft snapshot). */
+export interface SimContent {
+  monsters: Record<string, MonsterDefinition>;
+  items: Record<string, ItemDefinition>;
+  sets: Record<string, SetDefinition>;
+  skills: Record<string, SkillDefinition>;
+  /** Status effect registry; omitted = the built-in seeds. */
+  statusEffects?: Record<string, StatusEffectDefinition>;
+}
+
+export interface BattleSimOptions {
+  /** Number of battles to run. */
+  iterations: number;
+  /** Seed for the whole run — battle `i` uses `seed + i`. Omitted = random. */
+  seed?: number;
+  /** Ticks after which an unfinished battle is abandoned and counted as a loss. */
+  maxTicks?: number;
+}
+
+export interface BattleSimMemberStats {
+  name: string;
+  className: ClassName;
+  level: number;
+  /** Average damage dealt to monsters per battle (hits, splashes, reflects and their DoTs). */
+  avgDamage: number;
+  /** Average party HP restored per battle by the member's heals and HoTs. */
+  avgHealing: number;
+  /** Fraction of battles in which the member dropped to 0 HP at least once. */
+  deathRate: number;
+}
+
+export interface BattleSimReport {
+  encounterId: string;
+  iterations: number;
+  seed: number;
+  wins: number;
+  winRate: number;
+  /** Battles abandoned at `maxTicks` (counted as losses). */
+  timeouts: number;
+  /** Average ticks to clear the encounter, over victories only (null when the party never won). */
+  avgTicksToKill: number | null;
+  avgRounds: number;
+  members: BattleSimMemberStats[];
+}
+
+export const DEFAULT_SIM_MAX_TICKS = 2000;
+export const MAX_SIM_ITERATIONS = 10000;
+/** Highest simulated member level — the top of the 1-100 range skill slots unlock across. */
+export const MAX_SIM_LEVEL = 100;
+/** Combat ticks `simulateBattleAsync` runs before yielding to the event loop. */
+export const SIM_TICKS_PER_YIELD = 500;
+
+// --- Functions ---
+
+/**
+ * Resolve a hypothetical party into fresh combatants. Throws on unknown classes,
+ * items or skills, class-restricted gear, and duplicate names/cells so callers can
+ * surface a 400.
+ */
+export function buildSimParty(party: SimPartyMember[], content: SimContent): PartyCombatant[] {
+  if (party.length === 0) throw new Error('Party must have at least one member');
+  const names = new Set<string>();
+  const positions = new Set<PartyGridPosition>();
+
+  return party.map(member => {
+    if (!CLASS_DEFINITIONS[member.className]) throw new Error(`Unknown class '${member.className}'`);
+    if (!Number.isInteger(member.level) || member.level < 1 || member.level > MAX_SIM_LEVEL) throw new Error(`Invalid level for '${member.name}'`);
+    if (names.has(member.name)) throw new Error(`Duplicate member name '${member.name}'`);
+    if (positions.has(member.gridPosition)) throw new Error(`Grid position ${member.gridPosition} is used twice`);
+    names.add(member.name);
+    positions.add(member.gridPosition);
+
+    const equipment: Record<string, string | null> = {};
+    for (const itemId of member.equipmentIds) {
+      const def = content.items[itemId];
+      if (!def) throw new Error(`Unknown item '${itemId}'`);
+      if (!def.equipSlot) throw new Error(`Item '${itemId}' is not equippable`);
+      if (def.classRestriction?.length && !def.classRestriction.includes(member.className)) {
+        throw new Error(`${member.className} cannot equip '${itemId}'`);
+      }
+      if (def.equipSlot === 'twohanded') {
+        equipment.mainhand = itemId;
+        equipment.offhand = itemId;
+      } else {
+        equipment[def.equipSlot] = itemId;
+      }
+    }
+
+    const equippedSkills = member.skillIds.map(id => {
+      if (!id) return null;
+      const skill = content.skills[id];
+      if (!skill) throw new Error(`Unknown skill '${id}'`);
+      return skill;
+    });
+
+    return buildPartyCombatant({
+      username: member.name,
+      className: member.className,
+      level: member.level,
+      equipment,
+      equippedSkills,
+      gridPosition: member.gridPosition,
+    }, content.items, content.sets);
+  });
+}
+
+interface SimRun {
+  party: SimPartyMember[];
+  encounter: EncounterDefinition;
+  content: SimContent;
+  combatants: PartyCombatant[];
+  iterations: number;
+  maxTicks: number;
+  seed: number;
+  totals: Map<string, { damage: number; healing: number; deaths: number }>;
+  wins: number;
+  timeouts: number;
+  victoryTicks: number;
+  totalRounds: number;
+}
+
+function startSimRun(
+  party: SimPartyMember[],
+  encounter: EncounterDefinition,
+  content: SimContent,
+  options: BattleSimOptions,
+): SimRun {
+  const iterations = Math.floor(options.iterations);
+  if (!(iterations >= 1 && iterations <= MAX_SIM_ITERATIONS)) {
+    throw new Error(`iterations must be between 1 and ${MAX_SIM_ITERATIONS}`);
+  }
+  return {
+    party,
+    encounter,
+    content,
+    combatants: buildSimParty(party, content),
+    iterations,
+    maxTicks: options.maxTicks ?? DEFAULT_SIM_MAX_TICKS,
+    seed: (options.seed ?? randomSeed()) >>> 0,
+    totals: new Map(party.map(m => [m.name, { damage: 0, healing: 0, deaths: 0 }])),
+    wins: 0,
+    timeouts: 0,
+    victoryTicks: 0,
+    totalRounds: 0,
+  };
+}
+
+/** Fight battle `i` of the run and fold it into the totals. Returns the ticks it took. */
+function runSimBattle(run: SimRun, i: number): number {
+  const { content, encounter } = run;
+  const rng = createRngState(run.seed + i);
+  const monsters = resolveEncounter(encounter, content.monsters, rngFn(rng));
+  if (monsters.length === 0) throw new Error(`Encounter '${encounter.id}' resolved to no monsters`);
+  const state = createPartyCombatState(run.combatants, monsters, rng, content.statusEffects, content.monsters);
+  const meter = createBattleMeter(state.players);
+  const died = new Set<string>();
+
+  while (!state.finished && state.tickCount < run.maxTicks) {
+    recordMeterEvents(meter, processPartyTick(state).events);
+    for (const p of state.players) {
+      if (p.currentHp <= 0) died.add(p.username);
+    }
+  }
+  for (const m of meter.members) {
+    const t = run.totals.get(m.username)!;
+    t.damage += m.damageDealt;
+    t.healing += m.healingDone;
+  }
+
+  if (!state.finished) run.timeouts++;
+  if (state.result === 'victory') {
+    run.wins++;
+    run.victoryTicks += state.tickCount;
+  }
+  run.totalRounds += state.roundCount;
+  for (const name of died) run.totals.get(name)!.deaths++;
+  return state.tickCount;
+}
+
+function finishSimRun(run: SimRun): BattleSimReport {
+  const { iterations, wins } = run;
+  return {
+    encounterId: run.encounter.id,
+    iterations,
+    seed: run.seed,
+    wins,
+    winRate: wins / iterations,
+    timeouts: run.timeouts,
+    avgTicksToKill: wins > 0 ? run.victoryTicks / wins : null,
+    avgRounds: run.totalRounds / iterations,
+    members: run.party.map(m => {
+      const t = run.totals.get(m.name)!;
+      return {
+        name: m.name,
+        className: m.className,
+        level: m.level,
+        avgDamage: t.damage / iterations,
+        avgHealing: t.healing / iterations,
+        deathRate: t.deaths / iterations,
+      };
+    }),
+  };
+}
+
+/**
+ * Run `processPartyTick` to completion against `encounter` many times and aggregate
+ * the outcomes. Each battle re-rolls the encounter from its own seeded stream, so a
+ * report is reproducible from its `seed`.
+ *
+ * Damage and healing are credited the same way as the live damage meter
+ * (`recordMeterEvents`).
+ */
+export function simulateBattle(
+  party: SimPartyMember[],
+  encounter: EncounterDefinition,
+  content: SimContent,
+  options: BattleSimOptions,
+): BattleSimReport {
+  const run = startSimRun(party, encounter, content, options);
+  for (let i = 0; i < run.iterations; i++) runSimBattle(run, i);
+  return finishSimRun(run);
+}
+
+/**
+ * `simulateBattle` for a shared event loop: after every `SIM_TICKS_PER_YIELD`
+ * ticks it waits a macrotask before the next battle, so a long run on the game
+ * server doesn't stall every connected player. Same seed, same report.
+ */
+export async function simulateBattleAsync(
+  party: SimPartyMember[],
+  encounter: EncounterDefinition,
+  content: SimContent,
+  options: BattleSimOptions,
+): Promise<BattleSimReport> {
+  const run = startSimRun(party, encounter, content, options);
+  let ticksSinceYield = 0;
+  for (let i = 0; i < run.iterations; i++) {
+    if (ticksSinceYield >= SIM_TICKS_PER_YIELD) {
+      await new Promise<void>(resolve => setTimeout(resolve, 0));
+      ticksSinceYield = 0;
+    }
+    ticksSinceYield += runSimBattle(run, i);
+  }
+  return finishSimRun(run);
+}
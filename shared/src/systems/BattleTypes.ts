@@ -1,8 +1,16 @@
-import type { EquipSlot, ItemDefinition } from './ItemTypes.js';
+import type { EquipSlot, ItemDefinition, ItemRarity } from './ItemTypes.js';
 import type { SetDefinition } from './SetTypes.js';
-import type { ShopDefinition } from './ShopTypes.js';
+import type { ClientShopState, ShopDefinition } from './ShopTypes.js';
+import type { SalvageTableDefinition } from './SalvageTypes.js';
+import type { ClientNpcRecipeOffer } from './NpcTypes.js';
+import type { ActiveConsumable, AutoUseRule, AutoUseTrigger } from './ConsumableTypes.js';
+import type { SavedLoadout } from './LoadoutTypes.js';
+import type { StashTab } from './StashTypes.js';
+import type { ClientHarvestNode } from './HarvestTypes.js';
 import type { RecipeDefinition, CraftQueueState, ActiveJobProgress } from './CraftingTypes.js';
 import type { PartyGridPosition } from './SocialTypes.js';
+import type { CombatEvent } from './CombatEvents.js';
+import type { ClientMeterState } from './DamageMeter.js';
 import type {
   ClientSocialState,
   ClientSocialMessage,
@@ -12,6 +20,8 @@ import type {
   ServerTradeProposedMessage,
   ServerTradeCancelledMessage,
   ServerTradeCompletedMessage,
+  ServerAuctionResultsMessage,
+  ServerWorkOrderResultsMessage,
 } from './SocialTypes.js';
 import type { SkillLoadout } from './SkillTypes.js';
 import type { DungeonRunInfo } from './DungeonTypes.js';
@@ -61,6 +71,12 @@ export interface ClientMonsterState {
   stunTurns?: number;
   /** Optional flavor text shown in the monster popup. */
   description?: string;
+  /** Set on monsters with boss phases. */
+  boss?: boolean;
+  /** Boss phase immunity is up. */
+  immune?: boolean;
+  /** Boss enrage is in effect. */
+  enraged?: boolean;
 }
 
 export interface ClientCombatAction {
@@ -85,8 +101,15 @@ export interface ClientCombatState {
   tickCount: number;
   /** Number of full combat rounds completed. */
   roundCount: number;
+  /** Seed of this battle's random stream — quote it in bug reports to replay the fight. */
+  seed?: number;
   /** The action that occurred on the most recent tick. */
   lastAction?: ClientCombatAction;
+  /**
+   * Combat events from the most recent tick (tick `tickCount`). The state is re-sent on
+   * non-tick changes too, so animate each tickCount's events once.
+   */
+  events?: CombatEvent[];
 }
 
 export interface ServerBattleState {
@@ -95,6 +118,8 @@ export interface ServerBattleState {
   visual: BattleVisual;
   duration: number;
   combat?: ClientCombatState;
+  /** Damage meter: the current fight, the last finished one, and recent-session totals. */
+  meter?: ClientMeterState;
 }
 
 export interface ClientCharacterState {
@@ -116,6 +141,11 @@ export interface ClientCharacterState {
   xpRate: { startTime: number; totalXp: number };
   craftLevel: number;
   craftXp: number;
+  /** Timed consumables still running (expired entries already dropped). */
+  activeConsumables: ActiveConsumable[];
+  autoUseRules: AutoUseRule[];
+  loadouts: SavedLoadout[];
+  stash: StashTab[];
 }
 
 export interface ClientResetXpRateMessage {
@@ -169,6 +199,12 @@ export interface ServerStateMessage {
   setDefinitions?: Record<string, SetDefinition>;
   /** Shop definition for the player's current room (if any). */
   shopDefinition?: ShopDefinition;
+  /** Live prices, stock and the player's buyback list for `shopDefinition`. */
+  shopState?: ClientShopState;
+  /** True when the player's current room has a stash (deposit / withdraw allowed). */
+  stashAvailable?: boolean;
+  /** Harvest nodes in the player's current room (if any). */
+  harvestNodes?: ClientHarvestNode[];
   /** Crafting state: visible recipes, queue, and progress on the active job. */
   crafting?: ClientCraftingState;
   /** Active quests the player has accepted (with live progress / status). */
@@ -183,10 +219,15 @@ export interface ServerStateMessage {
   questResolutions?: {
     monsters: Record<string, string>;
     items: Record<string, string>;
+    recipes: Record<string, string>;
     tiles: Record<string, { name: string; col: number; row: number }>;
   };
+  /** Recipes the NPC at the player's current room teaches (if any). */
+  npcRecipeOffers?: ClientNpcRecipeOffer[];
   /** Active dungeon run state (floor progress) — present only while the party is inside a dungeon. */
   dungeon?: DungeonRunInfo;
+  /** Salvage tables keyed by item rarity, so the client knows which gear can be salvaged. */
+  salvageTables?: Record<string, SalvageTableDefinition>;
   /** Server version identifier — changes on restart/deploy, triggers client reload on mismatch. */
   serverVersion: string;
 }
@@ -205,6 +246,8 @@ export interface ClientCraftingState {
   /** Item definitions for every ingredient and result referenced by `recipes` — needed so the
    *  client can render names even for items the player doesn't own yet. */
   itemDefs: Record<string, ItemDefinition>;
+  /** Ingredients only other classes can craft, with those classes — components to get via work orders. */
+  ingredientCrafters: Record<string, string[]>;
 }
 
 export interface ClientMoveMessage {
@@ -238,6 +281,82 @@ export interface ClientEquipItemForceDestroyMessage {
   itemId: string;
 }
 
+/** Slot a gem from the inventory into gear — the equipped copy when `equipped`, otherwise an unequipped one. */
+export interface ClientSocketGemMessage {
+  type: 'socket_gem';
+  itemId: string;
+  gemId: string;
+  equipped: boolean;
+}
+
+/** Pull the gem at `index` out of gear: kept for its removal fee, or destroyed for free. */
+export interface ClientUnsocketGemMessage {
+  type: 'unsocket_gem';
+  itemId: string;
+  index: number;
+  destroy: boolean;
+}
+
+/** Break `count` unequipped copies of a gear item down into crafting materials. */
+export interface ClientSalvageItemMessage {
+  type: 'salvage_item';
+  itemId: string;
+  count: number;
+}
+
+/** Salvage every unequipped gear item of the given rarities. */
+export interface ClientSalvageAllMessage {
+  type: 'salvage_all';
+  rarities: ItemRarity[];
+}
+
+/** Use one consumable from the inventory now. */
+export interface ClientUseConsumableMessage {
+  type: 'use_consumable';
+  itemId: string;
+}
+
+/** Set (or clear, with a null trigger) the auto-use rule for one consumable. */
+export interface ClientSetAutoUseMessage {
+  type: 'set_auto_use';
+  itemId: string;
+  trigger: AutoUseTrigger | null;
+  hpPercent?: number;
+}
+
+/** Save the current equipment and skill slots as a loadout (overwrites one with the same name). */
+export interface ClientSaveLoadoutMessage {
+  type: 'save_loadout';
+  name: string;
+}
+
+export interface ClientDeleteLoadoutMessage {
+  type: 'delete_loadout';
+  name: string;
+}
+
+/** Swap all equipment and skill slots to a saved loadout in one step. */
+export interface ClientApplyLoadoutMessage {
+  type: 'apply_loadout';
+  name: string;
+}
+
+/** Move unequipped items into a stash tab. Only allowed in a stash room. */
+export interface ClientStashDepositMessage {
+  type: 'stash_deposit';
+  tab: number;
+  itemId: string;
+  quantity: number;
+}
+
+/** Move items from a stash tab back into the carried inventory. Only allowed in a stash room. */
+export interface ClientStashWithdrawMessage {
+  type: 'stash_withdraw';
+  tab: number;
+  itemId: string;
+  quantity: number;
+}
+
 export interface ServerEquipBlockedMessage {
   type: 'equip_blocked';
   itemId: string;
@@ -256,6 +375,16 @@ export interface ClientUnequipSkillMessage {
   slotIndex: number;
 }
 
+export interface ClientLearnTalentMessage {
+  type: 'learn_talent';
+  skillId: string;
+}
+
+/** Refund every talent point for `getRespecCost(level)` gold. */
+export interface ClientRespecTalentsMessage {
+  type: 'respec_talents';
+}
+
 export type ServerMessage =
   | ServerStateMessage
   | ServerSocialStateMessage
@@ -265,6 +394,8 @@ export type ServerMessage =
   | ServerTradeProposedMessage
   | ServerTradeCancelledMessage
   | ServerTradeCompletedMessage
+  | ServerAuctionResultsMessage
+  | ServerWorkOrderResultsMessage
   | ServerNotificationMessage
   | PlayerProfileMessage
   | { type: 'error'; message: string };
@@ -302,9 +433,17 @@ export interface ClientShopSellMessage {
   quantity: number;
 }
 
+export interface ClientShopBuybackMessage {
+  type: 'shop_buyback';
+  /** Index into the player's buyback list (0 = most recent sale). */
+  index: number;
+}
+
 export interface ClientCraftQueueMessage {
   type: 'craft_queue';
   recipeId: string;
+  /** Fill this work order with the job's output on completion. */
+  workOrderId?: string;
 }
 
 export interface ClientCraftCancelMessage {
@@ -322,6 +461,12 @@ export interface ClientTurnInQuestMessage {
   questId: string;
 }
 
+/** Pay the NPC in the player's room to teach a recipe from its `recipesForSale`. */
+export interface ClientLearnRecipeMessage {
+  type: 'learn_recipe';
+  recipeId: string;
+}
+
 export interface ClientSetClassMessage {
   type: 'set_class';
   className: string;
@@ -353,18 +498,33 @@ export type ClientMessage =
   | ClientUnequipItemMessage
   | ClientDestroyItemsMessage
   | ClientEquipItemForceDestroyMessage
+  | ClientSocketGemMessage
+  | ClientUnsocketGemMessage
+  | ClientSalvageItemMessage
+  | ClientSalvageAllMessage
+  | ClientUseConsumableMessage
+  | ClientSetAutoUseMessage
+  | ClientSaveLoadoutMessage
+  | ClientDeleteLoadoutMessage
+  | ClientApplyLoadoutMessage
+  | ClientStashDepositMessage
+  | ClientStashWithdrawMessage
   | ClientSetClassMessage
   | ClientResetXpRateMessage
   | ClientEquipSkillMessage
   | ClientUnequipSkillMessage
+  | ClientLearnTalentMessage
+  | ClientRespecTalentsMessage
   | ClientRunMessage
   | ClientViewPlayerMessage
   | ClientShopBuyMessage
   | ClientShopSellMessage
+  | ClientShopBuybackMessage
   | ClientCraftQueueMessage
   | ClientCraftCancelMessage
   | ClientAcceptQuestMessage
   | ClientTurnInQuestMessage
+  | ClientLearnRecipeMessage
   | ClientEnterDungeonMessage
   | ClientLeaveDungeonMessage
   | ClientEnterTransitionMessage
@@ -1,11 +1,19 @@
 import type { SkillContent, SkillLoadout } from './SkillTypes.js';
 import { createDefaultSkillLoadout } from './SkillTypes.js';
+import type { ItemInstance } from './AffixTypes.js';
+import type { ActiveConsumable, AutoUseRule } from './ConsumableTypes.js';
+import type { SavedLoadout } from './LoadoutTypes.js';
+import type { StashTab } from './StashTypes.js';
 
 // --- Types ---
 
 export type ClassName = 'Knight' | 'Archer' | 'Priest' | 'Mage' | 'Bard';
 
-export type DamageType = 'physical' | 'magical' | 'holy';
+/**
+ * Damage schools. 'arcane' is the generic spell school (formerly 'magical');
+ * fire/frost/poison/shadow/nature are elemental schools that mitigate like arcane.
+ */
+export type DamageType = 'physical' | 'arcane' | 'holy' | 'fire' | 'frost' | 'poison' | 'shadow' | 'nature';
 
 export interface ClassDefinition {
   displayName: string;
@@ -24,11 +32,25 @@ export interface CharacterState {
   gold: number;
   inventory: Record<string, number>;
   equipment: Record<string, string | null>;
+  /** Rolled item instances owned by this character, keyed by instance id (the key used in `inventory` / `equipment`). */
+  itemInstances: Record<string, ItemInstance>;
   skillLoadout: SkillLoadout;
   /** Crafting skill level (per-class craft skill — see CRAFT_SKILL_NAMES). */
   craftLevel: number;
   /** Crafting skill XP toward next level. */
   craftXp: number;
+  /** Timed consumables (buffs, boosters) still running. */
+  activeConsumables?: ActiveConsumable[];
+  /** Opt-in auto-use rules, at most one per consumable item. */
+  autoUseRules?: AutoUseRule[];
+  /** Named equipment + skill-slot sets for one-step swaps. */
+  loadouts?: SavedLoadout[];
+  /** Personal stash tabs — only reachable in stash rooms, never counted as carried. */
+  stash?: StashTab[];
+  /** Discoverable recipes this character has learned (starter recipes are never listed). */
+  knownRecipeIds?: string[];
+  /** When each gathered harvest node respawns for this character, by `getHarvestNodeKey`. */
+  harvestReadyAt?: Record<string, number>;
 }
 
 // --- Constants ---
@@ -96,7 +118,7 @@ export const CLASS_DEFINITIONS: Record<ClassName, ClassDefinition> = {
   },
   Priest: {
     displayName: 'Priest',
-    description: 'Holy damage, moderate HP. Bless reduces magical damage for the party.',
+    description: 'Holy damage, moderate HP. Bless reduces spell damage for the party.',
     baseHp: 20,
     hpPerLevel: 2,
     baseDamage: 3,
@@ -105,12 +127,12 @@ export const CLASS_DEFINITIONS: Record<ClassName, ClassDefinition> = {
   },
   Mage: {
     displayName: 'Mage',
-    description: 'High magical damage, very low HP. Burn increases damage per level.',
+    description: 'High arcane damage, very low HP. Burn increases damage per level.',
     baseHp: 8,
     hpPerLevel: 1,
     baseDamage: 15,
     damagePerLevel: 2,
-    damageType: 'magical',
+    damageType: 'arcane',
   },
   Bard: {
     displayName: 'Bard',
@@ -126,6 +148,25 @@ export const CLASS_DEFINITIONS: Record<ClassName, ClassDefinition> = {
 /** All playable class names. */
 export const ALL_CLASS_NAMES: ClassName[] = ['Knight', 'Archer', 'Priest', 'Mage', 'Bard'];
 
+/** All damage types, in display order. */
+export const ALL_DAMAGE_TYPES: DamageType[] = ['physical', 'arcane', 'holy', 'fire', 'frost', 'poison', 'shadow', 'nature'];
+
+/**
+ * Spell schools — every type mitigated by equipment magic reduction and Bless.
+ * Physical has its own reduction; holy is reduced by Bless only.
+ */
+export const SPELL_DAMAGE_TYPES: DamageType[] = ['arcane', 'fire', 'frost', 'poison', 'shadow', 'nature'];
+
+/** Display label for a damage type ('fire' → 'Fire'). */
+export function formatDamageType(type: DamageType): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+/** Map a stored damage type onto the current set: the retired 'magical' becomes 'arcane'. */
+export function migrateLegacyDamageType(type: DamageType | 'magical'): DamageType {
+  return type === 'magical' ? 'arcane' : type;
+}
+
 export const MAX_GOLD = 999_999_999;
 
 /** Per-class crafting skill name (the player's only craft skill — they have one for life). */
@@ -178,6 +219,7 @@ export function createCharacter(className: ClassName, skillContent: SkillContent
     gold: 0,
     inventory: {},
     equipment: { head: null, shoulders: null, chest: null, bracers: null, gloves: null, mainhand: null, offhand: null, foot: null, ring: null, necklace: null, back: null, relic: null },
+    itemInstances: {},
     skillLoadout: createDefaultSkillLoadout(className, skillContent),
     craftLevel: 1,
     craftXp: 0,
@@ -1,15 +1,39 @@
 import type { ClassName, DamageType } from './CharacterStats.js';
-import type { MonsterInstance, Resistance, MonsterSkillEntry } from './MonsterTypes.js';
-import type { EquipmentBonuses } from './ItemTypes.js';
+import { CLASS_DEFINITIONS, SPELL_DAMAGE_TYPES, calculateBaseDamage, calculateMaxHp } from './CharacterStats.js';
+import type { BossPhase, MonsterDefinition, MonsterInstance, Resistance, MonsterSkillEntry } from './MonsterTypes.js';
+import { DEFAULT_ENRAGE_MULTIPLIER, SEED_MONSTERS, createMonsterInstance } from './MonsterTypes.js';
+import type { EquipmentBonuses, ItemDefinition, StatusResistances } from './ItemTypes.js';
+import { computeEquipmentBonuses, getWeaponDamageType } from './ItemTypes.js';
 import type { PartyGridPosition } from './SocialTypes.js';
-import type { ActiveEffect, PassiveEffect, PassiveEffectKind, SkillDefinition } from './SkillTypes.js';
-import type { SetBonuses } from './SetTypes.js';
+import type {
+  ActiveEffect,
+  ActiveEffectKind,
+  EffectTrigger,
+  GridDepth,
+  PassiveEffect,
+  PassiveEffectKind,
+  SkillDefinition,
+  StatusTarget,
+} from './SkillTypes.js';
+import type { SetBonuses, SetDefinition } from './SetTypes.js';
+import { computeActiveSetBonuses, mergeSetBonusesIntoEquip } from './SetTypes.js';
 import { MONSTER_SKILL_CATALOG } from './MonsterSkills.js';
+import type { MonsterSkillDefinition } from './MonsterSkills.js';
+import type { StatusApplication, StatusEffectDefinition, StatusInstance } from './StatusEffectTypes.js';
+import {
+  SEED_STATUS_EFFECTS, addStatus, scaleByStatuses, statusBonusDamage, sumStatusModifier,
+} from './StatusEffectTypes.js';
+import type { RngState } from './Rng.js';
+import { createRngState, nextRandom } from './Rng.js';
+import type { BonusDamage, CombatantRef, CombatEvent, DamageMitigation } from './CombatEvents.js';
+import { NO_MITIGATION, renderCombatLog } from './CombatEvents.js';
 
 // --- Types ---
 
 export interface TickResult {
-  /** Log lines generated this tick (damage dealt, kills, etc.). */
+  /** Everything that happened this tick, in order. */
+  events: CombatEvent[];
+  /** Log lines rendered from `events` (damage dealt, kills, etc.). */
   logEntries: string[];
   /** Whether combat ended this tick. */
   finished: boolean;
@@ -17,6 +41,20 @@ export interface TickResult {
   result: 'victory' | 'defeat' | null;
 }
 
+// --- Stun diminishing returns ---
+
+/**
+ * Stun chance multiplier by how many stuns already landed on the target in its current
+ * window. The last entry is immunity: nothing stuns a target that was stunned that often.
+ */
+export const STUN_DR_MULTIPLIERS = [1, 0.5, 0.25, 0];
+
+/**
+ * Own turns (the stunned one included) before a target's diminishing returns reset;
+ * every stun that lands restarts the count.
+ */
+export const STUN_DR_WINDOW = 4;
+
 // --- Buff/Debuff/DoT Tracking ---
 
 export interface DotEffect {
@@ -36,30 +74,6 @@ export interface HotEffect {
   ticksRemaining: number;
 }
 
-export interface CombatBuff {
-  type: string;
-  value: number;
-  /** -1 = permanent (rest of combat). */
-  duration: number;
-}
-
-export interface CombatDebuff {
-  type: string;
-  value: number;
-  duration: number;
-}
-
-export interface SunderMark {
-  /** Number of mark applications (display/log only — the damage bonus lives in totalBonus). */
-  stacks: number;
-  /**
-   * Accumulated incoming-damage bonus across all applications. Each 'stacking_mark' cast adds
-   * its own markMultiplier, so marks from skills with different multipliers stack independently.
-   * Legacy marks (restored mid-battle from old state) may lack this; fall back to stacks * 0.25.
-   */
-  totalBonus?: number;
-}
-
 // --- Party Combat Types ---
 
 export interface PartyCombatant {
@@ -85,11 +99,18 @@ export interface PartyCombatant {
   attackCount: number;
   /** Remaining stun turns (0 = not stunned). */
   stunTurns: number;
+  /** Stuns landed in the current diminishing-returns window (see `STUN_DR_MULTIPLIERS`). */
+  stunDrStacks: number;
+  /** Own turns left before `stunDrStacks` resets to 0. */
+  stunDrTurns: number;
   // --- Extended combat state ---
   dots: DotEffect[];
   hots: HotEffect[];
   damageShield: number;
-  debuffs: CombatDebuff[];
+  /** Username of whoever cast the current damage shield (credited for what it absorbs). */
+  damageShieldSource?: string;
+  /** Buffs and debuffs from the status effect registry (War Song, Blessed Arms, …). */
+  statuses: StatusInstance[];
   /** Track consecutive hits on same target for Focus. */
   consecutiveHits: number;
   lastTargetId: string;
@@ -109,17 +130,13 @@ export interface PartyCombatant {
 
 export interface CombatMonster extends MonsterInstance {
   stunTurns: number;
+  /** Stuns landed in the current diminishing-returns window (see `STUN_DR_MULTIPLIERS`). */
+  stunDrStacks: number;
+  /** Own turns left before `stunDrStacks` resets to 0. */
+  stunDrTurns: number;
   dots: DotEffect[];
-  /** Sunder marks on this monster. */
-  sunderMark: SunderMark | null;
-  /** Debuffs on this monster (e.g., Crippling Shot, Scorch). */
-  debuffs: CombatDebuff[];
-  /** Buffs on this monster (for Dispel to remove). */
-  buffs: CombatBuff[];
-  /** Whether this monster is affected by Chaos this tick. */
-  chaosActive: boolean;
-  /** Whether Lullaby damage reduction is active. */
-  lullabyReduction: number;
+  /** Buffs and debuffs from the status effect registry (Sunder, Lullaby, Chaos, …). */
+  statuses: StatusInstance[];
   /** Monster resistances (copied from definition). */
   resistances: Resistance[];
   /** Monster skill entries (copied from definition). */
@@ -128,6 +145,16 @@ export interface CombatMonster extends MonsterInstance {
   skillCooldowns: Record<string, number>;
   /** Number of attacks performed (for cooldown tracking). */
   attackCount: number;
+  /** Boss phases (copied from definition; empty for ordinary monsters). */
+  phases: BossPhase[];
+  /** Index of the boss phase in effect (-1 = none entered yet). */
+  phaseIndex: number;
+  /** Round the current phase began (for its enrage timer). */
+  phaseStartRound: number;
+  /** Own turns of phase immunity left — all damage is ignored while above 0. */
+  immuneTurns: number;
+  /** Damage multiplier from enrage (1 = not enraged). */
+  enrageMultiplier: number;
 }
 
 export interface CombatAction {
@@ -165,16 +192,24 @@ export interface PartyCombatState {
   roundCount: number;
   /** The action that occurred on the most recent tick (null before first tick). */
   lastAction: CombatAction | null;
+  /** Events from the most recent tick (empty before the first tick). */
+  lastEvents: CombatEvent[];
   /** Bard Rally damage multiplier (precomputed at combat start). */
   rallyMultiplier: number;
-  /** War Song permanent stacking damage bonus. */
-  warSongBonus: number;
   /** Bard Nimble party-wide dodge bonus. */
   nimbleDodge: number;
   /** Bard Unnerve enemy damage reduction (flat %). */
   unnerveReduction: number;
-  /** Priest Blessed Arms bonus holy damage per hit. */
-  blessedArmsDamage: number;
+  /** Status effect registry this battle resolves ids against (snapshot at combat start). */
+  statusEffects: Record<string, StatusEffectDefinition>;
+  /** Monster registry boss phases resolve summons against (snapshot at combat start). */
+  monsterDefinitions: Record<string, MonsterDefinition>;
+  /**
+   * Random stream for every roll in this battle (variance, crits, stuns, dodges,
+   * equipment ranges, random targets). Re-running a battle from the same seed and
+   * inputs reproduces it exactly.
+   */
+  rng: RngState;
 }
 
 // --- Grid Targeting ---
@@ -262,6 +297,62 @@ function findLowestPercentHpAlly(players: PartyCombatant[]): PartyCombatant | nu
   });
 }
 
+/** A living player holding a taunt status, front-most by the grid rule when several taunt. */
+function findTaunter(monster: CombatMonster, players: PartyCombatant[]): PartyCombatant | null {
+  const taunting = players.filter(p => p.statuses.some(s => s.definition.taunt));
+  return findTarget(monster.gridPosition, taunting, true);
+}
+
+/** Apply a `target_priority` monster skill's rule. Null when nobody matches. */
+function findPriorityTarget(
+  skillDef: MonsterSkillDefinition,
+  monster: CombatMonster,
+  players: PartyCombatant[],
+  rng: RngState,
+): PartyCombatant | null {
+  const alive = players.filter(p => p.currentHp > 0);
+  if (alive.length === 0) return null;
+  switch (skillDef.targeting) {
+    case 'lowest_hp_enemy':
+      return findLowestHpTarget(alive);
+    case 'highest_damage_enemy':
+      return alive.reduce((high, p) => p.baseDamage > high.baseDamage ? p : high);
+    case 'back_row': {
+      // Column 0 is the players' back (monsters reach col 2 first)
+      const backCol = Math.min(...alive.map(p => getCol(p.gridPosition)));
+      return findTarget(monster.gridPosition, alive.filter(p => getCol(p.gridPosition) === backCol), true);
+    }
+    case 'class_first':
+      return findTarget(monster.gridPosition, alive.filter(p => skillDef.targetClasses?.includes(p.className)), true);
+    case 'random_enemy':
+      return alive[Math.floor(nextRandom(rng) * alive.length)];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Choose the victim of a monster's single-target attack: a taunting player, else the
+ * first off-cooldown `target_priority` skill that procs and finds a match (which then
+ * goes on cooldown), else the grid rule.
+ */
+function pickMonsterTarget(monster: CombatMonster, state: PartyCombatState): PartyCombatant | null {
+  const taunter = findTaunter(monster, state.players);
+  if (taunter) return taunter;
+
+  for (const entry of monster.skills) {
+    const skillDef = MONSTER_SKILL_CATALOG[entry.skillId];
+    if (skillDef?.effect !== 'target_priority' || (monster.skillCooldowns[entry.skillId] ?? 0) > 0) continue;
+    if (entry.value < 100 && nextRandom(state.rng) * 100 >= entry.value) continue;
+    const target = findPriorityTarget(skillDef, monster, state.players, state.rng);
+    if (!target) continue;
+    monster.skillCooldowns[entry.skillId] = entry.cooldown;
+    return target;
+  }
+
+  return findTarget(monster.gridPosition, state.players, true);
+}
+
 /** Find the lowest HP non-Knight ally (for Sanctuary). */
 function findLowestHpNonKnight(players: PartyCombatant[]): PartyCombatant | null {
   const alive = players.filter(p => p.currentHp > 0 && p.className !== 'Knight');
@@ -305,7 +396,7 @@ function getPhysicalReduction(target: PartyCombatant, _allPlayers: PartyCombatan
   return reduction;
 }
 
-/** Get total magical/holy damage reduction from all alive Priests with Bless (party-wide). */
+/** Get total spell/holy damage reduction from all alive Priests with Bless (party-wide). */
 function getMagicalReduction(allPlayers: PartyCombatant[]): number {
   let reduction = 0;
   for (const p of allPlayers) {
@@ -317,9 +408,9 @@ function getMagicalReduction(allPlayers: PartyCombatant[]): number {
   return reduction;
 }
 
-/** Get crit chance from equipped passives. */
+/** Get crit chance from equipped passives plus gear affixes (stored in percent). */
 function getCritChance(player: PartyCombatant): number {
-  let chance = 0;
+  let chance = (player.equipBonuses?.critChance ?? 0) / 100;
   for (const effect of getPassiveEffects(player, 'crit_chance')) {
     chance += effect.flatValue ?? 0;
   }
@@ -377,16 +468,110 @@ function computeUnnerveReduction(players: PartyCombatant[]): number {
   return totalReduction;
 }
 
-/** Compute Priest Blessed Arms bonus holy damage. */
-function computeBlessedArmsDamage(players: PartyCombatant[]): number {
-  let totalDamage = 0;
-  for (const p of players) {
+/** Priest Blessed Arms: each living owner gives every party member a blessed_arms stack. */
+function applyBlessedArms(state: PartyCombatState): void {
+  for (const p of state.players) {
     if (p.currentHp <= 0) continue;
     for (const effect of getPassiveEffects(p, 'holy_damage_party')) {
-      totalDamage += (effect.valuePerLevel ?? 0) * p.level;
+      const bonusDamage = (effect.valuePerLevel ?? 0) * p.level;
+      if (bonusDamage <= 0) continue;
+      for (const member of state.players) {
+        applyStatusEffect(state, member, 'blessed_arms', { sourceUsername: p.username, modifiers: { bonusDamage } });
+      }
     }
   }
-  return totalDamage;
+}
+
+/**
+ * Put a status on a combatant. Ids resolve against the battle's registry, then the
+ * built-in seeds (so engine-applied statuses work even without content). Debuffs
+ * roll against the target's debuff resistance first (reported to `events`). Returns
+ * the instance created or updated, or null for unknown ids, resisted debuffs and
+ * capped stacks.
+ */
+function applyStatusEffect(
+  state: PartyCombatState,
+  target: PartyCombatant | CombatMonster,
+  effectId: string,
+  app: StatusApplication,
+  events?: CombatEvent[],
+): StatusInstance | null {
+  const def = state.statusEffects[effectId] ?? SEED_STATUS_EFFECTS[effectId];
+  if (!def) return null;
+  if (def.kind === 'debuff' && resistsDebuff(state, target, def, events)) return null;
+  return addStatus(target.statuses, def, app);
+}
+
+/** A tenacity stat as a 0-1 fraction: summed gear + sets for players, the definition for monsters. */
+function getStatusResistance(entity: PartyCombatant | CombatMonster, key: keyof StatusResistances): number {
+  const percent = 'username' in entity ? entity.equipBonuses?.[key] ?? 0 : entity[key] ?? 0;
+  return Math.min(100, Math.max(0, percent)) / 100;
+}
+
+/**
+ * Roll a debuff against the target's debuff resistance. Only rolls when the target
+ * has some, so resistance-free fights keep their RNG stream. Returns true (and reports
+ * `debuff_resisted`) when the debuff is shrugged off.
+ */
+function resistsDebuff(
+  state: PartyCombatState,
+  target: PartyCombatant | CombatMonster,
+  def: StatusEffectDefinition,
+  events?: CombatEvent[],
+): boolean {
+  const resistance = getStatusResistance(target, 'debuffResistance');
+  if (resistance <= 0 || nextRandom(state.rng) >= resistance) return false;
+  events?.push({ type: 'debuff_resisted', target: refOf(target), status: def.id, effectName: def.name });
+  return true;
+}
+
+/**
+ * Try to stun a target. `chance` is the stun's own chance (null = guaranteed, e.g. monster
+ * stun skills), scaled down by the target's stun resistance and diminishing returns.
+ * Rolls whenever the stun's own chance would have (guaranteed stuns only roll once
+ * scaled below 1). Reports `stun` on success and `stun_resisted` when resistance or
+ * diminishing returns turned a landing roll into a miss. Returns whether it landed.
+ */
+function tryStun(
+  state: PartyCombatState,
+  source: PartyCombatant | CombatMonster,
+  target: PartyCombatant | CombatMonster,
+  chance: number | null,
+  events: CombatEvent[],
+  skillName?: string,
+): boolean {
+  const base = chance ?? 1;
+  const afterResistance = base * (1 - getStatusResistance(target, 'stunResistance'));
+  const effective = afterResistance * STUN_DR_MULTIPLIERS[Math.min(target.stunDrStacks, STUN_DR_MULTIPLIERS.length - 1)];
+  const roll = chance === null && effective >= 1 ? 0 : nextRandom(state.rng);
+  if (roll < effective) {
+    target.stunTurns = Math.max(target.stunTurns, 1);
+    target.stunDrStacks++;
+    target.stunDrTurns = STUN_DR_WINDOW;
+    events.push({ type: 'stun', source: refOf(source), target: refOf(target), skillName });
+    return true;
+  }
+  if (roll < base) {
+    events.push({ type: 'stun_resisted', target: refOf(target), reason: roll < afterResistance ? 'diminishing' : 'resistance', skillName });
+  }
+  return false;
+}
+
+/** Count down a combatant's diminishing-returns window at the start of its turn. */
+function tickStunDiminishing(entity: PartyCombatant | CombatMonster): void {
+  if (entity.stunDrTurns <= 0) return;
+  entity.stunDrTurns--;
+  if (entity.stunDrTurns === 0) entity.stunDrStacks = 0;
+}
+
+/** Drop statuses that only last until the bearer's next action. */
+function consumeOnActionStatuses(entity: PartyCombatant | CombatMonster, events: CombatEvent[]): void {
+  for (let i = entity.statuses.length - 1; i >= 0; i--) {
+    const s = entity.statuses[i];
+    if (!s.definition.expiresOnAction) continue;
+    entity.statuses.splice(i, 1);
+    events.push({ type: s.definition.kind === 'buff' ? 'buff_expired' : 'debuff_expired', target: refOf(entity), status: s.effectId });
+  }
 }
 
 /** Check if a player has a passive option of the given kind equipped (any skill, any option). */
@@ -417,7 +602,7 @@ function getHealPowerMultiplier(player: PartyCombatant): number {
 /** Get the effective cooldown for a player's active skill.
  *  cooldown_reduction passives without `partyWide` only affect their own caster (Bard Tempo).
  *  passives with `partyWide: true` apply to every party member (Bard Encore). */
-function getEffectiveCooldown(player: PartyCombatant, skill: SkillDefinition, allPlayers: PartyCombatant[]): number {
+export function getEffectiveCooldown(player: PartyCombatant, skill: SkillDefinition, allPlayers: PartyCombatant[]): number {
   let cdReduction = 0;
 
   // Self CDR — any cooldown_reduction passive on the caster applies
@@ -453,7 +638,10 @@ function hasArcaneSurge(player: PartyCombatant): boolean {
 
 // --- Monster Resistance ---
 
-/** Apply monster resistance to incoming damage. Percent first, then flat, min 1. */
+/**
+ * Apply a per-type resistance list (a monster's, or a player's from gear and sets)
+ * to incoming damage. Percent first, then flat, min 0.
+ */
 export function applyMonsterResistance(
   damage: number,
   damageType: DamageType,
@@ -468,24 +656,53 @@ export function applyMonsterResistance(
   return Math.max(0, Math.floor(damage));
 }
 
+/** Apply a player's per-type resistances (summed from gear and set breakpoints). */
+function applyPlayerTypeResistance(player: PartyCombatant, damage: number, damageType: DamageType): number {
+  const resistances = player.equipBonuses?.resistances ?? [];
+  return resistances.length > 0 ? applyMonsterResistance(damage, damageType, resistances) : damage;
+}
+
+/**
+ * Flat reduction a player gets against a damage type:
+ *   physical → equip DR + Knight Guard
+ *   spell    → equip MR + Priest Bless
+ *   holy     → Priest Bless only
+ */
+function computeTypeReduction(state: PartyCombatState, player: PartyCombatant, damageType: DamageType): number {
+  if (damageType === 'physical') {
+    return computeEquipReduction(state.rng, player.equipBonuses) + getPhysicalReduction(player, state.players);
+  }
+  if (SPELL_DAMAGE_TYPES.includes(damageType)) {
+    return computeEquipMagicReduction(state.rng, player.equipBonuses) + getMagicalReduction(state.players);
+  }
+  return getMagicalReduction(state.players);
+}
+
 // --- Combat Helpers ---
 
-function computeAttackBonus(equipBonuses?: EquipmentBonuses): number {
+/** Identify a combatant in a combat event. */
+function refOf(entity: PartyCombatant | CombatMonster): CombatantRef {
+  return 'username' in entity
+    ? { side: 'player', pos: entity.gridPosition, name: entity.username }
+    : { side: 'monster', pos: entity.gridPosition, name: entity.name };
+}
+
+function computeAttackBonus(rng: RngState, equipBonuses?: EquipmentBonuses): number {
   if (!equipBonuses || equipBonuses.bonusAttackMax <= 0) return 0;
   const { bonusAttackMin, bonusAttackMax } = equipBonuses;
-  return bonusAttackMin + Math.floor(Math.random() * (bonusAttackMax - bonusAttackMin + 1));
+  return bonusAttackMin + Math.floor(nextRandom(rng) * (bonusAttackMax - bonusAttackMin + 1));
 }
 
-function computeEquipReduction(equipBonuses?: EquipmentBonuses): number {
+function computeEquipReduction(rng: RngState, equipBonuses?: EquipmentBonuses): number {
   if (!equipBonuses || equipBonuses.damageReductionMax <= 0) return 0;
   const { damageReductionMin, damageReductionMax } = equipBonuses;
-  return damageReductionMin + Math.floor(Math.random() * (damageReductionMax - damageReductionMin + 1));
+  return damageReductionMin + Math.floor(nextRandom(rng) * (damageReductionMax - damageReductionMin + 1));
 }
 
-function computeEquipMagicReduction(equipBonuses?: EquipmentBonuses): number {
+function computeEquipMagicReduction(rng: RngState, equipBonuses?: EquipmentBonuses): number {
   if (!equipBonuses || equipBonuses.magicReductionMax <= 0) return 0;
   const { magicReductionMin, magicReductionMax } = equipBonuses;
-  return magicReductionMin + Math.floor(Math.random() * (magicReductionMax - magicReductionMin + 1));
+  return magicReductionMin + Math.floor(nextRandom(rng) * (magicReductionMax - magicReductionMin + 1));
 }
 
 /** Compute damage for a player's normal attack or active skill (base + equipment + variance + rally + crit + conditionals). */
@@ -493,10 +710,10 @@ function computePlayerDamage(
   player: PartyCombatant,
   state: PartyCombatState,
   target?: CombatMonster,
-  options?: { isActive?: boolean; skipCrit?: boolean },
-): number {
-  const variance = Math.floor(Math.random() * 5) - 2;
-  const attackBonus = computeAttackBonus(player.equipBonuses);
+  options?: { isActive?: boolean; skipCrit?: boolean; damageType?: DamageType },
+): { damage: number; crit: boolean } {
+  const variance = Math.floor(nextRandom(state.rng) * 5) - 2;
+  const attackBonus = computeAttackBonus(state.rng, player.equipBonuses);
   let damage = Math.max(1, player.baseDamage + variance + attackBonus);
 
   // Intensify: -50% auto, +50% active
@@ -514,10 +731,8 @@ function computePlayerDamage(
     damage = Math.max(1, Math.floor(damage * (1 + state.rallyMultiplier)));
   }
 
-  // Apply War Song permanent bonus
-  if (state.warSongBonus > 0) {
-    damage = Math.max(1, Math.floor(damage * (1 + state.warSongBonus)));
-  }
+  // Apply the attacker's damage-dealt statuses (War Song, …)
+  damage = Math.max(1, scaleByStatuses(damage, player.statuses, 'damageDealt'));
 
   // Apply set damagePercent — additive multiplier on top of base damage.
   const setDmgPct = player.setBonuses?.damagePercent ?? 0;
@@ -562,77 +777,82 @@ function computePlayerDamage(
       }
     }
 
-    // Sunder marks on target — each application accumulated its own skill's multiplier
-    if (target.sunderMark && target.sunderMark.stacks > 0) {
-      const sunderBonus = target.sunderMark.totalBonus ?? target.sunderMark.stacks * 0.25;
-      damage = Math.floor(damage * (1 + sunderBonus));
-    }
-
-    // Scorch debuff on target
-    if (player.playerDamageType === 'magical' || player.playerDamageType === 'holy') {
-      for (const debuff of target.debuffs) {
-        if (debuff.type === 'scorch') {
-          damage = Math.floor(damage * (1 + debuff.value));
-        }
-      }
-    }
+    // Damage-taken statuses on target (Sunder, Scorch, …) — filtered by our damage type
+    damage = scaleByStatuses(damage, target.statuses, 'damageTaken', options?.damageType ?? player.playerDamageType);
   }
 
   // Apply crit
+  let crit = false;
   if (!options?.skipCrit) {
     const critChance = getCritChance(player);
-    if (critChance > 0 && Math.random() < critChance) {
+    if (critChance > 0 && nextRandom(state.rng) < critChance) {
       damage = Math.floor(damage * getCritMultiplier(player));
+      crit = true;
     }
   }
 
-  return damage;
+  return { damage, crit };
 }
 
-/** Apply damage to a monster, including Blessed Arms holy bonus and Overflow splash. */
+/**
+ * Apply damage to a monster, including status bonus damage (Blessed Arms) and Overflow splash.
+ * `damageType` defaults to the player's attack type; skills that declare their own pass it.
+ */
 function applyDamageToMonster(
   damage: number,
   target: CombatMonster,
   player: PartyCombatant,
   state: PartyCombatState,
-  logEntries: string[],
+  events: CombatEvent[],
   isAoe: boolean,
   skillName?: string,
+  crit = false,
+  damageType: DamageType = player.playerDamageType,
 ): void {
+  if (blockedByImmunity(target, player, events)) return;
+
   // Pre-resistance damage — used for DoT calculations so they reflect the player's
   // raw output, not the post-MR hit (which would double-dip resistance).
   const preMrDamage = damage;
 
-  // Apply monster resistance to player's damage type
+  // Apply monster resistance to the hit's damage type
   if (target.resistances.length > 0) {
-    damage = applyMonsterResistance(damage, player.playerDamageType, target.resistances);
+    damage = applyMonsterResistance(damage, damageType, target.resistances);
   }
 
-  // Add Blessed Arms holy damage (also subject to resistance)
-  let holyDamage = state.blessedArmsDamage;
-  if (holyDamage > 0 && target.resistances.length > 0) {
-    holyDamage = applyMonsterResistance(holyDamage, 'holy', target.resistances);
+  // Add status bonus damage (Blessed Arms holy, …) and gear affix bonus damage — each type resisted on its own
+  const bonusByType = statusBonusDamage(player.statuses);
+  for (const b of player.equipBonuses?.bonusDamage ?? []) {
+    bonusByType.set(b.damageType, (bonusByType.get(b.damageType) ?? 0) + b.amount);
+  }
+  const bonus: BonusDamage[] = [];
+  let rawBonus = 0;
+  for (const [bonusType, raw] of bonusByType) {
+    rawBonus += raw;
+    const amount = target.resistances.length > 0 ? applyMonsterResistance(raw, bonusType, target.resistances) : raw;
+    if (amount > 0) bonus.push({ damageType: bonusType, amount });
   }
-  const totalDamage = damage + holyDamage;
+  const totalDamage = damage + bonus.reduce((sum, b) => sum + b.amount, 0);
   const prevHp = target.currentHp;
   target.currentHp = Math.max(0, target.currentHp - totalDamage);
 
-  const verb = skillName ? `uses ${skillName} on` : 'hits';
-  if (holyDamage > 0) {
-    logEntries.push(`${player.username} ${verb} ${target.name} for ${damage} ${player.playerDamageType} + ${holyDamage} holy damage`);
-  } else {
-    logEntries.push(`${player.username} ${verb} ${target.name} for ${damage} ${player.playerDamageType} damage`);
-  }
+  events.push({
+    type: 'damage',
+    source: refOf(player),
+    target: refOf(target),
+    cause: skillName ? 'skill' : 'attack',
+    skillName,
+    amount: totalDamage,
+    damageType,
+    bonus: bonus.length > 0 ? bonus : undefined,
+    crit,
+    mitigation: { ...NO_MITIGATION, resisted: preMrDamage + rawBonus - totalDamage },
+  });
 
   // Apply Scorch debuff if Mage has it equipped
   if (hasPassive(player, 'scorch')) {
     const scorchValue = getPassiveValue(player, 'scorch');
-    const existing = target.debuffs.find(d => d.type === 'scorch');
-    if (existing) {
-      existing.duration = 2;
-    } else {
-      target.debuffs.push({ type: 'scorch', value: scorchValue, duration: 2 });
-    }
+    applyStatusEffect(state, target, 'scorch', { sourceUsername: player.username, modifiers: { damageTaken: scorchValue } }, events);
   }
 
   // Apply Ignite DoT on auto-attacks — uses pre-MR damage so the stack value reflects raw mage output.
@@ -650,7 +870,7 @@ function applyDamageToMonster(
             name: skill.name.toLowerCase(),
             damagePerTick: Math.max(1, perTick),
             ticksRemaining: 1,
-            damageType: 'magical',
+            damageType: 'arcane',
             permanent: true,
           });
         }
@@ -668,25 +888,42 @@ function applyDamageToMonster(
     }
   }
 
-  if (target.currentHp <= 0) {
-    logEntries.push(`${target.name} defeated!`);
+  const killed = target.currentHp <= 0;
+  if (killed) {
+    events.push({ type: 'kill', source: refOf(player), target: refOf(target), byDot: false });
 
     // Overflow: overkill splashes to random enemy (single-target only, not AoE)
     if (!isAoe && hasPassive(player, 'overflow')) {
-      const actualOverkill = totalDamage - prevHp;
-      if (actualOverkill > 0) {
-        const others = state.monsters.filter(m => m.currentHp > 0 && m !== target);
-        if (others.length > 0) {
-          const splashTarget = others[Math.floor(Math.random() * others.length)];
-          splashTarget.currentHp = Math.max(0, splashTarget.currentHp - actualOverkill);
-          logEntries.push(`Overflow! ${actualOverkill} damage splashes to ${splashTarget.name}`);
-          if (splashTarget.currentHp <= 0) {
-            logEntries.push(`${splashTarget.name} defeated!`);
-          }
-        }
-      }
+      applyOverflow(player, target, totalDamage - prevHp, state, events);
     }
   }
+
+  // Scripted triggers run last so their own hits can't double-report this kill
+  fireTriggers(state, 'on_hit', [player], target, events);
+  if (crit) fireTriggers(state, 'on_crit', [player], target, events);
+  if (killed) fireTriggers(state, 'on_kill', [player], target, events);
+}
+
+/** Overflow: splash a kill's overkill onto a random other living enemy. */
+function applyOverflow(
+  player: PartyCombatant,
+  killed: CombatMonster,
+  overkill: number,
+  state: PartyCombatState,
+  events: CombatEvent[],
+): void {
+  if (overkill <= 0) return;
+  const others = state.monsters.filter(m => m.currentHp > 0 && m !== killed && m.immuneTurns <= 0);
+  if (others.length === 0) return;
+  const splashTarget = others[Math.floor(nextRandom(state.rng) * others.length)];
+  splashTarget.currentHp = Math.max(0, splashTarget.currentHp - overkill);
+  events.push({
+    type: 'damage', source: refOf(player), target: refOf(splashTarget), cause: 'overflow',
+    amount: overkill, damageType: null, crit: false, mitigation: { ...NO_MITIGATION },
+  });
+  if (splashTarget.currentHp <= 0) {
+    events.push({ type: 'kill', source: refOf(player), target: refOf(splashTarget), byDot: false });
+  }
 }
 
 /** Apply healing to a player, factoring in Devotion, Martyr, and Tenacity. */
@@ -694,7 +931,7 @@ function applyHeal(
   healer: PartyCombatant,
   target: PartyCombatant,
   baseAmount: number,
-  logEntries: string[],
+  events: CombatEvent[],
   skillName: string,
 ): number {
   let amount = baseAmount;
@@ -715,32 +952,40 @@ function applyHeal(
   }
 
   // Cap at missing HP
+  const uncapped = amount;
   amount = Math.min(amount, target.maxHp - target.currentHp);
   target.currentHp += amount;
 
   if (amount > 0) {
-    logEntries.push(`${healer.username} uses ${skillName} on ${target.username} for ${amount} HP`);
+    events.push({ type: 'heal', source: refOf(healer), target: refOf(target), skillName, amount, overheal: uncapped - amount });
   }
 
   return amount;
 }
 
-/** Process DoTs and HoTs on a combatant at the start of their turn. */
-function processTickEffects(entity: PartyCombatant | CombatMonster, logEntries: string[], state?: PartyCombatState): void {
-  // Process DoTs — group same-name effects, apply resistance to grouped total
-  if (entity.dots.length > 0) {
-    const name = 'username' in entity ? (entity as PartyCombatant).username : (entity as CombatMonster).name;
+/** Process DoTs, HoTs and status ticks/expiry on a combatant at the start of their turn. */
+function processTickEffects(entity: PartyCombatant | CombatMonster, events: CombatEvent[], state?: PartyCombatState): void {
+  const ref = refOf(entity);
+  const damageStatuses = entity.statuses.filter(s => s.definition.tick?.kind === 'damage' && s.tickAmount > 0);
+
+  // Process DoTs and damage-ticking statuses — group same-name effects, apply resistance to grouped total
+  if (entity.dots.length > 0 || damageStatuses.length > 0) {
     const isMonster = !('username' in entity);
-    const grouped = new Map<string, { totalDamage: number; count: number; damageType: DamageType }>();
-    for (let i = entity.dots.length - 1; i >= 0; i--) {
-      const dot = entity.dots[i];
-      const group = grouped.get(dot.name);
+    const grouped = new Map<string, { totalDamage: number; count: number; damageType: DamageType; rawBySource: Record<string, number> }>();
+    const addToGroup = (name: string, amount: number, count: number, damageType: DamageType, source: string) => {
+      let group = grouped.get(name);
       if (group) {
-        group.totalDamage += dot.damagePerTick;
-        group.count++;
+        group.totalDamage += amount;
+        group.count += count;
       } else {
-        grouped.set(dot.name, { totalDamage: dot.damagePerTick, count: 1, damageType: dot.damageType });
+        group = { totalDamage: amount, count, damageType, rawBySource: {} };
+        grouped.set(name, group);
       }
+      group.rawBySource[source] = (group.rawBySource[source] ?? 0) + amount;
+    };
+    for (let i = entity.dots.length - 1; i >= 0; i--) {
+      const dot = entity.dots[i];
+      addToGroup(dot.name, dot.damagePerTick, 1, dot.damageType, dot.sourceUsername);
       if (!dot.permanent) {
         dot.ticksRemaining--;
         if (dot.ticksRemaining <= 0) {
@@ -748,43 +993,57 @@ function processTickEffects(entity: PartyCombatant | CombatMonster, logEntries:
         }
       }
     }
-    for (const [dotName, { totalDamage, count, damageType }] of grouped) {
+    for (const s of damageStatuses) {
+      addToGroup(s.definition.name, s.tickAmount, s.stacks, s.definition.tick?.damageType ?? 'physical', s.sourceUsername);
+    }
+    for (const [dotName, { totalDamage, count, damageType, rawBySource }] of grouped) {
+      if (isMonster && blockedByImmunity(entity as CombatMonster, null, events)) continue;
       let damage = totalDamage;
+      const mitigation: DamageMitigation = { ...NO_MITIGATION };
       if (isMonster) {
         // Monster receiving DoT — apply monster resistances at tick time so mid-fight changes are honored
         damage = applyMonsterResistance(damage, damageType, (entity as CombatMonster).resistances);
+        mitigation.resisted = totalDamage - damage;
       } else if (state) {
         // Player receiving DoT — mirror the direct-hit reduction rules:
         //   physical → equip DR + Knight Guard
-        //   magical  → equip MR + Priest Bless
+        //   spell    → equip MR + Priest Bless (arcane and the elemental schools)
         //   holy     → Priest Bless only (equipment MR doesn't reduce holy)
-        // Set damageResistancePercent applies first, before flat reductions.
+        // Set damageResistancePercent applies first, then per-type gear resistance,
+        // then flat reductions.
         const player = entity as PartyCombatant;
         const resistPct = player.setBonuses?.damageResistancePercent ?? 0;
         if (resistPct > 0) {
           damage = Math.max(0, Math.floor(damage * (1 - resistPct / 100)));
+          mitigation.setResisted = totalDamage - damage;
         }
-        let reduction = 0;
-        if (damageType === 'physical') {
-          reduction += computeEquipReduction(player.equipBonuses);
-          reduction += getPhysicalReduction(player, state.players);
-        } else if (damageType === 'magical') {
-          reduction += computeEquipMagicReduction(player.equipBonuses);
-          reduction += getMagicalReduction(state.players);
-        } else {
-          reduction += getMagicalReduction(state.players);
-        }
+        const beforeTypeResist = damage;
+        damage = applyPlayerTypeResistance(player, damage, damageType);
+        mitigation.resisted = beforeTypeResist - damage;
+        const reduction = computeTypeReduction(state, player, damageType);
+        mitigation.reduced = Math.min(damage, reduction);
         damage = Math.max(0, damage - reduction);
       }
+      // DoT resistance (tenacity) comes off last, after type mitigation
+      const dotResistance = getStatusResistance(entity, 'dotResistance');
+      if (dotResistance > 0 && damage > 0) {
+        const resisted = Math.floor(damage * dotResistance);
+        damage -= resisted;
+        mitigation.resisted += resisted;
+      }
+      const prevHp = entity.currentHp;
       entity.currentHp = Math.max(0, entity.currentHp - damage);
-      const stacks = count > 1 ? ` (x${count})` : '';
-      logEntries.push(`${name} receives ${damage} ${damageType} damage from ${dotName}${stacks}!`);
+      events.push({
+        type: 'dot_tick', target: ref, effectName: dotName, stacks: count,
+        damageType, amount: damage, rawBySource, mitigation,
+      });
       // Martyr: any damage to a Knight (including DoTs) triggers a heal-bonus stack
       if (!isMonster && state && damage > 0) {
         const player = entity as PartyCombatant;
         if (player.className === 'Knight') {
           triggerMartyr(state, player);
         }
+        fireTriggers(state, 'ally_below_hp', state.players, player, events, prevHp);
       }
     }
   }
@@ -793,65 +1052,308 @@ function processTickEffects(entity: PartyCombatant | CombatMonster, logEntries:
   if ('hots' in entity && 'maxHp' in entity && 'username' in entity) {
     const player = entity as PartyCombatant;
     if (player.hots.length > 0) {
-      const grouped = new Map<string, { totalHeal: number; count: number }>();
+      type HotGroup = { totalHeal: number; count: number; overheal: number; bySource: Record<string, number>; overhealBySource: Record<string, number> };
+      const grouped = new Map<string, HotGroup>();
       for (let i = player.hots.length - 1; i >= 0; i--) {
         const hot = player.hots[i];
         const healAmount = Math.min(hot.healPerTick, player.maxHp - player.currentHp);
+        const overheal = hot.healPerTick - healAmount;
         player.currentHp += healAmount;
+        let group = grouped.get(hot.name);
+        if (!group) {
+          group = { totalHeal: 0, count: 0, overheal: 0, bySource: {}, overhealBySource: {} };
+          grouped.set(hot.name, group);
+        }
         if (healAmount > 0) {
-          const group = grouped.get(hot.name);
-          if (group) {
-            group.totalHeal += healAmount;
-            group.count++;
-          } else {
-            grouped.set(hot.name, { totalHeal: healAmount, count: 1 });
-          }
+          group.totalHeal += healAmount;
+          group.count++;
+          group.bySource[hot.sourceUsername] = (group.bySource[hot.sourceUsername] ?? 0) + healAmount;
+        }
+        if (overheal > 0) {
+          group.overheal += overheal;
+          group.overhealBySource[hot.sourceUsername] = (group.overhealBySource[hot.sourceUsername] ?? 0) + overheal;
         }
         hot.ticksRemaining--;
         if (hot.ticksRemaining <= 0) {
           player.hots.splice(i, 1);
         }
       }
-      for (const [hotName, { totalHeal, count }] of grouped) {
-        const stacks = count > 1 ? ` (x${count})` : '';
-        logEntries.push(`${player.username} heals for ${totalHeal} HP from ${hotName}${stacks}`);
+      for (const [hotName, { totalHeal, count, overheal, bySource, overhealBySource }] of grouped) {
+        if (totalHeal === 0 && overheal === 0) continue;
+        events.push({
+          type: 'hot_tick', target: ref, effectName: hotName, stacks: count,
+          amount: totalHeal, overheal, bySource, overhealBySource,
+        });
       }
     }
   }
 
-  // Tick down debuff durations
-  if ('debuffs' in entity) {
-    for (let i = entity.debuffs.length - 1; i >= 0; i--) {
-      entity.debuffs[i].duration--;
-      if (entity.debuffs[i].duration <= 0) {
-        entity.debuffs.splice(i, 1);
-      }
+  // Heal-ticking statuses (regeneration, …) — one event per status, credited to its applier
+  for (const s of entity.statuses) {
+    if (s.definition.tick?.kind !== 'heal' || s.tickAmount <= 0 || entity.currentHp <= 0) continue;
+    const healAmount = Math.min(s.tickAmount, entity.maxHp - entity.currentHp);
+    const overheal = s.tickAmount - healAmount;
+    entity.currentHp += healAmount;
+    if (healAmount === 0 && overheal === 0) continue;
+    events.push({
+      type: 'hot_tick', target: ref, effectName: s.definition.name, stacks: s.stacks,
+      amount: healAmount, overheal,
+      bySource: healAmount > 0 ? { [s.sourceUsername]: healAmount } : {},
+      overhealBySource: overheal > 0 ? { [s.sourceUsername]: overheal } : {},
+    });
+  }
+
+  // Tick down status durations (-1 = rest of combat)
+  for (let i = entity.statuses.length - 1; i >= 0; i--) {
+    const s = entity.statuses[i];
+    if (s.duration <= 0) continue;
+    s.duration--;
+    if (s.duration <= 0) {
+      events.push({ type: s.definition.kind === 'buff' ? 'buff_expired' : 'debuff_expired', target: ref, status: s.effectId });
+      entity.statuses.splice(i, 1);
     }
   }
+}
+
+// --- Scripted triggers (triggered_effect) ---
+
+/** Battles resolving a trigger's action right now — an action never fires further triggers. */
+const resolvingTriggers = new WeakSet<PartyCombatState>();
+
+/** Depth on the combatant's own side: players face the enemy from col 2, monsters from col 0. */
+function getGridDepth(entity: PartyCombatant | CombatMonster): GridDepth {
+  const col = getCol(entity.gridPosition);
+  const fromFront = 'username' in entity ? 2 - col : col;
+  return fromFront === 0 ? 'front' : fromFront === 1 ? 'middle' : 'back';
+}
+
+/** Whether every condition set on the option holds for the trigger's subject. */
+function matchesTriggerConditions(effect: PassiveEffect, subject: PartyCombatant | CombatMonster): boolean {
+  const isPlayer = 'username' in subject;
+  if (effect.targetClass && !(isPlayer && subject.className === effect.targetClass)) return false;
+  if (effect.tag && (isPlayer || !(subject.tags ?? []).includes(effect.tag))) return false;
+  const hp = subject.maxHp > 0 ? subject.currentHp / subject.maxHp : 0;
+  if (effect.hpMin !== undefined && hp < effect.hpMin) return false;
+  if (effect.hpMax !== undefined && hp > effect.hpMax) return false;
+  if (effect.gridDepth && getGridDepth(subject) !== effect.gridDepth) return false;
+  return true;
+}
 
-  // Tick down buff durations (monsters only)
-  if ('buffs' in entity) {
-    const monster = entity as CombatMonster;
-    for (let i = monster.buffs.length - 1; i >= 0; i--) {
-      if (monster.buffs[i].duration > 0) {
-        monster.buffs[i].duration--;
-        if (monster.buffs[i].duration <= 0) {
-          monster.buffs.splice(i, 1);
+/**
+ * Fire every `triggered_effect` option with this trigger on the living `owners`.
+ * `subject` defaults to each owner; `prevHp` is the subject's HP before the
+ * damage that raised an `ally_below_hp` check (the option's threshold must have
+ * been crossed downward). Options without a chance never roll the RNG.
+ */
+function fireTriggers(
+  state: PartyCombatState,
+  trigger: EffectTrigger,
+  owners: PartyCombatant[],
+  subject: PartyCombatant | CombatMonster | null,
+  events: CombatEvent[],
+  prevHp?: number,
+): void {
+  if (resolvingTriggers.has(state)) return;
+  resolvingTriggers.add(state);
+  try {
+    for (const owner of owners) {
+      if (owner.currentHp <= 0) continue;
+      for (const skill of owner.equippedSkills) {
+        for (const effect of skill?.passiveEffects ?? []) {
+          if (effect.kind !== 'triggered_effect' || effect.trigger !== trigger) continue;
+          const about = subject ?? owner;
+          if (trigger === 'ally_below_hp') {
+            const threshold = (effect.hpThreshold ?? 0.50) * about.maxHp;
+            if (prevHp === undefined || prevHp < threshold || about.currentHp >= threshold) continue;
+          }
+          if (!matchesTriggerConditions(effect, about)) continue;
+          if (effect.chance !== undefined && effect.chance < 1 && nextRandom(state.rng) >= effect.chance) continue;
+          runTriggerAction(state, owner, skill!, effect, about, events);
         }
       }
     }
+  } finally {
+    resolvingTriggers.delete(state);
+  }
+}
+
+/** Carry out a fired option's action. Actions with nobody valid to land on do nothing. */
+function runTriggerAction(
+  state: PartyCombatState,
+  owner: PartyCombatant,
+  skill: SkillDefinition,
+  effect: PassiveEffect,
+  subject: PartyCombatant | CombatMonster,
+  events: CombatEvent[],
+): void {
+  const value = effect.actionValue ?? 0;
+  const actionTarget = effect.actionTarget ?? 'subject';
+  const livingPlayers = state.players.filter(p => p.currentHp > 0);
+  const livingMonsters = state.monsters.filter(m => m.currentHp > 0);
+  let targets: (PartyCombatant | CombatMonster)[] = [];
+  if (actionTarget === 'subject') targets = subject.currentHp > 0 ? [subject] : [];
+  else if (actionTarget === 'self') targets = [owner];
+  else if (actionTarget === 'lowest_ally') targets = [findLowestPercentHpAlly(state.players)].filter(p => p !== null);
+  else if (actionTarget === 'party') targets = livingPlayers;
+  else targets = livingMonsters;
+  const allies = targets.filter((t): t is PartyCombatant => 'username' in t);
+  const enemies = targets.filter((t): t is CombatMonster => !('username' in t));
+
+  switch (effect.action) {
+    case 'damage': {
+      const damageType = skill.damageType ?? owner.playerDamageType;
+      for (const target of enemies) {
+        const roll = computePlayerDamage(owner, state, target, { skipCrit: true, damageType });
+        const damage = Math.max(1, Math.floor(roll.damage * value));
+        // Counted as an area hit so Ignite and Overflow don't chain off scripted damage
+        applyDamageToMonster(damage, target, owner, state, events, true, skill.name, false, damageType);
+      }
+      break;
+    }
+    case 'heal': {
+      const amount = Math.floor(owner.level * value);
+      if (amount <= 0) break;
+      for (const target of allies) applyHeal(owner, target, amount, events, skill.name);
+      break;
+    }
+    case 'shield': {
+      const amount = Math.floor(owner.level * value);
+      for (const target of allies) {
+        if (amount <= target.damageShield) continue;
+        target.damageShield = amount;
+        target.damageShieldSource = owner.username;
+        events.push({ type: 'buff_applied', source: refOf(owner), target: refOf(target), status: 'shield', skillName: skill.name, amount });
+      }
+      break;
+    }
+    case 'apply_status': {
+      const def = effect.statusEffectId
+        ? state.statusEffects[effect.statusEffectId] ?? SEED_STATUS_EFFECTS[effect.statusEffectId]
+        : undefined;
+      if (!def) break;
+      const duration = effect.statusDuration ?? def.duration;
+      for (const target of targets) {
+        if (!applyStatusEffect(state, target, def.id, { sourceUsername: owner.username, duration: effect.statusDuration }, events)) continue;
+        events.push(def.kind === 'buff'
+          ? { type: 'buff_applied', source: refOf(owner), target: refOf(target), status: def.id, effectName: def.name, skillName: skill.name, duration }
+          : { type: 'debuff_applied', source: refOf(owner), target: refOf(target), status: def.id, effectName: def.name, skillName: skill.name, duration });
+      }
+      break;
+    }
+    case 'modify_cooldown': {
+      // Actives fire when attackCount is a multiple of the cooldown, so bumping the
+      // counter brings the next cast closer (or pushes it back when negative).
+      const shift = Math.round(value);
+      for (const target of allies) target.attackCount = Math.max(0, target.attackCount + shift);
+      break;
+    }
   }
 }
 
 // --- Party Combat ---
 
+/** The character-sheet inputs a combatant is derived from (live session or hypothetical sim member). */
+export interface CombatantLoadout {
+  username: string;
+  className: ClassName;
+  level: number;
+  /** Equipment record (slot → item ID); 2H weapons occupy both mainhand and offhand. */
+  equipment: Record<string, string | null>;
+  /** Resolved equipped skill definitions (indexed by slot). */
+  equippedSkills: (SkillDefinition | null)[];
+  gridPosition: PartyGridPosition;
+}
+
+/**
+ * Derive a fresh PartyCombatant from class, level, equipment and skills: class HP/damage,
+ * equipment bonuses, and class-filtered set bonuses (flat DR/MR/attack and per-type
+ * resistances merged into `equipBonuses`, flat/percent HP folded into max HP). A weapon
+ * that declares a damage type overrides the class's attack type.
+ */
+export function buildPartyCombatant(
+  loadout: CombatantLoadout,
+  items: Record<string, ItemDefinition>,
+  sets: Record<string, SetDefinition>,
+): PartyCombatant {
+  const { username, className, level, equipment, equippedSkills, gridPosition } = loadout;
+  const baseMaxHp = calculateMaxHp(level, className);
+  const rawEquipBonuses = computeEquipmentBonuses(equipment, items, level);
+
+  // Multiplicative set bonuses (damagePercent, damageResistancePercent, cooldownReduction)
+  // ride along on `setBonuses` so the combat engine can consume them at the right time.
+  const setResult = computeActiveSetBonuses(equipment, sets, className);
+  const equipBonuses = mergeSetBonusesIntoEquip(rawEquipBonuses, setResult.bonuses);
+  const flatHp = setResult.bonuses.flatHp ?? 0;
+  const percentHp = setResult.bonuses.percentHp ?? 0;
+  const maxHp = Math.max(1, Math.floor((baseMaxHp + flatHp) * (1 + percentHp / 100)));
+
+  return {
+    username,
+    maxHp,
+    currentHp: maxHp,
+    baseDamage: calculateBaseDamage(level, className),
+    playerDamageType: getWeaponDamageType(equipment, items) ?? CLASS_DEFINITIONS[className].damageType,
+    equipBonuses,
+    setBonuses: setResult.bonuses,
+    gridPosition,
+    className,
+    level,
+    equippedSkills,
+    attackCount: 0,
+    stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
+    dots: [],
+    hots: [],
+    damageShield: 0,
+    statuses: [],
+    consecutiveHits: 0,
+    lastTargetId: '',
+    hasResurrected: false,
+    martyrBonus: 0,
+    braceActive: false,
+    braceDamageTaken: 0,
+    interceptActive: false,
+    activeSkillCount: 0,
+  };
+}
+
 /**
  * Create initial party combat state.
  * Players and monsters are sorted into turn order: front-to-back, top-to-bottom.
+ * Pass `rng` to make every roll in the battle reproducible (typically the same
+ * stream that rolled the encounter); omitted = a fresh randomly-seeded stream.
+ * `statusEffects` is the status effect registry skills resolve ids against;
+ * omitted = the built-in seeds.
  */
+/** Fresh per-battle combat state for a monster instance. */
+function toCombatMonster(m: MonsterInstance): CombatMonster {
+  return {
+    ...m,
+    stunTurns: m.stunTurns ?? 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
+    dots: [],
+    statuses: [],
+    resistances: m.resistances ?? [],
+    skills: m.skills ?? [],
+    skillCooldowns: m.skillCooldowns ? { ...m.skillCooldowns } : {},
+    attackCount: 0,
+    passive: m.passive,
+    phases: m.phases ?? [],
+    phaseIndex: -1,
+    phaseStartRound: 1,
+    immuneTurns: 0,
+    enrageMultiplier: 1,
+  };
+}
+
 export function createPartyCombatState(
   players: PartyCombatant[],
   monsters: MonsterInstance[],
+  rng: RngState = createRngState(),
+  statusEffects: Record<string, StatusEffectDefinition> = SEED_STATUS_EFFECTS,
+  monsterDefinitions: Record<string, MonsterDefinition> = SEED_MONSTERS,
 ): PartyCombatState {
   // Sort players: front-to-back (high col first), then top-to-bottom (low row first)
   const sortedPlayers = players.map(p => ({
@@ -860,10 +1362,12 @@ export function createPartyCombatState(
     currentHp: p.maxHp,
     attackCount: 0,
     stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
     dots: [] as DotEffect[],
     hots: [] as HotEffect[],
     damageShield: 0,
-    debuffs: [] as CombatDebuff[],
+    statuses: [] as StatusInstance[],
     consecutiveHits: 0,
     lastTargetId: '',
     hasResurrected: false,
@@ -898,30 +1402,15 @@ export function createPartyCombatState(
   const rallyMultiplier = computeRallyMultiplier(sortedPlayers);
   const nimbleDodge = computeNimbleDodge(sortedPlayers);
   const unnerveReduction = computeUnnerveReduction(sortedPlayers);
-  const blessedArmsDamage = computeBlessedArmsDamage(sortedPlayers);
 
   // Sort monsters: front-to-back (low col first), then top-to-bottom (low row first)
-  const sortedMonsters: CombatMonster[] = monsters.map(m => ({
-    ...m,
-    stunTurns: m.stunTurns ?? 0,
-    dots: [],
-    sunderMark: null,
-    debuffs: [],
-    buffs: [],
-    chaosActive: false,
-    lullabyReduction: 0,
-    resistances: m.resistances ?? [],
-    skills: m.skills ?? [],
-    skillCooldowns: m.skillCooldowns ? { ...m.skillCooldowns } : {},
-    attackCount: 0,
-    passive: m.passive,
-  })).sort((a, b) => {
+  const sortedMonsters: CombatMonster[] = monsters.map(toCombatMonster).sort((a, b) => {
     const colDiff = getCol(a.gridPosition) - getCol(b.gridPosition);
     if (colDiff !== 0) return colDiff;
     return getRow(a.gridPosition) - getRow(b.gridPosition);
   });
 
-  return {
+  const state: PartyCombatState = {
     players: sortedPlayers,
     monsters: sortedMonsters,
     tickCount: 0,
@@ -931,17 +1420,32 @@ export function createPartyCombatState(
     turnOrderSize: sortedPlayers.length + sortedMonsters.length,
     roundCount: 1,
     lastAction: null,
+    lastEvents: [],
     rallyMultiplier,
-    warSongBonus: 0,
     nimbleDodge,
     unnerveReduction,
-    blessedArmsDamage,
+    statusEffects,
+    monsterDefinitions,
+    rng,
   };
+
+  // Apply Priest Blessed Arms at combat start
+  applyBlessedArms(state);
+
+  return state;
 }
 
+/** Active options that reach every enemy (or the whole party) rather than one target. */
+const AREA_EFFECT_KINDS: ReadonlySet<ActiveEffectKind> = new Set<ActiveEffectKind>([
+  'stun_aoe', 'damage_aoe_all', 'enemy_debuff_aoe', 'chaos', 'party_buff_permanent',
+]);
+
+/** apply_status targets that reach every enemy or the whole party. */
+const AREA_STATUS_TARGETS: ReadonlySet<StatusTarget> = new Set<StatusTarget>(['all_enemies', 'party']);
+
 /**
  * Execute a player's active skill by running each of its active options in order.
- * Returns log entries generated by the skill.
+ * Returns the events the skill generated, led by its `skill_cast`.
  *
  * The whole cast is a no-op only when EVERY option no-ops; the activeSkillCount
  * (Arcane Surge cadence) is rewound ONLY on a whole-cast no-op so wasted casts
@@ -952,8 +1456,14 @@ function executeActiveSkill(
   player: PartyCombatant,
   skill: SkillDefinition,
   state: PartyCombatState,
-): { logEntries: string[]; action: CombatAction; isNoOp?: boolean } {
-  const logEntries: string[] = [];
+): { events: CombatEvent[]; action: CombatAction; isNoOp?: boolean } {
+  const events: CombatEvent[] = [
+    {
+      type: 'skill_cast', source: refOf(player), skillName: skill.name,
+      area: (skill.activeEffects ?? []).some(e => AREA_EFFECT_KINDS.has(e.kind)
+        || (e.kind === 'apply_status' && e.statusTarget !== undefined && AREA_STATUS_TARGETS.has(e.statusTarget))),
+    },
+  ];
   const effects = skill.activeEffects ?? [];
 
   // Track active skill count for Arcane Surge
@@ -972,7 +1482,7 @@ function executeActiveSkill(
   let anyEffective = false;
 
   for (const effect of effects) {
-    const result = executeActiveEffect(player, skill, effect, state, arcaneMult, logEntries);
+    const result = executeActiveEffect(player, skill, effect, state, arcaneMult, events);
     if (result.isNoOp) continue;
     anyEffective = true;
     if (!firstAction) firstAction = result.action;
@@ -982,16 +1492,16 @@ function executeActiveSkill(
     // Whole-cast no-op: rewind the Arcane Surge cadence so it isn't burned on a
     // wasted cast, and let the caller fall back to a normal attack.
     player.activeSkillCount--;
-    return { logEntries: [], action: noAction(), isNoOp: true };
+    return { events: [], action: noAction(), isNoOp: true };
   }
 
-  return { logEntries, action: firstAction ?? noAction(), isNoOp: false };
+  return { events, action: firstAction ?? noAction(), isNoOp: false };
 }
 
 /**
  * Execute a single active option of a skill. Per-option no-ops do NOT touch
  * activeSkillCount — the caller rewinds only when the whole cast no-ops.
- * Log lines are appended to the shared `logEntries` (no-op options never log).
+ * Events are appended to the shared `events` (no-op options never emit).
  */
 function executeActiveEffect(
   player: PartyCombatant,
@@ -999,9 +1509,10 @@ function executeActiveEffect(
   effect: ActiveEffect,
   state: PartyCombatState,
   arcaneMult: number,
-  logEntries: string[],
+  events: CombatEvent[],
 ): { action: CombatAction; isNoOp: boolean } {
-  const sn = skill.name; // skill name for log messages
+  const sn = skill.name; // skill name for events
+  const damageType = skill.damageType ?? player.playerDamageType; // the skill's school, else the attacker's
 
   const noAction = (): CombatAction => ({
     attackerSide: 'player', attackerPos: player.gridPosition,
@@ -1018,15 +1529,11 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const damage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const damage = roll.damage * arcaneMult;
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
 
-      let stunApplied = false;
-      if (target.currentHp > 0 && Math.random() < (effect.stunChance ?? 0)) {
-        target.stunTurns = 1;
-        stunApplied = true;
-        logEntries.push(`${target.name} is stunned!`);
-      }
+      const stunApplied = target.currentHp > 0 && tryStun(state, player, target, effect.stunChance ?? 0, events);
 
       return {
         isNoOp: false,
@@ -1039,11 +1546,7 @@ function executeActiveEffect(
       let anyStunned = false;
       for (const monster of state.monsters) {
         if (monster.currentHp <= 0) continue;
-        if (Math.random() < (effect.stunChance ?? 0)) {
-          monster.stunTurns = 1;
-          anyStunned = true;
-          logEntries.push(`${player.username}'s ${skill.name} stuns ${monster.name}!`);
-        }
+        if (tryStun(state, player, monster, effect.stunChance ?? 0, events, skill.name)) anyStunned = true;
       }
       if (!anyStunned) return noOp();
 
@@ -1060,7 +1563,7 @@ function executeActiveEffect(
       if (healTarget.currentHp >= healTarget.maxHp) return noOp();
 
       const baseHeal = player.level * (effect.healMultiplier ?? 4);
-      const healAmount = applyHeal(player, healTarget, baseHeal, logEntries, skill.name);
+      const healAmount = applyHeal(player, healTarget, baseHeal, events, skill.name);
       if (healAmount === 0) return noOp();
 
       return {
@@ -1073,7 +1576,8 @@ function executeActiveEffect(
       // Mage Magic Missile: multiple hits at % damage
       const hitCount = effect.hitCount ?? 4;
       const pct = effect.damagePercent ?? 0.30;
-      const rawDamage = computePlayerDamage(player, state, undefined, { isActive: true }) * arcaneMult;
+      const roll = computePlayerDamage(player, state, undefined, { isActive: true, damageType });
+      const rawDamage = roll.damage * arcaneMult;
       const perHitDamage = Math.max(1, Math.floor(rawDamage * pct));
 
       let lastTarget: CombatMonster | null = null;
@@ -1081,7 +1585,7 @@ function executeActiveEffect(
         const target = findTarget(player.gridPosition, state.monsters, false);
         if (!target) break;
         lastTarget = target;
-        applyDamageToMonster(perHitDamage, target, player, state, logEntries, false, sn);
+        applyDamageToMonster(perHitDamage, target, player, state, events, false, sn, roll.crit, damageType);
       }
 
       return {
@@ -1095,8 +1599,9 @@ function executeActiveEffect(
       const target = findLowestHpTarget(state.monsters);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const damage = computePlayerDamage(player, state, target as CombatMonster, { isActive: true }) * arcaneMult;
-      applyDamageToMonster(damage, target as CombatMonster, player, state, logEntries, false, sn);
+      const roll = computePlayerDamage(player, state, target as CombatMonster, { isActive: true, damageType });
+      const damage = roll.damage * arcaneMult;
+      applyDamageToMonster(damage, target as CombatMonster, player, state, events, false, sn, roll.crit, damageType);
 
       return {
         isNoOp: false,
@@ -1107,7 +1612,7 @@ function executeActiveEffect(
     case 'redirect_hit': {
       // Knight Intercept: instead of attacking, redirect next hit on ally to self
       player.interceptActive = true;
-      logEntries.push(`${player.username} braces to intercept the next attack on an ally`);
+      events.push({ type: 'buff_applied', source: refOf(player), target: refOf(player), status: 'intercept', skillName: skill.name });
       return { action: noAction(), isNoOp: false };
     }
 
@@ -1115,7 +1620,7 @@ function executeActiveEffect(
       // Knight Shield Slam: brace, reflect % of damage taken this round
       player.braceActive = true;
       player.braceDamageTaken = 0;
-      logEntries.push(`${player.username} braces behind their shield`);
+      events.push({ type: 'buff_applied', source: refOf(player), target: refOf(player), status: 'brace', skillName: skill.name });
       return { action: noAction(), isNoOp: false };
     }
 
@@ -1124,21 +1629,21 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const damage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const damage = roll.damage * arcaneMult;
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
 
       if (target.currentHp > 0) {
+        // Each application adds its own multiplier, so marks from skills with
+        // different multipliers stack independently instead of re-valuing prior stacks.
         const markMultiplier = effect.markMultiplier ?? 0.25;
-        if (!target.sunderMark) {
-          target.sunderMark = { stacks: 1, totalBonus: markMultiplier };
-        } else {
-          // Accumulate per application so marks from skills with different multipliers
-          // stack independently instead of re-valuing prior stacks.
-          const priorBonus = target.sunderMark.totalBonus ?? target.sunderMark.stacks * 0.25;
-          target.sunderMark.stacks++;
-          target.sunderMark.totalBonus = priorBonus + markMultiplier;
+        const mark = applyStatusEffect(state, target, 'sunder', { sourceUsername: player.username, modifiers: { damageTaken: markMultiplier } }, events);
+        if (mark) {
+          events.push({
+            type: 'debuff_applied', source: refOf(player), target: refOf(target), status: 'sunder', skillName: skill.name,
+            amount: markMultiplier, total: mark.modifiers.damageTaken ?? 0,
+          });
         }
-        logEntries.push(`${target.name} is sundered! (+${Math.round((target.sunderMark.totalBonus ?? 0) * 100)}% incoming damage)`);
       }
 
       return {
@@ -1148,16 +1653,18 @@ function executeActiveEffect(
     }
 
     case 'remove_buffs': {
-      // Knight Dispel: normal damage + remove all buffs from target
+      // Knight Dispel: normal damage + remove all dispellable buffs from target
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const damage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const damage = roll.damage * arcaneMult;
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
 
-      if (target.currentHp > 0 && target.buffs.length > 0) {
-        target.buffs = [];
-        logEntries.push(`${player.username} dispels all buffs from ${target.name}!`);
+      const dispellable = target.statuses.filter(s => s.definition.kind === 'buff' && s.definition.dispellable);
+      if (target.currentHp > 0 && dispellable.length > 0) {
+        target.statuses = target.statuses.filter(s => !dispellable.includes(s));
+        events.push({ type: 'dispel', source: refOf(player), target: refOf(target) });
       }
 
       return {
@@ -1170,16 +1677,17 @@ function executeActiveEffect(
       // Archer Triple Shot: hit N random enemies at % damage
       const hitCount = effect.hitCount ?? 3;
       const pct = effect.damagePercent ?? 0.50;
-      const rawDamage = computePlayerDamage(player, state, undefined, { isActive: true }) * arcaneMult;
+      const roll = computePlayerDamage(player, state, undefined, { isActive: true, damageType });
+      const rawDamage = roll.damage * arcaneMult;
       const perHitDamage = Math.max(1, Math.floor(rawDamage * pct));
 
       let lastTarget: CombatMonster | null = null;
       for (let i = 0; i < hitCount; i++) {
         const alive = state.monsters.filter(m => m.currentHp > 0);
         if (alive.length === 0) break;
-        const target = alive[Math.floor(Math.random() * alive.length)];
+        const target = alive[Math.floor(nextRandom(state.rng) * alive.length)];
         lastTarget = target;
-        applyDamageToMonster(perHitDamage, target, player, state, logEntries, true, sn);
+        applyDamageToMonster(perHitDamage, target, player, state, events, true, sn, roll.crit, damageType);
       }
 
       return {
@@ -1193,29 +1701,28 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const rawDamage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const rawDamage = roll.damage * arcaneMult;
       const damage = Math.max(1, Math.floor(rawDamage * (effect.damagePercent ?? 2.0)));
       // Direct damage, bypass normal damage reduction
+      if (blockedByImmunity(target, player, events)) {
+        return {
+          isNoOp: false,
+          action: { attackerSide: 'player', attackerPos: player.gridPosition, targetPos: target.gridPosition, targetSide: 'monster', dodged: false, skillName: skill.name },
+        };
+      }
       const prevHp = target.currentHp;
       target.currentHp = Math.max(0, target.currentHp - damage);
-      logEntries.push(`${player.username} snipes ${target.name} for ${damage} damage (ignores DR)`);
+      events.push({
+        type: 'damage', source: refOf(player), target: refOf(target), cause: 'ignore_dr', skillName: skill.name,
+        amount: damage, damageType: null, crit: roll.crit, mitigation: { ...NO_MITIGATION },
+      });
 
       if (target.currentHp <= 0) {
-        logEntries.push(`${target.name} defeated!`);
+        events.push({ type: 'kill', source: refOf(player), target: refOf(target), byDot: false });
         // Overflow check
         if (hasPassive(player, 'overflow')) {
-          const overkill = damage - prevHp;
-          if (overkill > 0) {
-            const others = state.monsters.filter(m => m.currentHp > 0 && m !== target);
-            if (others.length > 0) {
-              const splashTarget = others[Math.floor(Math.random() * others.length)];
-              splashTarget.currentHp = Math.max(0, splashTarget.currentHp - overkill);
-              logEntries.push(`Overflow! ${overkill} damage splashes to ${splashTarget.name}`);
-              if (splashTarget.currentHp <= 0) {
-                logEntries.push(`${splashTarget.name} defeated!`);
-              }
-            }
-          }
+          applyOverflow(player, target, damage - prevHp, state, events);
         }
       }
 
@@ -1230,20 +1737,25 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const damage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const damage = roll.damage * arcaneMult;
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
 
       if (target.currentHp > 0) {
         const dotTotal = Math.floor(damage * (effect.dotPercent ?? 0.20));
         const ticks = effect.dotTicks ?? 3;
+        const damagePerTick = Math.max(1, Math.floor(dotTotal / ticks));
         target.dots.push({
           sourceUsername: player.username,
           name: skill.name.toLowerCase(),
-          damagePerTick: Math.max(1, Math.floor(dotTotal / ticks)),
+          damagePerTick,
           ticksRemaining: ticks,
-          damageType: player.playerDamageType,
+          damageType,
+        });
+        events.push({
+          type: 'debuff_applied', source: refOf(player), target: refOf(target), status: 'dot', skillName: skill.name,
+          amount: damagePerTick, duration: ticks, damageType,
         });
-        logEntries.push(`${target.name} is bleeding!`);
       }
 
       return {
@@ -1257,16 +1769,22 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const damage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const damage = roll.damage * arcaneMult;
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
 
       if (target.currentHp > 0) {
-        target.debuffs.push({
-          type: 'crippling_shot',
-          value: effect.debuffPercent ?? 0.30,
-          duration: effect.debuffDuration ?? 3,
-        });
-        logEntries.push(`${target.name}'s damage is reduced by ${Math.round((effect.debuffPercent ?? 0.30) * 100)}%!`);
+        const debuffPercent = effect.debuffPercent ?? 0.30;
+        const duration = effect.debuffDuration ?? 3;
+        const applied = applyStatusEffect(state, target, 'crippling_shot', {
+          sourceUsername: player.username, duration, modifiers: { damageDealt: -debuffPercent },
+        }, events);
+        if (applied) {
+          events.push({
+            type: 'debuff_applied', source: refOf(player), target: refOf(target), status: 'crippling_shot', skillName: skill.name,
+            amount: debuffPercent, duration,
+          });
+        }
       }
 
       return {
@@ -1280,8 +1798,9 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const damage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const damage = roll.damage * arcaneMult;
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
       // TODO: Add bonus holy damage vs undead when undead system is implemented
 
       return {
@@ -1291,17 +1810,18 @@ function executeActiveEffect(
     }
 
     case 'cure_debuffs': {
-      // Priest Cure: remove all debuffs from lowest HP ally — fall back to attack if there's nothing to cure.
+      // Priest Cure: remove dispellable debuffs, DoTs and stun from lowest HP ally — fall back to attack if there's nothing to cure.
       const target = findLowestPercentHpAlly(state.players);
       if (!target) return noOp();
 
-      const hadDebuffs = target.debuffs.length > 0 || target.stunTurns > 0 || target.dots.length > 0;
+      const isCurable = (s: StatusInstance) => s.definition.kind === 'debuff' && s.definition.dispellable;
+      const hadDebuffs = target.statuses.some(isCurable) || target.stunTurns > 0 || target.dots.length > 0;
       if (!hadDebuffs) return noOp();
 
-      target.debuffs = [];
+      target.statuses = target.statuses.filter(s => !isCurable(s));
       target.dots = [];
       if (target.stunTurns > 0) target.stunTurns = 0;
-      logEntries.push(`${player.username} cures ${target.username}'s afflictions!`);
+      events.push({ type: 'cure', source: refOf(player), target: refOf(target) });
 
       return {
         action: { attackerSide: 'player', attackerPos: player.gridPosition, targetPos: target.gridPosition, targetSide: 'player', dodged: false, skillName: skill.name },
@@ -1330,7 +1850,10 @@ function executeActiveEffect(
         healPerTick: adjustedHeal,
         ticksRemaining: ticks,
       });
-      logEntries.push(`${player.username} applies ${skill.name} to ${target.username} (${adjustedHeal} HP/tick for ${ticks} ticks)`);
+      events.push({
+        type: 'buff_applied', source: refOf(player), target: refOf(target), status: 'hot', skillName: skill.name,
+        amount: adjustedHeal, duration: ticks,
+      });
 
       return {
         isNoOp: false,
@@ -1346,7 +1869,8 @@ function executeActiveEffect(
 
       const shieldAmount = player.level * (effect.shieldMultiplier ?? 4);
       target.damageShield = shieldAmount;
-      logEntries.push(`${player.username} shields ${target.username} for ${shieldAmount} damage`);
+      target.damageShieldSource = player.username;
+      events.push({ type: 'buff_applied', source: refOf(player), target: refOf(target), status: 'shield', skillName: skill.name, amount: shieldAmount });
 
       return {
         isNoOp: false,
@@ -1359,9 +1883,10 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const rawDamage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const rawDamage = roll.damage * arcaneMult;
       const damage = Math.max(1, Math.floor(rawDamage * (effect.damagePercent ?? 0.75)));
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
 
       return {
         isNoOp: false,
@@ -1379,20 +1904,25 @@ function executeActiveEffect(
         for (const monster of state.monsters) {
           if (monster.currentHp <= 0) continue;
           lastTarget = monster;
+          if (blockedByImmunity(monster, player, events)) continue;
           monster.currentHp = Math.max(0, monster.currentHp - damage);
-          logEntries.push(`${player.username}'s ${skill.name} hits ${monster.name} for ${damage} damage`);
+          events.push({
+            type: 'damage', source: refOf(player), target: refOf(monster), cause: 'skill_area', skillName: skill.name,
+            amount: damage, damageType: null, crit: false, mitigation: { ...NO_MITIGATION },
+          });
           if (monster.currentHp <= 0) {
-            logEntries.push(`${monster.name} defeated!`);
+            events.push({ type: 'kill', source: refOf(player), target: refOf(monster), byDot: false });
           }
         }
       } else {
         // Mage Blizzard/Chain Lightning: % of normal damage
-        const rawDamage = computePlayerDamage(player, state, undefined, { isActive: true }) * arcaneMult;
+        const roll = computePlayerDamage(player, state, undefined, { isActive: true, damageType });
+        const rawDamage = roll.damage * arcaneMult;
         const damage = Math.max(1, Math.floor(rawDamage * (effect.damagePercent ?? 1.0)));
         for (const monster of state.monsters) {
           if (monster.currentHp <= 0) continue;
           lastTarget = monster;
-          applyDamageToMonster(damage, monster, player, state, logEntries, true, sn);
+          applyDamageToMonster(damage, monster, player, state, events, true, sn, roll.crit, damageType);
         }
       }
 
@@ -1407,9 +1937,10 @@ function executeActiveEffect(
       const target = findTarget(player.gridPosition, state.monsters, false);
       if (!target) return { action: noAction(), isNoOp: false };
 
-      const rawDamage = computePlayerDamage(player, state, target, { isActive: true }) * arcaneMult;
+      const roll = computePlayerDamage(player, state, target, { isActive: true, damageType });
+      const rawDamage = roll.damage * arcaneMult;
       const damage = Math.max(1, Math.floor(rawDamage * (effect.damagePercent ?? 2.50)));
-      applyDamageToMonster(damage, target, player, state, logEntries, false, sn);
+      applyDamageToMonster(damage, target, player, state, events, false, sn, roll.crit, damageType);
 
       return {
         isNoOp: false,
@@ -1418,10 +1949,17 @@ function executeActiveEffect(
     }
 
     case 'party_buff_permanent': {
-      // Bard War Song: +% party damage, permanent, stacking
+      // Bard War Song: +% party damage, permanent, stacking (every member, fallen ones included)
       const buffAmount = effect.buffPercent ?? 0.10;
-      state.warSongBonus += buffAmount;
-      logEntries.push(`${player.username}'s ${skill.name} increases party damage by ${Math.round(buffAmount * 100)}%! (Total: +${Math.round(state.warSongBonus * 100)}%)`);
+      let total = 0;
+      for (const p of state.players) {
+        const song = applyStatusEffect(state, p, 'war_song', { sourceUsername: player.username, modifiers: { damageDealt: buffAmount } });
+        if (p === player && song) total = song.modifiers.damageDealt ?? 0;
+      }
+      events.push({
+        type: 'buff_applied', source: refOf(player), target: null, status: 'war_song', skillName: skill.name,
+        amount: buffAmount, total,
+      });
 
       return { action: noAction(), isNoOp: false };
     }
@@ -1430,31 +1968,86 @@ function executeActiveEffect(
       // Bard Lullaby: reduce enemy damage for N turns
       const debuffAmount = effect.debuffPercent ?? 0.20;
       const duration = effect.debuffDuration ?? 3;
+      let anyApplied = false;
       for (const monster of state.monsters) {
         if (monster.currentHp <= 0) continue;
-        // Don't stack Lullaby with itself — refresh duration
-        const existing = monster.debuffs.find(d => d.type === 'lullaby');
-        if (existing) {
-          existing.duration = duration;
-        } else {
-          monster.debuffs.push({ type: 'lullaby', value: debuffAmount, duration });
-        }
+        // Lullaby refreshes rather than stacks (per its stacking rule)
+        const app: StatusApplication = { sourceUsername: player.username, duration, modifiers: { damageDealt: -debuffAmount } };
+        if (applyStatusEffect(state, monster, 'lullaby', app, events)) anyApplied = true;
+      }
+      if (anyApplied) {
+        events.push({
+          type: 'debuff_applied', source: refOf(player), target: null, status: 'lullaby', skillName: skill.name,
+          amount: debuffAmount, duration,
+        });
       }
-      logEntries.push(`${player.username}'s ${skill.name} reduces enemy damage by ${Math.round(debuffAmount * 100)}% for ${duration} turns`);
 
       return { action: noAction(), isNoOp: false };
     }
 
     case 'chaos': {
-      // Bard Chaos: all enemies attack a random enemy (including themselves) this round
+      // Bard Chaos: all enemies attack a random enemy (including themselves) on their next action
+      let anyApplied = false;
       for (const monster of state.monsters) {
         if (monster.currentHp <= 0) continue;
-        monster.chaosActive = true;
+        if (applyStatusEffect(state, monster, 'chaos', { sourceUsername: player.username }, events)) anyApplied = true;
+      }
+      if (anyApplied) {
+        events.push({ type: 'debuff_applied', source: refOf(player), target: null, status: 'chaos', skillName: skill.name });
       }
-      logEntries.push(`${player.username}'s ${skill.name} causes chaos! Enemies turn on each other!`);
 
       return { action: noAction(), isNoOp: false };
     }
+
+    case 'apply_status': {
+      // Generic: put a status effect from content on the chosen target(s)
+      const def = effect.statusEffectId
+        ? state.statusEffects[effect.statusEffectId] ?? SEED_STATUS_EFFECTS[effect.statusEffectId]
+        : undefined;
+      if (!def) return noOp();
+
+      const statusTarget = effect.statusTarget ?? 'enemy';
+      let targets: (PartyCombatant | CombatMonster)[] = [];
+      if (statusTarget === 'enemy') {
+        const target = findTarget(player.gridPosition, state.monsters, false);
+        if (target) targets = [target];
+      } else if (statusTarget === 'all_enemies') {
+        targets = state.monsters.filter(m => m.currentHp > 0);
+      } else if (statusTarget === 'self') {
+        targets = [player];
+      } else if (statusTarget === 'lowest_ally') {
+        const target = findLowestPercentHpAlly(state.players);
+        if (target) targets = [target];
+      } else {
+        targets = state.players.filter(p => p.currentHp > 0);
+      }
+
+      const app: StatusApplication = { sourceUsername: player.username, duration: effect.statusDuration };
+      // A resisted debuff still spends the cast; only a cast with nothing to land on is a no-op.
+      const landed = targets.filter(t => def.kind !== 'debuff' || !resistsDebuff(state, t, def, events));
+      const applied = landed.filter(t => addStatus(t.statuses, def, app) !== null);
+      if (applied.length === 0 && landed.length === targets.length) return noOp();
+      if (applied.length === 0) return { action: noAction(), isNoOp: false };
+
+      // A null event target reads as "the party" for buffs and "all enemies" for debuffs;
+      // any other spread gets one event per bearer.
+      const area = AREA_STATUS_TARGETS.has(statusTarget);
+      const grouped = (def.kind === 'buff' && statusTarget === 'party') || (def.kind === 'debuff' && statusTarget === 'all_enemies');
+      const duration = effect.statusDuration ?? def.duration;
+      for (const t of grouped ? [null] : applied) {
+        const target = t ? refOf(t) : null;
+        events.push(def.kind === 'buff'
+          ? { type: 'buff_applied', source: refOf(player), target, status: def.id, effectName: def.name, skillName: skill.name, duration }
+          : { type: 'debuff_applied', source: refOf(player), target, status: def.id, effectName: def.name, skillName: skill.name, duration });
+      }
+
+      const first = applied[0];
+      const targetSide = 'username' in first ? 'player' : 'monster';
+      return {
+        isNoOp: false,
+        action: { ...noAction(), targetPos: area ? null : first.gridPosition, targetSide },
+      };
+    }
   }
 
   // Should never reach here — all cases handled
@@ -1467,15 +2060,22 @@ function executeActiveEffect(
  */
 export function processPartyTick(state: PartyCombatState): TickResult {
   if (state.finished) {
-    return { logEntries: [], finished: true, result: state.result };
+    return { events: [], logEntries: [], finished: true, result: state.result };
   }
 
   state.tickCount++;
   const prevTurnIndex = state.turnIndex;
-  const logEntries: string[] = [];
+  const events: CombatEvent[] = [];
+  state.lastEvents = events;
+  const tickResult = (): TickResult => ({
+    events, logEntries: renderCombatLog(events), finished: state.finished, result: state.result,
+  });
 
   const totalCombatants = state.turnOrderSize;
 
+  // A round starts on the first turn after the turn order wraps (or the battle's first turn)
+  const startsRound = (i: number) => state.turnIndex === 0 || state.turnIndex + i >= totalCombatants;
+
   // Find the next alive combatant (scan up to a full cycle to skip dead ones)
   let acted = false;
   for (let i = 0; i < totalCombatants; i++) {
@@ -1485,14 +2085,16 @@ export function processPartyTick(state: PartyCombatState): TickResult {
       // Player turn
       const player = state.players[idx];
       if (player.currentHp <= 0) continue;
+      if (startsRound(i)) fireTriggers(state, 'round_start', state.players, null, events);
 
       // Process tick effects (DoTs, HoTs, debuff expiry)
-      processTickEffects(player, logEntries, state);
+      processTickEffects(player, events, state);
       if (player.currentHp <= 0) {
         // Check Resurrection
-        if (checkResurrection(player, state, logEntries)) {
+        if (checkResurrection(player, state, events)) {
           // Player revived, continue turn
         } else {
+          events.push({ type: 'kill', source: null, target: refOf(player), byDot: true });
           state.turnIndex = (idx + 1) % totalCombatants;
           acted = true;
           break;
@@ -1504,16 +2106,17 @@ export function processPartyTick(state: PartyCombatState): TickResult {
       player.braceDamageTaken = 0;
       player.interceptActive = false;
 
-      // Check stun
+      // Check stun (the diminishing-returns window counts this turn either way)
+      tickStunDiminishing(player);
       if (player.stunTurns > 0) {
         // Iron Will: immune to stun
         const stunImmuneSkill = getSkillWithPassive(player, 'stun_immune');
         if (stunImmuneSkill) {
           player.stunTurns = 0;
-          logEntries.push(`${player.username}'s ${stunImmuneSkill.name} resists the stun!`);
+          events.push({ type: 'stun_resisted', target: refOf(player), reason: 'immune', skillName: stunImmuneSkill.name });
         } else {
           player.stunTurns--;
-          logEntries.push(`${player.username} is stunned!`);
+          events.push({ type: 'stun_turn', target: refOf(player) });
           state.lastAction = {
             attackerSide: 'player',
             attackerPos: player.gridPosition,
@@ -1528,6 +2131,7 @@ export function processPartyTick(state: PartyCombatState): TickResult {
       }
 
       player.attackCount++;
+      consumeOnActionStatuses(player, events);
 
       // Check if an active skill should trigger (every Nth attack, with CD reduction).
       // If the active resolves to a no-op (e.g. Priest Heal at full party HP), fall through
@@ -1539,7 +2143,7 @@ export function processPartyTick(state: PartyCombatState): TickResult {
           if (player.attackCount % effectiveCD === 0) {
             const result = executeActiveSkill(player, skill, state);
             if (result.isNoOp) break;
-            logEntries.push(...result.logEntries);
+            events.push(...result.events);
             state.lastAction = result.action;
             usedSkill = true;
             break;
@@ -1551,8 +2155,8 @@ export function processPartyTick(state: PartyCombatState): TickResult {
         // Normal attack
         const target = findTarget(player.gridPosition, state.monsters, false);
         if (target) {
-          const damage = computePlayerDamage(player, state, target);
-          applyDamageToMonster(damage, target, player, state, logEntries, false);
+          const { damage, crit } = computePlayerDamage(player, state, target);
+          applyDamageToMonster(damage, target, player, state, events, false, undefined, crit);
 
           state.lastAction = {
             attackerSide: 'player',
@@ -1579,16 +2183,20 @@ export function processPartyTick(state: PartyCombatState): TickResult {
       // Monster turn
       const monster = state.monsters[idx - state.players.length];
       if (monster.currentHp <= 0) continue;
+      if (startsRound(i)) fireTriggers(state, 'round_start', state.players, null, events);
 
       // Process tick effects (DoTs, debuff expiry)
-      processTickEffects(monster, logEntries, state);
+      processTickEffects(monster, events, state);
       if (monster.currentHp <= 0) {
-        logEntries.push(`${monster.name} defeated! (DoT)`);
+        events.push({ type: 'kill', source: null, target: refOf(monster), byDot: true });
         state.turnIndex = (idx + 1) % totalCombatants;
         acted = true;
         break;
       }
 
+      // Phase immunity wears off on the boss's own turns
+      if (monster.immuneTurns > 0) monster.immuneTurns--;
+
       // Passive monsters (e.g. walls) never act
       if (monster.passive) {
         state.lastAction = {
@@ -1603,10 +2211,11 @@ export function processPartyTick(state: PartyCombatState): TickResult {
         break;
       }
 
-      // Check stun
+      // Check stun (the diminishing-returns window counts this turn either way)
+      tickStunDiminishing(monster);
       if (monster.stunTurns > 0) {
         monster.stunTurns--;
-        logEntries.push(`${monster.name} is stunned!`);
+        events.push({ type: 'stun_turn', target: refOf(monster) });
         state.lastAction = {
           attackerSide: 'monster',
           attackerPos: monster.gridPosition,
@@ -1619,17 +2228,23 @@ export function processPartyTick(state: PartyCombatState): TickResult {
         break;
       }
 
-      // Chaos: monster attacks a random enemy instead
-      if (monster.chaosActive) {
-        monster.chaosActive = false;
+      // Confusion (Chaos): monster attacks a random monster instead
+      const confused = monster.statuses.some(s => s.definition.confusion);
+      consumeOnActionStatuses(monster, events);
+      if (confused) {
         const aliveMonsters = state.monsters.filter(m => m.currentHp > 0);
         if (aliveMonsters.length > 0) {
-          const chaosTarget = aliveMonsters[Math.floor(Math.random() * aliveMonsters.length)];
+          const chaosTarget = aliveMonsters[Math.floor(nextRandom(state.rng) * aliveMonsters.length)];
           const monsterDmg = getMonsterDamage(monster, state);
-          chaosTarget.currentHp = Math.max(0, chaosTarget.currentHp - monsterDmg);
-          logEntries.push(`${monster.name} attacks ${chaosTarget.name} in confusion for ${monsterDmg} damage!`);
-          if (chaosTarget.currentHp <= 0) {
-            logEntries.push(`${chaosTarget.name} defeated!`);
+          if (!blockedByImmunity(chaosTarget, monster, events)) {
+            chaosTarget.currentHp = Math.max(0, chaosTarget.currentHp - monsterDmg);
+            events.push({
+              type: 'damage', source: refOf(monster), target: refOf(chaosTarget), cause: 'confusion',
+              amount: monsterDmg, damageType: null, crit: false, mitigation: { ...NO_MITIGATION },
+            });
+            if (chaosTarget.currentHp <= 0) {
+              events.push({ type: 'kill', source: refOf(monster), target: refOf(chaosTarget), byDot: false });
+            }
           }
         }
         state.lastAction = {
@@ -1652,7 +2267,7 @@ export function processPartyTick(state: PartyCombatState): TickResult {
           if (monster.skillCooldowns[key] > 0) monster.skillCooldowns[key]--;
         }
 
-        const skillResult = tryExecuteMonsterSkill(monster, state, logEntries);
+        const skillResult = tryExecuteMonsterSkill(monster, state, events);
         if (skillResult) {
           state.lastAction = skillResult;
           state.turnIndex = (idx + 1) % totalCombatants;
@@ -1661,30 +2276,30 @@ export function processPartyTick(state: PartyCombatState): TickResult {
         }
       }
 
-      // Normal monster attack on player
-      let target = findTarget(monster.gridPosition, state.players, true);
+      // Normal monster attack on player (taunt, then targeting skills, then the grid rule)
+      let target = pickMonsterTarget(monster, state);
 
       // Intercept check: if any player has interceptActive, redirect to them.
       // Intercept only redirects the next attack — consume it after firing.
       if (target) {
         const interceptor = state.players.find(p => p.currentHp > 0 && p.interceptActive && p !== target);
         if (interceptor) {
-          logEntries.push(`${interceptor.username} intercepts the attack on ${target.username}!`);
+          events.push({ type: 'intercept', source: refOf(interceptor), target: refOf(target), attacker: refOf(monster) });
           target = interceptor;
           interceptor.interceptActive = false;
         }
       }
 
       if (target) {
-        // Dodge check: Nimble party dodge
-        const totalDodge = state.nimbleDodge;
-        const dodged = totalDodge > 0 && Math.random() < totalDodge;
+        // Dodge check: Nimble party dodge + the target's dodge statuses
+        const totalDodge = state.nimbleDodge + sumStatusModifier(target.statuses, 'dodgeChance');
+        const dodged = totalDodge > 0 && nextRandom(state.rng) < totalDodge;
 
         if (dodged) {
-          logEntries.push(`${target.username} dodges ${monster.name}'s attack!`);
+          events.push({ type: 'dodge', source: refOf(monster), target: refOf(target) });
         } else {
           const rawMonsterDmg = getMonsterDamage(monster, state);
-          applyMonsterDirectDamage(target, rawMonsterDmg, monster.damageType, monster, state, logEntries, `${monster.name} hits`);
+          applyMonsterDirectDamage(target, rawMonsterDmg, monster.damageType, monster, state, events, 'attack');
         }
 
         state.lastAction = {
@@ -1713,7 +2328,7 @@ export function processPartyTick(state: PartyCombatState): TickResult {
   if (!acted) {
     state.finished = true;
     state.result = 'defeat';
-    return { logEntries, finished: true, result: 'defeat' };
+    return tickResult();
   }
 
   // Process Shield Slam reflect at end of monster attacks
@@ -1731,10 +2346,14 @@ export function processPartyTick(state: PartyCombatState): TickResult {
           // Reflect to all monsters that are alive (simplified: split among attackers)
           for (const m of state.monsters) {
             if (m.currentHp <= 0) continue;
+            if (blockedByImmunity(m, player, events)) continue;
             m.currentHp = Math.max(0, m.currentHp - reflectDamage);
-            logEntries.push(`${player.username}'s ${skill.name} reflects ${reflectDamage} damage to ${m.name}`);
+            events.push({
+              type: 'damage', source: refOf(player), target: refOf(m), cause: 'reflect', skillName: skill.name,
+              amount: reflectDamage, damageType: null, crit: false, mitigation: { ...NO_MITIGATION },
+            });
             if (m.currentHp <= 0) {
-              logEntries.push(`${m.name} defeated!`);
+              events.push({ type: 'kill', source: refOf(player), target: refOf(m), byDot: false });
             }
           }
         }
@@ -1750,21 +2369,24 @@ export function processPartyTick(state: PartyCombatState): TickResult {
     state.roundCount++;
   }
 
+  // Boss scripts: enter phases whose HP threshold was crossed, then check enrage timers
+  advanceBossPhases(state, events);
+
   // Check for victory (all non-passive monsters dead — walls etc. don't count)
   if (state.monsters.filter(m => !m.passive).every(m => m.currentHp <= 0)) {
     state.finished = true;
     state.result = 'victory';
-    return { logEntries, finished: true, result: 'victory' };
+    return tickResult();
   }
 
   // Check for defeat (all players dead)
   if (state.players.every(p => p.currentHp <= 0)) {
     state.finished = true;
     state.result = 'defeat';
-    return { logEntries, finished: true, result: 'defeat' };
+    return tickResult();
   }
 
-  return { logEntries, finished: false, result: null };
+  return tickResult();
 }
 
 /**
@@ -1797,41 +2419,49 @@ function applyMonsterDirectDamage(
   damageType: DamageType,
   attacker: CombatMonster,
   state: PartyCombatState,
-  logEntries: string[],
-  hitLabel: string,
+  events: CombatEvent[],
+  cause: 'attack' | 'skill' | 'skill_area',
+  skillName?: string,
 ): number {
+  const targetRef = refOf(target);
+  const mitigation: DamageMitigation = { ...NO_MITIGATION };
+
+  // Damage-taken statuses on the target scale the raw hit
+  rawDamage = scaleByStatuses(rawDamage, target.statuses, 'damageTaken', damageType);
+
   // Set damageResistancePercent applies BEFORE flat reductions, per SetBonuses contract.
   const setResistPct = target.setBonuses?.damageResistancePercent ?? 0;
   let scaledRaw = rawDamage;
   if (setResistPct > 0) {
     scaledRaw = Math.max(0, Math.floor(scaledRaw * (1 - setResistPct / 100)));
+    mitigation.setResisted = rawDamage - scaledRaw;
   }
 
-  let reduction = 0;
-  if (damageType === 'physical') {
-    reduction += computeEquipReduction(target.equipBonuses);
-    reduction += getPhysicalReduction(target, state.players);
-  } else if (damageType === 'magical') {
-    reduction += computeEquipMagicReduction(target.equipBonuses);
-    reduction += getMagicalReduction(state.players);
-  } else {
-    // holy: only Bless reduces holy damage
-    reduction += getMagicalReduction(state.players);
-  }
+  // Per-type resistance from gear and sets comes next, still before flat reductions.
+  const typeResisted = applyPlayerTypeResistance(target, scaledRaw, damageType);
+  mitigation.resisted = scaledRaw - typeResisted;
 
-  let damage = Math.max(0, scaledRaw - reduction);
+  const reduction = computeTypeReduction(state, target, damageType);
+  let damage = Math.max(0, typeResisted - reduction);
+  mitigation.reduced = typeResisted - damage;
 
   if (target.damageShield > 0) {
     const absorbed = Math.min(damage, target.damageShield);
     target.damageShield -= absorbed;
     damage -= absorbed;
+    mitigation.absorbed = absorbed;
     if (absorbed > 0) {
-      logEntries.push(`${target.username}'s shield absorbs ${absorbed} damage`);
+      const caster = state.players.find(p => p.username === target.damageShieldSource);
+      events.push({ type: 'shield_absorb', source: caster ? refOf(caster) : null, target: targetRef, amount: absorbed });
     }
   }
 
+  const prevHp = target.currentHp;
   target.currentHp = Math.max(0, target.currentHp - damage);
-  logEntries.push(`${hitLabel} ${target.username} for ${damage} ${damageType} damage`);
+  events.push({
+    type: 'damage', source: refOf(attacker), target: targetRef, cause, skillName,
+    amount: damage, damageType, crit: false, mitigation,
+  });
 
   // Brace (physical only) — only physical damage builds Shield Slam reflect
   if (damageType === 'physical' && target.braceActive) {
@@ -1844,10 +2474,7 @@ function applyMonsterDirectDamage(
     const bashSkill = getSkillWithPassive(target, 'stun_on_phys_hit');
     if (bashSkill) {
       const stunChance = getPassiveValue(target, 'stun_on_phys_hit');
-      if (Math.random() < stunChance) {
-        attacker.stunTurns = 1;
-        logEntries.push(`${target.username}'s ${bashSkill.name} stuns ${attacker.name}!`);
-      }
+      tryStun(state, target, attacker, stunChance, events, bashSkill.name);
     }
   }
 
@@ -1857,11 +2484,14 @@ function applyMonsterDirectDamage(
   }
 
   if (target.currentHp <= 0) {
-    if (!checkResurrection(target, state, logEntries)) {
-      logEntries.push(`${target.username} has fallen!`);
+    if (!checkResurrection(target, state, events)) {
+      events.push({ type: 'kill', source: refOf(attacker), target: targetRef, byDot: false });
     }
   }
 
+  fireTriggers(state, 'on_hit_taken', [target], attacker, events);
+  if (damage > 0) fireTriggers(state, 'ally_below_hp', state.players, target, events, prevHp);
+
   return damage;
 }
 
@@ -1871,14 +2501,16 @@ function applyMonsterDirectDamage(
 function tryExecuteMonsterSkill(
   monster: CombatMonster,
   state: PartyCombatState,
-  logEntries: string[],
+  events: CombatEvent[],
 ): CombatAction | null {
+  const monsterRef = refOf(monster);
   for (const entry of monster.skills) {
     const cd = monster.skillCooldowns[entry.skillId] ?? 0;
     if (cd > 0) continue;
 
     const skillDef = MONSTER_SKILL_CATALOG[entry.skillId];
-    if (!skillDef) continue;
+    // Targeting skills are passive — pickMonsterTarget consults them
+    if (!skillDef || skillDef.effect === 'target_priority') continue;
 
     // Set cooldown (per-monster, not from catalog)
     monster.skillCooldowns[entry.skillId] = entry.cooldown;
@@ -1888,17 +2520,18 @@ function tryExecuteMonsterSkill(
 
     if (skillDef.effect === 'damage') {
       const damageType = skillDef.damageType ?? 'physical';
-      const dodgeChance = state.nimbleDodge;
+      const dodgeChance = (p: PartyCombatant) => state.nimbleDodge + sumStatusModifier(p.statuses, 'dodgeChance');
 
       if (skillDef.targeting === 'aoe_all') {
-        logEntries.push(`${monster.name} casts ${skillDef.name}!`);
+        events.push({ type: 'skill_cast', source: monsterRef, skillName: skillDef.name, area: true });
         for (const p of alivePlayers) {
-          const dodged = dodgeChance > 0 && Math.random() < dodgeChance;
+          const dodged = dodgeChance(p) > 0 && nextRandom(state.rng) < dodgeChance(p);
           if (dodged) {
-            logEntries.push(`${p.username} dodges ${skillDef.name}!`);
+            events.push({ type: 'dodge', source: monsterRef, target: refOf(p), skillName: skillDef.name, area: true });
             continue;
           }
-          applyMonsterDirectDamage(p, Math.max(1, entry.value), damageType, monster, state, logEntries, `${skillDef.name} hits`);
+          applyMonsterDirectDamage(p, Math.max(1, Math.floor(entry.value * monster.enrageMultiplier)), damageType, monster, state, events, 'skill_area', skillDef.name);
+          applyMonsterSkillStatus(state, entry, monster, p, skillDef.name, events);
         }
         return {
           attackerSide: 'monster',
@@ -1909,23 +2542,26 @@ function tryExecuteMonsterSkill(
           skillName: skillDef.name,
         };
       } else if (skillDef.targeting === 'lowest_hp_enemy') {
-        // Target lowest HP player
-        let target = alivePlayers.reduce((low, p) => p.currentHp < low.currentHp ? p : low, alivePlayers[0]);
+        // Target lowest HP player (a taunting player draws it instead)
+        let target = findTaunter(monster, alivePlayers)
+          ?? alivePlayers.reduce((low, p) => p.currentHp < low.currentHp ? p : low, alivePlayers[0]);
         if (target) {
-          // Intercept redirect: physical and magical single-target skills can be intercepted.
+          events.push({ type: 'skill_cast', source: monsterRef, skillName: skillDef.name, area: false });
+          // Intercept redirect: single-target skills of any damage type can be intercepted.
           // Intercept only redirects the next attack — consume it after firing.
           const interceptor = state.players.find(p => p.currentHp > 0 && p.interceptActive && p !== target);
           if (interceptor) {
-            logEntries.push(`${interceptor.username} intercepts ${monster.name}'s ${skillDef.name} aimed at ${target.username}!`);
+            events.push({ type: 'intercept', source: refOf(interceptor), target: refOf(target), attacker: monsterRef, skillName: skillDef.name });
             target = interceptor;
             interceptor.interceptActive = false;
           }
 
-          const dodged = dodgeChance > 0 && Math.random() < dodgeChance;
+          const dodged = dodgeChance(target) > 0 && nextRandom(state.rng) < dodgeChance(target);
           if (dodged) {
-            logEntries.push(`${target.username} dodges ${monster.name}'s ${skillDef.name}!`);
+            events.push({ type: 'dodge', source: monsterRef, target: refOf(target), skillName: skillDef.name });
           } else {
-            applyMonsterDirectDamage(target, Math.max(1, entry.value), damageType, monster, state, logEntries, `${monster.name}'s ${skillDef.name} hits`);
+            applyMonsterDirectDamage(target, Math.max(1, Math.floor(entry.value * monster.enrageMultiplier)), damageType, monster, state, events, 'skill', skillDef.name);
+            applyMonsterSkillStatus(state, entry, monster, target, skillDef.name, events);
           }
           return {
             attackerSide: 'monster',
@@ -1940,13 +2576,10 @@ function tryExecuteMonsterSkill(
     } else if (skillDef.effect === 'stun') {
       if (skillDef.targeting === 'all_class' && skillDef.targetClasses) {
         const targets = alivePlayers.filter(p => skillDef.targetClasses!.includes(p.className));
+        events.push({ type: 'skill_cast', source: monsterRef, skillName: skillDef.name, area: true });
         for (const t of targets) {
-          t.stunTurns = Math.max(t.stunTurns, 1);
-        }
-        if (targets.length > 0) {
-          logEntries.push(`${monster.name} casts ${skillDef.name}! ${targets.map(t => t.username).join(', ')} ${targets.length === 1 ? 'is' : 'are'} stunned!`);
-        } else {
-          logEntries.push(`${monster.name} casts ${skillDef.name} but no targets are affected!`);
+          tryStun(state, monster, t, null, events, skillDef.name);
+          applyMonsterSkillStatus(state, entry, monster, t, skillDef.name, events);
         }
         return {
           attackerSide: 'monster',
@@ -1961,20 +2594,27 @@ function tryExecuteMonsterSkill(
     } else if (skillDef.effect === 'dot') {
       let target: PartyCombatant | undefined;
       if (skillDef.targeting === 'standard') {
-        target = findTarget(monster.gridPosition, alivePlayers, true) ?? undefined;
+        target = pickMonsterTarget(monster, state) ?? undefined;
       } else if (skillDef.targeting === 'lowest_hp_enemy') {
-        target = alivePlayers.reduce((low, p) => p.currentHp < low.currentHp ? p : low, alivePlayers[0]);
+        target = findTaunter(monster, alivePlayers)
+          ?? alivePlayers.reduce((low, p) => p.currentHp < low.currentHp ? p : low, alivePlayers[0]);
       }
       if (target) {
         const ticks = skillDef.dotDuration ?? 3;
-        target.dots.push({
+        const dot: DotEffect = {
           sourceUsername: monster.name,
           name: skillDef.name.toLowerCase(),
           damagePerTick: Math.max(1, entry.value),
           ticksRemaining: ticks,
-          damageType: skillDef.damageType ?? 'magical',
+          damageType: skillDef.damageType ?? 'arcane',
+        };
+        target.dots.push(dot);
+        events.push({ type: 'skill_cast', source: monsterRef, skillName: skillDef.name, area: false });
+        events.push({
+          type: 'debuff_applied', source: monsterRef, target: refOf(target), status: 'dot', skillName: skillDef.name,
+          amount: dot.damagePerTick, duration: ticks, damageType: dot.damageType,
         });
-        logEntries.push(`${monster.name} casts ${skillDef.name} on ${target.username}! (${entry.value} ${skillDef.damageType ?? 'magical'} damage/tick for ${ticks} ticks)`);
+        applyMonsterSkillStatus(state, entry, monster, target, skillDef.name, events);
         return {
           attackerSide: 'monster',
           attackerPos: monster.gridPosition,
@@ -1991,7 +2631,8 @@ function tryExecuteMonsterSkill(
           const target = wounded.reduce((low, m) => m.currentHp < low.currentHp ? m : low, wounded[0]);
           const healAmt = Math.min(entry.value, target.maxHp - target.currentHp);
           target.currentHp += healAmt;
-          logEntries.push(`${monster.name} casts ${skillDef.name} on ${target.name} for ${healAmt} HP!`);
+          events.push({ type: 'skill_cast', source: monsterRef, skillName: skillDef.name, area: false });
+          events.push({ type: 'heal', source: monsterRef, target: refOf(target), skillName: skillDef.name, amount: healAmt, overheal: entry.value - healAmt });
           return {
             attackerSide: 'monster',
             attackerPos: monster.gridPosition,
@@ -2011,7 +2652,108 @@ function tryExecuteMonsterSkill(
   return null;
 }
 
-/** Get monster damage with all reductions (Unnerve, Lullaby, Crippling Shot). */
+/** Apply a monster skill entry's status effect (if any) to a player it landed on. */
+function applyMonsterSkillStatus(
+  state: PartyCombatState,
+  entry: MonsterSkillEntry,
+  monster: CombatMonster,
+  target: PartyCombatant,
+  skillName: string,
+  events: CombatEvent[],
+): void {
+  if (!entry.statusEffectId || target.currentHp <= 0) return;
+  const applied = applyStatusEffect(state, target, entry.statusEffectId, { sourceUsername: monster.name }, events);
+  if (!applied) return;
+  const def = applied.definition;
+  events.push({
+    type: def.kind === 'buff' ? 'buff_applied' : 'debuff_applied',
+    source: refOf(monster), target: refOf(target), status: def.id, effectName: def.name, skillName,
+    duration: applied.duration,
+  });
+}
+
+/** Phase immunity: report the blocked hit and return true when `target` can't be damaged right now. */
+function blockedByImmunity(
+  target: CombatMonster,
+  source: PartyCombatant | CombatMonster | null,
+  events: CombatEvent[],
+): boolean {
+  if (target.immuneTurns <= 0) return false;
+  events.push({ type: 'immune', source: source ? refOf(source) : null, target: refOf(target) });
+  return true;
+}
+
+/** Grid positions (0-8) no monster — alive or dead — occupies. */
+function freeMonsterPositions(state: PartyCombatState): PartyGridPosition[] {
+  const taken = new Set(state.monsters.map(m => m.gridPosition));
+  const free: PartyGridPosition[] = [];
+  for (let pos = 0; pos < 9; pos++) {
+    if (!taken.has(pos as PartyGridPosition)) free.push(pos as PartyGridPosition);
+  }
+  return free;
+}
+
+/**
+ * Enter boss phase `index`: swap skills, grant immunity and summon adds into empty
+ * grid positions. Adds join the end of the turn order and count toward victory.
+ */
+function enterBossPhase(boss: CombatMonster, index: number, state: PartyCombatState, events: CombatEvent[]): void {
+  const phase = boss.phases[index];
+  boss.phaseIndex = index;
+  boss.phaseStartRound = state.roundCount;
+
+  if (phase.skills) {
+    boss.skills = phase.skills;
+    for (const entry of phase.skills) {
+      boss.skillCooldowns[entry.skillId] ??= 0;
+    }
+  }
+  if (phase.immuneTurns) {
+    boss.immuneTurns = Math.max(boss.immuneTurns, phase.immuneTurns);
+  }
+  events.push({
+    type: 'phase_change', source: refOf(boss), phase: index + 1,
+    phaseName: phase.name, immuneTurns: phase.immuneTurns || undefined,
+  });
+
+  for (const summon of phase.summons ?? []) {
+    const def = state.monsterDefinitions[summon.monsterId];
+    if (!def) continue;
+    for (let i = 0; i < summon.count; i++) {
+      const position = freeMonsterPositions(state)[0];
+      if (position === undefined) return;
+      const add = toCombatMonster(createMonsterInstance(def, position));
+      state.monsters.push(add);
+      state.turnOrderSize++;
+      events.push({ type: 'summon', source: refOf(boss), target: refOf(add) });
+    }
+  }
+}
+
+/**
+ * Run boss scripts at the end of a tick: each living boss enters every phase whose
+ * HP threshold it has fallen to (in order, once each), then enrages if the current
+ * phase has outlasted its timer.
+ */
+function advanceBossPhases(state: PartyCombatState, events: CombatEvent[]): void {
+  // Snapshot: adds summoned this tick start their own scripts next tick
+  for (const boss of [...state.monsters]) {
+    if (boss.currentHp <= 0 || boss.phases.length === 0) continue;
+    while (boss.phaseIndex + 1 < boss.phases.length
+      && boss.currentHp * 100 <= boss.maxHp * boss.phases[boss.phaseIndex + 1].hpThreshold) {
+      enterBossPhase(boss, boss.phaseIndex + 1, state, events);
+    }
+
+    const phase = boss.phases[boss.phaseIndex];
+    if (phase?.enrageAfterRounds && boss.enrageMultiplier === 1
+      && state.roundCount - boss.phaseStartRound >= phase.enrageAfterRounds) {
+      boss.enrageMultiplier = phase.enrageDamageMultiplier ?? DEFAULT_ENRAGE_MULTIPLIER;
+      events.push({ type: 'enrage', source: refOf(boss), multiplier: boss.enrageMultiplier });
+    }
+  }
+}
+
+/** Get monster damage with all reductions (Unnerve, then damage-dealt statuses like Lullaby and Crippling Shot). */
 function getMonsterDamage(monster: CombatMonster, state: PartyCombatState): number {
   let damage = monster.damage;
 
@@ -2020,19 +2762,11 @@ function getMonsterDamage(monster: CombatMonster, state: PartyCombatState): numb
     damage = Math.floor(damage * (1 - state.unnerveReduction));
   }
 
-  // Lullaby debuff
-  for (const debuff of monster.debuffs) {
-    if (debuff.type === 'lullaby') {
-      damage = Math.floor(damage * (1 - debuff.value));
-    }
-  }
+  // Damage-dealt statuses (Lullaby, Crippling Shot, …)
+  damage = scaleByStatuses(damage, monster.statuses, 'damageDealt');
 
-  // Crippling Shot debuff
-  for (const debuff of monster.debuffs) {
-    if (debuff.type === 'crippling_shot') {
-      damage = Math.floor(damage * (1 - debuff.value));
-    }
-  }
+  // Boss enrage
+  damage = Math.floor(damage * monster.enrageMultiplier);
 
   return Math.max(0, damage);
 }
@@ -2041,7 +2775,7 @@ function getMonsterDamage(monster: CombatMonster, state: PartyCombatState): numb
 function checkResurrection(
   player: PartyCombatant,
   state: PartyCombatState,
-  logEntries: string[],
+  events: CombatEvent[],
 ): boolean {
   if (player.currentHp > 0) return false;
 
@@ -2052,7 +2786,7 @@ function checkResurrection(
       const revivePercent = getPassiveValue(p, 'resurrection') || 0.20;
       player.currentHp = Math.max(1, Math.floor(player.maxHp * revivePercent));
       p.hasResurrected = true;
-      logEntries.push(`${p.username}'s Resurrection revives ${player.username} at ${Math.round(revivePercent * 100)}% HP!`);
+      events.push({ type: 'resurrect', source: refOf(p), target: refOf(player), percent: revivePercent });
       return true;
     }
   }
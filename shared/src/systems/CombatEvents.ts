@@ -0,0 +1,444 @@
+import type { DamageType } from './CharacterStats.js';
+import type { PartyGridPosition } from './SocialTypes.js';
+
+// --- Types ---
+
+export type CombatSide = 'player' | 'monster';
+
+/** Identifies a combatant in an event: side + grid cell locate its card, name is for display. */
+export interface CombatantRef {
+  side: CombatSide;
+  pos: PartyGridPosition;
+  /** Username for players, display name for monsters. */
+  name: string;
+}
+
+/** HP stripped off a hit before it landed, by cause. */
+export interface DamageMitigation {
+  /** Removed by the target's per-type resistance (monsters) and DoT resistance (DoT ticks). */
+  resisted: number;
+  /** Removed by set damageResistancePercent (players). */
+  setResisted: number;
+  /** Removed by flat reduction — equipment DR/MR plus Guard/Bless (players). */
+  reduced: number;
+  /** Soaked by a damage shield (players). */
+  absorbed: number;
+}
+
+/**
+ * How a damage event came about — picks its log wording.
+ * - `attack`: a normal auto-attack.
+ * - `skill`: an active skill hit that rolls damage per target (Bash, Blizzard, Assassinate…).
+ * - `skill_area`: a flat pulse that hits every enemy without a roll (Dissonance, Fireball).
+ * - `ignore_dr`: Snipe-style hits that bypass resistance.
+ * - `overflow`, `reflect`, `confusion`: Overflow splash, Shield Slam reflect, Chaos friendly fire.
+ */
+export type DamageCause = 'attack' | 'skill' | 'skill_area' | 'ignore_dr' | 'overflow' | 'reflect' | 'confusion';
+
+/**
+ * Beneficial effects the engine tracks on its own (not status effect content).
+ * `buff_applied.status` is one of these or a StatusEffectDefinition id.
+ */
+export type BuffStatus = 'shield' | 'hot' | 'intercept' | 'brace';
+
+/**
+ * Harmful effects the engine tracks on its own (not status effect content).
+ * `debuff_applied.status` is one of these or a StatusEffectDefinition id.
+ */
+export type DebuffStatus = 'dot';
+
+/** Extra damage of another type folded into a hit (e.g. Blessed Arms holy). */
+export interface BonusDamage {
+  damageType: DamageType;
+  amount: number;
+}
+
+export interface DamageEvent {
+  type: 'damage';
+  source: CombatantRef;
+  target: CombatantRef;
+  cause: DamageCause;
+  skillName?: string;
+  /** HP the hit removed (may exceed what the target had left). Includes `bonus`. */
+  amount: number;
+  /** null = untyped damage that skips resistances (Overflow, reflect, Dissonance, Snipe…). */
+  damageType: DamageType | null;
+  /** Status bonus damage folded into `amount`, after resistance. */
+  bonus?: BonusDamage[];
+  crit: boolean;
+  mitigation: DamageMitigation;
+}
+
+export interface DodgeEvent {
+  type: 'dodge';
+  source: CombatantRef;
+  target: CombatantRef;
+  skillName?: string;
+  /** Dodged one hit of an area skill. */
+  area?: boolean;
+}
+
+export interface HealEvent {
+  type: 'heal';
+  source: CombatantRef;
+  target: CombatantRef;
+  skillName: string;
+  /** HP actually restored (capped at missing HP). */
+  amount: number;
+  /** Healing wasted past max HP. */
+  overheal: number;
+}
+
+export interface ShieldAbsorbEvent {
+  type: 'shield_absorb';
+  /** Whoever cast the shield (null if unknown). */
+  source: CombatantRef | null;
+  target: CombatantRef;
+  amount: number;
+}
+
+export interface DotTickEvent {
+  type: 'dot_tick';
+  target: CombatantRef;
+  /** Lower-cased name of the DoT; same-name stacks tick as one event. */
+  effectName: string;
+  stacks: number;
+  damageType: DamageType;
+  /** HP removed after mitigation. */
+  amount: number;
+  /** Pre-mitigation damage contributed by each applier (username or monster name). */
+  rawBySource: Record<string, number>;
+  mitigation: DamageMitigation;
+}
+
+export interface HotTickEvent {
+  type: 'hot_tick';
+  target: CombatantRef;
+  effectName: string;
+  /** Stacks that restored HP this tick. */
+  stacks: number;
+  amount: number;
+  /** Healing wasted past max HP. */
+  overheal: number;
+  /** HP restored by each applier. */
+  bySource: Record<string, number>;
+  /** Overheal by each applier. */
+  overhealBySource: Record<string, number>;
+}
+
+export interface BuffAppliedEvent {
+  type: 'buff_applied';
+  source: CombatantRef;
+  /** null = the whole party (War Song). */
+  target: CombatantRef | null;
+  /** A BuffStatus or a status effect id. */
+  status: BuffStatus | string;
+  /** Display name of a status effect (absent for engine-native buffs). */
+  effectName?: string;
+  skillName: string;
+  /** Shield HP, HoT heal per tick, or War Song bonus fraction. */
+  amount?: number;
+  duration?: number;
+  /** Running total after this application (War Song). */
+  total?: number;
+}
+
+export interface DebuffAppliedEvent {
+  type: 'debuff_applied';
+  source: CombatantRef;
+  /** null = every enemy (Lullaby, Chaos). */
+  target: CombatantRef | null;
+  /** A DebuffStatus or a status effect id. */
+  status: DebuffStatus | string;
+  /** Display name of a status effect (absent for engine-native debuffs). */
+  effectName?: string;
+  skillName: string;
+  /** DoT damage per tick, or damage-reduction fraction. */
+  amount?: number;
+  duration?: number;
+  /** Running total after this application (Sunder incoming-damage bonus). */
+  total?: number;
+  damageType?: DamageType;
+}
+
+export interface StatusExpiredEvent {
+  type: 'buff_expired' | 'debuff_expired';
+  target: CombatantRef;
+  /** The expired status effect id. */
+  status: string;
+}
+
+export interface StatusRemovedEvent {
+  /** `dispel` strips an enemy's buffs; `cure` clears an ally's debuffs, DoTs and stun. */
+  type: 'dispel' | 'cure';
+  source: CombatantRef;
+  target: CombatantRef;
+}
+
+export interface StunEvent {
+  type: 'stun';
+  source: CombatantRef;
+  target: CombatantRef;
+  /** Set when the stun comes from a dedicated stun skill or retaliation rather than a hit's rider. */
+  skillName?: string;
+}
+
+export interface StunTurnEvent {
+  type: 'stun_turn';
+  /** The stunned combatant, who loses this turn. */
+  target: CombatantRef;
+}
+
+export interface StunResistedEvent {
+  type: 'stun_resisted';
+  target: CombatantRef;
+  /**
+   * Why the stun failed:
+   * - `immune`: a stun-immunity passive (`skillName`) shrugged off a stun already applied.
+   * - `resistance`: the target's stun resistance beat a stun that would have landed.
+   * - `diminishing`: recent stuns on the target (diminishing returns) made it fail.
+   */
+  reason: 'immune' | 'resistance' | 'diminishing';
+  /** The immunity passive (`immune`) or the stunning skill, when there is one. */
+  skillName?: string;
+}
+
+export interface DebuffResistedEvent {
+  type: 'debuff_resisted';
+  /** The combatant whose debuff resistance won the roll. */
+  target: CombatantRef;
+  /** The status effect id that didn't land. */
+  status: string;
+  effectName: string;
+}
+
+export interface InterceptEvent {
+  type: 'intercept';
+  /** The Knight taking the hit. */
+  source: CombatantRef;
+  /** The ally the attack was aimed at. */
+  target: CombatantRef;
+  attacker: CombatantRef;
+  skillName?: string;
+}
+
+export interface KillEvent {
+  type: 'kill';
+  /** null when a DoT finished the target. */
+  source: CombatantRef | null;
+  target: CombatantRef;
+  byDot: boolean;
+}
+
+export interface ResurrectEvent {
+  type: 'resurrect';
+  source: CombatantRef;
+  target: CombatantRef;
+  /** Fraction of max HP restored. */
+  percent: number;
+}
+
+export interface SkillCastEvent {
+  type: 'skill_cast';
+  source: CombatantRef;
+  skillName: string;
+  /** Hits every target on the other side. */
+  area: boolean;
+}
+
+export interface PhaseChangeEvent {
+  type: 'phase_change';
+  /** The boss entering the phase. */
+  source: CombatantRef;
+  /** 1-based index into the boss's phases. */
+  phase: number;
+  phaseName?: string;
+  /** Turns of damage immunity the phase grants (omitted when none). */
+  immuneTurns?: number;
+}
+
+export interface SummonEvent {
+  type: 'summon';
+  source: CombatantRef;
+  /** The add that joined the fight. */
+  target: CombatantRef;
+}
+
+export interface EnrageEvent {
+  type: 'enrage';
+  source: CombatantRef;
+  /** Damage multiplier now in effect. */
+  multiplier: number;
+}
+
+export interface ImmuneEvent {
+  type: 'immune';
+  /** null when a DoT was blocked. */
+  source: CombatantRef | null;
+  /** The phase-immune monster that took no damage. */
+  target: CombatantRef;
+}
+
+/**
+ * Everything `processPartyTick` reports, in the order it happened. Log text is rendered
+ * from these (`renderCombatLog`); UIs and analytics should read the events directly.
+ */
+export type CombatEvent =
+  | DamageEvent
+  | DodgeEvent
+  | HealEvent
+  | ShieldAbsorbEvent
+  | DotTickEvent
+  | HotTickEvent
+  | BuffAppliedEvent
+  | DebuffAppliedEvent
+  | StatusExpiredEvent
+  | StatusRemovedEvent
+  | StunEvent
+  | StunTurnEvent
+  | StunResistedEvent
+  | DebuffResistedEvent
+  | InterceptEvent
+  | KillEvent
+  | ResurrectEvent
+  | SkillCastEvent
+  | PhaseChangeEvent
+  | SummonEvent
+  | EnrageEvent
+  | ImmuneEvent;
+
+export const NO_MITIGATION: Readonly<DamageMitigation> = Object.freeze({ resisted: 0, setResisted: 0, reduced: 0, absorbed: 0 });
+
+// --- Rendering ---
+
+const pct = (fraction: number) => Math.round(fraction * 100);
+
+function damageText(e: DamageEvent): string {
+  if (e.damageType === null) return `${e.amount} damage`;
+  if (e.bonus?.length) {
+    const bonusTotal = e.bonus.reduce((sum, b) => sum + b.amount, 0);
+    const parts = e.bonus.map(b => ` + ${b.amount} ${b.damageType}`).join('');
+    return `${e.amount - bonusTotal} ${e.damageType}${parts} damage`;
+  }
+  return `${e.amount} ${e.damageType} damage`;
+}
+
+/**
+ * Render one event as an English combat-log line, or null for events that
+ * are not logged (skill casts that their hit lines already name, expiries).
+ */
+export function renderCombatEvent(e: CombatEvent): string | null {
+  const src = 'source' in e && e.source ? e.source.name : '';
+  switch (e.type) {
+    case 'damage': {
+      const tgt = e.target.name;
+      switch (e.cause) {
+        case 'attack': return `${src} hits ${tgt} for ${damageText(e)}`;
+        case 'skill': return e.source.side === 'player'
+          ? `${src} uses ${e.skillName} on ${tgt} for ${damageText(e)}`
+          : `${src}'s ${e.skillName} hits ${tgt} for ${damageText(e)}`;
+        case 'skill_area': return e.source.side === 'player'
+          ? `${src}'s ${e.skillName} hits ${tgt} for ${damageText(e)}`
+          : `${e.skillName} hits ${tgt} for ${damageText(e)}`;
+        case 'ignore_dr': return `${src} snipes ${tgt} for ${damageText(e)} (ignores DR)`;
+        case 'overflow': return `Overflow! ${e.amount} damage splashes to ${tgt}`;
+        case 'reflect': return `${src}'s ${e.skillName} reflects ${e.amount} damage to ${tgt}`;
+        case 'confusion': return `${src} attacks ${tgt} in confusion for ${e.amount} damage!`;
+      }
+      break;
+    }
+    case 'dodge':
+      if (e.area) return `${e.target.name} dodges ${e.skillName}!`;
+      return `${e.target.name} dodges ${src}'s ${e.skillName ?? 'attack'}!`;
+    case 'heal':
+      return e.source.side === 'player'
+        ? `${src} uses ${e.skillName} on ${e.target.name} for ${e.amount} HP`
+        : `${src} casts ${e.skillName} on ${e.target.name} for ${e.amount} HP!`;
+    case 'shield_absorb':
+      return `${e.target.name}'s shield absorbs ${e.amount} damage`;
+    case 'dot_tick':
+      return `${e.target.name} receives ${e.amount} ${e.damageType} damage from ${e.effectName}${e.stacks > 1 ? ` (x${e.stacks})` : ''}!`;
+    case 'hot_tick':
+      if (e.amount === 0) return null;
+      return `${e.target.name} heals for ${e.amount} HP from ${e.effectName}${e.stacks > 1 ? ` (x${e.stacks})` : ''}`;
+    case 'buff_applied':
+      switch (e.status) {
+        case 'shield': return `${src} shields ${e.target?.name} for ${e.amount} damage`;
+        case 'hot': return `${src} applies ${e.skillName} to ${e.target?.name} (${e.amount} HP/tick for ${e.duration} ticks)`;
+        case 'war_song': return `${src}'s ${e.skillName} increases party damage by ${pct(e.amount ?? 0)}%! (Total: +${pct(e.total ?? 0)}%)`;
+        case 'intercept': return `${src} braces to intercept the next attack on an ally`;
+        case 'brace': return `${src} braces behind their shield`;
+      }
+      return e.target
+        ? `${e.target.name} gains ${e.effectName ?? e.status}`
+        : `${src}'s ${e.skillName} grants ${e.effectName ?? e.status} to the party`;
+    case 'debuff_applied': {
+      const tgt = e.target?.name ?? '';
+      switch (e.status) {
+        case 'dot': return e.source.side === 'player'
+          ? `${tgt} is bleeding!`
+          : `${src} casts ${e.skillName} on ${tgt}! (${e.amount} ${e.damageType} damage/tick for ${e.duration} ticks)`;
+        case 'crippling_shot': return `${tgt}'s damage is reduced by ${pct(e.amount ?? 0)}%!`;
+        case 'sunder': return `${tgt} is sundered! (+${pct(e.total ?? 0)}% incoming damage)`;
+        case 'lullaby': return `${src}'s ${e.skillName} reduces enemy damage by ${pct(e.amount ?? 0)}% for ${e.duration} turns`;
+        case 'chaos': return `${src}'s ${e.skillName} causes chaos! Enemies turn on each other!`;
+      }
+      return e.target
+        ? `${tgt} is afflicted with ${e.effectName ?? e.status}!`
+        : `${src}'s ${e.skillName} afflicts all enemies with ${e.effectName ?? e.status}!`;
+    }
+    case 'buff_expired':
+    case 'debuff_expired':
+      return null;
+    case 'dispel':
+      return `${src} dispels all buffs from ${e.target.name}!`;
+    case 'cure':
+      return `${src} cures ${e.target.name}'s afflictions!`;
+    case 'stun':
+      return e.skillName ? `${src}'s ${e.skillName} stuns ${e.target.name}!` : `${e.target.name} is stunned!`;
+    case 'stun_turn':
+      return `${e.target.name} is stunned!`;
+    case 'stun_resisted':
+      if (e.reason === 'immune') return `${e.target.name}'s ${e.skillName} resists the stun!`;
+      return e.reason === 'diminishing'
+        ? `${e.target.name} shrugs off the stun (diminishing returns)`
+        : `${e.target.name} resists the stun!`;
+    case 'debuff_resisted':
+      return `${e.target.name} resists ${e.effectName}!`;
+    case 'intercept':
+      return e.skillName
+        ? `${src} intercepts ${e.attacker.name}'s ${e.skillName} aimed at ${e.target.name}!`
+        : `${src} intercepts the attack on ${e.target.name}!`;
+    case 'kill':
+      if (e.target.side === 'player') return `${e.target.name} has fallen!`;
+      return `${e.target.name} defeated!${e.byDot ? ' (DoT)' : ''}`;
+    case 'resurrect':
+      return `${src}'s Resurrection revives ${e.target.name} at ${pct(e.percent)}% HP!`;
+    case 'skill_cast':
+      // Monster area casts get a heading line — their per-target lines name only the skill.
+      return e.source.side === 'monster' && e.area ? `${src} casts ${e.skillName}!` : null;
+    case 'phase_change': {
+      const immune = e.immuneTurns ? ` and becomes immune for ${e.immuneTurns} turn${e.immuneTurns === 1 ? '' : 's'}` : '';
+      return e.phaseName
+        ? `${src} enters phase ${e.phase}: ${e.phaseName}${immune}!`
+        : `${src} enters phase ${e.phase}${immune}!`;
+    }
+    case 'summon':
+      return `${src} summons ${e.target.name}!`;
+    case 'enrage':
+      return `${src} becomes enraged! (x${e.multiplier} damage)`;
+    case 'immune':
+      return `${e.target.name} is immune!`;
+  }
+  return null;
+}
+
+/** Render a tick's events as combat-log lines, skipping unlogged events. */
+export function renderCombatLog(events: CombatEvent[]): string[] {
+  const lines: string[] = [];
+  for (const e of events) {
+    const line = renderCombatEvent(e);
+    if (line !== null) lines.push(line);
+  }
+  return lines;
+}
@@ -0,0 +1,369 @@
+import type { DamageType } from './CharacterStats.js';
+import type { ItemDefinition } from './ItemTypes.js';
+import type { StatusInstance, StatusModifiers } from './StatusEffectTypes.js';
+import type { PartyCombatant, PartyCombatState } from './CombatEngine.js';
+import { getEffectiveCooldown } from './CombatEngine.js';
+
+// --- Types ---
+
+/**
+ * What using a consumable does:
+ * - `heal`: restores `amount` (fraction of max HP) to a party member. In combat only.
+ * - `cure`: strips dispellable debuffs and damage over time from a party member. In combat only.
+ * - `buff`: stat `modifiers` on the drinker for `durationSeconds` of real time.
+ * - `booster`: multiplies the drinker's `boost` rewards by 1 + `amount` for `durationSeconds`.
+ * - `skill_reset`: readies the drinker's first active skill for their next turn. In combat only.
+ * - `learn_recipe`: teaches the reader the discoverable recipe `recipeId`. Out of combat only.
+ */
+export type ConsumableEffectKind = 'heal' | 'cure' | 'buff' | 'booster' | 'skill_reset' | 'learn_recipe';
+
+export type BoosterStat = 'xp' | 'gold' | 'drops';
+
+export interface ConsumableEffect {
+  kind: ConsumableEffectKind;
+  /** heal: fraction of max HP restored (0.3 = 30%). booster: bonus fraction (0.5 = +50%). */
+  amount?: number;
+  /** buff only: same per-stat shape as status effect modifiers. */
+  modifiers?: StatusModifiers;
+  /** buff only: damage type of `modifiers.bonusDamage` (default holy). */
+  bonusDamageType?: DamageType;
+  /** booster only: which reward it multiplies. */
+  boost?: BoosterStat;
+  /** buff / booster: real-time duration. */
+  durationSeconds?: number;
+  /** learn_recipe only: the recipe it teaches. */
+  recipeId?: string;
+}
+
+/**
+ * A timed consumable still running on a character. Holds its effect so content
+ * edits don't change a buff already drunk.
+ */
+export interface ActiveConsumable {
+  itemId: string;
+  name: string;
+  effect: ConsumableEffect;
+  /** Epoch ms. */
+  expiresAt: number;
+}
+
+/**
+ * When an auto-use rule fires:
+ * - `member_hp_below` / `self_hp_below`: a living party member (or the drinker) under `hpPercent`.
+ * - `debuffed`: a living party member carries a dispellable debuff or damage over time.
+ * - `keep_active`: at battle start, whenever the item's timed effect isn't running.
+ */
+export type AutoUseTrigger = 'member_hp_below' | 'self_hp_below' | 'debuffed' | 'keep_active';
+
+/** A player's opt-in rule for one consumable. At most one rule per item. */
+export interface AutoUseRule {
+  itemId: string;
+  trigger: AutoUseTrigger;
+  /** HP triggers only: whole percent threshold (1-99). */
+  hpPercent?: number;
+}
+
+// --- Constants ---
+
+export const ALL_CONSUMABLE_EFFECT_KINDS: ConsumableEffectKind[] = ['heal', 'cure', 'buff', 'booster', 'skill_reset', 'learn_recipe'];
+export const ALL_BOOSTER_STATS: BoosterStat[] = ['xp', 'gold', 'drops'];
+
+/** Which auto-use triggers make sense for each effect kind (first = default). */
+export const AUTO_USE_TRIGGERS_BY_KIND: Record<ConsumableEffectKind, AutoUseTrigger[]> = {
+  heal: ['member_hp_below', 'self_hp_below'],
+  cure: ['debuffed'],
+  buff: ['keep_active'],
+  booster: ['keep_active'],
+  skill_reset: ['member_hp_below', 'self_hp_below', 'debuffed'],
+  learn_recipe: [],
+};
+
+export const AUTO_USE_TRIGGER_LABELS: Record<AutoUseTrigger, string> = {
+  member_hp_below: 'Any member below HP %',
+  self_hp_below: 'Me below HP %',
+  debuffed: 'Any member debuffed',
+  keep_active: 'Keep active',
+};
+
+/** Default threshold for a new HP rule. */
+export const DEFAULT_AUTO_USE_HP_PERCENT = 30;
+
+/**
+ * Combat ticks an in-combat rule waits after firing, so a heal lands (and the
+ * HP bar updates) before the next potion is considered.
+ */
+export const AUTO_USE_TICK_COOLDOWN = 3;
+
+const BOOSTER_LABELS: Record<BoosterStat, string> = { xp: 'XP', gold: 'Gold', drops: 'Drop Chance' };
+
+// --- Helpers ---
+
+/** The usable effect of an item, or undefined if it has none. */
+export function getConsumableEffect(def: ItemDefinition | undefined): ConsumableEffect | undefined {
+  return def?.consumable ? def.consumableEffect : undefined;
+}
+
+/** Buffs and boosters run on a clock; everything else resolves instantly. */
+export function isTimedEffect(effect: ConsumableEffect): boolean {
+  return effect.kind === 'buff' || effect.kind === 'booster';
+}
+
+/** Heals, cures and skill resets act on a live battle. */
+export function needsCombat(effect: ConsumableEffect): boolean {
+  return !isTimedEffect(effect) && effect.kind !== 'learn_recipe';
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600} h`;
+  if (seconds >= 60 && seconds % 60 === 0) return `${seconds / 60} min`;
+  return `${seconds}s`;
+}
+
+function formatPercent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+/** Player-facing description, e.g. "+50% Gold for 30 min". */
+export function getConsumableEffectText(effect: ConsumableEffect): string {
+  const duration = effect.durationSeconds ? ` for ${formatDuration(effect.durationSeconds)}` : '';
+  switch (effect.kind) {
+    case 'heal':
+      return `Restores ${formatPercent(effect.amount ?? 0)} HP to the most wounded ally`;
+    case 'cure':
+      return 'Cures debuffs and damage over time on an ally';
+    case 'skill_reset':
+      return 'Readies your first active skill for your next turn';
+    case 'learn_recipe':
+      return 'Teaches a crafting recipe';
+    case 'booster':
+      return `+${formatPercent(effect.amount ?? 0)} ${BOOSTER_LABELS[effect.boost ?? 'xp']}${duration}`;
+    case 'buff': {
+      const m = effect.modifiers ?? {};
+      const parts: string[] = [];
+      if (m.damageDealt) parts.push(`${m.damageDealt > 0 ? '+' : ''}${formatPercent(m.damageDealt)} damage dealt`);
+      if (m.damageTaken) parts.push(`${m.damageTaken > 0 ? '+' : ''}${formatPercent(m.damageTaken)} damage taken`);
+      if (m.dodgeChance) parts.push(`+${formatPercent(m.dodgeChance)} dodge`);
+      if (m.bonusDamage) parts.push(`+${m.bonusDamage} ${effect.bonusDamageType ?? 'holy'} damage per hit`);
+      return `${parts.join(', ') || 'No effect'}${duration}`;
+    }
+  }
+}
+
+/** Drop expired entries. Returns a new array. */
+export function pruneActiveConsumables(active: ActiveConsumable[], now: number): ActiveConsumable[] {
+  return active.filter(a => a.expiresAt > now);
+}
+
+/**
+ * Start (or restart) an item's timed effect. Drinking the same item again resets
+ * its clock; different items run side by side. Returns a new array.
+ */
+export function activateConsumable(
+  active: ActiveConsumable[],
+  def: ItemDefinition,
+  effect: ConsumableEffect,
+  now: number,
+): ActiveConsumable[] {
+  const entry: ActiveConsumable = {
+    itemId: def.id, name: def.name, effect, expiresAt: now + (effect.durationSeconds ?? 0) * 1000,
+  };
+  return [...pruneActiveConsumables(active, now).filter(a => a.itemId !== def.id), entry];
+}
+
+/** Strongest running booster for `stat` as a bonus fraction (0 = none). Boosters don't stack. */
+export function getActiveBoost(active: ActiveConsumable[], stat: BoosterStat, now: number): number {
+  let best = 0;
+  for (const a of active) {
+    if (a.expiresAt > now && a.effect.kind === 'booster' && a.effect.boost === stat) {
+      best = Math.max(best, a.effect.amount ?? 0);
+    }
+  }
+  return best;
+}
+
+/**
+ * The status a running buff puts on its drinker in battle — a non-dispellable
+ * buff that lasts the rest of the fight, built from the consumable's modifiers.
+ */
+export function toConsumableStatus(entry: ActiveConsumable, sourceUsername: string): StatusInstance {
+  const modifiers = { ...(entry.effect.modifiers ?? {}) };
+  return {
+    effectId: `consumable:${entry.itemId}`,
+    definition: {
+      id: `consumable:${entry.itemId}`,
+      name: entry.name,
+      kind: 'buff',
+      stacking: 'refresh',
+      duration: -1,
+      dispellable: false,
+      modifiers,
+      bonusDamageType: entry.effect.bonusDamageType,
+    },
+    sourceUsername,
+    stacks: 1,
+    duration: -1,
+    modifiers,
+    tickAmount: 0,
+  };
+}
+
+/** Put a running buff's status on a combatant, replacing any earlier copy of it. */
+export function applyConsumableStatus(combatant: PartyCombatant, entry: ActiveConsumable): void {
+  const status = toConsumableStatus(entry, combatant.username);
+  combatant.statuses = [...combatant.statuses.filter(s => s.effectId !== status.effectId), status];
+}
+
+function hpFraction(p: PartyCombatant): number {
+  return p.maxHp > 0 ? p.currentHp / p.maxHp : 1;
+}
+
+function isAfflicted(p: PartyCombatant): boolean {
+  return p.dots.length > 0 || p.statuses.some(s => s.definition.kind === 'debuff' && s.definition.dispellable);
+}
+
+function firstActiveSkillIndex(p: PartyCombatant): number {
+  return p.equippedSkills.findIndex(s => !!s && s.type === 'active' && !!s.cooldown && !!s.activeEffects?.length);
+}
+
+/**
+ * Who an in-combat effect would land on when `username` uses it now, or null if
+ * it would do nothing (nobody wounded, nobody debuffed, no active skill, drinker down).
+ * Heals pick the most wounded living member; cures prefer the drinker.
+ */
+export function pickConsumableTarget(
+  state: PartyCombatState,
+  username: string,
+  effect: ConsumableEffect,
+): PartyCombatant | null {
+  const self = state.players.find(p => p.username === username);
+  if (!self || self.currentHp <= 0 || state.finished) return null;
+  const living = state.players.filter(p => p.currentHp > 0);
+  switch (effect.kind) {
+    case 'heal': {
+      const wounded = living.filter(p => p.currentHp < p.maxHp);
+      if (wounded.length === 0) return null;
+      return wounded.reduce((a, b) => (hpFraction(b) < hpFraction(a) ? b : a));
+    }
+    case 'cure':
+      return isAfflicted(self) ? self : living.find(isAfflicted) ?? null;
+    case 'skill_reset':
+      return firstActiveSkillIndex(self) >= 0 ? self : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve an instant effect against a live battle. Mutates `state`; returns the
+ * log line ("Alice drinks Minor Potion: Bob +30 HP."). Call `pickConsumableTarget` first.
+ */
+export function applyConsumableInCombat(
+  state: PartyCombatState,
+  username: string,
+  target: PartyCombatant,
+  def: ItemDefinition,
+  effect: ConsumableEffect,
+): string {
+  const user = `${username} uses ${def.name}`;
+  switch (effect.kind) {
+    case 'heal': {
+      const before = target.currentHp;
+      target.currentHp = Math.min(target.maxHp, target.currentHp + Math.max(1, Math.round(target.maxHp * (effect.amount ?? 0))));
+      return `${user}: ${target.username} +${target.currentHp - before} HP.`;
+    }
+    case 'cure': {
+      const removed = target.statuses.filter(s => s.definition.kind === 'debuff' && s.definition.dispellable);
+      target.statuses = target.statuses.filter(s => !removed.includes(s));
+      const names = [...removed.map(s => s.definition.name), ...target.dots.map(d => d.name)];
+      target.dots = [];
+      return `${user}: cured ${names.join(', ')} on ${target.username}.`;
+    }
+    case 'skill_reset': {
+      const skill = target.equippedSkills[firstActiveSkillIndex(target)]!;
+      // Actives fire when attackCount hits a multiple of the cooldown on the
+      // next turn's increment — park the counter one short of the next multiple.
+      const cd = getEffectiveCooldown(target, skill, state.players);
+      target.attackCount = Math.ceil((target.attackCount + 1) / cd) * cd - 1;
+      return `${user}: ${skill.name} is ready.`;
+    }
+    default:
+      return `${user}.`;
+  }
+}
+
+/**
+ * Whether an in-combat rule should fire now for `username`, returning the
+ * member the effect should land on. `keep_active` rules never fire here.
+ */
+export function getAutoUseTarget(
+  rule: AutoUseRule,
+  state: PartyCombatState,
+  username: string,
+  effect: ConsumableEffect,
+): PartyCombatant | null {
+  const target = pickConsumableTarget(state, username, effect);
+  if (!target) return null;
+  const threshold = (rule.hpPercent ?? DEFAULT_AUTO_USE_HP_PERCENT) / 100;
+  const living = state.players.filter(p => p.currentHp > 0);
+  switch (rule.trigger) {
+    case 'member_hp_below':
+      if (!living.some(p => hpFraction(p) < threshold)) return null;
+      // A heal goes to whoever is lowest, which is the member under the threshold.
+      return target;
+    case 'self_hp_below': {
+      const self = living.find(p => p.username === username)!;
+      if (hpFraction(self) >= threshold) return null;
+      return effect.kind === 'heal' ? self : target;
+    }
+    case 'debuffed':
+      return living.some(isAfflicted) ? target : null;
+    default:
+      return null;
+  }
+}
+
+// --- Validation ---
+
+/** Validate an item's consumable effect. Returns a list of error messages (empty = valid). */
+export function validateConsumableEffect(def: ItemDefinition): string[] {
+  const effect = def.consumableEffect;
+  if (!effect) return [];
+  const errors: string[] = [];
+  if (!def.consumable) errors.push('Only consumables can have a consumable effect.');
+  if (def.equipSlot) errors.push('A consumable cannot have an equip slot.');
+  if (!ALL_CONSUMABLE_EFFECT_KINDS.includes(effect.kind)) {
+    errors.push(`Consumable effect kind must be one of: ${ALL_CONSUMABLE_EFFECT_KINDS.join(', ')}.`);
+    return errors;
+  }
+  if (effect.kind === 'heal' && !(typeof effect.amount === 'number' && effect.amount > 0 && effect.amount <= 1)) {
+    errors.push('Heal amount must be a fraction of max HP in (0, 1].');
+  }
+  if (effect.kind === 'booster') {
+    if (!effect.boost || !ALL_BOOSTER_STATS.includes(effect.boost)) errors.push(`Booster stat must be one of: ${ALL_BOOSTER_STATS.join(', ')}.`);
+    if (!(typeof effect.amount === 'number' && effect.amount > 0)) errors.push('Booster amount must be a positive fraction.');
+  }
+  if (effect.kind === 'buff') {
+    const values = Object.values(effect.modifiers ?? {});
+    if (values.length === 0 || values.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+      errors.push('A buff needs at least one numeric modifier.');
+    }
+  }
+  if (effect.kind === 'learn_recipe' && !effect.recipeId) {
+    errors.push('A recipe item needs the recipe it teaches.');
+  }
+  if (isTimedEffect(effect) && !(Number.isInteger(effect.durationSeconds) && effect.durationSeconds! > 0)) {
+    errors.push('Buffs and boosters need a whole-second duration above 0.');
+  }
+  return errors;
+}
+
+/** Validate a player's auto-use rule against the item it names. Returns an error message, or null. */
+export function validateAutoUseRule(rule: AutoUseRule, def: ItemDefinition | undefined): string | null {
+  const effect = getConsumableEffect(def);
+  if (!def || !effect) return 'That item has no use effect.';
+  if (!AUTO_USE_TRIGGERS_BY_KIND[effect.kind].includes(rule.trigger)) return `${def.name} can't be auto-used that way.`;
+  if (rule.trigger === 'member_hp_below' || rule.trigger === 'self_hp_below') {
+    if (!Number.isInteger(rule.hpPercent) || rule.hpPercent! < 1 || rule.hpPercent! > 99) return 'HP threshold must be 1-99%.';
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+import type { ItemDefinition } from './ItemTypes.js';
+
+// --- Types ---
+
+/**
+ * Quality a crafted piece of gear rolls on completion. Normal output is the
+ * plain content item; fine and masterwork pieces become item instances that
+ * carry their quality (see `ItemInstance.quality`).
+ */
+export type CraftQuality = 'normal' | 'fine' | 'masterwork';
+
+/** Percent chance of each quality (sums to 100). */
+export type CraftQualityOdds = Record<CraftQuality, number>;
+
+// --- Constants ---
+
+export const ALL_CRAFT_QUALITIES: CraftQuality[] = ['normal', 'fine', 'masterwork'];
+
+export const CRAFT_QUALITY_LABELS: Record<CraftQuality, string> = {
+  normal: 'Normal',
+  fine: 'Fine',
+  masterwork: 'Masterwork',
+};
+
+/** Multiplier applied to a crafted item's attack / reduction ranges and gold value. */
+export const CRAFT_QUALITY_STAT_MULTIPLIER: Record<CraftQuality, number> = {
+  normal: 1,
+  fine: 1.15,
+  masterwork: 1.3,
+};
+
+/** Odds at exactly the recipe's craft level. */
+export const BASE_FINE_CHANCE = 10;
+export const BASE_MASTERWORK_CHANCE = 0;
+/** Added per craft level above the recipe's. */
+export const FINE_CHANCE_PER_LEVEL = 4;
+export const MASTERWORK_CHANCE_PER_LEVEL = 2;
+export const MAX_FINE_CHANCE = 50;
+export const MAX_MASTERWORK_CHANCE = 25;
+
+// --- Pure functions ---
+
+/** Quality odds for a crafter of `craftLevel` on a recipe needing `requiredCraftLevel`. */
+export function getCraftQualityOdds(craftLevel: number, requiredCraftLevel: number): CraftQualityOdds {
+  const gap = Math.max(0, craftLevel - requiredCraftLevel);
+  const fine = Math.min(MAX_FINE_CHANCE, BASE_FINE_CHANCE + gap * FINE_CHANCE_PER_LEVEL);
+  const masterwork = Math.min(MAX_MASTERWORK_CHANCE, BASE_MASTERWORK_CHANCE + gap * MASTERWORK_CHANCE_PER_LEVEL);
+  return { normal: 100 - fine - masterwork, fine, masterwork };
+}
+
+/** Pick a quality from `odds`. `rng` is injectable for deterministic tests. */
+export function rollCraftQuality(odds: CraftQualityOdds, rng: () => number = Math.random): CraftQuality {
+  const roll = rng() * 100;
+  if (roll < odds.masterwork) return 'masterwork';
+  if (roll < odds.masterwork + odds.fine) return 'fine';
+  return 'normal';
+}
+
+function scaleStat(value: number | undefined, multiplier: number): number | undefined {
+  // Round up so even small stats gain at least a point
+  return value && value > 0 ? Math.ceil(value * multiplier) : value;
+}
+
+/**
+ * A definition with quality applied: attack / damage reduction / magic
+ * reduction ranges and gold value scaled by `CRAFT_QUALITY_STAT_MULTIPLIER`,
+ * and the name prefixed ("Fine Leather Vest"). Normal quality returns `def`.
+ */
+export function applyCraftQuality(def: ItemDefinition, quality: CraftQuality): ItemDefinition {
+  if (quality === 'normal') return def;
+  const m = CRAFT_QUALITY_STAT_MULTIPLIER[quality];
+  return {
+    ...def,
+    name: `${CRAFT_QUALITY_LABELS[quality]} ${def.name}`,
+    quality,
+    bonusAttackMin: scaleStat(def.bonusAttackMin, m),
+    bonusAttackMax: scaleStat(def.bonusAttackMax, m),
+    damageReductionMin: scaleStat(def.damageReductionMin, m),
+    damageReductionMax: scaleStat(def.damageReductionMax, m),
+    magicReductionMin: scaleStat(def.magicReductionMin, m),
+    magicReductionMax: scaleStat(def.magicReductionMax, m),
+    value: def.value !== undefined ? Math.round(def.value * m) : undefined,
+  };
+}
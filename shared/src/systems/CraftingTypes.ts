@@ -1,4 +1,9 @@
+import type { ItemDefinition } from './ItemTypes.js';
 import { MAX_STACK } from './ItemTypes.js';
+import type { ItemInstance } from './AffixTypes.js';
+import { createItemInstanceId } from './AffixTypes.js';
+import type { CraftQuality, CraftQualityOdds } from './CraftQualityTypes.js';
+import { getCraftQualityOdds, rollCraftQuality } from './CraftQualityTypes.js';
 
 export const CRAFTING_UNLOCK_LEVEL = 20;
 export const MAX_CRAFT_QUEUE = 5;
@@ -21,6 +26,13 @@ export interface RecipeDefinition {
   classRestriction?: string[];
   /** Defaults to CRAFTING_UNLOCK_LEVEL when omitted. */
   requiredLevel?: number;
+  /** Craft skill level needed to queue this recipe. Defaults to 1. Also the baseline for quality odds. */
+  requiredCraftLevel?: number;
+  /**
+   * Hidden until learned — from a recipe item, a quest reward or an NPC teacher.
+   * Absent = a starter recipe every eligible player knows.
+   */
+  discoverable?: boolean;
   durationSeconds: number;
   /** Craft skill XP granted on completion. Default 0 if omitted. */
   xpReward?: number;
@@ -30,6 +42,8 @@ export interface RecipeDefinition {
 
 export interface CraftJob {
   recipeId: string;
+  /** Work order the output is for — delivered on completion (see WorkOrderTypes). */
+  workOrderId?: string;
 }
 
 /**
@@ -50,6 +64,7 @@ export type EnqueueError =
   | 'queue_full'
   | 'unknown_recipe'
   | 'level_too_low'
+  | 'craft_level_too_low'
   | 'class_restricted'
   | 'missing_ingredients';
 
@@ -59,10 +74,12 @@ export function canQueueRecipe(
   queue: CraftQueueState,
   className: string | null,
   level: number,
+  craftLevel: number = 1,
 ): { ok: true } | { ok: false; reason: EnqueueError } {
   if (queue.jobs.length >= MAX_CRAFT_QUEUE) return { ok: false, reason: 'queue_full' };
   const requiredLevel = recipe.requiredLevel ?? CRAFTING_UNLOCK_LEVEL;
   if (level < requiredLevel) return { ok: false, reason: 'level_too_low' };
+  if (craftLevel < getRequiredCraftLevel(recipe)) return { ok: false, reason: 'craft_level_too_low' };
   if (recipe.classRestriction && recipe.classRestriction.length > 0) {
     if (!className || !recipe.classRestriction.includes(className)) {
       return { ok: false, reason: 'class_restricted' };
@@ -87,8 +104,10 @@ export function enqueueRecipe(
   className: string | null,
   level: number,
   now: number,
+  craftLevel: number = 1,
+  workOrderId?: string,
 ): { ok: true } | { ok: false; reason: EnqueueError } {
-  const check = canQueueRecipe(recipe, inventory, queue, className, level);
+  const check = canQueueRecipe(recipe, inventory, queue, className, level, craftLevel);
   if (!check.ok) return check;
   for (const ing of recipe.ingredients) {
     const cur = inventory[ing.itemId] ?? 0;
@@ -97,7 +116,7 @@ export function enqueueRecipe(
     else inventory[ing.itemId] = next;
   }
   if (queue.jobs.length === 0) queue.activeStartedAtMs = now;
-  queue.jobs.push({ recipeId: recipe.id });
+  queue.jobs.push({ recipeId: recipe.id, ...(workOrderId ? { workOrderId } : {}) });
   return { ok: true };
 }
 
@@ -132,10 +151,46 @@ export function cancelJobAt(
 export interface CompletedJobEvent {
   recipeId: string;
   resultItemId: string;
-  /** Actually added to inventory (capped at MAX_STACK). */
+  /** Actually added to inventory (capped at MAX_STACK). Includes `instances`. */
   quantityProduced: number;
+  /** Handed straight to the job's work order, never touching inventory. */
+  quantityDelivered?: number;
   /** Lost to MAX_STACK overflow. */
   quantityLost: number;
+  /**
+   * Fine / masterwork units, each added to inventory under its own instance id.
+   * The caller must keep these records (e.g. in `itemInstances`).
+   */
+  instances?: ItemInstance[];
+  /** Copied from the job — its output went to this work order first. */
+  workOrderId?: string;
+}
+
+/** What `processCompletions` needs to roll quality on gear results. */
+export interface CraftQualityContext {
+  craftLevel: number;
+  items: Record<string, ItemDefinition>;
+  rng?: () => number;
+}
+
+/** Craft skill level a recipe requires (1 when unset). */
+export function getRequiredCraftLevel(recipe: RecipeDefinition): number {
+  return recipe.requiredCraftLevel ?? 1;
+}
+
+/** True if the recipe's result is gear, the only output that rolls quality. */
+export function recipeRollsQuality(recipe: RecipeDefinition, items: Record<string, ItemDefinition>): boolean {
+  return !!items[recipe.result.itemId]?.equipSlot;
+}
+
+/** Quality odds for crafting `recipe` at `craftLevel`, or null if its result doesn't roll quality. */
+export function getRecipeQualityOdds(
+  recipe: RecipeDefinition,
+  craftLevel: number,
+  items: Record<string, ItemDefinition>,
+): CraftQualityOdds | null {
+  if (!recipeRollsQuality(recipe, items)) return null;
+  return getCraftQualityOdds(craftLevel, getRequiredCraftLevel(recipe));
 }
 
 /**
@@ -143,12 +198,19 @@ export interface CompletedJobEvent {
  * Walks the queue advancing the head's start time as each completes — handles offline
  * catch-up where many jobs may complete in a single call.
  * Overflow (would exceed MAX_STACK) is lost; `quantityLost` reports it.
+ * With a `quality` context, each unit of a gear result rolls a quality: normal
+ * units stack as usual, better ones become instances (see `CompletedJobEvent.instances`).
+ * A job tagged with a work order offers its normal units to `deliverWorkOrder`
+ * first (returns how many the order took); only the rest goes to inventory,
+ * so a full stack can't eat units the order would have accepted.
  */
 export function processCompletions(
   recipes: Record<string, RecipeDefinition>,
   inventory: Record<string, number>,
   queue: CraftQueueState,
   now: number,
+  quality?: CraftQualityContext,
+  deliverWorkOrder?: (workOrderId: string, itemId: string, units: number) => number,
 ): CompletedJobEvent[] {
   const events: CompletedJobEvent[] = [];
   while (queue.jobs.length > 0 && queue.activeStartedAtMs !== null) {
@@ -162,12 +224,37 @@ export function processCompletions(
     }
     const completesAt = queue.activeStartedAtMs + recipe.durationSeconds * 1000;
     if (completesAt > now) break;
+    const odds = quality ? getRecipeQualityOdds(recipe, quality.craftLevel, quality.items) : null;
+    const instances: ItemInstance[] = [];
+    let normal = recipe.result.quantity;
+    if (odds) {
+      for (let i = 0; i < recipe.result.quantity; i++) {
+        const rolled: CraftQuality = rollCraftQuality(odds, quality!.rng);
+        if (rolled === 'normal') continue;
+        const id = createItemInstanceId(recipe.result.itemId, quality!.rng);
+        instances.push({ id, itemId: recipe.result.itemId, affixes: [], quality: rolled });
+        inventory[id] = 1;
+        normal--;
+      }
+    }
+    let delivered = 0;
+    if (head.workOrderId && normal > 0 && deliverWorkOrder) {
+      delivered = Math.max(0, Math.min(normal, deliverWorkOrder(head.workOrderId, recipe.result.itemId, normal)));
+      normal -= delivered;
+    }
     const cur = inventory[recipe.result.itemId] ?? 0;
-    const requested = recipe.result.quantity;
-    const fits = Math.max(0, Math.min(MAX_STACK - cur, requested));
-    const lost = requested - fits;
+    const fits = Math.max(0, Math.min(MAX_STACK - cur, normal));
+    const lost = normal - fits;
     if (fits > 0) inventory[recipe.result.itemId] = cur + fits;
-    events.push({ recipeId: recipe.id, resultItemId: recipe.result.itemId, quantityProduced: fits, quantityLost: lost });
+    events.push({
+      recipeId: recipe.id,
+      resultItemId: recipe.result.itemId,
+      quantityProduced: fits + instances.length,
+      quantityLost: lost,
+      ...(delivered > 0 ? { quantityDelivered: delivered } : {}),
+      ...(instances.length > 0 ? { instances } : {}),
+      ...(head.workOrderId ? { workOrderId: head.workOrderId } : {}),
+    });
     queue.jobs.shift();
     queue.activeStartedAtMs = queue.jobs.length > 0 ? completesAt : null;
   }
@@ -202,21 +289,47 @@ export function getActiveJobProgress(
   };
 }
 
-/** Filter recipes to those visible to a player (class + always-show shared recipes). */
+/** True if the player knows `recipe`: starter recipes always, discoverable ones once learned. */
+export function isRecipeKnown(recipe: RecipeDefinition, knownRecipeIds: readonly string[] = []): boolean {
+  return !recipe.discoverable || knownRecipeIds.includes(recipe.id);
+}
+
+/**
+ * Filter recipes to those visible to a player: class-allowed, and either a
+ * starter recipe or a discoverable one in `knownRecipeIds`.
+ */
 export function getVisibleRecipes(
   recipes: Record<string, RecipeDefinition>,
   className: string | null,
+  knownRecipeIds: readonly string[] = [],
 ): RecipeDefinition[] {
   const out: RecipeDefinition[] = [];
   for (const recipe of Object.values(recipes)) {
     if (recipe.classRestriction && recipe.classRestriction.length > 0) {
       if (!className || !recipe.classRestriction.includes(className)) continue;
     }
+    if (!isRecipeKnown(recipe, knownRecipeIds)) continue;
     out.push(recipe);
   }
   return out;
 }
 
+/**
+ * Why a player can't learn `recipe` right now, or null if they can. Starter
+ * recipes count as already known.
+ */
+export function getLearnRecipeError(
+  recipe: RecipeDefinition,
+  className: string | null,
+  knownRecipeIds: readonly string[] = [],
+): string | null {
+  if (isRecipeKnown(recipe, knownRecipeIds)) return `You already know ${recipe.name}.`;
+  if (recipe.classRestriction && recipe.classRestriction.length > 0) {
+    if (!className || !recipe.classRestriction.includes(className)) return `Only ${recipe.classRestriction.join(', ')} can learn ${recipe.name}.`;
+  }
+  return null;
+}
+
 export const SEED_RECIPES: Record<string, RecipeDefinition> = {
   reinforced_leather_vest: {
     id: 'reinforced_leather_vest',
@@ -262,7 +375,7 @@ export const SEED_RECIPES: Record<string, RecipeDefinition> = {
     ingredients: [{ itemId: 'mangy_pelt', quantity: 4 }],
     result: { itemId: 'gnarled_wand', quantity: 1 },
   },
-  // Mage Alchemy starter: brews a basic potion (consumable; not usable yet)
+  // Mage Alchemy: potions and elixirs (see ConsumableTypes)
   brew_lesser_red_potion: {
     id: 'brew_lesser_red_potion',
     name: 'Brew Lesser Red Potion',
@@ -274,6 +387,50 @@ export const SEED_RECIPES: Record<string, RecipeDefinition> = {
     ingredients: [{ itemId: 'mangy_pelt', quantity: 1 }],
     result: { itemId: 'lesser_red_potion', quantity: 1 },
   },
+  brew_antidote: {
+    id: 'brew_antidote',
+    name: 'Brew Antidote',
+    description: 'Boil a pelt down to a bitter, cleansing draught.',
+    classRestriction: ['Mage'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 45,
+    xpReward: 10,
+    ingredients: [{ itemId: 'mangy_pelt', quantity: 2 }],
+    result: { itemId: 'antidote', quantity: 1 },
+  },
+  brew_elixir_of_might: {
+    id: 'brew_elixir_of_might',
+    name: 'Brew Elixir of Might',
+    description: 'Steep arcane dust into a fiery tonic.',
+    classRestriction: ['Mage'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 90,
+    xpReward: 20,
+    ingredients: [{ itemId: 'lesser_red_potion', quantity: 1 }, { itemId: 'arcane_dust', quantity: 2 }],
+    result: { itemId: 'elixir_of_might', quantity: 1 },
+  },
+  brew_gold_elixir: {
+    id: 'brew_gold_elixir',
+    name: 'Brew Gold Elixir',
+    description: 'Dissolve scrap into a glittering brew that draws coin.',
+    classRestriction: ['Mage'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 90,
+    xpReward: 20,
+    ingredients: [{ itemId: 'scrap_metal', quantity: 4 }, { itemId: 'arcane_dust', quantity: 1 }],
+    result: { itemId: 'gold_elixir', quantity: 1 },
+  },
+  scribe_reset_scroll: {
+    id: 'scribe_reset_scroll',
+    name: 'Scribe Reset Scroll',
+    description: 'Ink a rune that snaps a spell back into readiness.',
+    classRestriction: ['Mage'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 60,
+    xpReward: 15,
+    ingredients: [{ itemId: 'mangy_pelt', quantity: 2 }, { itemId: 'arcane_dust', quantity: 1 }],
+    result: { itemId: 'reset_scroll', quantity: 1 },
+  },
   tin_whistle_craft: {
     id: 'tin_whistle_craft',
     name: 'Tin Whistle',
@@ -285,6 +442,76 @@ export const SEED_RECIPES: Record<string, RecipeDefinition> = {
     ingredients: [{ itemId: 'mangy_pelt', quantity: 4 }],
     result: { itemId: 'tin_whistle', quantity: 1 },
   },
+  // Bard Tinkering: gem cutting for socketed gear
+  cut_rough_garnet: {
+    id: 'cut_rough_garnet',
+    name: 'Cut Rough Garnet',
+    description: 'Pry a dull red stone out of a matted pelt and polish it.',
+    classRestriction: ['Bard'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 45,
+    xpReward: 10,
+    ingredients: [{ itemId: 'mangy_pelt', quantity: 3 }],
+    result: { itemId: 'rough_garnet', quantity: 1 },
+  },
+  cut_rough_quartz: {
+    id: 'cut_rough_quartz',
+    name: 'Cut Rough Quartz',
+    description: 'Chip a clear shard into a socket-ready cut.',
+    classRestriction: ['Bard'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 45,
+    xpReward: 10,
+    ingredients: [{ itemId: 'mangy_pelt', quantity: 3 }],
+    result: { itemId: 'rough_quartz', quantity: 1 },
+  },
+  // Salvage-fed recipes
+  reforge_iron_battleaxe: {
+    id: 'reforge_iron_battleaxe',
+    name: 'Reforge Iron Battleaxe',
+    description: 'Hammer salvaged scrap into a proper axe head.',
+    classRestriction: ['Knight'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    requiredCraftLevel: 3,
+    discoverable: true,
+    durationSeconds: 90,
+    xpReward: 20,
+    ingredients: [{ itemId: 'scrap_metal', quantity: 8 }],
+    result: { itemId: 'iron_battleaxe', quantity: 1 },
+  },
+  cut_ember_opal: {
+    id: 'cut_ember_opal',
+    name: 'Cut Ember Opal',
+    description: 'Fuse arcane dust into a garnet until it glows.',
+    classRestriction: ['Bard'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 90,
+    xpReward: 20,
+    ingredients: [{ itemId: 'rough_garnet', quantity: 1 }, { itemId: 'arcane_dust', quantity: 3 }],
+    result: { itemId: 'ember_opal', quantity: 1 },
+  },
+  smelt_tempered_ingot: {
+    id: 'smelt_tempered_ingot',
+    name: 'Smelt Tempered Ingot',
+    description: 'Fold scrap into an ingredient other crafts rely on.',
+    classRestriction: ['Knight'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 60,
+    xpReward: 15,
+    ingredients: [{ itemId: 'scrap_metal', quantity: 3 }],
+    result: { itemId: 'tempered_ingot', quantity: 1 },
+  },
+  stitch_magma_boots: {
+    id: 'stitch_magma_boots',
+    name: 'Stitch Magma Boots',
+    description: 'Line hide boots with tempered plates — the ingots come from a smith.',
+    classRestriction: ['Archer'],
+    requiredLevel: CRAFTING_UNLOCK_LEVEL,
+    durationSeconds: 120,
+    xpReward: 25,
+    ingredients: [{ itemId: 'tempered_ingot', quantity: 2 }, { itemId: 'mangy_pelt', quantity: 2 }],
+    result: { itemId: 'magma_boots', quantity: 1 },
+  },
   patched_cloak: {
     id: 'patched_cloak',
     name: 'Patched Cloak',
@@ -0,0 +1,173 @@
+import type { BattleResult } from './BattleTypes.js';
+import type { CombatEvent, DamageEvent } from './CombatEvents.js';
+
+// --- Types ---
+
+/** One party member's totals over a battle (or a run of battles). */
+export interface MeterMemberStats {
+  username: string;
+  className: string;
+  /** Damage dealt to monsters — hits, splashes, reflects and this member's share of DoT ticks. */
+  damageDealt: number;
+  /** `damageDealt` broken down by source: skill name, "Attack", "Overflow" or "<dot> (DoT)". */
+  damageBySource: Record<string, number>;
+  /** Damage taken from monster hits and DoTs, after mitigation. */
+  damageTaken: number;
+  /** HP restored by this member's heals and HoTs. */
+  healingDone: number;
+  /** Healing this member cast past the target's max HP. */
+  overheal: number;
+  /** Damage soaked by shields this member cast. */
+  shieldAbsorbed: number;
+  /** Stuns this member applied to monsters. */
+  stunsLanded: number;
+}
+
+export interface BattleMeterSummary {
+  /** null while the battle is still being fought. */
+  result: BattleResult | null;
+  rounds: number;
+  ticks: number;
+  members: MeterMemberStats[];
+}
+
+/** Totals across a party's recent battles. */
+export interface SessionMeterSummary {
+  battles: number;
+  wins: number;
+  members: MeterMemberStats[];
+}
+
+/** What clients receive for the meter panel. */
+export interface ClientMeterState {
+  /** The fight in progress (null between battles). */
+  current: BattleMeterSummary | null;
+  /** The most recently finished fight. */
+  last: BattleMeterSummary | null;
+  /** Totals over the party's last `METER_HISTORY_SIZE` finished fights. */
+  session: SessionMeterSummary;
+}
+
+/** Finished battle summaries kept per party. */
+export const METER_HISTORY_SIZE = 20;
+
+// --- Functions ---
+
+function emptyStats(username: string, className: string): MeterMemberStats {
+  return {
+    username, className,
+    damageDealt: 0, damageBySource: {}, damageTaken: 0,
+    healingDone: 0, overheal: 0, shieldAbsorbed: 0, stunsLanded: 0,
+  };
+}
+
+/** Start an empty meter for a battle's party. */
+export function createBattleMeter(players: { username: string; className: string }[]): BattleMeterSummary {
+  return { result: null, rounds: 0, ticks: 0, members: players.map(p => emptyStats(p.username, p.className)) };
+}
+
+function damageSourceLabel(e: DamageEvent): string {
+  if (e.skillName) return e.skillName;
+  return e.cause === 'overflow' ? 'Overflow' : 'Attack';
+}
+
+function addDamage(stats: MeterMemberStats, label: string, amount: number): void {
+  stats.damageDealt += amount;
+  stats.damageBySource[label] = (stats.damageBySource[label] ?? 0) + amount;
+}
+
+/**
+ * Fold one tick's combat events into a meter. Only party members are tracked —
+ * monster-side sources are ignored. DoT and HoT ticks are split across appliers.
+ */
+export function recordMeterEvents(meter: BattleMeterSummary, events: CombatEvent[]): void {
+  const byName = new Map(meter.members.map(m => [m.username, m]));
+  meter.ticks++;
+
+  for (const e of events) {
+    switch (e.type) {
+      case 'damage': {
+        if (e.source.side === 'player' && e.target.side === 'monster') {
+          const stats = byName.get(e.source.name);
+          if (stats) addDamage(stats, damageSourceLabel(e), e.amount);
+        } else if (e.target.side === 'player') {
+          const stats = byName.get(e.target.name);
+          if (stats) stats.damageTaken += e.amount;
+        }
+        break;
+      }
+      case 'dot_tick': {
+        if (e.target.side === 'player') {
+          const stats = byName.get(e.target.name);
+          if (stats) stats.damageTaken += e.amount;
+          break;
+        }
+        const raw = Object.values(e.rawBySource).reduce((sum, n) => sum + n, 0);
+        if (raw <= 0) break;
+        for (const [source, share] of Object.entries(e.rawBySource)) {
+          const stats = byName.get(source);
+          if (stats) addDamage(stats, `${e.effectName} (DoT)`, e.amount * share / raw);
+        }
+        break;
+      }
+      case 'heal': {
+        const stats = e.source.side === 'player' ? byName.get(e.source.name) : undefined;
+        if (stats) {
+          stats.healingDone += e.amount;
+          stats.overheal += e.overheal;
+        }
+        break;
+      }
+      case 'hot_tick': {
+        for (const [source, amount] of Object.entries(e.bySource)) {
+          const stats = byName.get(source);
+          if (stats) stats.healingDone += amount;
+        }
+        for (const [source, amount] of Object.entries(e.overhealBySource)) {
+          const stats = byName.get(source);
+          if (stats) stats.overheal += amount;
+        }
+        break;
+      }
+      case 'shield_absorb': {
+        const stats = e.source ? byName.get(e.source.name) : undefined;
+        if (stats) stats.shieldAbsorbed += e.amount;
+        break;
+      }
+      case 'stun': {
+        const stats = e.source.side === 'player' ? byName.get(e.source.name) : undefined;
+        if (stats) stats.stunsLanded++;
+        break;
+      }
+    }
+  }
+}
+
+/** Sum finished battles into per-member session totals (members in order of first appearance). */
+export function summarizeMeterSession(history: BattleMeterSummary[]): SessionMeterSummary {
+  const totals = new Map<string, MeterMemberStats>();
+  for (const battle of history) {
+    for (const m of battle.members) {
+      let t = totals.get(m.username);
+      if (!t) {
+        t = emptyStats(m.username, m.className);
+        totals.set(m.username, t);
+      }
+      t.className = m.className;
+      t.damageDealt += m.damageDealt;
+      for (const [label, amount] of Object.entries(m.damageBySource)) {
+        t.damageBySource[label] = (t.damageBySource[label] ?? 0) + amount;
+      }
+      t.damageTaken += m.damageTaken;
+      t.healingDone += m.healingDone;
+      t.overheal += m.overheal;
+      t.shieldAbsorbed += m.shieldAbsorbed;
+      t.stunsLanded += m.stunsLanded;
+    }
+  }
+  return {
+    battles: history.length,
+    wins: history.filter(b => b.result === 'victory').length,
+    members: Array.from(totals.values()),
+  };
+}
@@ -1,5 +1,8 @@
 import type { EncounterTableEntry } from './ZoneTypes.js';
 import type { ClassName } from './CharacterStats.js';
+import type { MonsterDefinition, MonsterInstance } from './MonsterTypes.js';
+import { createMonsterInstance } from './MonsterTypes.js';
+import type { PartyGridPosition } from './SocialTypes.js';
 
 // --- Types ---
 
@@ -31,8 +34,15 @@ export interface DungeonFloor {
   gridShape: DungeonGridShape;
   /** Weighted encounter table for combats on this floor. */
   encounterTable: EncounterTableEntry[];
-  /** Marks this floor as a boss encounter (for future special handling). */
+  /** Marks this floor as a boss encounter (shown in the dungeon HUD). */
   isBoss?: boolean;
+  /**
+   * Boss monster fought on a boss floor, joining whatever the encounter table rolls
+   * (an empty table means the boss fights alone). Its `phases` script the fight.
+   */
+  bossMonsterId?: string;
+  /** Grid position the boss takes, evicting any rolled monster there. Defaults to 4 (centre). */
+  bossPosition?: PartyGridPosition;
   /** Optional bonus drops awarded on floor clear, in addition to monster loot. */
   rewards?: DungeonReward[];
 }
@@ -97,6 +107,7 @@ export const SEED_DUNGEONS: Record<string, DungeonDefinition> = {
           { encounterId: 'crystal_caves_wolves', weight: 1 },
         ],
         isBoss: true,
+        bossMonsterId: 'crystal_golem',
       },
     ],
     entryRequirements: {
@@ -228,3 +239,19 @@ export function rollDungeonRewards(
   }
   return granted;
 }
+
+/**
+ * Put a boss floor's boss into its rolled encounter: the boss takes `bossPosition`
+ * (default centre) and any rolled monster there is dropped. Returns the encounter
+ * unchanged when the floor has no boss or the boss monster is unknown.
+ */
+export function placeFloorBoss(
+  floor: DungeonFloor,
+  monsters: Record<string, MonsterDefinition>,
+  encounter: MonsterInstance[],
+): MonsterInstance[] {
+  const bossDef = floor.isBoss && floor.bossMonsterId ? monsters[floor.bossMonsterId] : undefined;
+  if (!bossDef) return encounter;
+  const position = floor.bossPosition ?? 4;
+  return [...encounter.filter(m => m.gridPosition !== position), createMonsterInstance(bossDef, position)];
+}
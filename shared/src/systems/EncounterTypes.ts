@@ -77,15 +77,17 @@ export const SEED_ENCOUNTERS: Record<string, EncounterDefinition> = {
 /**
  * Resolve an encounter definition into concrete monster instances.
  * Handles both 'random' (pool with min/max + roomMax cap) and 'explicit' (fixed placements).
+ * `rng` is injectable for deterministic tests and seeded battles.
  */
 export function resolveEncounter(
   encounter: EncounterDefinition,
   monsters: Record<string, MonsterDefinition>,
+  rng: () => number = Math.random,
 ): MonsterInstance[] {
   if (encounter.type === 'explicit') {
     return resolveExplicit(encounter, monsters);
   }
-  return resolveRandom(encounter, monsters);
+  return resolveRandom(encounter, monsters, rng);
 }
 
 function resolveExplicit(
@@ -107,6 +109,7 @@ function resolveExplicit(
 function resolveRandom(
   encounter: EncounterDefinition,
   monsters: Record<string, MonsterDefinition>,
+  rng: () => number,
 ): MonsterInstance[] {
   if (!encounter.monsterPool?.length) return [];
 
@@ -117,7 +120,7 @@ function resolveRandom(
   for (const entry of encounter.monsterPool) {
     const def = monsters[entry.monsterId];
     if (!def) continue;
-    const count = entry.min + Math.floor(Math.random() * (entry.max - entry.min + 1));
+    const count = entry.min + Math.floor(rng() * (entry.max - entry.min + 1));
     if (count > 0) {
       rolled.push({ monsterId: entry.monsterId, count });
     }
@@ -149,14 +152,14 @@ function resolveRandom(
 
   // Shuffle (Fisher-Yates)
   for (let i = pool.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [pool[i], pool[j]] = [pool[j], pool[i]];
   }
 
   // Generate random unique grid positions
   const allPositions: PartyGridPosition[] = [0, 1, 2, 3, 4, 5, 6, 7, 8];
   for (let i = allPositions.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [allPositions[i], allPositions[j]] = [allPositions[j], allPositions[i]];
   }
 
@@ -174,9 +177,9 @@ function resolveRandom(
 // --- Encounter Table Resolution ---
 
 /** Pick a random entry from a weighted encounter table. */
-function pickWeightedEncounter(table: EncounterTableEntry[]): EncounterTableEntry {
+function pickWeightedEncounter(table: EncounterTableEntry[], rng: () => number): EncounterTableEntry {
   const totalWeight = table.reduce((sum, e) => sum + e.weight, 0);
-  let roll = Math.random() * totalWeight;
+  let roll = rng() * totalWeight;
   for (const entry of table) {
     roll -= entry.weight;
     if (roll <= 0) return entry;
@@ -190,6 +193,7 @@ const FALLBACK_POSITIONS: PartyGridPosition[] = [4, 1];
 /**
  * Create an encounter for the given zone, with optional room-level override.
  * Priority: roomEncounterTable → zone's encounterTable → goblin fallback.
+ * `rng` drives the table pick and the random-pool rolls (see `resolveEncounter`).
  */
 export function createEncounter(
   zoneId: string | undefined,
@@ -197,6 +201,7 @@ export function createEncounter(
   zones: Record<string, ZoneDefinition>,
   encounters: Record<string, EncounterDefinition>,
   roomEncounterTable?: EncounterTableEntry[],
+  rng: () => number = Math.random,
 ): MonsterInstance[] {
   const fallbackDef = monsters['goblin'] ?? Object.values(monsters)[0];
   if (!fallbackDef) return [];
@@ -218,7 +223,7 @@ export function createEncounter(
     ];
   }
 
-  const entry = pickWeightedEncounter(encounterTable);
+  const entry = pickWeightedEncounter(encounterTable, rng);
   const encounterDef = encounters[entry.encounterId];
   if (!encounterDef) {
     return [
@@ -227,7 +232,7 @@ export function createEncounter(
     ];
   }
 
-  const result = resolveEncounter(encounterDef, monsters);
+  const result = resolveEncounter(encounterDef, monsters, rng);
   if (result.length === 0) {
     return [
       createMonsterInstance(fallbackDef, FALLBACK_POSITIONS[0]),
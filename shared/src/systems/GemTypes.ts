@@ -0,0 +1,153 @@
+import type { CharacterState } from './CharacterStats.js';
+import type { ItemDefinition } from './ItemTypes.js';
+import { MAX_STACK, addItemToInventory, removeItemFromInventory } from './ItemTypes.js';
+import type { ItemInstance } from './AffixTypes.js';
+import { createItemInstanceId, isItemInstanceId, resolveItemInstance } from './AffixTypes.js';
+
+// --- Types ---
+
+/** The parts of a character that socketing reads and writes. */
+export type GemOwner = Pick<CharacterState, 'inventory' | 'equipment' | 'itemInstances' | 'gold'>;
+
+export type SocketResult =
+  | { success: true; itemKey: string }
+  | { success: false; error: string };
+
+export type UnsocketResult =
+  | { success: true; gemId: string; cost: number }
+  | { success: false; error: string };
+
+// --- Constants ---
+
+/** Gold to pull a gem out intact when its definition sets no `gemRemovalCost`. */
+export const DEFAULT_GEM_REMOVAL_COST = 25;
+
+// --- Helpers ---
+
+/** Gold fee to remove this gem without destroying it. */
+export function getGemRemovalCost(gem: ItemDefinition | undefined): number {
+  return gem?.gemRemovalCost ?? DEFAULT_GEM_REMOVAL_COST;
+}
+
+/** Open sockets left on a (resolved) item definition. */
+export function getFreeSockets(def: ItemDefinition): number {
+  return Math.max(0, (def.sockets ?? 0) - (def.gems?.length ?? 0));
+}
+
+/** True if `itemKey` is in the owner's unequipped inventory or any equipment slot. */
+function isHeld(owner: GemOwner, itemKey: string): boolean {
+  return (owner.inventory[itemKey] ?? 0) > 0 || Object.values(owner.equipment).includes(itemKey);
+}
+
+function resolveHeld(owner: GemOwner, itemKey: string, items: Record<string, ItemDefinition>): ItemDefinition | undefined {
+  const instance = owner.itemInstances[itemKey];
+  return instance ? resolveItemInstance(instance, items) : items[itemKey];
+}
+
+/**
+ * Turn one copy of a plain stackable into an instance so it can carry gems.
+ * An inventory copy peels off the stack; an equipped copy is swapped in place
+ * (both slots for a 2H weapon). Returns the new instance.
+ */
+function promoteToInstance(owner: GemOwner, itemKey: string, equipped: boolean, rng: () => number): ItemInstance {
+  let id = createItemInstanceId(itemKey, rng);
+  while (owner.itemInstances[id] || owner.inventory[id]) id = createItemInstanceId(itemKey, rng);
+  const instance: ItemInstance = { id, itemId: itemKey, affixes: [] };
+  owner.itemInstances[id] = instance;
+
+  if (equipped) {
+    for (const slot of Object.keys(owner.equipment)) {
+      if (owner.equipment[slot] === itemKey) owner.equipment[slot] = id;
+    }
+  } else {
+    removeItemFromInventory(owner.inventory, itemKey);
+    owner.inventory[id] = 1;
+  }
+  return instance;
+}
+
+// --- Socketing ---
+
+/**
+ * Slot a gem from the owner's inventory into held gear — the equipped copy
+ * when `equipped` is set, otherwise one from the inventory. A plain stackable
+ * host is promoted to an instance first, so the returned `itemKey` may differ
+ * from the one passed in. `items` is the content item record; `rng` is
+ * injectable for deterministic tests. Mutates `owner`.
+ */
+export function socketGem(
+  owner: GemOwner,
+  itemKey: string,
+  gemId: string,
+  items: Record<string, ItemDefinition>,
+  equipped: boolean,
+  rng: () => number = Math.random,
+): SocketResult {
+  const gem = items[gemId];
+  if (!gem?.gem) return { success: false, error: 'That item is not a gem.' };
+  if ((owner.inventory[gemId] ?? 0) <= 0) return { success: false, error: `You have no ${gem.name}.` };
+  const held = equipped ? Object.values(owner.equipment).includes(itemKey) : (owner.inventory[itemKey] ?? 0) > 0;
+  if (!held) return { success: false, error: 'You do not have that item.' };
+
+  const host = resolveHeld(owner, itemKey, items);
+  if (!host) return { success: false, error: 'Unknown item.' };
+  if (!host.sockets) return { success: false, error: `${host.name} has no sockets.` };
+  if (getFreeSockets(host) <= 0) return { success: false, error: `${host.name} has no free sockets.` };
+
+  const instance = isItemInstanceId(itemKey)
+    ? owner.itemInstances[itemKey]
+    : promoteToInstance(owner, itemKey, equipped, rng);
+  removeItemFromInventory(owner.inventory, gemId);
+  instance.gems = [...(instance.gems ?? []), gemId];
+  return { success: true, itemKey: instance.id };
+}
+
+/**
+ * Take the gem at `index` out of held gear. Kept gems cost their removal fee
+ * and need room in the inventory; destroyed gems come out free and are lost.
+ * Mutates `owner`.
+ */
+export function unsocketGem(
+  owner: GemOwner,
+  itemKey: string,
+  index: number,
+  items: Record<string, ItemDefinition>,
+  destroy: boolean,
+): UnsocketResult {
+  const instance = owner.itemInstances[itemKey];
+  if (!instance || !isHeld(owner, itemKey)) return { success: false, error: 'You do not have that item.' };
+  const gems = instance.gems ?? [];
+  const gemId = gems[index];
+  if (gemId === undefined) return { success: false, error: 'That socket is empty.' };
+
+  let cost = 0;
+  if (!destroy) {
+    cost = getGemRemovalCost(items[gemId]);
+    if (owner.gold < cost) return { success: false, error: `Removing this gem costs ${cost} gold.` };
+    if ((owner.inventory[gemId] ?? 0) >= MAX_STACK) return { success: false, error: 'No room in your inventory for the gem.' };
+    owner.gold -= cost;
+    addItemToInventory(owner.inventory, gemId);
+  }
+
+  const remaining = gems.filter((_, i) => i !== index);
+  if (remaining.length > 0) instance.gems = remaining;
+  else delete instance.gems;
+  return { success: true, gemId, cost };
+}
+
+// --- Validation ---
+
+/** Validate the socket and gem fields of an item definition. Returns a list of error messages (empty = valid). */
+export function validateItemSockets(def: ItemDefinition): string[] {
+  const errors: string[] = [];
+  if (def.sockets !== undefined) {
+    if (!Number.isInteger(def.sockets) || def.sockets < 0) errors.push('Sockets must be a non-negative integer.');
+    else if (def.sockets > 0 && !def.equipSlot) errors.push('Only gear (items with an equip slot) can have sockets.');
+  }
+  if (def.gem && def.equipSlot) errors.push('A gem cannot have an equip slot.');
+  if (def.gemRemovalCost !== undefined) {
+    if (!def.gem) errors.push('Gem removal cost only applies to gems.');
+    else if (!Number.isInteger(def.gemRemovalCost) || def.gemRemovalCost < 0) errors.push('Gem removal cost must be a non-negative integer.');
+  }
+  return errors;
+}
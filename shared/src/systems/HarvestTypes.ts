@@ -0,0 +1,128 @@
+import type { ItemDrop } from './ItemTypes.js';
+
+// --- Types ---
+
+export type HarvestNodeKind = 'ore' | 'herb' | 'fishing';
+
+/**
+ * A gatherable resource in a room (`WorldTileDefinition.harvestNodes`). A
+ * party idling on the room gathers from every node its members qualify for
+ * after each won battle; each member rolls the node's own loot table and the
+ * node then respawns for that member after `respawnSeconds`.
+ */
+export interface HarvestNode {
+  /** Unique within its room. The respawn timer is keyed by room id + node id. */
+  id: string;
+  kind: HarvestNodeKind;
+  name: string;
+  /** Craft skill level needed to gather. Defaults to 1. */
+  requiredCraftLevel?: number;
+  respawnSeconds: number;
+  /** Rolled independently per gather, like monster drops. */
+  drops: ItemDrop[];
+  /** Craft skill XP granted per gather. Default 0 if omitted. */
+  xpReward?: number;
+}
+
+/** A node in the player's current room, as the client shows it. */
+export interface ClientHarvestNode {
+  id: string;
+  kind: HarvestNodeKind;
+  name: string;
+  requiredCraftLevel: number;
+  /** Item ids the node can yield. */
+  itemIds: string[];
+  /** When the node is next ready for this player, or null if it's ready now. */
+  readyAt: number | null;
+  /** Why the player can't gather here, or null if they can. */
+  blockedReason: string | null;
+}
+
+// --- Constants ---
+
+export const ALL_HARVEST_NODE_KINDS: HarvestNodeKind[] = ['ore', 'herb', 'fishing'];
+
+export const HARVEST_NODE_KIND_LABELS: Record<HarvestNodeKind, string> = {
+  ore: 'Ore Vein',
+  herb: 'Herb Patch',
+  fishing: 'Fishing Spot',
+};
+
+export const HARVEST_NODE_KIND_EMOJI: Record<HarvestNodeKind, string> = {
+  ore: '⛏️',
+  herb: '🌿',
+  fishing: '🎣',
+};
+
+// --- Pure functions ---
+
+/** Key for a node's respawn timer in `character.harvestReadyAt`. */
+export function getHarvestNodeKey(tileId: string, nodeId: string): string {
+  return `${tileId}:${nodeId}`;
+}
+
+/** Craft skill level a node requires (1 when unset). */
+export function getHarvestNodeCraftLevel(node: HarvestNode): number {
+  return node.requiredCraftLevel ?? 1;
+}
+
+/**
+ * Why a player can't gather from `node`, or null if they can. Gathering
+ * needs crafting unlocked (`craftingUnlocked`) and the node's craft level.
+ */
+export function getHarvestBlockedReason(
+  node: HarvestNode,
+  craftingUnlocked: boolean,
+  craftLevel: number,
+  skillName: string,
+): string | null {
+  if (!craftingUnlocked) return 'Unlocks with crafting.';
+  const required = getHarvestNodeCraftLevel(node);
+  if (craftLevel < required) return `Requires ${skillName} ${required}.`;
+  return null;
+}
+
+/** Whether the node's respawn timer has run out (or it was never gathered). */
+export function isHarvestNodeReady(readyAt: Record<string, number>, key: string, now: number): boolean {
+  return (readyAt[key] ?? 0) <= now;
+}
+
+/** Drop timers that have run out, so the saved record only holds pending respawns. */
+export function pruneHarvestTimers(readyAt: Record<string, number>, now: number): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [key, at] of Object.entries(readyAt)) {
+    if (at > now) out[key] = at;
+  }
+  return out;
+}
+
+// --- Validation ---
+
+/** Validate a room's harvest nodes from the admin. Returns an error message, or null. */
+export function validateHarvestNodes(nodes: HarvestNode[]): string | null {
+  const seen = new Set<string>();
+  for (const node of nodes) {
+    if (!node.id) return 'Each harvest node needs an id.';
+    if (seen.has(node.id)) return `Harvest node ${node.id} is listed twice.`;
+    seen.add(node.id);
+    if (!node.name?.trim()) return 'Each harvest node needs a name.';
+    if (!ALL_HARVEST_NODE_KINDS.includes(node.kind)) return `Unknown harvest node kind: ${node.kind}.`;
+    if (!Number.isFinite(node.respawnSeconds) || node.respawnSeconds < 1) {
+      return `Respawn time for ${node.name} must be at least 1 second.`;
+    }
+    if (node.requiredCraftLevel !== undefined && (!Number.isInteger(node.requiredCraftLevel) || node.requiredCraftLevel < 1)) {
+      return `Craft level for ${node.name} must be at least 1.`;
+    }
+    if (node.xpReward !== undefined && (!Number.isFinite(node.xpReward) || node.xpReward < 0)) {
+      return `XP for ${node.name} cannot be negative.`;
+    }
+    if (!Array.isArray(node.drops) || node.drops.length === 0) return `${node.name} needs at least one drop.`;
+    for (const drop of node.drops) {
+      if (!drop.itemId) return `Each drop from ${node.name} needs an item.`;
+      if (!Number.isFinite(drop.chance) || drop.chance <= 0 || drop.chance > 1) {
+        return `Drop chance for ${drop.itemId} from ${node.name} must be above 0 and at most 1.`;
+      }
+    }
+  }
+  return null;
+}
@@ -8,7 +8,8 @@
  * `equipItem`/`unequipItem` move items between them, so an equipped item is
  * NEVER counted in `inventory`. Several past bugs came from forgetting that
  * invariant (filtering inventory by "is this ID equipped?", or subtracting
- * an equipped count from an inventory count). Use these helpers instead of
+ * an equipped count from an inventory count). Rolled item instances sit in
+ * both maps under their own instance id with a count of 1 (see AffixTypes). Use these helpers instead of
  * iterating the maps directly so the rule lives in one place.
  *
  * These functions take their data as arguments and have no global state, so
@@ -21,6 +22,8 @@
  * Pure functions, no state. Safe to call from client or server.
  */
 
+import { getBaseItemId } from './AffixTypes.js';
+
 type Inventory = Record<string, number>;
 type Equipment = Record<string, string | null>;
 
@@ -47,9 +50,13 @@ export function getOwnedCount(itemId: string, inventory: Inventory, equipment: E
 
 // ── Booleans ─────────────────────────────────────────────────────────────────
 
-/** True iff any slot holds `itemId`. Works on the current player's or any other player's equipment. */
+/**
+ * True iff any slot holds `itemId` — for a content item id, a rolled instance of
+ * it counts too (tile requirements name base items). Works on the current
+ * player's or any other player's equipment.
+ */
 export function hasItemEquipped(itemId: string, equipment: Equipment): boolean {
-  return getEquippedCount(itemId, equipment) > 0;
+  return Object.values(equipment).some(id => id != null && (id === itemId || getBaseItemId(id) === itemId));
 }
 
 /** True iff the player has at least one unequipped copy of `itemId` (i.e. tradeable / sellable). */
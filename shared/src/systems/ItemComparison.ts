@@ -0,0 +1,163 @@
+import type { EquipmentBonuses, ItemDefinition } from './ItemTypes.js';
+import { computeEquipmentBonuses, equipItem } from './ItemTypes.js';
+import type { SetBonuses, SetDefinition } from './SetTypes.js';
+import { computeActiveSetBonuses, computeGrantedSkillIds, getActiveBreakpoint, mergeSetBonusesIntoEquip, setAppliesToClass } from './SetTypes.js';
+import { getBaseItemId } from './AffixTypes.js';
+
+// --- Types ---
+
+/** Change in one effective stat. Ranged stats (ATK/DR/MR) move min and max separately; scalar stats have min === max. */
+export interface ItemStatDelta {
+  label: string;
+  min: number;
+  max: number;
+  /** Stat is a percentage (crit, resistances, set percents). */
+  percent?: boolean;
+}
+
+/** A set whose active breakpoint changes. `from`/`to` are pieces required, null when no tier is active. */
+export interface SetBreakpointChange {
+  setId: string;
+  name: string;
+  from: number | null;
+  to: number | null;
+}
+
+/** What equipping a candidate item would do to the current equipment. */
+export interface ItemComparison {
+  /** Inventory keys that come off — two when a two-handed weapon replaces a mainhand and an offhand. */
+  displacedItemIds: string[];
+  /** Non-zero changes to gear + set totals, in display order. */
+  statDeltas: ItemStatDelta[];
+  setChanges: SetBreakpointChange[];
+  skillsGained: string[];
+  skillsLost: string[];
+}
+
+/** Gear + set totals the comparison diffs. */
+interface EffectiveStats {
+  equip: EquipmentBonuses;
+  sets: SetBonuses;
+}
+
+// --- Pure functions ---
+
+function getEffectiveStats(
+  equipment: Record<string, string | null>,
+  items: Record<string, ItemDefinition>,
+  sets: Record<string, SetDefinition>,
+  className: string | null | undefined,
+  level: number,
+): EffectiveStats {
+  const { bonuses } = computeActiveSetBonuses(equipment, sets, className);
+  return { equip: mergeSetBonusesIntoEquip(computeEquipmentBonuses(equipment, items, level), bonuses), sets: bonuses };
+}
+
+function pushDelta(into: ItemStatDelta[], label: string, min: number, max: number = min, percent?: boolean): void {
+  if (min === 0 && max === 0) return;
+  into.push({ label, min, max, ...(percent ? { percent } : {}) });
+}
+
+function diffStats(before: EffectiveStats, after: EffectiveStats): ItemStatDelta[] {
+  const deltas: ItemStatDelta[] = [];
+  const b = before.equip;
+  const a = after.equip;
+  pushDelta(deltas, 'ATK', a.bonusAttackMin - b.bonusAttackMin, a.bonusAttackMax - b.bonusAttackMax);
+  pushDelta(deltas, 'DR', a.damageReductionMin - b.damageReductionMin, a.damageReductionMax - b.damageReductionMax);
+  pushDelta(deltas, 'MR', a.magicReductionMin - b.magicReductionMin, a.magicReductionMax - b.magicReductionMax);
+  pushDelta(deltas, 'HP', (after.sets.flatHp ?? 0) - (before.sets.flatHp ?? 0));
+  pushDelta(deltas, 'HP', (after.sets.percentHp ?? 0) - (before.sets.percentHp ?? 0), undefined, true);
+  pushDelta(deltas, 'DMG', (after.sets.damagePercent ?? 0) - (before.sets.damagePercent ?? 0), undefined, true);
+  pushDelta(deltas, 'RES', (after.sets.damageResistancePercent ?? 0) - (before.sets.damageResistancePercent ?? 0), undefined, true);
+  pushDelta(deltas, 'CRIT', a.critChance - b.critChance, undefined, true);
+  pushDelta(deltas, 'CDR', (after.sets.cooldownReduction ?? 0) - (before.sets.cooldownReduction ?? 0));
+  pushDelta(deltas, 'Stun RES', a.stunResistance - b.stunResistance, undefined, true);
+  pushDelta(deltas, 'DoT RES', a.dotResistance - b.dotResistance, undefined, true);
+  pushDelta(deltas, 'Debuff RES', a.debuffResistance - b.debuffResistance, undefined, true);
+
+  const damageTypes = new Set([...b.resistances, ...a.resistances].map(r => r.damageType));
+  for (const type of damageTypes) {
+    const was = b.resistances.find(r => r.damageType === type);
+    const now = a.resistances.find(r => r.damageType === type);
+    pushDelta(deltas, `${type} RES`, (now?.percentReduction ?? 0) - (was?.percentReduction ?? 0), undefined, true);
+    pushDelta(deltas, `${type} RES`, (now?.flatReduction ?? 0) - (was?.flatReduction ?? 0));
+  }
+  const bonusTypes = new Set([...b.bonusDamage, ...a.bonusDamage].map(d => d.damageType));
+  for (const type of bonusTypes) {
+    const was = b.bonusDamage.find(d => d.damageType === type)?.amount ?? 0;
+    const now = a.bonusDamage.find(d => d.damageType === type)?.amount ?? 0;
+    pushDelta(deltas, `+${type} DMG`, now - was);
+  }
+  return deltas;
+}
+
+function diffSetBreakpoints(
+  before: Record<string, string | null>,
+  after: Record<string, string | null>,
+  sets: Record<string, SetDefinition>,
+  className: string | null | undefined,
+): SetBreakpointChange[] {
+  const countPieces = (equipment: Record<string, string | null>, set: SetDefinition): number => {
+    const worn = new Set(Object.values(equipment).filter((id): id is string => !!id).map(getBaseItemId));
+    return set.itemIds.filter(id => worn.has(id)).length;
+  };
+  const changes: SetBreakpointChange[] = [];
+  for (const set of Object.values(sets)) {
+    if (!setAppliesToClass(set, className)) continue;
+    const from = getActiveBreakpoint(set, countPieces(before, set))?.piecesRequired ?? null;
+    const to = getActiveBreakpoint(set, countPieces(after, set))?.piecesRequired ?? null;
+    if (from !== to) changes.push({ setId: set.id, name: set.name, from, to });
+  }
+  return changes;
+}
+
+/**
+ * Compare wearing `candidateId` against the current equipment: effective stat
+ * deltas (gear, affixes, gems and set bonuses together), set breakpoints
+ * gained or lost, skills granted or no longer granted, and whatever the swap
+ * displaces — equipping follows `equipItem`, so a two-handed weapon takes both
+ * hands and a one-handed item bumps a worn two-hander. Returns null for items
+ * that can't be equipped. Class restrictions are ignored; the popup shows
+ * those separately.
+ */
+export function compareEquipItem(
+  equipment: Record<string, string | null>,
+  candidateId: string,
+  items: Record<string, ItemDefinition>,
+  sets: Record<string, SetDefinition>,
+  className?: string | null,
+  level: number = 1,
+): ItemComparison | null {
+  if (!items[candidateId]?.equipSlot) return null;
+  // Equip into a scratch bag holding only the candidate — whatever comes back out was displaced.
+  const bag: Record<string, number> = { [candidateId]: 1 };
+  const after = { ...equipment };
+  if (!equipItem(bag, after, candidateId, items).success) return null;
+
+  const grantedBefore = computeGrantedSkillIds(equipment, items, sets, className);
+  const grantedAfter = computeGrantedSkillIds(after, items, sets, className);
+  return {
+    displacedItemIds: Object.keys(bag),
+    statDeltas: diffStats(
+      getEffectiveStats(equipment, items, sets, className, level),
+      getEffectiveStats(after, items, sets, className, level),
+    ),
+    setChanges: diffSetBreakpoints(equipment, after, sets, className),
+    skillsGained: grantedAfter.filter(id => !grantedBefore.includes(id)),
+    skillsLost: grantedBefore.filter(id => !grantedAfter.includes(id)),
+  };
+}
+
+/** Signed display text for a delta: "+3", "-1", "+1 to +4", "+5%". */
+export function formatStatDelta(delta: ItemStatDelta): string {
+  const suffix = delta.percent ? '%' : '';
+  const signed = (n: number) => `${n > 0 ? '+' : ''}${n}${suffix}`;
+  return delta.min === delta.max ? signed(delta.min) : `${signed(delta.min)} to ${signed(delta.max)}`;
+}
+
+/** Whether a delta is an improvement (+1), a loss (-1), or mixed (0). */
+export function getStatDeltaDirection(delta: ItemStatDelta): -1 | 0 | 1 {
+  if (delta.min >= 0 && delta.max >= 0) return 1;
+  if (delta.min <= 0 && delta.max <= 0) return -1;
+  return 0;
+}
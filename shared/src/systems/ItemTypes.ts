@@ -1,4 +1,10 @@
 import type { SkillDefinition } from './SkillTypes.js';
+import type { DamageType } from './CharacterStats.js';
+import { formatDamageType } from './CharacterStats.js';
+import type { Resistance } from './MonsterTypes.js';
+import type { BonusDamage } from './CombatEvents.js';
+import type { ConsumableEffect } from './ConsumableTypes.js';
+import type { CraftQuality } from './CraftQualityTypes.js';
 
 // --- Types ---
 
@@ -6,7 +12,48 @@ export type ItemRarity = 'janky' | 'common' | 'uncommon' | 'rare' | 'epic' | 'le
 
 export type EquipSlot = 'head' | 'shoulders' | 'chest' | 'bracers' | 'gloves' | 'mainhand' | 'offhand' | 'twohanded' | 'foot' | 'ring' | 'necklace' | 'back' | 'relic';
 
-export interface ItemDefinition {
+/**
+ * Tenacity stats, in percent (0-100). Gear and set breakpoints add them up for players;
+ * monsters carry them on their definition. The engine clamps each total to 0-100.
+ */
+export interface StatusResistances {
+  /** Chance to shrug off each incoming stun. */
+  stunResistance?: number;
+  /** Reduction to DoT and damage-over-time status ticks, applied at tick time. */
+  dotResistance?: number;
+  /** Chance to shrug off each incoming debuff status (Lullaby, Sunder, poison, …). */
+  debuffResistance?: number;
+}
+
+/**
+ * Stat an affix adds. Flat stats add to both ends of the matching min/max range;
+ * `crit_chance` and the resistances are percents; `bonus_damage` and `resistance`
+ * carry a damage type.
+ */
+export type AffixStat =
+  | 'bonus_attack'
+  | 'damage_reduction'
+  | 'magic_reduction'
+  | 'crit_chance'
+  | 'bonus_damage'
+  | 'resistance'
+  | 'stun_resistance'
+  | 'dot_resistance'
+  | 'debuff_resistance';
+
+/**
+ * One affix as rolled onto an item instance. A snapshot — editing or deleting the
+ * affix definition later never changes items already in players' bags.
+ */
+export interface RolledAffix {
+  affixId: string;
+  name: string;
+  stat: AffixStat;
+  damageType?: DamageType;
+  value: number;
+}
+
+export interface ItemDefinition extends StatusResistances {
   id: string;
   name: string;
   rarity: ItemRarity;
@@ -18,15 +65,33 @@ export interface ItemDefinition {
   damageReductionMax?: number;
   magicReductionMin?: number;
   magicReductionMax?: number;
+  /** Per-type resistances while equipped (percent first, then flat — same shape as monster resistances). */
+  resistances?: Resistance[];
+  /** Weapons only: the wearer's attacks deal this type instead of their class's. */
+  damageType?: DamageType;
   value?: number;
-  /** True if this is a consumable (e.g., potion). No effect yet — placeholder for the consumables framework. */
+  /** True if this is a consumable (e.g., potion). Only usable when it also has a `consumableEffect`. */
   consumable?: boolean;
+  /** Consumables only: what using it does (see ConsumableTypes). */
+  consumableEffect?: ConsumableEffect;
   /** Override icon emoji (e.g., '🧪' for potions). Falls back to slot-based icon when omitted. */
   iconEmoji?: string;
   /** CSS color string used as the icon background tint (e.g., '#c0392b' for a red potion). */
   iconColor?: string;
   /** Skill IDs this item grants while equipped (availability only — the player still equips the skill into a slot). */
   grantedSkillIds?: string[];
+  /** Rolled affixes. Only set on definitions resolved from an item instance (see `resolveItemInstance`). */
+  affixes?: RolledAffix[];
+  /** Gear only: how many gems this item can hold. */
+  sockets?: number;
+  /** True if this item is a gem. Its stats and `grantedSkillIds` apply while it sits in equipped gear's socket. */
+  gem?: boolean;
+  /** Gems only: gold to pull this gem out intact. Default `DEFAULT_GEM_REMOVAL_COST`. */
+  gemRemovalCost?: number;
+  /** Socketed gem item ids. Only set on definitions resolved from an item instance. */
+  gems?: string[];
+  /** Crafted quality. Only set on definitions resolved from a fine or masterwork instance. */
+  quality?: CraftQuality;
 }
 
 export interface ItemDrop {
@@ -34,19 +99,27 @@ export interface ItemDrop {
   chance: number;
 }
 
-export interface EquipmentBonuses {
+export interface EquipmentBonuses extends Required<StatusResistances> {
   bonusAttackMin: number;
   bonusAttackMax: number;
   damageReductionMin: number;
   damageReductionMax: number;
   magicReductionMin: number;
   magicReductionMax: number;
+  /** Summed per-type resistances, one entry per damage type. */
+  resistances: Resistance[];
+  /** Added crit chance in percent (0-100), from affixes. */
+  critChance: number;
+  /** Flat extra damage per hit by type, from affixes — resisted per type like Blessed Arms. */
+  bonusDamage: BonusDamage[];
 }
 
 // --- Constants ---
 
 export const MAX_STACK = 99;
 
+export const STATUS_RESISTANCE_KEYS: (keyof StatusResistances)[] = ['stunResistance', 'dotResistance', 'debuffResistance'];
+
 export const RARITY_DROP_RATES: Record<ItemRarity, number> = {
   janky: 0.40,
   common: 0.25,
@@ -212,6 +285,7 @@ export const SEED_ITEMS: Record<string, ItemDefinition> = {
     classRestriction: ['Knight'],
     bonusAttackMin: 3,
     bonusAttackMax: 6,
+    sockets: 2,
     value: 1,
   },
   short_bow: {
@@ -266,6 +340,7 @@ export const SEED_ITEMS: Record<string, ItemDefinition> = {
     name: 'Magma Boots',
     rarity: 'rare',
     equipSlot: 'foot',
+    sockets: 1,
     value: 1,
   },
   lesser_red_potion: {
@@ -273,10 +348,119 @@ export const SEED_ITEMS: Record<string, ItemDefinition> = {
     name: 'Lesser Red Potion',
     rarity: 'common',
     consumable: true,
+    consumableEffect: { kind: 'heal', amount: 0.3 },
     iconEmoji: '🧪',
     iconColor: '#c0392b',
     value: 2,
   },
+  antidote: {
+    id: 'antidote',
+    name: 'Antidote',
+    rarity: 'common',
+    consumable: true,
+    consumableEffect: { kind: 'cure' },
+    iconEmoji: '🧪',
+    iconColor: '#27ae60',
+    value: 3,
+  },
+  elixir_of_might: {
+    id: 'elixir_of_might',
+    name: 'Elixir of Might',
+    rarity: 'uncommon',
+    consumable: true,
+    consumableEffect: { kind: 'buff', modifiers: { damageDealt: 0.15 }, durationSeconds: 600 },
+    iconEmoji: '⚗️',
+    iconColor: '#e67e22',
+    value: 8,
+  },
+  gold_elixir: {
+    id: 'gold_elixir',
+    name: 'Gold Elixir',
+    rarity: 'uncommon',
+    consumable: true,
+    consumableEffect: { kind: 'booster', boost: 'gold', amount: 0.5, durationSeconds: 1800 },
+    iconEmoji: '⚗️',
+    iconColor: '#f1c40f',
+    value: 10,
+  },
+  reset_scroll: {
+    id: 'reset_scroll',
+    name: 'Reset Scroll',
+    rarity: 'uncommon',
+    consumable: true,
+    consumableEffect: { kind: 'skill_reset' },
+    iconEmoji: '📜',
+    iconColor: '#8e44ad',
+    value: 6,
+  },
+  // Recipe items (see CraftingTypes — discoverable recipes)
+  recipe_iron_battleaxe: {
+    id: 'recipe_iron_battleaxe',
+    name: 'Recipe: Reforge Iron Battleaxe',
+    rarity: 'uncommon',
+    consumable: true,
+    consumableEffect: { kind: 'learn_recipe', recipeId: 'reforge_iron_battleaxe' },
+    iconEmoji: '📜',
+    iconColor: '#a0522d',
+    value: 25,
+  },
+  // Salvage materials (see SalvageTypes)
+  scrap_metal: {
+    id: 'scrap_metal',
+    name: 'Scrap Metal',
+    rarity: 'common',
+    value: 1,
+  },
+  arcane_dust: {
+    id: 'arcane_dust',
+    name: 'Arcane Dust',
+    rarity: 'uncommon',
+    value: 3,
+  },
+  // Gems — cut by Bards, socketed into gear (see GemTypes)
+  rough_garnet: {
+    id: 'rough_garnet',
+    name: 'Rough Garnet',
+    rarity: 'common',
+    gem: true,
+    bonusAttackMin: 1,
+    bonusAttackMax: 1,
+    iconEmoji: '💎',
+    iconColor: '#a93226',
+    value: 3,
+  },
+  rough_quartz: {
+    id: 'rough_quartz',
+    name: 'Rough Quartz',
+    rarity: 'common',
+    gem: true,
+    damageReductionMin: 1,
+    damageReductionMax: 1,
+    gemRemovalCost: 10,
+    iconEmoji: '💎',
+    iconColor: '#d5d8dc',
+    value: 3,
+  },
+  ember_opal: {
+    id: 'ember_opal',
+    name: 'Ember Opal',
+    rarity: 'rare',
+    gem: true,
+    resistances: [{ damageType: 'fire', flatReduction: 0, percentReduction: 10 }],
+    gemRemovalCost: 50,
+    iconEmoji: '💎',
+    iconColor: '#e67e22',
+    value: 10,
+  },
+  // Components — made by one craft for another's recipes (see WorkOrderTypes)
+  tempered_ingot: {
+    id: 'tempered_ingot',
+    name: 'Tempered Ingot',
+    rarity: 'uncommon',
+    iconEmoji: '🧱',
+    iconColor: '#7f8c8d',
+    value: 8,
+  },
 };
 
 // --- Pure functions ---
@@ -447,7 +631,7 @@ export function unequipItem(
 
 /**
  * Compute combined equipment bonuses across all equipped items. Avoids double-counting 2H weapons.
- * Heirloom items scale their stats by player level.
+ * Heirloom items scale their stats by player level. Socketed gems are looked up in `items` too.
  */
 export function computeEquipmentBonuses(
   equipment: Record<string, string | null>,
@@ -461,6 +645,12 @@ export function computeEquipmentBonuses(
     damageReductionMax: 0,
     magicReductionMin: 0,
     magicReductionMax: 0,
+    stunResistance: 0,
+    dotResistance: 0,
+    debuffResistance: 0,
+    resistances: [],
+    critChance: 0,
+    bonusDamage: [],
   };
 
   // Skip offhand if it's the same item as mainhand (2H weapon)
@@ -471,18 +661,128 @@ export function computeEquipmentBonuses(
     if (skip2H && slot === 'offhand') continue;
     const def = items[itemId];
     if (!def) continue;
-    const scale = def.rarity === 'heirloom' ? level : 1;
-    bonuses.bonusAttackMin += (def.bonusAttackMin ?? 0) * scale;
-    bonuses.bonusAttackMax += (def.bonusAttackMax ?? 0) * scale;
-    bonuses.damageReductionMin += (def.damageReductionMin ?? 0) * scale;
-    bonuses.damageReductionMax += (def.damageReductionMax ?? 0) * scale;
-    bonuses.magicReductionMin += (def.magicReductionMin ?? 0) * scale;
-    bonuses.magicReductionMax += (def.magicReductionMax ?? 0) * scale;
+    addItemStats(bonuses, def, def.rarity === 'heirloom' ? level : 1);
+    for (const affix of def.affixes ?? []) addAffixBonus(bonuses, affix);
+    // Socketed gems stack their own stats on top; they never scale with level.
+    for (const gemId of def.gems ?? []) {
+      const gem = items[gemId];
+      if (gem) addItemStats(bonuses, gem, 1);
+    }
   }
 
   return bonuses;
 }
 
+/** Add an item definition's own stat fields into `bonuses`, flat stats multiplied by `scale`. Mutates `bonuses`. */
+function addItemStats(bonuses: EquipmentBonuses, def: ItemDefinition, scale: number): void {
+  bonuses.bonusAttackMin += (def.bonusAttackMin ?? 0) * scale;
+  bonuses.bonusAttackMax += (def.bonusAttackMax ?? 0) * scale;
+  bonuses.damageReductionMin += (def.damageReductionMin ?? 0) * scale;
+  bonuses.damageReductionMax += (def.damageReductionMax ?? 0) * scale;
+  bonuses.magicReductionMin += (def.magicReductionMin ?? 0) * scale;
+  bonuses.magicReductionMax += (def.magicReductionMax ?? 0) * scale;
+  // Resistances are percentages — heirloom level scaling doesn't apply.
+  for (const key of STATUS_RESISTANCE_KEYS) bonuses[key] += def[key] ?? 0;
+  addResistances(bonuses.resistances, def.resistances);
+}
+
+/** Add one rolled affix into `bonuses`. Mutates `bonuses`. */
+function addAffixBonus(bonuses: EquipmentBonuses, affix: RolledAffix): void {
+  const value = affix.value;
+  switch (affix.stat) {
+    case 'bonus_attack':
+      bonuses.bonusAttackMin += value;
+      bonuses.bonusAttackMax += value;
+      break;
+    case 'damage_reduction':
+      bonuses.damageReductionMin += value;
+      bonuses.damageReductionMax += value;
+      break;
+    case 'magic_reduction':
+      bonuses.magicReductionMin += value;
+      bonuses.magicReductionMax += value;
+      break;
+    case 'crit_chance':
+      bonuses.critChance += value;
+      break;
+    case 'bonus_damage':
+      if (affix.damageType) addBonusDamage(bonuses.bonusDamage, [{ damageType: affix.damageType, amount: value }]);
+      break;
+    case 'resistance':
+      if (affix.damageType) addResistances(bonuses.resistances, [{ damageType: affix.damageType, flatReduction: 0, percentReduction: value }]);
+      break;
+    case 'stun_resistance':
+      bonuses.stunResistance += value;
+      break;
+    case 'dot_resistance':
+      bonuses.dotResistance += value;
+      break;
+    case 'debuff_resistance':
+      bonuses.debuffResistance += value;
+      break;
+  }
+}
+
+/** Sum `add` into `into` per damage type. Mutates `into`. */
+export function addBonusDamage(into: BonusDamage[], add: BonusDamage[] | undefined): BonusDamage[] {
+  for (const b of add ?? []) {
+    const existing = into.find(e => e.damageType === b.damageType);
+    if (existing) existing.amount += b.amount;
+    else into.push({ ...b });
+  }
+  return into;
+}
+
+/** Sum `add` into `into` per damage type (percent and flat add separately). Mutates `into`. */
+export function addResistances(into: Resistance[], add: Resistance[] | undefined): Resistance[] {
+  for (const r of add ?? []) {
+    const existing = into.find(e => e.damageType === r.damageType);
+    if (existing) {
+      existing.flatReduction += r.flatReduction;
+      existing.percentReduction += r.percentReduction;
+    } else {
+      into.push({ ...r });
+    }
+  }
+  return into;
+}
+
+/** Damage type granted by the equipped weapon (2H weapons sit in mainhand too), if any. */
+export function getWeaponDamageType(
+  equipment: Record<string, string | null>,
+  items: Record<string, ItemDefinition>,
+): DamageType | undefined {
+  const mainhand = equipment.mainhand;
+  return mainhand ? items[mainhand]?.damageType : undefined;
+}
+
+/** Human-readable list of per-type resistances, e.g. "25% Fire Resist, Blocks 3 frost damage". */
+export function getResistanceText(resistances: Resistance[]): string[] {
+  const parts: string[] = [];
+  for (const r of resistances) {
+    if (r.percentReduction) parts.push(`${r.percentReduction}% ${formatDamageType(r.damageType)} Resist`);
+    if (r.flatReduction) parts.push(`Blocks ${r.flatReduction} ${r.damageType} damage`);
+  }
+  return parts;
+}
+
+/** Human-readable line for one rolled affix, e.g. "+3 Holy Damage" or "+5% Crit Chance". */
+export function getAffixText(affix: RolledAffix): string {
+  const v = affix.value;
+  const type = affix.damageType ? formatDamageType(affix.damageType) : '';
+  switch (affix.stat) {
+    case 'bonus_attack': return `+${v} Attack`;
+    case 'damage_reduction': return `Blocks ${v} damage`;
+    case 'magic_reduction': return `Blocks ${v} magic damage`;
+    case 'crit_chance': return `+${v}% Crit Chance`;
+    case 'bonus_damage': return `+${v} ${type} Damage`;
+    case 'resistance': return `${v}% ${type} Resist`;
+    case 'stun_resistance': return `${v}% Stun Resist`;
+    case 'dot_resistance': return `${v}% DoT Resist`;
+    case 'debuff_resistance': return `${v}% Debuff Resist`;
+  }
+}
+
 /**
  * Get a human-readable description of an item's effects.
  * Pass a `skills` record to render 'Grants skill: <name>' lines for
@@ -499,6 +799,13 @@ export function getItemEffectText(def: ItemDefinition, skills?: Record<string, S
   if (def.magicReductionMin != null && def.magicReductionMax != null && def.magicReductionMax > 0) {
     parts.push(`Blocks ${def.magicReductionMin}-${def.magicReductionMax} magic damage`);
   }
+  const heirloomParts = parts.length;
+  if (def.damageType) parts.push(`Deals ${def.damageType} damage`);
+  parts.push(...getResistanceText(def.resistances ?? []));
+  if (def.stunResistance) parts.push(`${def.stunResistance}% Stun Resist`);
+  if (def.dotResistance) parts.push(`${def.dotResistance}% DoT Resist`);
+  if (def.debuffResistance) parts.push(`${def.debuffResistance}% Debuff Resist`);
+  for (const affix of def.affixes ?? []) parts.push(getAffixText(affix));
   const grantParts: string[] = [];
   if (def.grantedSkillIds) {
     for (const skillId of def.grantedSkillIds) {
@@ -508,9 +815,9 @@ export function getItemEffectText(def: ItemDefinition, skills?: Record<string, S
   if (parts.length === 0 && grantParts.length === 0) {
     return def.equipSlot ? 'No bonus' : 'Material';
   }
-  let text = parts.join(', ');
-  if (def.rarity === 'heirloom' && parts.length > 0) text = `${text} (x Lv)`;
-  text = [text, ...grantParts].filter(Boolean).join(', ');
+  let text = parts.slice(0, heirloomParts).join(', ');
+  if (def.rarity === 'heirloom' && heirloomParts > 0) text = `${text} (x Lv)`;
+  text = [text, ...parts.slice(heirloomParts), ...grantParts].filter(Boolean).join(', ');
   if (def.classRestriction && def.classRestriction.length > 0) text = `${text} [${def.classRestriction.join('/')}]`;
   return text;
 }
@@ -594,11 +901,11 @@ export function equipItemForceDestroy(
   return { success: true, destroyedItemId: currentEquipped ?? undefined };
 }
 
-/** Roll drops for a list of possible drops. Returns item IDs that dropped. */
-export function rollDrops(drops: ItemDrop[]): string[] {
+/** Roll drops for a list of possible drops. Returns item IDs that dropped. `rng` is injectable for deterministic tests; `chanceMultiplier` scales every chance (drop boosters). */
+export function rollDrops(drops: ItemDrop[], rng: () => number = Math.random, chanceMultiplier = 1): string[] {
   const result: string[] = [];
   for (const drop of drops) {
-    if (Math.random() < drop.chance) {
+    if (rng() < drop.chance * chanceMultiplier) {
       result.push(drop.itemId);
     }
   }
@@ -0,0 +1,143 @@
+import type { ItemDefinition } from './ItemTypes.js';
+import { MAX_STACK } from './ItemTypes.js';
+import { getBaseItemId } from './AffixTypes.js';
+import type { SkillId } from './SkillTypes.js';
+
+// --- Types ---
+
+/**
+ * A named gear set a player can swap into in one step: the worn equipment
+ * (inventory keys, so item instances are captured exactly) plus the equipped
+ * skill slots. Talents and unlocks are progression, not part of a loadout.
+ */
+export interface SavedLoadout {
+  name: string;
+  equipment: Record<string, string | null>;
+  equippedSkills: (SkillId | null)[];
+}
+
+export type ApplyLoadoutResult =
+  | {
+      success: true;
+      inventory: Record<string, number>;
+      equipment: Record<string, string | null>;
+      /** Loadout item keys the player no longer has; their slots are left empty. */
+      missing: string[];
+    }
+  | { success: false; error: string };
+
+// --- Constants ---
+
+export const MAX_LOADOUTS = 6;
+export const MAX_LOADOUT_NAME_LENGTH = 24;
+
+// --- Pure functions ---
+
+function fitsSlot(def: ItemDefinition, slot: string): boolean {
+  if (def.equipSlot === 'twohanded') return slot === 'mainhand' || slot === 'offhand';
+  return def.equipSlot === slot;
+}
+
+/** Distinct worn item keys — a two-handed weapon fills mainhand and offhand but is one item. */
+function wornKeys(equipment: Record<string, string | null>): string[] {
+  const keys: string[] = [];
+  for (const [slot, key] of Object.entries(equipment)) {
+    if (!key) continue;
+    if (slot === 'offhand' && key === equipment.mainhand) continue;
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Why a loadout's equipment can't be worn by `className`, or null if it can:
+ * every piece must fit its slot and the class, and a two-handed weapon must
+ * fill both hands alone. Unknown items pass (they're reported as missing on apply).
+ */
+export function getLoadoutEquipmentError(
+  equipment: Record<string, string | null>,
+  items: Record<string, ItemDefinition>,
+  className: string,
+): string | null {
+  for (const [slot, key] of Object.entries(equipment)) {
+    if (!key) continue;
+    const def = items[key];
+    if (!def) continue;
+    if (!def.equipSlot || !fitsSlot(def, slot)) return `${def.name} doesn't go in the ${slot} slot.`;
+    if (def.classRestriction?.length && !def.classRestriction.includes(className)) {
+      return `${def.name} can't be used by a ${className}.`;
+    }
+  }
+  const mainhand = equipment.mainhand ? items[equipment.mainhand] : undefined;
+  const offhand = equipment.offhand ? items[equipment.offhand] : undefined;
+  if (mainhand?.equipSlot === 'twohanded' && equipment.offhand !== equipment.mainhand) {
+    return `${mainhand.name} needs both hands.`;
+  }
+  if (offhand?.equipSlot === 'twohanded' && equipment.offhand !== equipment.mainhand) {
+    return `${offhand.name} needs both hands.`;
+  }
+  return null;
+}
+
+/**
+ * Swap everything worn for a loadout's equipment in one step. Works on copies:
+ * current gear goes back to the bag, then each loadout piece is taken out of it;
+ * pieces the player no longer has leave their slot empty and are listed in
+ * `missing`. Fails without changing anything if the result can't be worn
+ * (`getLoadoutEquipmentError`), would take off an item in `lockedItemIds`
+ * (base ids the current path requires), or would overflow a stack.
+ * `items` must resolve instance keys (pass them through `withItemInstances`).
+ */
+export function applyLoadoutEquipment(
+  inventory: Record<string, number>,
+  equipment: Record<string, string | null>,
+  loadout: SavedLoadout,
+  items: Record<string, ItemDefinition>,
+  className: string,
+  lockedItemIds: string[] = [],
+): ApplyLoadoutResult {
+  const error = getLoadoutEquipmentError(loadout.equipment, items, className);
+  if (error) return { success: false, error };
+
+  const bag = { ...inventory };
+  for (const key of wornKeys(equipment)) bag[key] = (bag[key] ?? 0) + 1;
+
+  const next: Record<string, string | null> = {};
+  for (const slot of Object.keys(equipment)) next[slot] = null;
+  const missing: string[] = [];
+  const twoHanded = !!loadout.equipment.mainhand && items[loadout.equipment.mainhand]?.equipSlot === 'twohanded';
+  for (const [slot, key] of Object.entries(loadout.equipment)) {
+    if (!key || !(slot in next)) continue;
+    if (slot === 'offhand' && twoHanded) continue;
+    if (!items[key] || (bag[key] ?? 0) <= 0) {
+      if (!missing.includes(key)) missing.push(key);
+      continue;
+    }
+    bag[key]--;
+    if (bag[key] === 0) delete bag[key];
+    next[slot] = key;
+  }
+  if (twoHanded) next.offhand = next.mainhand;
+
+  const kept = new Set(wornKeys(next).map(getBaseItemId));
+  for (const key of wornKeys(equipment)) {
+    const baseId = getBaseItemId(key);
+    if (lockedItemIds.includes(baseId) && !kept.has(baseId)) {
+      return { success: false, error: `${items[key]?.name ?? baseId} is needed for the path ahead.` };
+    }
+  }
+  for (const [key, count] of Object.entries(bag)) {
+    if (count > MAX_STACK) return { success: false, error: `No room for ${items[key]?.name ?? key}.` };
+  }
+  return { success: true, inventory: bag, equipment: next, missing };
+}
+
+// --- Validation ---
+
+/** Validate a loadout name. Returns an error message, or null. */
+export function validateLoadoutName(name: string): string | null {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) return 'Loadout name is required.';
+  if (trimmed.length > MAX_LOADOUT_NAME_LENGTH) return `Loadout names are at most ${MAX_LOADOUT_NAME_LENGTH} characters.`;
+  return null;
+}
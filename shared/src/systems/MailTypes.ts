@@ -0,0 +1,146 @@
+import { MAX_STACK } from './ItemTypes.js';
+import type { ItemInstance } from './AffixTypes.js';
+import { AUCTION_HOUSE_SENDER } from './AuctionTypes.js';
+
+// --- Types ---
+
+/** One item stack carried by a mail. */
+export interface MailAttachment {
+  /** Inventory key — a content item id, or an instance id when `instance` is set (quantity 1). */
+  itemId: string;
+  quantity: number;
+  /** The rolled instance in transit when `itemId` is an instance id. */
+  instance?: ItemInstance;
+}
+
+/**
+ * A letter in a player's mailbox. Attachments and gold stay in the mail until
+ * claimed, so a player can "hold" more than MAX_STACK of an item by leaving it
+ * here. Claiming moves whatever fits into the inventory and leaves the rest.
+ */
+export interface MailboxEntry {
+  id: string;
+  /** A username, or a system sender name (see `system`). */
+  fromUsername: string;
+  /** Sent by the game (quest overflow, auction house, admin grant) — there's no one to return it to. */
+  system?: boolean;
+  subject: string;
+  body?: string;
+  attachments: MailAttachment[];
+  gold?: number;
+  sentAt: number;
+  /** When the expiry sweep returns (player mail) or deletes (everything else) this mail. */
+  expiresAt: number;
+  /** True if this mail bounced back to its original sender; returned mail is never returned again. */
+  returned?: boolean;
+}
+
+/** Everything a sender puts into a new mail. */
+export interface MailDraft {
+  subject: string;
+  body?: string;
+  attachments?: MailAttachment[];
+  gold?: number;
+  system?: boolean;
+  returned?: boolean;
+}
+
+// --- Constants ---
+
+export const MAX_MAIL_ATTACHMENTS = 8;
+export const MAX_MAIL_SUBJECT_LENGTH = 60;
+export const MAX_MAIL_BODY_LENGTH = 500;
+/** Days a mail sits unclaimed before the expiry sweep handles it. */
+export const MAIL_EXPIRY_DAYS = 30;
+export const MAIL_EXPIRY_MS = MAIL_EXPIRY_DAYS * 24 * 3600 * 1000;
+/** Sender name on quest rewards that didn't fit the inventory and on admin grants. */
+export const SYSTEM_MAIL_SENDER = 'System';
+/** Subject used for `send_gift`, which carries no subject of its own. */
+export const GIFT_MAIL_SUBJECT = 'Gift';
+
+// --- Pure functions ---
+
+/**
+ * Upgrade a saved mailbox entry to the current shape. Entries saved before
+ * mail existed were a single `{ itemId, quantity, instance? }` gift or a
+ * `{ gold }` auction payout, with no subject or expiry. Their expiry runs
+ * from `now` (the migration), not `sentAt`, so old unclaimed entries don't
+ * all expire on the first sweep after the upgrade.
+ */
+export function migrateMailboxEntry(
+  raw: MailboxEntry & { itemId?: string; quantity?: number; instance?: ItemInstance },
+  now: number = Date.now(),
+): MailboxEntry {
+  if (Array.isArray(raw.attachments)) return raw;
+  const { itemId, quantity, instance, ...rest } = raw;
+  const attachments: MailAttachment[] = itemId && quantity
+    ? [{ itemId, quantity, ...(instance ? { instance } : {}) }]
+    : [];
+  return {
+    ...rest,
+    ...(raw.fromUsername === AUCTION_HOUSE_SENDER ? { system: true } : {}),
+    subject: raw.subject ?? GIFT_MAIL_SUBJECT,
+    attachments,
+    expiresAt: raw.expiresAt ?? now + MAIL_EXPIRY_MS,
+  };
+}
+
+/** Whether a mail still carries anything to claim. */
+export function hasMailContents(entry: MailboxEntry): boolean {
+  return entry.attachments.length > 0 || (entry.gold ?? 0) > 0;
+}
+
+/**
+ * Whether the expiry sweep may take a mail. Unclaimed player mail is bounced
+ * to its sender, and letters with nothing left to claim are deleted. System
+ * and already-returned mail with contents has nowhere to go, so it stays
+ * until the player claims or discards it.
+ */
+export function canMailExpire(entry: MailboxEntry): boolean {
+  return !hasMailContents(entry) || (!entry.system && !entry.returned);
+}
+
+/**
+ * Split a mail's attachments into those that fit the inventory and those that
+ * don't. Each attachment is all-or-nothing; attachments of the same item are
+ * counted against each other so two 60-stacks can't both land on one stack.
+ */
+export function splitClaimableAttachments(
+  attachments: MailAttachment[],
+  getInventoryCount: (itemId: string) => number,
+): { claimable: MailAttachment[]; remaining: MailAttachment[] } {
+  const claimable: MailAttachment[] = [];
+  const remaining: MailAttachment[] = [];
+  const pending: Record<string, number> = {};
+  for (const attachment of attachments) {
+    const held = getInventoryCount(attachment.itemId) + (pending[attachment.itemId] ?? 0);
+    if (held + attachment.quantity > MAX_STACK) {
+      remaining.push(attachment);
+      continue;
+    }
+    pending[attachment.itemId] = (pending[attachment.itemId] ?? 0) + attachment.quantity;
+    claimable.push(attachment);
+  }
+  return { claimable, remaining };
+}
+
+// --- Validation ---
+
+/** Validate a player-composed mail. Returns an error message, or null. */
+export function validateMailDraft(draft: MailDraft): string | null {
+  const subject = draft.subject.trim();
+  if (!subject) return 'Mail needs a subject.';
+  if (subject.length > MAX_MAIL_SUBJECT_LENGTH) return `Subject can be at most ${MAX_MAIL_SUBJECT_LENGTH} characters.`;
+  if ((draft.body ?? '').length > MAX_MAIL_BODY_LENGTH) return `Message can be at most ${MAX_MAIL_BODY_LENGTH} characters.`;
+  const attachments = draft.attachments ?? [];
+  if (attachments.length > MAX_MAIL_ATTACHMENTS) return `At most ${MAX_MAIL_ATTACHMENTS} attachments per mail.`;
+  const seen = new Set<string>();
+  for (const { itemId, quantity } of attachments) {
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_STACK) return 'Invalid quantity.';
+    if (seen.has(itemId)) return 'Each item can only be attached once.';
+    seen.add(itemId);
+  }
+  const gold = draft.gold ?? 0;
+  if (!Number.isInteger(gold) || gold < 0) return 'Invalid gold amount.';
+  return null;
+}
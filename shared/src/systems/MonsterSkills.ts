@@ -2,14 +2,27 @@ import type { DamageType } from './CharacterStats.js';
 
 // --- Types ---
 
+export type MonsterSkillTargeting =
+  | 'standard' | 'aoe_all' | 'lowest_hp_enemy' | 'lowest_hp_ally' | 'all_class'
+  | 'highest_damage_enemy' | 'back_row' | 'class_first' | 'random_enemy';
+
+/**
+ * `target_priority` skills are passive: they never take a turn. Whenever the
+ * monster makes a single-target attack (its normal hit, or a `standard` skill),
+ * each one rolls its entry value as a percent chance to pick the victim by its
+ * targeting rule instead of the grid rule. Taunting players override them.
+ */
+export type MonsterSkillEffect = 'damage' | 'stun' | 'dot' | 'heal' | 'target_priority';
+
 export interface MonsterSkillDefinition {
   id: string;
   name: string;
   description: string;
   damageType?: DamageType;
-  targeting: 'standard' | 'aoe_all' | 'lowest_hp_enemy' | 'lowest_hp_ally' | 'all_class';
+  targeting: MonsterSkillTargeting;
+  /** `all_class`: classes hit. `class_first`: classes hunted, in no particular order. */
   targetClasses?: string[];
-  effect: 'damage' | 'stun' | 'dot' | 'heal';
+  effect: MonsterSkillEffect;
   dotDuration?: number;
   cooldown: number;
 }
@@ -20,8 +33,8 @@ export const MONSTER_SKILL_CATALOG: Record<string, MonsterSkillDefinition> = {
   fireball: {
     id: 'fireball',
     name: 'Fireball',
-    description: 'Deals magical damage to all enemies',
-    damageType: 'magical',
+    description: 'Deals fire damage to all enemies',
+    damageType: 'fire',
     targeting: 'aoe_all',
     effect: 'damage',
     cooldown: 3,
@@ -38,8 +51,8 @@ export const MONSTER_SKILL_CATALOG: Record<string, MonsterSkillDefinition> = {
   rot: {
     id: 'rot',
     name: 'Rot',
-    description: 'Applies a stacking magical DoT to the target in front',
-    damageType: 'magical',
+    description: 'Applies a stacking poison DoT to the target in front',
+    damageType: 'poison',
     targeting: 'standard',
     effect: 'dot',
     dotDuration: 3,
@@ -62,4 +75,45 @@ export const MONSTER_SKILL_CATALOG: Record<string, MonsterSkillDefinition> = {
     effect: 'damage',
     cooldown: 5,
   },
+  prey_on_the_weak: {
+    id: 'prey_on_the_weak',
+    name: 'Prey on the Weak',
+    description: 'Attacks the enemy with the lowest HP',
+    targeting: 'lowest_hp_enemy',
+    effect: 'target_priority',
+    cooldown: 0,
+  },
+  hunt_the_strong: {
+    id: 'hunt_the_strong',
+    name: 'Hunt the Strong',
+    description: 'Attacks the enemy with the highest base damage',
+    targeting: 'highest_damage_enemy',
+    effect: 'target_priority',
+    cooldown: 0,
+  },
+  snipe: {
+    id: 'snipe',
+    name: 'Snipe',
+    description: 'Attacks an enemy in the back column',
+    targeting: 'back_row',
+    effect: 'target_priority',
+    cooldown: 0,
+  },
+  hunt_healers: {
+    id: 'hunt_healers',
+    name: 'Hunt Healers',
+    description: 'Attacks priests first',
+    targeting: 'class_first',
+    targetClasses: ['Priest'],
+    effect: 'target_priority',
+    cooldown: 0,
+  },
+  frenzy: {
+    id: 'frenzy',
+    name: 'Frenzy',
+    description: 'Attacks a random enemy',
+    targeting: 'random_enemy',
+    effect: 'target_priority',
+    cooldown: 0,
+  },
 };
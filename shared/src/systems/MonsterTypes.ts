@@ -1,5 +1,7 @@
-import type { ItemDrop } from './ItemTypes.js';
+import type { ItemDrop, StatusResistances } from './ItemTypes.js';
+import { STATUS_RESISTANCE_KEYS } from './ItemTypes.js';
 import type { DamageType } from './CharacterStats.js';
+import { migrateLegacyDamageType } from './CharacterStats.js';
 import type { PartyGridPosition } from './SocialTypes.js';
 
 // --- Types ---
@@ -14,9 +16,41 @@ export interface MonsterSkillEntry {
   skillId: string;
   value: number;
   cooldown: number;
+  /** Status effect id applied to every player the skill lands on. */
+  statusEffectId?: string;
 }
 
-export interface MonsterDefinition {
+export interface BossSummon {
+  monsterId: string;
+  /** Adds spawned, each into an empty grid position (extras are dropped when the grid is full). */
+  count: number;
+}
+
+/**
+ * One scripted stage of a boss fight. A phase begins once the monster's HP falls to
+ * `hpThreshold` percent of max (a 100% phase is active from the first tick); phases
+ * are listed highest threshold first and each fires once.
+ */
+export interface BossPhase {
+  /** HP percent (1-100) at or below which this phase begins. */
+  hpThreshold: number;
+  /** Optional name announced in the combat log ("Shatterstorm"). */
+  name?: string;
+  /** Replaces the monster's skill set for this phase (omit to keep the current one). */
+  skills?: MonsterSkillEntry[];
+  /** Adds summoned when the phase begins. */
+  summons?: BossSummon[];
+  /** The monster ignores all damage for this many of its own turns. */
+  immuneTurns?: number;
+  /** Enrage once this phase has lasted this many rounds. */
+  enrageAfterRounds?: number;
+  /** Damage multiplier while enraged. Defaults to `DEFAULT_ENRAGE_MULTIPLIER`. */
+  enrageDamageMultiplier?: number;
+}
+
+export const DEFAULT_ENRAGE_MULTIPLIER = 1.5;
+
+export interface MonsterDefinition extends StatusResistances {
   id: string;
   name: string;
   hp: number;
@@ -32,9 +66,13 @@ export interface MonsterDefinition {
   passive?: boolean;
   /** Optional flavor text shown in the monster popup. */
   description?: string;
+  /** Boss phases, highest HP threshold first. Any monster with phases fights as a boss. */
+  phases?: BossPhase[];
+  /** Free-form labels (undead, beast, …) that scripted skill conditions can test. */
+  tags?: string[];
 }
 
-export interface MonsterInstance {
+export interface MonsterInstance extends StatusResistances {
   id: string;
   name: string;
   maxHp: number;
@@ -53,6 +91,10 @@ export interface MonsterInstance {
   passive?: boolean;
   /** Optional flavor text shown in the monster popup. */
   description?: string;
+  /** Boss phases (copied from definition). */
+  phases?: BossPhase[];
+  /** Tags (copied from definition). */
+  tags?: string[];
 }
 
 // --- Seed data (used as defaults when data files don't exist) ---
@@ -82,7 +124,7 @@ export const SEED_MONSTERS: Record<string, MonsterDefinition> = {
     name: 'Wolf',
     hp: 20,
     damage: 6,
-    damageType: 'magical',
+    damageType: 'arcane',
     xp: 10,
     goldMin: 3,
     goldMax: 5,
@@ -112,6 +154,21 @@ export const SEED_MONSTERS: Record<string, MonsterDefinition> = {
       { itemId: 'iron_battleaxe', chance: 0.003 },
     ],
   },
+  crystal_golem: {
+    id: 'crystal_golem',
+    name: 'Crystal Golem',
+    hp: 150,
+    damage: 7,
+    damageType: 'physical',
+    xp: 60,
+    goldMin: 10,
+    goldMax: 20,
+    description: 'The guardian of the Crystal Caves. It sheds goblin-infested shards as it cracks.',
+    phases: [
+      { hpThreshold: 60, name: 'Shatter', summons: [{ monsterId: 'goblin', count: 2 }], immuneTurns: 2 },
+      { hpThreshold: 25, name: 'Crystal Fury', skills: [{ skillId: 'snipe', value: 50, cooldown: 1 }], enrageAfterRounds: 3 },
+    ],
+  },
   stone_wall: {
     id: 'stone_wall',
     name: 'Stone Wall',
@@ -150,8 +207,56 @@ export function createMonsterInstance(def: MonsterDefinition, gridPosition: Part
       instance.skillCooldowns[s.skillId] = 0;
     }
   }
+  for (const key of STATUS_RESISTANCE_KEYS) {
+    if (def[key]) instance[key] = def[key];
+  }
   if (def.passive) instance.passive = true;
   if (def.description) instance.description = def.description;
+  if (def.phases?.length) instance.phases = def.phases;
+  if (def.tags?.length) instance.tags = def.tags;
   return instance;
 }
 
+/**
+ * Normalize a stored monster onto the current damage types ('magical' → 'arcane'
+ * for its attack and its resistances). Idempotent; returns the input when nothing changed.
+ */
+export function migrateLegacyMonster(def: MonsterDefinition): MonsterDefinition {
+  const damageType = migrateLegacyDamageType(def.damageType);
+  const legacyResistance = def.resistances?.some(r => migrateLegacyDamageType(r.damageType) !== r.damageType);
+  if (damageType === def.damageType && !legacyResistance) return def;
+  return {
+    ...def,
+    damageType,
+    ...(def.resistances ? { resistances: def.resistances.map(r => ({ ...r, damageType: migrateLegacyDamageType(r.damageType) })) } : {}),
+  };
+}
+
+/** Shape checks for a monster's boss phases. Returns human-readable problems (empty = valid). */
+export function validateBossPhases(phases: BossPhase[] | undefined): string[] {
+  const errors: string[] = [];
+  let prevThreshold = Infinity;
+  (phases ?? []).forEach((phase, index) => {
+    const label = `Phase ${index + 1}`;
+    if (typeof phase.hpThreshold !== 'number' || phase.hpThreshold < 1 || phase.hpThreshold > 100) {
+      errors.push(`${label}: hpThreshold must be between 1 and 100.`);
+    } else if (phase.hpThreshold >= prevThreshold) {
+      errors.push(`${label}: hpThreshold must be lower than the previous phase's.`);
+    }
+    prevThreshold = phase.hpThreshold;
+    for (const summon of phase.summons ?? []) {
+      if (!summon.monsterId) errors.push(`${label}: summon needs a monsterId.`);
+      if (!Number.isInteger(summon.count) || summon.count < 1) errors.push(`${label}: summon count must be a positive integer.`);
+    }
+    if (phase.immuneTurns != null && (!Number.isInteger(phase.immuneTurns) || phase.immuneTurns < 0)) {
+      errors.push(`${label}: immuneTurns must be a non-negative integer.`);
+    }
+    if (phase.enrageAfterRounds != null && (!Number.isInteger(phase.enrageAfterRounds) || phase.enrageAfterRounds < 1)) {
+      errors.push(`${label}: enrageAfterRounds must be a positive integer.`);
+    }
+    if (phase.enrageDamageMultiplier != null && !(phase.enrageDamageMultiplier > 0)) {
+      errors.push(`${label}: enrageDamageMultiplier must be greater than 0.`);
+    }
+  });
+  return errors;
+}
@@ -55,6 +55,11 @@ export const NOTIFICATION_EVENT_REGISTRY: NotificationEventDefinition[] = [
   { eventKey: 'dm_received', category: 'dm', label: 'New direct message', defaultChannels: ['in_app'] },
   { eventKey: 'friend_request_received', category: 'friend', label: 'New friend request', defaultChannels: ['in_app'] },
   { eventKey: 'friend_request_accepted', category: 'friend', label: 'Friend request accepted', defaultChannels: ['in_app'] },
+  { eventKey: 'mail_received', category: 'trade', label: 'New mail', defaultChannels: ['in_app'] },
+  { eventKey: 'auction_sold', category: 'trade', label: 'Auction listing sold', defaultChannels: ['in_app'] },
+  { eventKey: 'auction_expired', category: 'trade', label: 'Auction listing expired', defaultChannels: [] },
+  { eventKey: 'work_order_delivered', category: 'trade', label: 'Work order delivery', defaultChannels: ['in_app'] },
+  { eventKey: 'work_order_expired', category: 'trade', label: 'Work order expired', defaultChannels: [] },
 ];
 
 export function getNotificationEventDefinition(eventKey: string): NotificationEventDefinition | undefined {
@@ -11,6 +11,23 @@ export interface NpcDefinition {
   artworkUrl?: string;
   /** Quest IDs this NPC offers. Wired in the quest phase; empty for the framework MVP. */
   questIds?: string[];
+  /** Discoverable recipes this NPC teaches for gold. */
+  recipesForSale?: NpcRecipeOffer[];
+}
+
+export interface NpcRecipeOffer {
+  recipeId: string;
+  /** Gold cost to learn the recipe. */
+  price: number;
+}
+
+/** A recipe the NPC in the player's room teaches, resolved for the talk popup. */
+export interface ClientNpcRecipeOffer {
+  recipeId: string;
+  name: string;
+  price: number;
+  /** Why the player can't learn it (already known, wrong class), or null. */
+  blockedReason: string | null;
 }
 
 /**
@@ -32,8 +32,10 @@ export type QuestObjective = KillObjective | CollectObjective | VisitObjective;
 export interface XpReward { kind: 'xp'; amount: number; }
 export interface GoldReward { kind: 'gold'; amount: number; }
 export interface ItemReward { kind: 'item'; itemId: string; quantity: number; }
+/** Teaches a discoverable recipe (no-op if the player already knows it or their class can't use it). */
+export interface RecipeReward { kind: 'recipe'; recipeId: string; }
 
-export type QuestReward = XpReward | GoldReward | ItemReward;
+export type QuestReward = XpReward | GoldReward | ItemReward | RecipeReward;
 
 export interface QuestDefinition {
   id: string;
@@ -0,0 +1,45 @@
+// --- Types ---
+
+/**
+ * Serializable state of a deterministic random stream. `seed` is the value the
+ * stream started from (quote it in bug reports); `state` is the current cursor
+ * and advances on every draw. Plain numbers only, so a snapshot round-trips
+ * through JSON and resumes exactly where it left off.
+ */
+export interface RngState {
+  seed: number;
+  state: number;
+}
+
+// --- Functions ---
+
+/** Pick a fresh 32-bit seed. The only place the engine still touches Math.random. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/** Create a new stream starting at `seed` (a random seed when omitted). */
+export function createRngState(seed: number = randomSeed()): RngState {
+  const normalized = seed >>> 0;
+  return { seed: normalized, state: normalized };
+}
+
+/**
+ * Draw the next value in [0, 1) and advance the stream (mulberry32).
+ * Drop-in replacement for `Math.random()`.
+ */
+export function nextRandom(rng: RngState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/**
+ * Wrap a stream as a `() => number` for helpers that take an injectable `rng`
+ * (`createEncounter`, `rollDrops`, `rollDungeonRewards`). Draws advance `rng`.
+ */
+export function rngFn(rng: RngState): () => number {
+  return () => nextRandom(rng);
+}
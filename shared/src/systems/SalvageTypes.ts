@@ -0,0 +1,203 @@
+import type { ItemDefinition, ItemRarity } from './ItemTypes.js';
+import { MAX_STACK, RARITY_DROP_RATES } from './ItemTypes.js';
+import { getBaseItemId } from './AffixTypes.js';
+
+// --- Types ---
+
+/** One material a salvage table can produce. */
+export interface SalvageYield {
+  itemId: string;
+  /** Inclusive integer quantity range per salvaged item. */
+  min: number;
+  max: number;
+  /** Chance (0-1) the yield drops at all. Default 1. */
+  chance?: number;
+}
+
+/**
+ * What salvaging gear of one rarity breaks down into. One table per rarity;
+ * a rarity without a table can't be salvaged.
+ */
+export interface SalvageTableDefinition {
+  /** The item rarity this table covers. */
+  id: ItemRarity;
+  yields: SalvageYield[];
+}
+
+export type SalvageResult =
+  | { success: true; salvaged: number; materials: Record<string, number> }
+  | { success: false; error: string };
+
+// --- Constants ---
+
+/** Rarities the bulk "salvage all" flow offers. */
+export const BULK_SALVAGE_RARITIES: ItemRarity[] = ['janky', 'common'];
+
+export const SEED_SALVAGE_TABLES: Record<string, SalvageTableDefinition> = {
+  janky: {
+    id: 'janky',
+    yields: [{ itemId: 'scrap_metal', min: 1, max: 1 }],
+  },
+  common: {
+    id: 'common',
+    yields: [{ itemId: 'scrap_metal', min: 1, max: 2 }],
+  },
+  uncommon: {
+    id: 'uncommon',
+    yields: [
+      { itemId: 'scrap_metal', min: 2, max: 3 },
+      { itemId: 'arcane_dust', min: 1, max: 1, chance: 0.5 },
+    ],
+  },
+  rare: {
+    id: 'rare',
+    yields: [
+      { itemId: 'scrap_metal', min: 2, max: 4 },
+      { itemId: 'arcane_dust', min: 1, max: 2 },
+    ],
+  },
+  epic: {
+    id: 'epic',
+    yields: [{ itemId: 'arcane_dust', min: 3, max: 5 }],
+  },
+  legendary: {
+    id: 'legendary',
+    yields: [{ itemId: 'arcane_dust', min: 6, max: 10 }],
+  },
+};
+
+// --- Pure functions ---
+
+/**
+ * Why an item can't be salvaged, or null if it can. Only gear salvages, and
+ * only when its rarity has a table; socketed gems have to come out first.
+ */
+export function getSalvageBlockReason(
+  def: ItemDefinition,
+  tables: Record<string, SalvageTableDefinition>,
+): string | null {
+  if (!def.equipSlot) return `${def.name} isn't gear and can't be salvaged.`;
+  const table = tables[def.rarity];
+  if (!table || table.yields.length === 0) return `${def.name} can't be salvaged.`;
+  if (def.gems?.length) return `Remove the gems from ${def.name} first.`;
+  return null;
+}
+
+/** Roll one salvaged item's materials into `into`. Mutates and returns `into`. */
+export function rollSalvage(
+  table: SalvageTableDefinition,
+  into: Record<string, number> = {},
+  rng: () => number = Math.random,
+): Record<string, number> {
+  for (const y of table.yields) {
+    if (y.chance !== undefined && rng() >= y.chance) continue;
+    const quantity = y.min + Math.floor(rng() * (y.max - y.min + 1));
+    if (quantity > 0) into[y.itemId] = (into[y.itemId] ?? 0) + quantity;
+  }
+  return into;
+}
+
+/**
+ * The most items of one table's rarity that can be salvaged before a yield's
+ * best roll could overflow MAX_STACK, given the materials already owned.
+ */
+export function getSalvageCapacity(
+  inventory: Record<string, number>,
+  table: SalvageTableDefinition,
+): number {
+  const best: Record<string, number> = {};
+  for (const y of table.yields) best[y.itemId] = (best[y.itemId] ?? 0) + y.max;
+  let capacity = Infinity;
+  for (const [itemId, quantity] of Object.entries(best)) {
+    capacity = Math.min(capacity, Math.floor(Math.max(0, MAX_STACK - (inventory[itemId] ?? 0)) / quantity));
+  }
+  return capacity;
+}
+
+/**
+ * Salvage `count` copies of an inventory entry into materials. Refuses up front
+ * when the best possible roll wouldn't fit under MAX_STACK, so nothing is lost.
+ * `items` must resolve the key (pass instances through `withItemInstances`).
+ * Mutates `inventory`.
+ */
+export function salvageItems(
+  inventory: Record<string, number>,
+  itemKey: string,
+  count: number,
+  items: Record<string, ItemDefinition>,
+  tables: Record<string, SalvageTableDefinition>,
+  rng: () => number = Math.random,
+): SalvageResult {
+  const def = items[itemKey];
+  if (!def) return { success: false, error: 'Unknown item.' };
+  const have = inventory[itemKey] ?? 0;
+  if (!Number.isInteger(count) || count <= 0 || have < count) return { success: false, error: `You don't have ${count} ${def.name}.` };
+  const blocked = getSalvageBlockReason(def, tables);
+  if (blocked) return { success: false, error: blocked };
+
+  const table = tables[def.rarity];
+  const worst: Record<string, number> = {};
+  for (const y of table.yields) worst[y.itemId] = (worst[y.itemId] ?? 0) + y.max * count;
+  for (const [itemId, quantity] of Object.entries(worst)) {
+    if ((inventory[itemId] ?? 0) + quantity > MAX_STACK) {
+      return { success: false, error: `No room for ${items[itemId]?.name ?? itemId}.` };
+    }
+  }
+
+  const materials: Record<string, number> = {};
+  for (let i = 0; i < count; i++) rollSalvage(table, materials, rng);
+  if (have === count) delete inventory[itemKey];
+  else inventory[itemKey] = have - count;
+  for (const [itemId, quantity] of Object.entries(materials)) {
+    inventory[itemId] = (inventory[itemId] ?? 0) + quantity;
+  }
+  return { success: true, salvaged: count, materials };
+}
+
+/**
+ * Unequipped inventory keys the bulk flow would salvage: gear of the given
+ * rarities that `getSalvageBlockReason` allows, minus `excludeItemIds`
+ * (base item ids — e.g. items the current path needs).
+ */
+export function getBulkSalvageKeys(
+  inventory: Record<string, number>,
+  items: Record<string, ItemDefinition>,
+  tables: Record<string, SalvageTableDefinition>,
+  rarities: ItemRarity[],
+  excludeItemIds: string[] = [],
+): string[] {
+  return Object.keys(inventory).filter(key => {
+    const def = items[key];
+    if (!def || !rarities.includes(def.rarity)) return false;
+    if (excludeItemIds.includes(getBaseItemId(key))) return false;
+    return getSalvageBlockReason(def, tables) === null;
+  });
+}
+
+// --- Validation ---
+
+/**
+ * Validate a salvage table. Pass `itemIds` to also check that every yield
+ * names a known item. Returns a list of error messages (empty = valid).
+ */
+export function validateSalvageTable(table: SalvageTableDefinition, itemIds?: Set<string>): string[] {
+  const errors: string[] = [];
+  if (!table.id || !(table.id in RARITY_DROP_RATES)) {
+    errors.push(`Salvage table id must be an item rarity: ${Object.keys(RARITY_DROP_RATES).join(', ')}.`);
+  }
+  if (!Array.isArray(table.yields)) {
+    errors.push('Yields must be a list.');
+    return errors;
+  }
+  table.yields.forEach((y, i) => {
+    if (!y.itemId) errors.push(`Yield ${i + 1} needs an item.`);
+    else if (itemIds && !itemIds.has(y.itemId)) errors.push(`Yield ${i + 1}: unknown item "${y.itemId}".`);
+    if (!Number.isInteger(y.min) || !Number.isInteger(y.max) || y.min < 0 || y.max < 1 || y.min > y.max) {
+      errors.push(`Yield ${i + 1}: min and max must be integers with 0 ≤ min ≤ max and max ≥ 1.`);
+    }
+    if (y.chance !== undefined && (typeof y.chance !== 'number' || !(y.chance > 0) || y.chance > 1)) {
+      errors.push(`Yield ${i + 1}: chance must be in (0, 1].`);
+    }
+  });
+  return errors;
+}
@@ -1,9 +1,12 @@
-import type { EquipmentBonuses, ItemDefinition } from './ItemTypes.js';
+import type { EquipmentBonuses, ItemDefinition, StatusResistances } from './ItemTypes.js';
+import { STATUS_RESISTANCE_KEYS, addResistances, addBonusDamage, getResistanceText } from './ItemTypes.js';
+import { getBaseItemId, toBaseItemIds } from './AffixTypes.js';
+import type { Resistance } from './MonsterTypes.js';
 import type { SkillDefinition } from './SkillTypes.js';
 
 // --- Types ---
 
-export interface SetBonuses {
+export interface SetBonuses extends StatusResistances {
   /** Lower active skill cooldown by X ticks. */
   cooldownReduction?: number;
   /** X% increased damage (applied after flat damage calc, stacks additively). */
@@ -26,6 +29,8 @@ export interface SetBonuses {
   flatHp?: number;
   /** Percent HP bonus (applied after flat HP, stacks additively). */
   percentHp?: number;
+  /** Per-type resistances (summed with gear; applied after damageResistancePercent, before DR/MR). */
+  resistances?: Resistance[];
   /** Skill IDs this tier grants while active (availability only — the player still equips the skill into a slot). */
   grantedSkillIds?: string[];
 }
@@ -161,9 +166,10 @@ export function computeActiveSetBonuses(
   sets: Record<string, SetDefinition>,
   className?: string | null,
 ): { activeSetIds: string[]; bonuses: SetBonuses } {
+  // Item instances count as their base item for set membership.
   const equippedItemIds = new Set<string>();
   for (const itemId of Object.values(equipment)) {
-    if (itemId) equippedItemIds.add(itemId);
+    if (itemId) equippedItemIds.add(getBaseItemId(itemId));
   }
 
   const activeSetIds: string[] = [];
@@ -179,6 +185,10 @@ export function computeActiveSetBonuses(
     bonusAttackMax: 0,
     flatHp: 0,
     percentHp: 0,
+    stunResistance: 0,
+    dotResistance: 0,
+    debuffResistance: 0,
+    resistances: [],
     grantedSkillIds: [],
   };
 
@@ -208,6 +218,8 @@ export function computeActiveSetBonuses(
     combined.bonusAttackMax += b.bonusAttackMax ?? 0;
     combined.flatHp += b.flatHp ?? 0;
     combined.percentHp += b.percentHp ?? 0;
+    for (const key of STATUS_RESISTANCE_KEYS) combined[key] += b[key] ?? 0;
+    addResistances(combined.resistances, b.resistances);
     if (b.grantedSkillIds) {
       for (const skillId of b.grantedSkillIds) {
         if (!combined.grantedSkillIds.includes(skillId)) combined.grantedSkillIds.push(skillId);
@@ -219,9 +231,9 @@ export function computeActiveSetBonuses(
 }
 
 /**
- * Compute the union of skill IDs granted by equipped items and by active set
- * breakpoints (highest unlocked tier per set, class restriction respected via
- * computeActiveSetBonuses). Grants gate skill AVAILABILITY only — they are
+ * Compute the union of skill IDs granted by equipped items, the gems socketed
+ * in them, and active set breakpoints (highest unlocked tier per set, class
+ * restriction respected via computeActiveSetBonuses). Grants gate skill AVAILABILITY only — they are
  * never written into `unlockedSkills`.
  */
 export function computeGrantedSkillIds(
@@ -232,12 +244,15 @@ export function computeGrantedSkillIds(
 ): string[] {
   const granted = new Set<string>();
 
-  // Item grants — a 2H weapon occupies two slots with the same id; the Set dedupes it.
+  // Item and socketed-gem grants — a 2H weapon occupies two slots with the same id; the Set dedupes it.
   for (const itemId of Object.values(equipment)) {
     if (!itemId) continue;
     const def = items[itemId];
-    if (!def?.grantedSkillIds) continue;
-    for (const skillId of def.grantedSkillIds) granted.add(skillId);
+    if (!def) continue;
+    for (const skillId of def.grantedSkillIds ?? []) granted.add(skillId);
+    for (const gemId of def.gems ?? []) {
+      for (const skillId of items[gemId]?.grantedSkillIds ?? []) granted.add(skillId);
+    }
   }
 
   // Set grants — reuse the tier logic in computeActiveSetBonuses.
@@ -262,6 +277,12 @@ export function mergeSetBonusesIntoEquip(
     damageReductionMax: equipBonuses.damageReductionMax + (setBonuses.damageReductionMax ?? 0),
     magicReductionMin: equipBonuses.magicReductionMin + (setBonuses.magicReductionMin ?? 0),
     magicReductionMax: equipBonuses.magicReductionMax + (setBonuses.magicReductionMax ?? 0),
+    stunResistance: equipBonuses.stunResistance + (setBonuses.stunResistance ?? 0),
+    dotResistance: equipBonuses.dotResistance + (setBonuses.dotResistance ?? 0),
+    debuffResistance: equipBonuses.debuffResistance + (setBonuses.debuffResistance ?? 0),
+    resistances: addResistances(addResistances([], equipBonuses.resistances), setBonuses.resistances),
+    critChance: equipBonuses.critChance,
+    bonusDamage: addBonusDamage([], equipBonuses.bonusDamage),
   };
 }
 
@@ -281,27 +302,30 @@ export function getSetInfoForItem(
   equippedItemIds?: Set<string>,
   className?: string | null,
 ): { set: SetDefinition; ownedCount: number; equippedCount: number } | null {
-  const matches = getSetsForItem(itemId, sets, className);
+  const matches = getSetsForItem(getBaseItemId(itemId), sets, className);
   if (matches.length === 0) return null;
   const set = matches[0];
+  const owned = ownedItemIds ? toBaseItemIds(ownedItemIds) : undefined;
+  const equipped = equippedItemIds ? toBaseItemIds(equippedItemIds) : undefined;
   let ownedCount = 0;
   let equippedCount = 0;
   for (const id of set.itemIds) {
-    if (ownedItemIds?.has(id) || equippedItemIds?.has(id)) ownedCount++;
-    if (equippedItemIds?.has(id)) equippedCount++;
+    if (owned?.has(id) || equipped?.has(id)) ownedCount++;
+    if (equipped?.has(id)) equippedCount++;
   }
   return { set, ownedCount, equippedCount };
 }
 
-/** Return every set containing the item, optionally filtered to applicable-to-className. */
+/** Return every set containing the item (or an instance of it), optionally filtered to applicable-to-className. */
 export function getSetsForItem(
   itemId: string,
   sets: Record<string, SetDefinition>,
   className?: string | null,
 ): SetDefinition[] {
+  const baseId = getBaseItemId(itemId);
   const result: SetDefinition[] = [];
   for (const set of Object.values(sets)) {
-    if (!set.itemIds.includes(itemId)) continue;
+    if (!set.itemIds.includes(baseId)) continue;
     if (className !== undefined && !setAppliesToClass(set, className)) continue;
     result.push(set);
   }
@@ -335,6 +359,10 @@ export function getSetBonusText(bonuses: SetBonuses, skills?: Record<string, Ski
   }
   if (bonuses.flatHp) parts.push(`+${bonuses.flatHp} HP`);
   if (bonuses.percentHp) parts.push(`+${bonuses.percentHp}% HP`);
+  if (bonuses.stunResistance) parts.push(`${bonuses.stunResistance}% Stun Resist`);
+  if (bonuses.dotResistance) parts.push(`${bonuses.dotResistance}% DoT Resist`);
+  if (bonuses.debuffResistance) parts.push(`${bonuses.debuffResistance}% Debuff Resist`);
+  parts.push(...getResistanceText(bonuses.resistances ?? []));
   if (bonuses.grantedSkillIds) {
     for (const skillId of bonuses.grantedSkillIds) {
       parts.push(`Grants skill: ${skills?.[skillId]?.name ?? skillId}`);
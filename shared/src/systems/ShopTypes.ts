@@ -1,9 +1,13 @@
+import type { ItemInstance } from './AffixTypes.js';
+
 // --- Types ---
 
 export interface ShopItem {
   itemId: string;
-  /** Gold cost to buy this item. */
+  /** Gold cost to buy this item (before zone price scaling). */
   price: number;
+  /** Units on the shelf after each restock. Absent = unlimited supply. */
+  stock?: number;
 }
 
 export interface ShopDefinition {
@@ -11,4 +15,118 @@ export interface ShopDefinition {
   name: string;
   /** Items available for purchase in this shop. */
   inventory: ShopItem[];
+  /** Minutes between restocks of limited items. Absent or 0 = sold-out items never come back. */
+  restockMinutes?: number;
+  /** Percent added to every price per zone level above 1 (the zone's minimum level). Absent = flat prices. */
+  priceScalingPercent?: number;
+}
+
+/**
+ * Live stock of one shop's limited items, shared by every player. Only items
+ * with a `stock` cap have an entry; unlimited items are never tracked.
+ */
+export interface ShopStockState {
+  stock: Record<string, number>;
+  restockedAt: number;
+}
+
+/** A recent `shop_sell`, kept so the player can buy it back at what they were paid. */
+export interface BuybackEntry {
+  /** Inventory key — a content item id, or an instance id when `instance` is set (quantity 1). */
+  itemId: string;
+  quantity: number;
+  /** Gold paid per unit when sold — and the price to buy it back. */
+  unitPrice: number;
+  /** The rolled instance that was sold, so buyback restores it exactly. */
+  instance?: ItemInstance;
+  soldAt: number;
+}
+
+/** What the client needs to render the current shop beyond its definition. */
+export interface ClientShopState {
+  /** Effective per-unit price by item id, after zone scaling. */
+  prices: Record<string, number>;
+  /** Units left for limited items; unlimited items are absent. */
+  stock: Record<string, number>;
+  /** When limited items next restock, or null if they never do. */
+  restockAt: number | null;
+  /** The player's recent sales, newest first. */
+  buyback: BuybackEntry[];
+}
+
+// --- Constants ---
+
+/** Sales kept on a player's buyback list. */
+export const BUYBACK_LIMIT = 10;
+
+// --- Pure functions ---
+
+/** A shop item's price in a zone of `zoneLevel`, scaled by `priceScalingPercent` per level above 1. */
+export function getShopItemPrice(item: ShopItem, shop: ShopDefinition, zoneLevel: number): number {
+  const levels = Math.max(0, zoneLevel - 1);
+  return Math.round(item.price * (1 + ((shop.priceScalingPercent ?? 0) * levels) / 100));
+}
+
+/** A freshly restocked shelf: every limited item at its cap. */
+export function fullShopStock(shop: ShopDefinition, now: number): ShopStockState {
+  const stock: Record<string, number> = {};
+  for (const item of shop.inventory) {
+    if (item.stock !== undefined) stock[item.itemId] = item.stock;
+  }
+  return { stock, restockedAt: now };
+}
+
+/** When `state` next restocks, or null for shops that never restock. */
+export function getNextRestockAt(shop: ShopDefinition, state: ShopStockState): number | null {
+  if (!shop.restockMinutes || shop.restockMinutes <= 0) return null;
+  return state.restockedAt + shop.restockMinutes * 60_000;
+}
+
+/**
+ * Bring a shop's live stock up to date: the first visit fills the shelf, a
+ * due restock refills it, and items added to (or removed from) the shop by
+ * an admin edit gain (or lose) their entry without waiting for a restock.
+ */
+export function refreshShopStock(shop: ShopDefinition, state: ShopStockState | undefined, now: number): ShopStockState {
+  if (!state) return fullShopStock(shop, now);
+  const restockAt = getNextRestockAt(shop, state);
+  if (restockAt !== null && now >= restockAt) return fullShopStock(shop, now);
+  const stock: Record<string, number> = {};
+  for (const item of shop.inventory) {
+    if (item.stock === undefined) continue;
+    stock[item.itemId] = Math.min(state.stock[item.itemId] ?? item.stock, item.stock);
+  }
+  return { stock, restockedAt: state.restockedAt };
+}
+
+/** Units of `itemId` the shop can sell right now — Infinity for unlimited items. */
+export function getShopStockCount(state: ShopStockState, itemId: string): number {
+  return state.stock[itemId] ?? Infinity;
+}
+
+/** Record a sale at the top of the buyback list, dropping the oldest past BUYBACK_LIMIT. */
+export function pushBuyback(list: BuybackEntry[], entry: BuybackEntry): BuybackEntry[] {
+  return [entry, ...list].slice(0, BUYBACK_LIMIT);
+}
+
+// --- Validation ---
+
+/** Validate a shop definition from the admin. Returns an error message, or null. */
+export function validateShopDefinition(shop: ShopDefinition): string | null {
+  const seen = new Set<string>();
+  for (const item of shop.inventory) {
+    if (seen.has(item.itemId)) return `Item ${item.itemId} is listed twice.`;
+    seen.add(item.itemId);
+    if (!Number.isInteger(item.price) || item.price < 0) return `Price for ${item.itemId} must be a whole number of gold.`;
+    if (item.stock !== undefined && (!Number.isInteger(item.stock) || item.stock < 1)) {
+      return `Stock for ${item.itemId} must be at least 1 (leave it empty for unlimited).`;
+    }
+  }
+  if (shop.restockMinutes !== undefined && (!Number.isFinite(shop.restockMinutes) || shop.restockMinutes < 0)) {
+    return 'Restock time cannot be negative.';
+  }
+  if (shop.priceScalingPercent !== undefined && (!Number.isFinite(shop.priceScalingPercent) || shop.priceScalingPercent < 0)) {
+    return 'Price scaling cannot be negative.';
+  }
+  return null;
 }
@@ -1,12 +1,17 @@
-import { ALL_CLASS_NAMES } from './CharacterStats.js';
+import { ALL_CLASS_NAMES, ALL_DAMAGE_TYPES } from './CharacterStats.js';
 import type {
   ActiveEffect,
   ActiveEffectKind,
+  EffectAction,
+  EffectActionTarget,
+  EffectTrigger,
+  GridDepth,
   PassiveEffect,
   PassiveEffectKind,
   SkillContent,
   SkillDefinition,
   SkillSlotType,
+  StatusTarget,
 } from './SkillTypes.js';
 
 // --- Types ---
@@ -14,14 +19,18 @@ import type {
 /**
  * Spec for one editable parameter of a skill option. `percent` inputs are
  * STORED as 0-1 fractions; editors display them ×100 (monster drop-chance
- * precedent). `condition` is a select over SKILL_CONDITION_VALUES and `class`
- * a select over ALL_CLASS_NAMES.
+ * precedent). `condition` is a select over SKILL_CONDITION_VALUES, `class`
+ * a select over ALL_CLASS_NAMES, `status` a select over the status effect
+ * content, `statusTarget` a select over ALL_STATUS_TARGETS, `choice` a select
+ * over the spec's own `choices` and `text` a free string.
  */
 export interface SkillOptionParamSpec {
   key: string;
   label: string;
   help?: string;
-  input: 'number' | 'percent' | 'boolean' | 'class' | 'condition';
+  input: 'number' | 'percent' | 'boolean' | 'class' | 'condition' | 'status' | 'statusTarget' | 'choice' | 'text';
+  /** Allowed values for `choice` inputs. */
+  choices?: readonly string[];
   min?: number;
   max?: number;
   step?: number;
@@ -48,7 +57,22 @@ export interface SkillOptionDefinition {
 /** The condition strings the engine understands for conditional_damage_bonus. */
 export const SKILL_CONDITION_VALUES = ['target_above_75_hp', 'front_column', 'target_bleeding_or_stunned'] as const;
 
-/** Every passive effect kind the engine supports (27). */
+/** Targets an apply_status option can pick. */
+export const ALL_STATUS_TARGETS: StatusTarget[] = ['enemy', 'all_enemies', 'self', 'lowest_ally', 'party'];
+
+/** Triggers a `triggered_effect` option can fire on. */
+export const ALL_EFFECT_TRIGGERS: EffectTrigger[] = ['on_hit', 'on_crit', 'on_kill', 'on_hit_taken', 'ally_below_hp', 'round_start'];
+
+/** Actions a `triggered_effect` option can take. */
+export const ALL_EFFECT_ACTIONS: EffectAction[] = ['damage', 'heal', 'apply_status', 'shield', 'modify_cooldown'];
+
+/** Targets a `triggered_effect` action can land on. */
+export const ALL_EFFECT_ACTION_TARGETS: EffectActionTarget[] = ['subject', 'self', 'lowest_ally', 'party', 'all_enemies'];
+
+/** Grid depths a `triggered_effect` condition can require. */
+export const ALL_GRID_DEPTHS: GridDepth[] = ['front', 'middle', 'back'];
+
+/** Every passive effect kind the engine supports (28). */
 export const ALL_PASSIVE_EFFECT_KINDS: PassiveEffectKind[] = [
   'physical_reduction', 'party_damage_mult', 'magical_reduction_party', 'crit_chance',
   'bonus_damage', 'max_hp_percent', 'stun_on_phys_hit', 'stun_immune',
@@ -56,16 +80,17 @@ export const ALL_PASSIVE_EFFECT_KINDS: PassiveEffectKind[] = [
   'crit_damage_bonus', 'stacking_same_target', 'heal_power', 'holy_damage_party',
   'consecrate', 'martyr', 'resurrection', 'intensify', 'dot_on_auto', 'arcane_surge',
   'overflow', 'scorch', 'cooldown_reduction', 'dodge_party', 'xp_bonus',
-  'enemy_damage_reduction_party',
+  'enemy_damage_reduction_party', 'triggered_effect',
 ];
 
-/** Every active effect kind the engine supports (23). */
+/** Every active effect kind the engine supports (24). */
 export const ALL_ACTIVE_EFFECT_KINDS: ActiveEffectKind[] = [
   'stun_single', 'stun_aoe', 'heal_lowest', 'multi_hit', 'target_lowest_hp',
   'redirect_hit', 'brace_reflect', 'stacking_mark', 'remove_buffs', 'multi_hit_random',
   'ignore_dr_single', 'dot_attack', 'debuff_attack', 'smite', 'cure_debuffs',
   'hot_lowest', 'shield_non_knight', 'damage_percent', 'damage_aoe_all',
   'high_damage_single', 'party_buff_permanent', 'enemy_debuff_aoe', 'chaos',
+  'apply_status',
 ];
 
 // Typed against the full kind union so the compiler enforces one entry per kind.
@@ -98,7 +123,7 @@ const CATALOG = {
     kind: 'magical_reduction_party',
     slotType: 'passive',
     label: 'Party magic/holy reduction',
-    description: 'Reduces magical AND holy damage taken by every party member by (value × owner level) while the owner is alive. Applies to direct hits and DoT ticks; this is the only reduction that touches holy damage. Contributions sum across owners.',
+    description: 'Reduces spell (arcane and elemental) AND holy damage taken by every party member by (value × owner level) while the owner is alive. Applies to direct hits and DoT ticks; this is the only reduction that touches holy damage. Contributions sum across owners.',
     targeting: 'party',
     params: [
       { key: 'valuePerLevel', label: 'Reduction per level', input: 'number', min: 0, step: 1, required: true },
@@ -142,7 +167,7 @@ const CATALOG = {
     kind: 'stun_on_phys_hit',
     slotType: 'passive',
     label: 'Stun attacker on physical hit',
-    description: 'When the owner is hit by a physical attack, chance to stun the attacker for 1 turn. Never triggers from magical or holy hits. First-match: only the first equipped skill with this option counts — duplicates do not stack. The combat log uses the skill\'s name.',
+    description: 'When the owner is hit by a physical attack, chance to stun the attacker for 1 turn. Never triggers from spell or holy hits. First-match: only the first equipped skill with this option counts — duplicates do not stack. The combat log uses the skill\'s name.',
     targeting: 'self',
     params: [
       { key: 'flatValue', label: 'Stun chance', input: 'percent', min: 0, max: 1, step: 0.01, required: true },
@@ -231,7 +256,7 @@ const CATALOG = {
     kind: 'holy_damage_party',
     slotType: 'passive',
     label: 'Party holy damage',
-    description: 'While the owner is alive at combat start, every party member\'s attack adds (value × owner level) holy damage, reduced only by monster holy resistance. Contributions sum across owners.',
+    description: 'While the owner is alive at combat start, every party member gains a "blessed_arms" status stack: each attack adds (value × owner level) holy damage, reduced only by monster holy resistance. Contributions sum across owners.',
     targeting: 'party',
     params: [
       { key: 'valuePerLevel', label: 'Holy damage per level', input: 'number', min: 0, step: 1, required: true },
@@ -284,7 +309,7 @@ const CATALOG = {
     kind: 'dot_on_auto',
     slotType: 'passive',
     label: 'Permanent burn on hit',
-    description: 'Every single-target hit adds a PERMANENT DoT stack dealing (value × pre-resistance damage) magical damage per tick for the rest of combat; resistance is applied at tick time. AoE hits never apply stacks. Each equipped option adds its own stack per hit. DoT log entries group by skill name — two skills with the same name merge in the log.',
+    description: 'Every single-target hit adds a PERMANENT DoT stack dealing (value × pre-resistance damage) arcane damage per tick for the rest of combat; resistance is applied at tick time. AoE hits never apply stacks. Each equipped option adds its own stack per hit. DoT log entries group by skill name — two skills with the same name merge in the log.',
     targeting: 'single enemy',
     params: [
       { key: 'dotPercent', label: 'Stack damage fraction', input: 'percent', min: 0, max: 5, step: 0.01, required: true },
@@ -313,7 +338,7 @@ const CATALOG = {
     kind: 'scorch',
     slotType: 'passive',
     label: 'Scorch debuff on hit',
-    description: 'Enemies damaged by the owner take +value magical/holy damage from all sources for 2 turns (duration fixed by the engine). Shared debuff bucket: every scorch option writes the same "scorch" debuff — reapplying (from any skill) refreshes the duration instead of stacking. Only magical/holy attackers benefit. First-match: only the first equipped skill\'s value is applied.',
+    description: 'Enemies damaged by the owner take +value spell/holy damage from all sources. Applies the "scorch" status effect — its duration, damage types and refresh-instead-of-stack rule come from the Status Effects content. Only spell/holy attackers benefit. First-match: only the first equipped skill\'s value is applied.',
     targeting: 'single enemy',
     params: [
       { key: 'flatValue', label: 'Bonus damage taken', input: 'percent', min: 0, max: 5, step: 0.01, required: true },
@@ -367,6 +392,29 @@ const CATALOG = {
     ],
     seedExample: 'Bard — Unnerve',
   },
+  triggered_effect: {
+    kind: 'triggered_effect',
+    slotType: 'passive',
+    label: 'Triggered effect (script)',
+    description: 'Fires an action when its trigger happens and every set condition holds for the trigger\'s subject. Triggers: on hit / on crit / on kill (a monster the owner\'s attack or skill hit — DoTs, reflects and splashes don\'t count), on hit taken (the monster that hit the owner), ally below HP (a party member crossing the HP threshold downward, direct hits and DoTs), round start (the owner). Conditions: subject class, monster tag, HP band, grid depth. Actions: damage (fraction of a normal uncrittable hit, type of the skill or caster), heal and shield (owner level × value), apply status, modify cooldown (attacks added to the owner\'s active cadence). An action never fires further triggers; each option rolls its own chance.',
+    targeting: 'per "Target" param',
+    params: [
+      { key: 'trigger', label: 'Trigger', input: 'choice', choices: ALL_EFFECT_TRIGGERS, required: true },
+      { key: 'hpThreshold', label: 'Ally HP threshold', help: 'ally_below_hp only. Defaults to 0.50.', input: 'percent', min: 0, max: 1, step: 0.01 },
+      { key: 'chance', label: 'Chance', help: 'Blank = always.', input: 'percent', min: 0, max: 1, step: 0.01 },
+      { key: 'targetClass', label: 'If subject class', help: 'Only players match.', input: 'class' },
+      { key: 'tag', label: 'If subject tag', help: 'Monster tag, e.g. undead. Only monsters match.', input: 'text' },
+      { key: 'hpMin', label: 'If subject HP at least', input: 'percent', min: 0, max: 1, step: 0.01 },
+      { key: 'hpMax', label: 'If subject HP at most', input: 'percent', min: 0, max: 1, step: 0.01 },
+      { key: 'gridDepth', label: 'If subject depth', input: 'choice', choices: ALL_GRID_DEPTHS },
+      { key: 'action', label: 'Action', input: 'choice', choices: ALL_EFFECT_ACTIONS, required: true },
+      { key: 'actionTarget', label: 'Target', help: 'Blank = the subject. Damage lands on enemies only; heal, shield and cooldown on allies only.', input: 'choice', choices: ALL_EFFECT_ACTION_TARGETS },
+      { key: 'actionValue', label: 'Value', help: 'damage: fraction of a hit (0.5 = half). heal/shield: × owner level. modify_cooldown: attacks (negative delays).', input: 'number', min: -10, max: 100, step: 0.1 },
+      { key: 'statusEffectId', label: 'Status effect', help: 'apply_status only.', input: 'status' },
+      { key: 'statusDuration', label: 'Status duration (turns)', help: 'Blank = the status effect\'s own duration.', input: 'number', min: 1, max: 20, step: 1 },
+    ],
+    seedExample: 'None — generic option for designer-made skills',
+  },
 
   // ===== ACTIVE OPTIONS =====
   stun_single: {
@@ -447,7 +495,7 @@ const CATALOG = {
     kind: 'stacking_mark',
     slotType: 'active',
     label: 'Attack + stacking mark',
-    description: 'Deals normal active damage and marks the target: each stack increases damage the target takes from ALL sources by this fraction. Stacks have no cap; the most recently applied option\'s multiplier is used for every stack on the target.',
+    description: 'Deals normal active damage and marks the target with the "sunder" status effect: each stack increases damage the target takes from ALL sources by this option\'s fraction, so stacks from different skills add up independently. Cap and duration come from the status definition.',
     targeting: 'single enemy',
     params: [
       { key: 'markMultiplier', label: 'Damage taken per stack', input: 'percent', min: 0, max: 5, step: 0.01, required: true },
@@ -458,7 +506,7 @@ const CATALOG = {
     kind: 'remove_buffs',
     slotType: 'active',
     label: 'Attack + dispel buffs',
-    description: 'Deals normal active damage and strips all buffs from the target.',
+    description: 'Deals normal active damage and strips every dispellable buff from the target.',
     targeting: 'single enemy',
     params: [],
     seedExample: 'Knight — Dispel',
@@ -502,7 +550,7 @@ const CATALOG = {
     kind: 'debuff_attack',
     slotType: 'active',
     label: 'Attack + weaken',
-    description: 'Deals normal active damage and reduces the target\'s damage by this fraction for N turns. Shared debuff bucket: every debuff_attack writes the "crippling_shot" debuff type — applications from different skills all land and each multiplies the target\'s damage down.',
+    description: 'Deals normal active damage and reduces the target\'s damage by this fraction for N turns. Applies the "crippling_shot" status effect — applications from different skills all land (up to its max stacks) and each multiplies the target\'s damage down.',
     targeting: 'single enemy',
     params: [
       { key: 'debuffPercent', label: 'Damage reduction', input: 'percent', min: 0, max: 1, step: 0.01, required: true },
@@ -525,7 +573,7 @@ const CATALOG = {
     kind: 'cure_debuffs',
     slotType: 'active',
     label: 'Cure afflictions',
-    description: 'Removes all debuffs, DoTs, and stuns from the ally at the lowest HP percentage. No-op when there is nothing to cure.',
+    description: 'Removes all dispellable debuffs, DoTs, and stuns from the ally at the lowest HP percentage. No-op when there is nothing to cure.',
     targeting: 'lowest-HP ally',
     params: [],
     seedExample: 'Priest — Cure',
@@ -591,7 +639,7 @@ const CATALOG = {
     kind: 'party_buff_permanent',
     slotType: 'active',
     label: 'Permanent party damage buff',
-    description: 'Permanently increases party damage by this fraction for the rest of combat. Each cast stacks additively.',
+    description: 'Increases party damage by this fraction via the "war_song" status effect on every member. Each cast stacks additively; duration comes from the status definition (rest of combat by default).',
     targeting: 'party',
     params: [
       { key: 'buffPercent', label: 'Damage bonus per cast', input: 'percent', min: 0, max: 5, step: 0.01, required: true },
@@ -602,7 +650,7 @@ const CATALOG = {
     kind: 'enemy_debuff_aoe',
     slotType: 'active',
     label: 'Weaken all enemies',
-    description: 'All living enemies deal this fraction less damage for N turns. Shared debuff bucket: every enemy_debuff_aoe writes the same "lullaby" debuff — recasting (from any skill) refreshes the duration instead of stacking.',
+    description: 'All living enemies deal this fraction less damage for N turns. Applies the "lullaby" status effect — recasting (from any skill) follows its stacking rule, refreshing the duration by default.',
     targeting: 'all enemies',
     params: [
       { key: 'debuffPercent', label: 'Damage reduction', input: 'percent', min: 0, max: 1, step: 0.01, required: true },
@@ -614,15 +662,28 @@ const CATALOG = {
     kind: 'chaos',
     slotType: 'active',
     label: 'Sow chaos',
-    description: 'Every living enemy attacks a random enemy (possibly itself) on its next turn instead of the party.',
+    description: 'Every living enemy attacks a random enemy (possibly itself) on its next turn instead of the party. Applies the "chaos" status effect.',
     targeting: 'all enemies',
     params: [],
     seedExample: 'Bard — Chaos',
   },
+  apply_status: {
+    kind: 'apply_status',
+    slotType: 'active',
+    label: 'Apply status effect',
+    description: 'Applies a status effect from the Status Effects content to the chosen target: the grid target enemy, every living enemy, the caster, the lowest-HP% ally, or every living party member. Stacking, ticks and modifiers come from the status definition. Deals no damage; no-op (falls back to an attack) when the status id is unknown or there is no target.',
+    targeting: 'per "Target" param',
+    params: [
+      { key: 'statusEffectId', label: 'Status effect', input: 'status', required: true },
+      { key: 'statusTarget', label: 'Target', input: 'statusTarget', required: true },
+      { key: 'statusDuration', label: 'Duration (turns)', help: 'Blank = the status effect\'s own duration.', input: 'number', min: 1, max: 20, step: 1 },
+    ],
+    seedExample: 'None — generic option for designer-made statuses',
+  },
 } satisfies Record<PassiveEffectKind | ActiveEffectKind, SkillOptionDefinition>;
 
 /**
- * One entry per engine-supported effect kind (27 passive + 23 active).
+ * One entry per engine-supported effect kind (28 passive + 24 active).
  * Modeled on MONSTER_SKILL_CATALOG. The `satisfies` check above guarantees
  * exactly one entry per kind at compile time.
  */
@@ -635,7 +696,7 @@ export const SKILL_OPTION_CATALOG: Record<string, SkillOptionDefinition> = CATAL
  * Returns a list of human-readable errors; empty array means valid.
  * Used by server PUT routes AND the admin client pre-save.
  */
-export function validateSkillDefinition(def: SkillDefinition, _content?: SkillContent): string[] {
+export function validateSkillDefinition(def: SkillDefinition, content?: SkillContent): string[] {
   const errors: string[] = [];
 
   if (!def.id || typeof def.id !== 'string' || !def.id.trim()) {
@@ -664,6 +725,10 @@ export function validateSkillDefinition(def: SkillDefinition, _content?: SkillCo
   } else if (def.cooldown !== undefined) {
     errors.push('Cooldown only applies to active skills.');
   }
+  if (def.damageType !== undefined) {
+    if (!ALL_DAMAGE_TYPES.includes(def.damageType)) errors.push(`Unknown damage type "${def.damageType}".`);
+    else if (def.type !== 'active') errors.push('Damage type only applies to active skills.');
+  }
 
   const passiveEffects = def.passiveEffects ?? [];
   const activeEffects = def.activeEffects ?? [];
@@ -678,9 +743,53 @@ export function validateSkillDefinition(def: SkillDefinition, _content?: SkillCo
   passiveEffects.forEach((effect, i) => validateOption(effect, 'passive', i, errors));
   activeEffects.forEach((effect, i) => validateOption(effect, 'active', i, errors));
 
+  if (def.talent) validateTalent(def, errors, content);
+
   return errors;
 }
 
+/**
+ * Talent rules. With `content`, prerequisites must be existing skills of the same
+ * class and must not loop back to this skill.
+ */
+function validateTalent(def: SkillDefinition, errors: string[], content?: SkillContent): void {
+  const talent = def.talent!;
+  if (def.unlockLevel === null) errors.push('Grant-only skills cannot be talents.');
+  if (!Number.isInteger(talent.maxRank) || talent.maxRank < 1 || talent.maxRank > 10) {
+    errors.push('Talent max rank must be an integer from 1 to 10.');
+  }
+  if (talent.rankScaling !== undefined && (!Number.isFinite(talent.rankScaling) || talent.rankScaling < 0)) {
+    errors.push('Talent rank scaling must be 0 or more.');
+  }
+  if (talent.exclusiveGroup !== undefined && !talent.exclusiveGroup.trim()) {
+    errors.push('Talent exclusive group cannot be blank.');
+  }
+
+  const prerequisites = talent.prerequisites ?? [];
+  if (prerequisites.includes(def.id)) errors.push('A talent cannot require itself.');
+  if (!content) return;
+
+  const skills = { ...content.skills, [def.id]: def };
+  for (const id of prerequisites) {
+    const prereq = content.skills[id];
+    if (!prereq) errors.push(`Unknown prerequisite skill "${id}".`);
+    else if (prereq.className !== def.className) errors.push(`Prerequisite "${prereq.name}" belongs to another class.`);
+  }
+  const seen = new Set<string>();
+  const pending = prerequisites.filter(id => id !== def.id);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const next = skills[id]?.talent?.prerequisites ?? [];
+    if (next.includes(def.id)) {
+      errors.push(`Prerequisites loop back to this skill through "${skills[id].name}".`);
+      return;
+    }
+    pending.push(...next);
+  }
+}
+
 /** Validate one option (effect) against its catalog entry's param specs. */
 function validateOption(
   effect: PassiveEffect | ActiveEffect,
@@ -730,6 +839,44 @@ function validateOption(
       if (typeof value !== 'string' || !(SKILL_CONDITION_VALUES as readonly string[]).includes(value)) {
         errors.push(`Option "${option.label}" parameter "${spec.label}" must be one of: ${SKILL_CONDITION_VALUES.join(', ')}.`);
       }
+    } else if (spec.input === 'status') {
+      if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`Option "${option.label}" parameter "${spec.label}" must be a status effect id.`);
+      }
+    } else if (spec.input === 'statusTarget') {
+      if (typeof value !== 'string' || !(ALL_STATUS_TARGETS as string[]).includes(value)) {
+        errors.push(`Option "${option.label}" parameter "${spec.label}" must be one of: ${ALL_STATUS_TARGETS.join(', ')}.`);
+      }
+    } else if (spec.input === 'choice') {
+      if (typeof value !== 'string' || !(spec.choices ?? []).includes(value)) {
+        errors.push(`Option "${option.label}" parameter "${spec.label}" must be one of: ${(spec.choices ?? []).join(', ')}.`);
+      }
+    } else if (spec.input === 'text') {
+      if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`Option "${option.label}" parameter "${spec.label}" must be non-empty text.`);
+      }
     }
   }
+
+  if (effect.kind === 'triggered_effect') validateTriggeredEffect(effect as PassiveEffect, option.label, errors);
+}
+
+/** Cross-parameter rules the flat param specs can't express. */
+function validateTriggeredEffect(effect: PassiveEffect, label: string, errors: string[]): void {
+  if (effect.hpMin !== undefined && effect.hpMax !== undefined && effect.hpMin > effect.hpMax) {
+    errors.push(`Option "${label}": HP at least must not exceed HP at most.`);
+  }
+  if (effect.action === 'apply_status' && !effect.statusEffectId) {
+    errors.push(`Option "${label}": the apply_status action needs a status effect.`);
+  }
+  const magnitude = effect.action === 'damage' || effect.action === 'heal' || effect.action === 'shield' || effect.action === 'modify_cooldown';
+  if (magnitude && !effect.actionValue) {
+    errors.push(`Option "${label}": the ${effect.action} action needs a non-zero value.`);
+  }
+  if (effect.action === 'damage' && effect.actionTarget && effect.actionTarget !== 'subject' && effect.actionTarget !== 'all_enemies') {
+    errors.push(`Option "${label}": damage can only target the subject or all enemies.`);
+  }
+  if (effect.action !== 'damage' && effect.action !== 'apply_status' && effect.actionTarget === 'all_enemies') {
+    errors.push(`Option "${label}": the ${effect.action} action cannot target enemies.`);
+  }
 }
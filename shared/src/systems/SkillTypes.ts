@@ -1,4 +1,4 @@
-import type { ClassName } from './CharacterStats.js';
+import type { ClassName, DamageType } from './CharacterStats.js';
 
 // --- Types ---
 
@@ -13,7 +13,7 @@ export interface SkillSlot {
 export type PassiveEffectKind =
   | 'physical_reduction'        // Knight Guard: flat physical DR per level
   | 'party_damage_mult'         // Bard Rally: +% damage per party member (all types)
-  | 'magical_reduction_party'   // Priest Bless: flat magical/holy DR party-wide per level
+  | 'magical_reduction_party'   // Priest Bless: flat spell/holy DR party-wide per level (id predates 'arcane')
   | 'crit_chance'               // Archer Pierce: % chance to crit (2x damage)
   | 'bonus_damage'              // Mage Burn: flat damage per level
   | 'max_hp_percent'            // Knight Fortify: +% max HP per level
@@ -37,7 +37,26 @@ export type PassiveEffectKind =
   | 'cooldown_reduction'        // Bard Tempo/Encore: reduce own active CD by 1
   | 'dodge_party'               // Bard Nimble: +% dodge per party member, party-wide
   | 'xp_bonus'                  // Bard Inspiration: +% XP for party
-  | 'enemy_damage_reduction_party'; // Bard Unnerve: -% enemy damage per party member
+  | 'enemy_damage_reduction_party' // Bard Unnerve: -% enemy damage per party member
+  | 'triggered_effect';         // Generic: trigger + conditions + action (designer-scripted)
+
+/**
+ * When a `triggered_effect` option fires, and who its subject is:
+ * - on_hit / on_crit / on_kill — the owner's attack or skill hit a monster (the subject)
+ * - on_hit_taken — a monster's attack or skill hit the owner (the attacker is the subject)
+ * - ally_below_hp — a party member (the subject, owner included) dropped below `hpThreshold`
+ * - round_start — before the first turn of each round (the owner is the subject)
+ */
+export type EffectTrigger = 'on_hit' | 'on_crit' | 'on_kill' | 'on_hit_taken' | 'ally_below_hp' | 'round_start';
+
+/** What a `triggered_effect` option does once its trigger and conditions pass. */
+export type EffectAction = 'damage' | 'heal' | 'apply_status' | 'shield' | 'modify_cooldown';
+
+/** Who a `triggered_effect` action lands on. `subject` is the trigger's subject. */
+export type EffectActionTarget = 'subject' | 'self' | 'lowest_ally' | 'party' | 'all_enemies';
+
+/** Grid depth of a combatant relative to its own side: front faces the enemy. */
+export type GridDepth = 'front' | 'middle' | 'back';
 
 export interface PassiveEffect {
   kind: PassiveEffectKind;
@@ -59,6 +78,32 @@ export interface PassiveEffect {
   dotTicks?: number;
   /** For cooldown_reduction: if true, the reduction applies to the whole party. Defaults to self-only. */
   partyWide?: boolean;
+  // --- triggered_effect (targetClass and hpThreshold above are reused as condition / trigger params) ---
+  /** What fires the option. */
+  trigger?: EffectTrigger;
+  /** Chance (0-1) the option fires when triggered. Absent = always. */
+  chance?: number;
+  /** Condition: the subject is a monster carrying this tag. */
+  tag?: string;
+  /** Condition: the subject's HP fraction is at least this (0-1). */
+  hpMin?: number;
+  /** Condition: the subject's HP fraction is at most this (0-1). */
+  hpMax?: number;
+  /** Condition: the subject stands at this depth of its side's grid. */
+  gridDepth?: GridDepth;
+  /** What happens. */
+  action?: EffectAction;
+  /** Who the action lands on. Defaults to the subject. */
+  actionTarget?: EffectActionTarget;
+  /**
+   * Action magnitude: damage = fraction of a normal hit, heal/shield = owner level ×
+   * value, modify_cooldown = attacks added to the cadence counter (positive = sooner).
+   */
+  actionValue?: number;
+  /** Status effect id (for the apply_status action). */
+  statusEffectId?: string;
+  /** Duration override in turns (for the apply_status action). */
+  statusDuration?: number;
 }
 
 export type ActiveEffectKind =
@@ -84,7 +129,11 @@ export type ActiveEffectKind =
   | 'high_damage_single'  // Mage Arcane Blast: high % damage single target
   | 'party_buff_permanent' // Bard War Song: +% party damage rest of combat, stacking
   | 'enemy_debuff_aoe'    // Bard Lullaby: -% enemy damage for N turns
-  | 'chaos';              // Bard Chaos: enemies attack random enemies
+  | 'chaos'               // Bard Chaos: enemies attack random enemies
+  | 'apply_status';       // Generic: apply a status effect (content) to a chosen target
+
+/** Who an `apply_status` option lands on. */
+export type StatusTarget = 'enemy' | 'all_enemies' | 'self' | 'lowest_ally' | 'party';
 
 export interface ActiveEffect {
   kind: ActiveEffectKind;
@@ -118,6 +167,12 @@ export interface ActiveEffect {
   buffPercent?: number;
   /** Whether this is an AoE skill (for Overflow check). */
   isAoe?: boolean;
+  /** Status effect id (for apply_status). */
+  statusEffectId?: string;
+  /** Who the status lands on (for apply_status). */
+  statusTarget?: StatusTarget;
+  /** Duration override in turns (for apply_status); absent = the status's own duration. */
+  statusDuration?: number;
 }
 
 /**
@@ -143,6 +198,25 @@ export interface SkillDefinition {
   activeEffects?: ActiveEffect[];
   /** Cooldown for actives: triggers every Nth attack. */
   cooldown?: number;
+  /** Damage type of this skill's hits and DoTs. Absent = the caster's attack type. */
+  damageType?: DamageType;
+  /** Learned with talent points from its unlock level instead of auto-unlocking. */
+  talent?: SkillTalent;
+}
+
+/**
+ * Talent-point rules for a skill. Each rank costs one point; the first rank
+ * unlocks the skill, later ranks scale its effect magnitudes.
+ */
+export interface SkillTalent {
+  /** Ranks that can be bought (≥ 1). */
+  maxRank: number;
+  /** Magnitude added per rank above 1 (0.5 → rank 3 is ×2). Absent = ranks don't scale. */
+  rankScaling?: number;
+  /** Same-class skills that must be learned (rank ≥ 1) first. */
+  prerequisites?: SkillId[];
+  /** Mutually exclusive branches: only one skill per group can be learned. */
+  exclusiveGroup?: string;
 }
 
 export interface SkillLoadout {
@@ -150,6 +224,8 @@ export interface SkillLoadout {
   unlockedSkills: SkillId[];
   /** Equipped skill per slot. null = empty. */
   equippedSkills: (SkillId | null)[];
+  /** Ranks bought in talent skills. Absent on saves from before talents. */
+  talentRanks?: Record<SkillId, number>;
 }
 
 /**
@@ -162,6 +238,21 @@ export interface SkillContent {
   slotSchedules: Record<string, SkillSlot[]>;
 }
 
+// --- Talent constants ---
+
+/** Talent points a character earns per level. */
+export const TALENT_POINTS_PER_LEVEL = 1;
+
+/** Gold per character level to refund every talent point. */
+export const RESPEC_GOLD_PER_LEVEL = 25;
+
+/** Effect params a talent rank scales. Counts (hits, ticks, durations) and conditions never scale. */
+const RANK_SCALED_PASSIVE_KEYS = ['valuePerLevel', 'flatValue', 'dotPercent', 'actionValue'] as const;
+const RANK_SCALED_ACTIVE_KEYS = [
+  'stunChance', 'healMultiplier', 'damagePercent', 'damagePerLevel', 'markMultiplier', 'reflectPercent',
+  'dotPercent', 'debuffPercent', 'shieldMultiplier', 'holyMultiplier', 'buffPercent',
+] as const;
+
 // --- Legacy seed source (private) ---
 
 /**
@@ -447,7 +538,7 @@ const LEGACY_SKILL_TREES: Record<string, LegacySkillDefinition[]> = {
     {
       id: 'priest_bless',
       name: 'Bless',
-      description: '+2 magical/holy damage reduction for the whole party per level.',
+      description: '+2 spell/holy damage reduction for the whole party per level.',
       className: 'Priest',
       type: 'passive',
       treeOrder: 0,
@@ -561,13 +652,13 @@ const LEGACY_SKILL_TREES: Record<string, LegacySkillDefinition[]> = {
   ],
 
   // ===== MAGE (Magical DPS) =====
-  // Role: High magical damage, AoE potential. Glass cannon.
+  // Role: High arcane damage, AoE potential. Glass cannon.
   Mage: [
     // --- Passive 1 (Lv1) ---
     {
       id: 'mage_burn',
       name: 'Burn',
-      description: '+2 magical damage per level.',
+      description: '+2 arcane damage per level.',
       className: 'Mage',
       type: 'passive',
       treeOrder: 0,
@@ -672,7 +763,7 @@ const LEGACY_SKILL_TREES: Record<string, LegacySkillDefinition[]> = {
     {
       id: 'mage_scorch',
       name: 'Scorch',
-      description: 'Enemies damaged by the Mage take +10% magical damage from all sources for 2 turns.',
+      description: 'Enemies damaged by the Mage take +10% spell and holy damage from all sources for 2 turns.',
       className: 'Mage',
       type: 'passive',
       treeOrder: 10,
@@ -847,7 +938,7 @@ export function migrateLegacySkill(
     treeOrder?: number; unlockLevel?: number | null; sortOrder?: number;
     passiveEffect?: PassiveEffect; activeEffect?: ActiveEffect;
     passiveEffects?: PassiveEffect[]; activeEffects?: ActiveEffect[];
-    cooldown?: number;
+    cooldown?: number; damageType?: DamageType;
   };
 
   const unlockLevel = raw.unlockLevel !== undefined
@@ -876,6 +967,7 @@ export function migrateLegacySkill(
   if (passiveEffects && passiveEffects.length > 0) migrated.passiveEffects = passiveEffects;
   if (activeEffects && activeEffects.length > 0) migrated.activeEffects = activeEffects;
   if (raw.cooldown !== undefined) migrated.cooldown = raw.cooldown;
+  if (raw.damageType !== undefined) migrated.damageType = raw.damageType;
   return migrated;
 }
 
@@ -891,13 +983,107 @@ export function getSkillsForClass(className: ClassName, content: SkillContent):
     .sort((a, b) => a.sortOrder - b.sortOrder || a.id.localeCompare(b.id));
 }
 
-/** Get all skill IDs that should be unlocked for a class at a given level (auto-unlock). Grant-only skills (unlockLevel null) are never included. */
-export function getUnlockedSkillsForLevel(className: ClassName, level: number, content: SkillContent): SkillId[] {
+/**
+ * Get all skill IDs that should be unlocked for a class at a given level (auto-unlock).
+ * Talent skills count only once learned (`talentRanks`); grant-only skills (unlockLevel
+ * null) are never included.
+ */
+export function getUnlockedSkillsForLevel(
+  className: ClassName,
+  level: number,
+  content: SkillContent,
+  talentRanks: Record<SkillId, number> = {},
+): SkillId[] {
   return getSkillsForClass(className, content)
-    .filter(s => s.unlockLevel !== null && level >= s.unlockLevel)
+    .filter(s => s.unlockLevel !== null && level >= s.unlockLevel && (!s.talent || (talentRanks[s.id] ?? 0) > 0))
     .map(s => s.id);
 }
 
+// --- Talents ---
+
+/** Talent points earned by a character level. */
+export function getTalentPointsForLevel(level: number): number {
+  return Math.max(0, level) * TALENT_POINTS_PER_LEVEL;
+}
+
+/** Points spent across every talent rank. */
+export function getSpentTalentPoints(talentRanks: Record<SkillId, number> = {}): number {
+  return Object.values(talentRanks).reduce((sum, rank) => sum + rank, 0);
+}
+
+/** Gold a respec costs at a character level. */
+export function getRespecCost(level: number): number {
+  return Math.max(1, level) * RESPEC_GOLD_PER_LEVEL;
+}
+
+/**
+ * Why the next rank of a talent can't be bought, or null when it can: the skill
+ * must be a talent of the player's class at or below their level, under its max
+ * rank, with a free point, every prerequisite learned and no other skill of its
+ * exclusive group learned.
+ */
+export function canLearnTalent(
+  skillId: SkillId,
+  className: ClassName,
+  level: number,
+  talentRanks: Record<SkillId, number>,
+  content: SkillContent,
+): string | null {
+  const skill = content.skills[skillId];
+  if (!skill?.talent || skill.className !== className) return 'Not a talent of your class.';
+  if (skill.unlockLevel === null || level < skill.unlockLevel) return `Requires level ${skill.unlockLevel ?? '—'}.`;
+  const rank = talentRanks[skillId] ?? 0;
+  if (rank >= skill.talent.maxRank) return `${skill.name} is already at max rank.`;
+  if (getSpentTalentPoints(talentRanks) >= getTalentPointsForLevel(level)) return 'No talent points left.';
+
+  const missing = (skill.talent.prerequisites ?? []).filter(id => (talentRanks[id] ?? 0) < 1 && !isAutoUnlocked(id, level, content));
+  if (missing.length > 0) {
+    return `Requires ${missing.map(id => content.skills[id]?.name ?? id).join(', ')}.`;
+  }
+
+  const group = skill.talent.exclusiveGroup;
+  if (group && rank === 0) {
+    const taken = Object.keys(talentRanks).find(id =>
+      id !== skillId && (talentRanks[id] ?? 0) > 0 && content.skills[id]?.talent?.exclusiveGroup === group);
+    if (taken) return `Locked by ${content.skills[taken]?.name ?? taken}.`;
+  }
+  return null;
+}
+
+/** A non-talent prerequisite is met by reaching its unlock level. */
+function isAutoUnlocked(skillId: SkillId, level: number, content: SkillContent): boolean {
+  const skill = content.skills[skillId];
+  return !!skill && !skill.talent && skill.unlockLevel !== null && level >= skill.unlockLevel;
+}
+
+/**
+ * The skill as it fights at a talent rank: each scaled magnitude is multiplied by
+ * `1 + rankScaling × (rank − 1)`. Returns the skill itself at rank ≤ 1 or without
+ * scaling. Cooldown reduction's flatValue is a turn count and stays whole.
+ */
+export function applySkillRank(skill: SkillDefinition, rank: number): SkillDefinition {
+  const scaling = skill.talent?.rankScaling ?? 0;
+  if (rank <= 1 || scaling <= 0) return skill;
+  const factor = 1 + scaling * (rank - 1);
+
+  const scale = <T extends PassiveEffect | ActiveEffect>(effect: T, keys: readonly string[]): T => {
+    const scaled = { ...effect } as Record<string, unknown>;
+    for (const key of keys) {
+      const value = scaled[key];
+      if (typeof value !== 'number') continue;
+      scaled[key] = key === 'flatValue' && effect.kind === 'cooldown_reduction'
+        ? Math.floor(value * factor)
+        : value * factor;
+    }
+    return scaled as T;
+  };
+
+  const ranked: SkillDefinition = { ...skill };
+  if (skill.passiveEffects) ranked.passiveEffects = skill.passiveEffects.map(e => scale(e, RANK_SCALED_PASSIVE_KEYS));
+  if (skill.activeEffects) ranked.activeEffects = skill.activeEffects.map(e => scale(e, RANK_SCALED_ACTIVE_KEYS));
+  return ranked;
+}
+
 /** Get the slot schedule for a class, falling back to the seed schedule when the class has none in content. */
 export function getSlotSchedule(className: ClassName, content: SkillContent): SkillSlot[] {
   const schedule = content.slotSchedules[className];
@@ -969,7 +1155,7 @@ export function unequipSkillFromSlot(
 
 /**
  * Create the default skill loadout for a class: its level-1 passive (tie broken
- * by sortOrder, grant-only skills excluded) unlocked and equipped in the first
+ * by sortOrder, grant-only and talent skills excluded) unlocked and equipped in the first
  * passive slot. If no passive unlocks at level 1, the loadout starts fully empty
  * (matches what `reconcileSkillLoadout` would immediately reduce it to for a
  * level-1 character, since nothing is unlocked yet). Slot count comes from the
@@ -980,7 +1166,7 @@ export function createDefaultSkillLoadout(className: ClassName, content: SkillCo
   const emptySlots: (SkillId | null)[] = schedule.map(() => null);
 
   const starting = getSkillsForClass(className, content)
-    .filter(s => s.type === 'passive' && s.unlockLevel !== null && s.unlockLevel <= 1)
+    .filter(s => s.type === 'passive' && !s.talent && s.unlockLevel !== null && s.unlockLevel <= 1)
     .sort((a, b) => (a.unlockLevel ?? 0) - (b.unlockLevel ?? 0) || a.sortOrder - b.sortOrder)[0];
   if (!starting) {
     return { unlockedSkills: [], equippedSkills: emptySlots };
@@ -1002,7 +1188,8 @@ export function createDefaultSkillLoadout(className: ClassName, content: SkillCo
  * is missing from content, type-mismatches its slot, or is no longer available
  * (not unlocked for the class at this level and not granted by equipment).
  * Never throws; unlockedSkills passes through untouched (it is recomputed by
- * the server's autoUnlockSkills).
+ * the server's autoUnlockSkills). Talent ranks are dropped for skills that are
+ * gone, no longer talents or another class's, and clamped to the max rank.
  */
 export function reconcileSkillLoadout(
   loadout: SkillLoadout,
@@ -1013,7 +1200,8 @@ export function reconcileSkillLoadout(
 ): SkillLoadout {
   const schedule = getSlotSchedule(className, content);
   const prior = loadout.equippedSkills ?? [];
-  const unlockedForLevel = new Set(getUnlockedSkillsForLevel(className, level, content));
+  const talentRanks = reconcileTalentRanks(loadout.talentRanks ?? {}, className, content);
+  const unlockedForLevel = new Set(getUnlockedSkillsForLevel(className, level, content, talentRanks));
   const granted = new Set(grantedSkillIds);
 
   const equipped: (SkillId | null)[] = [];
@@ -1036,8 +1224,23 @@ export function reconcileSkillLoadout(
     equipped.push(available ? skillId : null);
   }
 
-  return {
+  const reconciled: SkillLoadout = {
     unlockedSkills: [...(loadout.unlockedSkills ?? [])],
     equippedSkills: equipped,
   };
+  if (loadout.talentRanks) reconciled.talentRanks = talentRanks;
+  return reconciled;
+}
+
+function reconcileTalentRanks(
+  talentRanks: Record<SkillId, number>,
+  className: ClassName,
+  content: SkillContent,
+): Record<SkillId, number> {
+  const kept: Record<SkillId, number> = {};
+  for (const [skillId, rank] of Object.entries(talentRanks)) {
+    const talent = content.skills[skillId]?.className === className ? content.skills[skillId].talent : undefined;
+    if (talent && rank > 0) kept[skillId] = Math.min(rank, talent.maxRank);
+  }
+  return kept;
 }
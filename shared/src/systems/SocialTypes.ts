@@ -1,6 +1,11 @@
 // ── Social System Types ─────────────────────────────────────
 
 import type { NotificationEntry, NotificationPreferences } from './NotificationTypes.js';
+import type { ItemInstance } from './AffixTypes.js';
+import type { ItemDefinition } from './ItemTypes.js';
+import type { AuctionListing, AuctionSearchFilter } from './AuctionTypes.js';
+import type { WorkOrder } from './WorkOrderTypes.js';
+import type { MailboxEntry } from './MailTypes.js';
 
 // --- Friend System ---
 export interface FriendRequest {
@@ -57,6 +62,8 @@ export type TradeStatus = 'pending' | 'countered' | 'confirmed' | 'cancelled';
 export interface TradeOfferItem {
   itemId: string;
   quantity: number;
+  /** Rolled instance behind `itemId` (quantity 1), attached by the server so the partner sees its affixes. */
+  instance?: ItemInstance;
 }
 
 export interface TradeOffer {
@@ -81,17 +88,6 @@ export interface TradeState {
   cancelReason?: string;
 }
 
-// --- Mailbox / Gift System ---
-export interface MailboxEntry {
-  id: string;
-  fromUsername: string;
-  itemId: string;
-  quantity: number;
-  sentAt: number;
-  /** True if this entry is a returned (denied) gift back to the original sender. */
-  returned?: boolean;
-}
-
 // --- Chat System ---
 export type ChatChannelType = 'tile' | 'zone' | 'party' | 'guild' | 'dm' | 'global' | 'server';
 
@@ -136,7 +132,7 @@ export interface ClientSocialState {
   chatPreferences?: ChatPreferences;
   /** All async trades involving this player (initiated by or targeted at). */
   proposedTrades?: TradeState[];
-  /** Pending gift entries in this player's mailbox. */
+  /** Mail in this player's mailbox, oldest first. */
   mailbox?: MailboxEntry[];
   /** This player's notification inbox (capped, most recent last). */
   notifications?: NotificationEntry[];
@@ -292,6 +288,7 @@ export interface ClientCancelTradeMessage {
   tradeId: string;
 }
 
+/** Send a single item stack as a mail with a default subject — kept for older clients. */
 export interface ClientSendGiftMessage {
   type: 'send_gift';
   targetUsername: string;
@@ -299,16 +296,96 @@ export interface ClientSendGiftMessage {
   quantity: number;
 }
 
+/** Same as `claim_mail`. */
 export interface ClientAcceptGiftMessage {
   type: 'accept_gift';
   entryId: string;
 }
 
+/** Same as `return_mail`. */
 export interface ClientDenyGiftMessage {
   type: 'deny_gift';
   entryId: string;
 }
 
+/** Compose a mail to another player. Attachments and gold leave the sender right away. */
+export interface ClientSendMailMessage {
+  type: 'send_mail';
+  targetUsername: string;
+  subject: string;
+  body?: string;
+  attachments?: { itemId: string; quantity: number }[];
+  gold?: number;
+}
+
+/** Move whatever fits from one mail into the inventory; the rest stays in the mail. */
+export interface ClientClaimMailMessage {
+  type: 'claim_mail';
+  entryId: string;
+}
+
+/** `claim_mail` for every mail in the mailbox. */
+export interface ClientClaimAllMailMessage {
+  type: 'claim_all_mail';
+}
+
+/** Send an unclaimed player mail back to its sender. */
+export interface ClientReturnMailMessage {
+  type: 'return_mail';
+  entryId: string;
+}
+
+/** Discard a mail that has nothing left to claim. */
+export interface ClientDeleteMailMessage {
+  type: 'delete_mail';
+  entryId: string;
+}
+
+/** Ask for auction listings matching a filter; answered with `auction_results`. */
+export interface ClientSearchAuctionsMessage {
+  type: 'search_auctions';
+  filter: AuctionSearchFilter;
+}
+
+/** List an unequipped inventory item for a buy-now price; the items go into escrow. */
+export interface ClientListAuctionMessage {
+  type: 'list_auction';
+  itemId: string;
+  quantity: number;
+  price: number;
+  durationHours: number;
+}
+
+export interface ClientBuyAuctionMessage {
+  type: 'buy_auction';
+  listingId: string;
+}
+
+/** Withdraw one of your own listings; the items come back through the mailbox. */
+export interface ClientCancelAuctionMessage {
+  type: 'cancel_auction';
+  listingId: string;
+}
+
+/** Ask for the work-order board; answered with `work_order_results`. */
+export interface ClientGetWorkOrdersMessage {
+  type: 'get_work_orders';
+}
+
+/** Post an order for a crafted item; the reward goes into escrow. */
+export interface ClientPostWorkOrderMessage {
+  type: 'post_work_order';
+  itemId: string;
+  quantity: number;
+  reward: number;
+}
+
+/** Withdraw one of your own orders; the unpaid reward comes back through the mailbox. */
+export interface ClientCancelWorkOrderMessage {
+  type: 'cancel_work_order';
+  orderId: string;
+}
+
 export type ClientSocialMessage =
   | ClientSendFriendRequestMessage
   | ClientAcceptFriendRequestMessage
@@ -340,7 +417,19 @@ export type ClientSocialMessage =
   | ClientCancelTradeMessage
   | ClientSendGiftMessage
   | ClientAcceptGiftMessage
-  | ClientDenyGiftMessage;
+  | ClientDenyGiftMessage
+  | ClientSendMailMessage
+  | ClientClaimMailMessage
+  | ClientClaimAllMailMessage
+  | ClientReturnMailMessage
+  | ClientDeleteMailMessage
+  | ClientSearchAuctionsMessage
+  | ClientListAuctionMessage
+  | ClientBuyAuctionMessage
+  | ClientCancelAuctionMessage
+  | ClientGetWorkOrdersMessage
+  | ClientPostWorkOrderMessage
+  | ClientCancelWorkOrderMessage;
 
 // --- Server -> Client messages ---
 export interface ServerSocialStateMessage {
@@ -375,3 +464,23 @@ export interface ServerTradeCompletedMessage {
   trade: TradeState;
   receivedItemId: string;
 }
+
+/** Reply to `search_auctions`: matching listings plus all of the player's own. */
+export interface ServerAuctionResultsMessage {
+  type: 'auction_results';
+  listings: AuctionListing[];
+  myListings: AuctionListing[];
+  /** Definitions for every listed item, with rolled instances resolved. */
+  itemDefinitions: Record<string, ItemDefinition>;
+}
+
+/** Reply to `get_work_orders`: other players' open orders plus all of the player's own. */
+export interface ServerWorkOrderResultsMessage {
+  type: 'work_order_results';
+  orders: WorkOrder[];
+  myOrders: WorkOrder[];
+  /** Items an order can ask for (see `getWorkOrderItemIds`). */
+  orderableItemIds: string[];
+  /** Definitions for every ordered or orderable item. */
+  itemDefinitions: Record<string, ItemDefinition>;
+}
@@ -0,0 +1,71 @@
+import { MAX_STACK } from './ItemTypes.js';
+
+// --- Types ---
+
+/**
+ * One tab of a player's personal stash. Keys are inventory keys (content item
+ * ids or instance ids), so rolled instances keep their record on the
+ * character while they sit here. Stashed items are NOT carried: quest collect
+ * objectives, crafting and selling only ever see `inventory`.
+ */
+export interface StashTab {
+  name: string;
+  items: Record<string, number>;
+}
+
+// --- Constants ---
+
+export const STASH_TAB_COUNT = 4;
+/** Distinct stacks a single tab can hold. */
+export const MAX_STASH_TAB_STACKS = 40;
+
+// --- Pure functions ---
+
+/** Every tab, empty, with its default name. */
+export function emptyStash(): StashTab[] {
+  return Array.from({ length: STASH_TAB_COUNT }, (_, i) => ({ name: `Tab ${i + 1}`, items: {} }));
+}
+
+/** Saved tabs padded (or trimmed) to STASH_TAB_COUNT — characters from before the stash have none. */
+export function normalizeStash(saved: StashTab[] | undefined): StashTab[] {
+  const stash = emptyStash();
+  (saved ?? []).slice(0, STASH_TAB_COUNT).forEach((tab, i) => {
+    stash[i] = { name: tab.name || stash[i].name, items: { ...tab.items } };
+  });
+  return stash;
+}
+
+/** Whether any tab holds `itemId`. */
+export function isItemStashed(stash: StashTab[], itemId: string): boolean {
+  return stash.some(tab => (tab.items[itemId] ?? 0) > 0);
+}
+
+// --- Validation ---
+
+function getQuantityError(quantity: number): string | null {
+  return Number.isInteger(quantity) && quantity >= 1 && quantity <= MAX_STACK ? null : 'Invalid quantity.';
+}
+
+/** Why `quantity` of `itemId` can't go into `tab` (given how many are carried), or null if it can. */
+export function getStashDepositError(tab: StashTab | undefined, itemId: string, quantity: number, carried: number): string | null {
+  if (!tab) return 'No such stash tab.';
+  const quantityError = getQuantityError(quantity);
+  if (quantityError) return quantityError;
+  if (carried < quantity) return 'Not enough items in inventory.';
+  const stored = tab.items[itemId] ?? 0;
+  if (stored === 0 && Object.keys(tab.items).length >= MAX_STASH_TAB_STACKS) {
+    return `${tab.name} is full (${MAX_STASH_TAB_STACKS} stacks).`;
+  }
+  if (stored + quantity > MAX_STACK) return `${tab.name} can only hold ${MAX_STACK} of an item.`;
+  return null;
+}
+
+/** Why `quantity` of `itemId` can't come out of `tab` (given how many are carried), or null if it can. */
+export function getStashWithdrawError(tab: StashTab | undefined, itemId: string, quantity: number, carried: number): string | null {
+  if (!tab) return 'No such stash tab.';
+  const quantityError = getQuantityError(quantity);
+  if (quantityError) return quantityError;
+  if ((tab.items[itemId] ?? 0) < quantity) return `Not enough of that item in ${tab.name}.`;
+  if (carried + quantity > MAX_STACK) return `Inventory full for that item (max ${MAX_STACK}).`;
+  return null;
+}
@@ -0,0 +1,348 @@
+import type { DamageType } from './CharacterStats.js';
+import { ALL_DAMAGE_TYPES, SPELL_DAMAGE_TYPES, migrateLegacyDamageType } from './CharacterStats.js';
+
+// --- Types ---
+
+export type StatusEffectKind = 'buff' | 'debuff';
+
+/**
+ * What reapplying a status does:
+ * - `refresh`: one instance; reapplying only resets its duration.
+ * - `stack`: one instance; each application adds a stack — modifiers and tick
+ *   amounts accumulate — and resets the duration.
+ * - `independent`: every application is its own instance with its own duration.
+ */
+export type StatusStacking = 'refresh' | 'stack' | 'independent';
+
+/**
+ * Per-stack stat changes. Fractions (0.20 = 20%), like skill option params.
+ * Each instance applies its own multiplier, so two -20% instances compound.
+ */
+export interface StatusModifiers {
+  /** Outgoing hit damage multiplier delta (-0.20 = bearer deals 20% less). */
+  damageDealt?: number;
+  /** Incoming hit damage multiplier delta (+0.25 = bearer takes 25% more). */
+  damageTaken?: number;
+  /** Added chance (0-1) to dodge monster attacks. Players only. */
+  dodgeChance?: number;
+  /** Flat extra damage on each of the bearer's hits, of `bonusDamageType`. Players only. */
+  bonusDamage?: number;
+}
+
+/** Per-turn effect, resolved at the start of the bearer's turn alongside DoTs/HoTs. */
+export interface StatusTick {
+  kind: 'damage' | 'heal';
+  /** Per stack, per turn. */
+  amount: number;
+  /** Damage ticks only (default physical); mitigated like a DoT of that type. */
+  damageType?: DamageType;
+}
+
+/**
+ * A buff or debuff as editable content. Skills and monster skills apply these
+ * by id; the combat engine resolves them generically (no per-effect code).
+ */
+export interface StatusEffectDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  kind: StatusEffectKind;
+  stacking: StatusStacking;
+  /** Cap on stacks (`stack`) or concurrent instances (`independent`). Absent = uncapped. */
+  maxStacks?: number;
+  /** Default duration in the bearer's turns; -1 = rest of combat. Appliers may override. */
+  duration: number;
+  /** Dispel (buffs on monsters) and Cure (debuffs on players) only remove dispellable statuses. */
+  dispellable: boolean;
+  tick?: StatusTick;
+  modifiers?: StatusModifiers;
+  /** Restrict `damageTaken` to attackers of these damage types. Absent = all types. */
+  damageTakenTypes?: DamageType[];
+  /** Damage type of `modifiers.bonusDamage` (default holy). */
+  bonusDamageType?: DamageType;
+  /** Bearer attacks a random member of its own side on its next action. Monsters only. */
+  confusion?: boolean;
+  /** Monsters' single-target attacks and skills must hit the bearer. Players only. */
+  taunt?: boolean;
+  /** Removed after the bearer's next action, regardless of duration. */
+  expiresOnAction?: boolean;
+}
+
+/** A status on a combatant. Holds its definition so content edits don't change fights in progress. */
+export interface StatusInstance {
+  effectId: string;
+  definition: StatusEffectDefinition;
+  /** Who applied it (username or monster name) — DoT-style ticks are credited to them. */
+  sourceUsername: string;
+  stacks: number;
+  /** Turns remaining; -1 = rest of combat. */
+  duration: number;
+  /** Accumulated modifiers across stacks. */
+  modifiers: StatusModifiers;
+  /** Accumulated tick amount across stacks. */
+  tickAmount: number;
+}
+
+/** Per-application overrides — skills carry their own magnitudes and durations. */
+export interface StatusApplication {
+  sourceUsername: string;
+  duration?: number;
+  /** Replaces the definition's per-stack modifiers for this application. */
+  modifiers?: StatusModifiers;
+  /** Replaces the definition's per-stack tick amount for this application. */
+  tickAmount?: number;
+}
+
+// --- Constants ---
+
+export const ALL_STATUS_STACKING: StatusStacking[] = ['refresh', 'stack', 'independent'];
+
+const MODIFIER_KEYS: (keyof StatusModifiers)[] = ['damageDealt', 'damageTaken', 'dodgeChance', 'bonusDamage'];
+
+/**
+ * Statuses the engine applies from built-in skill options (Lullaby, Crippling Shot,
+ * Scorch, Sunder, Chaos, War Song, Blessed Arms), plus Taunt for authored skills.
+ * Always resolvable — the engine
+ * falls back to these when a content registry lacks the id — and not deletable.
+ */
+export const SEED_STATUS_EFFECTS: Record<string, StatusEffectDefinition> = {
+  lullaby: {
+    id: 'lullaby',
+    name: 'Lullaby',
+    description: 'Deals less damage. Recasting refreshes the duration.',
+    kind: 'debuff',
+    stacking: 'refresh',
+    duration: 3,
+    dispellable: true,
+    modifiers: { damageDealt: -0.20 },
+  },
+  crippling_shot: {
+    id: 'crippling_shot',
+    name: 'Crippled',
+    description: 'Deals less damage. Every application lands separately.',
+    kind: 'debuff',
+    stacking: 'independent',
+    duration: 3,
+    dispellable: true,
+    modifiers: { damageDealt: -0.30 },
+  },
+  scorch: {
+    id: 'scorch',
+    name: 'Scorch',
+    description: 'Takes more spell and holy damage. Reapplying refreshes the duration.',
+    kind: 'debuff',
+    stacking: 'refresh',
+    duration: 2,
+    dispellable: true,
+    modifiers: { damageTaken: 0.10 },
+    damageTakenTypes: [...SPELL_DAMAGE_TYPES, 'holy'],
+  },
+  sunder: {
+    id: 'sunder',
+    name: 'Sunder',
+    description: 'Takes more damage from every hit. Stacks for the rest of combat.',
+    kind: 'debuff',
+    stacking: 'stack',
+    duration: -1,
+    dispellable: true,
+    modifiers: { damageTaken: 0.25 },
+  },
+  chaos: {
+    id: 'chaos',
+    name: 'Chaos',
+    description: 'Attacks a random ally on its next turn.',
+    kind: 'debuff',
+    stacking: 'refresh',
+    duration: -1,
+    dispellable: true,
+    confusion: true,
+    expiresOnAction: true,
+  },
+  war_song: {
+    id: 'war_song',
+    name: 'War Song',
+    description: 'Deals more damage. Stacks for the rest of combat.',
+    kind: 'buff',
+    stacking: 'stack',
+    duration: -1,
+    dispellable: false,
+    modifiers: { damageDealt: 0.10 },
+  },
+  blessed_arms: {
+    id: 'blessed_arms',
+    name: 'Blessed Arms',
+    description: 'Hits deal bonus holy damage. Applied at combat start; multiple priests stack.',
+    kind: 'buff',
+    stacking: 'stack',
+    duration: -1,
+    dispellable: false,
+    modifiers: { bonusDamage: 0 },
+    bonusDamageType: 'holy',
+  },
+  taunt: {
+    id: 'taunt',
+    name: 'Taunt',
+    description: 'Draws every single-target monster attack. Apply it to self from a Knight skill.',
+    kind: 'buff',
+    stacking: 'refresh',
+    duration: 2,
+    dispellable: false,
+    taunt: true,
+  },
+};
+
+// --- Pure helpers ---
+
+function addModifiers(into: StatusModifiers, add: StatusModifiers): void {
+  for (const key of MODIFIER_KEYS) {
+    const value = add[key];
+    if (value !== undefined) into[key] = (into[key] ?? 0) + value;
+  }
+}
+
+/**
+ * Apply a status to a combatant's status list, following the definition's stacking
+ * rule. Returns the instance that was created or updated, or null when a cap blocked
+ * a new `independent` instance.
+ */
+export function addStatus(
+  statuses: StatusInstance[],
+  def: StatusEffectDefinition,
+  app: StatusApplication,
+): StatusInstance | null {
+  const duration = app.duration ?? def.duration;
+  const modifiers = app.modifiers ?? def.modifiers ?? {};
+  const tickAmount = app.tickAmount ?? def.tick?.amount ?? 0;
+  const existing = statuses.filter(s => s.effectId === def.id);
+
+  if (def.stacking !== 'independent' && existing.length > 0) {
+    const inst = existing[0];
+    inst.duration = duration;
+    if (def.stacking === 'stack' && (def.maxStacks === undefined || inst.stacks < def.maxStacks)) {
+      inst.stacks++;
+      addModifiers(inst.modifiers, modifiers);
+      inst.tickAmount += tickAmount;
+    }
+    return inst;
+  }
+  if (def.maxStacks !== undefined && existing.length >= def.maxStacks) return null;
+
+  const inst: StatusInstance = {
+    effectId: def.id,
+    definition: def,
+    sourceUsername: app.sourceUsername,
+    stacks: 1,
+    duration,
+    modifiers: { ...modifiers },
+    tickAmount,
+  };
+  statuses.push(inst);
+  return inst;
+}
+
+/**
+ * Scale a damage value by every status carrying `key` (damageDealt or damageTaken).
+ * Each instance multiplies in turn, floored like the engine's other multipliers.
+ * `damageType` filters damageTaken by the definition's `damageTakenTypes`.
+ */
+export function scaleByStatuses(
+  value: number,
+  statuses: StatusInstance[],
+  key: 'damageDealt' | 'damageTaken',
+  damageType?: DamageType,
+): number {
+  for (const s of statuses) {
+    const mod = s.modifiers[key];
+    if (!mod) continue;
+    if (key === 'damageTaken' && damageType && s.definition.damageTakenTypes
+        && !s.definition.damageTakenTypes.includes(damageType)) continue;
+    value = Math.floor(value * (1 + mod));
+  }
+  return value;
+}
+
+/** Sum an additive modifier (dodgeChance) across statuses. */
+export function sumStatusModifier(statuses: StatusInstance[], key: 'dodgeChance'): number {
+  return statuses.reduce((sum, s) => sum + (s.modifiers[key] ?? 0), 0);
+}
+
+/** Flat bonus damage per hit, grouped by damage type. */
+export function statusBonusDamage(statuses: StatusInstance[]): Map<DamageType, number> {
+  const byType = new Map<DamageType, number>();
+  for (const s of statuses) {
+    const amount = s.modifiers.bonusDamage ?? 0;
+    if (amount <= 0) continue;
+    const type = s.definition.bonusDamageType ?? 'holy';
+    byType.set(type, (byType.get(type) ?? 0) + amount);
+  }
+  return byType;
+}
+
+// --- Validation ---
+
+/**
+ * Validate an editable status effect definition.
+ * Returns a list of human-readable errors; empty array means valid.
+ */
+export function validateStatusEffectDefinition(def: StatusEffectDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!def.id || typeof def.id !== 'string' || !def.id.trim()) {
+    errors.push('Status effect id is required.');
+  }
+  if (!def.name || typeof def.name !== 'string' || !def.name.trim()) {
+    errors.push('Status effect name is required.');
+  }
+  if (def.kind !== 'buff' && def.kind !== 'debuff') {
+    errors.push('Kind must be "buff" or "debuff".');
+  }
+  if (!ALL_STATUS_STACKING.includes(def.stacking)) {
+    errors.push(`Stacking must be one of: ${ALL_STATUS_STACKING.join(', ')}.`);
+  }
+  if (def.maxStacks !== undefined && (!Number.isInteger(def.maxStacks) || def.maxStacks < 1)) {
+    errors.push('Max stacks must be a positive integer.');
+  }
+  if (!Number.isInteger(def.duration) || (def.duration < 1 && def.duration !== -1)) {
+    errors.push('Duration must be a positive integer, or -1 for the rest of combat.');
+  }
+  if (typeof def.dispellable !== 'boolean') {
+    errors.push('Dispellable must be a boolean.');
+  }
+  if (def.tick) {
+    if (def.tick.kind !== 'damage' && def.tick.kind !== 'heal') {
+      errors.push('Tick kind must be "damage" or "heal".');
+    }
+    if (typeof def.tick.amount !== 'number' || !Number.isFinite(def.tick.amount) || def.tick.amount < 0) {
+      errors.push('Tick amount must be a non-negative number.');
+    }
+    if (def.tick.damageType !== undefined && !ALL_DAMAGE_TYPES.includes(def.tick.damageType)) {
+      errors.push(`Unknown tick damage type "${def.tick.damageType}".`);
+    }
+  }
+  for (const [key, value] of Object.entries(def.modifiers ?? {})) {
+    if (!(MODIFIER_KEYS as string[]).includes(key)) {
+      errors.push(`Unknown modifier "${key}".`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`Modifier "${key}" must be a number.`);
+    } else if ((key === 'damageDealt' || key === 'damageTaken') && value <= -1) {
+      errors.push(`Modifier "${key}" must be greater than -1.`);
+    }
+  }
+  for (const type of [...(def.damageTakenTypes ?? []), ...(def.bonusDamageType ? [def.bonusDamageType] : [])]) {
+    if (!ALL_DAMAGE_TYPES.includes(type)) errors.push(`Unknown damage type "${type}".`);
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize a stored status effect onto the current damage types ('magical' → 'arcane'
+ * in its tick, damageTakenTypes and bonusDamageType). Idempotent.
+ */
+export function migrateLegacyStatusEffect(def: StatusEffectDefinition): StatusEffectDefinition {
+  const migrated: StatusEffectDefinition = { ...def };
+  if (def.tick?.damageType) migrated.tick = { ...def.tick, damageType: migrateLegacyDamageType(def.tick.damageType) };
+  if (def.damageTakenTypes) migrated.damageTakenTypes = [...new Set(def.damageTakenTypes.map(migrateLegacyDamageType))];
+  if (def.bonusDamageType) migrated.bonusDamageType = migrateLegacyDamageType(def.bonusDamageType);
+  return migrated;
+}
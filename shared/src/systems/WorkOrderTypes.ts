@@ -0,0 +1,107 @@
+import type { RecipeDefinition } from './CraftingTypes.js';
+import type { ItemDefinition } from './ItemTypes.js';
+import { MAX_STACK } from './ItemTypes.js';
+
+// --- Types ---
+
+/**
+ * A request on the server-wide work-order board: the poster wants `quantity`
+ * of a crafted item and has put `reward` gold into escrow. Other players
+ * fill it from their own craft queue; each delivery mails the items to the
+ * poster and that delivery's share of the reward to the crafter.
+ */
+export interface WorkOrder {
+  id: string;
+  poster: string;
+  /** Crafted item wanted — always the result of some recipe, never gear. */
+  itemId: string;
+  quantity: number;
+  /** Total gold in escrow for the whole order. */
+  reward: number;
+  /** Units delivered so far. The order closes when this reaches `quantity`. */
+  delivered: number;
+  postedAt: number;
+  expiresAt: number;
+}
+
+// --- Constants ---
+
+/** Open orders a single player can have on the board. */
+export const MAX_WORK_ORDERS = 5;
+/** How long an order stays on the board before its unpaid gold goes back to the poster. */
+export const WORK_ORDER_DURATION_HOURS = 72;
+export const MAX_WORK_ORDER_REWARD = 10_000_000;
+/** Sender name on work-order mail (deliveries, payouts, refunds). */
+export const WORK_ORDER_SENDER = 'Work Orders';
+
+// --- Pure functions ---
+
+/** Units still wanted. */
+export function getWorkOrderRemaining(order: WorkOrder): number {
+  return Math.max(0, order.quantity - order.delivered);
+}
+
+/**
+ * Gold paid for delivering `units` more. Computed as the difference of
+ * cumulative shares so the payouts over a whole order add up to exactly
+ * `reward`, however the deliveries are split.
+ */
+export function getWorkOrderPayment(order: WorkOrder, units: number): number {
+  const share = (delivered: number) => Math.floor((order.reward * delivered) / order.quantity);
+  const to = Math.min(order.quantity, order.delivered + units);
+  return share(to) - share(order.delivered);
+}
+
+/** Gold still in escrow — what a cancelled or expired order refunds. */
+export function getWorkOrderRefund(order: WorkOrder): number {
+  return order.reward - Math.floor((order.reward * order.delivered) / order.quantity);
+}
+
+/** Recipes that produce `itemId`. */
+export function getRecipesProducing(itemId: string, recipes: Record<string, RecipeDefinition>): RecipeDefinition[] {
+  return Object.values(recipes).filter(r => r.result.itemId === itemId);
+}
+
+/**
+ * Classes able to craft `itemId`, in recipe order — the crafts a player has
+ * to turn to for a component they can't make. Empty when a producing recipe
+ * has no class restriction (anyone can make it) or no recipe produces it.
+ */
+export function getItemCrafterClasses(itemId: string, recipes: Record<string, RecipeDefinition>): string[] {
+  const classes: string[] = [];
+  for (const recipe of getRecipesProducing(itemId, recipes)) {
+    if (!recipe.classRestriction || recipe.classRestriction.length === 0) return [];
+    for (const c of recipe.classRestriction) if (!classes.includes(c)) classes.push(c);
+  }
+  return classes;
+}
+
+/** Items a work order can ask for: stackable (non-gear) recipe results, sorted by name. */
+export function getWorkOrderItemIds(
+  recipes: Record<string, RecipeDefinition>,
+  items: Record<string, ItemDefinition>,
+): string[] {
+  const ids = new Set<string>();
+  for (const recipe of Object.values(recipes)) {
+    const def = items[recipe.result.itemId];
+    if (def && !def.equipSlot) ids.add(def.id);
+  }
+  return [...ids].sort((a, b) => items[a].name.localeCompare(items[b].name));
+}
+
+// --- Validation ---
+
+/** Validate a new order's item, quantity and reward. Returns an error message, or null. */
+export function validateWorkOrder(
+  itemId: string,
+  quantity: number,
+  reward: number,
+  recipes: Record<string, RecipeDefinition>,
+  items: Record<string, ItemDefinition>,
+): string | null {
+  if (!getWorkOrderItemIds(recipes, items).includes(itemId)) return 'That item cannot be ordered.';
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_STACK) return 'Invalid quantity.';
+  if (!Number.isInteger(reward) || reward < quantity) return 'Reward must be at least 1 gold per item.';
+  if (reward > MAX_WORK_ORDER_REWARD) return `Reward can be at most ${MAX_WORK_ORDER_REWARD.toLocaleString('en-US')} gold.`;
+  return null;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rollItemInstance,
+  resolveItemInstance,
+  withItemInstances,
+  getAffixPool,
+  getBaseItemId,
+  isItemInstanceId,
+  validateAffixDefinition,
+  SEED_AFFIXES,
+} from '../src/systems/AffixTypes';
+import type { AffixDefinition, ItemInstance } from '../src/systems/AffixTypes';
+import { computeEquipmentBonuses, equipItem, getItemEffectText, SEED_ITEMS } from '../src/systems/ItemTypes';
+import type { ItemDefinition } from '../src/systems/ItemTypes';
+import { computeActiveSetBonuses } from '../src/systems/SetTypes';
+import type { SetDefinition } from '../src/systems/SetTypes';
+
+/** Replays a fixed sequence, cycling when it runs out. */
+function seqRng(values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+const axe = SEED_ITEMS.iron_battleaxe;
+
+function axeInstance(affixes: ItemInstance['affixes']): ItemInstance {
+  return { id: 'iron_battleaxe#abc12345', itemId: 'iron_battleaxe', affixes };
+}
+
+// ── Instance ids ─────────────────────────────────────────────
+
+describe('instance ids', () => {
+  it('splits the base item id off an instance id', () => {
+    expect(isItemInstanceId('iron_battleaxe#abc12345')).toBe(true);
+    expect(isItemInstanceId('iron_battleaxe')).toBe(false);
+    expect(getBaseItemId('iron_battleaxe#abc12345')).toBe('iron_battleaxe');
+    expect(getBaseItemId('iron_battleaxe')).toBe('iron_battleaxe');
+  });
+});
+
+// ── Rolling ──────────────────────────────────────────────────
+
+describe('rollItemInstance', () => {
+  it('filters the pool by rarity and slot', () => {
+    const pool = getAffixPool(SEED_AFFIXES, 'uncommon', 'twohanded').map(a => a.id).sort();
+    expect(pool).toEqual(['brutal', 'flaming']);
+  });
+
+  it('rolls one affix for uncommon gear, weighted and within range', () => {
+    // brutal (weight 3) + flaming (weight 1): 0.5 * 4 = 2 → brutal; value roll 0.99 → max
+    const instance = rollItemInstance(axe, SEED_AFFIXES, seqRng([0.5, 0.99, 0]));
+    expect(instance).not.toBeNull();
+    expect(instance!.itemId).toBe('iron_battleaxe');
+    expect(getBaseItemId(instance!.id)).toBe('iron_battleaxe');
+    expect(instance!.affixes).toEqual([{ affixId: 'brutal', name: 'Brutal', stat: 'bonus_attack', value: 3 }]);
+  });
+
+  it('never repeats an affix on one item', () => {
+    const rare: ItemDefinition = { ...axe, rarity: 'rare' };
+    const instance = rollItemInstance(rare, SEED_AFFIXES, seqRng([0]));
+    const ids = instance!.affixes.map(a => a.affixId);
+    expect(ids).toHaveLength(2);
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it('returns null for common gear, non-gear, and empty pools', () => {
+    expect(rollItemInstance(SEED_ITEMS.short_bow, SEED_AFFIXES)).toBeNull();
+    expect(rollItemInstance({ id: 'ore', name: 'Ore', rarity: 'rare', value: 1 }, SEED_AFFIXES)).toBeNull();
+    expect(rollItemInstance(axe, {})).toBeNull();
+  });
+});
+
+// ── Resolution and bonuses ───────────────────────────────────
+
+describe('item instances in equipment', () => {
+  const instance = axeInstance([
+    { affixId: 'brutal', name: 'Brutal', stat: 'bonus_attack', value: 2 },
+    { affixId: 'keen', name: 'Keen', stat: 'crit_chance', value: 5 },
+    { affixId: 'hallowed', name: 'Hallowed', stat: 'bonus_damage', damageType: 'holy', value: 3 },
+    { affixId: 'fireproof', name: 'Fireproof', stat: 'resistance', damageType: 'fire', value: 10 },
+  ]);
+
+  it('resolves to the base item under the instance id', () => {
+    const def = resolveItemInstance(instance, SEED_ITEMS);
+    expect(def).toMatchObject({ id: instance.id, name: 'Iron Battleaxe', equipSlot: 'twohanded' });
+    expect(resolveItemInstance({ ...instance, itemId: 'missing' }, SEED_ITEMS)).toBeUndefined();
+    expect(getItemEffectText(def!)).toContain('+5% Crit Chance');
+  });
+
+  it('equips through equipItem and adds affix stats to the equipment bonuses', () => {
+    const items = withItemInstances(SEED_ITEMS, { [instance.id]: instance });
+    const inventory: Record<string, number> = { [instance.id]: 1, iron_battleaxe: 1 };
+    const equipment: Record<string, string | null> = { mainhand: null, offhand: null };
+
+    expect(equipItem(inventory, equipment, instance.id, items, 'Knight').success).toBe(true);
+    expect(equipment.mainhand).toBe(instance.id);
+    expect(inventory).toEqual({ iron_battleaxe: 1 });
+
+    const bonuses = computeEquipmentBonuses(equipment, items);
+    expect(bonuses.bonusAttackMin).toBe(axe.bonusAttackMin! + 2);
+    expect(bonuses.bonusAttackMax).toBe(axe.bonusAttackMax! + 2);
+    expect(bonuses.critChance).toBe(5);
+    expect(bonuses.bonusDamage).toEqual([{ damageType: 'holy', amount: 3 }]);
+    expect(bonuses.resistances).toEqual([{ damageType: 'fire', flatReduction: 0, percentReduction: 10 }]);
+  });
+
+  it('counts an equipped instance as its base item for sets', () => {
+    const set: SetDefinition = {
+      id: 'axe_set', name: 'Axe Set', itemIds: ['iron_battleaxe', 'leather_vest'],
+      breakpoints: [{ piecesRequired: 1, bonuses: { flatHp: 10 } }],
+    };
+    const result = computeActiveSetBonuses({ mainhand: instance.id, offhand: instance.id }, { axe_set: set });
+    expect(result.bonuses.flatHp).toBe(10);
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────
+
+describe('validateAffixDefinition', () => {
+  it('accepts every seed affix', () => {
+    for (const def of Object.values(SEED_AFFIXES)) {
+      expect(validateAffixDefinition(def)).toEqual([]);
+    }
+  });
+
+  it('reports bad fields', () => {
+    const bad = {
+      id: 'bad', name: '', stat: 'resistance', min: 4, max: 2, rarities: [], slots: ['tail'], weight: 0,
+    } as unknown as AffixDefinition;
+    // name, missing damage type, range, rarities, slot, weight
+    expect(validateAffixDefinition(bad)).toHaveLength(6);
+  });
+});
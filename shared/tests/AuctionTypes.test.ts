@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAuctionFee,
+  getAuctionPayout,
+  getAuctionItemDefinition,
+  matchesAuctionFilter,
+  searchAuctionListings,
+  validateAuctionListing,
+  sanitizeAuctionSearchFilter,
+  MAX_AUCTION_PRICE,
+} from '../src/systems/AuctionTypes';
+import type { AuctionListing } from '../src/systems/AuctionTypes';
+import { SEED_ITEMS } from '../src/systems/ItemTypes';
+
+function listing(id: string, itemId: string, price: number, overrides?: Partial<AuctionListing>): AuctionListing {
+  return { id, seller: 'alice', itemId, quantity: 1, price, listedAt: 0, expiresAt: 1000, ...overrides };
+}
+
+// ── Fees ─────────────────────────────────────────────────────
+
+describe('getAuctionFee / getAuctionPayout', () => {
+  it('keeps 5% of the price, at least 1 gold', () => {
+    expect(getAuctionFee(1000)).toBe(50);
+    expect(getAuctionPayout(1000)).toBe(950);
+    expect(getAuctionFee(3)).toBe(1);
+    expect(getAuctionPayout(1)).toBe(0);
+  });
+});
+
+// ── Search ───────────────────────────────────────────────────
+
+describe('matchesAuctionFilter', () => {
+  it('filters by slot, rarity, class and name', () => {
+    const bow = SEED_ITEMS.short_bow;
+    expect(matchesAuctionFilter(bow, {})).toBe(true);
+    expect(matchesAuctionFilter(bow, { slot: bow.equipSlot })).toBe(true);
+    expect(matchesAuctionFilter(bow, { slot: 'head' })).toBe(false);
+    expect(matchesAuctionFilter(bow, { slot: 'none' })).toBe(false);
+    expect(matchesAuctionFilter(SEED_ITEMS.lesser_red_potion, { slot: 'none' })).toBe(true);
+    expect(matchesAuctionFilter(bow, { rarity: bow.rarity })).toBe(true);
+    expect(matchesAuctionFilter(bow, { className: 'Archer' })).toBe(true);
+    expect(matchesAuctionFilter(bow, { className: 'Knight' })).toBe(false);
+    expect(matchesAuctionFilter(SEED_ITEMS.janky_helmet, { className: 'Knight' })).toBe(true);
+    expect(matchesAuctionFilter(bow, { text: '  SHORT ' })).toBe(true);
+  });
+});
+
+describe('searchAuctionListings', () => {
+  it('returns live matches cheapest first, capped at the limit', () => {
+    const listings = [
+      listing('a', 'janky_helmet', 30),
+      listing('b', 'janky_helmet', 10, { expiresAt: 500 }),
+      listing('c', 'janky_helmet', 20),
+      listing('d', 'short_bow', 5),
+      listing('e', 'deleted_item', 1),
+    ];
+    expect(searchAuctionListings(listings, SEED_ITEMS, { slot: 'head' }, 600).map(l => l.id)).toEqual(['c', 'a']);
+    expect(searchAuctionListings(listings, SEED_ITEMS, {}, 0, 2).map(l => l.id)).toEqual(['d', 'b']);
+  });
+
+  it('resolves rolled instances held in escrow', () => {
+    const instance = { id: 'rusty_dagger#abc12345', itemId: 'rusty_dagger', affixes: [] };
+    const escrowed = listing('a', instance.id, 10, { instance });
+    expect(getAuctionItemDefinition(escrowed, SEED_ITEMS)?.id).toBe(instance.id);
+    expect(searchAuctionListings([escrowed], SEED_ITEMS, { text: 'dagger' }, 0)).toHaveLength(1);
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────
+
+describe('validateAuctionListing', () => {
+  it('checks quantity, price and duration', () => {
+    expect(validateAuctionListing(1, 100, 24)).toBeNull();
+    expect(validateAuctionListing(0, 100, 24)).toBe('Invalid quantity.');
+    expect(validateAuctionListing(1, 0, 24)).toBe('Price must be at least 1 gold.');
+    expect(validateAuctionListing(1, 1.5, 24)).toBe('Price must be at least 1 gold.');
+    expect(validateAuctionListing(1, MAX_AUCTION_PRICE + 1, 24)).not.toBeNull();
+    expect(validateAuctionListing(1, 100, 7)).toBe('Duration must be 12/24/48 hours.');
+  });
+});
+
+describe('sanitizeAuctionSearchFilter', () => {
+  it('keeps string fields and drops everything else', () => {
+    expect(sanitizeAuctionSearchFilter({ slot: 'mainhand', rarity: 'rare', className: 'Knight', text: 'axe' }))
+      .toEqual({ slot: 'mainhand', rarity: 'rare', className: 'Knight', text: 'axe' });
+    expect(sanitizeAuctionSearchFilter({ text: 42, rarity: ['rare'], slot: null, extra: 'x' })).toEqual({});
+    expect(sanitizeAuctionSearchFilter('axe')).toEqual({});
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { buildSimParty, simulateBattle, simulateBattleAsync, MAX_SIM_LEVEL } from '../src/systems/BattleSimulator';
+import type { SimContent, SimPartyMember } from '../src/systems/BattleSimulator';
+import { SEED_MONSTERS } from '../src/systems/MonsterTypes';
+import { SEED_ENCOUNTERS } from '../src/systems/EncounterTypes';
+import { SEED_ITEMS } from '../src/systems/ItemTypes';
+import { SEED_SKILLS } from '../src/systems/SkillTypes';
+import { calculateMaxHp } from '../src/systems/CharacterStats';
+
+const content: SimContent = {
+  monsters: SEED_MONSTERS,
+  items: SEED_ITEMS,
+  sets: {},
+  skills: SEED_SKILLS,
+};
+
+function member(overrides: Partial<SimPartyMember> = {}): SimPartyMember {
+  return {
+    name: 'Tank',
+    className: 'Knight',
+    level: 5,
+    skillIds: [],
+    equipmentIds: [],
+    gridPosition: 5,
+    ...overrides,
+  };
+}
+
+const PARTY: SimPartyMember[] = [
+  member({ skillIds: ['knight_bash'], equipmentIds: ['leather_vest'] }),
+  member({ name: 'Archer', className: 'Archer', gridPosition: 4, equipmentIds: ['short_bow'] }),
+  member({ name: 'Healer', className: 'Priest', gridPosition: 3, skillIds: ['priest_minor_heal'] }),
+];
+
+describe('BattleSimulator — party building', () => {
+  it('derives HP and equipment bonuses like a live session', () => {
+    const [tank, archer] = buildSimParty(PARTY, content);
+    expect(tank.maxHp).toBe(calculateMaxHp(5, 'Knight'));
+    expect(tank.equipBonuses?.damageReductionMax).toBe(SEED_ITEMS.leather_vest.damageReductionMax);
+    expect(tank.equippedSkills[0]?.id).toBe('knight_bash');
+    // Two-handed weapons fill both hands but only count once.
+    expect(archer.equipBonuses?.bonusAttackMax).toBe(SEED_ITEMS.short_bow.bonusAttackMax);
+  });
+
+  it('rejects unknown content, class-restricted gear and duplicates', () => {
+    expect(() => buildSimParty([member({ equipmentIds: ['nope'] })], content)).toThrow(/Unknown item/);
+    expect(() => buildSimParty([member({ skillIds: ['nope'] })], content)).toThrow(/Unknown skill/);
+    expect(() => buildSimParty([member({ equipmentIds: ['short_bow'] })], content)).toThrow(/cannot equip/);
+    expect(() => buildSimParty([member(), member({ gridPosition: 4 })], content)).toThrow(/Duplicate member name/);
+    expect(() => buildSimParty([member(), member({ name: 'Other' })], content)).toThrow(/used twice/);
+    for (const level of [0, -3, 2.5, Number.NaN, MAX_SIM_LEVEL + 1]) {
+      expect(() => buildSimParty([member({ level })], content)).toThrow(/Invalid level/);
+    }
+  });
+});
+
+describe('BattleSimulator — simulateBattle', () => {
+  it('reports outcomes and per-member stats', () => {
+    const report = simulateBattle(PARTY, SEED_ENCOUNTERS.darkwood_goblins, content, { iterations: 50, seed: 1 });
+    expect(report.iterations).toBe(50);
+    expect(report.wins).toBeGreaterThan(0);
+    expect(report.winRate).toBe(report.wins / 50);
+    expect(report.avgTicksToKill).toBeGreaterThan(0);
+    expect(report.members.map(m => m.name)).toEqual(['Tank', 'Archer', 'Healer']);
+    expect(report.members.find(m => m.name === 'Archer')!.avgDamage).toBeGreaterThan(0);
+    for (const m of report.members) {
+      expect(m.deathRate).toBeGreaterThanOrEqual(0);
+      expect(m.deathRate).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('is reproducible from its seed', () => {
+    const a = simulateBattle(PARTY, SEED_ENCOUNTERS.darkwood_wolves, content, { iterations: 20, seed: 99 });
+    const b = simulateBattle(PARTY, SEED_ENCOUNTERS.darkwood_wolves, content, { iterations: 20, seed: a.seed });
+    expect(b).toEqual(a);
+  });
+
+  it('yields to the event loop while running and matches the synchronous report', async () => {
+    let otherWork = 0;
+    const timer = setInterval(() => { otherWork++; }, 0);
+    const report = await simulateBattleAsync(PARTY, SEED_ENCOUNTERS.darkwood_wolves, content, { iterations: 200, seed: 5 });
+    clearInterval(timer);
+    expect(report).toEqual(simulateBattle(PARTY, SEED_ENCOUNTERS.darkwood_wolves, content, { iterations: 200, seed: 5 }));
+    expect(otherWork).toBeGreaterThan(0);
+  });
+
+  it('counts a hopeless party as losses', () => {
+    const solo = [member({ className: 'Bard', level: 1 })];
+    const report = simulateBattle(solo, SEED_ENCOUNTERS.darkwood_bandits, content, { iterations: 10, seed: 3 });
+    expect(report.winRate).toBeLessThan(1);
+    expect(report.members[0].deathRate).toBeGreaterThan(0);
+  });
+
+  it('abandons battles that exceed maxTicks', () => {
+    const report = simulateBattle(PARTY, SEED_ENCOUNTERS.darkwood_goblins, content, { iterations: 5, seed: 4, maxTicks: 1 });
+    expect(report.timeouts).toBe(5);
+    expect(report.wins).toBe(0);
+    expect(report.avgTicksToKill).toBeNull();
+  });
+
+  it('rejects out-of-range iteration counts', () => {
+    expect(() => simulateBattle(PARTY, SEED_ENCOUNTERS.darkwood_goblins, content, { iterations: 0 })).toThrow(/iterations/);
+  });
+});
@@ -11,7 +11,10 @@ import {
   CRAFT_SKILL_NAMES,
   ALL_CLASS_NAMES,
   CLASS_DEFINITIONS,
+  migrateLegacyDamageType,
 } from '../src/systems/CharacterStats';
+import { migrateLegacyMonster } from '../src/systems/MonsterTypes';
+import type { MonsterDefinition } from '../src/systems/MonsterTypes';
 import type { ClassName } from '../src/systems/CharacterStats';
 import { SEED_SKILLS, SEED_SKILL_SLOT_SCHEDULES } from '../src/systems/SkillTypes';
 import type { SkillContent } from '../src/systems/SkillTypes';
@@ -169,8 +172,21 @@ describe('CharacterStats', () => {
       expect(CLASS_DEFINITIONS.Priest.damageType).toBe('holy');
     });
 
-    it('Mage has magical damage type', () => {
-      expect(CLASS_DEFINITIONS.Mage.damageType).toBe('magical');
+    it('Mage has arcane damage type', () => {
+      expect(CLASS_DEFINITIONS.Mage.damageType).toBe('arcane');
+    });
+
+    it('legacy magical content migrates to arcane', () => {
+      expect(migrateLegacyDamageType('magical')).toBe('arcane');
+      expect(migrateLegacyDamageType('fire')).toBe('fire');
+      const legacy = {
+        id: 'wisp', name: 'Wisp', hp: 5, damage: 2, damageType: 'magical', xp: 1, goldMin: 0, goldMax: 0,
+        resistances: [{ damageType: 'magical', flatReduction: 1, percentReduction: 50 }],
+      } as unknown as MonsterDefinition;
+      const migrated = migrateLegacyMonster(legacy);
+      expect(migrated.damageType).toBe('arcane');
+      expect(migrated.resistances).toEqual([{ damageType: 'arcane', flatReduction: 1, percentReduction: 50 }]);
+      expect(migrateLegacyMonster(migrated)).toBe(migrated);
     });
 
     it('ALL_CLASS_NAMES has 5 playable classes', () => {
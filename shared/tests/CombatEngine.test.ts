@@ -1,14 +1,18 @@
 import { describe, it, expect } from 'vitest';
-import { findTarget, createPartyCombatState, processPartyTick } from '../src/systems/CombatEngine';
+import { buildPartyCombatant, findTarget, createPartyCombatState, processPartyTick, STUN_DR_MULTIPLIERS, STUN_DR_WINDOW } from '../src/systems/CombatEngine';
 import type { PartyCombatant } from '../src/systems/CombatEngine';
-import { createMonsterInstance, SEED_MONSTERS } from '../src/systems/MonsterTypes';
+import { createMonsterInstance, SEED_MONSTERS, validateBossPhases } from '../src/systems/MonsterTypes';
+import type { BossPhase, MonsterDefinition } from '../src/systems/MonsterTypes';
 import { createEncounter, SEED_ENCOUNTERS } from '../src/systems/EncounterTypes';
 import { SEED_ZONES } from '../src/systems/ZoneTypes';
 import { calculateMaxHp, calculateBaseDamage, CLASS_DEFINITIONS } from '../src/systems/CharacterStats';
 import type { ClassName, DamageType } from '../src/systems/CharacterStats';
 import type { PartyGridPosition } from '../src/systems/SocialTypes';
 import { SEED_SKILLS } from '../src/systems/SkillTypes';
-import type { SkillDefinition } from '../src/systems/SkillTypes';
+import type { PassiveEffect, SkillDefinition } from '../src/systems/SkillTypes';
+import type { ItemDefinition } from '../src/systems/ItemTypes';
+import type { SetDefinition } from '../src/systems/SetTypes';
+import { createRngState, rngFn } from '../src/systems/Rng';
 
 function makePlayer(
   username: string,
@@ -39,10 +43,12 @@ function makePlayer(
     equippedSkills: overrides.equippedSkills ?? [null, null, null, null, null],
     attackCount: 0,
     stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
     dots: [],
     hots: [],
     damageShield: 0,
-    debuffs: [],
+    statuses: [],
     consecutiveHits: 0,
     lastTargetId: '',
     hasResurrected: false,
@@ -257,9 +263,9 @@ describe('Party Combat', () => {
       expect(state.players[0].currentHp).toBe(200);
     });
 
-    it('Priest Bless provides party-wide magical damage reduction', () => {
+    it('Priest Bless provides party-wide arcane damage reduction', () => {
       const blessSkill = SEED_SKILLS.priest_bless;
-      const wolf = createMonsterInstance(SEED_MONSTERS.wolf, 4); // magical damage, 6 dmg
+      const wolf = createMonsterInstance(SEED_MONSTERS.wolf, 4); // arcane damage, 6 dmg
       wolf.maxHp = 1000;
       wolf.currentHp = 1000; // make wolf survive player attacks
       const priest = makePlayer('Cleric', 0, {
@@ -284,8 +290,8 @@ describe('Party Combat', () => {
       expect(target!.currentHp).toBe(200 - 4);
     });
 
-    it('equipment reduction does NOT apply to magical damage', () => {
-      const wolf = createMonsterInstance(SEED_MONSTERS.wolf, 4); // 6 magical damage
+    it('equipment reduction does NOT apply to arcane damage', () => {
+      const wolf = createMonsterInstance(SEED_MONSTERS.wolf, 4); // 6 arcane damage
       const archer = makePlayer('Legolas', 2, { className: 'Archer', level: 1, hp: 200, baseDamage: 15 });
       archer.equipBonuses = { bonusAttackMin: 0, bonusAttackMax: 0, damageReductionMin: 5, damageReductionMax: 5, magicReductionMin: 0, magicReductionMax: 0 };
       const state = createPartyCombatState([archer], [wolf]);
@@ -293,7 +299,7 @@ describe('Party Combat', () => {
       processPartyTick(state); // Archer attacks
       processPartyTick(state); // Wolf attacks
 
-      // No priest, no magical reduction → full 6 damage (equipment DR ignored for magical)
+      // No priest, no arcane reduction → full 6 damage (equipment DR ignored for arcane)
       expect(state.players[0].currentHp).toBe(200 - 6);
     });
   });
@@ -393,6 +399,44 @@ describe('Party Combat', () => {
     });
   });
 
+  describe('seeded replay', () => {
+    /** Run a full Darkwood fight (encounter roll + combat) from one seed; return the log. */
+    function runSeededBattle(seed: number): string[] {
+      const rng = createRngState(seed);
+      const monsters = createEncounter('darkwood', SEED_MONSTERS, SEED_ZONES, SEED_ENCOUNTERS, undefined, rngFn(rng));
+      const bash = SEED_SKILLS.knight_bash;
+      const state = createPartyCombatState([
+        makePlayer('Alice', 2, { className: 'Knight', level: 5, equippedSkills: [null, bash, null, null, null] }),
+        makePlayer('Bob', 0, { className: 'Archer', level: 5 }),
+      ], monsters, rng);
+      const log: string[] = [];
+      for (let i = 0; i < 500 && !state.finished; i++) {
+        log.push(...processPartyTick(state).logEntries);
+      }
+      return log;
+    }
+
+    it('stores the seed on the combat state', () => {
+      const state = createPartyCombatState([makePlayer('Alice', 0)], [createMonsterInstance(SEED_MONSTERS.goblin, 4)], createRngState(77));
+      expect(state.rng.seed).toBe(77);
+    });
+
+    it('the same seed replays the same battle', () => {
+      expect(runSeededBattle(31337)).toEqual(runSeededBattle(31337));
+    });
+
+    it('a mid-battle JSON snapshot resumes identically', () => {
+      const monsters = [createMonsterInstance(SEED_MONSTERS.bandit, 4), createMonsterInstance(SEED_MONSTERS.wolf, 1)];
+      const state = createPartyCombatState([makePlayer('Alice', 0, { hp: 500 }), makePlayer('Bob', 3, { hp: 500 })], monsters, createRngState(9));
+      for (let i = 0; i < 3; i++) processPartyTick(state);
+
+      const copy = JSON.parse(JSON.stringify(state));
+      for (let i = 0; i < 10; i++) {
+        expect(processPartyTick(copy).logEntries).toEqual(processPartyTick(state).logEntries);
+      }
+    });
+  });
+
   describe('stun mechanics', () => {
     it('stunned player skips turn', () => {
       const monsters = [createMonsterInstance(SEED_MONSTERS.goblin, 4)];
@@ -679,9 +723,363 @@ describe('multi-option skills', () => {
     const state = createPartyCombatState([knightA, knightB], [monster]);
 
     processPartyTick(state); // Arthur casts Strong Sunder: +25%
-    expect(state.monsters[0].sunderMark).toEqual({ stacks: 1, totalBonus: 0.25 });
+    expect(state.monsters[0].statuses[0]).toMatchObject({ effectId: 'sunder', stacks: 1, modifiers: { damageTaken: 0.25 } });
 
     processPartyTick(state); // Lancelot casts Weak Sunder: should ADD +5%, not overwrite to +5%
-    expect(state.monsters[0].sunderMark).toEqual({ stacks: 2, totalBonus: 0.30 });
+    expect(state.monsters[0].statuses[0].stacks).toBe(2);
+    expect(state.monsters[0].statuses[0].modifiers.damageTaken).toBeCloseTo(0.30);
+  });
+});
+
+// ── Status resistances & stun diminishing returns ───────────
+
+describe('Status resistances', () => {
+  const bash: SkillDefinition = {
+    id: 'test_sure_bash', name: 'Sure Bash', description: 'test', className: 'Knight', type: 'active',
+    unlockLevel: 1, sortOrder: 1, cooldown: 1,
+    activeEffects: [{ kind: 'stun_single', stunChance: 1 }],
+  };
+
+  function bashState(monsterOverrides: Partial<MonsterDefinition> = {}) {
+    const monster = createMonsterInstance({ ...SEED_MONSTERS.goblin, hp: 10000, ...monsterOverrides }, 4);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 500, equippedSkills: [null, bash, null, null, null] });
+    return createPartyCombatState([knight], [monster], createRngState(3));
+  }
+
+  it('a landed stun opens a diminishing-returns window that counts down on the target\'s turns', () => {
+    const state = bashState();
+    const cast = processPartyTick(state);
+    expect(cast.events).toContainEqual(expect.objectContaining({ type: 'stun', target: expect.objectContaining({ name: 'Goblin' }) }));
+    expect(state.monsters[0]).toMatchObject({ stunTurns: 1, stunDrStacks: 1, stunDrTurns: STUN_DR_WINDOW });
+
+    processPartyTick(state); // Goblin loses its turn; the window counts it
+    expect(state.monsters[0]).toMatchObject({ stunTurns: 0, stunDrTurns: STUN_DR_WINDOW - 1 });
+  });
+
+  it('a target stunned too often in one window is immune', () => {
+    const state = bashState();
+    state.monsters[0].stunDrStacks = STUN_DR_MULTIPLIERS.length - 1;
+    state.monsters[0].stunDrTurns = STUN_DR_WINDOW;
+
+    const cast = processPartyTick(state);
+    expect(state.monsters[0].stunTurns).toBe(0);
+    expect(cast.events).toContainEqual(expect.objectContaining({ type: 'stun_resisted', reason: 'diminishing' }));
+  });
+
+  it('full stun resistance blocks even a guaranteed stun', () => {
+    const state = bashState({ stunResistance: 100 });
+    const cast = processPartyTick(state);
+    expect(state.monsters[0].stunTurns).toBe(0);
+    expect(cast.events).toContainEqual(expect.objectContaining({ type: 'stun_resisted', reason: 'resistance' }));
+  });
+
+  it('DoT resistance reduces ticks after type mitigation', () => {
+    const state = bashState({ dotResistance: 50 });
+    state.players[0].equippedSkills = [null, null, null, null, null];
+    state.monsters[0].dots.push({ sourceUsername: 'Arthur', name: 'bleed', damagePerTick: 11, ticksRemaining: 2, damageType: 'physical' });
+
+    processPartyTick(state); // Arthur attacks
+    const tick = processPartyTick(state).events.find(e => e.type === 'dot_tick');
+    expect(tick).toMatchObject({ amount: 6, mitigation: { resisted: 5 } });
+  });
+
+  it('debuff resistance shrugs off statuses and reports it', () => {
+    const sunder: SkillDefinition = {
+      id: 'test_sunder', name: 'Sunder', description: 'test', className: 'Knight', type: 'active',
+      unlockLevel: 1, sortOrder: 1, cooldown: 1,
+      activeEffects: [{ kind: 'stacking_mark', markMultiplier: 0.25 }],
+    };
+    const monster = createMonsterInstance({ ...SEED_MONSTERS.goblin, hp: 10000, debuffResistance: 100 }, 4);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 500, equippedSkills: [null, sunder, null, null, null] });
+    const state = createPartyCombatState([knight], [monster], createRngState(3));
+
+    const cast = processPartyTick(state);
+    expect(state.monsters[0].statuses).toEqual([]);
+    expect(cast.events).toContainEqual(expect.objectContaining({ type: 'debuff_resisted', status: 'sunder', effectName: 'Sunder' }));
+    expect(cast.events.some(e => e.type === 'debuff_applied')).toBe(false);
+  });
+});
+
+// ── Damage types ─────────────────────────────────────────────
+
+describe('Damage types', () => {
+  it('gear affix crit chance and bonus damage apply to player hits', () => {
+    const monster = createMonsterInstance({ id: 'dummy', name: 'Dummy', hp: 10000, damage: 1, xp: 1, goldMin: 0, goldMax: 0 }, 4);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 500, baseDamage: 10 });
+    knight.equipBonuses = {
+      bonusAttackMin: 0, bonusAttackMax: 0, damageReductionMin: 0, damageReductionMax: 0,
+      magicReductionMin: 0, magicReductionMax: 0, stunResistance: 0, dotResistance: 0, debuffResistance: 0,
+      resistances: [], critChance: 100, bonusDamage: [{ damageType: 'holy', amount: 3 }],
+    };
+    const state = createPartyCombatState([knight], [monster], createRngState(5));
+
+    const hit = processPartyTick(state).events.find(e => e.type === 'damage' && e.source.name === 'Arthur');
+    expect(hit).toMatchObject({ crit: true, bonus: [{ damageType: 'holy', amount: 3 }] });
+  });
+
+  it('player per-type resistance from gear mitigates matching monster hits only', () => {
+    const imp = createMonsterInstance({ id: 'imp', name: 'Imp', hp: 10000, damage: 10, damageType: 'fire', xp: 1, goldMin: 0, goldMax: 0 }, 4);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 500, baseDamage: 1 });
+    knight.equipBonuses = {
+      bonusAttackMin: 0, bonusAttackMax: 0, damageReductionMin: 0, damageReductionMax: 0,
+      magicReductionMin: 0, magicReductionMax: 0, stunResistance: 0, dotResistance: 0, debuffResistance: 0,
+      resistances: [{ damageType: 'fire', flatReduction: 0, percentReduction: 100 }],
+    };
+    const state = createPartyCombatState([knight], [imp], createRngState(5));
+
+    processPartyTick(state); // Arthur attacks
+    const hit = processPartyTick(state).events.find(e => e.type === 'damage' && e.target.name === 'Arthur');
+    expect(hit).toMatchObject({ damageType: 'fire', amount: 0 });
+    expect(hit?.type === 'damage' && hit.mitigation.resisted).toBeGreaterThan(0);
+    expect(state.players[0].currentHp).toBe(500);
+  });
+
+  it('a skill that declares a damage type hits with it instead of the caster\'s', () => {
+    const firebolt: SkillDefinition = {
+      id: 'test_firebolt', name: 'Firebolt', description: 'test', className: 'Archer', type: 'active',
+      unlockLevel: 1, sortOrder: 1, cooldown: 1, damageType: 'fire',
+      activeEffects: [{ kind: 'damage_percent', damagePercent: 1 }],
+    };
+    const monster = createMonsterInstance({
+      ...SEED_MONSTERS.goblin, hp: 10000, resistances: [{ damageType: 'fire', flatReduction: 0, percentReduction: 100 }],
+    }, 4);
+    const archer = makePlayer('Robin', 1, { equippedSkills: [null, firebolt, null, null, null] });
+    const state = createPartyCombatState([archer], [monster], createRngState(5));
+
+    const cast = processPartyTick(state);
+    expect(cast.events).toContainEqual(expect.objectContaining({ type: 'damage', cause: 'skill', damageType: 'fire', amount: 0 }));
+    expect(state.monsters[0].currentHp).toBe(10000);
+  });
+
+  it('buildPartyCombatant takes the weapon\'s damage type and sums gear and set resistances', () => {
+    const staff: ItemDefinition = {
+      id: 'frost_staff', name: 'Frost Staff', rarity: 'rare', equipSlot: 'mainhand', damageType: 'frost',
+      resistances: [{ damageType: 'fire', flatReduction: 2, percentReduction: 10 }],
+    };
+    const set: SetDefinition = {
+      id: 'ice', name: 'Ice', itemIds: ['frost_staff'],
+      breakpoints: [{ piecesRequired: 1, bonuses: { resistances: [{ damageType: 'fire', flatReduction: 0, percentReduction: 5 }] } }],
+    };
+    const combatant = buildPartyCombatant(
+      { username: 'Merlin', className: 'Mage', level: 1, equipment: { mainhand: 'frost_staff' }, equippedSkills: [], gridPosition: 1 },
+      { frost_staff: staff },
+      { ice: set },
+    );
+    expect(combatant.playerDamageType).toBe('frost');
+    expect(combatant.equipBonuses?.resistances).toEqual([{ damageType: 'fire', flatReduction: 2, percentReduction: 15 }]);
+  });
+});
+
+// ── Boss phases ──────────────────────────────────────────────
+
+describe('Boss phases', () => {
+  const boss = (phases: BossPhase[], overrides: Partial<MonsterDefinition> = {}): MonsterDefinition => ({
+    id: 'test_boss', name: 'Boss', hp: 1000, damage: 10, damageType: 'physical', xp: 100, goldMin: 0, goldMax: 0,
+    phases, ...overrides,
+  });
+
+  it('enters a phase at its HP threshold, swapping skills and summoning adds into empty positions', () => {
+    const def = boss([{
+      hpThreshold: 50, name: 'Shatter',
+      skills: [{ skillId: 'fireball', value: 5, cooldown: 3 }],
+      summons: [{ monsterId: 'goblin', count: 2 }],
+    }]);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 5000, baseDamage: 700 });
+    const state = createPartyCombatState([knight], [createMonsterInstance(def, 0)], createRngState(3));
+
+    const tick = processPartyTick(state);
+    expect(tick.events).toContainEqual(expect.objectContaining({ type: 'phase_change', phase: 1, phaseName: 'Shatter' }));
+    expect(tick.logEntries).toContain('Boss enters phase 1: Shatter!');
+    expect(tick.events.filter(e => e.type === 'summon')).toHaveLength(2);
+    expect(state.monsters.map(m => [m.id, m.gridPosition])).toEqual([['test_boss', 0], ['goblin', 1], ['goblin', 2]]);
+    expect(state.turnOrderSize).toBe(4);
+    expect(state.monsters[0].skills.map(sk => sk.skillId)).toEqual(['fireball']);
+
+    // The adds count toward victory and get their turns
+    for (let i = 0; i < 200 && !state.finished; i++) processPartyTick(state);
+    expect(state.result).toBe('victory');
+    expect(state.monsters.every(m => m.currentHp <= 0)).toBe(true);
+  });
+
+  it('a phase fires once, even when one hit crosses several thresholds', () => {
+    const def = boss([{ hpThreshold: 80, name: 'One' }, { hpThreshold: 60, name: 'Two' }]);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 5000, baseDamage: 500 });
+    const state = createPartyCombatState([knight], [createMonsterInstance(def, 4)], createRngState(3));
+
+    const first = processPartyTick(state);
+    expect(first.events.filter(e => e.type === 'phase_change').map(e => e.type === 'phase_change' && e.phase)).toEqual([1, 2]);
+    processPartyTick(state);
+    expect(processPartyTick(state).events.some(e => e.type === 'phase_change')).toBe(false);
+  });
+
+  it('phase immunity blocks damage until the boss\'s Nth turn', () => {
+    const def = boss([{ hpThreshold: 100, immuneTurns: 2 }]);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 5000, baseDamage: 10 });
+    const state = createPartyCombatState([knight], [createMonsterInstance(def, 4)], createRngState(3));
+
+    const first = processPartyTick(state); // Arthur hits, phase begins
+    expect(first.logEntries).toContain('Boss enters phase 1 and becomes immune for 2 turns!');
+    const hpAfterPhase = state.monsters[0].currentHp;
+    processPartyTick(state); // boss turn 1
+    const blocked = processPartyTick(state);
+    expect(blocked.events).toContainEqual(expect.objectContaining({ type: 'immune', target: expect.objectContaining({ name: 'Boss' }) }));
+    expect(state.monsters[0].currentHp).toBe(hpAfterPhase);
+    processPartyTick(state); // boss turn 2 — immunity ends
+    processPartyTick(state);
+    expect(state.monsters[0].currentHp).toBeLessThan(hpAfterPhase);
+  });
+
+  it('enrages after the phase has lasted its round count', () => {
+    const def = boss([{ hpThreshold: 100, enrageAfterRounds: 2, enrageDamageMultiplier: 2 }]);
+    const knight = makePlayer('Arthur', 1, { className: 'Knight', hp: 5000, baseDamage: 1 });
+    const state = createPartyCombatState([knight], [createMonsterInstance(def, 4)], createRngState(3));
+
+    const bossHits: number[] = [];
+    let enragedAtRound = 0;
+    for (let i = 0; i < 10; i++) {
+      const tick = processPartyTick(state);
+      if (tick.events.some(e => e.type === 'enrage')) enragedAtRound = state.roundCount;
+      for (const e of tick.events) {
+        if (e.type === 'damage' && e.target.name === 'Arthur') bossHits.push(e.amount);
+      }
+    }
+    expect(enragedAtRound).toBe(3);
+    expect(state.monsters[0].enrageMultiplier).toBe(2);
+    expect(bossHits[0]).toBe(10);
+    expect(bossHits[bossHits.length - 1]).toBe(20);
+  });
+
+  it('skips summons of unknown monsters and stops when the grid is full', () => {
+    const def = boss([{ hpThreshold: 100, summons: [{ monsterId: 'missing', count: 1 }, { monsterId: 'goblin', count: 12 }] }]);
+    const state = createPartyCombatState(
+      [makePlayer('Arthur', 1, { className: 'Knight', hp: 5000, baseDamage: 1 })],
+      [createMonsterInstance(def, 4)], createRngState(3),
+    );
+    processPartyTick(state);
+    expect(state.monsters).toHaveLength(9);
+    expect(new Set(state.monsters.map(m => m.gridPosition)).size).toBe(9);
+  });
+
+  it('validateBossPhases accepts the seed boss and flags bad phases', () => {
+    expect(validateBossPhases(SEED_MONSTERS.crystal_golem.phases)).toEqual([]);
+    expect(validateBossPhases([
+      { hpThreshold: 50 },
+      { hpThreshold: 70, summons: [{ monsterId: 'goblin', count: 0 }], enrageAfterRounds: 0 },
+    ])).toHaveLength(3);
+  });
+});
+
+// ── Monster targeting ────────────────────────────────────────
+
+describe('Monster targeting', () => {
+  const brute = (skillId?: string): MonsterDefinition => ({
+    id: 'brute', name: 'Brute', hp: 100000, damage: 1, damageType: 'physical', xp: 0, goldMin: 0, goldMax: 0,
+    skills: skillId ? [{ skillId, value: 100, cooldown: 1 }] : undefined,
+  });
+  // Knight front (col 2) and Priest back (col 0) on row 0; Archer shares the brute's row
+  const party = (knightSkills?: (SkillDefinition | null)[]) => [
+    makePlayer('Arthur', 2, { className: 'Knight', hp: 5000, baseDamage: 1, equippedSkills: knightSkills }),
+    makePlayer('Pia', 0, { className: 'Priest', hp: 5000, baseDamage: 1 }),
+    makePlayer('Robin', 5, { className: 'Archer', hp: 5000, baseDamage: 30 }),
+  ];
+
+  function firstMonsterHit(skillId?: string, knightSkills?: (SkillDefinition | null)[]): { target: string | null; skillCast: boolean } {
+    const state = createPartyCombatState(party(knightSkills), [createMonsterInstance(brute(skillId), 4)], createRngState(5));
+    let skillCast = false;
+    for (let i = 0; i < 8; i++) {
+      const tick = processPartyTick(state);
+      skillCast ||= tick.events.some(e => e.type === 'skill_cast' && e.source.side === 'monster');
+      const hit = tick.events.find(e => e.type === 'damage' && e.source?.side === 'monster');
+      if (hit?.type === 'damage') return { target: hit.target.name, skillCast };
+    }
+    return { target: null, skillCast };
+  }
+
+  it('uses the grid rule without targeting skills', () => {
+    expect(firstMonsterHit().target).toBe('Robin');
+  });
+
+  it('targeting skills pick by their rule and never take a turn', () => {
+    expect(firstMonsterHit('snipe')).toEqual({ target: 'Pia', skillCast: false });
+    expect(firstMonsterHit('hunt_healers').target).toBe('Pia');
+    expect(firstMonsterHit('hunt_the_strong').target).toBe('Robin');
+  });
+
+  it('prey on the weak picks the lowest current HP', () => {
+    const players = party();
+    players[0].currentHp = 100;
+    const state = createPartyCombatState(players, [createMonsterInstance(brute('prey_on_the_weak'), 4)], createRngState(5));
+    for (let i = 0; i < 3; i++) processPartyTick(state);
+    const monsterTurn = processPartyTick(state);
+    expect(monsterTurn.events).toContainEqual(expect.objectContaining({ type: 'damage', target: expect.objectContaining({ name: 'Arthur' }) }));
+  });
+
+  it('a taunting Knight draws the hit over targeting skills', () => {
+    const taunt: SkillDefinition = {
+      id: 'knight_taunt', name: 'Taunt', description: 'test', className: 'Knight', type: 'active',
+      unlockLevel: 1, sortOrder: 1, cooldown: 1,
+      activeEffects: [{ kind: 'apply_status', statusEffectId: 'taunt', statusTarget: 'self' }],
+    };
+    expect(firstMonsterHit('snipe', [taunt, null, null, null, null]).target).toBe('Arthur');
+  });
+});
+
+describe('Scripted triggers', () => {
+  const scripted = (effect: Partial<PassiveEffect>): SkillDefinition => ({
+    id: 'scripted', name: 'Scripted', description: 'test', className: 'Knight', type: 'passive',
+    unlockLevel: 1, sortOrder: 1,
+    passiveEffects: [{ kind: 'triggered_effect', ...effect }],
+  });
+  const dummy = (overrides: Partial<MonsterDefinition> = {}): MonsterDefinition => ({
+    id: 'dummy', name: 'Dummy', hp: 100000, damage: 0, damageType: 'physical', xp: 0, goldMin: 0, goldMax: 0,
+    ...overrides,
+  });
+
+  it('on_hit fires only when the subject matches its tag condition', () => {
+    const smite = scripted({ trigger: 'on_hit', tag: 'undead', action: 'damage', actionValue: 0.5 });
+    const skillHits = (tags?: string[]) => {
+      const state = createPartyCombatState(
+        [makePlayer('Arthur', 2, { className: 'Knight', baseDamage: 20, equippedSkills: [smite] })],
+        [createMonsterInstance(dummy({ tags }), 4)], createRngState(3));
+      return processPartyTick(state).events.filter(e => e.type === 'damage' && e.skillName === 'Scripted');
+    };
+    expect(skillHits(['undead'])).toHaveLength(1);
+    expect(skillHits(['beast'])).toHaveLength(0);
+    expect(skillHits()).toHaveLength(0);
+  });
+
+  it('on_kill heals the owner', () => {
+    const feast = scripted({ trigger: 'on_kill', action: 'heal', actionTarget: 'self', actionValue: 10 });
+    const knight = makePlayer('Arthur', 2, { className: 'Knight', level: 5, hp: 500, baseDamage: 50, equippedSkills: [feast] });
+    const state = createPartyCombatState([knight], [createMonsterInstance(dummy({ hp: 1 }), 4)], createRngState(3));
+    state.players[0].currentHp = 100;
+    const tick = processPartyTick(state);
+    expect(tick.events).toContainEqual(expect.objectContaining({ type: 'heal', skillName: 'Scripted', amount: 50 }));
+  });
+
+  it('ally_below_hp shields an ally once the threshold is crossed', () => {
+    const guardian = scripted({ trigger: 'ally_below_hp', hpThreshold: 0.5, action: 'shield', actionValue: 5 });
+    const players = [
+      makePlayer('Arthur', 2, { className: 'Knight', hp: 100, baseDamage: 1 }),
+      makePlayer('Pia', 0, { className: 'Priest', level: 4, hp: 100, baseDamage: 1, equippedSkills: [guardian] }),
+    ];
+    const state = createPartyCombatState(players, [createMonsterInstance(dummy({ damage: 60 }), 5)], createRngState(3));
+    const events = [0, 1, 2].flatMap(() => processPartyTick(state).events);
+    expect(events).toContainEqual(expect.objectContaining({
+      type: 'buff_applied', status: 'shield', skillName: 'Scripted', amount: 20,
+      target: expect.objectContaining({ name: 'Arthur' }),
+    }));
+    expect(state.players[0].damageShield).toBe(20);
+  });
+
+  it('round_start fires once per round and a chance of 0 never fires', () => {
+    const rally = scripted({ trigger: 'round_start', action: 'apply_status', actionTarget: 'self', statusEffectId: 'war_song' });
+    const never = scripted({ trigger: 'round_start', chance: 0, action: 'modify_cooldown', actionTarget: 'self', actionValue: 1 });
+    const state = createPartyCombatState(
+      [makePlayer('Arthur', 2, { className: 'Knight', baseDamage: 1, equippedSkills: [rally, never] })],
+      [createMonsterInstance(dummy(), 4)], createRngState(3));
+    const events = [0, 1, 2, 3].flatMap(() => processPartyTick(state).events);
+    expect(events.filter(e => e.type === 'buff_applied' && e.status === 'war_song')).toHaveLength(2);
+    expect(state.players[0].attackCount).toBe(2);
   });
 });
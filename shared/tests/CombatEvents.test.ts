@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { createPartyCombatState, processPartyTick } from '../src/systems/CombatEngine';
+import type { PartyCombatant } from '../src/systems/CombatEngine';
+import { renderCombatEvent, renderCombatLog } from '../src/systems/CombatEvents';
+import type { CombatEvent, DamageEvent } from '../src/systems/CombatEvents';
+import { createMonsterInstance, SEED_MONSTERS } from '../src/systems/MonsterTypes';
+import type { MonsterDefinition } from '../src/systems/MonsterTypes';
+import { createEncounter, SEED_ENCOUNTERS } from '../src/systems/EncounterTypes';
+import { SEED_ZONES } from '../src/systems/ZoneTypes';
+import type { PartyGridPosition } from '../src/systems/SocialTypes';
+import { SEED_SKILLS } from '../src/systems/SkillTypes';
+import { createRngState, rngFn } from '../src/systems/Rng';
+
+function makePlayer(
+  username: string,
+  pos: PartyGridPosition,
+  overrides?: Partial<PartyCombatant>,
+): PartyCombatant {
+  return {
+    username,
+    maxHp: 100,
+    currentHp: 100,
+    baseDamage: 10,
+    playerDamageType: 'physical',
+    gridPosition: pos,
+    className: 'Archer',
+    level: 10,
+    equippedSkills: [null, null, null, null, null],
+    attackCount: 0,
+    stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
+    dots: [],
+    hots: [],
+    damageShield: 0,
+    statuses: [],
+    consecutiveHits: 0,
+    lastTargetId: '',
+    hasResurrected: false,
+    martyrBonus: 0,
+    braceActive: false,
+    braceDamageTaken: 0,
+    interceptActive: false,
+    activeSkillCount: 0,
+    ...overrides,
+  };
+}
+
+const DUMMY: MonsterDefinition = {
+  id: 'dummy', name: 'Dummy', hp: 1000, damage: 20, damageType: 'physical', xp: 1, goldMin: 0, goldMax: 0,
+};
+
+function ofType<T extends CombatEvent['type']>(events: CombatEvent[], type: T): Extract<CombatEvent, { type: T }>[] {
+  return events.filter((e): e is Extract<CombatEvent, { type: T }> => e.type === type);
+}
+
+describe('CombatEvents — emitted by processPartyTick', () => {
+  it('reports an auto-attack as a damage event with refs, type and resistance', () => {
+    const monster = createMonsterInstance({ ...DUMMY, resistances: [{ damageType: 'physical', flatReduction: 0, percentReduction: 50 }] }, 4);
+    const state = createPartyCombatState([makePlayer('Alice', 1)], [monster], createRngState(1));
+    const r = processPartyTick(state);
+
+    const [hit] = ofType(r.events, 'damage');
+    expect(hit.source).toEqual({ side: 'player', pos: 1, name: 'Alice' });
+    expect(hit.target).toEqual({ side: 'monster', pos: 4, name: 'Dummy' });
+    expect(hit.cause).toBe('attack');
+    expect(hit.damageType).toBe('physical');
+    expect(hit.mitigation.resisted).toBeGreaterThan(0);
+    expect(state.monsters[0].currentHp).toBe(1000 - hit.amount);
+    expect(r.logEntries).toEqual([`Alice hits Dummy for ${hit.amount} physical damage`]);
+    expect(state.lastEvents).toBe(r.events);
+  });
+
+  it('breaks a monster hit down into shield absorb and damage', () => {
+    const state = createPartyCombatState([makePlayer('Alice', 2)], [createMonsterInstance(DUMMY, 0)], createRngState(2));
+    state.players[0].damageShield = 5;
+    processPartyTick(state); // Alice
+    const r = processPartyTick(state); // Dummy
+
+    const [absorb] = ofType(r.events, 'shield_absorb');
+    const [hit] = ofType(r.events, 'damage');
+    expect(absorb.amount).toBe(5);
+    expect(hit.mitigation.absorbed).toBe(5);
+    expect(hit.source.side).toBe('monster');
+    expect(hit.amount).toBe(15);
+    expect(state.players[0].currentHp).toBe(85);
+    expect(r.logEntries).toEqual(["Alice's shield absorbs 5 damage", 'Dummy hits Alice for 15 physical damage']);
+  });
+
+  it('credits grouped DoT ticks to each applier and flags DoT kills', () => {
+    const state = createPartyCombatState(
+      [makePlayer('Alice', 1), makePlayer('Bob', 0)],
+      [createMonsterInstance({ ...DUMMY, hp: 10 }, 4)],
+      createRngState(3),
+    );
+    state.monsters[0].dots.push(
+      { sourceUsername: 'Alice', name: 'bleed', damagePerTick: 3, ticksRemaining: 2, damageType: 'physical' },
+      { sourceUsername: 'Bob', name: 'bleed', damagePerTick: 9, ticksRemaining: 2, damageType: 'physical' },
+    );
+    state.turnIndex = 2; // Dummy's turn
+
+    const r = processPartyTick(state);
+    const [tick] = ofType(r.events, 'dot_tick');
+    expect(tick).toMatchObject({ effectName: 'bleed', stacks: 2, amount: 12, rawBySource: { Alice: 3, Bob: 9 } });
+    expect(ofType(r.events, 'kill')).toEqual([{ type: 'kill', source: null, target: { side: 'monster', pos: 4, name: 'Dummy' }, byDot: true }]);
+    expect(r.logEntries).toEqual(['Dummy receives 12 physical damage from bleed (x2)!', 'Dummy defeated! (DoT)']);
+  });
+
+  it('leads an active skill with a skill_cast event', () => {
+    const bash = SEED_SKILLS.knight_bash;
+    const player = makePlayer('Arthur', 2, { className: 'Knight', equippedSkills: [bash, null, null, null, null] });
+    const state = createPartyCombatState([player], [createMonsterInstance(DUMMY, 0)], createRngState(4));
+    state.players[0].attackCount = (bash.cooldown ?? 1) - 1;
+    const r = processPartyTick(state);
+
+    expect(r.events[0]).toMatchObject({ type: 'skill_cast', skillName: bash.name, area: false });
+    expect(ofType(r.events, 'damage')[0]).toMatchObject({ cause: 'skill', skillName: bash.name });
+  });
+
+  it('renders the same log a full seeded battle produces', () => {
+    const rng = createRngState(2024);
+    const monsters = createEncounter('darkwood', SEED_MONSTERS, SEED_ZONES, SEED_ENCOUNTERS, undefined, rngFn(rng));
+    const state = createPartyCombatState([
+      makePlayer('Alice', 2, { className: 'Knight', equippedSkills: [SEED_SKILLS.knight_bash, null, null, null, null] }),
+      makePlayer('Bob', 0, { className: 'Priest', equippedSkills: [SEED_SKILLS.priest_minor_heal, null, null, null, null] }),
+    ], monsters, rng);
+    let sawDamage = false;
+    for (let i = 0; i < 500 && !state.finished; i++) {
+      const r = processPartyTick(state);
+      expect(r.logEntries).toEqual(renderCombatLog(r.events));
+      sawDamage ||= r.events.some(e => e.type === 'damage');
+    }
+    expect(sawDamage).toBe(true);
+  });
+});
+
+describe('CombatEvents — rendering', () => {
+  const alice = { side: 'player', pos: 0, name: 'Alice' } as const;
+  const goblin = { side: 'monster', pos: 4, name: 'Goblin' } as const;
+  const hit: DamageEvent = {
+    type: 'damage', source: alice, target: goblin, cause: 'skill', skillName: 'Zap',
+    amount: 12, damageType: 'arcane', bonus: [{ damageType: 'holy', amount: 2 }], crit: true,
+    mitigation: { resisted: 0, setResisted: 0, reduced: 0, absorbed: 0 },
+  };
+
+  it('words damage by cause and side', () => {
+    expect(renderCombatEvent(hit)).toBe('Alice uses Zap on Goblin for 10 arcane + 2 holy damage');
+    expect(renderCombatEvent({ ...hit, source: goblin, target: alice, bonus: undefined, skillName: 'Assassinate' }))
+      .toBe("Goblin's Assassinate hits Alice for 12 arcane damage");
+    expect(renderCombatEvent({ ...hit, cause: 'overflow', damageType: null })).toBe('Overflow! 12 damage splashes to Goblin');
+  });
+
+  it('renders nothing for expiries and player skill casts', () => {
+    expect(renderCombatEvent({ type: 'debuff_expired', target: goblin, status: 'lullaby' })).toBeNull();
+    expect(renderCombatEvent({ type: 'skill_cast', source: alice, skillName: 'Zap', area: false })).toBeNull();
+    expect(renderCombatEvent({ type: 'skill_cast', source: goblin, skillName: 'Fireball', area: true })).toBe('Goblin casts Fireball!');
+  });
+});
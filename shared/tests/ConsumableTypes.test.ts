@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getConsumableEffect,
+  getConsumableEffectText,
+  activateConsumable,
+  getActiveBoost,
+  applyConsumableStatus,
+  pickConsumableTarget,
+  applyConsumableInCombat,
+  getAutoUseTarget,
+  validateConsumableEffect,
+  validateAutoUseRule,
+} from '../src/systems/ConsumableTypes';
+import type { ConsumableEffect } from '../src/systems/ConsumableTypes';
+import { createPartyCombatState, getEffectiveCooldown } from '../src/systems/CombatEngine';
+import { scaleByStatuses } from '../src/systems/StatusEffectTypes';
+import type { PartyCombatant, PartyCombatState } from '../src/systems/CombatEngine';
+import { createMonsterInstance, SEED_MONSTERS } from '../src/systems/MonsterTypes';
+import { SEED_ITEMS } from '../src/systems/ItemTypes';
+import type { ItemDefinition } from '../src/systems/ItemTypes';
+import type { SkillDefinition } from '../src/systems/SkillTypes';
+import type { PartyGridPosition } from '../src/systems/SocialTypes';
+
+const potion = SEED_ITEMS.lesser_red_potion;
+const antidote = SEED_ITEMS.antidote;
+const might = SEED_ITEMS.elixir_of_might;
+const goldElixir = SEED_ITEMS.gold_elixir;
+
+function makePlayer(username: string, pos: PartyGridPosition, overrides?: Partial<PartyCombatant>): PartyCombatant {
+  return {
+    username,
+    maxHp: 100,
+    currentHp: 100,
+    baseDamage: 10,
+    playerDamageType: 'physical',
+    gridPosition: pos,
+    className: 'Knight',
+    level: 1,
+    equippedSkills: [null, null, null, null, null],
+    attackCount: 0,
+    stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
+    dots: [],
+    hots: [],
+    damageShield: 0,
+    statuses: [],
+    consecutiveHits: 0,
+    lastTargetId: '',
+    hasResurrected: false,
+    martyrBonus: 0,
+    braceActive: false,
+    braceDamageTaken: 0,
+    interceptActive: false,
+    activeSkillCount: 0,
+    ...overrides,
+  };
+}
+
+function makeState(players: PartyCombatant[]): PartyCombatState {
+  return createPartyCombatState(players, [createMonsterInstance(SEED_MONSTERS.goblin, 4)]);
+}
+
+function player(state: PartyCombatState, username: string): PartyCombatant {
+  return state.players.find(p => p.username === username)!;
+}
+
+const strike: SkillDefinition = {
+  id: 'strike', name: 'Strike', description: 'test', className: 'Knight', type: 'active',
+  unlockLevel: 1, sortOrder: 1, cooldown: 4, activeEffects: [{ kind: 'damage', action: 'damage', value: 10 } as never],
+};
+
+// ── Timed effects ────────────────────────────────────────────
+
+describe('activateConsumable / getActiveBoost', () => {
+  it('restarts the same item and keeps the strongest booster without stacking', () => {
+    let active = activateConsumable([], goldElixir, getConsumableEffect(goldElixir)!, 0);
+    active = activateConsumable(active, goldElixir, getConsumableEffect(goldElixir)!, 1000);
+    expect(active).toHaveLength(1);
+    expect(active[0].expiresAt).toBe(1000 + 1800 * 1000);
+
+    const bigger: ItemDefinition = { ...goldElixir, id: 'big_gold', consumableEffect: { kind: 'booster', boost: 'gold', amount: 1, durationSeconds: 60 } };
+    active = activateConsumable(active, bigger, bigger.consumableEffect!, 1000);
+    expect(getActiveBoost(active, 'gold', 2000)).toBe(1);
+    expect(getActiveBoost(active, 'gold', 1000 + 61 * 1000)).toBe(0.5);
+    expect(getActiveBoost(active, 'xp', 2000)).toBe(0);
+  });
+
+  it('turns a running buff into a rest-of-fight status', () => {
+    const [entry] = activateConsumable([], might, getConsumableEffect(might)!, 0);
+    const knight = makePlayer('Arthur', 1);
+    applyConsumableStatus(knight, entry);
+    applyConsumableStatus(knight, entry);
+    expect(knight.statuses).toHaveLength(1);
+    expect(knight.statuses[0]).toMatchObject({ effectId: 'consumable:elixir_of_might', duration: -1, modifiers: { damageDealt: 0.15 } });
+    expect(scaleByStatuses(100, knight.statuses, 'damageDealt')).toBeGreaterThan(100);
+  });
+});
+
+// ── In-combat effects ────────────────────────────────────────
+
+describe('pickConsumableTarget / applyConsumableInCombat', () => {
+  it('heals the most wounded living member', () => {
+    const state = makeState([makePlayer('Arthur', 1), makePlayer('Bors', 0)]);
+    player(state, 'Arthur').currentHp = 80;
+    player(state, 'Bors').currentHp = 20;
+    const effect = getConsumableEffect(potion)!;
+
+    const target = pickConsumableTarget(state, 'Arthur', effect)!;
+    expect(target.username).toBe('Bors');
+    expect(applyConsumableInCombat(state, 'Arthur', target, potion, effect)).toBe('Arthur uses Lesser Red Potion: Bors +30 HP.');
+    expect(player(state, 'Bors').currentHp).toBe(50);
+  });
+
+  it('does nothing when nobody needs it or the drinker is down', () => {
+    const state = makeState([makePlayer('Arthur', 1), makePlayer('Bors', 0)]);
+    expect(pickConsumableTarget(state, 'Arthur', getConsumableEffect(potion)!)).toBeNull();
+    expect(pickConsumableTarget(state, 'Arthur', getConsumableEffect(antidote)!)).toBeNull();
+    player(state, 'Arthur').currentHp = 0;
+    player(state, 'Bors').currentHp = 10;
+    expect(pickConsumableTarget(state, 'Arthur', getConsumableEffect(potion)!)).toBeNull();
+  });
+
+  it('cures dispellable debuffs and damage over time', () => {
+    const state = makeState([makePlayer('Arthur', 1), makePlayer('Bors', 0)]);
+    const bors = player(state, 'Bors');
+    bors.dots = [{ name: 'Bleed', damagePerTick: 3, ticksRemaining: 2, sourceUsername: 'goblin', damageType: 'physical' }];
+    const effect = getConsumableEffect(antidote)!;
+
+    const target = pickConsumableTarget(state, 'Arthur', effect)!;
+    expect(target.username).toBe('Bors');
+    expect(applyConsumableInCombat(state, 'Arthur', target, antidote, effect)).toBe('Arthur uses Antidote: cured Bleed on Bors.');
+    expect(bors.dots).toEqual([]);
+  });
+
+  it('readies the first active skill for the next turn', () => {
+    const state = makeState([makePlayer('Arthur', 1, { equippedSkills: [strike, null, null, null, null] })]);
+    const arthur = player(state, 'Arthur');
+    arthur.attackCount = 5;
+    const scroll = SEED_ITEMS.reset_scroll;
+
+    const target = pickConsumableTarget(state, 'Arthur', getConsumableEffect(scroll)!)!;
+    applyConsumableInCombat(state, 'Arthur', target, scroll, getConsumableEffect(scroll)!);
+    expect((arthur.attackCount + 1) % getEffectiveCooldown(arthur, strike, state.players)).toBe(0);
+  });
+});
+
+// ── Auto-use ─────────────────────────────────────────────────
+
+describe('getAutoUseTarget', () => {
+  const heal: ConsumableEffect = getConsumableEffect(potion)!;
+
+  it('fires HP rules only under the threshold', () => {
+    const state = makeState([makePlayer('Arthur', 1), makePlayer('Bors', 0)]);
+    player(state, 'Bors').currentHp = 40;
+    expect(getAutoUseTarget({ itemId: potion.id, trigger: 'member_hp_below', hpPercent: 30 }, state, 'Arthur', heal)).toBeNull();
+    expect(getAutoUseTarget({ itemId: potion.id, trigger: 'member_hp_below', hpPercent: 50 }, state, 'Arthur', heal)?.username).toBe('Bors');
+    expect(getAutoUseTarget({ itemId: potion.id, trigger: 'self_hp_below', hpPercent: 50 }, state, 'Arthur', heal)).toBeNull();
+
+    player(state, 'Arthur').currentHp = 45;
+    expect(getAutoUseTarget({ itemId: potion.id, trigger: 'self_hp_below', hpPercent: 50 }, state, 'Arthur', heal)?.username).toBe('Arthur');
+  });
+});
+
+// ── Display & validation ─────────────────────────────────────
+
+describe('validation', () => {
+  it('accepts every seed consumable and describes it', () => {
+    for (const def of Object.values(SEED_ITEMS)) expect(validateConsumableEffect(def)).toEqual([]);
+    expect(getConsumableEffectText(getConsumableEffect(might)!)).toBe('+15% damage dealt for 10 min');
+    expect(getConsumableEffectText(getConsumableEffect(goldElixir)!)).toBe('+50% Gold for 30 min');
+  });
+
+  it('reports bad effects', () => {
+    const bad: ItemDefinition = {
+      id: 'bad', name: 'Bad', rarity: 'common', equipSlot: 'head',
+      consumableEffect: { kind: 'booster', amount: 0 },
+    };
+    // not consumable, equip slot, booster stat, amount, duration
+    expect(validateConsumableEffect(bad)).toHaveLength(5);
+  });
+
+  it('checks auto-use rules against the effect', () => {
+    expect(validateAutoUseRule({ itemId: potion.id, trigger: 'member_hp_below', hpPercent: 30 }, potion)).toBeNull();
+    expect(validateAutoUseRule({ itemId: potion.id, trigger: 'keep_active' }, potion)).toBe("Lesser Red Potion can't be auto-used that way.");
+    expect(validateAutoUseRule({ itemId: potion.id, trigger: 'self_hp_below', hpPercent: 100 }, potion)).toBe('HP threshold must be 1-99%.');
+    expect(validateAutoUseRule({ itemId: might.id, trigger: 'keep_active' }, might)).toBeNull();
+  });
+});
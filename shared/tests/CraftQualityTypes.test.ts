@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCraftQualityOdds,
+  rollCraftQuality,
+  applyCraftQuality,
+  MAX_FINE_CHANCE,
+  MAX_MASTERWORK_CHANCE,
+} from '../src/systems/CraftQualityTypes';
+import { resolveItemInstance } from '../src/systems/AffixTypes';
+import type { ItemDefinition } from '../src/systems/ItemTypes';
+
+const SWORD: ItemDefinition = {
+  id: 'sword', name: 'Sword', rarity: 'common', equipSlot: 'mainhand',
+  bonusAttackMin: 2, bonusAttackMax: 10, value: 20,
+};
+
+describe('getCraftQualityOdds', () => {
+  it('improves with the gap above the recipe level and caps', () => {
+    expect(getCraftQualityOdds(3, 3)).toEqual({ normal: 90, fine: 10, masterwork: 0 });
+    expect(getCraftQualityOdds(2, 3)).toEqual({ normal: 90, fine: 10, masterwork: 0 });
+    expect(getCraftQualityOdds(5, 3)).toEqual({ normal: 78, fine: 18, masterwork: 4 });
+    expect(getCraftQualityOdds(100, 1)).toEqual({
+      normal: 100 - MAX_FINE_CHANCE - MAX_MASTERWORK_CHANCE, fine: MAX_FINE_CHANCE, masterwork: MAX_MASTERWORK_CHANCE,
+    });
+  });
+});
+
+describe('rollCraftQuality', () => {
+  it('picks masterwork, then fine, then normal along the roll', () => {
+    const odds = { normal: 70, fine: 20, masterwork: 10 };
+    expect(rollCraftQuality(odds, () => 0.05)).toBe('masterwork');
+    expect(rollCraftQuality(odds, () => 0.25)).toBe('fine');
+    expect(rollCraftQuality(odds, () => 0.5)).toBe('normal');
+  });
+});
+
+describe('applyCraftQuality', () => {
+  it('scales attack and value, renames, and leaves normal alone', () => {
+    expect(applyCraftQuality(SWORD, 'normal')).toBe(SWORD);
+    expect(applyCraftQuality(SWORD, 'masterwork')).toMatchObject({
+      name: 'Masterwork Sword', quality: 'masterwork', bonusAttackMin: 3, bonusAttackMax: 13, value: 26,
+    });
+  });
+
+  it('applies through resolveItemInstance', () => {
+    const def = resolveItemInstance({ id: 'sword#abc', itemId: 'sword', affixes: [], quality: 'fine' }, { sword: SWORD });
+    expect(def).toMatchObject({ id: 'sword#abc', name: 'Fine Sword', bonusAttackMin: 3, bonusAttackMax: 12 });
+  });
+});
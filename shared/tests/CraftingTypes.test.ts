@@ -7,6 +7,7 @@ import {
   getActiveJobProgress,
   canQueueRecipe,
   getVisibleRecipes,
+  getLearnRecipeError,
   MAX_CRAFT_QUEUE,
   CRAFTING_UNLOCK_LEVEL,
   type RecipeDefinition,
@@ -60,6 +61,13 @@ describe('CraftingTypes — canQueueRecipe', () => {
     expect(res).toEqual({ ok: false, reason: 'queue_full' });
   });
 
+  it('rejects when craft level is below the recipe\'s', () => {
+    const gated = { ...recipe, requiredCraftLevel: 3 };
+    expect(canQueueRecipe(gated, { pelt: 5 }, emptyCraftQueue(), 'Knight', CRAFTING_UNLOCK_LEVEL, 2))
+      .toEqual({ ok: false, reason: 'craft_level_too_low' });
+    expect(canQueueRecipe(gated, { pelt: 5 }, emptyCraftQueue(), 'Knight', CRAFTING_UNLOCK_LEVEL, 3)).toEqual({ ok: true });
+  });
+
   it('accepts a valid request', () => {
     const res = canQueueRecipe(recipe, { pelt: 2 }, emptyCraftQueue(), 'Knight', CRAFTING_UNLOCK_LEVEL);
     expect(res).toEqual({ ok: true });
@@ -203,6 +211,24 @@ describe('CraftingTypes — processCompletions', () => {
     expect(q.jobs.length).toBe(0);
   });
 
+  it('rolls quality per gear unit — better units become instances', () => {
+    const inv: Record<string, number> = { pelt: 2 };
+    const q = emptyCraftQueue();
+    const items = { cloak: { id: 'cloak', name: 'Cloak', rarity: 'common' as const, equipSlot: 'chest' as const } };
+    const twoCloaks = { ...recipe, result: { itemId: 'cloak', quantity: 2 } };
+    enqueueRecipe(twoCloaks, inv, q, 'Knight', CRAFTING_UNLOCK_LEVEL, 1000);
+    // Craft level 5 on a level-1 recipe: 8% masterwork. Unit 1 rolls 1 (masterwork, then 8 id
+    // characters), unit 2 rolls 99 (normal).
+    const rolls = [0.01, 0, 0, 0, 0, 0, 0, 0, 0, 0.99];
+    const rng = () => rolls.shift() ?? 0.99;
+    const [event] = processCompletions({ r1: twoCloaks }, inv, q, 12_000, { craftLevel: 5, items, rng });
+    expect(event.quantityProduced).toBe(2);
+    expect(event.instances).toHaveLength(1);
+    expect(event.instances![0]).toMatchObject({ itemId: 'cloak', quality: 'masterwork', affixes: [] });
+    expect(inv[event.instances![0].id]).toBe(1);
+    expect(inv.cloak).toBe(1);
+  });
+
   it('caps result at MAX_STACK and reports loss', () => {
     const inv: Record<string, number> = { pelt: 2, cloak: MAX_STACK };
     const q = emptyCraftQueue();
@@ -257,3 +283,21 @@ describe('CraftingTypes — getVisibleRecipes', () => {
     expect(visible.map(r => r.id).sort()).toEqual(['r1', 'r2']);
   });
 });
+
+describe('CraftingTypes — recipe discovery', () => {
+  const hidden: RecipeDefinition = { ...knightOnly, id: 'r4', name: 'Hidden', discoverable: true };
+  const withHidden = { ...recipes, r4: hidden };
+
+  it('hides discoverable recipes until they are known', () => {
+    expect(getVisibleRecipes(withHidden, 'Knight').map(r => r.id)).not.toContain('r4');
+    expect(getVisibleRecipes(withHidden, 'Knight', ['r4']).map(r => r.id)).toContain('r4');
+    expect(getVisibleRecipes(withHidden, 'Mage', ['r4']).map(r => r.id)).not.toContain('r4');
+  });
+
+  it('only lets eligible players learn a recipe they do not know', () => {
+    expect(getLearnRecipeError(hidden, 'Knight', [])).toBeNull();
+    expect(getLearnRecipeError(hidden, 'Knight', ['r4'])).toBe('You already know Hidden.');
+    expect(getLearnRecipeError(hidden, 'Mage', [])).toBe('Only Knight can learn Hidden.');
+    expect(getLearnRecipeError(recipe, 'Knight', [])).toBe('You already know R1.');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleMeter, recordMeterEvents, summarizeMeterSession } from '../src/systems/DamageMeter';
+import type { CombatEvent } from '../src/systems/CombatEvents';
+import { NO_MITIGATION } from '../src/systems/CombatEvents';
+import { createPartyCombatState, processPartyTick } from '../src/systems/CombatEngine';
+import type { PartyCombatant } from '../src/systems/CombatEngine';
+import { createMonsterInstance } from '../src/systems/MonsterTypes';
+import type { MonsterDefinition } from '../src/systems/MonsterTypes';
+import type { PartyGridPosition } from '../src/systems/SocialTypes';
+import { createRngState } from '../src/systems/Rng';
+
+function makePlayer(
+  username: string,
+  pos: PartyGridPosition,
+  overrides?: Partial<PartyCombatant>,
+): PartyCombatant {
+  return {
+    username,
+    maxHp: 100,
+    currentHp: 100,
+    baseDamage: 10,
+    playerDamageType: 'physical',
+    gridPosition: pos,
+    className: 'Archer',
+    level: 10,
+    equippedSkills: [null, null, null, null, null],
+    attackCount: 0,
+    stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
+    dots: [],
+    hots: [],
+    damageShield: 0,
+    statuses: [],
+    consecutiveHits: 0,
+    lastTargetId: '',
+    hasResurrected: false,
+    martyrBonus: 0,
+    braceActive: false,
+    braceDamageTaken: 0,
+    interceptActive: false,
+    activeSkillCount: 0,
+    ...overrides,
+  };
+}
+
+const alice = { side: 'player', pos: 0, name: 'Alice' } as const;
+const bob = { side: 'player', pos: 1, name: 'Bob' } as const;
+const goblin = { side: 'monster', pos: 4, name: 'Goblin' } as const;
+
+const PARTY = [{ username: 'Alice', className: 'Mage' }, { username: 'Bob', className: 'Priest' }];
+
+describe('DamageMeter — recordMeterEvents', () => {
+  it('attributes damage dealt by source and damage taken', () => {
+    const meter = createBattleMeter(PARTY);
+    recordMeterEvents(meter, [
+      { type: 'damage', source: alice, target: goblin, cause: 'attack', amount: 10, damageType: 'arcane', crit: false, mitigation: NO_MITIGATION },
+      { type: 'damage', source: alice, target: goblin, cause: 'skill', skillName: 'Fireball', amount: 25, damageType: 'arcane', crit: true, mitigation: NO_MITIGATION },
+      { type: 'damage', source: alice, target: goblin, cause: 'overflow', amount: 4, damageType: null, crit: false, mitigation: NO_MITIGATION },
+      { type: 'damage', source: goblin, target: bob, cause: 'attack', amount: 7, damageType: 'physical', crit: false, mitigation: NO_MITIGATION },
+    ]);
+
+    const [a, b] = meter.members;
+    expect(a.damageDealt).toBe(39);
+    expect(a.damageBySource).toEqual({ Attack: 10, Fireball: 25, Overflow: 4 });
+    expect(b.damageTaken).toBe(7);
+    expect(b.damageDealt).toBe(0);
+    expect(meter.ticks).toBe(1);
+  });
+
+  it('splits DoT ticks across appliers by their raw share', () => {
+    const meter = createBattleMeter(PARTY);
+    recordMeterEvents(meter, [{
+      type: 'dot_tick', target: goblin, effectName: 'Burn', stacks: 2, damageType: 'arcane',
+      amount: 8, rawBySource: { Alice: 6, Bob: 2 }, mitigation: NO_MITIGATION,
+    }]);
+    expect(meter.members[0].damageBySource).toEqual({ 'Burn (DoT)': 6 });
+    expect(meter.members[1].damageDealt).toBe(2);
+  });
+
+  it('tracks healing, overheal, shields and stuns for the caster', () => {
+    const meter = createBattleMeter(PARTY);
+    const events: CombatEvent[] = [
+      { type: 'heal', source: bob, target: alice, skillName: 'Mend', amount: 12, overheal: 3 },
+      {
+        type: 'hot_tick', target: alice, effectName: 'Renew', stacks: 1, amount: 5, overheal: 1,
+        bySource: { Bob: 5 }, overhealBySource: { Bob: 1 },
+      },
+      { type: 'shield_absorb', source: bob, target: alice, amount: 9 },
+      { type: 'shield_absorb', source: null, target: alice, amount: 4 },
+      { type: 'stun', source: alice, target: goblin, skillName: 'Freeze' },
+      { type: 'stun', source: goblin, target: bob },
+    ];
+    recordMeterEvents(meter, events);
+
+    const [a, b] = meter.members;
+    expect(b).toMatchObject({ healingDone: 17, overheal: 4, shieldAbsorbed: 9, stunsLanded: 0 });
+    expect(a.stunsLanded).toBe(1);
+  });
+
+  it('follows a live battle through processPartyTick', () => {
+    const dummy: MonsterDefinition = { id: 'dummy', name: 'Dummy', hp: 60, damage: 5, damageType: 'physical', xp: 1, goldMin: 0, goldMax: 0 };
+    const state = createPartyCombatState([makePlayer('Alice', 1)], [createMonsterInstance(dummy, 4)], createRngState(7));
+    const meter = createBattleMeter(state.players);
+    for (let i = 0; i < 200 && !state.finished; i++) recordMeterEvents(meter, processPartyTick(state).events);
+
+    expect(state.finished).toBe(true);
+    expect(meter.members[0].damageDealt).toBeGreaterThanOrEqual(60);
+    expect(meter.members[0].damageTaken).toBe(100 - state.players[0].currentHp);
+  });
+});
+
+describe('DamageMeter — summarizeMeterSession', () => {
+  it('sums battles per member and counts wins', () => {
+    const first = createBattleMeter(PARTY);
+    first.result = 'victory';
+    first.members[0].damageDealt = 10;
+    first.members[0].damageBySource = { Attack: 10 };
+    const second = createBattleMeter([{ username: 'Alice', className: 'Mage' }, { username: 'Cara', className: 'Knight' }]);
+    second.result = 'defeat';
+    second.members[0].damageDealt = 5;
+    second.members[0].damageBySource = { Attack: 3, Fireball: 2 };
+
+    const session = summarizeMeterSession([first, second]);
+    expect(session.battles).toBe(2);
+    expect(session.wins).toBe(1);
+    expect(session.members.map(m => m.username)).toEqual(['Alice', 'Bob', 'Cara']);
+    expect(session.members[0].damageBySource).toEqual({ Attack: 13, Fireball: 2 });
+    expect(session.members[0].damageDealt).toBe(15);
+  });
+
+  it('is empty with no history', () => {
+    expect(summarizeMeterSession([])).toEqual({ battles: 0, wins: 0, members: [] });
+  });
+});
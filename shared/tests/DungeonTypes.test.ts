@@ -5,9 +5,11 @@ import {
   validateDungeonEntry,
   rollDungeonRewards,
   rewardAppliesToClass,
+  placeFloorBoss,
 } from '../src/systems/DungeonTypes';
 import type { DungeonDefinition, DungeonEntryMemberInfo } from '../src/systems/DungeonTypes';
 import { SEED_ENCOUNTERS } from '../src/systems/EncounterTypes';
+import { SEED_MONSTERS, createMonsterInstance } from '../src/systems/MonsterTypes';
 import type { ClassName } from '../src/systems/CharacterStats';
 
 describe('DungeonTypes', () => {
@@ -190,4 +192,20 @@ describe('DungeonTypes', () => {
       expect(rollDungeonRewards(forKnight, () => 0).map(d => d.itemId)).toEqual(['blade', 'gem']);
     });
   });
+
+  describe('placeFloorBoss', () => {
+    const floor = SEED_DUNGEONS.crystal_caves_trial.floors[2];
+    const rolled = [createMonsterInstance(SEED_MONSTERS.goblin, 4), createMonsterInstance(SEED_MONSTERS.wolf, 1)];
+
+    it('puts the boss at its position, evicting a rolled monster there', () => {
+      const monsters = placeFloorBoss(floor, SEED_MONSTERS, rolled);
+      expect(monsters.map(m => [m.id, m.gridPosition])).toEqual([['wolf', 1], ['crystal_golem', 4]]);
+      expect(monsters[1].phases).toHaveLength(2);
+    });
+
+    it('leaves the encounter alone without a boss', () => {
+      expect(placeFloorBoss({ ...floor, isBoss: false }, SEED_MONSTERS, rolled)).toBe(rolled);
+      expect(placeFloorBoss({ ...floor, bossMonsterId: 'missing' }, SEED_MONSTERS, rolled)).toBe(rolled);
+    });
+  });
 });
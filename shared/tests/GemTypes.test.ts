@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  socketGem,
+  unsocketGem,
+  getFreeSockets,
+  validateItemSockets,
+  DEFAULT_GEM_REMOVAL_COST,
+} from '../src/systems/GemTypes';
+import type { GemOwner } from '../src/systems/GemTypes';
+import { withItemInstances } from '../src/systems/AffixTypes';
+import { computeEquipmentBonuses, SEED_ITEMS } from '../src/systems/ItemTypes';
+import type { ItemDefinition } from '../src/systems/ItemTypes';
+import { computeGrantedSkillIds } from '../src/systems/SetTypes';
+
+const SKILL_GEM: ItemDefinition = {
+  id: 'song_gem', name: 'Song Gem', rarity: 'rare', gem: true, grantedSkillIds: ['lullaby'],
+};
+const ITEMS: Record<string, ItemDefinition> = { ...SEED_ITEMS, song_gem: SKILL_GEM };
+
+function makeOwner(overrides: Partial<GemOwner> = {}): GemOwner {
+  return {
+    inventory: { iron_battleaxe: 2, rough_garnet: 2, ember_opal: 1, song_gem: 1 },
+    equipment: { mainhand: null, offhand: null },
+    itemInstances: {},
+    gold: 100,
+    ...overrides,
+  };
+}
+
+// ── Socketing ────────────────────────────────────────────────
+
+describe('socketGem', () => {
+  it('promotes one copy of a plain stackable into an instance holding the gem', () => {
+    const owner = makeOwner();
+    const result = socketGem(owner, 'iron_battleaxe', 'rough_garnet', ITEMS, false, () => 0);
+    expect(result).toEqual({ success: true, itemKey: 'iron_battleaxe#00000000' });
+    expect(owner.inventory).toMatchObject({ iron_battleaxe: 1, 'iron_battleaxe#00000000': 1, rough_garnet: 1 });
+    expect(owner.itemInstances['iron_battleaxe#00000000']).toEqual({
+      id: 'iron_battleaxe#00000000', itemId: 'iron_battleaxe', affixes: [], gems: ['rough_garnet'],
+    });
+  });
+
+  it('swaps an equipped 2H copy in place in both slots', () => {
+    const owner = makeOwner({ equipment: { mainhand: 'iron_battleaxe', offhand: 'iron_battleaxe' } });
+    const result = socketGem(owner, 'iron_battleaxe', 'rough_garnet', ITEMS, true, () => 0);
+    expect(result.success).toBe(true);
+    expect(owner.equipment).toEqual({ mainhand: 'iron_battleaxe#00000000', offhand: 'iron_battleaxe#00000000' });
+    expect(owner.inventory.iron_battleaxe).toBe(2);
+  });
+
+  it('fills an instance up to its socket count', () => {
+    const owner = makeOwner();
+    const first = socketGem(owner, 'iron_battleaxe', 'rough_garnet', ITEMS, false, () => 0);
+    const key = first.success ? first.itemKey : '';
+    expect(socketGem(owner, key, 'ember_opal', ITEMS, false).success).toBe(true);
+    expect(getFreeSockets(withItemInstances(ITEMS, owner.itemInstances)[key])).toBe(0);
+    expect(socketGem(owner, key, 'rough_garnet', ITEMS, false)).toEqual({
+      success: false, error: 'Iron Battleaxe has no free sockets.',
+    });
+    expect(owner.inventory.rough_garnet).toBe(1);
+  });
+
+  it('rejects non-gems, missing gems, unsocketed hosts and unheld items', () => {
+    const owner = makeOwner({ inventory: { iron_battleaxe: 1, leather_vest: 1, rough_garnet: 1, mangy_pelt: 1 } });
+    expect(socketGem(owner, 'iron_battleaxe', 'mangy_pelt', ITEMS, false).success).toBe(false);
+    expect(socketGem(owner, 'iron_battleaxe', 'ember_opal', ITEMS, false).success).toBe(false);
+    expect(socketGem(owner, 'leather_vest', 'rough_garnet', ITEMS, false).success).toBe(false);
+    expect(socketGem(owner, 'iron_battleaxe', 'rough_garnet', ITEMS, true).success).toBe(false);
+    expect(owner.inventory).toEqual({ iron_battleaxe: 1, leather_vest: 1, rough_garnet: 1, mangy_pelt: 1 });
+  });
+});
+
+// ── Bonuses and grants ───────────────────────────────────────
+
+describe('socketed gems on equipped gear', () => {
+  const owner = makeOwner({ equipment: { mainhand: 'iron_battleaxe', offhand: 'iron_battleaxe' } });
+  socketGem(owner, 'iron_battleaxe', 'ember_opal', ITEMS, true, () => 0);
+  socketGem(owner, 'iron_battleaxe#00000000', 'song_gem', ITEMS, true);
+  const items = withItemInstances(ITEMS, owner.itemInstances);
+
+  it('stack gem stats into the equipment bonuses once for a 2H host', () => {
+    const bonuses = computeEquipmentBonuses(owner.equipment, items);
+    expect(bonuses.bonusAttackMin).toBe(SEED_ITEMS.iron_battleaxe.bonusAttackMin);
+    expect(bonuses.resistances).toEqual([{ damageType: 'fire', flatReduction: 0, percentReduction: 10 }]);
+  });
+
+  it('grant the gem skills', () => {
+    expect(computeGrantedSkillIds(owner.equipment, items, {})).toEqual(['lullaby']);
+  });
+});
+
+// ── Unsocketing ──────────────────────────────────────────────
+
+describe('unsocketGem', () => {
+  function socketed(gold: number): { owner: GemOwner; key: string } {
+    const owner = makeOwner({ gold });
+    socketGem(owner, 'iron_battleaxe', 'rough_garnet', ITEMS, false, () => 0);
+    socketGem(owner, 'iron_battleaxe#00000000', 'ember_opal', ITEMS, false);
+    return { owner, key: 'iron_battleaxe#00000000' };
+  }
+
+  it('returns the gem for its removal fee', () => {
+    const { owner, key } = socketed(100);
+    expect(unsocketGem(owner, key, 1, ITEMS, false)).toEqual({ success: true, gemId: 'ember_opal', cost: 50 });
+    expect(owner.gold).toBe(50);
+    expect(owner.inventory.ember_opal).toBe(1);
+    expect(owner.itemInstances[key].gems).toEqual(['rough_garnet']);
+
+    expect(unsocketGem(owner, key, 0, ITEMS, false)).toEqual({ success: true, gemId: 'rough_garnet', cost: DEFAULT_GEM_REMOVAL_COST });
+    expect(owner.itemInstances[key].gems).toBeUndefined();
+  });
+
+  it('refuses without the gold, and destroying is free', () => {
+    const { owner, key } = socketed(10);
+    expect(unsocketGem(owner, key, 1, ITEMS, false)).toEqual({ success: false, error: 'Removing this gem costs 50 gold.' });
+    expect(unsocketGem(owner, key, 1, ITEMS, true)).toEqual({ success: true, gemId: 'ember_opal', cost: 0 });
+    expect(owner.gold).toBe(10);
+    expect(owner.inventory.ember_opal).toBeUndefined();
+    expect(unsocketGem(owner, key, 5, ITEMS, true).success).toBe(false);
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────
+
+describe('validateItemSockets', () => {
+  it('accepts every seed item', () => {
+    for (const def of Object.values(SEED_ITEMS)) expect(validateItemSockets(def)).toEqual([]);
+  });
+
+  it('reports bad socket and gem fields', () => {
+    expect(validateItemSockets({ id: 'a', name: 'A', rarity: 'common', sockets: 1 })).toHaveLength(1);
+    expect(validateItemSockets({ id: 'b', name: 'B', rarity: 'common', equipSlot: 'head', sockets: 1.5 })).toHaveLength(1);
+    expect(validateItemSockets({ id: 'c', name: 'C', rarity: 'common', equipSlot: 'ring', gem: true })).toHaveLength(1);
+    expect(validateItemSockets({ id: 'd', name: 'D', rarity: 'common', gemRemovalCost: 5 })).toHaveLength(1);
+  });
+});
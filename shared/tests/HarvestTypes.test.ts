@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getHarvestBlockedReason,
+  isHarvestNodeReady,
+  pruneHarvestTimers,
+  validateHarvestNodes,
+} from '../src/systems/HarvestTypes';
+import type { HarvestNode } from '../src/systems/HarvestTypes';
+
+function node(overrides: Partial<HarvestNode> = {}): HarvestNode {
+  return { id: 'seam', kind: 'ore', name: 'Crystal Seam', respawnSeconds: 60, drops: [{ itemId: 'scrap_metal', chance: 0.5 }], ...overrides };
+}
+
+describe('harvest gating', () => {
+  it('needs crafting unlocked and the node craft level', () => {
+    expect(getHarvestBlockedReason(node(), false, 5, 'Smithing')).toBe('Unlocks with crafting.');
+    expect(getHarvestBlockedReason(node({ requiredCraftLevel: 3 }), true, 2, 'Smithing')).toBe('Requires Smithing 3.');
+    expect(getHarvestBlockedReason(node({ requiredCraftLevel: 3 }), true, 3, 'Smithing')).toBeNull();
+    expect(getHarvestBlockedReason(node(), true, 1, 'Smithing')).toBeNull();
+  });
+
+  it('treats a node as ready once its timer runs out, and prunes spent timers', () => {
+    const timers = { 'a:seam': 1000, 'b:seam': 5000 };
+    expect(isHarvestNodeReady(timers, 'a:seam', 999)).toBe(false);
+    expect(isHarvestNodeReady(timers, 'a:seam', 1000)).toBe(true);
+    expect(isHarvestNodeReady(timers, 'c:seam', 0)).toBe(true);
+    expect(pruneHarvestTimers(timers, 1000)).toEqual({ 'b:seam': 5000 });
+  });
+});
+
+describe('validateHarvestNodes', () => {
+  it('accepts well-formed nodes', () => {
+    expect(validateHarvestNodes([node(), node({ id: 'patch', kind: 'herb', name: 'Glowcap Patch', xpReward: 3 })])).toBeNull();
+  });
+
+  it('rejects duplicate ids, bad timers and bad drops', () => {
+    expect(validateHarvestNodes([node(), node()])).toBe('Harvest node seam is listed twice.');
+    expect(validateHarvestNodes([node({ respawnSeconds: 0 })])).toBe('Respawn time for Crystal Seam must be at least 1 second.');
+    expect(validateHarvestNodes([node({ requiredCraftLevel: 0 })])).toBe('Craft level for Crystal Seam must be at least 1.');
+    expect(validateHarvestNodes([node({ drops: [] })])).toBe('Crystal Seam needs at least one drop.');
+    expect(validateHarvestNodes([node({ drops: [{ itemId: 'scrap_metal', chance: 1.5 }] })]))
+      .toBe('Drop chance for scrap_metal from Crystal Seam must be above 0 and at most 1.');
+    expect(validateHarvestNodes([node({ kind: 'lumber' as HarvestNode['kind'] })])).toBe('Unknown harvest node kind: lumber.');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { compareEquipItem, formatStatDelta, getStatDeltaDirection } from '../src/systems/ItemComparison';
+import type { ItemDefinition } from '../src/systems/ItemTypes';
+import type { SetDefinition } from '../src/systems/SetTypes';
+
+const ITEMS: Record<string, ItemDefinition> = {
+  sword: { id: 'sword', name: 'Sword', rarity: 'common', equipSlot: 'mainhand', bonusAttackMin: 2, bonusAttackMax: 4 },
+  shield: { id: 'shield', name: 'Shield', rarity: 'common', equipSlot: 'offhand', damageReductionMin: 3, damageReductionMax: 3 },
+  greataxe: { id: 'greataxe', name: 'Greataxe', rarity: 'rare', equipSlot: 'twohanded', bonusAttackMin: 5, bonusAttackMax: 9, grantedSkillIds: ['cleave'] },
+  helm: { id: 'helm', name: 'Helm', rarity: 'common', equipSlot: 'head', damageReductionMin: 1, damageReductionMax: 1 },
+  set_helm: { id: 'set_helm', name: 'Set Helm', rarity: 'rare', equipSlot: 'head', magicReductionMin: 1, magicReductionMax: 1 },
+  ore: { id: 'ore', name: 'Ore', rarity: 'common' },
+};
+
+const SETS: Record<string, SetDefinition> = {
+  guard: {
+    id: 'guard',
+    name: 'Guard Set',
+    itemIds: ['set_helm', 'shield'],
+    breakpoints: [{ piecesRequired: 2, bonuses: { flatHp: 20, grantedSkillIds: ['bulwark'] } }],
+  },
+};
+
+const EQUIPPED = { head: null, mainhand: 'sword', offhand: 'shield' };
+
+describe('compareEquipItem', () => {
+  it('diffs stats into an empty slot and ignores non-gear', () => {
+    const comparison = compareEquipItem(EQUIPPED, 'helm', ITEMS, SETS)!;
+    expect(comparison.displacedItemIds).toEqual([]);
+    expect(comparison.statDeltas).toEqual([{ label: 'DR', min: 1, max: 1 }]);
+    expect(compareEquipItem(EQUIPPED, 'ore', ITEMS, SETS)).toBeNull();
+  });
+
+  it('displaces both hands for a two-hander and tracks sets and skills', () => {
+    const guarded = { ...EQUIPPED, head: 'set_helm' };
+    const comparison = compareEquipItem(guarded, 'greataxe', ITEMS, SETS)!;
+    expect(comparison.displacedItemIds.sort()).toEqual(['shield', 'sword']);
+    expect(comparison.statDeltas).toEqual([
+      { label: 'ATK', min: 3, max: 5 },
+      { label: 'DR', min: -3, max: -3 },
+      { label: 'HP', min: -20, max: -20 },
+    ]);
+    expect(comparison.setChanges).toEqual([{ setId: 'guard', name: 'Guard Set', from: 2, to: null }]);
+    expect(comparison.skillsGained).toEqual(['cleave']);
+    expect(comparison.skillsLost).toEqual(['bulwark']);
+  });
+
+  it('bumps a worn two-hander when a one-handed item goes in', () => {
+    const comparison = compareEquipItem({ mainhand: 'greataxe', offhand: 'greataxe' }, 'shield', ITEMS, SETS)!;
+    expect(comparison.displacedItemIds).toEqual(['greataxe']);
+    expect(comparison.skillsLost).toEqual(['cleave']);
+  });
+});
+
+describe('formatStatDelta / getStatDeltaDirection', () => {
+  it('signs values and flags mixed ranges', () => {
+    expect(formatStatDelta({ label: 'ATK', min: 3, max: 5 })).toBe('+3 to +5');
+    expect(formatStatDelta({ label: 'CRIT', min: -2, max: -2, percent: true })).toBe('-2%');
+    expect(getStatDeltaDirection({ label: 'ATK', min: 0, max: 2 })).toBe(1);
+    expect(getStatDeltaDirection({ label: 'ATK', min: -1, max: 2 })).toBe(0);
+    expect(getStatDeltaDirection({ label: 'DR', min: -1, max: -1 })).toBe(-1);
+  });
+});
@@ -406,6 +406,19 @@ describe('computeEquipmentBonuses', () => {
     expect(bonuses.bonusAttackMin).toBe(10);
     expect(bonuses.bonusAttackMax).toBe(10);
   });
+
+  it('sums status resistances across slots without heirloom scaling', () => {
+    const resistItems: Record<string, ItemDefinition> = {
+      ...testItems,
+      iron_will_helm: { id: 'iron_will_helm', name: 'Iron Will Helm', rarity: 'rare', equipSlot: 'head', stunResistance: 20, debuffResistance: 5 },
+      heirloom_charm: { id: 'heirloom_charm', name: 'Heirloom Charm', rarity: 'heirloom', equipSlot: 'necklace', stunResistance: 10, dotResistance: 15 },
+    };
+    const equip: Record<string, string | null> = { head: 'iron_will_helm', necklace: 'heirloom_charm', mainhand: null, offhand: null };
+
+    const bonuses = computeEquipmentBonuses(equip, resistItems, 10);
+    expect(bonuses).toMatchObject({ stunResistance: 30, dotResistance: 15, debuffResistance: 5 });
+    expect(getItemEffectText(resistItems.heirloom_charm)).toBe('10% Stun Resist, 15% DoT Resist');
+  });
 });
 
 describe('classRestriction as array', () => {
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { applyLoadoutEquipment, getLoadoutEquipmentError, validateLoadoutName, MAX_LOADOUT_NAME_LENGTH } from '../src/systems/LoadoutTypes';
+import type { SavedLoadout } from '../src/systems/LoadoutTypes';
+import { SEED_ITEMS, DISPLAY_EQUIP_SLOTS, MAX_STACK } from '../src/systems/ItemTypes';
+
+function emptyEquipment(): Record<string, string | null> {
+  return Object.fromEntries(DISPLAY_EQUIP_SLOTS.map(slot => [slot, null]));
+}
+
+function loadout(equipment: Record<string, string | null>): SavedLoadout {
+  return { name: 'Dungeon', equipment: { ...emptyEquipment(), ...equipment }, equippedSkills: [] };
+}
+
+// ── Applying ─────────────────────────────────────────────────
+
+describe('applyLoadoutEquipment', () => {
+  it('swaps worn gear for the loadout and returns the old gear to the bag', () => {
+    const equipment = { ...emptyEquipment(), mainhand: 'rusty_dagger', offhand: 'splintered_buckler' };
+    const inventory = { iron_battleaxe: 1, janky_helmet: 1 };
+    const result = applyLoadoutEquipment(inventory, equipment, loadout({
+      mainhand: 'iron_battleaxe', offhand: 'iron_battleaxe', head: 'janky_helmet',
+    }), SEED_ITEMS, 'Knight');
+
+    expect(result).toMatchObject({ success: true, missing: [] });
+    if (!result.success) return;
+    expect(result.equipment).toMatchObject({ mainhand: 'iron_battleaxe', offhand: 'iron_battleaxe', head: 'janky_helmet' });
+    expect(result.inventory).toEqual({ rusty_dagger: 1, splintered_buckler: 1 });
+    // Inputs are untouched.
+    expect(inventory).toEqual({ iron_battleaxe: 1, janky_helmet: 1 });
+  });
+
+  it('leaves missing pieces empty and reports them', () => {
+    const result = applyLoadoutEquipment({}, { ...emptyEquipment(), head: 'janky_helmet' }, loadout({
+      head: 'janky_helmet', offhand: 'splintered_buckler', ring: 'iron_battleaxe#gone0001',
+    }), SEED_ITEMS, 'Knight');
+
+    expect(result).toMatchObject({ success: true, missing: ['splintered_buckler', 'iron_battleaxe#gone0001'] });
+    if (result.success) expect(result.equipment).toMatchObject({ head: 'janky_helmet', offhand: null, ring: null });
+  });
+
+  it('refuses class-restricted pieces and split two-handers', () => {
+    expect(applyLoadoutEquipment({ short_bow: 1 }, emptyEquipment(), loadout({ mainhand: 'short_bow', offhand: 'short_bow' }), SEED_ITEMS, 'Knight'))
+      .toEqual({ success: false, error: "Short Bow can't be used by a Knight." });
+    expect(getLoadoutEquipmentError({ mainhand: 'iron_battleaxe', offhand: 'splintered_buckler' }, SEED_ITEMS, 'Knight'))
+      .toBe('Iron Battleaxe needs both hands.');
+    expect(getLoadoutEquipmentError({ head: 'splintered_buckler' }, SEED_ITEMS, 'Knight'))
+      .toBe("Splintered Buckler doesn't go in the head slot.");
+  });
+
+  it('refuses to take off an item the path needs', () => {
+    const equipment = { ...emptyEquipment(), relic: 'waterskin' };
+    expect(applyLoadoutEquipment({}, equipment, loadout({}), SEED_ITEMS, 'Knight', ['waterskin']))
+      .toEqual({ success: false, error: 'Waterskin is needed for the path ahead.' });
+    expect(applyLoadoutEquipment({}, equipment, loadout({ relic: 'waterskin' }), SEED_ITEMS, 'Knight', ['waterskin']).success).toBe(true);
+  });
+
+  it('refuses when returning gear would overflow a stack', () => {
+    const equipment = { ...emptyEquipment(), head: 'janky_helmet' };
+    expect(applyLoadoutEquipment({ janky_helmet: MAX_STACK }, equipment, loadout({}), SEED_ITEMS, 'Knight'))
+      .toEqual({ success: false, error: 'No room for Janky Helmet.' });
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────
+
+describe('validateLoadoutName', () => {
+  it('requires a short non-blank name', () => {
+    expect(validateLoadoutName('Farming')).toBeNull();
+    expect(validateLoadoutName('   ')).toBe('Loadout name is required.');
+    expect(validateLoadoutName('x'.repeat(MAX_LOADOUT_NAME_LENGTH + 1))).not.toBeNull();
+  });
+});
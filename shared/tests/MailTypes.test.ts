@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  migrateMailboxEntry,
+  hasMailContents,
+  canMailExpire,
+  splitClaimableAttachments,
+  validateMailDraft,
+  MAIL_EXPIRY_MS,
+  MAX_MAIL_ATTACHMENTS,
+  GIFT_MAIL_SUBJECT,
+} from '../src/systems/MailTypes';
+import type { MailboxEntry } from '../src/systems/MailTypes';
+import { AUCTION_HOUSE_SENDER } from '../src/systems/AuctionTypes';
+
+// ── Migration ────────────────────────────────────────────────
+
+describe('migrateMailboxEntry', () => {
+  it('turns a saved single-item gift into a one-attachment mail that expires from the migration', () => {
+    const legacy = { id: 'gift_1', fromUsername: 'alice', itemId: 'iron_ore', quantity: 5, sentAt: 1000 } as unknown as MailboxEntry;
+    const migratedAt = 1000 + 2 * MAIL_EXPIRY_MS;
+    expect(migrateMailboxEntry(legacy, migratedAt)).toEqual({
+      id: 'gift_1',
+      fromUsername: 'alice',
+      subject: GIFT_MAIL_SUBJECT,
+      attachments: [{ itemId: 'iron_ore', quantity: 5 }],
+      sentAt: 1000,
+      expiresAt: migratedAt + MAIL_EXPIRY_MS,
+    });
+  });
+
+  it('keeps gold payouts and marks auction mail as system mail', () => {
+    const legacy = { id: 'gift_2', fromUsername: AUCTION_HOUSE_SENDER, itemId: '', quantity: 0, sentAt: 0, gold: 95 } as unknown as MailboxEntry;
+    const mail = migrateMailboxEntry(legacy);
+    expect(mail).toMatchObject({ system: true, gold: 95, attachments: [] });
+    expect(hasMailContents(mail)).toBe(true);
+    expect(migrateMailboxEntry(mail)).toBe(mail);
+  });
+});
+
+describe('canMailExpire', () => {
+  it('only lets contents expire when they can bounce to a player', () => {
+    const mail = { id: 'm', fromUsername: 'alice', subject: 'Hi', attachments: [{ itemId: 'iron_ore', quantity: 1 }], sentAt: 0, expiresAt: 1 } as MailboxEntry;
+    expect(canMailExpire(mail)).toBe(true);
+    expect(canMailExpire({ ...mail, system: true })).toBe(false);
+    expect(canMailExpire({ ...mail, returned: true, attachments: [], gold: 5 })).toBe(false);
+    expect(canMailExpire({ ...mail, system: true, attachments: [] })).toBe(true);
+  });
+});
+
+// ── Claiming ─────────────────────────────────────────────────
+
+describe('splitClaimableAttachments', () => {
+  it('holds back attachments that would overflow a stack, counting earlier attachments', () => {
+    const counts: Record<string, number> = { iron_ore: 40 };
+    const { claimable, remaining } = splitClaimableAttachments(
+      [{ itemId: 'iron_ore', quantity: 50 }, { itemId: 'iron_ore', quantity: 10 }, { itemId: 'copper_ore', quantity: 99 }],
+      id => counts[id] ?? 0,
+    );
+    expect(claimable).toEqual([{ itemId: 'iron_ore', quantity: 50 }, { itemId: 'copper_ore', quantity: 99 }]);
+    expect(remaining).toEqual([{ itemId: 'iron_ore', quantity: 10 }]);
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────
+
+describe('validateMailDraft', () => {
+  it('checks subject, body, attachments and gold', () => {
+    expect(validateMailDraft({ subject: 'Hi', attachments: [{ itemId: 'iron_ore', quantity: 3 }], gold: 10 })).toBeNull();
+    expect(validateMailDraft({ subject: '   ' })).toBe('Mail needs a subject.');
+    expect(validateMailDraft({ subject: 'Hi', body: 'x'.repeat(501) })).not.toBeNull();
+    const tooMany = Array.from({ length: MAX_MAIL_ATTACHMENTS + 1 }, (_, i) => ({ itemId: `item_${i}`, quantity: 1 }));
+    expect(validateMailDraft({ subject: 'Hi', attachments: tooMany })).toBe(`At most ${MAX_MAIL_ATTACHMENTS} attachments per mail.`);
+    expect(validateMailDraft({ subject: 'Hi', attachments: [{ itemId: 'a', quantity: 1 }, { itemId: 'a', quantity: 2 }] }))
+      .toBe('Each item can only be attached once.');
+    expect(validateMailDraft({ subject: 'Hi', attachments: [{ itemId: 'a', quantity: 0 }] })).toBe('Invalid quantity.');
+    expect(validateMailDraft({ subject: 'Hi', gold: -1 })).toBe('Invalid gold amount.');
+  });
+});
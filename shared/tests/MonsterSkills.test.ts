@@ -23,10 +23,12 @@ function makePlayer(
     equippedSkills: [null, null, null, null, null],
     attackCount: 0,
     stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
     dots: [],
     hots: [],
     damageShield: 0,
-    debuffs: [],
+    statuses: [],
     consecutiveHits: 0,
     lastTargetId: '',
     hasResurrected: false,
@@ -52,7 +54,7 @@ describe('Monster Resistances', () => {
 
     it('returns damage unchanged for non-matching type', () => {
       const resistances: Resistance[] = [
-        { damageType: 'magical', flatReduction: 10, percentReduction: 50 },
+        { damageType: 'arcane', flatReduction: 10, percentReduction: 50 },
       ];
       const result = applyMonsterResistance(100, 'physical', resistances);
       expect(result).toBe(100);
@@ -60,10 +62,10 @@ describe('Monster Resistances', () => {
 
     it('handles negative percent (vulnerability)', () => {
       const resistances: Resistance[] = [
-        { damageType: 'magical', flatReduction: 0, percentReduction: -100 },
+        { damageType: 'arcane', flatReduction: 0, percentReduction: -100 },
       ];
       // 50 damage → -100% = 50 * (1 - (-100/100)) = 50 * 2 = 100
-      const result = applyMonsterResistance(50, 'magical', resistances);
+      const result = applyMonsterResistance(50, 'arcane', resistances);
       expect(result).toBe(100);
     });
 
@@ -138,7 +140,7 @@ describe('Monster Skills', () => {
         name: 'Mage Goblin',
         hp: 1000,
         damage: 1,
-        damageType: 'magical',
+        damageType: 'arcane',
         xp: 5,
         goldMin: 1,
         goldMax: 2,
@@ -173,7 +175,7 @@ describe('Monster Skills', () => {
         name: 'Healer',
         hp: 1000,
         damage: 1,
-        damageType: 'magical',
+        damageType: 'arcane',
         xp: 5,
         goldMin: 1,
         goldMax: 2,
@@ -215,7 +217,7 @@ describe('Monster Skills', () => {
         name: 'Test',
         hp: 1000,
         damage: 1,
-        damageType: 'magical',
+        damageType: 'arcane',
         xp: 5,
         goldMin: 1,
         goldMax: 2,
@@ -249,7 +251,7 @@ describe('Monster Skills', () => {
 
     it('Fireball is reduced by Priest Bless (party-wide MR)', () => {
       const monsterDef: MonsterDefinition = {
-        id: 'mage', name: 'Mage', hp: 1000, damage: 0, damageType: 'magical',
+        id: 'mage', name: 'Mage', hp: 1000, damage: 0, damageType: 'arcane',
         xp: 1, goldMin: 0, goldMax: 0,
         skills: [{ skillId: 'fireball', value: 50, cooldown: 3 }],
       };
@@ -322,9 +324,9 @@ describe('Monster Skills', () => {
       expect(a.currentHp).toBe(50);
     });
 
-    it('Brace (Shield Slam) does not accumulate magical damage', () => {
+    it('Brace (Shield Slam) does not accumulate arcane damage', () => {
       const monsterDef: MonsterDefinition = {
-        id: 'mage', name: 'Mage', hp: 1000, damage: 30, damageType: 'magical',
+        id: 'mage', name: 'Mage', hp: 1000, damage: 30, damageType: 'arcane',
         xp: 1, goldMin: 0, goldMax: 0,
       };
       const monster = createMonsterInstance(monsterDef, 4);
@@ -337,13 +339,13 @@ describe('Monster Skills', () => {
       // Drive enough ticks for the monster to land at least one hit
       for (let i = 0; i < 10; i++) processPartyTick(state);
       const k = state.players[0];
-      expect(k.currentHp).toBeLessThan(1000); // took magical damage
+      expect(k.currentHp).toBeLessThan(1000); // took arcane damage
       expect(k.braceDamageTaken).toBe(0);     // but brace did not accumulate it
     });
 
     it('Martyr triggers from DoT damage to a Knight (capped at single stack)', () => {
       const monsterDef: MonsterDefinition = {
-        id: 'rotter', name: 'Rotter', hp: 1000, damage: 0, damageType: 'magical',
+        id: 'rotter', name: 'Rotter', hp: 1000, damage: 0, damageType: 'arcane',
         xp: 1, goldMin: 0, goldMax: 0,
         skills: [{ skillId: 'rot', value: 5, cooldown: 2 }],
       };
@@ -372,7 +374,7 @@ describe('Monster Skills', () => {
         name: 'Scary',
         hp: 1000,
         damage: 1,
-        damageType: 'magical',
+        damageType: 'arcane',
         xp: 5,
         goldMin: 1,
         goldMax: 2,
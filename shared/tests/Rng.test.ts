@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createRngState, nextRandom, rngFn } from '../src/systems/Rng';
+
+describe('Rng', () => {
+  it('produces values in [0, 1)', () => {
+    const rng = createRngState(7);
+    for (let i = 0; i < 1000; i++) {
+      const v = nextRandom(rng);
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  it('same seed → same sequence', () => {
+    const a = createRngState(12345);
+    const b = createRngState(12345);
+    for (let i = 0; i < 50; i++) {
+      expect(nextRandom(a)).toBe(nextRandom(b));
+    }
+  });
+
+  it('different seeds diverge', () => {
+    const a = createRngState(1);
+    const b = createRngState(2);
+    const seqA = Array.from({ length: 5 }, () => nextRandom(a));
+    const seqB = Array.from({ length: 5 }, () => nextRandom(b));
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it('keeps the original seed while the cursor advances', () => {
+    const rng = createRngState(99);
+    nextRandom(rng);
+    nextRandom(rng);
+    expect(rng.seed).toBe(99);
+    expect(rng.state).not.toBe(99);
+  });
+
+  it('resumes exactly after a JSON round-trip', () => {
+    const rng = createRngState(2024);
+    for (let i = 0; i < 10; i++) nextRandom(rng);
+    const restored = JSON.parse(JSON.stringify(rng));
+    expect(nextRandom(restored)).toBe(nextRandom(rng));
+  });
+
+  it('rngFn draws from (and advances) the wrapped stream', () => {
+    const a = createRngState(5);
+    const b = createRngState(5);
+    const fn = rngFn(a);
+    expect(fn()).toBe(nextRandom(b));
+    expect(a.state).toBe(b.state);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  salvageItems,
+  rollSalvage,
+  getSalvageCapacity,
+  getBulkSalvageKeys,
+  getSalvageBlockReason,
+  validateSalvageTable,
+  BULK_SALVAGE_RARITIES,
+  SEED_SALVAGE_TABLES,
+} from '../src/systems/SalvageTypes';
+import type { SalvageTableDefinition } from '../src/systems/SalvageTypes';
+import { withItemInstances } from '../src/systems/AffixTypes';
+import { MAX_STACK, SEED_ITEMS } from '../src/systems/ItemTypes';
+import { SEED_RECIPES } from '../src/systems/CraftingTypes';
+
+const axe = SEED_ITEMS.iron_battleaxe;
+
+// ── Rolling ──────────────────────────────────────────────────
+
+describe('rollSalvage', () => {
+  const table: SalvageTableDefinition = {
+    id: 'rare',
+    yields: [
+      { itemId: 'scrap_metal', min: 2, max: 4 },
+      { itemId: 'arcane_dust', min: 1, max: 1, chance: 0.5 },
+    ],
+  };
+
+  it('rolls each yield within its range', () => {
+    expect(rollSalvage(table, {}, () => 0)).toEqual({ scrap_metal: 2, arcane_dust: 1 });
+    expect(rollSalvage(table, {}, () => 0.99)).toEqual({ scrap_metal: 4 });
+  });
+
+  it('accumulates into an existing record', () => {
+    expect(rollSalvage(table, { scrap_metal: 3 }, () => 0)).toEqual({ scrap_metal: 5, arcane_dust: 1 });
+  });
+});
+
+// ── Salvaging ────────────────────────────────────────────────
+
+describe('salvageItems', () => {
+  it('turns gear into materials and removes it', () => {
+    const inventory: Record<string, number> = { iron_battleaxe: 2, scrap_metal: 1 };
+    const result = salvageItems(inventory, 'iron_battleaxe', 2, SEED_ITEMS, SEED_SALVAGE_TABLES, () => 0);
+    expect(result).toEqual({ success: true, salvaged: 2, materials: { scrap_metal: 4, arcane_dust: 2 } });
+    expect(inventory).toEqual({ scrap_metal: 5, arcane_dust: 2 });
+  });
+
+  it('salvages an item instance by its rarity', () => {
+    const instance = { id: 'iron_battleaxe#abc12345', itemId: 'iron_battleaxe', affixes: [] };
+    const items = withItemInstances(SEED_ITEMS, { [instance.id]: instance });
+    const inventory: Record<string, number> = { [instance.id]: 1 };
+    expect(salvageItems(inventory, instance.id, 1, items, SEED_SALVAGE_TABLES, () => 0).success).toBe(true);
+    expect(inventory[instance.id]).toBeUndefined();
+  });
+
+  it('refuses non-gear, socketed gear, missing tables and short stacks', () => {
+    const inventory: Record<string, number> = { mangy_pelt: 1, iron_battleaxe: 1 };
+    expect(salvageItems(inventory, 'mangy_pelt', 1, SEED_ITEMS, SEED_SALVAGE_TABLES).success).toBe(false);
+    expect(salvageItems(inventory, 'iron_battleaxe', 2, SEED_ITEMS, SEED_SALVAGE_TABLES).success).toBe(false);
+    expect(salvageItems(inventory, 'iron_battleaxe', 1, SEED_ITEMS, {})).toEqual({
+      success: false, error: "Iron Battleaxe can't be salvaged.",
+    });
+    expect(getSalvageBlockReason({ ...axe, gems: ['rough_garnet'] }, SEED_SALVAGE_TABLES)).toBe('Remove the gems from Iron Battleaxe first.');
+    expect(inventory).toEqual({ mangy_pelt: 1, iron_battleaxe: 1 });
+  });
+
+  it('refuses when the best roll could overflow a material stack', () => {
+    const inventory: Record<string, number> = { iron_battleaxe: 1, arcane_dust: MAX_STACK };
+    expect(salvageItems(inventory, 'iron_battleaxe', 1, SEED_ITEMS, SEED_SALVAGE_TABLES)).toEqual({
+      success: false, error: 'No room for Arcane Dust.',
+    });
+    expect(inventory.iron_battleaxe).toBe(1);
+  });
+});
+
+// ── Bulk salvage ─────────────────────────────────────────────
+
+describe('getSalvageCapacity', () => {
+  it('fits as many items as the tightest best-case yield allows', () => {
+    const rare = SEED_SALVAGE_TABLES.rare;
+    expect(getSalvageCapacity({}, rare)).toBe(Math.floor(MAX_STACK / 4));
+    expect(getSalvageCapacity({ arcane_dust: MAX_STACK - 5 }, rare)).toBe(2);
+    expect(getSalvageCapacity({ arcane_dust: MAX_STACK }, rare)).toBe(0);
+  });
+});
+
+describe('getBulkSalvageKeys', () => {
+  it('picks gear of the bulk rarities, minus excluded base items', () => {
+    const commons = Object.values(SEED_ITEMS).filter(d => d.equipSlot && d.rarity === 'common').map(d => d.id);
+    const inventory: Record<string, number> = { iron_battleaxe: 1, mangy_pelt: 3 };
+    for (const id of commons) inventory[id] = 1;
+
+    const keys = getBulkSalvageKeys(inventory, SEED_ITEMS, SEED_SALVAGE_TABLES, BULK_SALVAGE_RARITIES);
+    expect(keys.sort()).toEqual([...commons].sort());
+    expect(getBulkSalvageKeys(inventory, SEED_ITEMS, SEED_SALVAGE_TABLES, BULK_SALVAGE_RARITIES, [commons[0]]))
+      .not.toContain(commons[0]);
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────
+
+describe('validateSalvageTable', () => {
+  const itemIds = new Set(Object.keys(SEED_ITEMS));
+
+  it('accepts every seed table, and seed yields feed recipes', () => {
+    for (const table of Object.values(SEED_SALVAGE_TABLES)) expect(validateSalvageTable(table, itemIds)).toEqual([]);
+    const ingredientIds = new Set(Object.values(SEED_RECIPES).flatMap(r => r.ingredients.map(i => i.itemId)));
+    expect(ingredientIds.has('scrap_metal')).toBe(true);
+    expect(ingredientIds.has('arcane_dust')).toBe(true);
+  });
+
+  it('reports bad fields', () => {
+    const bad = {
+      id: 'mythic',
+      yields: [{ itemId: 'nope', min: 3, max: 1 }, { itemId: '', min: 1, max: 1, chance: 0 }],
+    } as unknown as SalvageTableDefinition;
+    // id, unknown item, range, missing item, chance
+    expect(validateSalvageTable(bad, itemIds)).toHaveLength(5);
+  });
+});
@@ -22,6 +22,7 @@ import type { PartyGridPosition } from '../src/systems/SocialTypes';
 import type { SkillDefinition } from '../src/systems/SkillTypes';
 import { createMonsterInstance } from '../src/systems/MonsterTypes';
 import type { MonsterDefinition } from '../src/systems/MonsterTypes';
+import { createRngState } from '../src/systems/Rng';
 
 const emptyEquipment: Record<string, string | null> = {
   head: null, chest: null, mainhand: null, offhand: null, foot: null,
@@ -371,10 +372,12 @@ function makePlayer(
     equippedSkills: overrides.equippedSkills ?? [null, null, null, null, null],
     attackCount: 0,
     stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
     dots: [],
     hots: [],
     damageShield: 0,
-    debuffs: [],
+    statuses: [],
     consecutiveHits: 0,
     lastTargetId: '',
     hasResurrected: false,
@@ -472,8 +475,9 @@ describe('Combat integration — set bonuses are applied', () => {
     const wallB = createMonsterInstance(wallDef);
     wallB.gridPosition = 0;
 
-    const stateA = createPartyCombatState([playerWithSet], [wallA]);
-    const stateB = createPartyCombatState([playerNoSet], [wallB]);
+    // Same seed for both fights so the damage-variance rolls line up hit for hit.
+    const stateA = createPartyCombatState([playerWithSet], [wallA], createRngState(42));
+    const stateB = createPartyCombatState([playerNoSet], [wallB], createRngState(42));
 
     for (let i = 0; i < 10; i++) processPartyTick(stateA);
     for (let i = 0; i < 10; i++) processPartyTick(stateB);
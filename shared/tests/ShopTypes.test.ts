@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getShopItemPrice,
+  refreshShopStock,
+  getShopStockCount,
+  getNextRestockAt,
+  pushBuyback,
+  validateShopDefinition,
+  BUYBACK_LIMIT,
+} from '../src/systems/ShopTypes';
+import type { ShopDefinition } from '../src/systems/ShopTypes';
+
+const MINUTE = 60_000;
+
+const SHOP: ShopDefinition = {
+  id: 'smith',
+  name: 'Smith',
+  inventory: [
+    { itemId: 'iron_sword', price: 100, stock: 2 },
+    { itemId: 'bread', price: 5 },
+  ],
+  restockMinutes: 30,
+  priceScalingPercent: 10,
+};
+
+describe('getShopItemPrice', () => {
+  it('adds the scaling percent per zone level above 1', () => {
+    expect(getShopItemPrice(SHOP.inventory[0], SHOP, 1)).toBe(100);
+    expect(getShopItemPrice(SHOP.inventory[0], SHOP, 4)).toBe(130);
+    expect(getShopItemPrice(SHOP.inventory[1], { ...SHOP, priceScalingPercent: undefined }, 4)).toBe(5);
+  });
+});
+
+describe('refreshShopStock', () => {
+  it('fills on first visit, keeps sales until the restock, then refills', () => {
+    const state = refreshShopStock(SHOP, undefined, 0);
+    expect(state.stock).toEqual({ iron_sword: 2 });
+    expect(getShopStockCount(state, 'bread')).toBe(Infinity);
+
+    state.stock.iron_sword = 0;
+    expect(refreshShopStock(SHOP, state, 29 * MINUTE).stock.iron_sword).toBe(0);
+    expect(getNextRestockAt(SHOP, state)).toBe(30 * MINUTE);
+    expect(refreshShopStock(SHOP, state, 30 * MINUTE)).toEqual({ stock: { iron_sword: 2 }, restockedAt: 30 * MINUTE });
+  });
+
+  it('never restocks without a restock time and follows admin edits to the item list', () => {
+    const noRestock = { ...SHOP, restockMinutes: undefined };
+    const state = { stock: { iron_sword: 0, removed_item: 3 }, restockedAt: 0 };
+    expect(getNextRestockAt(noRestock, state)).toBeNull();
+
+    const edited = { ...noRestock, inventory: [...noRestock.inventory, { itemId: 'shield', price: 50, stock: 1 }] };
+    expect(refreshShopStock(edited, state, 10_000 * MINUTE).stock).toEqual({ iron_sword: 0, shield: 1 });
+  });
+});
+
+describe('pushBuyback', () => {
+  it('keeps the newest sales first, capped at BUYBACK_LIMIT', () => {
+    let list = pushBuyback([], { itemId: 'bread', quantity: 1, unitPrice: 1, soldAt: 0 });
+    for (let i = 1; i <= BUYBACK_LIMIT; i++) list = pushBuyback(list, { itemId: 'bread', quantity: 1, unitPrice: 1, soldAt: i });
+    expect(list).toHaveLength(BUYBACK_LIMIT);
+    expect(list[0].soldAt).toBe(BUYBACK_LIMIT);
+    expect(list.some(e => e.soldAt === 0)).toBe(false);
+  });
+});
+
+describe('validateShopDefinition', () => {
+  it('rejects duplicate items, bad stock and negative settings', () => {
+    expect(validateShopDefinition(SHOP)).toBeNull();
+    expect(validateShopDefinition({ ...SHOP, inventory: [SHOP.inventory[1], SHOP.inventory[1]] })).toBe('Item bread is listed twice.');
+    expect(validateShopDefinition({ ...SHOP, inventory: [{ itemId: 'bread', price: 5, stock: 0 }] }))
+      .toBe('Stock for bread must be at least 1 (leave it empty for unlimited).');
+    expect(validateShopDefinition({ ...SHOP, restockMinutes: -1 })).toBe('Restock time cannot be negative.');
+    expect(validateShopDefinition({ ...SHOP, priceScalingPercent: -5 })).toBe('Price scaling cannot be negative.');
+  });
+});
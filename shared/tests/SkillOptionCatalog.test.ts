@@ -39,11 +39,11 @@ function makePassive(overrides: Partial<SkillDefinition> = {}): SkillDefinition
 }
 
 describe('SKILL_OPTION_CATALOG', () => {
-  it('covers all 27 passive and 23 active kinds exactly once (50 total)', () => {
-    expect(ALL_PASSIVE_EFFECT_KINDS).toHaveLength(27);
-    expect(ALL_ACTIVE_EFFECT_KINDS).toHaveLength(23);
-    expect(new Set([...ALL_PASSIVE_EFFECT_KINDS, ...ALL_ACTIVE_EFFECT_KINDS]).size).toBe(50);
-    expect(Object.keys(SKILL_OPTION_CATALOG)).toHaveLength(50);
+  it('covers all 28 passive and 24 active kinds exactly once (52 total)', () => {
+    expect(ALL_PASSIVE_EFFECT_KINDS).toHaveLength(28);
+    expect(ALL_ACTIVE_EFFECT_KINDS).toHaveLength(24);
+    expect(new Set([...ALL_PASSIVE_EFFECT_KINDS, ...ALL_ACTIVE_EFFECT_KINDS]).size).toBe(52);
+    expect(Object.keys(SKILL_OPTION_CATALOG)).toHaveLength(52);
     for (const kind of ALL_PASSIVE_EFFECT_KINDS) {
       expect(SKILL_OPTION_CATALOG[kind], `missing catalog entry for ${kind}`).toBeDefined();
       expect(SKILL_OPTION_CATALOG[kind].kind).toBe(kind);
@@ -176,4 +176,36 @@ describe('validateSkillDefinition', () => {
     expect(errors.some(e => e.includes('Unknown class'))).toBe(true);
     expect(errors.some(e => e.includes('passive'))).toBe(true);
   });
+
+  it('validates talent rules and prerequisites against content', () => {
+    const content = {
+      skills: {
+        knight_guard: SEED_SKILLS.knight_guard,
+        mage_burn: SEED_SKILLS.mage_burn,
+        test_root: makePassive({ id: 'test_root', talent: { maxRank: 1, prerequisites: ['test_passive'] } }),
+      },
+      slotSchedules: {},
+    };
+    expect(validateSkillDefinition(makePassive({ talent: { maxRank: 3, prerequisites: ['knight_guard'] } }), content)).toEqual([]);
+    expect(validateSkillDefinition(makePassive({ unlockLevel: null, talent: { maxRank: 1 } })).some(e => e.includes('Grant-only'))).toBe(true);
+    expect(validateSkillDefinition(makePassive({ talent: { maxRank: 0, rankScaling: -1 } }))).toHaveLength(2);
+    expect(validateSkillDefinition(makePassive({ talent: { maxRank: 1, prerequisites: ['missing', 'mage_burn'] } }), content))
+      .toHaveLength(2);
+    expect(validateSkillDefinition(makePassive({ talent: { maxRank: 1, prerequisites: ['test_root'] } }), content)
+      .some(e => e.includes('loop'))).toBe(true);
+  });
+
+  it('validates triggered effects across parameters', () => {
+    const scripted = (extra: Record<string, unknown>) => makePassive({
+      passiveEffects: [{ kind: 'triggered_effect', trigger: 'on_kill', action: 'heal', actionValue: 2, ...extra }],
+    });
+    expect(validateSkillDefinition(scripted({}))).toEqual([]);
+    expect(validateSkillDefinition(scripted({ trigger: 'on_tuesday' })).some(e => e.includes('must be one of'))).toBe(true);
+    expect(validateSkillDefinition(scripted({ hpMin: 0.8, hpMax: 0.2 })).some(e => e.includes('HP at least'))).toBe(true);
+    expect(validateSkillDefinition(scripted({ action: 'apply_status' })).some(e => e.includes('status effect'))).toBe(true);
+    expect(validateSkillDefinition(scripted({ actionValue: undefined })).some(e => e.includes('non-zero value'))).toBe(true);
+    expect(validateSkillDefinition(scripted({ actionTarget: 'all_enemies' })).some(e => e.includes('cannot target enemies'))).toBe(true);
+    expect(validateSkillDefinition(scripted({ action: 'damage', actionTarget: 'party' })).some(e => e.includes('subject or all enemies'))).toBe(true);
+    expect(validateSkillDefinition(scripted({ tag: ' ' })).some(e => e.includes('non-empty text'))).toBe(true);
+  });
 });
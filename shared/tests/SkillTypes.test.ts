@@ -12,6 +12,10 @@ import {
   getSkillsForClass,
   getSlotSchedule,
   getUnlockedSkillsForLevel,
+  canLearnTalent,
+  applySkillRank,
+  getRespecCost,
+  getTalentPointsForLevel,
 } from '../src/systems/SkillTypes';
 import type { SkillContent, SkillDefinition, SkillSlot } from '../src/systems/SkillTypes';
 import type { ClassName } from '../src/systems/CharacterStats';
@@ -357,6 +361,66 @@ describe('SkillTypes', () => {
     });
   });
 
+  describe('talents', () => {
+    const talent = (id: string, unlockLevel: number, extra: Partial<SkillDefinition> = {}): SkillDefinition => ({
+      id, name: id, description: '', className: 'Knight', type: 'passive', unlockLevel, sortOrder: 100,
+      passiveEffects: [{ kind: 'physical_reduction', valuePerLevel: 2 }],
+      talent: { maxRank: 2, rankScaling: 0.5 },
+      ...extra,
+    });
+    const TALENTS: SkillContent = {
+      skills: {
+        ...SEED_SKILLS,
+        t_root: talent('t_root', 5),
+        t_left: talent('t_left', 10, { talent: { maxRank: 1, prerequisites: ['t_root'], exclusiveGroup: 'path' } }),
+        t_right: talent('t_right', 10, { talent: { maxRank: 1, prerequisites: ['knight_bash'], exclusiveGroup: 'path' } }),
+      },
+      slotSchedules: SEED_SKILL_SLOT_SCHEDULES,
+    };
+
+    it('earns a point per level and charges respec gold by level', () => {
+      expect(getTalentPointsForLevel(12)).toBe(12);
+      expect(getRespecCost(10)).toBe(250);
+    });
+
+    it('only unlocks talents that have a rank', () => {
+      expect(getUnlockedSkillsForLevel('Knight', 50, TALENTS)).not.toContain('t_root');
+      expect(getUnlockedSkillsForLevel('Knight', 50, TALENTS, { t_root: 1 })).toContain('t_root');
+    });
+
+    it('gates ranks on level, max rank, points, prerequisites and exclusive groups', () => {
+      expect(canLearnTalent('t_root', 'Knight', 4, {}, TALENTS)).toMatch(/level 5/i);
+      expect(canLearnTalent('t_root', 'Knight', 5, {}, TALENTS)).toBeNull();
+      expect(canLearnTalent('t_root', 'Knight', 5, { t_root: 2 }, TALENTS)).toMatch(/max rank/i);
+      expect(canLearnTalent('t_left', 'Knight', 10, {}, TALENTS)).toMatch(/requires/i);
+      expect(canLearnTalent('t_left', 'Knight', 10, { t_root: 1 }, TALENTS)).toBeNull();
+      // Non-talent prerequisites count once their level is reached
+      expect(canLearnTalent('t_right', 'Knight', 10, {}, TALENTS)).toBeNull();
+      expect(canLearnTalent('t_right', 'Knight', 10, { t_root: 1, t_left: 1 }, TALENTS)).toMatch(/Locked by t_left/);
+      expect(canLearnTalent('t_root', 'Knight', 5, { t_left: 1, t_right: 1, knight_guard: 3 }, TALENTS)).toMatch(/point/i);
+      expect(canLearnTalent('t_root', 'Archer', 50, {}, TALENTS)).not.toBeNull();
+      expect(canLearnTalent('knight_guard', 'Knight', 50, {}, TALENTS)).not.toBeNull();
+    });
+
+    it('scales option magnitudes per rank above 1', () => {
+      const root = TALENTS.skills.t_root;
+      expect(applySkillRank(root, 1)).toBe(root);
+      expect(applySkillRank(root, 2).passiveEffects).toEqual([{ kind: 'physical_reduction', valuePerLevel: 3 }]);
+      expect(root.passiveEffects).toEqual([{ kind: 'physical_reduction', valuePerLevel: 2 }]);
+    });
+
+    it('reconcile drops ranks for removed or non-talent skills and clamps to max rank', () => {
+      const loadout = {
+        unlockedSkills: ['knight_guard'],
+        equippedSkills: ['knight_guard', null, null, null, null] as (string | null)[],
+        talentRanks: { t_root: 5, knight_guard: 1, gone: 1 },
+      };
+      const result = reconcileSkillLoadout(loadout, 'Knight', 10, [], TALENTS);
+      expect(result.talentRanks).toEqual({ t_root: 2 });
+      expect(getUnlockedSkillsForLevel('Knight', 10, TALENTS, result.talentRanks)).toContain('t_root');
+    });
+  });
+
   describe('getSkillById / getSkillsForClass', () => {
     it('finds knight_guard', () => {
       const skill = getSkillById('knight_guard', CONTENT);
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  emptyStash,
+  normalizeStash,
+  isItemStashed,
+  getStashDepositError,
+  getStashWithdrawError,
+  STASH_TAB_COUNT,
+  MAX_STASH_TAB_STACKS,
+} from '../src/systems/StashTypes';
+
+describe('normalizeStash', () => {
+  it('pads saves from before the stash and keeps saved tabs', () => {
+    expect(normalizeStash(undefined)).toEqual(emptyStash());
+    const stash = normalizeStash([{ name: 'Mats', items: { iron_ore: 5 } }]);
+    expect(stash).toHaveLength(STASH_TAB_COUNT);
+    expect(stash[0]).toEqual({ name: 'Mats', items: { iron_ore: 5 } });
+    expect(stash[1].name).toBe('Tab 2');
+    expect(isItemStashed(stash, 'iron_ore')).toBe(true);
+    expect(isItemStashed(stash, 'ruby')).toBe(false);
+  });
+});
+
+describe('getStashDepositError / getStashWithdrawError', () => {
+  it('checks the tab, quantity, stack cap and stack count', () => {
+    const tab = { name: 'Tab 1', items: { iron_ore: 95 } as Record<string, number> };
+    expect(getStashDepositError(undefined, 'iron_ore', 1, 1)).toBe('No such stash tab.');
+    expect(getStashDepositError(tab, 'iron_ore', 0, 1)).toBe('Invalid quantity.');
+    expect(getStashDepositError(tab, 'iron_ore', 2, 1)).toBe('Not enough items in inventory.');
+    expect(getStashDepositError(tab, 'iron_ore', 5, 5)).toBe('Tab 1 can only hold 99 of an item.');
+    expect(getStashDepositError(tab, 'iron_ore', 4, 5)).toBeNull();
+
+    for (let i = 1; i < MAX_STASH_TAB_STACKS; i++) tab.items[`item_${i}`] = 1;
+    expect(getStashDepositError(tab, 'ruby', 1, 1)).toBe(`Tab 1 is full (${MAX_STASH_TAB_STACKS} stacks).`);
+    expect(getStashDepositError(tab, 'item_1', 1, 1)).toBeNull();
+
+    expect(getStashWithdrawError(tab, 'iron_ore', 96, 0)).toBe('Not enough of that item in Tab 1.');
+    expect(getStashWithdrawError(tab, 'iron_ore', 10, 90)).toBe('Inventory full for that item (max 99).');
+    expect(getStashWithdrawError(tab, 'iron_ore', 95, 4)).toBeNull();
+  });
+});
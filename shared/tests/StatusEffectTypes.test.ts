@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addStatus,
+  scaleByStatuses,
+  statusBonusDamage,
+  validateStatusEffectDefinition,
+  migrateLegacyStatusEffect,
+  SEED_STATUS_EFFECTS,
+} from '../src/systems/StatusEffectTypes';
+import type { StatusEffectDefinition, StatusInstance } from '../src/systems/StatusEffectTypes';
+import { createPartyCombatState, processPartyTick } from '../src/systems/CombatEngine';
+import type { PartyCombatant } from '../src/systems/CombatEngine';
+import { createMonsterInstance, SEED_MONSTERS } from '../src/systems/MonsterTypes';
+import type { SkillDefinition } from '../src/systems/SkillTypes';
+import type { PartyGridPosition } from '../src/systems/SocialTypes';
+import { createRngState } from '../src/systems/Rng';
+
+function makeDef(overrides: Partial<StatusEffectDefinition> = {}): StatusEffectDefinition {
+  return {
+    id: 'weaken', name: 'Weaken', kind: 'debuff', stacking: 'refresh', duration: 3, dispellable: true,
+    modifiers: { damageDealt: -0.2 },
+    ...overrides,
+  };
+}
+
+function makePlayer(username: string, pos: PartyGridPosition, overrides?: Partial<PartyCombatant>): PartyCombatant {
+  return {
+    username,
+    maxHp: 500,
+    currentHp: 500,
+    baseDamage: 10,
+    playerDamageType: 'physical',
+    gridPosition: pos,
+    className: 'Knight',
+    level: 1,
+    equippedSkills: [null, null, null, null, null],
+    attackCount: 0,
+    stunTurns: 0,
+    stunDrStacks: 0,
+    stunDrTurns: 0,
+    dots: [],
+    hots: [],
+    damageShield: 0,
+    statuses: [],
+    consecutiveHits: 0,
+    lastTargetId: '',
+    hasResurrected: false,
+    martyrBonus: 0,
+    braceActive: false,
+    braceDamageTaken: 0,
+    interceptActive: false,
+    activeSkillCount: 0,
+    ...overrides,
+  };
+}
+
+function statusSkill(effect: SkillDefinition['activeEffects']): SkillDefinition {
+  return {
+    id: 'test_status', name: 'Test Status', description: 'test', className: 'Knight', type: 'active',
+    unlockLevel: 1, sortOrder: 1, cooldown: 1, activeEffects: effect,
+  };
+}
+
+// ── addStatus ────────────────────────────────────────────────
+
+describe('addStatus', () => {
+  it('refresh keeps one instance and resets its duration', () => {
+    const statuses: StatusInstance[] = [];
+    const def = makeDef();
+    addStatus(statuses, def, { sourceUsername: 'Alice' });
+    statuses[0].duration = 1;
+    addStatus(statuses, def, { sourceUsername: 'Alice' });
+    expect(statuses).toHaveLength(1);
+    expect(statuses[0]).toMatchObject({ stacks: 1, duration: 3, modifiers: { damageDealt: -0.2 } });
+  });
+
+  it('stack accumulates modifiers and tick amounts up to maxStacks', () => {
+    const statuses: StatusInstance[] = [];
+    const def = makeDef({ stacking: 'stack', maxStacks: 2, tick: { kind: 'damage', amount: 4 } });
+    for (let i = 0; i < 3; i++) addStatus(statuses, def, { sourceUsername: 'Alice' });
+    expect(statuses).toHaveLength(1);
+    expect(statuses[0].stacks).toBe(2);
+    expect(statuses[0].modifiers.damageDealt).toBeCloseTo(-0.4);
+    expect(statuses[0].tickAmount).toBe(8);
+  });
+
+  it('independent adds an instance per application and returns null past the cap', () => {
+    const statuses: StatusInstance[] = [];
+    const def = makeDef({ stacking: 'independent', maxStacks: 2 });
+    addStatus(statuses, def, { sourceUsername: 'Alice', duration: 5 });
+    addStatus(statuses, def, { sourceUsername: 'Bob' });
+    expect(addStatus(statuses, def, { sourceUsername: 'Cara' })).toBeNull();
+    expect(statuses.map(s => [s.sourceUsername, s.duration])).toEqual([['Alice', 5], ['Bob', 3]]);
+  });
+
+  it('application overrides replace the definition magnitudes', () => {
+    const statuses: StatusInstance[] = [];
+    addStatus(statuses, makeDef(), { sourceUsername: 'Alice', modifiers: { damageDealt: -0.5 } });
+    expect(statuses[0].modifiers).toEqual({ damageDealt: -0.5 });
+  });
+});
+
+// ── Modifier helpers ─────────────────────────────────────────
+
+describe('status modifier helpers', () => {
+  it('scaleByStatuses compounds instances and honors damageTakenTypes', () => {
+    const statuses: StatusInstance[] = [];
+    addStatus(statuses, SEED_STATUS_EFFECTS.scorch, { sourceUsername: 'Alice' });
+    addStatus(statuses, SEED_STATUS_EFFECTS.sunder, { sourceUsername: 'Bob' });
+    expect(scaleByStatuses(100, statuses, 'damageTaken', 'arcane')).toBe(137); // 100 * 1.10 * 1.25
+    expect(scaleByStatuses(100, statuses, 'damageTaken', 'physical')).toBe(125); // scorch skips physical
+    expect(scaleByStatuses(100, statuses, 'damageDealt')).toBe(100);
+  });
+
+  it('statusBonusDamage groups positive bonuses by damage type', () => {
+    const statuses: StatusInstance[] = [];
+    addStatus(statuses, SEED_STATUS_EFFECTS.blessed_arms, { sourceUsername: 'Alice', modifiers: { bonusDamage: 3 } });
+    addStatus(statuses, SEED_STATUS_EFFECTS.blessed_arms, { sourceUsername: 'Bob', modifiers: { bonusDamage: 2 } });
+    expect(Array.from(statusBonusDamage(statuses))).toEqual([['holy', 5]]);
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────
+
+describe('validateStatusEffectDefinition', () => {
+  it('accepts every seed status', () => {
+    for (const def of Object.values(SEED_STATUS_EFFECTS)) {
+      expect(validateStatusEffectDefinition(def)).toEqual([]);
+    }
+  });
+
+  it('reports bad fields', () => {
+    const errors = validateStatusEffectDefinition(makeDef({
+      stacking: 'pile' as StatusEffectDefinition['stacking'],
+      duration: 0,
+      modifiers: { damageTaken: -1 },
+      tick: { kind: 'damage', amount: -2 },
+    }));
+    expect(errors).toHaveLength(4);
+  });
+
+  it('migrates legacy magical damage types to arcane', () => {
+    const legacy = {
+      ...makeDef(), tick: { kind: 'damage', amount: 2, damageType: 'magical' },
+      damageTakenTypes: ['magical', 'arcane', 'holy'], bonusDamageType: 'magical',
+    } as unknown as StatusEffectDefinition;
+    const migrated = migrateLegacyStatusEffect(legacy);
+    expect(migrated.tick?.damageType).toBe('arcane');
+    expect(migrated.damageTakenTypes).toEqual(['arcane', 'holy']);
+    expect(migrated.bonusDamageType).toBe('arcane');
+    expect(validateStatusEffectDefinition(migrated)).toEqual([]);
+  });
+});
+
+// ── Engine integration ───────────────────────────────────────
+
+describe('apply_status in combat', () => {
+  const poison: StatusEffectDefinition = {
+    id: 'poison', name: 'Poison', kind: 'debuff', stacking: 'stack', duration: 3, dispellable: true,
+    tick: { kind: 'damage', amount: 5, damageType: 'physical' },
+  };
+  const fortify: StatusEffectDefinition = {
+    id: 'fortify', name: 'Fortify', kind: 'buff', stacking: 'refresh', duration: 2, dispellable: true,
+    modifiers: { damageTaken: -0.5 },
+  };
+
+  it('applies a registered debuff that ticks at the start of the bearer\'s turn', () => {
+    const monster = createMonsterInstance(SEED_MONSTERS.goblin, 4);
+    monster.maxHp = 10000;
+    monster.currentHp = 10000;
+    const knight = makePlayer('Arthur', 1, {
+      equippedSkills: [statusSkill([{ kind: 'apply_status', statusEffectId: 'poison', statusTarget: 'enemy' }]), null, null, null, null],
+    });
+    const state = createPartyCombatState([knight], [monster], createRngState(1), { ...SEED_STATUS_EFFECTS, poison });
+
+    const cast = processPartyTick(state);
+    expect(cast.events).toContainEqual(expect.objectContaining({ type: 'debuff_applied', status: 'poison', effectName: 'Poison' }));
+    expect(state.monsters[0].statuses[0]).toMatchObject({ effectId: 'poison', stacks: 1, tickAmount: 5 });
+
+    const monsterTurn = processPartyTick(state);
+    expect(monsterTurn.events).toContainEqual(expect.objectContaining({ type: 'dot_tick', effectName: 'Poison', rawBySource: { Arthur: 5 } }));
+  });
+
+  it('grants a party buff as one grouped event and applies its modifiers', () => {
+    const knight = makePlayer('Arthur', 1, {
+      equippedSkills: [statusSkill([{ kind: 'apply_status', statusEffectId: 'fortify', statusTarget: 'party' }]), null, null, null, null],
+    });
+    const squire = makePlayer('Bors', 0);
+    const monster = createMonsterInstance(SEED_MONSTERS.goblin, 4);
+    const state = createPartyCombatState([knight, squire], [monster], createRngState(1), { ...SEED_STATUS_EFFECTS, fortify });
+
+    const cast = processPartyTick(state);
+    const applied = cast.events.filter(e => e.type === 'buff_applied');
+    expect(applied).toHaveLength(1);
+    expect(applied[0]).toMatchObject({ status: 'fortify', target: null });
+    expect(state.players.every(p => p.statuses.some(s => s.effectId === 'fortify'))).toBe(true);
+  });
+
+  it('is a no-op for an unknown status id', () => {
+    const knight = makePlayer('Arthur', 1, {
+      equippedSkills: [statusSkill([{ kind: 'apply_status', statusEffectId: 'missing', statusTarget: 'enemy' }]), null, null, null, null],
+    });
+    const state = createPartyCombatState([knight], [createMonsterInstance(SEED_MONSTERS.goblin, 4)], createRngState(1));
+    const result = processPartyTick(state);
+    expect(state.monsters[0].statuses).toEqual([]);
+    expect(result.events.some(e => e.type === 'damage' && e.cause === 'attack')).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getWorkOrderPayment,
+  getWorkOrderRefund,
+  getItemCrafterClasses,
+  getWorkOrderItemIds,
+  validateWorkOrder,
+} from '../src/systems/WorkOrderTypes';
+import type { WorkOrder } from '../src/systems/WorkOrderTypes';
+import { SEED_ITEMS } from '../src/systems/ItemTypes';
+import { SEED_RECIPES } from '../src/systems/CraftingTypes';
+
+function order(overrides: Partial<WorkOrder> = {}): WorkOrder {
+  return { id: 'o1', poster: 'alice', itemId: 'tempered_ingot', quantity: 3, reward: 100, delivered: 0, postedAt: 0, expiresAt: 1, ...overrides };
+}
+
+describe('work order payments', () => {
+  it('pays out exactly the reward however deliveries are split', () => {
+    for (const splits of [[1, 1, 1], [2, 1], [3]]) {
+      let delivered = 0;
+      let paid = 0;
+      for (const units of splits) {
+        paid += getWorkOrderPayment(order({ delivered }), units);
+        delivered += units;
+      }
+      expect(paid).toBe(100);
+    }
+    expect(getWorkOrderPayment(order({ delivered: 2 }), 5)).toBe(34);
+  });
+
+  it('refunds whatever has not been paid out', () => {
+    expect(getWorkOrderRefund(order())).toBe(100);
+    expect(getWorkOrderRefund(order({ delivered: 1 }))).toBe(67);
+  });
+});
+
+describe('work order items', () => {
+  it('names the classes that craft a component', () => {
+    expect(getItemCrafterClasses('tempered_ingot', SEED_RECIPES)).toEqual(['Knight']);
+    // Unrestricted recipes and raw materials have no crafter to point at
+    expect(getItemCrafterClasses('moth_eaten_cloak', SEED_RECIPES)).toEqual([]);
+    expect(getItemCrafterClasses('scrap_metal', SEED_RECIPES)).toEqual([]);
+  });
+
+  it('only orders stackable recipe results', () => {
+    const ids = getWorkOrderItemIds(SEED_RECIPES, SEED_ITEMS);
+    expect(ids).toContain('tempered_ingot');
+    expect(ids).not.toContain('magma_boots');
+    expect(ids).not.toContain('scrap_metal');
+  });
+
+  it('checks item, quantity and reward', () => {
+    expect(validateWorkOrder('tempered_ingot', 3, 300, SEED_RECIPES, SEED_ITEMS)).toBeNull();
+    expect(validateWorkOrder('scrap_metal', 3, 300, SEED_RECIPES, SEED_ITEMS)).toBe('That item cannot be ordered.');
+    expect(validateWorkOrder('tempered_ingot', 0, 300, SEED_RECIPES, SEED_ITEMS)).toBe('Invalid quantity.');
+    expect(validateWorkOrder('tempered_ingot', 3, 2, SEED_RECIPES, SEED_ITEMS)).toBe('Reward must be at least 1 gold per item.');
+  });
+});